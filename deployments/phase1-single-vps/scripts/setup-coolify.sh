@@ -60,9 +60,6 @@ log_info "Validating .env configuration..."
 source "$DEPLOY_DIR/.env"
 
 required_vars=(
-    "POSTGRES_PASSWORD"
-    "MONITORING_PASSWORD"
-    "GRAFANA_ADMIN_PASSWORD"
     "GITHUB_USERNAME"
 )
 
@@ -79,9 +76,20 @@ for var in "${required_vars[@]}"; do
     fi
 done
 
+# Passwords are Docker secrets, not .env values (generate with: openssl rand -base64 32)
+SECRETS_DIR="${SECRETS_DIR:-$DEPLOY_DIR/secrets}"
+for secret in postgres_password monitoring_password grafana_admin_password; do
+    if [ ! -s "$SECRETS_DIR/$secret" ]; then
+        log_error "$SECRETS_DIR/$secret is missing. Create it with: openssl rand -base64 32 | tr -d '\\n' > $SECRETS_DIR/$secret"
+        errors=$((errors + 1))
+    else
+        log_info "secrets/$secret ✓"
+    fi
+done
+
 if [ $errors -gt 0 ]; then
     echo ""
-    log_error "$errors configuration errors found. Fix .env and re-run."
+    log_error "$errors configuration errors found. Fix .env and secrets/, then re-run."
     exit 1
 fi
 
@@ -131,8 +139,9 @@ echo "2. DEPLOY POSTGRESQL:"
 echo "   • Go to: Services → + Create"
 echo "   • Select: Docker Compose"
 echo "   • Paste docker-compose.yml postgres service section"
+echo "   • Secret files: postgres_password, monitoring_password, grafana_admin_password (from secrets/)"
 echo "   • Environment variables (from .env):"
-for var in POSTGRES_PASSWORD POSTGRES_DB POSTGRES_USER POSTGRES_MEMORY POSTGRES_WORKLOAD_TYPE POSTGRES_STORAGE_TYPE GITHUB_USERNAME; do
+for var in POSTGRES_DB POSTGRES_USER POSTGRES_MEMORY POSTGRES_WORKLOAD_TYPE POSTGRES_STORAGE_TYPE GITHUB_USERNAME; do
     if [ -n "${!var:-}" ]; then
         echo "     - $var=${!var}"
     fi
@@ -147,8 +156,8 @@ echo "   • Copy output to pgbouncer/userlist.txt"
 echo ""
 echo "4. CREATE MONITORING USER (after PostgreSQL is running):"
 echo "   • Open PostgreSQL terminal in Coolify"
-echo "   • Run:"
-echo "     CREATE USER ${MONITORING_USER:-monitoring} WITH PASSWORD '${MONITORING_PASSWORD}';"
+echo "   • Run (password: contents of secrets/monitoring_password):"
+echo "     CREATE USER ${MONITORING_USER:-monitoring} WITH PASSWORD '<monitoring_password>';"
 echo "     GRANT pg_monitor TO ${MONITORING_USER:-monitoring};"
 echo ""
 echo "5. DEPLOY PGBOUNCER:"
@@ -169,17 +178,14 @@ echo "   • Import PostgreSQL dashboard (ID: 14114)"
 echo ""
 echo "========================================="
 echo ""
-log_info "Environment values to copy into Coolify:"
+log_info "Environment values to copy into Coolify (passwords stay in secrets/):"
 echo ""
-echo "POSTGRES_PASSWORD=${POSTGRES_PASSWORD}"
 echo "POSTGRES_DB=${POSTGRES_DB:-main}"
 echo "POSTGRES_USER=${POSTGRES_USER:-postgres}"
 echo "POSTGRES_MEMORY=${POSTGRES_MEMORY:-5GB}"
 echo "POSTGRES_WORKLOAD_TYPE=${POSTGRES_WORKLOAD_TYPE:-web}"
 echo "POSTGRES_STORAGE_TYPE=${POSTGRES_STORAGE_TYPE:-ssd}"
 echo "MONITORING_USER=${MONITORING_USER:-monitoring}"
-echo "MONITORING_PASSWORD=${MONITORING_PASSWORD}"
-echo "GRAFANA_ADMIN_PASSWORD=${GRAFANA_ADMIN_PASSWORD}"
 echo "GITHUB_USERNAME=${GITHUB_USERNAME}"
 echo ""
 echo "========================================="
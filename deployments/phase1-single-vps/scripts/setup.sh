@@ -59,9 +59,6 @@ log_info "Validating .env configuration..."
 source "$DEPLOY_DIR/.env"
 
 required_vars=(
-    "POSTGRES_PASSWORD"
-    "MONITORING_PASSWORD"
-    "GRAFANA_ADMIN_PASSWORD"
     "GITHUB_USERNAME"
 )
 
@@ -79,6 +76,18 @@ done
 
 log_info "All required variables are set"
 
+# Step 3b: Generate Docker secrets (passwords are never kept in .env)
+SECRETS_DIR="${SECRETS_DIR:-$DEPLOY_DIR/secrets}"
+mkdir -p "$SECRETS_DIR"
+for secret in postgres_password monitoring_password grafana_admin_password; do
+    if [ ! -s "$SECRETS_DIR/$secret" ]; then
+        openssl rand -base64 32 | tr -d '\n' >"$SECRETS_DIR/$secret"
+        log_info "Generated $SECRETS_DIR/$secret"
+    fi
+    # Readable by the container users (postgres, grafana, exporters)
+    chmod 644 "$SECRETS_DIR/$secret"
+done
+
 # Step 4: Create Docker network
 log_info "Creating Docker network 'aza-pg-network'..."
 if docker network inspect aza-pg-network &>/dev/null; then
@@ -120,9 +129,10 @@ echo ""
 
 # Step 9: Create monitoring user
 log_info "Creating monitoring database user..."
-docker exec postgres psql -U postgres <<EOF || log_warn "Monitoring user might already exist"
-CREATE USER ${MONITORING_USER:-monitoring} WITH PASSWORD '${MONITORING_PASSWORD}';
-GRANT pg_monitor TO ${MONITORING_USER:-monitoring};
+docker exec -i postgres psql -U postgres -v user="${MONITORING_USER:-monitoring}" \
+    -v password="$(cat "$SECRETS_DIR/monitoring_password")" <<'EOF' || log_warn "Monitoring user might already exist"
+CREATE USER :"user" WITH PASSWORD :'password';
+GRANT pg_monitor TO :"user";
 EOF
 
 # Step 10: Verify auto-config
@@ -170,7 +180,7 @@ echo "========================================="
 echo ""
 echo "Grafana:           http://$(hostname -I | awk '{print $1}'):3000"
 echo "  Username:        admin"
-echo "  Password:        (value from GRAFANA_ADMIN_PASSWORD in .env)"
+echo "  Password:        (contents of $SECRETS_DIR/grafana_admin_password)"
 echo ""
 echo "Prometheus:        http://$(hostname -I | awk '{print $1}'):9090"
 echo ""
@@ -179,7 +189,7 @@ echo "  Host:            postgres (or VPS IP for external)"
 echo "  Port:            5432"
 echo "  Database:        ${POSTGRES_DB:-main}"
 echo "  User:            postgres"
-echo "  Password:        (value from POSTGRES_PASSWORD in .env)"
+echo "  Password:        (contents of $SECRETS_DIR/postgres_password)"
 echo ""
 echo "PgBouncer (recommended for all connections):"
 echo "  Host:            pgbouncer"
@@ -259,16 +259,23 @@ if [ -f "$DEPLOY_DIR/.env" ]; then
     if grep -q "CHANGE_ME" "$DEPLOY_DIR/.env"; then
         test_fail ".env contains CHANGE_ME placeholders"
     else
-        test_pass ".env passwords updated"
+        test_pass ".env placeholders updated"
     fi
+fi
 
-    PG_PASS_LEN=$(grep "POSTGRES_PASSWORD=" "$DEPLOY_DIR/.env" | cut -d'=' -f2 | tr -d '"' | wc -c)
-    if [ "$PG_PASS_LEN" -ge 20 ]; then
-        test_pass "POSTGRES_PASSWORD length sufficient (${PG_PASS_LEN} chars)"
+SECRETS_DIR="${SECRETS_DIR:-$DEPLOY_DIR/secrets}"
+for secret in postgres_password monitoring_password grafana_admin_password; do
+    if [ ! -s "$SECRETS_DIR/$secret" ]; then
+        test_fail "secrets/$secret missing (run ./scripts/setup.sh)"
+        continue
+    fi
+    PASS_LEN=$(tr -d '\n' <"$SECRETS_DIR/$secret" | wc -c)
+    if [ "$PASS_LEN" -ge 20 ]; then
+        test_pass "secrets/$secret length sufficient (${PASS_LEN} chars)"
     else
-        test_warn "POSTGRES_PASSWORD short (${PG_PASS_LEN} chars, recommend ≥32)"
+        test_warn "secrets/$secret short (${PASS_LEN} chars, recommend ≥32)"
     fi
-fi
+done
 
 # Test 8.3: File permissions
 USERLIST_PERMS=$(stat -c "%a" "$DEPLOY_DIR/pgbouncer/userlist.txt" 2>/dev/null || echo "000")
@@ -2,6 +2,9 @@
 # AUTO-GENERATED FILE - DO NOT EDIT
 # Generator: scripts/docker/generate-entrypoint.ts
 # Template: docker/postgres/docker-auto-config-entrypoint.sh.template
+# Tuning tables: scripts/config/tuning.ts
+# Extension profiles: scripts/extensions/runtime-profiles.ts
+# JSON log settings: scripts/config-generator/logging.ts
 # Manifest: docker/postgres/extensions.manifest.json
 # To regenerate: bun run generate
 
@@ -22,11 +25,11 @@ readonly DEFAULT_RAM_MB=1024
 # Note: pg_stat_monitor and pg_stat_statements can coexist in PG18 via pgsm aggregation
 readonly DEFAULT_SHARED_PRELOAD_LIBRARIES="auto_explain,pg_cron,pg_net,pg_stat_monitor,pg_stat_statements,pgaudit,pgsodium,safeupdate,timescaledb"
 
+# Tuning caps and workload/storage lookup tables, rendered from scripts/config/tuning.ts
+# (preview any combination with: bun scripts/config/plan.ts --memory 8192 --cpus 4)
 readonly SHARED_BUFFERS_CAP_MB=32768
 readonly MAINTENANCE_WORK_MEM_CAP_MB=2048
 readonly WORK_MEM_CAP_MB=32
-
-# Additional caps for new parameters
 readonly WORK_MEM_DW_CAP_MB=256
 readonly OS_RESERVE_MB=512
 readonly CONNECTION_OVERHEAD_PER_CONN_MB=10
@@ -77,6 +80,54 @@ declare -A STORAGE_MAINT_IO_CONCURRENCY=(
     [hdd]=10
 )
 
+# Runtime extension profiles (POSTGRES_EXTENSION_PROFILE), rendered from scripts/extensions/runtime-profiles.ts
+readonly EXTENSION_PROFILE_NAMES=(core default ai timeseries queue supabase-compat)
+readonly EXTENSION_PROFILE_ORDER='http,hypopg,index_advisor,pg_cron,pg_hashids,pg_jsonschema,pg_net,pg_stat_monitor,pg_stat_statements,pg_trgm,pgaudit,pgmq,pgsodium,supabase_vault,plpgsql,timescaledb,timescaledb_toolkit,vector,vectorscale,wrappers'
+
+# Extensions created at init, per profile (comma-separated)
+declare -A EXTENSION_PROFILE_EXTENSIONS=(
+    [core]='pg_stat_statements,pg_trgm,plpgsql'
+    [default]='pg_cron,pg_net,pg_stat_monitor,pg_stat_statements,pg_trgm,pgaudit,pgmq,pgsodium,supabase_vault,plpgsql,timescaledb,vector,vectorscale'
+    [ai]='vector,vectorscale'
+    [timeseries]='timescaledb,timescaledb_toolkit'
+    [queue]='pg_cron,pg_net,pgmq,pgsodium,supabase_vault'
+    [supabase-compat]='http,hypopg,index_advisor,pg_cron,pg_hashids,pg_jsonschema,pg_net,pg_stat_statements,pgsodium,supabase_vault,wrappers'
+)
+
+# shared_preload_libraries, per profile (comma-separated)
+declare -A EXTENSION_PROFILE_PRELOAD=(
+    [core]='auto_explain,pg_stat_statements'
+    [default]='auto_explain,pg_cron,pg_net,pg_stat_monitor,pg_stat_statements,pgaudit,pgsodium,safeupdate,timescaledb'
+    [ai]=''
+    [timeseries]='timescaledb'
+    [queue]='pg_cron,pg_net,pgsodium'
+    [supabase-compat]='pg_cron,pg_net,pg_stat_statements,pgsodium,supautils'
+)
+
+# GUC defaults, per profile (space-separated name=value)
+declare -A EXTENSION_PROFILE_SETTINGS=(
+    [ai]='hnsw.iterative_scan=strict_order ivfflat.iterative_scan=relaxed_order'
+    [timeseries]='timescaledb.telemetry_level=off'
+)
+
+# Profiles this image cannot provide, with the reason
+declare -A EXTENSION_PROFILE_UNAVAILABLE=(
+    [geo]='pgrouting: disabled in the manifest (Disabled to reduce build time and image size. Depends on PostGIS which is also disabled. Enable when routing functionality is needed.); postgis: disabled in the manifest (Disabled to reduce build time and image size. GIS functionality not currently required. Enable when spatial data support is needed.)'
+)
+
+# Logging collector settings of POSTGRES_LOG_FORMAT=json, rendered from scripts/config-generator/logging.ts
+readonly JSON_LOG_DIRECTORY='/var/log/postgresql'
+readonly JSON_LOG_FILE='postgresql.json'
+readonly JSON_LOG_STDERR_FILE='postgresql.log'
+readonly JSON_LOG_ARGS=(
+    -c 'log_destination=jsonlog'
+    -c 'logging_collector=on'
+    -c 'log_directory=/var/log/postgresql'
+    -c 'log_filename=postgresql.log'
+    -c 'log_rotation_age=0'
+    -c 'log_rotation_size=0'
+)
+
 if [ "$#" -eq 0 ]; then
     set -- postgres
 elif [ "${1#-}" != "$1" ]; then
@@ -87,6 +138,42 @@ if [ "$1" != "postgres" ]; then
     exec /usr/local/bin/docker-entrypoint.sh "$@"
 fi
 
+# Fenced by scripts/tools/failover-agent.ts after its replica was promoted: starting this server
+# again would give clients two writable primaries
+FENCE_MARKER=/var/lib/postgresql/aza-pg.fenced
+if [ -f "$FENCE_MARKER" ]; then
+    echo "[POSTGRES] ERROR: This server was fenced by the failover agent ($(cat "$FENCE_MARKER" 2>/dev/null))" >&2
+    echo "[POSTGRES] Rejoin it as a replica of the new primary, then remove $FENCE_MARKER" >&2
+    exit 1
+fi
+
+# Docker secrets: each credential variable also accepts <NAME>_FILE (e.g. /run/secrets/<name>).
+# POSTGRES_PASSWORD_FILE is resolved by docker-entrypoint.sh itself; init scripts and pgBackRest's
+# archive_command inherit the variables resolved here. Trailing newlines are stripped.
+file_env() {
+    local var="$1"
+    local file_var="${var}_FILE"
+    local file="${!file_var:-}"
+    if [ -z "$file" ]; then
+        return 0
+    fi
+    if [ -n "${!var:-}" ]; then
+        echo "[POSTGRES] ERROR: Both ${var} and ${file_var} are set (they are exclusive)" >&2
+        exit 1
+    fi
+    if [ ! -r "$file" ]; then
+        echo "[POSTGRES] ERROR: ${file_var}=${file} is not readable by $(id -un) (uid $(id -u))" >&2
+        exit 1
+    fi
+    export "$var"="$(<"$file")"
+    unset "$file_var"
+}
+
+for secret_var in PG_REPLICATION_PASSWORD PGBOUNCER_AUTH_PASS \
+    PGBACKREST_REPO1_CIPHER_PASS PGBACKREST_REPO1_S3_KEY PGBACKREST_REPO1_S3_KEY_SECRET; do
+    file_env "$secret_var"
+done
+
 # Data checksums are enabled by default via official Debian PostgreSQL package initdb wrapper.
 # Override: Set DISABLE_DATA_CHECKSUMS=true to disable (not recommended - reduces corruption detection).
 if [ "${DISABLE_DATA_CHECKSUMS:-false}" = "true" ]; then
@@ -448,27 +535,117 @@ fi
 # Auto-detect pgsodium support: only include if getkey script exists and works
 # pgsodium v3.1.9 crashes PostgreSQL if loaded without valid getkey script
 # Use pg_config to get sharedir path (works for any PG version)
-PG_SHAREDIR=$(pg_config --sharedir 2>/dev/null || echo "/usr/share/postgresql/18")
+PG_SHAREDIR=$(pg_config --sharedir 2>/dev/null || echo "/usr/share/postgresql/${PG_MAJOR:-18}")
 PGSODIUM_GETKEY_PATH="${PG_SHAREDIR}/extension/pgsodium_getkey"
 PGSODIUM_ENABLED=""
+# A configured root key must work: starting without pgsodium would hide the vault secrets.
+# The postmaster runs the getkey script as postgres, so the key file is checked as that user.
+if [ -n "${PGSODIUM_ROOT_KEY_FILE:-}" ]; then
+    key_reader=()
+    if [ "$(id -u)" = "0" ]; then
+        key_reader=(gosu postgres)
+    fi
+    if ! "${key_reader[@]}" test -r "$PGSODIUM_ROOT_KEY_FILE"; then
+        echo "[POSTGRES] ERROR: PGSODIUM_ROOT_KEY_FILE=${PGSODIUM_ROOT_KEY_FILE} is not readable by postgres" >&2
+        exit 1
+    fi
+fi
 if [ -x "${PGSODIUM_GETKEY_PATH}" ]; then
     # Verify script produces valid output (64 hex chars, trim whitespace)
     GETKEY_OUTPUT=$("${PGSODIUM_GETKEY_PATH}" 2>/dev/null | tr -d '[:space:]' || echo "")
     if [[ "${GETKEY_OUTPUT}" =~ ^[0-9a-fA-F]{64}$ ]]; then
         PGSODIUM_ENABLED="true"
         echo "[POSTGRES] [AUTO-CONFIG] pgsodium enabled (getkey script at ${PGSODIUM_GETKEY_PATH} validated)"
+        # Fixed fallback key of the built-in pgsodium_getkey (neither PGSODIUM_ROOT_KEY_FILE nor PGSODIUM_ROOT_KEY set)
+        if [ "${GETKEY_OUTPUT,,}" = "4670bdf714d653c15779e67e0bb6012f1e229c86edbdf75285f3c592670cece2" ]; then
+            echo "[POSTGRES] [AUTO-CONFIG] WARNING: pgsodium uses the built-in TEST root key - set PGSODIUM_ROOT_KEY_FILE for production" >&2
+        fi
+    elif [ -n "${PGSODIUM_ROOT_KEY_FILE:-}${PGSODIUM_ROOT_KEY:-}" ]; then
+        echo "[POSTGRES] ERROR: The pgsodium root key from PGSODIUM_ROOT_KEY(_FILE) is invalid (expected 64 hex chars)" >&2
+        exit 1
     else
         echo "[POSTGRES] [AUTO-CONFIG] pgsodium DISABLED (getkey script output invalid: expected 64 hex chars)"
     fi
+elif [ -n "${PGSODIUM_ROOT_KEY_FILE:-}${PGSODIUM_ROOT_KEY:-}" ]; then
+    echo "[POSTGRES] ERROR: PGSODIUM_ROOT_KEY(_FILE) is set but there is no executable script at ${PGSODIUM_GETKEY_PATH}" >&2
+    exit 1
 else
     echo "[POSTGRES] [AUTO-CONFIG] pgsodium DISABLED (no executable script at ${PGSODIUM_GETKEY_PATH})"
 fi
 
+# Resolve extension profiles: comma-separated names, default when unset.
+# Any selection without "default" also gets "core" (default-enabled builtins).
+declare -A PROFILE_SELECTED=()
+IFS=',' read -ra REQUESTED_PROFILES <<< "${POSTGRES_EXTENSION_PROFILE:-default}"
+for profile in "${REQUESTED_PROFILES[@]}"; do
+    profile="${profile//[[:space:]]/}"
+    [ -z "$profile" ] && continue
+    if [[ "$profile" =~ ^[a-z0-9-]+$ ]] && [ -n "${EXTENSION_PROFILE_UNAVAILABLE[$profile]:-}" ]; then
+        echo "[POSTGRES] ERROR: Extension profile '$profile' is not available in this image: ${EXTENSION_PROFILE_UNAVAILABLE[$profile]}" >&2
+        exit 1
+    fi
+    if ! [[ "$profile" =~ ^[a-z0-9-]+$ ]] || [ -z "${EXTENSION_PROFILE_EXTENSIONS[$profile]+set}" ]; then
+        echo "[POSTGRES] ERROR: Invalid POSTGRES_EXTENSION_PROFILE entry '$profile' (available: ${EXTENSION_PROFILE_NAMES[*]})" >&2
+        exit 1
+    fi
+    PROFILE_SELECTED[$profile]=1
+done
+if [ "${#PROFILE_SELECTED[@]}" -eq 0 ]; then
+    echo "[POSTGRES] ERROR: POSTGRES_EXTENSION_PROFILE must name at least one profile (available: ${EXTENSION_PROFILE_NAMES[*]})" >&2
+    exit 1
+fi
+if [ -z "${PROFILE_SELECTED[default]:-}" ]; then
+    PROFILE_SELECTED[core]=1
+fi
+
+# Union of the selected profiles (settings keep table order, so later profiles win)
+ACTIVE_PROFILES=()
+PROFILE_SETTINGS=()
+declare -A PROFILE_EXTENSION_SET=()
+declare -A PROFILE_PRELOAD_SET=()
+for profile in "${EXTENSION_PROFILE_NAMES[@]}"; do
+    if [ -z "${PROFILE_SELECTED[$profile]:-}" ]; then
+        continue
+    fi
+    ACTIVE_PROFILES+=("$profile")
+    IFS=',' read -ra items <<< "${EXTENSION_PROFILE_EXTENSIONS[$profile]}"
+    for item in "${items[@]}"; do
+        PROFILE_EXTENSION_SET[$item]=1
+    done
+    IFS=',' read -ra items <<< "${EXTENSION_PROFILE_PRELOAD[$profile]}"
+    for item in "${items[@]}"; do
+        PROFILE_PRELOAD_SET[$item]=1
+    done
+    read -ra items <<< "${EXTENSION_PROFILE_SETTINGS[$profile]:-}"
+    PROFILE_SETTINGS+=("${items[@]}")
+done
+
+# Extensions in creation (dependency) order, preload libraries sorted like the manifest default
+PROFILE_EXTENSIONS=""
+IFS=',' read -ra items <<< "$EXTENSION_PROFILE_ORDER"
+for item in "${items[@]}"; do
+    if [ -n "${PROFILE_EXTENSION_SET[$item]:-}" ]; then
+        PROFILE_EXTENSIONS="${PROFILE_EXTENSIONS:+${PROFILE_EXTENSIONS},}${item}"
+    fi
+done
+PROFILE_PRELOAD=""
+if [ "${#PROFILE_PRELOAD_SET[@]}" -gt 0 ]; then
+    PROFILE_PRELOAD=$(printf '%s\n' "${!PROFILE_PRELOAD_SET[@]}" | LC_ALL=C sort | paste -sd, -)
+fi
+EXTENSION_PROFILE=$(IFS=','; echo "${ACTIVE_PROFILES[*]}")
+echo "[POSTGRES] [AUTO-CONFIG] Extension profile: ${EXTENSION_PROFILE} → extensions=${PROFILE_EXTENSIONS}, preload=${PROFILE_PRELOAD}${PROFILE_SETTINGS[*]:+, settings: ${PROFILE_SETTINGS[*]}}"
+
+# Remove pgsodium from a preload list (handles: "pgsodium,x", "x,pgsodium", "x,pgsodium,y")
+without_pgsodium() {
+    echo "$1" | sed 's/,pgsodium//g; s/pgsodium,//g; s/^pgsodium$//g'
+}
+
 # Build shared_preload_libraries - remove pgsodium if not enabled
-BASE_PRELOAD_LIBRARIES=${POSTGRES_SHARED_PRELOAD_LIBRARIES:-$DEFAULT_SHARED_PRELOAD_LIBRARIES}
+# POSTGRES_SHARED_PRELOAD_LIBRARIES still replaces the profile list wholesale
+BASE_PRELOAD_LIBRARIES=${POSTGRES_SHARED_PRELOAD_LIBRARIES:-$PROFILE_PRELOAD}
 if [ "${PGSODIUM_ENABLED}" != "true" ]; then
-    # Remove pgsodium from list (handles: "pgsodium,x", "x,pgsodium", "x,pgsodium,y")
-    SHARED_PRELOAD_LIBRARIES=$(echo "${BASE_PRELOAD_LIBRARIES}" | sed 's/,pgsodium//g; s/pgsodium,//g; s/^pgsodium$//g')
+    SHARED_PRELOAD_LIBRARIES=$(without_pgsodium "${BASE_PRELOAD_LIBRARIES}")
+    PROFILE_PRELOAD=$(without_pgsodium "${PROFILE_PRELOAD}")
 else
     SHARED_PRELOAD_LIBRARIES="${BASE_PRELOAD_LIBRARIES}"
 fi
@@ -488,6 +665,109 @@ case "$WAL_LEVEL" in
         ;;
 esac
 
+# Scheduled backups: the primary stack's "backup" sidecar runs pgBackRest on BACKUP_SCHEDULE,
+# so WAL is archived into the same repository. pgBackRest reads PGBACKREST_* from the environment,
+# which archive_command inherits from the postmaster.
+BACKUP_ARCHIVING=false
+if [ -n "${BACKUP_SCHEDULE:-}" ]; then
+    BACKUP_STANZA=${BACKUP_STANZA:-main}
+    BACKUP_REPO_PATH=${BACKUP_REPO_PATH:-/backup/pgbackrest}
+    if [[ ! "$BACKUP_STANZA" =~ ^[A-Za-z0-9_-]+$ ]]; then
+        echo "[POSTGRES] ERROR: Invalid BACKUP_STANZA='$BACKUP_STANZA'" >&2
+        exit 1
+    fi
+    if [[ "$BACKUP_REPO_PATH" != /* ]]; then
+        echo "[POSTGRES] ERROR: BACKUP_REPO_PATH must be an absolute path: '$BACKUP_REPO_PATH'" >&2
+        exit 1
+    fi
+    if [ "$WAL_LEVEL" = "minimal" ]; then
+        echo "[POSTGRES] ERROR: BACKUP_SCHEDULE needs WAL archiving, which POSTGRES_WAL_LEVEL=minimal does not support" >&2
+        exit 1
+    fi
+    export PGBACKREST_STANZA="$BACKUP_STANZA"
+    export PGBACKREST_REPO1_PATH="$BACKUP_REPO_PATH"
+    export PGBACKREST_PG1_PATH="$PGDATA"
+    export PGBACKREST_LOG_LEVEL_FILE=off
+    if [ -n "${PGBACKREST_REPO1_CIPHER_PASS:-}" ]; then
+        export PGBACKREST_REPO1_CIPHER_TYPE="${PGBACKREST_REPO1_CIPHER_TYPE:-aes-256-cbc}"
+    fi
+    BACKUP_ARCHIVING=true
+    echo "[POSTGRES] [AUTO-CONFIG] Scheduled backups enabled → archive_mode=on, pgBackRest stanza ${BACKUP_STANZA} in ${BACKUP_REPO_PATH}"
+fi
+
+# TLS mode: POSTGRES_TLS=require turns SSL on with the certificates from
+# scripts/tools/generate-ssl-certs.ts (mounted at /etc/postgresql/certs) and loads the generated
+# pg_hba-tls.conf, whose hostssl rules refuse plaintext TCP connections. PostgreSQL refuses a key
+# other users can read, so the certificates are copied next to PGDATA with private permissions.
+POSTGRES_TLS=${POSTGRES_TLS:-disable}
+case "$POSTGRES_TLS" in
+    disable|require)
+        ;;
+    *)
+        echo "[POSTGRES] ERROR: Invalid POSTGRES_TLS='$POSTGRES_TLS' (must be: disable or require)" >&2
+        exit 1
+        ;;
+esac
+if [ "$POSTGRES_TLS" = "require" ]; then
+    TLS_SOURCE_DIR=/etc/postgresql/certs
+    TLS_HBA_FILE=/etc/postgresql/pg_hba-tls.conf
+    TLS_DIR=/var/lib/postgresql/tls
+    for tls_file in server.crt server.key ca.crt; do
+        if [ ! -r "$TLS_SOURCE_DIR/$tls_file" ]; then
+            echo "[POSTGRES] ERROR: POSTGRES_TLS=require but $TLS_SOURCE_DIR/$tls_file is missing (generate it with scripts/tools/generate-ssl-certs.ts)" >&2
+            exit 1
+        fi
+    done
+    if [ ! -r "$TLS_HBA_FILE" ]; then
+        echo "[POSTGRES] ERROR: POSTGRES_TLS=require but $TLS_HBA_FILE is missing" >&2
+        exit 1
+    fi
+    mkdir -p "$TLS_DIR"
+    cp "$TLS_SOURCE_DIR/server.crt" "$TLS_SOURCE_DIR/server.key" "$TLS_SOURCE_DIR/ca.crt" "$TLS_DIR/"
+    # Replication client certificate (cert auth): replicas present it to their upstream
+    if [ -r "$TLS_SOURCE_DIR/replicator.crt" ] && [ -r "$TLS_SOURCE_DIR/replicator.key" ]; then
+        cp "$TLS_SOURCE_DIR/replicator.crt" "$TLS_SOURCE_DIR/replicator.key" "$TLS_DIR/"
+        chmod 600 "$TLS_DIR/replicator.key"
+    fi
+    chmod 700 "$TLS_DIR"
+    chmod 600 "$TLS_DIR/server.key"
+    if [ "$(id -u)" = "0" ]; then
+        chown -R postgres:postgres "$TLS_DIR"
+    fi
+    # Replica init scripts connect to the primary with verify-full against this CA
+    export POSTGRES_TLS_CA_FILE="$TLS_DIR/ca.crt"
+    echo "[POSTGRES] [AUTO-CONFIG] TLS mode → ssl=on, hostssl-only pg_hba (${TLS_HBA_FILE})"
+fi
+
+# Log format: POSTGRES_LOG_FORMAT=json switches to jsonlog (one JSON object per line, SQLSTATE in
+# state_code), which only the logging collector writes. Its files in JSON_LOG_DIRECTORY link to
+# copies of this script's stdout/stderr on descriptors 7 and 8: PostgreSQL leaves those alone when
+# it points its own stdout/stderr at the collector, so the lines still reach docker logs.
+POSTGRES_LOG_FORMAT=${POSTGRES_LOG_FORMAT:-text}
+case "$POSTGRES_LOG_FORMAT" in
+    text|json)
+        ;;
+    *)
+        echo "[POSTGRES] ERROR: Invalid POSTGRES_LOG_FORMAT='$POSTGRES_LOG_FORMAT' (must be: text or json)" >&2
+        exit 1
+        ;;
+esac
+if [ "$POSTGRES_LOG_FORMAT" = "json" ]; then
+    if [ ! -w "$JSON_LOG_DIRECTORY" ]; then
+        echo "[POSTGRES] ERROR: POSTGRES_LOG_FORMAT=json but $JSON_LOG_DIRECTORY is not writable" >&2
+        exit 1
+    fi
+    exec 7>&1 8>&2
+    ln -sfn /proc/self/fd/7 "$JSON_LOG_DIRECTORY/$JSON_LOG_FILE"
+    ln -sfn /proc/self/fd/8 "$JSON_LOG_DIRECTORY/$JSON_LOG_STDERR_FILE"
+    # The collector reopens the descriptors as postgres: hand over the container's output the way
+    # the runtime does when the container itself runs as a non-root user
+    if [ "$(id -u)" = "0" ]; then
+        chown postgres:postgres /proc/self/fd/7 /proc/self/fd/8 2>/dev/null || true
+    fi
+    echo "[POSTGRES] [AUTO-CONFIG] JSON log mode → log_destination=jsonlog via the logging collector"
+fi
+
 # Override listen_addresses based on POSTGRES_BIND_IP
 # Default: 127.0.0.1 (localhost only, secure)
 # Network replication: Set POSTGRES_BIND_IP to specific IP or 0.0.0.0 for all interfaces
@@ -499,6 +779,14 @@ else
     echo "[POSTGRES] [AUTO-CONFIG] Secure mode (localhost only) → listen_addresses=${LISTEN_ADDR}"
 fi
 
+# Profile GUC defaults go before the user's arguments, so an explicit -c still overrides them
+PROFILE_SETTING_ARGS=()
+for setting in "${PROFILE_SETTINGS[@]}"; do
+    PROFILE_SETTING_ARGS+=(-c "$setting")
+done
+shift
+set -- postgres "${PROFILE_SETTING_ARGS[@]}" "$@"
+
 echo "[POSTGRES] [AUTO-CONFIG] RAM: ${TOTAL_RAM_MB}MB ($RAM_SOURCE), CPU: ${CPU_CORES} cores ($CPU_SOURCE), Workload: ${WORKLOAD_TYPE}, Storage: ${STORAGE_TYPE} → shared_buffers=${SHARED_BUFFERS_MB}MB, effective_cache_size=${EFFECTIVE_CACHE_MB}MB, maintenance_work_mem=${MAINTENANCE_WORK_MEM_MB}MB, work_mem=${WORK_MEM_MB}MB, max_connections=${MAX_CONNECTIONS}, wal_buffers=${WAL_BUFFERS_MB}MB, checkpoint_completion_target=${CHECKPOINT_COMPLETION_TARGET}, min_wal_size=${MIN_WAL_SIZE_MB}MB, max_wal_size=${MAX_WAL_SIZE_MB}MB, random_page_cost=${RANDOM_PAGE_COST}, default_statistics_target=${DEFAULT_STATISTICS_TARGET}, io_workers=${IO_WORKERS}, wal_level=${WAL_LEVEL}"
 
 set -- "$@" \
@@ -540,9 +828,160 @@ fi
 # Always apply listen_addresses explicitly (prevents PostgreSQL default of '*')
 set -- "$@" -c "listen_addresses=${LISTEN_ADDR}"
 
+# JSON log mode (after the user's arguments, so it replaces a log_destination from postgresql.conf)
+if [ "$POSTGRES_LOG_FORMAT" = "json" ]; then
+    set -- "$@" "${JSON_LOG_ARGS[@]}"
+fi
+
 # pgsodium getkey_script (only if enabled - explicitly set to avoid path detection issues)
 if [ "${PGSODIUM_ENABLED}" = "true" ]; then
     set -- "$@" -c "pgsodium.getkey_script=${PGSODIUM_GETKEY_PATH}"
 fi
 
+# WAL archiving for scheduled backups; aza.backup_info lets the exporter read backup.info
+if [ "$BACKUP_ARCHIVING" = "true" ]; then
+    set -- "$@" \
+        -c "archive_mode=on" \
+        -c "archive_command=pgbackrest archive-push %p" \
+        -c "aza.backup_info=${BACKUP_REPO_PATH}/backup/${BACKUP_STANZA}/backup.info"
+fi
+
+# User name maps for cert/peer pg_hba rules (generated pg_ident.conf, mounted by the stacks)
+if [ -r /etc/postgresql/pg_ident.conf ]; then
+    set -- "$@" -c "ident_file=/etc/postgresql/pg_ident.conf"
+fi
+
+# TLS mode (hba_file after the user's arguments, so it replaces the stack's plaintext pg_hba.conf)
+if [ "$POSTGRES_TLS" = "require" ]; then
+    set -- "$@" \
+        -c "ssl=on" \
+        -c "ssl_cert_file=${TLS_DIR}/server.crt" \
+        -c "ssl_key_file=${TLS_DIR}/server.key" \
+        -c "ssl_ca_file=${TLS_DIR}/ca.crt" \
+        -c "ssl_min_protocol_version=TLSv1.2" \
+        -c "hba_file=${TLS_HBA_FILE}"
+fi
+
+# Active extension profile, read by 01-extensions.sql, the pgflow init scripts and the healthcheck
+set -- "$@" \
+    -c "aza.extension_profile=${EXTENSION_PROFILE}" \
+    -c "aza.profile_extensions=${PROFILE_EXTENSIONS}" \
+    -c "aza.profile_preload=${PROFILE_PRELOAD}"
+
+# Auto-config inputs, exported by the aza_pg_autoconfig metrics query
+set -- "$@" \
+    -c "aza.workload_type=${WORKLOAD_TYPE}" \
+    -c "aza.storage_type=${STORAGE_TYPE}" \
+    -c "aza.ram_mb=${TOTAL_RAM_MB}" \
+    -c "aza.ram_source=${RAM_SOURCE}" \
+    -c "aza.cpu_cores=${CPU_CORES}" \
+    -c "aza.cpu_source=${CPU_SOURCE}"
+
+# pgsodium root key check: vault secrets must decrypt with the key from the getkey script. A
+# mismatch refuses to start, unless PGSODIUM_ROOT_KEY_PREVIOUS(_FILE) holds the key they were
+# encrypted with: then they are re-encrypted with the current key (rotation). Runs against
+# temporary socket-only servers and covers every database with supabase_vault installed (it is
+# not preloaded by default); standbys get their secrets from the primary.
+if [ "${PGSODIUM_ENABLED}" = "true" ] && [ "${PGSODIUM_VERIFY_KEY:-true}" = "true" ] &&
+    [ -s "${PGDATA:-}/PG_VERSION" ] && [ ! -f "$PGDATA/standby.signal" ]; then
+    echo "[POSTGRES] [AUTO-CONFIG] Verifying the pgsodium root key against the vault secrets"
+    verify_root_key=(/usr/local/bin/pgsodium-key.sh startup "$@")
+    if [ "$(id -u)" = "0" ]; then
+        gosu postgres "${verify_root_key[@]}"
+    else
+        "${verify_root_key[@]}"
+    fi
+fi
+
+# Declarative roles (/etc/postgresql/roles.yaml): the init scripts apply them on first start; on
+# later starts 06-roles.sh runs against a temporary socket-only server, so edits to the file and
+# new image versions take effect before clients connect. Standbys get roles from the primary.
+ROLES_FILE=/etc/postgresql/roles.yaml
+if [ -s "$ROLES_FILE" ] && [ -s "${PGDATA:-}/PG_VERSION" ] && [ ! -f "$PGDATA/standby.signal" ]; then
+    echo "[POSTGRES] [AUTO-CONFIG] Reconciling roles from ${ROLES_FILE}"
+    reconcile_roles=(bash -c '
+        source /usr/local/bin/docker-entrypoint.sh
+        docker_setup_env
+        export PGPASSWORD="${PGPASSWORD:-${POSTGRES_PASSWORD:-}}"
+        docker_temp_server_start "$@"
+        if ! /docker-entrypoint-initdb.d/06-roles.sh; then
+            docker_temp_server_stop
+            exit 1
+        fi
+        docker_temp_server_stop
+    ' reconcile-roles "$@")
+    if [ "$(id -u)" = "0" ]; then
+        gosu postgres "${reconcile_roles[@]}"
+    else
+        "${reconcile_roles[@]}"
+    fi
+fi
+
+# Built-in metrics endpoint (POSTGRES_METRICS_PORT): a server next to PostgreSQL that queries it
+# through the local socket on every scrape, so it simply reports pg_up 0 until the server is up
+if [ -n "${POSTGRES_METRICS_PORT:-}" ]; then
+    if ! [[ "$POSTGRES_METRICS_PORT" =~ ^[0-9]{1,5}$ ]] || [ "$POSTGRES_METRICS_PORT" -lt 1 ] ||
+        [ "$POSTGRES_METRICS_PORT" -gt 65535 ]; then
+        echo "[POSTGRES] ERROR: POSTGRES_METRICS_PORT must be a port number (1-65535), got '$POSTGRES_METRICS_PORT'" >&2
+        exit 1
+    fi
+    # Default to the container's own address: reachable from its networks (a Prometheus container,
+    # published ports) without listening on every interface, e.g. the host's with network_mode: host
+    if [ -z "${POSTGRES_METRICS_LISTEN:-}" ]; then
+        POSTGRES_METRICS_LISTEN=$({ getent ahostsv4 "$HOSTNAME" 2>/dev/null || true; } |
+            awk '$1 !~ /^127\./ { print $1; exit }')
+        POSTGRES_METRICS_LISTEN="${POSTGRES_METRICS_LISTEN:-127.0.0.1}"
+    fi
+    echo "[POSTGRES] [AUTO-CONFIG] Metrics endpoint on ${POSTGRES_METRICS_LISTEN}:${POSTGRES_METRICS_PORT} (/metrics)"
+    export POSTGRES_METRICS_PORT POSTGRES_METRICS_LISTEN
+
+    start_metrics_server() {
+        if [ "$(id -u)" = "0" ]; then
+            gosu postgres /usr/local/bin/metrics-server.pl serve &
+        else
+            /usr/local/bin/metrics-server.pl serve &
+        fi
+        metrics_pid=$!
+    }
+
+    # The metrics server must not be a child of the postmaster: PostgreSQL treats an untracked
+    # child that dies from a signal (OOM kill, crash) as a crashed backend and restarts every
+    # session, and orphans would be re-parented to it as PID 1. So this shell stays PID 1 and
+    # supervises both: stop and reload signals go to PostgreSQL, the metrics server is restarted
+    # when it exits and stopped once PostgreSQL has, and the container exits with PostgreSQL's status.
+    start_metrics_server
+    /usr/local/bin/docker-entrypoint.sh "$@" &
+    postgres_pid=$!
+    for signal in TERM INT QUIT HUP USR1 USR2; do
+        # shellcheck disable=SC2064 # expand the signal now, the pid when it arrives
+        trap "kill -${signal} \"\$postgres_pid\" 2>/dev/null || true" "$signal"
+    done
+
+    restart_pid=""
+    while true; do
+        exited=""
+        status=0
+        # Returns early, with exited unset, when a forwarded signal arrives
+        wait -n -p exited "$postgres_pid" ${metrics_pid:+"$metrics_pid"} ${restart_pid:+"$restart_pid"} ||
+            status=$?
+        if [ -z "${exited:-}" ]; then
+            continue
+        elif [ "$exited" = "$postgres_pid" ]; then
+            break
+        elif [ "$exited" = "${metrics_pid:-}" ]; then
+            echo "[POSTGRES] [AUTO-CONFIG] Metrics endpoint exited (status ${status}) - restarting it in 10s" >&2
+            metrics_pid=""
+            sleep 10 &
+            restart_pid=$!
+        elif [ "$exited" = "${restart_pid:-}" ]; then
+            restart_pid=""
+            start_metrics_server
+        fi
+    done
+
+    kill ${metrics_pid:+"$metrics_pid"} ${restart_pid:+"$restart_pid"} 2>/dev/null || true
+    wait || true
+    exit "$status"
+fi
+
 exec /usr/local/bin/docker-entrypoint.sh "$@"
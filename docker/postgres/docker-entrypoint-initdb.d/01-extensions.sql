@@ -31,146 +31,272 @@ DECLARE
     v_created_exts TEXT[] := ARRAY[]::TEXT[];
     v_failed_exts TEXT[] := ARRAY[]::TEXT[];
     v_error_msg TEXT;
+    v_init_exts TEXT[] := ARRAY['pg_net', 'pg_stat_monitor', 'pg_stat_statements', 'pg_trgm', 'pgaudit', 'pgmq', 'pgsodium', 'plpgsql', 'supabase_vault', 'timescaledb', 'vector', 'vectorscale', 'http', 'hypopg', 'index_advisor', 'pg_hashids', 'pg_jsonschema', 'timescaledb_toolkit', 'wrappers']::TEXT[];
 BEGIN
+    -- Active runtime extension profile (POSTGRES_EXTENSION_PROFILE) replaces the defaults;
+    -- only extensions with a creation block below are kept (pg_cron is left to 01b-pg_cron.sh)
+    IF current_setting('aza.extension_profile', true) IS NOT NULL THEN
+        v_expected_exts := ARRAY(
+            SELECT ext
+            FROM unnest(string_to_array(current_setting('aza.profile_extensions', true), ',')) AS ext
+            WHERE ext = ANY(v_init_exts)
+        );
+    END IF;
+
     -- Record initialization start
     INSERT INTO pg_aza_status (script_version, expected_extensions, status, notes)
-    VALUES ('18.4-b8b4cb3', v_expected_exts, 'in_progress', 'Baseline extension initialization started')
+    VALUES ('18.4-9f6263f', v_expected_exts, 'in_progress', 'Baseline extension initialization started')
     RETURNING id INTO v_status_id;
 
-    -- Attempt to create each extension with error handling
+    -- Attempt to create each expected extension with error handling
     -- NOTE: pg_cron is skipped here and created by 01b-pg_cron.sh in POSTGRES_DB
 
     -- pg_net (integration)
-    BEGIN
-        CREATE EXTENSION IF NOT EXISTS "pg_net";
-        v_created_exts := array_append(v_created_exts, 'pg_net');
-        RAISE NOTICE 'Created extension: pg_net';
-    EXCEPTION WHEN OTHERS THEN
-        v_failed_exts := array_append(v_failed_exts, 'pg_net');
-        GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;
-        RAISE WARNING 'Failed to create extension pg_net: %', v_error_msg;
-    END;
+    IF 'pg_net' = ANY(v_expected_exts) THEN
+        BEGIN
+            CREATE EXTENSION IF NOT EXISTS "pg_net";
+            v_created_exts := array_append(v_created_exts, 'pg_net');
+            RAISE NOTICE 'Created extension: pg_net';
+        EXCEPTION WHEN OTHERS THEN
+            v_failed_exts := array_append(v_failed_exts, 'pg_net');
+            GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;
+            RAISE WARNING 'Failed to create extension pg_net: %', v_error_msg;
+        END;
+    END IF;
 
     -- pg_stat_monitor (observability)
-    BEGIN
-        CREATE EXTENSION IF NOT EXISTS "pg_stat_monitor";
-        v_created_exts := array_append(v_created_exts, 'pg_stat_monitor');
-        RAISE NOTICE 'Created extension: pg_stat_monitor';
-    EXCEPTION WHEN OTHERS THEN
-        v_failed_exts := array_append(v_failed_exts, 'pg_stat_monitor');
-        GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;
-        RAISE WARNING 'Failed to create extension pg_stat_monitor: %', v_error_msg;
-    END;
+    IF 'pg_stat_monitor' = ANY(v_expected_exts) THEN
+        BEGIN
+            CREATE EXTENSION IF NOT EXISTS "pg_stat_monitor";
+            v_created_exts := array_append(v_created_exts, 'pg_stat_monitor');
+            RAISE NOTICE 'Created extension: pg_stat_monitor';
+        EXCEPTION WHEN OTHERS THEN
+            v_failed_exts := array_append(v_failed_exts, 'pg_stat_monitor');
+            GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;
+            RAISE WARNING 'Failed to create extension pg_stat_monitor: %', v_error_msg;
+        END;
+    END IF;
 
     -- pg_stat_statements (observability)
-    BEGIN
-        CREATE EXTENSION IF NOT EXISTS "pg_stat_statements";
-        v_created_exts := array_append(v_created_exts, 'pg_stat_statements');
-        RAISE NOTICE 'Created extension: pg_stat_statements';
-    EXCEPTION WHEN OTHERS THEN
-        v_failed_exts := array_append(v_failed_exts, 'pg_stat_statements');
-        GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;
-        RAISE WARNING 'Failed to create extension pg_stat_statements: %', v_error_msg;
-    END;
+    IF 'pg_stat_statements' = ANY(v_expected_exts) THEN
+        BEGIN
+            CREATE EXTENSION IF NOT EXISTS "pg_stat_statements";
+            v_created_exts := array_append(v_created_exts, 'pg_stat_statements');
+            RAISE NOTICE 'Created extension: pg_stat_statements';
+        EXCEPTION WHEN OTHERS THEN
+            v_failed_exts := array_append(v_failed_exts, 'pg_stat_statements');
+            GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;
+            RAISE WARNING 'Failed to create extension pg_stat_statements: %', v_error_msg;
+        END;
+    END IF;
 
     -- pg_trgm (search)
-    BEGIN
-        CREATE EXTENSION IF NOT EXISTS "pg_trgm";
-        v_created_exts := array_append(v_created_exts, 'pg_trgm');
-        RAISE NOTICE 'Created extension: pg_trgm';
-    EXCEPTION WHEN OTHERS THEN
-        v_failed_exts := array_append(v_failed_exts, 'pg_trgm');
-        GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;
-        RAISE WARNING 'Failed to create extension pg_trgm: %', v_error_msg;
-    END;
+    IF 'pg_trgm' = ANY(v_expected_exts) THEN
+        BEGIN
+            CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+            v_created_exts := array_append(v_created_exts, 'pg_trgm');
+            RAISE NOTICE 'Created extension: pg_trgm';
+        EXCEPTION WHEN OTHERS THEN
+            v_failed_exts := array_append(v_failed_exts, 'pg_trgm');
+            GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;
+            RAISE WARNING 'Failed to create extension pg_trgm: %', v_error_msg;
+        END;
+    END IF;
 
     -- pgaudit (security)
-    BEGIN
-        CREATE EXTENSION IF NOT EXISTS "pgaudit";
-        v_created_exts := array_append(v_created_exts, 'pgaudit');
-        RAISE NOTICE 'Created extension: pgaudit';
-    EXCEPTION WHEN OTHERS THEN
-        v_failed_exts := array_append(v_failed_exts, 'pgaudit');
-        GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;
-        RAISE WARNING 'Failed to create extension pgaudit: %', v_error_msg;
-    END;
+    IF 'pgaudit' = ANY(v_expected_exts) THEN
+        BEGIN
+            CREATE EXTENSION IF NOT EXISTS "pgaudit";
+            v_created_exts := array_append(v_created_exts, 'pgaudit');
+            RAISE NOTICE 'Created extension: pgaudit';
+        EXCEPTION WHEN OTHERS THEN
+            v_failed_exts := array_append(v_failed_exts, 'pgaudit');
+            GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;
+            RAISE WARNING 'Failed to create extension pgaudit: %', v_error_msg;
+        END;
+    END IF;
 
     -- pgmq (queueing)
-    BEGIN
-        CREATE EXTENSION IF NOT EXISTS "pgmq";
-        v_created_exts := array_append(v_created_exts, 'pgmq');
-        RAISE NOTICE 'Created extension: pgmq';
-    EXCEPTION WHEN OTHERS THEN
-        v_failed_exts := array_append(v_failed_exts, 'pgmq');
-        GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;
-        RAISE WARNING 'Failed to create extension pgmq: %', v_error_msg;
-    END;
+    IF 'pgmq' = ANY(v_expected_exts) THEN
+        BEGIN
+            CREATE EXTENSION IF NOT EXISTS "pgmq";
+            v_created_exts := array_append(v_created_exts, 'pgmq');
+            RAISE NOTICE 'Created extension: pgmq';
+        EXCEPTION WHEN OTHERS THEN
+            v_failed_exts := array_append(v_failed_exts, 'pgmq');
+            GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;
+            RAISE WARNING 'Failed to create extension pgmq: %', v_error_msg;
+        END;
+    END IF;
 
     -- pgsodium (security)
-    BEGIN
-        CREATE EXTENSION IF NOT EXISTS "pgsodium";
-        v_created_exts := array_append(v_created_exts, 'pgsodium');
-        RAISE NOTICE 'Created extension: pgsodium';
-    EXCEPTION WHEN OTHERS THEN
-        v_failed_exts := array_append(v_failed_exts, 'pgsodium');
-        GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;
-        RAISE WARNING 'Failed to create extension pgsodium: %', v_error_msg;
-    END;
+    IF 'pgsodium' = ANY(v_expected_exts) THEN
+        BEGIN
+            CREATE EXTENSION IF NOT EXISTS "pgsodium";
+            v_created_exts := array_append(v_created_exts, 'pgsodium');
+            RAISE NOTICE 'Created extension: pgsodium';
+        EXCEPTION WHEN OTHERS THEN
+            v_failed_exts := array_append(v_failed_exts, 'pgsodium');
+            GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;
+            RAISE WARNING 'Failed to create extension pgsodium: %', v_error_msg;
+        END;
+    END IF;
 
     -- plpgsql (language)
-    BEGIN
-        CREATE EXTENSION IF NOT EXISTS "plpgsql";
-        v_created_exts := array_append(v_created_exts, 'plpgsql');
-        RAISE NOTICE 'Created extension: plpgsql';
-    EXCEPTION WHEN OTHERS THEN
-        v_failed_exts := array_append(v_failed_exts, 'plpgsql');
-        GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;
-        RAISE WARNING 'Failed to create extension plpgsql: %', v_error_msg;
-    END;
+    IF 'plpgsql' = ANY(v_expected_exts) THEN
+        BEGIN
+            CREATE EXTENSION IF NOT EXISTS "plpgsql";
+            v_created_exts := array_append(v_created_exts, 'plpgsql');
+            RAISE NOTICE 'Created extension: plpgsql';
+        EXCEPTION WHEN OTHERS THEN
+            v_failed_exts := array_append(v_failed_exts, 'plpgsql');
+            GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;
+            RAISE WARNING 'Failed to create extension plpgsql: %', v_error_msg;
+        END;
+    END IF;
 
     -- vault (security)
-    BEGIN
-        CREATE EXTENSION IF NOT EXISTS "supabase_vault";
-        v_created_exts := array_append(v_created_exts, 'supabase_vault');
-        RAISE NOTICE 'Created extension: supabase_vault';
-    EXCEPTION WHEN OTHERS THEN
-        v_failed_exts := array_append(v_failed_exts, 'supabase_vault');
-        GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;
-        RAISE WARNING 'Failed to create extension supabase_vault: %', v_error_msg;
-    END;
+    IF 'supabase_vault' = ANY(v_expected_exts) THEN
+        BEGIN
+            CREATE EXTENSION IF NOT EXISTS "supabase_vault";
+            v_created_exts := array_append(v_created_exts, 'supabase_vault');
+            RAISE NOTICE 'Created extension: supabase_vault';
+        EXCEPTION WHEN OTHERS THEN
+            v_failed_exts := array_append(v_failed_exts, 'supabase_vault');
+            GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;
+            RAISE WARNING 'Failed to create extension supabase_vault: %', v_error_msg;
+        END;
+    END IF;
 
     -- timescaledb (timeseries)
-    BEGIN
-        CREATE EXTENSION IF NOT EXISTS "timescaledb";
-        v_created_exts := array_append(v_created_exts, 'timescaledb');
-        RAISE NOTICE 'Created extension: timescaledb';
-    EXCEPTION WHEN OTHERS THEN
-        v_failed_exts := array_append(v_failed_exts, 'timescaledb');
-        GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;
-        RAISE WARNING 'Failed to create extension timescaledb: %', v_error_msg;
-    END;
+    IF 'timescaledb' = ANY(v_expected_exts) THEN
+        BEGIN
+            CREATE EXTENSION IF NOT EXISTS "timescaledb";
+            v_created_exts := array_append(v_created_exts, 'timescaledb');
+            RAISE NOTICE 'Created extension: timescaledb';
+        EXCEPTION WHEN OTHERS THEN
+            v_failed_exts := array_append(v_failed_exts, 'timescaledb');
+            GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;
+            RAISE WARNING 'Failed to create extension timescaledb: %', v_error_msg;
+        END;
+    END IF;
 
     -- pgvector (ai)
-    BEGIN
-        CREATE EXTENSION IF NOT EXISTS "vector";
-        v_created_exts := array_append(v_created_exts, 'vector');
-        RAISE NOTICE 'Created extension: vector';
-    EXCEPTION WHEN OTHERS THEN
-        v_failed_exts := array_append(v_failed_exts, 'vector');
-        GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;
-        RAISE WARNING 'Failed to create extension vector: %', v_error_msg;
-    END;
+    IF 'vector' = ANY(v_expected_exts) THEN
+        BEGIN
+            CREATE EXTENSION IF NOT EXISTS "vector";
+            v_created_exts := array_append(v_created_exts, 'vector');
+            RAISE NOTICE 'Created extension: vector';
+        EXCEPTION WHEN OTHERS THEN
+            v_failed_exts := array_append(v_failed_exts, 'vector');
+            GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;
+            RAISE WARNING 'Failed to create extension vector: %', v_error_msg;
+        END;
+    END IF;
 
     -- pgvectorscale (ai)
-    BEGIN
-        CREATE EXTENSION IF NOT EXISTS "vectorscale";
-        v_created_exts := array_append(v_created_exts, 'vectorscale');
-        RAISE NOTICE 'Created extension: vectorscale';
-    EXCEPTION WHEN OTHERS THEN
-        v_failed_exts := array_append(v_failed_exts, 'vectorscale');
-        GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;
-        RAISE WARNING 'Failed to create extension vectorscale: %', v_error_msg;
-    END;
+    IF 'vectorscale' = ANY(v_expected_exts) THEN
+        BEGIN
+            CREATE EXTENSION IF NOT EXISTS "vectorscale";
+            v_created_exts := array_append(v_created_exts, 'vectorscale');
+            RAISE NOTICE 'Created extension: vectorscale';
+        EXCEPTION WHEN OTHERS THEN
+            v_failed_exts := array_append(v_failed_exts, 'vectorscale');
+            GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;
+            RAISE WARNING 'Failed to create extension vectorscale: %', v_error_msg;
+        END;
+    END IF;
+
+    -- pgsql-http (integration)
+    IF 'http' = ANY(v_expected_exts) THEN
+        BEGIN
+            CREATE EXTENSION IF NOT EXISTS "http";
+            v_created_exts := array_append(v_created_exts, 'http');
+            RAISE NOTICE 'Created extension: http';
+        EXCEPTION WHEN OTHERS THEN
+            v_failed_exts := array_append(v_failed_exts, 'http');
+            GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;
+            RAISE WARNING 'Failed to create extension http: %', v_error_msg;
+        END;
+    END IF;
+
+    -- hypopg (performance)
+    IF 'hypopg' = ANY(v_expected_exts) THEN
+        BEGIN
+            CREATE EXTENSION IF NOT EXISTS "hypopg";
+            v_created_exts := array_append(v_created_exts, 'hypopg');
+            RAISE NOTICE 'Created extension: hypopg';
+        EXCEPTION WHEN OTHERS THEN
+            v_failed_exts := array_append(v_failed_exts, 'hypopg');
+            GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;
+            RAISE WARNING 'Failed to create extension hypopg: %', v_error_msg;
+        END;
+    END IF;
+
+    -- index_advisor (performance)
+    IF 'index_advisor' = ANY(v_expected_exts) THEN
+        BEGIN
+            CREATE EXTENSION IF NOT EXISTS "index_advisor";
+            v_created_exts := array_append(v_created_exts, 'index_advisor');
+            RAISE NOTICE 'Created extension: index_advisor';
+        EXCEPTION WHEN OTHERS THEN
+            v_failed_exts := array_append(v_failed_exts, 'index_advisor');
+            GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;
+            RAISE WARNING 'Failed to create extension index_advisor: %', v_error_msg;
+        END;
+    END IF;
+
+    -- pg_hashids (utilities)
+    IF 'pg_hashids' = ANY(v_expected_exts) THEN
+        BEGIN
+            CREATE EXTENSION IF NOT EXISTS "pg_hashids";
+            v_created_exts := array_append(v_created_exts, 'pg_hashids');
+            RAISE NOTICE 'Created extension: pg_hashids';
+        EXCEPTION WHEN OTHERS THEN
+            v_failed_exts := array_append(v_failed_exts, 'pg_hashids');
+            GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;
+            RAISE WARNING 'Failed to create extension pg_hashids: %', v_error_msg;
+        END;
+    END IF;
+
+    -- pg_jsonschema (validation)
+    IF 'pg_jsonschema' = ANY(v_expected_exts) THEN
+        BEGIN
+            CREATE EXTENSION IF NOT EXISTS "pg_jsonschema";
+            v_created_exts := array_append(v_created_exts, 'pg_jsonschema');
+            RAISE NOTICE 'Created extension: pg_jsonschema';
+        EXCEPTION WHEN OTHERS THEN
+            v_failed_exts := array_append(v_failed_exts, 'pg_jsonschema');
+            GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;
+            RAISE WARNING 'Failed to create extension pg_jsonschema: %', v_error_msg;
+        END;
+    END IF;
+
+    -- timescaledb_toolkit (timeseries)
+    IF 'timescaledb_toolkit' = ANY(v_expected_exts) THEN
+        BEGIN
+            CREATE EXTENSION IF NOT EXISTS "timescaledb_toolkit";
+            v_created_exts := array_append(v_created_exts, 'timescaledb_toolkit');
+            RAISE NOTICE 'Created extension: timescaledb_toolkit';
+        EXCEPTION WHEN OTHERS THEN
+            v_failed_exts := array_append(v_failed_exts, 'timescaledb_toolkit');
+            GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;
+            RAISE WARNING 'Failed to create extension timescaledb_toolkit: %', v_error_msg;
+        END;
+    END IF;
+
+    -- supabase-wrappers (integration)
+    IF 'wrappers' = ANY(v_expected_exts) THEN
+        BEGIN
+            CREATE EXTENSION IF NOT EXISTS "wrappers";
+            v_created_exts := array_append(v_created_exts, 'wrappers');
+            RAISE NOTICE 'Created extension: wrappers';
+        EXCEPTION WHEN OTHERS THEN
+            v_failed_exts := array_append(v_failed_exts, 'wrappers');
+            GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;
+            RAISE WARNING 'Failed to create extension wrappers: %', v_error_msg;
+        END;
+    END IF;
 
     -- Update initialization status based on results
     UPDATE pg_aza_status
@@ -184,7 +310,7 @@ BEGIN
         END,
         notes = CASE
             WHEN array_length(v_failed_exts, 1) IS NULL THEN
-                'All 12 baseline extensions created successfully (pg_cron handled separately by 01b-pg_cron.sh)'
+                'All ' || COALESCE(array_length(v_created_exts, 1), 0)::TEXT || ' baseline extensions created successfully (pg_cron handled separately by 01b-pg_cron.sh)'
             ELSE
                 'Initialization completed with ' || array_length(v_failed_exts, 1)::TEXT || ' failure(s)'
         END
@@ -193,7 +319,7 @@ BEGIN
     -- Log final status and fail if any enabled extensions are missing
     -- NOTE: pg_cron is handled by 01b-pg_cron.sh to target POSTGRES_DB
     IF array_length(v_failed_exts, 1) IS NULL THEN
-        RAISE NOTICE 'Baseline extensions enabled (pg_net, pg_stat_monitor, pg_stat_statements, pg_trgm, pgaudit, pgmq, pgsodium, plpgsql, supabase_vault, timescaledb, vector, vectorscale). pg_cron will be created by 01b-pg_cron.sh in POSTGRES_DB. Additional extensions are available but disabled by default.';
+        RAISE NOTICE 'Baseline extensions enabled (%). pg_cron will be created by 01b-pg_cron.sh in POSTGRES_DB. Additional extensions are available but disabled by default.', array_to_string(v_expected_exts, ', ');
     ELSE
         RAISE EXCEPTION 'Extension initialization FAILED. Required extensions not available: %. Successfully created: %', v_failed_exts, v_created_exts
             USING HINT = 'Check that all required extensions are compiled into the Docker image. See docker/postgres/extensions.manifest.json for enabled extensions.';
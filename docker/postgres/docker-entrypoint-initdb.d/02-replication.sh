@@ -11,18 +11,31 @@ fi
 
 echo "[02-replication] Configuring replication user..."
 
-REPLICATION_SLOT_NAME="${REPLICATION_SLOT_NAME:-replica_slot_1}"
+# One slot per replica: REPLICATION_SLOT_NAMES (comma- or space-separated) or the single REPLICATION_SLOT_NAME
+REPLICATION_SLOT_NAMES="${REPLICATION_SLOT_NAMES:-${REPLICATION_SLOT_NAME:-replica_slot_1}}"
+read -r -a SLOT_NAMES <<<"${REPLICATION_SLOT_NAMES//,/ }"
 
-# Validate replication slot name (prevent SQL injection)
-if [[ ! "$REPLICATION_SLOT_NAME" =~ ^[a-zA-Z0-9_]+$ ]]; then
-  echo "[02-replication] ERROR: REPLICATION_SLOT_NAME must contain only alphanumeric and underscore" >&2
+if [ "${#SLOT_NAMES[@]}" -eq 0 ]; then
+  echo "[02-replication] ERROR: REPLICATION_SLOT_NAMES is empty" >&2
   exit 1
 fi
 
-psql -v ON_ERROR_STOP=1 -v repl_password="$PG_REPLICATION_PASSWORD" -v slot_name="$REPLICATION_SLOT_NAME" \
+# Validate replication slot names (prevent SQL injection)
+for slot_name in "${SLOT_NAMES[@]}"; do
+  if [[ ! "$slot_name" =~ ^[a-zA-Z0-9_]+$ ]]; then
+    echo "[02-replication] ERROR: Replication slot name '$slot_name' must contain only alphanumeric and underscore" >&2
+    exit 1
+  fi
+done
+
+SLOT_LIST=$(IFS=,; echo "${SLOT_NAMES[*]}")
+
+psql -v ON_ERROR_STOP=1 -v repl_password="$PG_REPLICATION_PASSWORD" -v slot_names="$SLOT_LIST" \
   --username "$POSTGRES_USER" --dbname "$POSTGRES_DB" <<-EOSQL
-    CREATE OR REPLACE FUNCTION pg_temp.setup_replication(p_password TEXT, p_slot_name TEXT)
+    CREATE OR REPLACE FUNCTION pg_temp.setup_replication(p_password TEXT, p_slot_names TEXT)
     RETURNS void AS \$func\$
+    DECLARE
+        p_slot_name TEXT;
     BEGIN
         IF NOT EXISTS (SELECT FROM pg_catalog.pg_roles WHERE rolname = 'replicator') THEN
             EXECUTE format('CREATE ROLE replicator WITH REPLICATION LOGIN PASSWORD %L NOINHERIT', p_password);
@@ -33,16 +46,18 @@ psql -v ON_ERROR_STOP=1 -v repl_password="$PG_REPLICATION_PASSWORD" -v slot_name
             RAISE NOTICE 'Replication user password updated';
         END IF;
 
-        IF NOT EXISTS (SELECT 1 FROM pg_replication_slots WHERE slot_name = p_slot_name) THEN
-            PERFORM pg_create_physical_replication_slot(p_slot_name);
-            RAISE NOTICE 'Replication slot created: %', p_slot_name;
-        ELSE
-            RAISE NOTICE 'Replication slot already exists: %', p_slot_name;
-        END IF;
+        FOREACH p_slot_name IN ARRAY string_to_array(p_slot_names, ',') LOOP
+            IF NOT EXISTS (SELECT 1 FROM pg_replication_slots WHERE slot_name = p_slot_name) THEN
+                PERFORM pg_create_physical_replication_slot(p_slot_name);
+                RAISE NOTICE 'Replication slot created: %', p_slot_name;
+            ELSE
+                RAISE NOTICE 'Replication slot already exists: %', p_slot_name;
+            END IF;
+        END LOOP;
     END
     \$func\$ LANGUAGE plpgsql;
 
-    SELECT pg_temp.setup_replication(:'repl_password', :'slot_name');
+    SELECT pg_temp.setup_replication(:'repl_password', :'slot_names');
 
     -- Security: Limit connections per user
     ALTER ROLE postgres CONNECTION LIMIT 50;
@@ -53,6 +68,14 @@ psql -v ON_ERROR_STOP=1 -v repl_password="$PG_REPLICATION_PASSWORD" -v slot_name
     -- Grant pg_monitor to allow replicator to view replication slots
     -- Required for replica setup script to verify slot exists before pg_basebackup
     GRANT pg_monitor TO replicator;
+
+    -- Functions pg_rewind calls on its source server, so a failed primary can be rewound
+    -- against this one (scripts/tools/rejoin-as-replica.ts); pg_rewind connects to "postgres"
+    \connect postgres
+    GRANT EXECUTE ON FUNCTION pg_catalog.pg_ls_dir(text, boolean, boolean) TO replicator;
+    GRANT EXECUTE ON FUNCTION pg_catalog.pg_stat_file(text, boolean) TO replicator;
+    GRANT EXECUTE ON FUNCTION pg_catalog.pg_read_binary_file(text) TO replicator;
+    GRANT EXECUTE ON FUNCTION pg_catalog.pg_read_binary_file(text, bigint, bigint, boolean) TO replicator;
 EOSQL
 
-echo "[02-replication] Replication configuration complete (slot: $REPLICATION_SLOT_NAME)"
+echo "[02-replication] Replication configuration complete (slots: $SLOT_LIST)"
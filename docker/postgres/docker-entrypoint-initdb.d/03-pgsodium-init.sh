@@ -14,9 +14,11 @@
 # - Runs after baseline extension creation
 #
 # Security Note:
-# - Server secret is stored in pgsodium.key table
+# - The root key comes from the getkey script (PGSODIUM_ROOT_KEY_FILE / PGSODIUM_ROOT_KEY) and
+#   never enters the cluster: pgsodium.key only holds key ids derived from it
 # - Required for supabase_vault secret encryption/decryption
 # - Without this, supabase_vault operations will fail with "no server secret key defined"
+# - Later starts verify the root key against the vault secrets (pgsodium-key.sh)
 
 set -euo pipefail
 
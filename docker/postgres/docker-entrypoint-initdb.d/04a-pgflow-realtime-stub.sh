@@ -15,6 +15,18 @@ set -euo pipefail
 
 TARGET_DB="${POSTGRES_DB:-postgres}"
 
+# Skip when the active extension profile (POSTGRES_EXTENSION_PROFILE) leaves out pgflow's prerequisites
+ACTIVE_PROFILE=$(psql -U postgres -d "$TARGET_DB" -tAc "SELECT current_setting('aza.extension_profile', true)" 2>/dev/null || echo "")
+if [ -n "$ACTIVE_PROFILE" ]; then
+    PROFILE_EXTENSIONS=$(psql -U postgres -d "$TARGET_DB" -tAc "SELECT current_setting('aza.profile_extensions', true)" 2>/dev/null || echo "")
+    for ext in pgmq pg_net supabase_vault; do
+        if [[ ",${PROFILE_EXTENSIONS}," != *",${ext},"* ]]; then
+            echo "[04a-realtime-stub] Skipping: extension profile '$ACTIVE_PROFILE' does not include $ext (pgflow prerequisite)"
+            exit 0
+        fi
+    done
+fi
+
 # Only run if pgflow will be installed (check dependencies)
 PG_NET_READY=$(psql -v ON_ERROR_STOP=1 -U postgres -d "$TARGET_DB" -t -c "SELECT count(*) FROM pg_available_extensions WHERE name = 'pg_net'" | tr -d ' ')
 if [ "$PG_NET_READY" != "1" ]; then
@@ -15,6 +15,18 @@ TARGET_DB="${POSTGRES_DB:-postgres}"
 
 echo "[05-pgflow] Checking pgflow prerequisites in database: $TARGET_DB"
 
+# Skip when the active extension profile (POSTGRES_EXTENSION_PROFILE) leaves out pgflow's prerequisites
+ACTIVE_PROFILE=$(psql -U postgres -d "$TARGET_DB" -tAc "SELECT current_setting('aza.extension_profile', true)" 2>/dev/null || echo "")
+if [ -n "$ACTIVE_PROFILE" ]; then
+    PROFILE_EXTENSIONS=$(psql -U postgres -d "$TARGET_DB" -tAc "SELECT current_setting('aza.profile_extensions', true)" 2>/dev/null || echo "")
+    for ext in pgmq pg_net supabase_vault; do
+        if [[ ",${PROFILE_EXTENSIONS}," != *",${ext},"* ]]; then
+            echo "[05-pgflow] Skipping: extension profile '$ACTIVE_PROFILE' does not include $ext (pgflow prerequisite)"
+            exit 0
+        fi
+    done
+fi
+
 # Check if pg_net is available (requires preload)
 PG_NET_READY=$(psql -U postgres -d "$TARGET_DB" -t -c "SELECT count(*) FROM pg_available_extensions WHERE name = 'pg_net'" 2>/dev/null | tr -d ' ')
 if [ "$PG_NET_READY" != "1" ]; then
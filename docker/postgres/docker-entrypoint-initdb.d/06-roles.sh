@@ -0,0 +1,397 @@
+#!/bin/bash
+# Declarative roles and privileges from /etc/postgresql/roles.yaml
+#
+# Runs at first init like the other init scripts, and on every later start: the auto-config
+# entrypoint runs it against a temporary socket-only server before PostgreSQL accepts clients.
+# Idempotent: roles are created or altered to match, memberships converge to member_of, and
+# grants are (re)applied. Grants removed from the file are not revoked, and roles removed from
+# the file are reported, never dropped.
+#
+# Passwords are read server-side with pg_read_file() from password_file or
+# /run/secrets/<password_secret>, so they never pass through arguments or the environment.
+# See examples/roles/roles.yaml for the format.
+
+set -euo pipefail
+
+ROLES_FILE=/etc/postgresql/roles.yaml
+
+if [ ! -s "$ROLES_FILE" ]; then
+  echo "[06-roles] INFO: $ROLES_FILE not mounted - skipping declarative roles"
+  exit 0
+fi
+
+# YAML → JSON with Perl core modules (block-style YAML; flow lists like [a, b] are not supported)
+SPEC=$(perl -MCPAN::Meta::YAML -MJSON::PP -e '
+  my $file = shift;
+  open(my $fh, "<:encoding(UTF-8)", $file) or die "cannot read $file: $!\n";
+  my $text = do { local $/; <$fh> };
+  my $docs = eval { CPAN::Meta::YAML->read_string($text) };
+  unless ($docs) {
+    (my $reason = $@ || "unreadable") =~ s/ at \S+ line \d+.*//s;
+    die "invalid YAML in $file: $reason\n";
+  }
+  my $spec = $docs->[0] // {};
+  die "$file: the top level must be a mapping (roles:, databases:)\n" unless ref $spec eq "HASH";
+  print JSON::PP->new->canonical->encode($spec);
+' "$ROLES_FILE")
+
+psql_admin() {
+  psql -X -q -v ON_ERROR_STOP=1 --username "${POSTGRES_USER:-postgres}" "$@"
+}
+
+if [ "$(psql_admin --dbname postgres -tA -c 'SELECT pg_is_in_recovery()')" = "t" ]; then
+  echo "[06-roles] INFO: Server is in recovery - roles come from the primary"
+  exit 0
+fi
+
+echo "[06-roles] Reconciling roles from $ROLES_FILE..."
+
+# Phase 1 (cluster-wide): validate the spec, converge roles and memberships, create databases
+psql_admin --dbname postgres -v spec="$SPEC" <<'EOSQL'
+-- Keep passwords out of the statement and audit logs
+SET log_statement = 'none';
+SET pgaudit.log = 'none';
+
+CREATE FUNCTION pg_temp.roles_fail(p_context TEXT, p_message TEXT) RETURNS void
+LANGUAGE plpgsql AS $func$
+BEGIN
+  RAISE EXCEPTION 'roles.yaml: %: %', p_context, p_message;
+END
+$func$;
+
+-- Identifier check: lowercase names that need no quoting
+CREATE FUNCTION pg_temp.roles_name(p_value JSONB, p_context TEXT) RETURNS TEXT
+LANGUAGE plpgsql AS $func$
+BEGIN
+  IF p_value IS NULL OR jsonb_typeof(p_value) <> 'string'
+     OR p_value #>> '{}' !~ '^[a-z_][a-z0-9_]{0,62}$' THEN
+    PERFORM pg_temp.roles_fail(p_context,
+      format('%s is not a valid name (lowercase letters, digits and _)', coalesce(p_value::text, 'null')));
+  END IF;
+  RETURN p_value #>> '{}';
+END
+$func$;
+
+CREATE FUNCTION pg_temp.roles_list(p_value JSONB, p_context TEXT) RETURNS JSONB
+LANGUAGE plpgsql AS $func$
+BEGIN
+  IF p_value IS NULL OR jsonb_typeof(p_value) = 'null' THEN
+    RETURN '[]'::jsonb;
+  END IF;
+  IF jsonb_typeof(p_value) <> 'array' THEN
+    PERFORM pg_temp.roles_fail(p_context, 'must be a list (block style, one "- item" per line)');
+  END IF;
+  RETURN p_value;
+END
+$func$;
+
+CREATE FUNCTION pg_temp.roles_bool(p_value JSONB, p_default BOOLEAN, p_context TEXT) RETURNS BOOLEAN
+LANGUAGE plpgsql AS $func$
+BEGIN
+  IF p_value IS NULL OR jsonb_typeof(p_value) = 'null' THEN
+    RETURN p_default;
+  END IF;
+  CASE lower(p_value #>> '{}')
+    WHEN 'true', 'yes', 'on' THEN RETURN true;
+    WHEN 'false', 'no', 'off' THEN RETURN false;
+    ELSE PERFORM pg_temp.roles_fail(p_context, format('%s is not true or false', p_value));
+  END CASE;
+  RETURN NULL;
+END
+$func$;
+
+CREATE FUNCTION pg_temp.roles_check_keys(p_object JSONB, p_allowed TEXT[], p_context TEXT) RETURNS void
+LANGUAGE plpgsql AS $func$
+DECLARE
+  v_key TEXT;
+BEGIN
+  IF jsonb_typeof(p_object) <> 'object' THEN
+    PERFORM pg_temp.roles_fail(p_context, 'must be a mapping');
+  END IF;
+  FOR v_key IN SELECT jsonb_object_keys(p_object) LOOP
+    IF NOT v_key = ANY (p_allowed) THEN
+      PERFORM pg_temp.roles_fail(p_context,
+        format('unknown key "%s" (expected %s)', v_key, array_to_string(p_allowed, ', ')));
+    END IF;
+  END LOOP;
+END
+$func$;
+
+CREATE FUNCTION pg_temp.roles_password(p_role JSONB, p_context TEXT) RETURNS TEXT
+LANGUAGE plpgsql AS $func$
+DECLARE
+  v_path TEXT;
+  v_password TEXT;
+BEGIN
+  IF p_role ? 'password_file' AND p_role ? 'password_secret' THEN
+    PERFORM pg_temp.roles_fail(p_context, 'set password_file or password_secret, not both');
+  ELSIF p_role ? 'password_secret' THEN
+    IF p_role ->> 'password_secret' !~ '^[A-Za-z0-9_.-]+$' THEN
+      PERFORM pg_temp.roles_fail(p_context, 'password_secret must be a Docker secret name');
+    END IF;
+    v_path := '/run/secrets/' || (p_role ->> 'password_secret');
+  ELSIF p_role ? 'password_file' THEN
+    v_path := p_role ->> 'password_file';
+    IF v_path IS NULL OR v_path !~ '^/' THEN
+      PERFORM pg_temp.roles_fail(p_context, 'password_file must be an absolute path');
+    END IF;
+  ELSE
+    RETURN NULL;
+  END IF;
+
+  BEGIN
+    v_password := regexp_replace(pg_read_file(v_path), '\r?\n$', '');
+  EXCEPTION WHEN OTHERS THEN
+    PERFORM pg_temp.roles_fail(p_context, format('cannot read password from %s: %s', v_path, SQLERRM));
+  END;
+  IF v_password = '' THEN
+    PERFORM pg_temp.roles_fail(p_context, format('password file %s is empty', v_path));
+  END IF;
+  RETURN v_password;
+END
+$func$;
+
+CREATE FUNCTION pg_temp.reconcile_roles(p_spec JSONB) RETURNS void
+LANGUAGE plpgsql AS $func$
+DECLARE
+  c_marker CONSTANT TEXT := 'aza-pg: managed by roles.yaml';
+  -- Roles created by the image's own init scripts, and memberships that reach the server's files
+  c_reserved CONSTANT TEXT[] := ARRAY['postgres', 'replicator', 'pgbouncer_auth', current_user];
+  c_forbidden_parents CONSTANT TEXT[] :=
+    ARRAY['pg_execute_server_program', 'pg_read_server_files', 'pg_write_server_files'];
+  v_roles JSONB;
+  v_databases JSONB;
+  v_role JSONB;
+  v_grant JSONB;
+  v_database JSONB;
+  v_item JSONB;
+  v_name TEXT;
+  v_parent TEXT;
+  v_owner TEXT;
+  v_context TEXT;
+  v_password TEXT;
+  v_parents TEXT[];
+  v_declared TEXT[] := '{}';
+  v_declared_dbs TEXT[] := '{}';
+  v_connection_limit INT;
+BEGIN
+  PERFORM pg_temp.roles_check_keys(p_spec, ARRAY['roles', 'databases'], 'top level');
+  v_roles := pg_temp.roles_list(p_spec -> 'roles', 'roles');
+  v_databases := pg_temp.roles_list(p_spec -> 'databases', 'databases');
+
+  -- Validate everything before changing anything
+  FOR v_role IN SELECT * FROM jsonb_array_elements(v_roles) LOOP
+    PERFORM pg_temp.roles_check_keys(v_role,
+      ARRAY['name', 'login', 'password_file', 'password_secret', 'create_db', 'connection_limit',
+            'member_of', 'grants'], 'role');
+    v_name := pg_temp.roles_name(v_role -> 'name', 'role');
+    v_context := format('role "%s"', v_name);
+    IF v_name = ANY (c_reserved) OR v_name LIKE 'pg\_%' THEN
+      PERFORM pg_temp.roles_fail(v_context, 'reserved for the image and PostgreSQL');
+    END IF;
+    IF v_name = ANY (v_declared) THEN
+      PERFORM pg_temp.roles_fail(v_context, 'declared twice');
+    END IF;
+    v_declared := v_declared || v_name;
+    PERFORM pg_temp.roles_bool(v_role -> 'login', false, v_context || ' login');
+    PERFORM pg_temp.roles_bool(v_role -> 'create_db', false, v_context || ' create_db');
+    IF v_role ? 'connection_limit' AND (v_role ->> 'connection_limit') !~ '^-?[0-9]+$' THEN
+      PERFORM pg_temp.roles_fail(v_context, 'connection_limit must be an integer (-1: no limit)');
+    END IF;
+    FOR v_item IN SELECT * FROM jsonb_array_elements(
+        pg_temp.roles_list(v_role -> 'member_of', v_context || ' member_of')) LOOP
+      PERFORM pg_temp.roles_name(v_item, v_context || ' member_of');
+    END LOOP;
+    FOR v_grant IN SELECT * FROM jsonb_array_elements(
+        pg_temp.roles_list(v_role -> 'grants', v_context || ' grants')) LOOP
+      PERFORM pg_temp.roles_check_keys(v_grant,
+        ARRAY['database', 'schemas', 'privileges', 'default_privileges_for'], v_context || ' grant');
+      PERFORM pg_temp.roles_name(v_grant -> 'database', v_context || ' grant database');
+      IF coalesce(v_grant ->> 'privileges', 'read') NOT IN ('read', 'write', 'ddl') THEN
+        PERFORM pg_temp.roles_fail(v_context, 'grant privileges must be read, write or ddl');
+      END IF;
+      FOR v_item IN SELECT * FROM jsonb_array_elements(
+          pg_temp.roles_list(v_grant -> 'schemas', v_context || ' grant schemas')
+          || pg_temp.roles_list(v_grant -> 'default_privileges_for', v_context || ' grant default_privileges_for')) LOOP
+        PERFORM pg_temp.roles_name(v_item, v_context || ' grant');
+      END LOOP;
+    END LOOP;
+  END LOOP;
+
+  FOR v_database IN SELECT * FROM jsonb_array_elements(v_databases) LOOP
+    PERFORM pg_temp.roles_check_keys(v_database, ARRAY['name', 'owner'], 'database');
+    v_name := pg_temp.roles_name(v_database -> 'name', 'database');
+    v_owner := pg_temp.roles_name(v_database -> 'owner', format('database "%s" owner', v_name));
+    IF NOT v_owner = ANY (v_declared) AND NOT EXISTS (SELECT FROM pg_roles WHERE rolname = v_owner) THEN
+      PERFORM pg_temp.roles_fail(format('database "%s"', v_name), format('owner "%s" does not exist', v_owner));
+    END IF;
+    v_declared_dbs := v_declared_dbs || v_name;
+  END LOOP;
+
+  FOR v_role IN SELECT * FROM jsonb_array_elements(v_roles) LOOP
+    FOR v_grant IN SELECT * FROM jsonb_array_elements(pg_temp.roles_list(v_role -> 'grants', '')) LOOP
+      v_name := v_grant ->> 'database';
+      IF NOT v_name = ANY (v_declared_dbs) AND NOT EXISTS (SELECT FROM pg_database WHERE datname = v_name) THEN
+        PERFORM pg_temp.roles_fail(format('role "%s"', v_role ->> 'name'),
+          format('database "%s" does not exist (declare it under databases:)', v_name));
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  -- Roles: always without superuser, createrole, replication and bypassrls
+  FOR v_role IN SELECT * FROM jsonb_array_elements(v_roles) LOOP
+    v_name := v_role ->> 'name';
+    v_context := format('role "%s"', v_name);
+    IF NOT EXISTS (SELECT FROM pg_roles WHERE rolname = v_name) THEN
+      EXECUTE format('CREATE ROLE %I', v_name);
+      RAISE NOTICE 'Role created: %', v_name;
+    END IF;
+    v_connection_limit := coalesce((v_role ->> 'connection_limit')::int, -1);
+    EXECUTE format('ALTER ROLE %I WITH NOSUPERUSER NOCREATEROLE NOREPLICATION NOBYPASSRLS INHERIT %s %s CONNECTION LIMIT %s',
+      v_name,
+      CASE WHEN pg_temp.roles_bool(v_role -> 'login', false, v_context) THEN 'LOGIN' ELSE 'NOLOGIN' END,
+      CASE WHEN pg_temp.roles_bool(v_role -> 'create_db', false, v_context) THEN 'CREATEDB' ELSE 'NOCREATEDB' END,
+      v_connection_limit);
+    v_password := pg_temp.roles_password(v_role, v_context);
+    IF v_password IS NOT NULL THEN
+      EXECUTE format('ALTER ROLE %I WITH PASSWORD %L', v_name, v_password);
+    END IF;
+    EXECUTE format('COMMENT ON ROLE %I IS %L', v_name, c_marker);
+  END LOOP;
+
+  -- Memberships converge to member_of
+  FOR v_role IN SELECT * FROM jsonb_array_elements(v_roles) LOOP
+    v_name := v_role ->> 'name';
+    v_context := format('role "%s"', v_name);
+    SELECT coalesce(array_agg(value), '{}') INTO v_parents
+    FROM jsonb_array_elements_text(pg_temp.roles_list(v_role -> 'member_of', v_context));
+    FOREACH v_parent IN ARRAY v_parents LOOP
+      IF NOT EXISTS (SELECT FROM pg_roles WHERE rolname = v_parent) THEN
+        PERFORM pg_temp.roles_fail(v_context, format('member_of role "%s" does not exist', v_parent));
+      END IF;
+      IF v_parent = v_name OR v_parent = ANY (c_forbidden_parents)
+         OR EXISTS (SELECT FROM pg_roles WHERE rolname = v_parent AND (rolsuper OR rolreplication OR rolbypassrls)) THEN
+        PERFORM pg_temp.roles_fail(v_context, format('membership in "%s" is not allowed', v_parent));
+      END IF;
+      IF NOT EXISTS (
+        SELECT FROM pg_auth_members m
+        WHERE m.roleid = v_parent::regrole AND m.member = v_name::regrole
+      ) THEN
+        EXECUTE format('GRANT %I TO %I', v_parent, v_name);
+        RAISE NOTICE 'Granted % to %', v_parent, v_name;
+      END IF;
+    END LOOP;
+    FOR v_parent IN
+      SELECT r.rolname FROM pg_auth_members m JOIN pg_roles r ON r.oid = m.roleid
+      WHERE m.member = v_name::regrole AND NOT r.rolname = ANY (v_parents)
+    LOOP
+      EXECUTE format('REVOKE %I FROM %I', v_parent, v_name);
+      RAISE NOTICE 'Revoked % from % (not in member_of)', v_parent, v_name;
+    END LOOP;
+  END LOOP;
+
+  -- Owners of existing databases (missing ones are created after this function)
+  FOR v_database IN SELECT * FROM jsonb_array_elements(v_databases) LOOP
+    IF EXISTS (
+      SELECT FROM pg_database d
+      WHERE d.datname = v_database ->> 'name' AND d.datdba <> (v_database ->> 'owner')::regrole
+    ) THEN
+      EXECUTE format('ALTER DATABASE %I OWNER TO %I', v_database ->> 'name', v_database ->> 'owner');
+      RAISE NOTICE 'Database % now owned by %', v_database ->> 'name', v_database ->> 'owner';
+    END IF;
+  END LOOP;
+
+  FOR v_name IN
+    SELECT rolname FROM pg_roles
+    WHERE shobj_description(oid, 'pg_authid') = c_marker AND NOT rolname = ANY (v_declared)
+  LOOP
+    RAISE WARNING 'Role % is no longer in roles.yaml; drop it manually (REASSIGN OWNED, DROP OWNED, DROP ROLE)', v_name;
+  END LOOP;
+END
+$func$;
+
+SELECT pg_temp.reconcile_roles(:'spec');
+
+-- New databases: nobody but the owner (and roles granted CONNECT below) may connect
+SELECT format('CREATE DATABASE %I OWNER %I', d ->> 'name', d ->> 'owner'),
+       format('REVOKE CONNECT, TEMPORARY ON DATABASE %I FROM PUBLIC', d ->> 'name')
+FROM jsonb_array_elements(coalesce(:'spec'::jsonb -> 'databases', '[]')) AS d
+WHERE NOT EXISTS (SELECT FROM pg_database WHERE datname = d ->> 'name')
+\gexec
+EOSQL
+
+# Phase 2 (per database): schema, table and sequence privileges, and default privileges
+GRANT_DATABASES=$(psql_admin --dbname postgres -tA -v spec="$SPEC" <<'EOSQL'
+SELECT DISTINCT g ->> 'database'
+FROM jsonb_array_elements(coalesce(:'spec'::jsonb -> 'roles', '[]')) AS r,
+     jsonb_array_elements(coalesce(r -> 'grants', '[]')) AS g;
+EOSQL
+)
+
+for database in $GRANT_DATABASES; do
+  psql_admin --dbname "$database" -v spec="$SPEC" <<'EOSQL'
+CREATE FUNCTION pg_temp.reconcile_grants(p_spec JSONB) RETURNS void
+LANGUAGE plpgsql AS $func$
+DECLARE
+  v_role JSONB;
+  v_grant JSONB;
+  v_name TEXT;
+  v_schema TEXT;
+  v_owner TEXT;
+  v_level TEXT;
+  v_table_privileges TEXT;
+  v_sequence_privileges TEXT;
+  v_schemas TEXT[];
+  v_owners TEXT[];
+BEGIN
+  FOR v_role IN SELECT * FROM jsonb_array_elements(coalesce(p_spec -> 'roles', '[]')) LOOP
+    v_name := v_role ->> 'name';
+    FOR v_grant IN
+      SELECT g FROM jsonb_array_elements(coalesce(v_role -> 'grants', '[]')) AS g
+      WHERE g ->> 'database' = current_database()
+    LOOP
+      v_level := coalesce(v_grant ->> 'privileges', 'read');
+      v_table_privileges := CASE v_level WHEN 'read' THEN 'SELECT' ELSE 'SELECT, INSERT, UPDATE, DELETE' END;
+      v_sequence_privileges := CASE v_level WHEN 'read' THEN 'SELECT' ELSE 'SELECT, USAGE, UPDATE' END;
+      SELECT coalesce(array_agg(value), ARRAY['public']) INTO v_schemas
+      FROM jsonb_array_elements_text(CASE jsonb_typeof(v_grant -> 'schemas') WHEN 'array' THEN v_grant -> 'schemas' ELSE '[]' END);
+      -- Objects created later by these roles get the same privileges (default: the database owner)
+      SELECT array_agg(value) INTO v_owners
+      FROM jsonb_array_elements_text(CASE jsonb_typeof(v_grant -> 'default_privileges_for')
+        WHEN 'array' THEN v_grant -> 'default_privileges_for' ELSE '[]' END);
+      IF v_owners IS NULL THEN
+        SELECT ARRAY[pg_get_userbyid(datdba)::text] INTO v_owners
+        FROM pg_database WHERE datname = current_database();
+      END IF;
+
+      EXECUTE format('GRANT CONNECT ON DATABASE %I TO %I', current_database(), v_name);
+      FOREACH v_schema IN ARRAY v_schemas LOOP
+        IF NOT EXISTS (SELECT FROM pg_namespace WHERE nspname = v_schema) THEN
+          RAISE EXCEPTION 'roles.yaml: role "%": schema "%" does not exist in database "%"',
+            v_name, v_schema, current_database();
+        END IF;
+        EXECUTE format('GRANT USAGE%s ON SCHEMA %I TO %I',
+          CASE v_level WHEN 'ddl' THEN ', CREATE' ELSE '' END, v_schema, v_name);
+        EXECUTE format('GRANT %s ON ALL TABLES IN SCHEMA %I TO %I', v_table_privileges, v_schema, v_name);
+        EXECUTE format('GRANT %s ON ALL SEQUENCES IN SCHEMA %I TO %I', v_sequence_privileges, v_schema, v_name);
+        FOREACH v_owner IN ARRAY v_owners LOOP
+          IF NOT EXISTS (SELECT FROM pg_roles WHERE rolname = v_owner) THEN
+            RAISE EXCEPTION 'roles.yaml: role "%": default_privileges_for role "%" does not exist', v_name, v_owner;
+          END IF;
+          EXECUTE format('ALTER DEFAULT PRIVILEGES FOR ROLE %I IN SCHEMA %I GRANT %s ON TABLES TO %I',
+            v_owner, v_schema, v_table_privileges, v_name);
+          EXECUTE format('ALTER DEFAULT PRIVILEGES FOR ROLE %I IN SCHEMA %I GRANT %s ON SEQUENCES TO %I',
+            v_owner, v_schema, v_sequence_privileges, v_name);
+        END LOOP;
+      END LOOP;
+      RAISE NOTICE 'Granted % on %.% to %', v_level, current_database(), array_to_string(v_schemas, ','), v_name;
+    END LOOP;
+  END LOOP;
+END
+$func$;
+
+SELECT pg_temp.reconcile_grants(:'spec');
+EOSQL
+done
+
+echo "[06-roles] ✅ Roles reconciled"
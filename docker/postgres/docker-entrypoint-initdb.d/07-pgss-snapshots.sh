@@ -0,0 +1,175 @@
+#!/bin/bash
+#
+# pg_stat_statements Snapshots (PGSS_SNAPSHOT_SCHEDULE)
+# =====================================================
+# Creates the aza_perf schema, which keeps periodic copies of the pg_stat_statements counters
+# so two periods (e.g. before and after a deploy) can be compared with
+# scripts/tools/pgss-snapshot.ts, and schedules the snapshot job with pg_cron.
+#
+# Gating:
+# - Opt-in: runs only when PGSS_SNAPSHOT_SCHEDULE is set (a pg_cron schedule, e.g. '0 * * * *')
+# - Needs pg_stat_statements preloaded; without pg_cron the schema is created but nothing is
+#   scheduled (snapshots can still be taken with pgss-snapshot.ts --snapshot)
+#
+# Idempotent: pgss-snapshot.ts --install runs this script against a running container to
+# enable snapshots on an existing cluster or change the schedule and retention.
+#
+# Objects live in cron.database_name (${POSTGRES_DB:-postgres}), where pg_cron runs its jobs.
+
+set -euo pipefail
+
+SCHEDULE="${PGSS_SNAPSHOT_SCHEDULE:-}"
+RETENTION_DAYS="${PGSS_SNAPSHOT_RETENTION:-14}"
+TARGET_DB="${POSTGRES_DB:-postgres}"
+JOB_NAME="aza-perf-snapshot"
+
+if [ -z "$SCHEDULE" ]; then
+    echo "[07-pgss-snapshots] INFO: PGSS_SNAPSHOT_SCHEDULE not set - skipping query snapshots"
+    exit 0
+fi
+
+if ! [[ "$RETENTION_DAYS" =~ ^[0-9]+$ ]] || [ "$RETENTION_DAYS" -lt 1 ]; then
+    echo "[07-pgss-snapshots] ERROR: PGSS_SNAPSHOT_RETENTION must be a number of days (>= 1), got '$RETENTION_DAYS'" >&2
+    exit 1
+fi
+
+psql_target() {
+    psql -X -v ON_ERROR_STOP=1 --username "${POSTGRES_USER:-postgres}" --dbname "$TARGET_DB" "$@"
+}
+
+if [ "$(psql_target -tAc 'SELECT pg_is_in_recovery()')" = "t" ]; then
+    echo "[07-pgss-snapshots] INFO: Server is in recovery - snapshots are taken on the primary"
+    exit 0
+fi
+
+PRELOAD_LIBS=$(psql_target -tAc "SHOW shared_preload_libraries")
+if ! echo "$PRELOAD_LIBS" | grep -qw "pg_stat_statements"; then
+    echo "[07-pgss-snapshots] WARNING: pg_stat_statements not in shared_preload_libraries - skipping query snapshots" >&2
+    exit 0
+fi
+
+echo "[07-pgss-snapshots] Creating the aza_perf schema in database: $TARGET_DB"
+
+psql_target <<'EOSQL'
+-- Security: Use pg_catalog search_path to prevent schema injection attacks
+SET search_path = pg_catalog;
+
+CREATE EXTENSION IF NOT EXISTS pg_stat_statements;
+
+CREATE SCHEMA IF NOT EXISTS aza_perf;
+COMMENT ON SCHEMA aza_perf IS 'pg_stat_statements snapshots (scripts/tools/pgss-snapshot.ts)';
+
+CREATE TABLE IF NOT EXISTS aza_perf.snapshots (
+    snapshot_id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    taken_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp(),
+    -- pg_stat_statements_info.stats_reset: counters are only comparable within one reset
+    stats_reset TIMESTAMPTZ,
+    label TEXT
+);
+CREATE INDEX IF NOT EXISTS snapshots_taken_at_idx ON aza_perf.snapshots (taken_at);
+
+-- Cumulative counters per pg_stat_statements entry; query texts are kept once in queries
+CREATE TABLE IF NOT EXISTS aza_perf.statements (
+    snapshot_id BIGINT NOT NULL REFERENCES aza_perf.snapshots ON DELETE CASCADE,
+    dbid OID NOT NULL,
+    userid OID NOT NULL,
+    queryid BIGINT NOT NULL,
+    toplevel BOOLEAN NOT NULL,
+    calls BIGINT NOT NULL,
+    total_exec_time DOUBLE PRECISION NOT NULL,
+    rows BIGINT NOT NULL,
+    shared_blks_hit BIGINT NOT NULL,
+    shared_blks_read BIGINT NOT NULL,
+    temp_blks_written BIGINT NOT NULL,
+    PRIMARY KEY (snapshot_id, dbid, userid, queryid, toplevel)
+);
+
+CREATE TABLE IF NOT EXISTS aza_perf.queries (
+    dbid OID NOT NULL,
+    queryid BIGINT NOT NULL,
+    query TEXT NOT NULL,
+    last_seen TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (dbid, queryid)
+);
+
+CREATE OR REPLACE FUNCTION aza_perf.take_snapshot(p_label TEXT DEFAULT NULL)
+RETURNS BIGINT
+LANGUAGE plpgsql
+AS $func$
+DECLARE
+    v_snapshot_id BIGINT;
+BEGIN
+    INSERT INTO aza_perf.snapshots (stats_reset, label)
+    SELECT stats_reset, p_label FROM pg_stat_statements_info
+    RETURNING snapshot_id INTO v_snapshot_id;
+
+    -- One read of pg_stat_statements feeds both the counters and the query texts;
+    -- last_seen is refreshed at most daily to keep snapshots from rewriting every text
+    WITH current_stats AS (
+        SELECT dbid, userid, queryid, toplevel, query, calls, total_exec_time, rows,
+               shared_blks_hit, shared_blks_read, temp_blks_written
+        FROM pg_stat_statements(true)
+        WHERE queryid IS NOT NULL
+    ), counters AS (
+        INSERT INTO aza_perf.statements (snapshot_id, dbid, userid, queryid, toplevel, calls,
+            total_exec_time, rows, shared_blks_hit, shared_blks_read, temp_blks_written)
+        SELECT v_snapshot_id, dbid, userid, queryid, toplevel, calls, total_exec_time, rows,
+               shared_blks_hit, shared_blks_read, temp_blks_written
+        FROM current_stats
+    )
+    INSERT INTO aza_perf.queries (dbid, queryid, query)
+    SELECT DISTINCT ON (dbid, queryid) dbid, queryid, left(query, 10000)
+    FROM current_stats
+    ON CONFLICT (dbid, queryid) DO UPDATE SET last_seen = now()
+    WHERE queries.last_seen < now() - interval '1 day';
+
+    RETURN v_snapshot_id;
+END
+$func$;
+
+CREATE OR REPLACE FUNCTION aza_perf.prune(p_retention INTERVAL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $func$
+DECLARE
+    v_deleted INTEGER;
+BEGIN
+    DELETE FROM aza_perf.snapshots WHERE taken_at < now() - p_retention;
+    GET DIAGNOSTICS v_deleted = ROW_COUNT;
+    DELETE FROM aza_perf.queries WHERE last_seen < now() - p_retention - interval '1 day';
+    RETURN v_deleted;
+END
+$func$;
+
+-- Resolve pg_stat_statements from whichever schema the extension was created in
+DO $$
+DECLARE
+    v_schema NAME;
+BEGIN
+    SELECT extnamespace::regnamespace::name INTO v_schema
+    FROM pg_extension WHERE extname = 'pg_stat_statements';
+    EXECUTE format(
+        'ALTER FUNCTION aza_perf.take_snapshot(text) SET search_path = %I, pg_catalog, pg_temp',
+        v_schema);
+    EXECUTE 'ALTER FUNCTION aza_perf.prune(interval) SET search_path = pg_catalog, pg_temp';
+END
+$$;
+
+-- Monitoring roles may read the snapshots
+GRANT USAGE ON SCHEMA aza_perf TO pg_read_all_stats;
+GRANT SELECT ON ALL TABLES IN SCHEMA aza_perf TO pg_read_all_stats;
+EOSQL
+
+if ! echo "$PRELOAD_LIBS" | grep -qw "pg_cron" ||
+    [ "$(psql_target -tAc "SELECT to_regprocedure('cron.schedule(text,text,text)') IS NOT NULL")" != "t" ]; then
+    echo "[07-pgss-snapshots] WARNING: pg_cron not available in $TARGET_DB - snapshots are not scheduled (take them with pgss-snapshot.ts --snapshot)" >&2
+    exit 0
+fi
+
+# cron.schedule() replaces the job of the same name, so reruns update schedule and retention
+psql_target -q -v job="$JOB_NAME" -v schedule="$SCHEDULE" \
+    -v command="SELECT aza_perf.take_snapshot(); SELECT aza_perf.prune(interval '${RETENTION_DAYS} days')" <<'EOSQL'
+SELECT cron.schedule(:'job', :'schedule', :'command');
+EOSQL
+
+echo "[07-pgss-snapshots] Scheduled $JOB_NAME ($SCHEDULE), keeping ${RETENTION_DAYS} days of snapshots"
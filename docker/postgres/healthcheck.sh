@@ -9,24 +9,53 @@
 
 set -euo pipefail
 
+# Record the tier reached and the exit code for the built-in metrics endpoint
+HEALTHCHECK_STATUS_FILE="${HEALTHCHECK_STATUS_FILE:-/var/run/postgresql/aza-healthcheck.status}"
+HEALTHCHECK_TIER=0
+record_healthcheck() {
+    local code=$?
+    { echo "$(date +%s) $HEALTHCHECK_TIER $code" > "$HEALTHCHECK_STATUS_FILE.tmp" &&
+        mv -f "$HEALTHCHECK_STATUS_FILE.tmp" "$HEALTHCHECK_STATUS_FILE"; } 2>/dev/null || true
+}
+trap record_healthcheck EXIT
+
 # Expected extensions for this aza-pg version (from manifest)
 EXPECTED_EXTENSIONS=("pg_cron" "pg_net" "pg_stat_monitor" "pg_stat_statements" "pg_trgm" "pgaudit" "pgmq" "pgsodium" "plpgsql" "supabase_vault" "timescaledb" "vector" "vectorscale")
 EXPECTED_COUNT=13
 EXPECTED_PRELOAD="auto_explain,pg_cron,pg_net,pg_stat_monitor,pg_stat_statements,pgaudit,pgsodium,safeupdate,timescaledb"
 
 # Tier 1: Connection Test
+HEALTHCHECK_TIER=1
 if ! pg_isready -U postgres --timeout=3 >/dev/null 2>&1; then
     echo "FAIL: PostgreSQL not accepting connections" >&2
     exit 1
 fi
 
 # Tier 2: Query Execution Test
+HEALTHCHECK_TIER=2
 if ! psql -U postgres -d postgres -tAc 'SELECT 1' 2>/dev/null | grep -q '^1$'; then
     echo "FAIL: Database query execution failed" >&2
     exit 1
 fi
 
+# Active extension profile: the entrypoint passes the resolved lists as aza.* settings
+# (unset when the server was not started through docker-auto-config-entrypoint.sh)
+ACTIVE_PROFILE=$(psql -U postgres -d postgres -tAc \
+    "SELECT current_setting('aza.extension_profile', true)" \
+    2>/dev/null || echo "")
+if [ -n "$ACTIVE_PROFILE" ]; then
+    PROFILE_EXTENSIONS=$(psql -U postgres -d postgres -tAc \
+        "SELECT current_setting('aza.profile_extensions', true)" \
+        2>/dev/null || echo "")
+    IFS=',' read -ra EXPECTED_EXTENSIONS <<< "$PROFILE_EXTENSIONS"
+    EXPECTED_COUNT=${#EXPECTED_EXTENSIONS[@]}
+    EXPECTED_PRELOAD=$(psql -U postgres -d postgres -tAc \
+        "SELECT current_setting('aza.profile_preload', true)" \
+        2>/dev/null || echo "")
+fi
+
 # Tier 3: Extension State Verification (Ground Truth)
+HEALTHCHECK_TIER=3
 # Verify all expected extensions actually exist in pg_extension
 # This works correctly for: fresh init, restores, replicas, upgrades
 MISSING_EXTENSIONS=()
@@ -57,6 +86,7 @@ if [ ${#MISSING_EXTENSIONS[@]} -gt 0 ]; then
 fi
 
 # Tier 4: Initialization Status Check (Diagnostic Context)
+HEALTHCHECK_TIER=4
 # If status table exists, verify initialization completed successfully
 # This provides rich error context but isn't the primary validation
 if psql -U postgres -d postgres -tAc \
@@ -86,6 +116,7 @@ if psql -U postgres -d postgres -tAc \
 fi
 
 # Tier 5: Shared Preload Libraries Verification
+HEALTHCHECK_TIER=5
 ACTUAL_PRELOAD=$(psql -U postgres -d postgres -tAc \
     "SELECT setting FROM pg_settings WHERE name = 'shared_preload_libraries'" \
     2>/dev/null || echo "")
@@ -103,6 +134,7 @@ for lib in "${PRELOAD_LIBS[@]}"; do
 done
 
 # Tier 6: System Catalog Integrity
+HEALTHCHECK_TIER=6
 CATALOG_TABLES=$(psql -U postgres -d postgres -tAc \
     "SELECT count(*) FROM information_schema.tables WHERE table_schema = 'pg_catalog' AND table_type = 'BASE TABLE'" \
     2>/dev/null || echo "0")
@@ -113,6 +145,7 @@ if [ "$CATALOG_TABLES" -lt 60 ]; then
 fi
 
 # Tier 7: Database Role Verification
+HEALTHCHECK_TIER=7
 POSTGRES_ROLE="${POSTGRES_ROLE:-primary}"
 if [ "$POSTGRES_ROLE" != "replica" ]; then
     IN_RECOVERY=$(psql -U postgres -d postgres -tAc \
@@ -0,0 +1,337 @@
+#!/usr/bin/perl
+# Built-in metrics endpoint (POSTGRES_METRICS_PORT)
+#
+# Serves Prometheus text-format metrics at http://<container>:$POSTGRES_METRICS_PORT/metrics, so a
+# stack does not need a postgres_exporter container:
+#   - the custom queries of POSTGRES_METRICS_QUERIES (postgres_exporter query file format; default:
+#     the image's copy of postgres_exporter_queries.yaml) under the exporter's metric names
+#     (<query>_<column>), including the aza_pg_autoconfig and aza_pg_init queries
+#   - pg_up, and success and duration per query
+#   - the healthcheck tier results recorded by healthcheck.sh
+#
+# Queries run one at a time through psql on the local socket, as POSTGRES_USER in
+# POSTGRES_METRICS_DATABASE (default: postgres). Column usages LABEL, GAUGE, COUNTER and DISCARD
+# are supported. A query with an `extension` key (added by the config generator to extension
+# queries) is skipped, without a success sample, while that extension is not installed in the
+# database; other columns and query keys (master, cache_seconds, ...) are ignored.
+#
+# Commands:
+#   serve   listen on POSTGRES_METRICS_LISTEN:POSTGRES_METRICS_PORT (the entrypoint defaults the
+#           address to the container's own; 127.0.0.1 when run directly)
+#   render  print the metrics once
+#
+# Written in Perl because it is the one scripting runtime the image already has: postgresql-common
+# (pg_ctlcluster, pg_config wrappers) is Perl, so perl and the core modules used here come with the
+# base image. There is no JS runtime in the image, bash cannot listen on a socket, and shipping the
+# postgres_exporter binary would bring back the Go stdlib CVEs that replacing gosu with su-exec removed.
+use strict;
+use warnings;
+use CPAN::Meta::YAML;
+use Encode qw(encode);
+use IO::Socket::INET;
+use Time::HiRes qw(time);
+
+my $LOG_PREFIX = "[metrics-server]";
+my $QUERIES_FILE = $ENV{POSTGRES_METRICS_QUERIES} || "/etc/postgresql/metrics-queries.yaml";
+my $HEALTHCHECK_STATUS_FILE =
+  $ENV{HEALTHCHECK_STATUS_FILE} || "/var/run/postgresql/aza-healthcheck.status";
+# Tier numbers of healthcheck.sh
+my @HEALTHCHECK_TIERS = qw(connection query extensions init_status preload catalog role);
+
+# psql output separators and NULL marker (control characters do not occur in metric values)
+my $FIELD_SEP = "\x1f";
+my $RECORD_SEP = "\x1e";
+my $NULL = "\x1d";
+
+# Queries currently failing, so each failure is logged once rather than on every scrape
+my %failing;
+
+sub load_queries {
+  open(my $fh, "<:encoding(UTF-8)", $QUERIES_FILE) or die "cannot read $QUERIES_FILE: $!\n";
+  my $text = do { local $/; <$fh> };
+  my $docs = eval { CPAN::Meta::YAML->read_string($text) };
+  unless ($docs) {
+    (my $reason = $@ || "unreadable") =~ s/ at \S+ line \d+.*//s;
+    die "invalid YAML in $QUERIES_FILE: $reason\n";
+  }
+  my $spec = $docs->[0] // {};
+  die "$QUERIES_FILE: the top level must be a mapping of queries\n" unless ref $spec eq "HASH";
+  return $spec;
+}
+
+# Run one statement; returns (ok, output). Errors are returned as the output.
+sub run_psql {
+  my ($sql) = @_;
+  my $pid = open(my $fh, "-|") // die "fork failed: $!\n";
+  if (!$pid) {
+    open(STDERR, ">&", \*STDOUT) or die "cannot redirect stderr: $!\n";
+    exec("psql", "-X", "-q", "-A", "-F", $FIELD_SEP, "-R", $RECORD_SEP, "-P", "footer=off",
+      "-P", "null=$NULL", "-v", "ON_ERROR_STOP=1",
+      "--username", $ENV{POSTGRES_USER} || "postgres",
+      "--dbname", $ENV{POSTGRES_METRICS_DATABASE} || "postgres",
+      "-c", $sql)
+      or die "cannot run psql: $!\n";
+  }
+  binmode($fh, ":encoding(UTF-8)");
+  my $output = do { local $/; <$fh> } // "";
+  close($fh);
+  return ($? == 0, $output);
+}
+
+# Column names and rows of psql's unaligned output
+sub parse_rows {
+  my ($output) = @_;
+  $output =~ s/\n\z//;
+  my @records = split /$RECORD_SEP/, $output, -1;
+  my @columns = split /$FIELD_SEP/, (shift(@records) // ""), -1;
+  my @rows;
+  for my $record (@records) {
+    my %row;
+    @row{@columns} = split /$FIELD_SEP/, $record, -1;
+    push @rows, \%row;
+  }
+  return (\@columns, \@rows);
+}
+
+sub metric_value {
+  my ($value) = @_;
+  return "NaN" if !defined $value || $value eq $NULL;
+  return 1 if $value eq "t";
+  return 0 if $value eq "f";
+  return $value if $value =~ /^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?$/;
+  return "+Inf" if $value eq "Infinity";
+  return "-Inf" if $value eq "-Infinity";
+  return "NaN";
+}
+
+sub escape_label {
+  my ($value) = @_;
+  $value = "" if !defined $value || $value eq $NULL;
+  $value =~ s/\\/\\\\/g;
+  $value =~ s/"/\\"/g;
+  $value =~ s/\n/\\n/g;
+  return $value;
+}
+
+sub escape_help {
+  my ($text) = @_;
+  $text //= "";
+  $text =~ s/\\/\\\\/g;
+  $text =~ s/\n/\\n/g;
+  return $text;
+}
+
+sub labels {
+  my (@pairs) = @_;
+  my @parts;
+  while (my ($name, $value) = splice(@pairs, 0, 2)) {
+    push @parts, sprintf('%s="%s"', $name, escape_label($value));
+  }
+  return @parts ? "{" . join(",", @parts) . "}" : "";
+}
+
+sub family {
+  my ($name, $type, $help, @samples) = @_;
+  return ("# HELP $name " . escape_help($help), "# TYPE $name $type", @samples);
+}
+
+# Metric families of one query's result, in the order of its metrics list
+sub query_families {
+  my ($name, $spec, $rows) = @_;
+  my (@label_columns, @value_columns);
+  for my $metric (@{ $spec->{metrics} // [] }) {
+    next unless ref $metric eq "HASH";
+    my ($column, $options) = %$metric;
+    my $usage = uc($options->{usage} // "");
+    if ($usage eq "LABEL") {
+      push @label_columns, $column;
+    } elsif ($usage eq "GAUGE" || $usage eq "COUNTER") {
+      push @value_columns, [$column, lc $usage, $options->{description}];
+    }
+  }
+
+  my @lines;
+  for my $value_column (@value_columns) {
+    my ($column, $type, $help) = @$value_column;
+    my @samples = map {
+      my $row = $_;
+      "${name}_$column" . labels(map { ($_, $row->{$_}) } @label_columns) . " "
+        . metric_value($row->{$column})
+    } grep { exists $_->{$column} } @$rows;
+    push @lines, family("${name}_$column", $type, $help, @samples) if @samples;
+  }
+  return @lines;
+}
+
+sub healthcheck_families {
+  open(my $fh, "<", $HEALTHCHECK_STATUS_FILE) or return ();
+  my $line = <$fh> // "";
+  close($fh);
+  my ($timestamp, $tier, $exit_code) = $line =~ /^(\d+) (\d+) (\d+)$/ or return ();
+
+  my @tier_samples;
+  for my $number (1 .. @HEALTHCHECK_TIERS) {
+    last if $number > $tier;
+    my $ok = $number < $tier || $exit_code == 0 ? 1 : 0;
+    push @tier_samples,
+      "aza_pg_healthcheck_tier_ok"
+      . labels(tier => $number, check => $HEALTHCHECK_TIERS[$number - 1])
+      . " $ok";
+  }
+  return (
+    family("aza_pg_healthcheck_ok", "gauge", "1 if the last healthcheck.sh run passed",
+      "aza_pg_healthcheck_ok " . ($exit_code == 0 ? 1 : 0)),
+    family("aza_pg_healthcheck_last_run_timestamp_seconds", "gauge",
+      "Unix time of the last healthcheck.sh run",
+      "aza_pg_healthcheck_last_run_timestamp_seconds $timestamp"),
+    family("aza_pg_healthcheck_tier_ok", "gauge",
+      "1 if the healthcheck tier passed on the last run (tiers after a failing one are not run)",
+      @tier_samples),
+  );
+}
+
+sub render {
+  my $started = time;
+  # Doubles as the reachability check
+  my ($up, $output) = run_psql("SELECT extname FROM pg_extension");
+  my @lines = family("pg_up", "gauge", "Whether the last scrape could query PostgreSQL",
+    "pg_up " . ($up ? 1 : 0));
+  if (!$up) {
+    chomp $output;
+    print STDERR "$LOG_PREFIX PostgreSQL is not reachable: $output\n" unless $failing{""}++;
+  } elsif (delete $failing{""}) {
+    print STDERR "$LOG_PREFIX PostgreSQL is reachable again\n";
+  }
+
+  my (@success, @duration);
+  if ($up) {
+    my (undef, $extensions) = parse_rows($output);
+    my %installed = map { $_->{extname} => 1 } @$extensions;
+    my $queries = load_queries();
+    for my $name (sort keys %$queries) {
+      my $spec = $queries->{$name};
+      next unless ref $spec eq "HASH" && defined $spec->{query};
+      if (defined $spec->{extension} && !$installed{$spec->{extension}}) {
+        delete $failing{$name};
+        next;
+      }
+      my $query_started = time;
+      my ($ok, $result) = run_psql($spec->{query});
+      push @duration,
+        sprintf("aza_pg_metrics_query_duration_seconds%s %.6f", labels(query => $name),
+        time - $query_started);
+      push @success, "aza_pg_metrics_query_success" . labels(query => $name) . " " . ($ok ? 1 : 0);
+      if (!$ok) {
+        my ($reason) = split /\n/, $result;
+        print STDERR "$LOG_PREFIX Query $name failed: " . ($reason // "") . "\n"
+          unless $failing{$name}++;
+        next;
+      }
+      print STDERR "$LOG_PREFIX Query $name succeeds again\n" if delete $failing{$name};
+      my (undef, $rows) = parse_rows($result);
+      push @lines, query_families($name, $spec, $rows);
+    }
+  }
+
+  push @lines,
+    family("aza_pg_metrics_query_success", "gauge", "1 if the custom query succeeded", @success),
+    family("aza_pg_metrics_query_duration_seconds", "gauge", "Custom query duration", @duration)
+    if @success;
+  push @lines, healthcheck_families();
+  push @lines,
+    family("aza_pg_metrics_scrape_duration_seconds", "gauge", "Duration of the scrape",
+      sprintf("aza_pg_metrics_scrape_duration_seconds %.6f", time - $started));
+  return join("\n", @lines) . "\n";
+}
+
+# The body is text (query file and psql output are decoded); Content-Length counts its UTF-8 bytes
+sub respond {
+  my ($client, $status, $type, $body) = @_;
+  my $bytes = encode("UTF-8", $body);
+  print $client "HTTP/1.1 $status\r\n",
+    "Content-Type: $type\r\n",
+    "Content-Length: " . length($bytes) . "\r\n",
+    "Connection: close\r\n\r\n",
+    $bytes;
+}
+
+sub handle {
+  my ($client) = @_;
+  my $request = eval {
+    local $SIG{ALRM} = sub { die "timeout\n" };
+    alarm 5;
+    my $line = <$client>;
+    while (defined(my $header = <$client>)) {
+      last if $header =~ /^\r?\n\z/;
+    }
+    alarm 0;
+    $line;
+  };
+  alarm 0;
+  return unless defined $request;
+
+  my ($method, $path) = $request =~ m{^(\S+)\s+([^\s?]+)};
+  $method //= "";
+  $path //= "";
+  if ($method ne "GET") {
+    respond($client, "405 Method Not Allowed", "text/plain", "Only GET is supported\n");
+  } elsif ($path eq "/metrics") {
+    my $body = eval { render() };
+    if (defined $body) {
+      respond($client, "200 OK", "text/plain; version=0.0.4; charset=utf-8", $body);
+    } else {
+      print STDERR "$LOG_PREFIX ERROR: $@";
+      respond($client, "500 Internal Server Error", "text/plain", $@);
+    }
+  } elsif ($path eq "/") {
+    respond($client, "200 OK", "text/plain", "aza-pg metrics: /metrics\n");
+  } else {
+    respond($client, "404 Not Found", "text/plain", "Not found\n");
+  }
+}
+
+sub serve {
+  my $port = $ENV{POSTGRES_METRICS_PORT} // "";
+  die "POSTGRES_METRICS_PORT must be a port number (1-65535), got '$port'\n"
+    unless $port =~ /^\d{1,5}$/ && $port >= 1 && $port <= 65535;
+  my $listen = $ENV{POSTGRES_METRICS_LISTEN} || "127.0.0.1";
+  load_queries();
+
+  my $server = IO::Socket::INET->new(
+    LocalAddr => $listen,
+    LocalPort => $port,
+    Proto => "tcp",
+    Listen => 16,
+    ReuseAddr => 1,
+  ) or die "cannot listen on $listen:$port: $@\n";
+  print STDERR "$LOG_PREFIX Serving $QUERIES_FILE on http://$listen:$port/metrics\n";
+
+  # A scraper that disconnects early must not end the server
+  local $SIG{PIPE} = "IGNORE";
+  while (1) {
+    my $client = $server->accept or next;
+    handle($client);
+    close($client);
+  }
+}
+
+sub main {
+  my $command = shift(@ARGV) // "";
+  # Keep scrapes cheap and quiet; the server's own PGOPTIONS still apply
+  $ENV{PGOPTIONS} = join(" ", grep { length } $ENV{PGOPTIONS} // "",
+    "-c statement_timeout=10s", "-c lock_timeout=1s", "-c client_min_messages=error");
+  $ENV{PGAPPNAME} = "aza-pg-metrics";
+  $ENV{PGCLIENTENCODING} = "UTF8";
+  binmode($_, ":encoding(UTF-8)") for \*STDOUT, \*STDERR;
+
+  if ($command eq "serve") {
+    serve();
+  } elsif ($command eq "render") {
+    print render();
+  } else {
+    print STDERR "Usage: metrics-server.pl serve | render\n";
+    exit 1;
+  }
+}
+
+main() unless caller;
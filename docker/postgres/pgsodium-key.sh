@@ -0,0 +1,247 @@
+#!/bin/bash
+# pgsodium root key verification and rotation for supabase_vault secrets
+#
+# The root key never enters the cluster: pgsodium and supabase_vault derive their encryption keys
+# from the output of the getkey script (pgsodium_getkey reads PGSODIUM_ROOT_KEY_FILE, then
+# PGSODIUM_ROOT_KEY). Starting an existing cluster with a different key leaves every vault secret
+# undecryptable, so the auto-config entrypoint runs "startup" before clients connect:
+#   - every secret decrypts with the current key: start normally
+#   - some do not, and PGSODIUM_ROOT_KEY_PREVIOUS(_FILE) is set: decrypt them with the previous
+#     key and re-encrypt them with the current one (key rotation), then start
+#   - some do not, and no previous key is set: refuse to start
+#
+# Commands:
+#   startup [postgres args...]  verify and rotate against temporary socket-only servers
+#   check                       print "<secrets> <undecryptable>" over all databases
+#   export                      print "<database> <id> <base64 secret>" for secrets that decrypt
+#   import                      re-encrypt the secrets of "export" lines read on stdin
+# check, export and import connect to a running server on the local socket.
+#
+# Decrypted secrets stay in memory (shell variables and pipes) and never reach disk or the logs.
+set -euo pipefail
+
+readonly LOG_PREFIX="[pgsodium-key]"
+
+psql_admin() {
+  psql -X -q -v ON_ERROR_STOP=1 --username "${POSTGRES_USER:-postgres}" "$@"
+}
+
+# Previous root key from PGSODIUM_ROOT_KEY_PREVIOUS_FILE or PGSODIUM_ROOT_KEY_PREVIOUS (empty when unset)
+previous_root_key() {
+  local key
+  if [ -n "${PGSODIUM_ROOT_KEY_PREVIOUS_FILE:-}" ] && [ -n "${PGSODIUM_ROOT_KEY_PREVIOUS:-}" ]; then
+    echo "$LOG_PREFIX ERROR: Both PGSODIUM_ROOT_KEY_PREVIOUS and PGSODIUM_ROOT_KEY_PREVIOUS_FILE are set (they are exclusive)" >&2
+    return 1
+  fi
+  if [ -n "${PGSODIUM_ROOT_KEY_PREVIOUS_FILE:-}" ]; then
+    if [ ! -r "$PGSODIUM_ROOT_KEY_PREVIOUS_FILE" ]; then
+      echo "$LOG_PREFIX ERROR: PGSODIUM_ROOT_KEY_PREVIOUS_FILE=${PGSODIUM_ROOT_KEY_PREVIOUS_FILE} is not readable by $(id -un)" >&2
+      return 1
+    fi
+    key=$(tr -d '[:space:]' <"$PGSODIUM_ROOT_KEY_PREVIOUS_FILE")
+  else
+    key=$(printf '%s' "${PGSODIUM_ROOT_KEY_PREVIOUS:-}" | tr -d '[:space:]')
+  fi
+  if [ -n "$key" ] && ! [[ $key =~ ^[0-9a-fA-F]{64}$ ]]; then
+    echo "$LOG_PREFIX ERROR: The previous root key must be 64 hex characters (openssl rand -hex 32)" >&2
+    return 1
+  fi
+  printf '%s' "$key"
+}
+
+# Databases that have supabase_vault installed
+vault_databases() {
+  local db
+  psql_admin --dbname postgres -tA \
+    -c "SELECT datname FROM pg_database WHERE datallowconn AND NOT datistemplate ORDER BY datname" |
+    while IFS= read -r db; do
+      if [ "$(psql_admin --dbname "$db" -tA -c "SELECT to_regclass('vault.secrets') IS NOT NULL")" = "t" ]; then
+        printf '%s\n' "$db"
+      fi
+    done
+}
+
+# Run a query over vault.secrets with pg_temp.aza_vault_decrypt(id): the decrypted secret, or NULL
+# when it does not decrypt with the server's root key (decryption errors are caught per secret)
+vault_query() {
+  local db=$1 query=$2
+  psql_admin --dbname "$db" -tA -F $'\t' <<EOSQL
+CREATE FUNCTION pg_temp.aza_vault_decrypt(p_id uuid) RETURNS text
+LANGUAGE plpgsql AS \$func\$
+DECLARE
+  v_secret text;
+BEGIN
+  SELECT decrypted_secret INTO v_secret FROM vault.decrypted_secrets WHERE id = p_id;
+  RETURN v_secret;
+EXCEPTION WHEN OTHERS THEN
+  RETURN NULL;
+END
+\$func\$;
+${query}
+EOSQL
+}
+
+# Failures return explicitly: callers run these in conditions, where errexit does not apply
+check() {
+  local databases db total=0 undecryptable=0 db_total db_undecryptable
+  databases=$(vault_databases) || return 1
+  while IFS= read -r db; do
+    [ -n "$db" ] || continue
+    IFS=$'\t' read -r db_total db_undecryptable < <(vault_query "$db" "
+      SELECT count(*), count(*) FILTER (WHERE pg_temp.aza_vault_decrypt(id) IS NULL)
+      FROM vault.secrets WHERE secret IS NOT NULL;") || return 1
+    total=$((total + db_total))
+    undecryptable=$((undecryptable + db_undecryptable))
+  done <<<"$databases"
+  printf '%s %s\n' "$total" "$undecryptable"
+}
+
+export_secrets() {
+  local databases db rows id secret
+  databases=$(vault_databases) || return 1
+  while IFS= read -r db; do
+    [ -n "$db" ] || continue
+    rows=$(vault_query "$db" "
+      SELECT id, translate(encode(convert_to(decrypted, 'UTF8'), 'base64'), E'\n', '')
+      FROM (SELECT id, pg_temp.aza_vault_decrypt(id) AS decrypted
+            FROM vault.secrets WHERE secret IS NOT NULL) AS s
+      WHERE decrypted IS NOT NULL;") || return 1
+    while IFS=$'\t' read -r id secret; do
+      if [ -n "$id" ]; then
+        printf '%s\t%s\t%s\n' "$db" "$id" "$secret"
+      fi
+    done <<<"$rows"
+  done <<<"$databases"
+}
+
+# SQL re-encrypting one database's secrets in a single transaction. The statements carry the
+# secrets, so statement, error, duration and audit logging are off for the session.
+import_sql() {
+  local db=$1 line_db id secret
+  printf '%s\n' \
+    "SET log_statement = 'none';" \
+    "SET log_min_error_statement = 'panic';" \
+    "SET log_min_duration_statement = -1;" \
+    "SET pgaudit.log = 'none';" \
+    "SET auto_explain.log_min_duration = -1;" \
+    "BEGIN;"
+  while IFS=$'\t' read -r line_db id secret; do
+    [ "$line_db" = "$db" ] || continue
+    if ! [[ $id =~ ^[0-9a-fA-F-]{36}$ && $secret =~ ^[A-Za-z0-9+/=]*$ ]]; then
+      echo "$LOG_PREFIX ERROR: Invalid export line for database ${db}" >&2
+      return 1
+    fi
+    printf "SELECT vault.update_secret('%s', convert_from(decode('%s', 'base64'), 'UTF8'));\n" "$id" "$secret"
+  done
+  echo "COMMIT;"
+}
+
+import_secrets() {
+  local exported db sql
+  exported=$(cat)
+  [ -n "$exported" ] || return 0
+  while IFS= read -r db; do
+    sql=$(import_sql "$db" <<<"$exported") || return 1
+    # Terse errors: the default verbosity echoes the failing statement, secret included
+    psql_admin --dbname "$db" -o /dev/null -v VERBOSITY=terse -v SHOW_CONTEXT=never <<<"$sql" ||
+      return 1
+  done < <(cut -f1 <<<"$exported" | sort -u)
+}
+
+# Print the secrets that decrypt with the previous key, read from a temporary server started with it
+export_with_previous_key() {
+  local previous=$1
+  shift
+  (
+    # The built-in getkey script reads these when the temporary postmaster preloads pgsodium
+    unset PGSODIUM_ROOT_KEY_FILE
+    export PGSODIUM_ROOT_KEY="$previous"
+    docker_temp_server_start "$@" >&2
+    if ! export_secrets; then
+      docker_temp_server_stop >&2
+      exit 1
+    fi
+    docker_temp_server_stop >&2
+  )
+}
+
+startup() {
+  local previous total undecryptable exported rotated
+  # docker-entrypoint.sh is not written for nounset
+  set +u
+  # shellcheck source=/dev/null
+  source /usr/local/bin/docker-entrypoint.sh
+  docker_setup_env
+  export PGPASSWORD="${PGPASSWORD:-${POSTGRES_PASSWORD:-}}"
+  previous=$(previous_root_key)
+
+  docker_temp_server_start "$@"
+  if ! read -r total undecryptable < <(check); then
+    docker_temp_server_stop
+    echo "$LOG_PREFIX ERROR: Could not read the vault secrets" >&2
+    return 1
+  fi
+  docker_temp_server_stop
+
+  if [ "$total" -eq 0 ]; then
+    echo "$LOG_PREFIX No vault secrets to verify"
+    return 0
+  fi
+  if [ "$undecryptable" -eq 0 ]; then
+    echo "$LOG_PREFIX Root key verified: ${total} vault secret(s) decrypt"
+    if [ -n "$previous" ]; then
+      echo "$LOG_PREFIX PGSODIUM_ROOT_KEY_PREVIOUS is no longer needed and can be removed"
+    fi
+    return 0
+  fi
+
+  if [ -z "$previous" ]; then
+    echo "$LOG_PREFIX ERROR: ${undecryptable} of ${total} vault secret(s) do not decrypt with the current pgsodium root key" >&2
+    echo "$LOG_PREFIX The key from PGSODIUM_ROOT_KEY_FILE / PGSODIUM_ROOT_KEY (or the getkey script) differs from the one the secrets were encrypted with." >&2
+    echo "$LOG_PREFIX Restore the original key, or rotate: set PGSODIUM_ROOT_KEY_PREVIOUS_FILE to the old key and restart." >&2
+    return 1
+  fi
+
+  echo "$LOG_PREFIX ${undecryptable} of ${total} vault secret(s) do not decrypt with the current key - re-encrypting them from the previous key"
+  exported=$(export_with_previous_key "$previous" "$@")
+  rotated=$(grep -c . <<<"$exported" || true)
+  if [ "$rotated" -lt "$undecryptable" ]; then
+    echo "$LOG_PREFIX ERROR: Only ${rotated} of the ${undecryptable} secret(s) decrypt with PGSODIUM_ROOT_KEY_PREVIOUS either" >&2
+    echo "$LOG_PREFIX Check the previous key. A custom getkey script must read PGSODIUM_ROOT_KEY for rotation to work." >&2
+    return 1
+  fi
+
+  docker_temp_server_start "$@"
+  if ! import_secrets <<<"$exported" || ! read -r total undecryptable < <(check); then
+    docker_temp_server_stop
+    echo "$LOG_PREFIX ERROR: Re-encrypting the vault secrets failed (each database is re-encrypted in one transaction)" >&2
+    return 1
+  fi
+  docker_temp_server_stop
+  if [ "$undecryptable" -ne 0 ]; then
+    echo "$LOG_PREFIX ERROR: ${undecryptable} of ${total} vault secret(s) still do not decrypt after re-encryption" >&2
+    return 1
+  fi
+  echo "$LOG_PREFIX Re-encrypted ${rotated} vault secret(s) with the current root key"
+  echo "$LOG_PREFIX Remove PGSODIUM_ROOT_KEY_PREVIOUS(_FILE) once the new key is backed up"
+}
+
+main() {
+  local command=${1:-}
+  shift || true
+  case "$command" in
+    startup) startup "$@" ;;
+    check) check ;;
+    export) export_secrets ;;
+    import) import_secrets ;;
+    *)
+      echo "Usage: pgsodium-key.sh startup [postgres args...] | check | export | import" >&2
+      exit 1
+      ;;
+  esac
+}
+
+# Allow sourcing for the key helpers without running a command
+if [ "${BASH_SOURCE[0]}" = "$0" ]; then
+  main "$@"
+fi
@@ -7,6 +7,7 @@
 //   bun scripts/build.ts                 # Single-platform (current arch)
 //   bun scripts/build.ts --multi-arch    # Multi-platform (amd64 + arm64)
 //   bun scripts/build.ts --push          # Build and push to registry
+//   bun scripts/build.ts --profile=./my-profile.json  # Slimmed image with an extension subset
 //
 // Requirements:
 //   - Docker Buildx installed (bundled with Docker Desktop / Docker 19.03+)
@@ -20,6 +21,11 @@
 //
 
 import { $ } from "bun";
+import {
+  generateProfileArtifacts,
+  printProfileReport,
+  type ProfileArtifacts,
+} from "./docker/generate-profile";
 
 // Get current git commit SHA for image labels
 async function getGitCommitSha(): Promise<string> {
@@ -43,6 +49,8 @@ interface BuildConfig {
   push: boolean;
   load: boolean;
   regression: boolean;
+  profile: string; // Build profile JSON path ("" = full image)
+  dockerfile: string;
   target: string;
 }
 
@@ -70,12 +78,19 @@ function parseArgs(): BuildConfig {
     push: false,
     load: true,
     regression: false,
+    profile: "",
+    dockerfile: "docker/postgres/Dockerfile",
     target: "", // No target - build final stage by default
   };
 
   const args = Bun.argv.slice(2);
 
   for (const arg of args) {
+    if (arg.startsWith("--profile=")) {
+      config.profile = arg.slice("--profile=".length);
+      continue;
+    }
+
     switch (arg) {
       case "--multi-arch":
         config.multiArch = true;
@@ -87,6 +102,7 @@ function parseArgs(): BuildConfig {
         break;
       case "--regression":
         config.regression = true;
+        config.dockerfile = "docker/postgres/regression.Dockerfile";
         // Regression Dockerfile is standalone - build final stage by default
         // Append -regression to tag if not already present
         if (!config.imageTag.includes("regression")) {
@@ -104,6 +120,11 @@ function parseArgs(): BuildConfig {
     }
   }
 
+  if (config.profile && config.regression) {
+    console.error("ERROR: --profile cannot be combined with --regression");
+    process.exit(1);
+  }
+
   return config;
 }
 
@@ -118,11 +139,14 @@ Usage:
   bun scripts/build.ts --multi-arch    # Multi-platform (amd64 + arm64)
   bun scripts/build.ts --push          # Build and push to registry
   bun scripts/build.ts --regression # Build regression test image (all extensions + pgTAP)
+  bun scripts/build.ts --profile=./my-profile.json  # Slimmed image with an extension subset
 
 Options:
   --multi-arch       Build for both amd64 and arm64 platforms
   --push             Push image to registry after build
   --regression    Build regression-test stage (all extensions including disabled ones)
+  --profile=PATH     Build profile JSON: { "name", "include" | "exclude", "preload"? }
+                     Generates build/profiles/<name>/ and tags the image <tag>-<name>
   --help             Show this help message
 
 Requirements:
@@ -155,7 +179,7 @@ async function validateManifest(): Promise<void> {
 }
 
 // Check Dockerfile with hadolint
-async function checkHadolint(): Promise<void> {
+async function checkHadolint(dockerfile: string): Promise<void> {
   console.log("Checking Dockerfile with hadolint...");
 
   // Check if hadolint is available
@@ -172,12 +196,12 @@ async function checkHadolint(): Promise<void> {
 
   // Run hadolint on the Dockerfile
   try {
-    const result = await $`hadolint docker/postgres/Dockerfile`.quiet();
+    const result = await $`hadolint ${dockerfile}`.quiet();
     if (result.exitCode !== 0) {
       console.error("ERROR: hadolint found issues in Dockerfile");
       console.error("");
       // Show the actual hadolint output
-      const output = await $`hadolint docker/postgres/Dockerfile`.text();
+      const output = await $`hadolint ${dockerfile}`.text();
       console.error(output);
       console.error("Fix the Dockerfile issues before building");
       process.exit(1);
@@ -262,7 +286,7 @@ async function buildImage(config: BuildConfig): Promise<void> {
     "--platform",
     platforms,
     "--file",
-    config.regression ? "docker/postgres/regression.Dockerfile" : "docker/postgres/Dockerfile",
+    config.dockerfile,
   ];
 
   // Only add --target if specified (otherwise Docker builds final stage by default)
@@ -417,15 +441,35 @@ async function buildImage(config: BuildConfig): Promise<void> {
   console.log("================================================================");
 }
 
+// Generate the profile build directory and point the build at it
+async function prepareProfile(config: BuildConfig): Promise<ProfileArtifacts> {
+  try {
+    const artifacts = await generateProfileArtifacts(config.profile);
+    config.dockerfile = `${artifacts.outputDir}/Dockerfile`;
+    config.imageTag = `${config.imageTag}-${artifacts.resolved.profile.name}`;
+    console.log("");
+    return artifacts;
+  } catch (err) {
+    console.error("ERROR: Build profile generation failed");
+    console.error(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+}
+
 // Main execution
 async function main(): Promise<void> {
   const config = parseArgs();
 
   await validateManifest();
-  await checkHadolint();
+  const profile = config.profile ? await prepareProfile(config) : undefined;
+  await checkHadolint(config.dockerfile);
   await checkDockerLogin(config);
   await setupBuilder(config.builderName);
   await buildImage(config);
+
+  if (profile) {
+    printProfileReport(profile);
+  }
 }
 
 // Run main and handle errors
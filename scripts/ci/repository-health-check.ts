@@ -76,6 +76,11 @@ const REQUIRED_ITEMS: CheckItem[] = [
     path: "stacks/single",
     description: "Single-node stack deployment configuration",
   },
+  {
+    type: "directory",
+    path: "stacks/logical",
+    description: "Logical replication subscriber stack deployment configuration",
+  },
 
   // Scripts directory
   {
@@ -146,6 +146,23 @@ const WAL_SENDER_TIMEOUT_SEC = "60s";
  */
 const WAL_RECEIVER_STATUS_INTERVAL_SEC = "10s";
 
+// ============================================================================
+// Logical Replication Constants
+// ============================================================================
+
+/**
+ * Maximum logical replication workers on a subscriber.
+ * Apply, table sync and parallel apply workers of all subscriptions share this pool.
+ * Default: 6 (vs 4 default - one subscription syncing several tables at once)
+ */
+const MAX_LOGICAL_REPLICATION_WORKERS = 6;
+
+/**
+ * Maximum table sync workers per subscription during the initial copy.
+ * Default: 3 (vs 2 default - copies more tables in parallel)
+ */
+const MAX_SYNC_WORKERS_PER_SUBSCRIPTION = 3;
+
 // ============================================================================
 // Hot Standby Constants
 // ============================================================================
@@ -164,6 +181,36 @@ const MAX_STANDBY_ARCHIVE_DELAY_SEC = "300s";
  */
 const MAX_STANDBY_STREAMING_DELAY_SEC = "300s";
 
+// ============================================================================
+// PgBouncer Constants
+// ============================================================================
+
+/**
+ * Maximum client connections accepted by PgBouncer.
+ * Clients are cheap (no backend process), so this can far exceed max_connections.
+ * Default: 200 (override with PGBOUNCER_MAX_CLIENT_CONN)
+ */
+const PGBOUNCER_MAX_CLIENT_CONN = 200;
+
+/**
+ * Requested server connections per database/user pool.
+ * Clamped at startup so the pool fits into max_connections minus reserved slots.
+ * Default: 25 (override with PGBOUNCER_DEFAULT_POOL_SIZE)
+ */
+const PGBOUNCER_DEFAULT_POOL_SIZE = 25;
+
+/**
+ * Extra server connections a pool may open when clients wait longer than reserve_pool_timeout.
+ * Default: 5 (dropped first when max_connections leaves no room for it)
+ */
+const PGBOUNCER_RESERVE_POOL_SIZE = 5;
+
+/**
+ * Lifetime of a server connection in seconds before PgBouncer recycles it.
+ * Default: 3600 (1 hour - releases memory held by long-lived backends)
+ */
+const PGBOUNCER_SERVER_LIFETIME_SEC = 3600;
+
 export const BASE_CONFIG: BaseConfig = {
   common: {
     // Connection Settings
@@ -239,6 +286,8 @@ export const BASE_CONFIG: BaseConfig = {
     // WAL
     walLevel: "logical",
     walCompression: "lz4",
+    // Lets pg_rewind rejoin a failed primary even when data checksums are disabled
+    walLogHints: "on",
     maxWalSize: "2GB",
     minWalSize: "1GB",
   },
@@ -253,6 +302,8 @@ export const BASE_CONFIG: BaseConfig = {
       maxReplicationSlots: MAX_REPLICATION_SLOTS_PRIMARY,
       walKeepSize: "1GB",
       synchronousCommit: "on",
+      // Asynchronous by default; for quorum commit over named replicas use e.g.
+      // { method: "ANY", count: 1, names: ["r1", "r2"] } (names are the replicas' slot names)
       synchronousStandbyNames: "",
       idleReplicationSlotTimeout: "48h",
       walSenderTimeout: WAL_SENDER_TIMEOUT_SEC,
@@ -283,6 +334,9 @@ export const BASE_CONFIG: BaseConfig = {
       maxStandbyStreamingDelay: MAX_STANDBY_STREAMING_DELAY_SEC,
       hotStandbyFeedback: "on",
       walReceiverStatusInterval: WAL_RECEIVER_STATUS_INTERVAL_SEC,
+      // A delayed replica (REPLICA_APPLY_DELAY) sets its delay in postgresql.auto.conf, which
+      // takes precedence; delayed-replica.ts changes it there while fast-forwarding
+      recoveryMinApplyDelay: "0",
 
       // Replication
       maxWalSenders: MAX_WAL_SENDERS_REPLICA,
@@ -312,6 +366,24 @@ export const BASE_CONFIG: BaseConfig = {
       // auto_explain timing (disabled for performance)
       autoExplainLogTiming: "off",
     },
+
+    logical: {
+      // Subscriber of a logical replication publisher; writable, so it can become the
+      // primary after a migration and publish onwards itself
+      walLevel: "logical",
+      maxWalSenders: MAX_WAL_SENDERS_REPLICA,
+
+      // Logical Replication
+      maxLogicalReplicationWorkers: MAX_LOGICAL_REPLICATION_WORKERS,
+      maxSyncWorkersPerSubscription: MAX_SYNC_WORKERS_PER_SUBSCRIPTION,
+      maxParallelApplyWorkersPerSubscription: 2,
+
+      // pg_cron
+      cronDatabaseName: "postgres",
+
+      // pgAudit
+      pgAuditLog: "ddl,role",
+    },
   },
 
   pgHbaRules: [
@@ -387,14 +459,17 @@ export const BASE_CONFIG: BaseConfig = {
       method: "scram-sha-256",
       stackSpecific: ["primary"],
     },
+    // Replicas accept replication too: a promoted replica streams to the old primary it rejoined.
+    // In TLS mode replication authenticates with the replicator client certificate, no password.
     {
       type: "host",
       database: "replication",
       user: "replicator",
       address: "10.0.0.0/8",
       method: "scram-sha-256",
-      comment: "Replication connections",
-      stackSpecific: ["primary"],
+      tls: { method: "cert", map: "service_certs" },
+      comment: "Replication connections (client certificate in TLS mode)",
+      stackSpecific: ["primary", "replica"],
     },
     {
       type: "host",
@@ -402,7 +477,8 @@ export const BASE_CONFIG: BaseConfig = {
       user: "replicator",
       address: "172.16.0.0/12",
       method: "scram-sha-256",
-      stackSpecific: ["primary"],
+      tls: { method: "cert", map: "service_certs" },
+      stackSpecific: ["primary", "replica"],
     },
     {
       type: "host",
@@ -410,7 +486,75 @@ export const BASE_CONFIG: BaseConfig = {
       user: "replicator",
       address: "192.168.0.0/16",
       method: "scram-sha-256",
-      stackSpecific: ["primary"],
+      tls: { method: "cert", map: "service_certs" },
+      stackSpecific: ["primary", "replica"],
+    },
+  ],
+
+  // Certificate CN → role maps for `cert` rules (CNs are the certificates generate-ssl-certs.ts
+  // and issue-client-cert.ts issue)
+  pgIdentMappings: [
+    {
+      map: "service_certs",
+      systemUser: "replicator",
+      databaseUser: "replicator",
+      comment: "Streaming replication client certificate",
+    },
+    {
+      map: "service_certs",
+      systemUser: "exporter",
+      databaseUser: "postgres",
+      comment: "postgres_exporter client certificate (for a cert rule on the exporter's network)",
     },
   ],
+
+  pgbouncer: {
+    common: {
+      databases: [],
+
+      // Connection Settings
+      listenAddr: "127.0.0.1",
+      listenPort: 6432,
+      poolMode: "transaction",
+      ignoreStartupParameters: ["extra_float_digits"],
+      serverTlsSslmode: "prefer",
+
+      // Authentication (auth_query looks up SCRAM secrets via pgbouncer_lookup())
+      authType: "scram-sha-256",
+      authFile: "/tmp/userlist.txt",
+      authDbname: "postgres",
+      authUser: "pgbouncer_auth",
+      authQuery: "SELECT * FROM pgbouncer_lookup($1)",
+      statsUsers: ["pgbouncer_auth", "postgres"],
+      adminUsers: ["postgres"],
+
+      // Pool Sizing
+      maxClientConn: PGBOUNCER_MAX_CLIENT_CONN,
+      defaultPoolSize: PGBOUNCER_DEFAULT_POOL_SIZE,
+      minPoolSize: 5,
+      reservePoolSize: PGBOUNCER_RESERVE_POOL_SIZE,
+      reservePoolTimeout: 5,
+
+      // Timeouts
+      serverIdleTimeout: 600,
+      serverLifetime: PGBOUNCER_SERVER_LIFETIME_SEC,
+      serverConnectTimeout: 15,
+      queryWaitTimeout: 120,
+    },
+
+    stacks: {
+      primary: {
+        // "postgres" is the compose service name of the primary server
+        databases: [
+          {
+            name: "postgres",
+            host: "postgres",
+            port: 5432,
+            dbname: "postgres",
+            user: "pgbouncer_auth",
+          },
+        ],
+      },
+    },
+  },
 };
@@ -1,4 +1,7 @@
 import { test, expect, describe } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { generateHealthcheckScript } from "./healthcheck-generator";
 import { generateExtensionsInitScript } from "./sql-generator";
 import type { ManifestEntry } from "../extensions/manifest-data";
@@ -289,6 +292,42 @@ describe("Healthcheck Generator", () => {
     expect(result).toContain("EXPECTED_PRELOAD=");
   });
 
+  test("generateHealthcheckScript follows the active extension profile", () => {
+    const result = generateHealthcheckScript(mockExtensions, mockPreloadLibraries);
+
+    // Baked defaults are replaced by the lists the entrypoint passed to the server
+    expect(result).toContain("current_setting('aza.extension_profile', true)");
+    expect(result).toContain("IFS=',' read -ra EXPECTED_EXTENSIONS <<< \"$PROFILE_EXTENSIONS\"");
+    expect(result).toContain("current_setting('aza.profile_preload', true)");
+    // ...before the extension and preload tiers use them
+    expect(result.indexOf("ACTIVE_PROFILE=")).toBeLessThan(result.indexOf("# Tier 3:"));
+  });
+
+  test("generateHealthcheckScript records the tier it reached", () => {
+    const result = generateHealthcheckScript(mockExtensions, mockPreloadLibraries);
+    for (let tier = 1; tier <= 7; tier++) {
+      expect(result.indexOf(`HEALTHCHECK_TIER=${tier}`)).toBeGreaterThan(
+        result.indexOf(`# Tier ${tier}:`)
+      );
+    }
+
+    // A failing pg_isready stops at tier 1 with exit code 1
+    const dir = mkdtempSync(join(tmpdir(), "healthcheck-"));
+    try {
+      writeFileSync(join(dir, "pg_isready"), "#!/bin/sh\nexit 2\n", { mode: 0o755 });
+      const run = Bun.spawnSync(["bash", "-c", result], {
+        env: {
+          PATH: `${dir}:${Bun.env.PATH ?? "/usr/bin:/bin"}`,
+          HEALTHCHECK_STATUS_FILE: join(dir, "status"),
+        },
+      });
+      expect(run.exitCode).toBe(1);
+      expect(readFileSync(join(dir, "status"), "utf8")).toMatch(/^\d+ 1 1\n$/);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
   test("generateHealthcheckScript is idempotent", () => {
     const result1 = generateHealthcheckScript(mockExtensions, mockPreloadLibraries);
     const result2 = generateHealthcheckScript(mockExtensions, mockPreloadLibraries);
@@ -11,7 +11,22 @@ import {
 } from "./manifest-loader";
 import { generateExtensionsInitScript } from "./sql-generator";
 import { generateHealthcheckScript } from "./healthcheck-generator";
+import { generatePgBouncerIni, resolvePgBouncerSettings } from "./pgbouncer-generator";
+import { generatePgHba, generatePgIdent } from "./hba-generator";
 import { writeConfigFile, writeConfigWithDir } from "./config-writer";
+import {
+  ALERT_RULES_PLACEHOLDER,
+  EXPORTER_QUERIES_PLACEHOLDER,
+  fillTemplate,
+  renderAlertRules,
+  renderExporterQueries,
+  renderExtensionDashboard,
+  selectObservedExtensions,
+  validateObservabilitySpecs,
+} from "./observability-generator";
+import { validateLoggingSettings } from "./logging";
+import { resolveRuntimeProfiles } from "../extensions/runtime-profiles";
+import { MANIFEST_ENTRIES } from "../extensions/manifest-data";
 import { success, info, error } from "../utils/logger";
 
 const SHARED_CATEGORY_FIELDS = {
@@ -31,6 +46,65 @@ const SHARED_CATEGORY_FIELDS = {
 
 const REPO_ROOT = join(import.meta.dir, "../..");
 
+const EXPORTER_QUERIES_TEMPLATE = "docker/postgres/configs/postgres_exporter_queries.yaml.template";
+const ALERTS_TEMPLATE = "examples/prometheus/alerts.yml.template";
+const EXTENSIONS_DASHBOARD = "examples/grafana/postgresql-extensions.json";
+
+function generatedHeader(template: string): string {
+  return [
+    "# AUTO-GENERATED FILE - DO NOT EDIT",
+    "# Generator: scripts/config-generator/generator.ts",
+    `# Template: ${template}`,
+    "",
+  ].join("\n");
+}
+
+/**
+ * Render exporter queries, alerting rules and the extensions dashboard for the given extensions.
+ * The specs come from manifest-data.ts (they are not part of extensions.manifest.json).
+ *
+ * @returns Paths of the written files
+ */
+async function generateObservabilityConfigs(enabled: readonly string[]): Promise<string[]> {
+  const extensions = selectObservedExtensions(MANIFEST_ENTRIES, enabled);
+  const queriesTemplate = await Bun.file(join(REPO_ROOT, EXPORTER_QUERIES_TEMPLATE)).text();
+  const handWrittenQueries = [...queriesTemplate.matchAll(/^([a-z][a-z0-9_]*):$/gm)].map(
+    (match) => match[1] ?? ""
+  );
+  validateObservabilitySpecs(extensions, handWrittenQueries);
+
+  const queriesPath = join(REPO_ROOT, EXPORTER_QUERIES_TEMPLATE.replace(/\.template$/, ""));
+  await writeConfigFile(
+    queriesPath,
+    generatedHeader(EXPORTER_QUERIES_TEMPLATE) +
+      fillTemplate(queriesTemplate, EXPORTER_QUERIES_PLACEHOLDER, renderExporterQueries(extensions))
+  );
+
+  const alertsTemplate = await Bun.file(join(REPO_ROOT, ALERTS_TEMPLATE)).text();
+  const alertsPath = join(REPO_ROOT, ALERTS_TEMPLATE.replace(/\.template$/, ""));
+  await writeConfigFile(
+    alertsPath,
+    generatedHeader(ALERTS_TEMPLATE) +
+      fillTemplate(alertsTemplate, ALERT_RULES_PLACEHOLDER, renderAlertRules(extensions))
+  );
+
+  const dashboardPath = join(REPO_ROOT, EXTENSIONS_DASHBOARD);
+  await writeConfigFile(
+    dashboardPath,
+    JSON.stringify(renderExtensionDashboard(extensions), null, 2) + "\n"
+  );
+  // Same formatting as the hand-written dashboards
+  const prettier = Bun.spawn(["bunx", "prettier", "--write", dashboardPath], {
+    cwd: REPO_ROOT,
+    stdout: "ignore",
+  });
+  if ((await prettier.exited) !== 0) {
+    throw new Error(`Prettier failed on ${dashboardPath}`);
+  }
+
+  return [queriesPath, alertsPath, dashboardPath];
+}
+
 function mergeSettings(
   common: PostgreSQLSettings,
   stackOverrides: Partial<PostgreSQLSettings>
@@ -63,6 +137,10 @@ function generatePostgresqlConf(
     logging: [
       "logDestination",
       "loggingCollector",
+      "logDirectory",
+      "logFilename",
+      "logRotationAge",
+      "logRotationSize",
       "logMinDurationStatement",
       "logLinePrefix",
       "logLockWaits",
@@ -113,8 +191,14 @@ function generatePostgresqlConf(
       "maxStandbyStreamingDelay",
       "hotStandbyFeedback",
       "walReceiverStatusInterval",
+      "recoveryMinApplyDelay",
       "logReplicationCommands",
     ],
+    logical_replication: [
+      "maxLogicalReplicationWorkers",
+      "maxSyncWorkersPerSubscription",
+      "maxParallelApplyWorkersPerSubscription",
+    ],
     pg_cron: ["cronDatabaseName", "cronLogRun", "cronLogStatement"],
     pgaudit: ["pgAuditLog", "pgAuditLogStatementOnce", "pgAuditLogLevel", "pgAuditLogRelation"],
   };
@@ -123,6 +207,7 @@ function generatePostgresqlConf(
     single: ["wal", "pgaudit"],
     primary: ["replication", "wal", "pg_cron", "pgaudit"],
     replica: ["replication", "wal", "pg_cron", "pgaudit"],
+    logical: ["wal", "logical_replication", "pg_cron", "pgaudit"],
   };
 
   for (const cat of includeCategories[stack]) {
@@ -199,6 +284,10 @@ function generateBaseConf(settings: PostgreSQLSettings): string {
     logging: [
       "logDestination",
       "loggingCollector",
+      "logDirectory",
+      "logFilename",
+      "logRotationAge",
+      "logRotationSize",
       "logMinDurationStatement",
       "logLinePrefix",
       "logLockWaits",
@@ -228,7 +317,7 @@ function generateBaseConf(settings: PostgreSQLSettings): string {
     autovacuum: [...SHARED_CATEGORY_FIELDS.autovacuum],
     checkpoints: [...SHARED_CATEGORY_FIELDS.checkpoints],
     query_planner: ["randomPageCost", "effectiveIoConcurrency"],
-    wal: ["walLevel", "walCompression", "maxWalSize", "minWalSize"],
+    wal: ["walLevel", "walCompression", "walLogHints", "maxWalSize", "minWalSize"],
     timescaledb: ["timescaledbTelemetryLevel"],
   };
 
@@ -274,42 +363,6 @@ function generateBaseConf(settings: PostgreSQLSettings): string {
   return lines.join("\n");
 }
 
-function generatePgHba(stack: StackType): string {
-  const lines: string[] = [];
-
-  lines.push("# PostgreSQL Client Authentication Configuration");
-  lines.push(`# Stack: ${stack}`);
-  lines.push("# Generated by scripts/config-generator/generator.ts");
-  lines.push("#");
-  lines.push("# DO NOT EDIT MANUALLY - Changes will be overwritten");
-  lines.push("# Edit scripts/config-generator/base-config.ts and regenerate");
-  lines.push("");
-  lines.push("# TYPE  DATABASE        USER            ADDRESS                 METHOD");
-  lines.push("");
-
-  for (const rule of BASE_CONFIG.pgHbaRules) {
-    if (rule.stackSpecific && !rule.stackSpecific.includes(stack)) {
-      continue;
-    }
-
-    if (rule.comment) {
-      lines.push(`# ${rule.comment}`);
-    }
-
-    const parts = [rule.type, rule.database, rule.user];
-
-    if (rule.address) {
-      parts.push(rule.address.padEnd(24));
-    }
-
-    parts.push(rule.method);
-
-    lines.push(parts.join("\t"));
-  }
-
-  return lines.join("\n");
-}
-
 async function generateConfigs() {
   info("Generating PostgreSQL configurations...\n");
 
@@ -327,13 +380,14 @@ async function generateConfigs() {
     console.log(`   ✓ ${baseConfPath}`);
 
     // Generate stack-specific configs
-    const stacks: StackType[] = ["primary", "replica", "single"];
+    const stacks: StackType[] = ["primary", "replica", "single", "logical"];
 
     for (const stack of stacks) {
       info(`Generating ${stack} stack configurations...`);
 
       const stackOverrides = BASE_CONFIG.stacks[stack];
       const settings = mergeSettings(BASE_CONFIG.common, stackOverrides);
+      validateLoggingSettings(settings, `${stack} stack logging`);
       const postgresqlConf = generatePostgresqlConf(
         stack,
         settings,
@@ -355,15 +409,52 @@ async function generateConfigs() {
       const postgresqlConfPath = await writeConfigWithDir(confDir, confName, postgresqlConf);
       console.log(`   ✓ ${postgresqlConfPath}`);
 
-      const pgHbaConf = generatePgHba(stack);
+      const { pgHbaRules, pgIdentMappings } = BASE_CONFIG;
+      const pgHbaConf = generatePgHba(pgHbaRules, pgIdentMappings, stack);
       const pgHbaPath = await writeConfigWithDir(confDir, "pg_hba.conf", pgHbaConf);
       console.log(`   ✓ ${pgHbaPath}`);
+
+      const pgHbaTlsConf = generatePgHba(pgHbaRules, pgIdentMappings, stack, true);
+      const pgHbaTlsPath = await writeConfigWithDir(confDir, "pg_hba-tls.conf", pgHbaTlsConf);
+      console.log(`   ✓ ${pgHbaTlsPath}`);
+
+      const pgIdentConf = generatePgIdent(pgIdentMappings, stack);
+      const pgIdentPath = await writeConfigWithDir(confDir, "pg_ident.conf", pgIdentConf);
+      console.log(`   ✓ ${pgIdentPath}`);
+
+      if (BASE_CONFIG.pgbouncer.stacks[stack]) {
+        const pgbouncerIni = generatePgBouncerIni(
+          stack,
+          resolvePgBouncerSettings(
+            BASE_CONFIG.pgbouncer.common,
+            BASE_CONFIG.pgbouncer.stacks,
+            stack
+          )
+        );
+        const pgbouncerPath = await writeConfigWithDir(
+          confDir,
+          "pgbouncer.ini.template",
+          pgbouncerIni
+        );
+        console.log(`   ✓ ${pgbouncerPath}`);
+      }
     }
 
     // Generate 01-extensions.sql init script
     info("Generating extension init script...");
     const extensionsToEnable = getDefaultEnabledExtensions(manifest);
-    const extensionsInitScript = await generateExtensionsInitScript(extensionsToEnable);
+    // Every extension a runtime profile (POSTGRES_EXTENSION_PROFILE) can create at init
+    const { extensionOrder } = resolveRuntimeProfiles(manifest.entries, {
+      extensions: extensionsToEnable.map((e) => e.name),
+      preload: defaultPreloads.split(",").filter((lib) => lib.length > 0),
+    });
+    const profileExtensions = extensionOrder.flatMap(
+      (name) => manifest.entries.find((e) => e.name === name) ?? []
+    );
+    const extensionsInitScript = await generateExtensionsInitScript(
+      extensionsToEnable,
+      profileExtensions
+    );
     const extensionsInitPath = join(
       REPO_ROOT,
       "docker/postgres/docker-entrypoint-initdb.d/01-extensions.sql"
@@ -379,6 +470,15 @@ async function generateConfigs() {
     // Make healthcheck executable
     await Bun.write(healthcheckPath, healthcheckScript, { mode: 0o755 });
     console.log(`   ✓ ${healthcheckPath}`);
+
+    // Exporter queries, alerts and dashboard for the extensions created at init
+    info("Generating extension observability configs...");
+    const observabilityPaths = await generateObservabilityConfigs(
+      extensionsToEnable.map((e) => e.name)
+    );
+    for (const path of observabilityPaths) {
+      console.log(`   ✓ ${path}`);
+    }
   } catch (err) {
     const err_error = err as Error;
     error(`Configuration generation failed: ${err_error.message}`);
@@ -390,12 +490,26 @@ async function generateConfigs() {
   console.log("   - docker/postgres/configs/postgresql-base.conf");
   console.log("   - stacks/primary/configs/postgresql-primary.conf");
   console.log("   - stacks/primary/configs/pg_hba.conf");
+  console.log("   - stacks/primary/configs/pg_hba-tls.conf");
+  console.log("   - stacks/primary/configs/pg_ident.conf");
+  console.log("   - stacks/primary/configs/pgbouncer.ini.template");
   console.log("   - stacks/replica/configs/postgresql-replica.conf");
   console.log("   - stacks/replica/configs/pg_hba.conf");
+  console.log("   - stacks/replica/configs/pg_hba-tls.conf");
+  console.log("   - stacks/replica/configs/pg_ident.conf");
   console.log("   - stacks/single/configs/postgresql.conf");
   console.log("   - stacks/single/configs/pg_hba.conf");
+  console.log("   - stacks/single/configs/pg_hba-tls.conf");
+  console.log("   - stacks/single/configs/pg_ident.conf");
+  console.log("   - stacks/logical/configs/postgresql-logical.conf");
+  console.log("   - stacks/logical/configs/pg_hba.conf");
+  console.log("   - stacks/logical/configs/pg_hba-tls.conf");
+  console.log("   - stacks/logical/configs/pg_ident.conf");
   console.log("   - docker/postgres/docker-entrypoint-initdb.d/01-extensions.sql");
   console.log("   - docker/postgres/healthcheck.sh");
+  console.log("   - docker/postgres/configs/postgres_exporter_queries.yaml");
+  console.log("   - examples/prometheus/alerts.yml");
+  console.log("   - examples/grafana/postgresql-extensions.json");
   console.log("");
 }
 
@@ -0,0 +1,146 @@
+import { describe, expect, test } from "bun:test";
+
+import { BASE_CONFIG } from "./base-config";
+import {
+  generatePgHba,
+  generatePgIdent,
+  renderPgHbaMethod,
+  resolvePgHbaRule,
+} from "./hba-generator";
+import type { PgHbaRule, PgIdentMapping } from "./types";
+
+const MAPS = new Set(["service_certs"]);
+
+const REPLICATION: PgHbaRule = {
+  type: "host",
+  database: "replication",
+  user: "replicator",
+  address: "172.16.0.0/12",
+  method: "scram-sha-256",
+  tls: { method: "cert", map: "service_certs" },
+};
+
+const MAPPINGS: PgIdentMapping[] = [
+  { map: "service_certs", systemUser: "replicator", databaseUser: "replicator" },
+  { map: "local_os", systemUser: "deploy", databaseUser: "app", stackSpecific: ["single"] },
+];
+
+const ruleLines = (conf: string) => conf.split("\n").filter((line) => /^(local|host)/.test(line));
+
+describe("resolvePgHbaRule", () => {
+  test("keeps the plaintext rule without TLS", () => {
+    expect(resolvePgHbaRule(REPLICATION, false)).toBe(REPLICATION);
+  });
+
+  test("switches to hostssl and the TLS variant's method in TLS mode", () => {
+    const rule = resolvePgHbaRule(REPLICATION, true);
+    expect(rule.type).toBe("hostssl");
+    expect(rule.method).toBe("cert");
+    expect(rule.map).toBe("service_certs");
+    expect(rule.tls).toBeUndefined();
+  });
+});
+
+describe("renderPgHbaMethod", () => {
+  test("renders cert with a user map", () => {
+    expect(renderPgHbaMethod(resolvePgHbaRule(REPLICATION, true), MAPS)).toBe(
+      "cert map=service_certs"
+    );
+  });
+
+  test("renders a password method that also requires a verified client certificate", () => {
+    const rule: PgHbaRule = {
+      type: "hostssl",
+      database: "all",
+      user: "app",
+      address: "10.0.0.0/8",
+      method: "scram-sha-256",
+      clientCert: "verify-full",
+    };
+    expect(renderPgHbaMethod(rule, MAPS)).toBe("scram-sha-256 clientcert=verify-full");
+  });
+
+  test("rejects certificate methods outside hostssl", () => {
+    expect(() =>
+      renderPgHbaMethod({ ...REPLICATION, method: "cert", map: undefined, tls: undefined }, MAPS)
+    ).toThrow("cert and clientcert need a hostssl rule");
+    expect(() =>
+      renderPgHbaMethod({ ...REPLICATION, tls: undefined, clientCert: "verify-ca" }, MAPS)
+    ).toThrow("cert and clientcert need a hostssl rule");
+  });
+
+  test("rejects clientcert on cert, maps on password methods and unknown maps", () => {
+    const ssl = resolvePgHbaRule(REPLICATION, true);
+    expect(() => renderPgHbaMethod({ ...ssl, clientCert: "verify-full" }, MAPS)).toThrow(
+      "drop clientCert"
+    );
+    expect(() => renderPgHbaMethod({ ...ssl, method: "scram-sha-256" }, MAPS)).toThrow(
+      "map only applies to cert and peer"
+    );
+    expect(() => renderPgHbaMethod({ ...ssl, map: "missing" }, MAPS)).toThrow(
+      "map 'missing' has no pg_ident.conf entries"
+    );
+  });
+});
+
+describe("generatePgHba", () => {
+  test("keeps TLS-only rules out of the plaintext file", () => {
+    const certOnly: PgHbaRule = { ...REPLICATION, type: "hostssl", method: "cert", tls: undefined };
+    const conf = generatePgHba([REPLICATION, certOnly], MAPPINGS, "primary");
+    expect(ruleLines(conf)).toEqual([
+      "host\treplication\treplicator\t172.16.0.0/12           \tscram-sha-256",
+    ]);
+  });
+
+  test("renders the TLS variant in TLS mode", () => {
+    const conf = generatePgHba([REPLICATION], MAPPINGS, "primary", true);
+    expect(conf).toContain("# Stack: primary (TLS mode: POSTGRES_TLS=require)");
+    expect(ruleLines(conf)).toEqual([
+      "hostssl\treplication\treplicator\t172.16.0.0/12           \tcert map=service_certs",
+    ]);
+  });
+
+  test("only sees the maps of its own stack", () => {
+    const peer: PgHbaRule = {
+      type: "local",
+      database: "all",
+      user: "app",
+      method: "peer",
+      map: "local_os",
+    };
+    expect(() => generatePgHba([peer], MAPPINGS, "primary")).toThrow("map 'local_os'");
+    expect(ruleLines(generatePgHba([peer], MAPPINGS, "single"))).toEqual([
+      "local\tall\tapp\tpeer map=local_os",
+    ]);
+  });
+
+  test("base config renders for every stack in both modes", () => {
+    for (const stack of ["primary", "replica", "single", "logical"] as const) {
+      for (const tls of [false, true]) {
+        const conf = generatePgHba(BASE_CONFIG.pgHbaRules, BASE_CONFIG.pgIdentMappings, stack, tls);
+        const lines = ruleLines(conf);
+        expect(lines.length).toBeGreaterThan(0);
+        if (tls) {
+          expect(lines.every((line) => /^(local|hostssl)\t/.test(line))).toBe(true);
+        } else {
+          expect(lines.some((line) => line.includes("cert"))).toBe(false);
+        }
+      }
+    }
+  });
+});
+
+describe("generatePgIdent", () => {
+  test("writes the stack's mappings", () => {
+    const lines = generatePgIdent(MAPPINGS, "primary")
+      .split("\n")
+      .filter((line) => line !== "" && !line.startsWith("#"));
+    expect(lines).toEqual(["service_certs \treplicator              \treplicator"]);
+  });
+
+  test("rejects names that would need quoting", () => {
+    expect(() =>
+      generatePgIdent([{ map: "certs", systemUser: "CN with space", databaseUser: "x" }], "single")
+    ).toThrow("Invalid pg_ident.conf name 'CN with space'");
+  });
+});
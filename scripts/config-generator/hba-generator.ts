@@ -0,0 +1,155 @@
+/**
+ * Client Authentication Generator
+ * Renders pg_hba.conf, pg_hba-tls.conf and pg_ident.conf from the rules in base-config.ts
+ *
+ * pg_hba-tls.conf is loaded by the auto-config entrypoint when POSTGRES_TLS=require: every `host`
+ * rule becomes `hostssl` and a rule's `tls` variant replaces its method, so replication can switch
+ * to client certificates there. Rules that need TLS (`hostssl`, `cert`, `clientcert`) are left out
+ * of the plaintext pg_hba.conf, where they could never match.
+ *
+ * pg_ident.conf maps certificate CNs (and OS users for peer) to roles for rules with a `map`.
+ */
+
+import type { PgHbaRule, PgIdentMapping, StackType } from "./types";
+
+const IDENT_NAME = /^[A-Za-z0-9_.-]+$/;
+
+function appliesTo(entry: { stackSpecific?: StackType[] }, stack: StackType): boolean {
+  return !entry.stackSpecific || entry.stackSpecific.includes(stack);
+}
+
+/**
+ * The rule as written to pg_hba-tls.conf (tls = true) or pg_hba.conf
+ */
+export function resolvePgHbaRule(rule: PgHbaRule, tls: boolean): PgHbaRule {
+  if (!tls) {
+    return rule;
+  }
+  const { tls: variant, ...base } = rule;
+  return {
+    ...base,
+    ...variant,
+    type: rule.type === "host" ? "hostssl" : rule.type,
+  };
+}
+
+/**
+ * Whether the rule only parses on a server with ssl=on
+ */
+export function requiresTls(rule: PgHbaRule): boolean {
+  return rule.type === "hostssl" || rule.method === "cert" || rule.clientCert !== undefined;
+}
+
+/**
+ * Render one rule's METHOD column with its options
+ *
+ * @throws {Error} If cert or clientcert is used outside hostssl, or the map is unknown
+ */
+export function renderPgHbaMethod(rule: PgHbaRule, mapNames: ReadonlySet<string>): string {
+  const label = `pg_hba rule '${rule.type} ${rule.database} ${rule.user}'`;
+  if ((rule.method === "cert" || rule.clientCert) && rule.type !== "hostssl") {
+    throw new Error(`${label}: cert and clientcert need a hostssl rule`);
+  }
+  if (rule.clientCert && rule.method === "cert") {
+    throw new Error(`${label}: cert already verifies the client certificate; drop clientCert`);
+  }
+  const parts: string[] = [rule.method];
+  if (rule.clientCert) {
+    parts.push(`clientcert=${rule.clientCert}`);
+  }
+  if (rule.map) {
+    if (rule.method !== "cert" && rule.method !== "peer") {
+      throw new Error(`${label}: map only applies to cert and peer`);
+    }
+    if (!mapNames.has(rule.map)) {
+      throw new Error(`${label}: map '${rule.map}' has no pg_ident.conf entries`);
+    }
+    parts.push(`map=${rule.map}`);
+  }
+  return parts.join(" ");
+}
+
+export function generatePgHba(
+  rules: PgHbaRule[],
+  mappings: PgIdentMapping[],
+  stack: StackType,
+  tls = false
+): string {
+  const mapNames = new Set(mappings.filter((m) => appliesTo(m, stack)).map((m) => m.map));
+  const lines: string[] = [];
+
+  lines.push("# PostgreSQL Client Authentication Configuration");
+  lines.push(`# Stack: ${stack}${tls ? " (TLS mode: POSTGRES_TLS=require)" : ""}`);
+  lines.push("# Generated by scripts/config-generator/generator.ts");
+  lines.push("#");
+  lines.push("# DO NOT EDIT MANUALLY - Changes will be overwritten");
+  lines.push("# Edit scripts/config-generator/base-config.ts and regenerate");
+  lines.push("");
+  lines.push("# TYPE  DATABASE        USER            ADDRESS                 METHOD");
+  lines.push("");
+
+  for (const source of rules) {
+    if (!appliesTo(source, stack)) {
+      continue;
+    }
+    const rule = resolvePgHbaRule(source, tls);
+    if (!tls && requiresTls(rule)) {
+      continue;
+    }
+
+    if (rule.comment) {
+      lines.push(`# ${rule.comment}`);
+    }
+
+    const parts = [rule.type, rule.database, rule.user];
+
+    if (rule.address) {
+      parts.push(rule.address.padEnd(24));
+    }
+
+    parts.push(renderPgHbaMethod(rule, mapNames));
+
+    lines.push(parts.join("\t"));
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Render pg_ident.conf
+ *
+ * @throws {Error} If a map or user name would need quoting
+ */
+export function generatePgIdent(mappings: PgIdentMapping[], stack: StackType): string {
+  const lines: string[] = [];
+
+  lines.push("# PostgreSQL User Name Maps");
+  lines.push(`# Stack: ${stack}`);
+  lines.push("# Generated by scripts/config-generator/generator.ts");
+  lines.push("#");
+  lines.push("# DO NOT EDIT MANUALLY - Changes will be overwritten");
+  lines.push("# Edit scripts/config-generator/base-config.ts and regenerate");
+  lines.push("");
+  lines.push("# MAPNAME       SYSTEM-USERNAME         PG-USERNAME");
+  lines.push("");
+
+  for (const mapping of mappings) {
+    if (!appliesTo(mapping, stack)) {
+      continue;
+    }
+    for (const name of [mapping.map, mapping.systemUser, mapping.databaseUser]) {
+      if (!IDENT_NAME.test(name)) {
+        throw new Error(`Invalid pg_ident.conf name '${name}' (letters, digits, _ . - only)`);
+      }
+    }
+
+    if (mapping.comment) {
+      lines.push(`# ${mapping.comment}`);
+    }
+    lines.push(
+      [mapping.map.padEnd(14), mapping.systemUser.padEnd(24), mapping.databaseUser].join("\t")
+    );
+  }
+
+  return lines.join("\n");
+}
@@ -10,13 +10,16 @@ import type { ManifestEntry } from "../extensions/manifest-data";
  * Generate healthcheck script that verifies initialization state
  *
  * Design principles:
- * 1. Version-specific: Expected extensions baked into healthcheck
+ * 1. Version-specific: Expected extensions baked into healthcheck, replaced by the active
+ *    runtime extension profile when the entrypoint set one (aza.* server settings)
  * 2. Ground truth: Verifies actual extension state, not just init status
  * 3. Audit context: Uses status table for detailed error reporting when available
  * 4. Edge-case resilient: Works correctly for restores, replicas, upgrades
+ * 5. Observable: Each run records the tier it reached in HEALTHCHECK_STATUS_FILE for the
+ *    built-in metrics endpoint (metrics-server.pl)
  *
- * @param extensionsToEnable - Array of manifest entries for auto-created extensions
- * @param preloadLibraries - Comma-separated list of preloaded libraries
+ * @param extensionsToEnable - Array of manifest entries for auto-created extensions (default profile)
+ * @param preloadLibraries - Comma-separated list of preloaded libraries (default profile)
  * @returns Healthcheck shell script content
  */
 export function generateHealthcheckScript(
@@ -39,6 +42,24 @@ export function generateHealthcheckScript(
   lines.push("set -euo pipefail");
   lines.push("");
 
+  // Last result for the metrics endpoint: "<epoch> <tier reached> <exit code>"
+  lines.push("# Record the tier reached and the exit code for the built-in metrics endpoint");
+  lines.push(
+    'HEALTHCHECK_STATUS_FILE="${HEALTHCHECK_STATUS_FILE:-/var/run/postgresql/aza-healthcheck.status}"'
+  );
+  lines.push("HEALTHCHECK_TIER=0");
+  lines.push("record_healthcheck() {");
+  lines.push("    local code=$?");
+  lines.push(
+    '    { echo "$(date +%s) $HEALTHCHECK_TIER $code" > "$HEALTHCHECK_STATUS_FILE.tmp" &&'
+  );
+  lines.push(
+    '        mv -f "$HEALTHCHECK_STATUS_FILE.tmp" "$HEALTHCHECK_STATUS_FILE"; } 2>/dev/null || true'
+  );
+  lines.push("}");
+  lines.push("trap record_healthcheck EXIT");
+  lines.push("");
+
   // Version-specific expectations (baked in from manifest)
   lines.push("# Expected extensions for this aza-pg version (from manifest)");
   lines.push(`EXPECTED_EXTENSIONS=(${extensionNames.map((n) => `"${n}"`).join(" ")})`);
@@ -48,6 +69,7 @@ export function generateHealthcheckScript(
 
   // Tier 1: Connection Test
   lines.push("# Tier 1: Connection Test");
+  lines.push("HEALTHCHECK_TIER=1");
   lines.push("if ! pg_isready -U postgres --timeout=3 >/dev/null 2>&1; then");
   lines.push('    echo "FAIL: PostgreSQL not accepting connections" >&2');
   lines.push("    exit 1");
@@ -56,14 +78,36 @@ export function generateHealthcheckScript(
 
   // Tier 2: Query Execution
   lines.push("# Tier 2: Query Execution Test");
+  lines.push("HEALTHCHECK_TIER=2");
   lines.push("if ! psql -U postgres -d postgres -tAc 'SELECT 1' 2>/dev/null | grep -q '^1$'; then");
   lines.push('    echo "FAIL: Database query execution failed" >&2');
   lines.push("    exit 1");
   lines.push("fi");
   lines.push("");
 
+  // Active runtime extension profile (set by the entrypoint from POSTGRES_EXTENSION_PROFILE)
+  lines.push(
+    "# Active extension profile: the entrypoint passes the resolved lists as aza.* settings"
+  );
+  lines.push("# (unset when the server was not started through docker-auto-config-entrypoint.sh)");
+  lines.push("ACTIVE_PROFILE=$(psql -U postgres -d postgres -tAc \\");
+  lines.push("    \"SELECT current_setting('aza.extension_profile', true)\" \\");
+  lines.push('    2>/dev/null || echo "")');
+  lines.push('if [ -n "$ACTIVE_PROFILE" ]; then');
+  lines.push("    PROFILE_EXTENSIONS=$(psql -U postgres -d postgres -tAc \\");
+  lines.push("        \"SELECT current_setting('aza.profile_extensions', true)\" \\");
+  lines.push('        2>/dev/null || echo "")');
+  lines.push("    IFS=',' read -ra EXPECTED_EXTENSIONS <<< \"$PROFILE_EXTENSIONS\"");
+  lines.push("    EXPECTED_COUNT=${#EXPECTED_EXTENSIONS[@]}");
+  lines.push("    EXPECTED_PRELOAD=$(psql -U postgres -d postgres -tAc \\");
+  lines.push("        \"SELECT current_setting('aza.profile_preload', true)\" \\");
+  lines.push('        2>/dev/null || echo "")');
+  lines.push("fi");
+  lines.push("");
+
   // Tier 3: Extension State Verification (Ground Truth)
   lines.push("# Tier 3: Extension State Verification (Ground Truth)");
+  lines.push("HEALTHCHECK_TIER=3");
   lines.push("# Verify all expected extensions actually exist in pg_extension");
   lines.push("# This works correctly for: fresh init, restores, replicas, upgrades");
   lines.push("MISSING_EXTENSIONS=()");
@@ -104,6 +148,7 @@ export function generateHealthcheckScript(
 
   // Tier 4: Initialization Status Check (Diagnostic Context)
   lines.push("# Tier 4: Initialization Status Check (Diagnostic Context)");
+  lines.push("HEALTHCHECK_TIER=4");
   lines.push("# If status table exists, verify initialization completed successfully");
   lines.push("# This provides rich error context but isn't the primary validation");
   lines.push("if psql -U postgres -d postgres -tAc \\");
@@ -143,6 +188,7 @@ export function generateHealthcheckScript(
 
   // Tier 5: Shared Preload Libraries
   lines.push("# Tier 5: Shared Preload Libraries Verification");
+  lines.push("HEALTHCHECK_TIER=5");
   lines.push("ACTUAL_PRELOAD=$(psql -U postgres -d postgres -tAc \\");
   lines.push("    \"SELECT setting FROM pg_settings WHERE name = 'shared_preload_libraries'\" \\");
   lines.push('    2>/dev/null || echo "")');
@@ -162,6 +208,7 @@ export function generateHealthcheckScript(
 
   // Tier 6: System Catalog Integrity
   lines.push("# Tier 6: System Catalog Integrity");
+  lines.push("HEALTHCHECK_TIER=6");
   lines.push("CATALOG_TABLES=$(psql -U postgres -d postgres -tAc \\");
   lines.push(
     "    \"SELECT count(*) FROM information_schema.tables WHERE table_schema = 'pg_catalog' AND table_type = 'BASE TABLE'\" \\"
@@ -178,6 +225,7 @@ export function generateHealthcheckScript(
 
   // Tier 7: Database Role Verification
   lines.push("# Tier 7: Database Role Verification");
+  lines.push("HEALTHCHECK_TIER=7");
   lines.push('POSTGRES_ROLE="${POSTGRES_ROLE:-primary}"');
   lines.push('if [ "$POSTGRES_ROLE" != "replica" ]; then');
   lines.push("    IN_RECOVERY=$(psql -U postgres -d postgres -tAc \\");
@@ -0,0 +1,116 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+
+import { BASE_CONFIG } from "./base-config";
+import {
+  collectorFilename,
+  JSON_LOG_DIRECTORY,
+  JSON_LOG_SETTINGS,
+  renderBashJsonLogSettings,
+  validateLoggingSettings,
+} from "./logging";
+import { formatSetting } from "../utils/guc-formatter";
+
+const REPO_ROOT = join(import.meta.dir, "../..");
+
+describe("collectorFilename", () => {
+  test("replaces a trailing .log like PostgreSQL", () => {
+    expect(collectorFilename("postgresql.log", "jsonlog")).toBe("postgresql.json");
+    expect(collectorFilename("postgresql.log", "csvlog")).toBe("postgresql.csv");
+  });
+
+  test("appends the suffix to other names", () => {
+    expect(collectorFilename("postgresql-%a", "jsonlog")).toBe("postgresql-%a.json");
+    expect(collectorFilename("server.txt", "csvlog")).toBe("server.txt.csv");
+  });
+});
+
+describe("validateLoggingSettings", () => {
+  test("accepts the base config and the JSON log mode", () => {
+    expect(() => validateLoggingSettings(BASE_CONFIG.common)).not.toThrow();
+    expect(() => validateLoggingSettings(JSON_LOG_SETTINGS)).not.toThrow();
+    expect(() =>
+      validateLoggingSettings({ logDestination: ["stderr", "jsonlog"], loggingCollector: "on" })
+    ).not.toThrow();
+  });
+
+  test("jsonlog and csvlog require the logging collector", () => {
+    expect(() =>
+      validateLoggingSettings({ logDestination: "jsonlog", loggingCollector: "off" })
+    ).toThrow("log_destination jsonlog requires logging_collector = on");
+    expect(() =>
+      validateLoggingSettings({ logDestination: ["stderr", "csvlog"], loggingCollector: "off" })
+    ).toThrow("log_destination csvlog requires logging_collector = on");
+  });
+
+  test("lists every problem", () => {
+    let message = "";
+    try {
+      validateLoggingSettings(
+        {
+          logDestination: ["jsonlog", "jsonlog"],
+          loggingCollector: "off",
+          logRotationSize: -1,
+        },
+        "primary stack logging"
+      );
+    } catch (err) {
+      message = (err as Error).message;
+    }
+    expect(message).toStartWith("Invalid primary stack logging settings:");
+    expect(message).toContain("lists a destination twice: jsonlog,jsonlog");
+    expect(message).toContain("requires logging_collector = on");
+    expect(message).toContain("log_rotation_size must be a non-negative integer, got -1");
+  });
+
+  test("rejects unknown and empty destinations", () => {
+    expect(() => validateLoggingSettings({ logDestination: [], loggingCollector: "off" })).toThrow(
+      "needs at least one destination"
+    );
+    expect(() =>
+      validateLoggingSettings({
+        logDestination: "eventlog" as unknown as "stderr",
+        loggingCollector: "off",
+      })
+    ).toThrow("unknown log_destination 'eventlog'");
+  });
+});
+
+describe("config output", () => {
+  test("several destinations render as one comma-separated GUC", () => {
+    expect(formatSetting("logDestination", ["stderr", "jsonlog"])).toBe(
+      "log_destination = 'stderr,jsonlog'"
+    );
+    expect(formatSetting("logDirectory", JSON_LOG_DIRECTORY)).toBe(
+      "log_directory = '/var/log/postgresql'"
+    );
+  });
+});
+
+describe("renderBashJsonLogSettings", () => {
+  test("renders the collector files and the -c arguments", () => {
+    const rendered = renderBashJsonLogSettings();
+    expect(rendered).toContain("readonly JSON_LOG_DIRECTORY='/var/log/postgresql'");
+    expect(rendered).toContain("readonly JSON_LOG_FILE='postgresql.json'");
+    expect(rendered).toContain("readonly JSON_LOG_STDERR_FILE='postgresql.log'");
+    expect(rendered).toContain(
+      [
+        "readonly JSON_LOG_ARGS=(",
+        "    -c 'log_destination=jsonlog'",
+        "    -c 'logging_collector=on'",
+        "    -c 'log_directory=/var/log/postgresql'",
+        "    -c 'log_filename=postgresql.log'",
+        "    -c 'log_rotation_age=0'",
+        "    -c 'log_rotation_size=0'",
+        ")",
+      ].join("\n")
+    );
+  });
+
+  test("generated entrypoint contains the current settings", async () => {
+    const entrypoint = await Bun.file(
+      join(REPO_ROOT, "docker/postgres/docker-auto-config-entrypoint.sh")
+    ).text();
+    expect(entrypoint).toContain(renderBashJsonLogSettings());
+  });
+});
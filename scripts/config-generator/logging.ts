@@ -0,0 +1,124 @@
+/**
+ * PostgreSQL log destinations and the JSON log mode (POSTGRES_LOG_FORMAT=json)
+ *
+ * jsonlog writes one JSON object per line, with the SQLSTATE, backend type and query id as
+ * separate fields, so log pipelines need no log_line_prefix parsing. Like csvlog it is only
+ * written by the logging collector, which writes to files: in JSON mode the entrypoint links those
+ * files to the container's stdout and stderr, so `docker logs` and log drivers still see every line.
+ *
+ * JSON_LOG_SETTINGS is the single source for that mode: scripts/docker/generate-entrypoint.ts
+ * renders it into the entrypoint via renderBashJsonLogSettings().
+ */
+
+import type { LogDestination, PostgreSQLSettings } from "./types";
+import { toPostgresGUCName } from "../utils/guc-formatter";
+
+export const LOG_DESTINATIONS: readonly LogDestination[] = [
+  "stderr",
+  "csvlog",
+  "jsonlog",
+  "syslog",
+];
+
+/** Destinations PostgreSQL only writes through the logging collector */
+const COLLECTOR_DESTINATIONS: readonly LogDestination[] = ["csvlog", "jsonlog"];
+
+/** Directory of the collector's files in JSON mode (created by the Dockerfile, owned by postgres) */
+export const JSON_LOG_DIRECTORY = "/var/log/postgresql";
+
+export type LoggingSettings = Pick<
+  PostgreSQLSettings,
+  | "logDestination"
+  | "loggingCollector"
+  | "logDirectory"
+  | "logFilename"
+  | "logRotationAge"
+  | "logRotationSize"
+>;
+
+/**
+ * Collector settings of POSTGRES_LOG_FORMAT=json. The file name has no strftime escapes and
+ * rotation is off: the files are links to the container's output, which Docker rotates.
+ */
+export const JSON_LOG_SETTINGS = {
+  logDestination: "jsonlog",
+  loggingCollector: "on",
+  logDirectory: JSON_LOG_DIRECTORY,
+  logFilename: "postgresql.log",
+  logRotationAge: 0,
+  logRotationSize: 0,
+} as const satisfies LoggingSettings;
+
+/**
+ * Name of the file the collector writes a structured destination to, derived from log_filename
+ * the way PostgreSQL does: a trailing ".log" is replaced by the suffix, otherwise it is appended.
+ *
+ * @example
+ * collectorFilename("postgresql.log", "jsonlog") // "postgresql.json"
+ * collectorFilename("pg-%a", "csvlog") // "pg-%a.csv"
+ */
+export function collectorFilename(logFilename: string, destination: "csvlog" | "jsonlog"): string {
+  const suffix = destination === "csvlog" ? ".csv" : ".json";
+  return logFilename.endsWith(".log")
+    ? `${logFilename.slice(0, -4)}${suffix}`
+    : logFilename + suffix;
+}
+
+/**
+ * Check that the logging settings can work together
+ *
+ * @throws Error listing every problem found
+ */
+export function validateLoggingSettings(settings: LoggingSettings, context = "logging"): void {
+  const errors: string[] = [];
+  const destinations = [settings.logDestination].flat();
+
+  if (destinations.length === 0) {
+    errors.push("log_destination needs at least one destination");
+  }
+  for (const destination of destinations) {
+    if (!LOG_DESTINATIONS.includes(destination)) {
+      errors.push(
+        `unknown log_destination '${destination}' (must be: ${LOG_DESTINATIONS.join(", ")})`
+      );
+    }
+  }
+  if (new Set(destinations).size !== destinations.length) {
+    errors.push(`log_destination lists a destination twice: ${destinations.join(",")}`);
+  }
+  const collected = destinations.filter((d) => COLLECTOR_DESTINATIONS.includes(d));
+  if (collected.length > 0 && settings.loggingCollector !== "on") {
+    errors.push(`log_destination ${collected.join(",")} requires logging_collector = on`);
+  }
+  for (const field of ["logRotationAge", "logRotationSize"] as const) {
+    const value = settings[field];
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      errors.push(`${toPostgresGUCName(field)} must be a non-negative integer, got ${value}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${context} settings:\n  - ${errors.join("\n  - ")}`);
+  }
+}
+
+function bashQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Render the JSON log mode as bash declarations.
+ * Replaces the {{JSON_LOG_SETTINGS}} placeholder in the entrypoint template.
+ */
+export function renderBashJsonLogSettings(): string {
+  const args = Object.entries(JSON_LOG_SETTINGS).map(
+    ([key, value]) => `    -c ${bashQuote(`${toPostgresGUCName(key)}=${value}`)}`
+  );
+
+  return [
+    `readonly JSON_LOG_DIRECTORY=${bashQuote(JSON_LOG_DIRECTORY)}`,
+    `readonly JSON_LOG_FILE=${bashQuote(collectorFilename(JSON_LOG_SETTINGS.logFilename, "jsonlog"))}`,
+    `readonly JSON_LOG_STDERR_FILE=${bashQuote(JSON_LOG_SETTINGS.logFilename)}`,
+    `readonly JSON_LOG_ARGS=(\n${args.join("\n")}\n)`,
+  ].join("\n");
+}
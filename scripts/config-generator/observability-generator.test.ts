@@ -0,0 +1,184 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+
+import { MANIFEST_ENTRIES } from "../extensions/manifest-data";
+import type { ManifestEntry, ObservabilitySpec } from "../extensions/manifest-data";
+import {
+  ALERT_RULES_PLACEHOLDER,
+  exportedMetricNames,
+  fillTemplate,
+  renderAlertRules,
+  renderExporterQueries,
+  renderExtensionDashboard,
+  selectObservedExtensions,
+  validateObservabilitySpecs,
+} from "./observability-generator";
+import { createMockEntry } from "../test/manifest-test-utils";
+
+const REPO_ROOT = join(import.meta.dir, "../..");
+
+const QUEUE_SPEC: ObservabilitySpec = {
+  queries: [
+    {
+      name: "demo_queue",
+      comment: "Queue depth",
+      query: "SELECT name AS queue, depth FROM demo.queues",
+      metrics: [
+        { column: "queue", usage: "LABEL", description: "Queue name" },
+        { column: "depth", usage: "GAUGE", description: 'Messages "waiting"' },
+      ],
+    },
+  ],
+  alerts: [
+    {
+      alert: "PostgreSQLDemoBacklog",
+      expr: "demo_queue_depth > 100",
+      for: "10m",
+      severity: "warning",
+      summary: "Queue {{ $labels.queue }} backlog",
+      description: "{{ $value }} messages waiting",
+    },
+  ],
+  panels: [
+    { title: "Depth", type: "timeseries", expr: "demo_queue_depth", legend: "{{queue}}" },
+    { title: "Total", type: "stat", expr: "sum(demo_queue_depth)" },
+    { title: "Max", type: "stat", expr: "max(demo_queue_depth)" },
+  ],
+};
+
+function entry(name: string, overrides: Partial<ManifestEntry> = {}): ManifestEntry {
+  return createMockEntry({ name, category: "queueing", observability: QUEUE_SPEC, ...overrides });
+}
+
+describe("selectObservedExtensions", () => {
+  test("keeps enabled entries with a spec, in manifest order", () => {
+    const entries = [
+      entry("b_ext", { displayName: "B Extension" }),
+      entry("plain", { observability: undefined }),
+      entry("disabled", { enabled: false }),
+      entry("a_ext"),
+    ];
+    const selected = selectObservedExtensions(entries, ["a_ext", "b_ext", "plain", "disabled"]);
+    expect(selected.map((e) => [e.name, e.title])).toEqual([
+      ["b_ext", "B Extension"],
+      ["a_ext", "a_ext"],
+    ]);
+  });
+});
+
+describe("validateObservabilitySpecs", () => {
+  const [demo] = selectObservedExtensions([entry("demo")], ["demo"]);
+
+  test("accepts a consistent spec", () => {
+    expect(exportedMetricNames(QUEUE_SPEC)).toEqual(["demo_queue_depth"]);
+    expect(() => validateObservabilitySpecs([demo!], ["pg_backup"])).not.toThrow();
+  });
+
+  test("rejects clashing query names and expressions over unknown metrics", () => {
+    const broken = {
+      name: "broken",
+      title: "broken",
+      spec: {
+        ...QUEUE_SPEC,
+        alerts: [{ ...QUEUE_SPEC.alerts![0]!, expr: "demo_queue_length > 1" }],
+        panels: [{ title: "Other", type: "stat" as const, expr: "pg_up" }],
+      },
+    };
+    expect(() => validateObservabilitySpecs([demo!, broken], ["demo_queue"])).toThrow(
+      /duplicate exporter query demo_queue[\s\S]*alert PostgreSQLDemoBacklog uses none[\s\S]*panel "Other" uses none/
+    );
+  });
+});
+
+describe("renderers", () => {
+  const extensions = selectObservedExtensions([entry("demo")], ["demo"]);
+
+  test("exporter queries parse as postgres_exporter YAML", () => {
+    const parsed = Bun.YAML.parse(renderExporterQueries(extensions)) as Record<string, unknown>;
+    expect(parsed).toEqual({
+      demo_queue: {
+        extension: "demo",
+        query: "SELECT name AS queue, depth FROM demo.queues\n",
+        metrics: [
+          { queue: { usage: "LABEL", description: "Queue name" } },
+          { depth: { usage: "GAUGE", description: 'Messages "waiting"' } },
+        ],
+      },
+    });
+  });
+
+  test("alert rules form a rule group when filled into a template", () => {
+    const template = `groups:\n  - name: postgresql\n    rules: []\n${ALERT_RULES_PLACEHOLDER}\n`;
+    const parsed = Bun.YAML.parse(
+      fillTemplate(template, ALERT_RULES_PLACEHOLDER, renderAlertRules(extensions))
+    ) as { groups: unknown[] };
+    expect(parsed.groups[1]).toEqual({
+      name: "postgresql-extensions",
+      interval: "30s",
+      rules: [
+        {
+          alert: "PostgreSQLDemoBacklog",
+          expr: "demo_queue_depth > 100",
+          for: "10m",
+          labels: { severity: "warning" },
+          annotations: {
+            summary: "Queue {{ $labels.queue }} backlog",
+            description: "{{ $value }} messages waiting",
+          },
+        },
+      ],
+    });
+    expect(() => fillTemplate("groups: []\n", ALERT_RULES_PLACEHOLDER, "")).toThrow(
+      /missing the \{\{EXTENSION_ALERT_RULES\}\} placeholder/
+    );
+  });
+
+  test("dashboard lays out a row per extension, two panels per line", () => {
+    const dashboard = renderExtensionDashboard(extensions) as {
+      panels: Array<{ type: string; id: number; gridPos: { x: number; y: number } }>;
+    };
+    expect(dashboard.panels.map((p) => [p.type, p.id, p.gridPos.x, p.gridPos.y])).toEqual([
+      ["row", 100, 0, 0],
+      ["timeseries", 1, 0, 1],
+      ["stat", 2, 12, 1],
+      ["stat", 3, 0, 9],
+    ]);
+  });
+});
+
+describe("manifest observability specs", () => {
+  const all = selectObservedExtensions(
+    MANIFEST_ENTRIES,
+    MANIFEST_ENTRIES.map((e) => e.name)
+  );
+
+  test("are consistent with each other and the hand-written exporter queries", async () => {
+    const template = await Bun.file(
+      join(REPO_ROOT, "docker/postgres/configs/postgres_exporter_queries.yaml.template")
+    ).text();
+    const handWritten = [...template.matchAll(/^([a-z][a-z0-9_]*):$/gm)].map((m) => m[1] ?? "");
+    expect(handWritten).toContain("pg_backup");
+    expect(() => validateObservabilitySpecs(all, handWritten)).not.toThrow();
+  });
+
+  test("generated exporter queries and alerts include the default-enabled extensions", async () => {
+    const queries = Bun.YAML.parse(
+      await Bun.file(
+        join(REPO_ROOT, "docker/postgres/configs/postgres_exporter_queries.yaml")
+      ).text()
+    ) as Record<string, unknown>;
+    const alerts = await Bun.file(join(REPO_ROOT, "examples/prometheus/alerts.yml")).text();
+    const defaults = MANIFEST_ENTRIES.filter(
+      (e) => e.observability && e.enabled !== false && e.runtime?.defaultEnable
+    );
+    expect(defaults.map((e) => e.name)).toContain("pgmq");
+    for (const { observability } of defaults) {
+      for (const query of observability!.queries) {
+        expect(Object.keys(queries)).toContain(query.name);
+      }
+      for (const alert of observability!.alerts ?? []) {
+        expect(alerts).toContain(`- alert: ${alert.alert}\n`);
+      }
+    }
+  });
+});
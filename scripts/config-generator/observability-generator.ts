@@ -0,0 +1,319 @@
+/**
+ * Observability Generator
+ * Renders postgres_exporter queries, Prometheus alerting rules and a Grafana dashboard from
+ * the `observability` specs of enabled manifest entries.
+ */
+
+import type {
+  ManifestEntry,
+  ObservabilityPanel,
+  ObservabilitySpec,
+} from "../extensions/manifest-data";
+
+/** Placeholder in postgres_exporter_queries.yaml.template */
+export const EXPORTER_QUERIES_PLACEHOLDER = "{{EXTENSION_QUERIES}}";
+/** Placeholder in alerts.yml.template */
+export const ALERT_RULES_PLACEHOLDER = "{{EXTENSION_ALERT_RULES}}";
+
+const DATASOURCE = { type: "prometheus", uid: "prometheus" } as const;
+const PANEL_HEIGHT = 8;
+const PANEL_WIDTH = 12;
+
+export interface ObservedExtension {
+  name: string;
+  title: string;
+  spec: ObservabilitySpec;
+}
+
+/**
+ * Entries with an observability spec among the enabled extensions, in manifest order
+ *
+ * @param enabled - Extension names to monitor (e.g. the extensions created at init)
+ */
+export function selectObservedExtensions(
+  entries: readonly ManifestEntry[],
+  enabled: Iterable<string>
+): ObservedExtension[] {
+  const names = new Set(enabled);
+  return entries.flatMap((entry) =>
+    entry.observability && entry.enabled !== false && names.has(entry.name)
+      ? [{ name: entry.name, title: entry.displayName ?? entry.name, spec: entry.observability }]
+      : []
+  );
+}
+
+/**
+ * Metric names exported for a spec's queries (`<query>_<column>` for non-LABEL columns)
+ */
+export function exportedMetricNames(spec: ObservabilitySpec): string[] {
+  return spec.queries.flatMap((query) =>
+    query.metrics
+      .filter((metric) => metric.usage !== "LABEL")
+      .map((metric) => `${query.name}_${metric.column}`)
+  );
+}
+
+/**
+ * Check the specs for clashes and for alerts or panels over metrics no query exports
+ *
+ * @param reserved - Query names already used by the hand-written exporter queries
+ * @throws Error listing every problem found
+ */
+export function validateObservabilitySpecs(
+  extensions: readonly ObservedExtension[],
+  reserved: readonly string[] = []
+): void {
+  const errors: string[] = [];
+  const queryNames = new Set(reserved);
+  const alertNames = new Set<string>();
+
+  for (const { name, spec } of extensions) {
+    if (spec.queries.length === 0) {
+      errors.push(`${name}: observability needs at least one query`);
+    }
+    for (const query of spec.queries) {
+      if (queryNames.has(query.name)) {
+        errors.push(`${name}: duplicate exporter query ${query.name}`);
+      }
+      queryNames.add(query.name);
+      if (!query.metrics.some((metric) => metric.usage !== "LABEL")) {
+        errors.push(`${name}: query ${query.name} exports no GAUGE or COUNTER column`);
+      }
+    }
+
+    const metrics = exportedMetricNames(spec);
+    const usesOwnMetric = (expr: string) => metrics.some((metric) => expr.includes(metric));
+    for (const alert of spec.alerts ?? []) {
+      if (alertNames.has(alert.alert)) {
+        errors.push(`${name}: duplicate alert ${alert.alert}`);
+      }
+      alertNames.add(alert.alert);
+      if (!usesOwnMetric(alert.expr)) {
+        errors.push(`${name}: alert ${alert.alert} uses none of the extension's metrics`);
+      }
+    }
+    for (const panel of spec.panels ?? []) {
+      if (!usesOwnMetric(panel.expr)) {
+        errors.push(`${name}: panel "${panel.title}" uses none of the extension's metrics`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid observability specs:\n  ${errors.join("\n  ")}`);
+  }
+}
+
+function indent(text: string, spaces: number): string {
+  const prefix = " ".repeat(spaces);
+  return text
+    .split("\n")
+    .map((line) => (line.length > 0 ? prefix + line : line))
+    .join("\n");
+}
+
+/**
+ * Render the exporter queries of the extensions (postgres_exporter extend.query-path format)
+ *
+ * Each query names its extension under `extension`: postgres_exporter ignores the key, the
+ * image's metrics endpoint skips the query where the extension is not installed.
+ */
+export function renderExporterQueries(extensions: readonly ObservedExtension[]): string {
+  if (extensions.length === 0) {
+    return "# No enabled extension defines exporter queries\n";
+  }
+  const blocks = extensions.flatMap(({ name, spec }) =>
+    spec.queries.map((query) => {
+      const lines = [`# ${name}: ${query.comment ?? query.name}`, `${query.name}:`];
+      lines.push(`  extension: ${JSON.stringify(name)}`);
+      lines.push("  query: |", indent(query.query.trim(), 4), "  metrics:");
+      for (const metric of query.metrics) {
+        lines.push(
+          `    - ${metric.column}:`,
+          `        usage: "${metric.usage}"`,
+          `        description: ${JSON.stringify(metric.description)}`
+        );
+      }
+      return lines.join("\n");
+    })
+  );
+  return `${blocks.join("\n\n")}\n`;
+}
+
+/**
+ * Render the extensions' alerting rules as a Prometheus rule group
+ */
+export function renderAlertRules(extensions: readonly ObservedExtension[]): string {
+  const rules = extensions.flatMap(({ name, spec }) =>
+    (spec.alerts ?? []).map((alert) =>
+      [
+        `      # ${name}`,
+        `      - alert: ${alert.alert}`,
+        `        expr: ${alert.expr}`,
+        `        for: ${alert.for}`,
+        "        labels:",
+        `          severity: ${alert.severity}`,
+        "        annotations:",
+        `          summary: ${JSON.stringify(alert.summary)}`,
+        `          description: ${JSON.stringify(alert.description)}`,
+      ].join("\n")
+    )
+  );
+  if (rules.length === 0) {
+    return "  # No enabled extension defines alerting rules\n";
+  }
+  return ["  - name: postgresql-extensions", "    interval: 30s", "    rules:", rules.join("\n\n")]
+    .join("\n")
+    .concat("\n");
+}
+
+function renderPanel(panel: ObservabilityPanel, id: number, x: number, y: number): object {
+  const common = {
+    datasource: DATASOURCE,
+    gridPos: { h: PANEL_HEIGHT, w: PANEL_WIDTH, x, y },
+    id,
+    pluginVersion: "11.4.0",
+    targets: [
+      {
+        datasource: DATASOURCE,
+        expr: panel.expr,
+        ...(panel.legend ? { legendFormat: panel.legend } : {}),
+        refId: "A",
+      },
+    ],
+    title: panel.title,
+    type: panel.type,
+  };
+
+  if (panel.type === "stat") {
+    // Stat panels show failure counts: red from 1
+    return {
+      ...common,
+      fieldConfig: {
+        defaults: {
+          color: { mode: "thresholds" },
+          mappings: [],
+          thresholds: {
+            mode: "absolute",
+            steps: [
+              { color: "green", value: null },
+              { color: "red", value: 1 },
+            ],
+          },
+          unit: panel.unit ?? "short",
+        },
+        overrides: [],
+      },
+      options: {
+        colorMode: "background",
+        graphMode: "none",
+        justifyMode: "auto",
+        orientation: "auto",
+        reduceOptions: { calcs: ["lastNotNull"], fields: "", values: false },
+        textMode: "auto",
+      },
+    };
+  }
+
+  return {
+    ...common,
+    fieldConfig: {
+      defaults: {
+        color: { mode: "palette-classic" },
+        custom: {
+          drawStyle: "line",
+          fillOpacity: 10,
+          lineInterpolation: "linear",
+          lineWidth: 1,
+          showPoints: "never",
+          spanNulls: false,
+        },
+        mappings: [],
+        unit: panel.unit ?? "short",
+      },
+      overrides: [],
+    },
+    options: {
+      legend: { calcs: ["lastNotNull", "max"], displayMode: "table", placement: "bottom" },
+      tooltip: { mode: "multi", sort: "desc" },
+    },
+  };
+}
+
+/**
+ * Build the extensions dashboard: one row per extension with panels, two panels per line
+ */
+export function renderExtensionDashboard(extensions: readonly ObservedExtension[]): object {
+  const panels: object[] = [];
+  let y = 0;
+  let panelId = 1;
+
+  extensions.forEach(({ title, spec }, index) => {
+    const extensionPanels = spec.panels ?? [];
+    if (extensionPanels.length === 0) {
+      return;
+    }
+    panels.push({
+      collapsed: false,
+      gridPos: { h: 1, w: 24, x: 0, y },
+      id: 100 + index,
+      panels: [],
+      title,
+      type: "row",
+    });
+    y += 1;
+    extensionPanels.forEach((panel, position) => {
+      const x = (position % 2) * PANEL_WIDTH;
+      panels.push(renderPanel(panel, panelId++, x, y));
+      if (x > 0 || position === extensionPanels.length - 1) {
+        y += PANEL_HEIGHT;
+      }
+    });
+  });
+
+  return {
+    annotations: {
+      list: [
+        {
+          builtIn: 1,
+          datasource: { type: "grafana", uid: "-- Grafana --" },
+          enable: true,
+          hide: true,
+          iconColor: "rgba(0, 211, 255, 1)",
+          name: "Annotations & Alerts",
+          type: "dashboard",
+        },
+      ],
+    },
+    description:
+      "Extension metrics for aza-pg, generated from the extension manifest (do not edit by hand)",
+    editable: true,
+    fiscalYearStartMonth: 0,
+    graphTooltip: 1,
+    id: null,
+    links: [],
+    liveNow: false,
+    panels,
+    refresh: "30s",
+    schemaVersion: 39,
+    tags: ["postgresql", "extensions", "aza-pg"],
+    templating: { list: [] },
+    time: { from: "now-6h", to: "now" },
+    timepicker: {},
+    timezone: "browser",
+    title: "PostgreSQL Extensions",
+    uid: "aza-pg-extensions",
+    version: 1,
+    weekStart: "",
+  };
+}
+
+/**
+ * Replace a template placeholder, failing when the template does not contain it
+ */
+export function fillTemplate(template: string, placeholder: string, content: string): string {
+  if (!template.includes(placeholder)) {
+    throw new Error(`Template is missing the ${placeholder} placeholder`);
+  }
+  return template.replace(placeholder, () => content.replace(/\n$/, ""));
+}
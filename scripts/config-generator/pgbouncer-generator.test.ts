@@ -0,0 +1,196 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+
+import { calculateMaxConnections, WORKLOAD_TYPES } from "../config/tuning";
+import { BASE_CONFIG } from "./base-config";
+import {
+  calculatePgBouncerPoolSizes,
+  generatePgBouncerIni,
+  parsePgBouncerDatabases,
+  PGBOUNCER_DATABASES_PLACEHOLDER,
+  PGBOUNCER_DIRECT_CONNECTION_RESERVE,
+  PGBOUNCER_RUNTIME_SETTINGS,
+  renderPgBouncerDatabase,
+  resolvePgBouncerSettings,
+  SUPERUSER_RESERVED_CONNECTIONS,
+} from "./pgbouncer-generator";
+
+const REPO_ROOT = join(import.meta.dir, "../..");
+const { common, stacks } = BASE_CONFIG.pgbouncer;
+const primary = resolvePgBouncerSettings(common, stacks, "primary");
+
+describe("calculatePgBouncerPoolSizes", () => {
+  test("keeps requested sizes when they fit", () => {
+    const pools = calculatePgBouncerPoolSizes(primary, 120);
+    expect(pools.serverConnectionBudget).toBe(120 - 3 - PGBOUNCER_DIRECT_CONNECTION_RESERVE);
+    expect(pools.defaultPoolSize).toBe(primary.defaultPoolSize);
+    expect(pools.reservePoolSize).toBe(primary.reservePoolSize);
+    expect(pools.maxDbConnections).toBe(pools.serverConnectionBudget);
+    expect(pools.warnings).toEqual([]);
+  });
+
+  test("clamps the default pool first, then the reserve pool and min pool", () => {
+    const pools = calculatePgBouncerPoolSizes(
+      { ...primary, defaultPoolSize: 25, minPoolSize: 10, reservePoolSize: 5 },
+      20
+    );
+    expect(pools.serverConnectionBudget).toBe(12);
+    expect(pools.defaultPoolSize).toBe(12);
+    expect(pools.reservePoolSize).toBe(0);
+    expect(pools.minPoolSize).toBe(10);
+    expect(pools.warnings).toHaveLength(2);
+
+    const tiny = calculatePgBouncerPoolSizes(
+      { ...primary, defaultPoolSize: 25, minPoolSize: 5, reservePoolSize: 5 },
+      5
+    );
+    expect(tiny.serverConnectionBudget).toBe(1);
+    expect(tiny.minPoolSize).toBe(1);
+  });
+
+  test("fixed pools are reserved first and the rest is shared", () => {
+    const databases = [
+      ...primary.databases,
+      ...parsePgBouncerDatabases(
+        "events pool_mode=session pool_size=10; app; reports host=replica port=5433 pool_size=3"
+      ),
+    ];
+    const pools = calculatePgBouncerPoolSizes({ ...primary, databases }, 120);
+    // budget 112 - (10 + 5 reserve) = 97 shared by postgres and app
+    expect(pools.maxDbConnections).toBe(48);
+    expect(pools.defaultPoolSize).toBe(25);
+    expect(pools.databases).toEqual([
+      { name: "postgres" },
+      { name: "events", poolSize: 10, maxDbConnections: 15 },
+      { name: "app" },
+      { name: "reports", poolSize: 3, maxDbConnections: 8 },
+    ]);
+
+    expect(() =>
+      calculatePgBouncerPoolSizes(
+        { ...primary, databases: parsePgBouncerDatabases("big pool_size=200") },
+        120
+      )
+    ).toThrow("need 205 server connections");
+  });
+
+  test("pools never exceed max_connections minus reserved slots for any auto-config size", () => {
+    for (const workload of WORKLOAD_TYPES) {
+      for (const memoryMB of [512, 1024, 2048, 4096, 8192, 65536]) {
+        const maxConnections = calculateMaxConnections(memoryMB, workload);
+        const pools = calculatePgBouncerPoolSizes(primary, maxConnections);
+        const available = maxConnections - SUPERUSER_RESERVED_CONNECTIONS;
+        expect(pools.serverConnectionBudget).toBeLessThanOrEqual(available);
+        expect(pools.defaultPoolSize + pools.reservePoolSize).toBeLessThanOrEqual(
+          pools.serverConnectionBudget
+        );
+      }
+    }
+  });
+});
+
+describe("parsePgBouncerDatabases", () => {
+  test("applies defaults and per-database settings", () => {
+    expect(
+      parsePgBouncerDatabases(
+        "app\n events dbname=app pool_mode=session pool_size=5 ;reports host=replica port=5433",
+        ["postgres"]
+      )
+    ).toEqual([
+      { name: "app", host: "postgres", port: 5432, dbname: "app" },
+      {
+        name: "events",
+        host: "postgres",
+        port: 5432,
+        dbname: "app",
+        poolMode: "session",
+        poolSize: 5,
+      },
+      { name: "reports", host: "replica", port: 5433, dbname: "reports" },
+    ]);
+    expect(parsePgBouncerDatabases(" ; \n")).toEqual([]);
+  });
+
+  test("reports every invalid entry", () => {
+    let message = "";
+    try {
+      parsePgBouncerDatabases(
+        "postgres; pgbouncer; a-b; app pool_mode=bogus pool_size=0 port=70000 host=x/y foo sslmode=1",
+        ["postgres"]
+      );
+    } catch (err) {
+      message = String(err);
+    }
+    expect(message).toContain("postgres: database is already declared or reserved");
+    expect(message).toContain("pgbouncer: database is already declared or reserved");
+    expect(message).toContain("a-b: name may only contain letters");
+    expect(message).toContain("app: invalid pool_mode 'bogus'");
+    expect(message).toContain("app: invalid pool_size '0'");
+    expect(message).toContain("app: invalid port '70000'");
+    expect(message).toContain("app: invalid host 'x/y'");
+    expect(message).toContain("app: expected key=value, got 'foo'");
+    expect(message).toContain("app: unknown key 'sslmode'");
+  });
+
+  test("renders pool overrides as PgBouncer database parameters", () => {
+    const [events] = parsePgBouncerDatabases("events pool_mode=session pool_size=5");
+    expect(renderPgBouncerDatabase(events!, 5)).toBe(
+      "events = host=postgres port=5432 dbname=events pool_mode=session pool_size=5 max_db_connections=10"
+    );
+  });
+});
+
+describe("generatePgBouncerIni", () => {
+  test("renders databases, static settings and runtime placeholders", () => {
+    const ini = generatePgBouncerIni("primary", primary);
+    expect(ini).toContain(
+      "[databases]\npostgres = host=postgres port=5432 dbname=postgres user=pgbouncer_auth\nPGBOUNCER_DATABASES_PLACEHOLDER\n"
+    );
+    expect(ini).toContain("pool_mode = transaction");
+    expect(ini).toContain("stats_users = pgbouncer_auth, postgres");
+    expect(ini).toContain("default_pool_size = PGBOUNCER_DEFAULT_POOL_SIZE_PLACEHOLDER");
+    expect(ini).toContain("max_db_connections = PGBOUNCER_MAX_DB_CONNECTIONS_PLACEHOLDER");
+    expect(ini).toContain("server_lifetime = 3600");
+  });
+
+  test("requires at least one database and a PgBouncer stack", () => {
+    expect(() => generatePgBouncerIni("primary", common)).toThrow("declare no databases");
+    expect(() =>
+      generatePgBouncerIni("primary", {
+        ...primary,
+        databases: parsePgBouncerDatabases("app pool_size=5"),
+      })
+    ).toThrow("declare app with PGBOUNCER_DATABASES instead");
+    expect(() => resolvePgBouncerSettings(common, stacks, "single")).toThrow(
+      "Stack single has no PgBouncer configuration"
+    );
+  });
+});
+
+describe("primary stack files", () => {
+  const templatePath = join(REPO_ROOT, "stacks/primary/configs/pgbouncer.ini.template");
+  const entrypointPath = join(REPO_ROOT, "stacks/primary/scripts/pgbouncer-entrypoint.sh");
+
+  test("pgbouncer.ini.template is up to date", async () => {
+    expect(await Bun.file(templatePath).text()).toBe(generatePgBouncerIni("primary", primary));
+  });
+
+  test("entrypoint fills every placeholder and defaults to the base config", async () => {
+    const template = await Bun.file(templatePath).text();
+    const entrypoint = await Bun.file(entrypointPath).text();
+
+    for (const placeholder of template.match(/PGBOUNCER_[A-Z_]+_PLACEHOLDER/g) ?? []) {
+      if (placeholder === PGBOUNCER_DATABASES_PLACEHOLDER) {
+        expect(entrypoint).toContain(`$0 == "${placeholder}"`);
+      } else {
+        expect(entrypoint).toContain(`-e "s|${placeholder}|`);
+      }
+    }
+    for (const [envVar, key] of Object.entries(PGBOUNCER_RUNTIME_SETTINGS)) {
+      expect(entrypoint).toContain(`${envVar}="\${${envVar}:-${String(primary[key])}}"`);
+    }
+    expect(entrypoint).toContain(
+      `PGBOUNCER_DIRECT_CONNECTION_RESERVE=${PGBOUNCER_DIRECT_CONNECTION_RESERVE}\n`
+    );
+  });
+});
@@ -0,0 +1,374 @@
+/**
+ * PgBouncer Configuration Generator
+ * Renders pgbouncer.ini.template from the typed settings in base-config.ts
+ *
+ * Values operators tune per deployment are emitted as `*_PLACEHOLDER` strings that
+ * pgbouncer-entrypoint.sh fills in from PGBOUNCER_* environment variables. Before filling in the
+ * pool sizes, the entrypoint reads the live max_connections of the server (sized from RAM and
+ * workload by the auto-config entrypoint, see scripts/config/tuning.ts) and applies the same
+ * clamping as calculatePgBouncerPoolSizes(), so pools can never claim more server connections
+ * than PostgreSQL accepts. Keep both sides in sync when changing either.
+ *
+ * Further databases are declared at deploy time with PGBOUNCER_DATABASES (see
+ * parsePgBouncerDatabases()); the entrypoint renders them in place of
+ * PGBOUNCER_DATABASES_PLACEHOLDER, each with its own pool_mode and pool_size.
+ */
+
+import type { PgBouncerDatabase, PgBouncerPoolMode, PgBouncerSettings, StackType } from "./types";
+
+/**
+ * superuser_reserved_connections (PostgreSQL default, not overridden by base-config.ts)
+ */
+export const SUPERUSER_RESERVED_CONNECTIONS = 3;
+
+/**
+ * Server connections kept free for clients that bypass PgBouncer
+ * (postgres_exporter, healthchecks, migrations, interactive psql).
+ * Mirrored by PGBOUNCER_DIRECT_CONNECTION_RESERVE in pgbouncer-entrypoint.sh.
+ */
+export const PGBOUNCER_DIRECT_CONNECTION_RESERVE = 5;
+
+/**
+ * Settings rendered as placeholders, keyed by the environment variable that overrides them
+ */
+export const PGBOUNCER_RUNTIME_SETTINGS = {
+  PGBOUNCER_LISTEN_ADDR: "listenAddr",
+  PGBOUNCER_SERVER_SSLMODE: "serverTlsSslmode",
+  PGBOUNCER_MAX_CLIENT_CONN: "maxClientConn",
+  PGBOUNCER_DEFAULT_POOL_SIZE: "defaultPoolSize",
+  PGBOUNCER_MIN_POOL_SIZE: "minPoolSize",
+  PGBOUNCER_RESERVE_POOL_SIZE: "reservePoolSize",
+} as const satisfies Record<string, keyof PgBouncerSettings>;
+
+/** max_db_connections has no setting of its own: it is always computed from the budget */
+const MAX_DB_CONNECTIONS_PLACEHOLDER = "PGBOUNCER_MAX_DB_CONNECTIONS_PLACEHOLDER";
+
+/** Replaced by the databases declared in PGBOUNCER_DATABASES (may be none) */
+export const PGBOUNCER_DATABASES_PLACEHOLDER = "PGBOUNCER_DATABASES_PLACEHOLDER";
+
+/**
+ * Server whose max_connections is the budget (the compose service of the primary stack).
+ * Databases on other servers get their pool_size but are not counted against the budget.
+ */
+export const PGBOUNCER_BUDGET_SERVER = { host: "postgres", port: 5432 } as const;
+
+/** Names PGBOUNCER_DATABASES cannot use (pgbouncer is the admin console database) */
+const RESERVED_DATABASE_NAMES = ["pgbouncer"];
+
+const POOL_MODES: readonly PgBouncerPoolMode[] = ["session", "transaction", "statement"];
+
+export interface PgBouncerDatabasePool {
+  name: string;
+  /** Fixed pool_size, or undefined when the database uses default_pool_size */
+  poolSize?: number;
+  /** Per-database max_db_connections (pool_size + reserve_pool_size) for fixed pools */
+  maxDbConnections?: number;
+}
+
+export interface PgBouncerPoolSizes {
+  /** Server connections PgBouncer may open on the budget server across all databases */
+  serverConnectionBudget: number;
+  defaultPoolSize: number;
+  minPoolSize: number;
+  reservePoolSize: number;
+  /** Global max_db_connections: the budget share of each database without a fixed pool_size */
+  maxDbConnections: number;
+  databases: PgBouncerDatabasePool[];
+  /** Clamping applied to the requested values, logged as warnings by the entrypoint */
+  warnings: string[];
+}
+
+/**
+ * Parse PGBOUNCER_DATABASES into database entries
+ *
+ * Entries are separated by `;` or newlines: `<name> [host=H] [port=P] [dbname=D]
+ * [pool_mode=session|transaction|statement] [pool_size=N]`. host defaults to the primary server,
+ * port to 5432 and dbname to the entry name. Mirrors the parser in pgbouncer-entrypoint.sh.
+ *
+ * @param spec - Value of PGBOUNCER_DATABASES
+ * @param existingNames - Databases already declared in the template
+ * @throws Error listing every invalid entry
+ */
+export function parsePgBouncerDatabases(
+  spec: string,
+  existingNames: string[] = []
+): PgBouncerDatabase[] {
+  const databases: PgBouncerDatabase[] = [];
+  const errors: string[] = [];
+  const taken = new Set([...RESERVED_DATABASE_NAMES, ...existingNames]);
+
+  for (const rawEntry of spec.split(/[;\n]/)) {
+    const [name, ...params] = rawEntry.trim().split(/\s+/);
+    if (!name) continue;
+
+    const entryErrors: string[] = [];
+    if (!/^[A-Za-z0-9_]+$/.test(name)) {
+      entryErrors.push("name may only contain letters, digits and underscores");
+    } else if (taken.has(name)) {
+      entryErrors.push("database is already declared or reserved");
+    }
+    taken.add(name);
+
+    const db: PgBouncerDatabase = {
+      name,
+      host: PGBOUNCER_BUDGET_SERVER.host,
+      port: PGBOUNCER_BUDGET_SERVER.port,
+      dbname: name,
+    };
+    for (const param of params) {
+      const separator = param.indexOf("=");
+      if (separator < 0) {
+        entryErrors.push(`expected key=value, got '${param}'`);
+        continue;
+      }
+      const key = param.slice(0, separator);
+      const value = param.slice(separator + 1);
+      switch (key) {
+        case "host":
+          if (/^[A-Za-z0-9.-]+$/.test(value)) db.host = value;
+          else entryErrors.push(`invalid host '${value}'`);
+          break;
+        case "port":
+          if (/^\d+$/.test(value) && Number(value) >= 1 && Number(value) <= 65535) {
+            db.port = Number(value);
+          } else {
+            entryErrors.push(`invalid port '${value}' (1-65535)`);
+          }
+          break;
+        case "dbname":
+          if (/^[A-Za-z0-9_]+$/.test(value)) db.dbname = value;
+          else entryErrors.push(`invalid dbname '${value}'`);
+          break;
+        case "pool_mode":
+          if ((POOL_MODES as readonly string[]).includes(value)) {
+            db.poolMode = value as PgBouncerPoolMode;
+          } else {
+            entryErrors.push(`invalid pool_mode '${value}' (${POOL_MODES.join(", ")})`);
+          }
+          break;
+        case "pool_size":
+          if (/^\d+$/.test(value) && Number(value) >= 1) db.poolSize = Number(value);
+          else entryErrors.push(`invalid pool_size '${value}' (positive integer)`);
+          break;
+        default:
+          entryErrors.push(`unknown key '${key}'`);
+      }
+    }
+
+    errors.push(...entryErrors.map((message) => `${name}: ${message}`));
+    databases.push(db);
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid PGBOUNCER_DATABASES:\n  ${errors.join("\n  ")}`);
+  }
+  return databases;
+}
+
+function onBudgetServer(db: PgBouncerDatabase): boolean {
+  return db.host === PGBOUNCER_BUDGET_SERVER.host && db.port === PGBOUNCER_BUDGET_SERVER.port;
+}
+
+/**
+ * Fit the requested pool sizes into the connections PostgreSQL accepts
+ *
+ * The budget is max_connections minus reserved slots and PGBOUNCER_DIRECT_CONNECTION_RESERVE
+ * (at least 1). Databases with a fixed pool_size on the budget server take pool_size +
+ * reserve_pool_size each; the rest is shared evenly by the databases using default_pool_size and
+ * becomes the global max_db_connections. default_pool_size is capped at that share,
+ * reserve_pool_size at what the default pool leaves of it and min_pool_size at default_pool_size.
+ *
+ * @param settings - Databases and pool sizes from base-config.ts or PGBOUNCER_* overrides
+ * @param maxConnections - Server max_connections (see calculateMaxConnections in tuning.ts)
+ * @param reservedConnections - superuser_reserved_connections + reserved_connections
+ * @throws Error if fixed pool sizes leave no connection for the other databases
+ */
+export function calculatePgBouncerPoolSizes(
+  settings: Pick<
+    PgBouncerSettings,
+    "databases" | "defaultPoolSize" | "minPoolSize" | "reservePoolSize"
+  >,
+  maxConnections: number,
+  reservedConnections = SUPERUSER_RESERVED_CONNECTIONS
+): PgBouncerPoolSizes {
+  const warnings: string[] = [];
+  const budget = Math.max(
+    maxConnections - reservedConnections - PGBOUNCER_DIRECT_CONNECTION_RESERVE,
+    1
+  );
+
+  const local = settings.databases.filter(onBudgetServer);
+  const fixed = local.filter((db) => db.poolSize !== undefined);
+  const fixedTotal = fixed.reduce(
+    (sum, db) => sum + (db.poolSize ?? 0) + settings.reservePoolSize,
+    0
+  );
+  if (fixedTotal > budget) {
+    throw new Error(
+      `Declared pool_size values need ${fixedTotal} server connections (including reserve pools) but only ${budget} are available`
+    );
+  }
+
+  const shared = Math.max(local.length - fixed.length, 1);
+  const share = Math.floor((budget - fixedTotal) / shared);
+  if (share < 1) {
+    throw new Error("No server connections left for databases without pool_size");
+  }
+
+  let defaultPoolSize = settings.defaultPoolSize;
+  if (defaultPoolSize > share) {
+    warnings.push(
+      `default_pool_size ${defaultPoolSize} exceeds the server connection budget (${share}) - clamping`
+    );
+    defaultPoolSize = share;
+  }
+
+  let reservePoolSize = settings.reservePoolSize;
+  if (reservePoolSize > share - defaultPoolSize) {
+    reservePoolSize = share - defaultPoolSize;
+    warnings.push(`reserve_pool_size reduced to ${reservePoolSize} to stay within the budget`);
+  }
+
+  const minPoolSize = Math.min(settings.minPoolSize, defaultPoolSize);
+
+  return {
+    serverConnectionBudget: budget,
+    defaultPoolSize,
+    minPoolSize,
+    reservePoolSize,
+    maxDbConnections: share,
+    databases: settings.databases.map((db) =>
+      db.poolSize === undefined
+        ? { name: db.name }
+        : {
+            name: db.name,
+            poolSize: db.poolSize,
+            maxDbConnections: db.poolSize + settings.reservePoolSize,
+          }
+    ),
+    warnings,
+  };
+}
+
+/**
+ * Render a `[databases]` line
+ *
+ * @param db - Database entry
+ * @param reservePoolSize - Requested reserve_pool_size, added to fixed pools' max_db_connections
+ */
+export function renderPgBouncerDatabase(db: PgBouncerDatabase, reservePoolSize: number): string {
+  const params = [`host=${db.host}`, `port=${db.port}`, `dbname=${db.dbname}`];
+  if (db.user) params.push(`user=${db.user}`);
+  if (db.poolMode) params.push(`pool_mode=${db.poolMode}`);
+  if (db.poolSize !== undefined) {
+    params.push(`pool_size=${db.poolSize}`, `max_db_connections=${db.poolSize + reservePoolSize}`);
+  }
+  return `${db.name} = ${params.join(" ")}`;
+}
+
+/**
+ * Merge common PgBouncer settings with stack overrides
+ *
+ * @throws Error if the stack does not ship PgBouncer
+ */
+export function resolvePgBouncerSettings(
+  common: PgBouncerSettings,
+  stacks: Partial<Record<StackType, Partial<PgBouncerSettings>>>,
+  stack: StackType
+): PgBouncerSettings {
+  const overrides = stacks[stack];
+  if (!overrides) {
+    throw new Error(`Stack ${stack} has no PgBouncer configuration`);
+  }
+  return { ...common, ...overrides };
+}
+
+function iniKey(key: string): string {
+  return key.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`);
+}
+
+function formatIniValue(value: PgBouncerSettings[keyof PgBouncerSettings]): string {
+  return Array.isArray(value) ? value.join(", ") : String(value);
+}
+
+const SETTING_GROUPS: Array<Array<keyof PgBouncerSettings>> = [
+  [
+    "listenAddr",
+    "listenPort",
+    "poolMode",
+    "authType",
+    "authFile",
+    "authDbname",
+    "authUser",
+    "authQuery",
+    "ignoreStartupParameters",
+    "serverTlsSslmode",
+  ],
+  ["statsUsers", "adminUsers"],
+  ["maxClientConn", "defaultPoolSize", "minPoolSize", "reservePoolSize", "reservePoolTimeout"],
+  ["serverIdleTimeout", "serverLifetime", "serverConnectTimeout", "queryWaitTimeout"],
+];
+
+/**
+ * Generate pgbouncer.ini.template content for a stack
+ *
+ * @param stack - Stack the template is written for (used in the header)
+ * @param settings - Merged settings (see resolvePgBouncerSettings)
+ * @returns Template with runtime placeholders for pgbouncer-entrypoint.sh
+ * @throws Error if no database is declared
+ */
+export function generatePgBouncerIni(stack: StackType, settings: PgBouncerSettings): string {
+  if (settings.databases.length === 0) {
+    throw new Error(`PgBouncer settings for stack ${stack} declare no databases`);
+  }
+  // The entrypoint counts template databases as sharing default_pool_size on the budget server
+  const unsupported = settings.databases.filter(
+    (db) => db.poolSize !== undefined || !onBudgetServer(db)
+  );
+  if (unsupported.length > 0) {
+    throw new Error(
+      `Template databases must use default_pool_size on ${PGBOUNCER_BUDGET_SERVER.host}:${PGBOUNCER_BUDGET_SERVER.port}; declare ${unsupported.map((db) => db.name).join(", ")} with PGBOUNCER_DATABASES instead`
+    );
+  }
+
+  const placeholders = new Map<keyof PgBouncerSettings, string>(
+    Object.entries(PGBOUNCER_RUNTIME_SETTINGS).map(([envVar, key]) => [
+      key,
+      `${envVar}_PLACEHOLDER`,
+    ])
+  );
+
+  const lines: string[] = [];
+  lines.push("; PgBouncer Configuration");
+  lines.push(`; Stack: ${stack}`);
+  lines.push("; Generated by scripts/config-generator/generator.ts");
+  lines.push(";");
+  lines.push("; DO NOT EDIT MANUALLY - Changes will be overwritten");
+  lines.push("; Edit scripts/config-generator/base-config.ts and regenerate");
+  lines.push(";");
+  lines.push(
+    "; *_PLACEHOLDER values are filled in by pgbouncer-entrypoint.sh from PGBOUNCER_* env"
+  );
+  lines.push("; vars; pool sizes are clamped to the server's max_connections at startup.");
+  lines.push("");
+
+  lines.push("[databases]");
+  for (const db of settings.databases) {
+    lines.push(renderPgBouncerDatabase(db, settings.reservePoolSize));
+  }
+  lines.push(PGBOUNCER_DATABASES_PLACEHOLDER);
+  lines.push("");
+
+  lines.push("[pgbouncer]");
+  for (const [index, group] of SETTING_GROUPS.entries()) {
+    if (index > 0) lines.push("");
+    for (const key of group) {
+      lines.push(`${iniKey(key)} = ${placeholders.get(key) ?? formatIniValue(settings[key])}`);
+    }
+    if (group.includes("defaultPoolSize")) {
+      lines.push(`max_db_connections = ${MAX_DB_CONNECTIONS_PLACEHOLDER}`);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
@@ -16,20 +16,7 @@
 import { describe, test, expect } from "bun:test";
 import { generateExtensionsInitScript } from "./sql-generator";
 import type { ManifestEntry } from "../extensions/manifest-data";
-
-/**
- * Factory function to create test ManifestEntry objects with sensible defaults.
- * Only override what you need for each test.
- */
-function createMockEntry(overrides: Partial<ManifestEntry> & { name: string }): ManifestEntry {
-  return {
-    kind: "extension",
-    category: "test",
-    description: `Test extension: ${overrides.name}`,
-    source: { type: "builtin" },
-    ...overrides,
-  };
-}
+import { createMockEntry } from "../test/manifest-test-utils";
 
 describe("generateExtensionsInitScript - Table Creation", () => {
   test("Creates pg_aza_status table", async () => {
@@ -255,7 +242,10 @@ describe("generateExtensionsInitScript - Success Messages", () => {
 
     const sql = await generateExtensionsInitScript(extensions);
 
-    expect(sql).toContain("Baseline extensions enabled (ext1, ext2)");
+    // Lists the expected extensions at run time (the active profile may differ from the defaults)
+    expect(sql).toContain("Baseline extensions enabled (%)");
+    expect(sql).toContain("array_to_string(v_expected_exts, ', ')");
+    expect(sql).toContain("v_expected_exts TEXT[] := ARRAY['ext1', 'ext2']");
   });
 
   test("Success message mentions additional extensions", async () => {
@@ -742,3 +732,36 @@ describe("generateExtensionsInitScript - pg_cron Filtering", () => {
     expect(hasPgCronCreate).toBe(false);
   });
 });
+
+describe("generateExtensionsInitScript - Runtime Extension Profiles", () => {
+  test("generates gated blocks for profile extensions outside the defaults", async () => {
+    const sql = await generateExtensionsInitScript(
+      [createMockEntry({ name: "vector" })],
+      [createMockEntry({ name: "vector" }), createMockEntry({ name: "timescaledb" })]
+    );
+
+    // Defaults stay the fallback; every profile extension gets a creation block
+    expect(sql).toContain("v_expected_exts TEXT[] := ARRAY['vector']");
+    expect(sql).toContain("v_init_exts TEXT[] := ARRAY['vector', 'timescaledb']::TEXT[]");
+    expect(sql).toContain("IF 'timescaledb' = ANY(v_expected_exts) THEN");
+    expect(sql).toContain('CREATE EXTENSION IF NOT EXISTS "timescaledb"');
+  });
+
+  test("active profile from the entrypoint replaces the defaults", async () => {
+    const sql = await generateExtensionsInitScript([createMockEntry({ name: "vector" })]);
+
+    expect(sql).toContain("IF current_setting('aza.extension_profile', true) IS NOT NULL THEN");
+    expect(sql).toContain("current_setting('aza.profile_extensions', true)");
+    expect(sql).toContain("WHERE ext = ANY(v_init_exts)");
+  });
+
+  test("pg_cron from a profile is still left to 01b-pg_cron.sh", async () => {
+    const sql = await generateExtensionsInitScript(
+      [],
+      [createMockEntry({ name: "pg_cron" }), createMockEntry({ name: "pgmq" })]
+    );
+
+    expect(sql).toContain("v_init_exts TEXT[] := ARRAY['pgmq']::TEXT[]");
+    expect(sql).not.toContain('CREATE EXTENSION IF NOT EXISTS "pg_cron"');
+  });
+});
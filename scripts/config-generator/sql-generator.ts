@@ -19,11 +19,19 @@ import { resolveExtensionDependencies } from "../test/manifest-test-utils";
  * This eliminates hardcoded duplication between init script and healthcheck
  * by providing a database-native single source of truth.
  *
- * @param extensionsToEnable - Array of manifest entries for extensions to enable
+ * The extensions actually created follow the active runtime extension profile: the
+ * entrypoint passes it as `aza.profile_extensions` (see scripts/extensions/runtime-profiles.ts).
+ * A creation block is generated for every extension any profile can select, and only the
+ * active ones run. Without the setting (server not started by the entrypoint) the baked
+ * default list is used.
+ *
+ * @param extensionsToEnable - Array of manifest entries for extensions to enable by default
+ * @param profileExtensions - Every extension a runtime profile can select (default: extensionsToEnable)
  * @returns SQL script content as string
  */
 export async function generateExtensionsInitScript(
-  extensionsToEnable: ManifestEntry[]
+  extensionsToEnable: ManifestEntry[],
+  profileExtensions: ManifestEntry[] = extensionsToEnable
 ): Promise<string> {
   const lines: string[] = [];
 
@@ -65,15 +73,23 @@ export async function generateExtensionsInitScript(
   // pg_cron can only be created in cron.database_name, which follows POSTGRES_DB
   // Remove it from expected_extensions since it's handled separately
   const extensionsFiltered = extensionsToEnable.filter((e) => e.name !== "pg_cron");
+  const candidateNames = new Set(extensionsFiltered.map((e) => e.name));
+  const candidates = [
+    ...extensionsFiltered,
+    ...profileExtensions.filter((e) => e.name !== "pg_cron" && !candidateNames.has(e.name)),
+  ];
 
   // Sort extensions in dependency order (dependencies first) using topological sort
   // This ensures extensions like pgvector are created before vectorscale, etc.
   const extensionsToCreate = resolveExtensionDependencies(extensionsFiltered);
   const extensionNames = extensionsToCreate.map((e) => e.name);
+  const blocks = resolveExtensionDependencies(candidates);
 
   // Content-based version: deterministic hash of enabled extensions (same input → same output)
+  const hashInput = extensionNames.slice().sort().join(",");
+  const profileNames = blocks.map((e) => e.name).filter((name) => !extensionNames.includes(name));
   const extHash = createHash("sha256")
-    .update(extensionNames.slice().sort().join(","))
+    .update(profileNames.length > 0 ? `${hashInput};${profileNames.sort().join(",")}` : hashInput)
     .digest("hex")
     .slice(0, 7);
   const scriptVersion = `${MANIFEST_METADATA.pgVersion}-${extHash}`;
@@ -88,7 +104,26 @@ export async function generateExtensionsInitScript(
   lines.push("    v_created_exts TEXT[] := ARRAY[]::TEXT[];");
   lines.push("    v_failed_exts TEXT[] := ARRAY[]::TEXT[];");
   lines.push("    v_error_msg TEXT;");
+  lines.push(
+    "    v_init_exts TEXT[] := ARRAY[" + blocks.map((e) => `'${e.name}'`).join(", ") + "]::TEXT[];"
+  );
   lines.push("BEGIN");
+  lines.push(
+    "    -- Active runtime extension profile (POSTGRES_EXTENSION_PROFILE) replaces the defaults;"
+  );
+  lines.push(
+    "    -- only extensions with a creation block below are kept (pg_cron is left to 01b-pg_cron.sh)"
+  );
+  lines.push("    IF current_setting('aza.extension_profile', true) IS NOT NULL THEN");
+  lines.push("        v_expected_exts := ARRAY(");
+  lines.push("            SELECT ext");
+  lines.push(
+    "            FROM unnest(string_to_array(current_setting('aza.profile_extensions', true), ',')) AS ext"
+  );
+  lines.push("            WHERE ext = ANY(v_init_exts)");
+  lines.push("        );");
+  lines.push("    END IF;");
+  lines.push("");
   lines.push("    -- Record initialization start");
   lines.push("    INSERT INTO pg_aza_status (script_version, expected_extensions, status, notes)");
   lines.push(
@@ -97,25 +132,27 @@ export async function generateExtensionsInitScript(
   lines.push("    RETURNING id INTO v_status_id;");
   lines.push("");
 
-  if (extensionsToCreate.length > 0) {
-    lines.push("    -- Attempt to create each extension with error handling");
+  if (blocks.length > 0) {
+    lines.push("    -- Attempt to create each expected extension with error handling");
     lines.push("    -- NOTE: pg_cron is skipped here and created by 01b-pg_cron.sh in POSTGRES_DB");
-    for (const entry of extensionsToCreate) {
+    for (const entry of blocks) {
       const displayName = entry.displayName ?? entry.name;
       const category = entry.category ?? "misc";
       lines.push("");
       lines.push(`    -- ${displayName} (${category})`);
-      lines.push("    BEGIN");
-      lines.push(`        CREATE EXTENSION IF NOT EXISTS "${entry.name}";`);
-      lines.push(`        v_created_exts := array_append(v_created_exts, '${entry.name}');`);
-      lines.push(`        RAISE NOTICE 'Created extension: ${entry.name}';`);
-      lines.push("    EXCEPTION WHEN OTHERS THEN");
-      lines.push(`        v_failed_exts := array_append(v_failed_exts, '${entry.name}');`);
-      lines.push("        GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;");
+      lines.push(`    IF '${entry.name}' = ANY(v_expected_exts) THEN`);
+      lines.push("        BEGIN");
+      lines.push(`            CREATE EXTENSION IF NOT EXISTS "${entry.name}";`);
+      lines.push(`            v_created_exts := array_append(v_created_exts, '${entry.name}');`);
+      lines.push(`            RAISE NOTICE 'Created extension: ${entry.name}';`);
+      lines.push("        EXCEPTION WHEN OTHERS THEN");
+      lines.push(`            v_failed_exts := array_append(v_failed_exts, '${entry.name}');`);
+      lines.push("            GET STACKED DIAGNOSTICS v_error_msg = MESSAGE_TEXT;");
       lines.push(
-        `        RAISE WARNING 'Failed to create extension ${entry.name}: %', v_error_msg;`
+        `            RAISE WARNING 'Failed to create extension ${entry.name}: %', v_error_msg;`
       );
-      lines.push("    END;");
+      lines.push("        END;");
+      lines.push("    END IF;");
     }
     lines.push("");
 
@@ -133,7 +170,7 @@ export async function generateExtensionsInitScript(
     lines.push("        notes = CASE");
     lines.push("            WHEN array_length(v_failed_exts, 1) IS NULL THEN");
     lines.push(
-      `                'All ${extensionsToCreate.length} baseline extensions created successfully (pg_cron handled separately by 01b-pg_cron.sh)'`
+      "                'All ' || COALESCE(array_length(v_created_exts, 1), 0)::TEXT || ' baseline extensions created successfully (pg_cron handled separately by 01b-pg_cron.sh)'"
     );
     lines.push("            ELSE");
     lines.push(
@@ -148,7 +185,7 @@ export async function generateExtensionsInitScript(
     lines.push("    -- NOTE: pg_cron is handled by 01b-pg_cron.sh to target POSTGRES_DB");
     lines.push("    IF array_length(v_failed_exts, 1) IS NULL THEN");
     lines.push(
-      `        RAISE NOTICE 'Baseline extensions enabled (${extensionNames.join(", ")}). pg_cron will be created by 01b-pg_cron.sh in POSTGRES_DB. Additional extensions are available but disabled by default.';`
+      "        RAISE NOTICE 'Baseline extensions enabled (%). pg_cron will be created by 01b-pg_cron.sh in POSTGRES_DB. Additional extensions are available but disabled by default.', array_to_string(v_expected_exts, ', ');"
     );
     lines.push("    ELSE");
     lines.push(
@@ -1,4 +1,9 @@
-export type StackType = "primary" | "replica" | "single";
+import type { SynchronousStandbys } from "../utils/guc-formatter";
+
+export type StackType = "primary" | "replica" | "single" | "logical";
+
+/** log_destination values; csvlog and jsonlog need the logging collector */
+export type LogDestination = "stderr" | "csvlog" | "jsonlog" | "syslog";
 
 export interface PostgreSQLSettings {
   // Connection Settings
@@ -14,8 +19,12 @@ export interface PostgreSQLSettings {
   ioCombineLimit: number;
 
   // Logging
-  logDestination: string;
+  logDestination: LogDestination | LogDestination[];
   loggingCollector: "on" | "off";
+  logDirectory?: string;
+  logFilename?: string;
+  logRotationAge?: number;
+  logRotationSize?: number;
   logMinDurationStatement: number;
   logLinePrefix: string;
   logLockWaits: "on" | "off";
@@ -69,6 +78,7 @@ export interface PostgreSQLSettings {
   // WAL Settings
   walLevel: "minimal" | "replica" | "logical";
   walCompression: "off" | "lz4" | "pglz";
+  walLogHints?: "on" | "off";
   maxWalSize?: string;
   minWalSize?: string;
   maxWalSenders?: number;
@@ -78,7 +88,7 @@ export interface PostgreSQLSettings {
 
   // Replication
   synchronousCommit?: "on" | "off" | "remote_apply" | "remote_write" | "local";
-  synchronousStandbyNames?: string;
+  synchronousStandbyNames?: string | SynchronousStandbys;
   maxReplicationSlots?: number;
   idleReplicationSlotTimeout?: string;
   walSenderTimeout?: string;
@@ -87,6 +97,12 @@ export interface PostgreSQLSettings {
   maxStandbyStreamingDelay?: string;
   hotStandbyFeedback?: "on" | "off";
   walReceiverStatusInterval?: string;
+  recoveryMinApplyDelay?: string;
+
+  // Logical Replication (subscriber)
+  maxLogicalReplicationWorkers?: number;
+  maxSyncWorkersPerSubscription?: number;
+  maxParallelApplyWorkersPerSubscription?: number;
 
   // pg_cron
   cronDatabaseName?: string;
@@ -100,12 +116,85 @@ export interface PostgreSQLSettings {
   pgAuditLogRelation?: "on" | "off";
 }
 
+export type PgBouncerPoolMode = "session" | "transaction" | "statement";
+
+/**
+ * A `[databases]` entry routing a PgBouncer database name to a PostgreSQL server
+ */
+export interface PgBouncerDatabase {
+  name: string;
+  host: string;
+  port: number;
+  dbname: string;
+  user?: string;
+  /** Overrides the global pool_mode (e.g. session for LISTEN/NOTIFY or advisory locks) */
+  poolMode?: PgBouncerPoolMode;
+  /** Fixed pool size; databases without one share the remaining connection budget */
+  poolSize?: number;
+}
+
+/**
+ * pgbouncer.ini `[pgbouncer]` settings
+ *
+ * Pool sizes are requests, not final values: pgbouncer-entrypoint.sh clamps them at startup
+ * against the live max_connections of the server (see pgbouncer-generator.ts).
+ */
+export interface PgBouncerSettings {
+  databases: PgBouncerDatabase[];
+
+  // Connection Settings
+  listenAddr: string;
+  listenPort: number;
+  poolMode: PgBouncerPoolMode;
+  ignoreStartupParameters: string[];
+  serverTlsSslmode: "disable" | "allow" | "prefer" | "require" | "verify-ca" | "verify-full";
+
+  // Authentication
+  authType: "scram-sha-256" | "md5" | "trust" | "hba";
+  authFile: string;
+  authDbname: string;
+  authUser: string;
+  authQuery: string;
+  statsUsers: string[];
+  adminUsers: string[];
+
+  // Pool Sizing
+  maxClientConn: number;
+  defaultPoolSize: number;
+  minPoolSize: number;
+  reservePoolSize: number;
+  reservePoolTimeout: number;
+
+  // Timeouts (seconds)
+  serverIdleTimeout: number;
+  serverLifetime: number;
+  serverConnectTimeout: number;
+  queryWaitTimeout: number;
+}
+
+export type PgHbaMethod = "trust" | "reject" | "scram-sha-256" | "md5" | "peer" | "cert";
+
 export interface PgHbaRule {
   type: "local" | "host" | "hostssl" | "hostnossl";
   database: string;
   user: string;
   address?: string;
-  method: "trust" | "reject" | "scram-sha-256" | "md5" | "peer";
+  method: PgHbaMethod;
+  // Also require a client certificate (hostssl only): scram-sha-256 clientcert=verify-full
+  clientCert?: "verify-ca" | "verify-full";
+  // pg_ident.conf map for cert and peer (certificate CN or OS user -> role)
+  map?: string;
+  // Replaces method/clientCert/map in pg_hba-tls.conf (POSTGRES_TLS=require)
+  tls?: Pick<PgHbaRule, "method" | "clientCert" | "map">;
+  comment?: string;
+  stackSpecific?: StackType[];
+}
+
+export interface PgIdentMapping {
+  map: string;
+  // Certificate CN (cert) or OS user (peer)
+  systemUser: string;
+  databaseUser: string;
   comment?: string;
   stackSpecific?: StackType[];
 }
@@ -175,7 +264,15 @@ export interface BaseConfig {
     primary: Partial<PostgreSQLSettings>;
     replica: Partial<PostgreSQLSettings>;
     single: Partial<PostgreSQLSettings>;
+    logical: Partial<PostgreSQLSettings>;
   };
   // pg_hba rules (with stack-specific flags)
   pgHbaRules: PgHbaRule[];
+  // pg_ident.conf user name maps referenced by pg_hba rules
+  pgIdentMappings: PgIdentMapping[];
+  // PgBouncer settings; only stacks listed in `stacks` ship a PgBouncer service
+  pgbouncer: {
+    common: PgBouncerSettings;
+    stacks: Partial<Record<StackType, Partial<PgBouncerSettings>>>;
+  };
 }
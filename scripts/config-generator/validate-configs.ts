@@ -143,6 +143,7 @@ function validateBaseConfig(result: ValidationResult): void {
     "pg_stat_statements.track",
     "auto_explain.log_min_duration",
     "wal_compression",
+    "wal_log_hints",
   ];
 
   for (const required of requiredSettings) {
@@ -195,6 +196,24 @@ function validateReplicaConfig(result: ValidationResult): void {
   }
 }
 
+/**
+ * Check for required settings in logical replication stack
+ */
+function validateLogicalConfig(result: ValidationResult): void {
+  const requiredSettings = [
+    "wal_level",
+    "max_logical_replication_workers",
+    "max_sync_workers_per_subscription",
+  ];
+
+  for (const required of requiredSettings) {
+    if (!result.settings.includes(required)) {
+      result.errors.push(`Missing required setting: "${required}"`);
+      result.valid = false;
+    }
+  }
+}
+
 // Run validations
 async function main() {
   info("Validating PostgreSQL configurations...\n");
@@ -216,6 +235,10 @@ async function main() {
       path: "stacks/single/configs/postgresql.conf",
       validator: null, // Minimal validation, no specific requirements
     },
+    {
+      path: "stacks/logical/configs/postgresql-logical.conf",
+      validator: validateLogicalConfig,
+    },
   ];
 
   let allValid = true;
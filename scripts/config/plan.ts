@@ -0,0 +1,277 @@
+#!/usr/bin/env bun
+/**
+ * Preview the PostgreSQL settings the auto-config entrypoint would apply
+ *
+ * Runs the same tuning math as docker-auto-config-entrypoint.sh (see scripts/config/tuning.ts)
+ * for explicit resources, so a VPS can be sized before anything is deployed to it. The table
+ * output also shows the PgBouncer pool sizes the primary stack derives from max_connections.
+ *
+ * Usage:
+ *   bun scripts/config/plan.ts --memory <MB> --cpus <n> [OPTIONS]
+ *
+ * Options:
+ *   --memory <MB>                 RAM available to PostgreSQL (required, 512-1048576)
+ *   --cpus <n>                    CPU cores (required, clamped to 1-128)
+ *   --workload <type>             web | oltp | dw | mixed (default: mixed)
+ *   --storage <type>              ssd | hdd | san (default: ssd)
+ *   --preload <libs>              Comma-separated shared_preload_libraries (default: image default)
+ *   --no-pgsodium                 Plan as if no valid pgsodium_getkey script is mounted
+ *   --wal-level <level>           minimal | replica | logical (default: logical)
+ *   --bind-ip <ip>                POSTGRES_BIND_IP (default: 127.0.0.1)
+ *   --database <name>             POSTGRES_DB, used for cron.database_name (default: postgres)
+ *   --max-worker-processes <n>    POSTGRES_MAX_WORKER_PROCESSES override
+ *   --format <format>             table | conf | args | json (default: table)
+ *   --help                        Show this help message
+ *
+ * Examples:
+ *   bun scripts/config/plan.ts --memory 8192 --cpus 4 --workload oltp
+ *   bun scripts/config/plan.ts --memory 2048 --cpus 1 --storage hdd --format conf
+ *   bun scripts/config/plan.ts --memory 16384 --cpus 8 --format json | jq .gucs
+ *
+ * Exit codes:
+ *   0 - Plan printed
+ *   1 - Invalid arguments or resources the entrypoint would refuse to start with
+ */
+
+import { BASE_CONFIG } from "../config-generator/base-config";
+import {
+  calculatePgBouncerPoolSizes,
+  resolvePgBouncerSettings,
+} from "../config-generator/pgbouncer-generator";
+import { MANIFEST_ENTRIES } from "../extensions/manifest-data";
+import { generateDefaultSharedPreloadLibraries } from "../docker/generate-entrypoint";
+import { getErrorMessage } from "../utils/errors";
+import { error, section, warning } from "../utils/logger";
+import {
+  planTuning,
+  STORAGE_TYPES,
+  WAL_LEVELS,
+  WORKLOAD_TYPES,
+  type StorageType,
+  type TuningInput,
+  type TuningPlan,
+  type WalLevel,
+  type WorkloadType,
+} from "./tuning";
+
+type OutputFormat = "table" | "conf" | "args" | "json";
+const OUTPUT_FORMATS: readonly OutputFormat[] = ["table", "conf", "args", "json"];
+
+interface Options {
+  input: TuningInput;
+  format: OutputFormat;
+}
+
+function printHelp(): void {
+  const helpText = `
+Preview the PostgreSQL settings the auto-config entrypoint would apply
+
+Usage:
+  bun scripts/config/plan.ts --memory <MB> --cpus <n> [OPTIONS]
+
+Required Options:
+  --memory <MB>                 RAM available to PostgreSQL (512-1048576)
+  --cpus <n>                    CPU cores (clamped to 1-128)
+
+Optional Flags:
+  --workload <type>             ${WORKLOAD_TYPES.join(" | ")} (default: mixed)
+  --storage <type>              ${STORAGE_TYPES.join(" | ")} (default: ssd)
+  --preload <libs>              Comma-separated shared_preload_libraries (default: image default)
+  --no-pgsodium                 Plan as if no valid pgsodium_getkey script is mounted
+  --wal-level <level>           ${WAL_LEVELS.join(" | ")} (default: logical)
+  --bind-ip <ip>                POSTGRES_BIND_IP (default: 127.0.0.1)
+  --database <name>             POSTGRES_DB, used for cron.database_name (default: postgres)
+  --max-worker-processes <n>    POSTGRES_MAX_WORKER_PROCESSES override
+  --format <format>             ${OUTPUT_FORMATS.join(" | ")} (default: table)
+  --help                        Show this help message
+
+Examples:
+  bun scripts/config/plan.ts --memory 8192 --cpus 4 --workload oltp
+  bun scripts/config/plan.ts --memory 2048 --cpus 1 --storage hdd --format conf
+`;
+  console.log(helpText.trim());
+}
+
+function parseChoice<T extends string>(flag: string, value: string, choices: readonly T[]): T {
+  if (!(choices as readonly string[]).includes(value)) {
+    throw new Error(`${flag} must be one of: ${choices.join(", ")} (got '${value}')`);
+  }
+  return value as T;
+}
+
+function parseInteger(flag: string, value: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`${flag} must be a positive integer (got '${value}')`);
+  }
+  return Number.parseInt(value, 10);
+}
+
+export function parseArgs(args: string[]): Options {
+  let memoryMB: number | undefined;
+  let cpuCores: number | undefined;
+  let workload: WorkloadType | undefined;
+  let storage: StorageType | undefined;
+  let walLevel: WalLevel | undefined;
+  let preload: string[] | undefined;
+  let pgsodiumEnabled = true;
+  let listenAddresses: string | undefined;
+  let cronDatabaseName: string | undefined;
+  let maxWorkerProcesses: number | undefined;
+  let format: OutputFormat = "table";
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+
+    if (arg === "--help" || arg === "-h") {
+      printHelp();
+      process.exit(0);
+    }
+
+    if (arg === "--no-pgsodium") {
+      pgsodiumEnabled = false;
+      continue;
+    }
+
+    const value = args[i + 1];
+    if (value === undefined || value.startsWith("--")) {
+      throw new Error(`${arg} requires a value`);
+    }
+    i++;
+
+    switch (arg) {
+      case "--memory":
+        memoryMB = parseInteger(arg, value);
+        break;
+      case "--cpus":
+        cpuCores = parseInteger(arg, value);
+        break;
+      case "--workload":
+        workload = parseChoice(arg, value, WORKLOAD_TYPES);
+        break;
+      case "--storage":
+        storage = parseChoice(arg, value, STORAGE_TYPES);
+        break;
+      case "--wal-level":
+        walLevel = parseChoice(arg, value, WAL_LEVELS);
+        break;
+      case "--preload":
+        preload = value
+          .split(",")
+          .map((lib) => lib.trim())
+          .filter((lib) => lib.length > 0);
+        break;
+      case "--bind-ip":
+        listenAddresses = value;
+        break;
+      case "--database":
+        cronDatabaseName = value;
+        break;
+      case "--max-worker-processes":
+        maxWorkerProcesses = parseInteger(arg, value);
+        break;
+      case "--format":
+        format = parseChoice(arg, value, OUTPUT_FORMATS);
+        break;
+      default:
+        throw new Error(`Unknown option: ${arg}`);
+    }
+  }
+
+  if (memoryMB === undefined) throw new Error("--memory is required");
+  if (cpuCores === undefined) throw new Error("--cpus is required");
+
+  return {
+    input: {
+      memoryMB,
+      cpuCores,
+      workload,
+      storage,
+      walLevel,
+      sharedPreloadLibraries:
+        preload ??
+        generateDefaultSharedPreloadLibraries({ entries: MANIFEST_ENTRIES })
+          .split(",")
+          .filter((lib) => lib.length > 0),
+      pgsodiumEnabled,
+      listenAddresses,
+      cronDatabaseName,
+      maxWorkerProcesses,
+    },
+    format,
+  };
+}
+
+/**
+ * Render a plan in the requested output format
+ */
+export function formatPlan(plan: TuningPlan, format: OutputFormat): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(
+        {
+          resolved: plan.resolved,
+          gucs: Object.fromEntries(plan.gucs),
+          warnings: plan.warnings,
+        },
+        null,
+        2
+      );
+    case "conf":
+      return plan.gucs.map(([name, value]) => `${name} = '${value}'`).join("\n");
+    case "args":
+      return plan.gucs.map(([name, value]) => `-c "${name}=${value}"`).join(" \\\n");
+    case "table": {
+      const width = Math.max(...plan.gucs.map(([name]) => name.length));
+      return plan.gucs.map(([name, value]) => `  ${name.padEnd(width)}  ${value}`).join("\n");
+    }
+  }
+}
+
+async function main(): Promise<void> {
+  let options: Options;
+  let plan: TuningPlan;
+  try {
+    options = parseArgs(Bun.argv.slice(2));
+    plan = planTuning(options.input);
+  } catch (err) {
+    error(getErrorMessage(err));
+    console.log("Run with --help for usage");
+    process.exit(1);
+  }
+
+  if (options.format !== "table") {
+    console.log(formatPlan(plan, options.format));
+    return;
+  }
+
+  const { resolved } = plan;
+  section(
+    `Auto-config plan: ${resolved.memoryMB}MB RAM, ${resolved.cpuCores} cores, ` +
+      `${resolved.workload} workload, ${resolved.storage} storage`
+  );
+  for (const message of plan.warnings) {
+    warning(message);
+  }
+  console.log(formatPlan(plan, "table"));
+
+  // The primary stack's PgBouncer entrypoint sizes its pools from this max_connections
+  const maxConnections = Number(plan.gucs.find(([name]) => name === "max_connections")?.[1]);
+  const { common, stacks } = BASE_CONFIG.pgbouncer;
+  const pools = calculatePgBouncerPoolSizes(
+    resolvePgBouncerSettings(common, stacks, "primary"),
+    maxConnections
+  );
+  console.log("");
+  section("PgBouncer pools (primary stack defaults)");
+  for (const message of pools.warnings) {
+    warning(message);
+  }
+  console.log(`  default_pool_size   ${pools.defaultPoolSize}`);
+  console.log(`  reserve_pool_size   ${pools.reservePoolSize}`);
+  console.log(`  min_pool_size       ${pools.minPoolSize}`);
+  console.log(`  max_db_connections  ${pools.maxDbConnections}`);
+}
+
+if (import.meta.main) {
+  await main();
+}
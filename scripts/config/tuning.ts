@@ -0,0 +1,407 @@
+/**
+ * PostgreSQL auto-config tuning engine
+ *
+ * Pure TypeScript port of the RAM/CPU/workload/storage math performed at container start by
+ * docker/postgres/docker-auto-config-entrypoint.sh. This module is the SINGLE SOURCE OF TRUTH for
+ * the tuning constants and lookup tables: scripts/docker/generate-entrypoint.ts renders them into
+ * the entrypoint via renderBashTuningTables(), so bash and TypeScript cannot drift on the numbers.
+ *
+ * The formulas themselves still run in bash at startup (RAM/CPU detection needs the live cgroup),
+ * and each calculate* function below mirrors its bash counterpart line for line — including the
+ * integer (floor) division bash arithmetic performs. Keep both sides in sync when changing either.
+ *
+ * Used by:
+ * - scripts/config/plan.ts: preview the GUC set for a given VPS before deploying
+ * - scripts/test/test-auto-config-units.test.ts: formula regression tests without containers
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type WorkloadType = "web" | "oltp" | "dw" | "mixed";
+export type StorageType = "ssd" | "hdd" | "san";
+export type WalLevel = "minimal" | "replica" | "logical";
+
+export const WORKLOAD_TYPES: readonly WorkloadType[] = ["web", "oltp", "dw", "mixed"];
+export const STORAGE_TYPES: readonly StorageType[] = ["ssd", "san", "hdd"];
+export const WAL_LEVELS: readonly WalLevel[] = ["minimal", "replica", "logical"];
+
+export interface WorkloadProfile {
+  maxConnections: number;
+  minWalSizeMB: number;
+  maxWalSizeMB: number;
+}
+
+export interface StorageProfile {
+  /** Kept as the literal GUC string so bash and TS render "4.0" identically */
+  randomPageCost: string;
+  ioConcurrency: number;
+  maintIoConcurrency: number;
+}
+
+export interface TuningInput {
+  /** Total RAM available to PostgreSQL in MB (POSTGRES_MEMORY or detected cgroup/meminfo value) */
+  memoryMB: number;
+  /** CPU cores (cgroup quota or nproc); clamped to 1-128 like the entrypoint */
+  cpuCores: number;
+  workload?: WorkloadType;
+  storage?: StorageType;
+  /** Preload libraries before pgsodium filtering (POSTGRES_SHARED_PRELOAD_LIBRARIES or the image default) */
+  sharedPreloadLibraries: string[];
+  /** Whether a valid pgsodium_getkey script is present (default: true, the image ships a stub) */
+  pgsodiumEnabled?: boolean;
+  walLevel?: WalLevel;
+  /** POSTGRES_BIND_IP (default: 127.0.0.1) */
+  listenAddresses?: string;
+  /** POSTGRES_DB, used for cron.database_name (default: postgres) */
+  cronDatabaseName?: string;
+  /** POSTGRES_MAX_WORKER_PROCESSES override (still clamped to 8-64) */
+  maxWorkerProcesses?: number;
+  /** effective_io_concurrency is only applied on Linux hosts (default: true) */
+  linux?: boolean;
+  /** PostgreSQL major version, used for the pgsodium getkey script path (default: 18) */
+  pgMajor?: number;
+}
+
+export interface TuningPlan {
+  /** Input after defaults and clamping were applied */
+  resolved: Required<TuningInput>;
+  /** GUCs in the exact order the entrypoint passes them as `-c name=value` */
+  gucs: Array<[name: string, value: string]>;
+  /** Non-fatal adjustments the entrypoint would log as warnings */
+  warnings: string[];
+}
+
+// ============================================================================
+// Constants (rendered into the entrypoint)
+// ============================================================================
+
+export const MIN_RAM_MB = 512;
+export const MAX_RAM_MB = 1048576;
+export const MIN_CPU_CORES = 1;
+export const MAX_CPU_CORES = 128;
+
+export const SHARED_BUFFERS_CAP_MB = 32768;
+export const MAINTENANCE_WORK_MEM_CAP_MB = 2048;
+export const WORK_MEM_CAP_MB = 32;
+export const WORK_MEM_DW_CAP_MB = 256;
+export const OS_RESERVE_MB = 512;
+export const CONNECTION_OVERHEAD_PER_CONN_MB = 10;
+
+export const CHECKPOINT_COMPLETION_TARGET = "0.9";
+export const DEFAULT_STATISTICS_TARGET_DW = 500;
+export const DEFAULT_STATISTICS_TARGET_STANDARD = 100;
+
+export const MIN_WORKER_PROCESSES = 8;
+export const MAX_WORKER_PROCESSES = 64;
+
+export const WORKLOAD_PROFILES: Readonly<Record<WorkloadType, WorkloadProfile>> = {
+  web: { maxConnections: 200, minWalSizeMB: 1024, maxWalSizeMB: 4096 },
+  oltp: { maxConnections: 300, minWalSizeMB: 2048, maxWalSizeMB: 8192 },
+  dw: { maxConnections: 100, minWalSizeMB: 4096, maxWalSizeMB: 16384 },
+  mixed: { maxConnections: 120, minWalSizeMB: 1024, maxWalSizeMB: 4096 },
+};
+
+export const STORAGE_PROFILES: Readonly<Record<StorageType, StorageProfile>> = {
+  ssd: { randomPageCost: "1.1", ioConcurrency: 200, maintIoConcurrency: 20 },
+  san: { randomPageCost: "1.1", ioConcurrency: 300, maintIoConcurrency: 20 },
+  hdd: { randomPageCost: "4.0", ioConcurrency: 2, maintIoConcurrency: 10 },
+};
+
+// ============================================================================
+// Calculations (mirror the bash calculate_* functions)
+// ============================================================================
+
+export function calculateMaxConnections(totalRamMB: number, workload: WorkloadType): number {
+  let baseConn = WORKLOAD_PROFILES[workload].maxConnections;
+
+  // Scale for small VPS (shared resources)
+  if (totalRamMB < 2048) {
+    baseConn = Math.floor((baseConn * 50) / 100);
+  } else if (totalRamMB < 4096) {
+    baseConn = Math.floor((baseConn * 70) / 100);
+  } else if (totalRamMB < 8192) {
+    baseConn = Math.floor((baseConn * 85) / 100);
+  }
+
+  return Math.max(baseConn, 20);
+}
+
+export function calculateSharedBuffers(totalRamMB: number): number {
+  let ratio: number;
+  if (totalRamMB <= 8192) {
+    ratio = 25;
+  } else if (totalRamMB <= 32768) {
+    ratio = 20;
+  } else {
+    ratio = 15;
+  }
+
+  const value = Math.floor((totalRamMB * ratio) / 100);
+  return Math.min(Math.max(value, 64), SHARED_BUFFERS_CAP_MB);
+}
+
+export function calculateEffectiveCache(totalRamMB: number, sharedBuffersMB: number): number {
+  // Account for OS (512MB minimum) + other services (20% of RAM)
+  const otherUsage = Math.max(Math.floor((totalRamMB * 20) / 100), OS_RESERVE_MB);
+  const cacheAvail = totalRamMB - sharedBuffersMB - otherUsage;
+
+  // Use 70% of that (conservative); bash truncates toward zero
+  let value = Math.trunc((cacheAvail * 70) / 100);
+
+  // Minimum: 2× shared_buffers
+  value = Math.max(value, sharedBuffersMB * 2);
+  return Math.max(value, 0);
+}
+
+export function calculateMaintenanceWorkMem(totalRamMB: number, workload: WorkloadType): number {
+  // DW: 12.5% of RAM, others: 6.25% of RAM
+  const value = workload === "dw" ? Math.floor(totalRamMB / 8) : Math.floor(totalRamMB / 16);
+  return Math.min(Math.max(value, 32), MAINTENANCE_WORK_MEM_CAP_MB);
+}
+
+export function calculateWorkMem(
+  totalRamMB: number,
+  maxConnections: number,
+  sharedBuffersMB: number,
+  workload: WorkloadType
+): number {
+  const connOverhead = maxConnections * CONNECTION_OVERHEAD_PER_CONN_MB;
+
+  // Available memory pool, with a safety floor
+  const pool = Math.max(totalRamMB - sharedBuffersMB - connOverhead - OS_RESERVE_MB, 256);
+
+  // Divide by connections × operations × safety margin
+  const divisor = Math.max(maxConnections * 4, 1);
+  const value = Math.max(Math.floor(pool / divisor), 1);
+
+  // RAM-tiered caps based on workload
+  let cap = WORK_MEM_CAP_MB;
+  if (workload === "dw" || workload === "mixed") {
+    if (totalRamMB >= 32768) {
+      cap = WORK_MEM_DW_CAP_MB;
+    } else if (totalRamMB >= 8192) {
+      cap = 128;
+    } else if (totalRamMB >= 2048) {
+      cap = 64;
+    }
+  }
+
+  return Math.min(value, cap);
+}
+
+export function calculateWalBuffers(sharedBuffersMB: number): number {
+  // 3% of shared_buffers, min 1MB, max 16MB
+  let value = Math.min(Math.max(Math.floor((sharedBuffersMB * 3) / 100), 1), 16);
+
+  // Special rounding: if between 14-16MB, round up to 16MB
+  if (value > 14 && value < 16) value = 16;
+  return value;
+}
+
+export function calculateIoWorkers(cpuCores: number): number {
+  return Math.min(Math.max(Math.floor(cpuCores / 4), 1), 64);
+}
+
+export function calculateWorkerProcesses(cpuCores: number, override?: number): number {
+  // Leave CPU headroom: <=4 cores → CPU + 1, larger systems → CPU × 1.5
+  const computed = cpuCores <= 4 ? cpuCores + 1 : cpuCores + Math.floor(cpuCores / 2);
+  const value = override ?? computed;
+  return Math.min(Math.max(value, MIN_WORKER_PROCESSES), MAX_WORKER_PROCESSES);
+}
+
+export function calculateParallelWorkers(cpuCores: number): {
+  maxParallelWorkers: number;
+  maxParallelWorkersPerGather: number;
+  maxParallelMaintenanceWorkers: number;
+} {
+  if (cpuCores >= 4) {
+    return {
+      maxParallelWorkers: cpuCores,
+      maxParallelWorkersPerGather: Math.max(Math.floor(cpuCores / 2), 1),
+      maxParallelMaintenanceWorkers: Math.min(Math.floor(cpuCores / 2), 4),
+    };
+  }
+
+  // Low-core systems: conservative parallel worker limits
+  return {
+    maxParallelWorkers: cpuCores,
+    maxParallelWorkersPerGather: 1,
+    maxParallelMaintenanceWorkers: 1,
+  };
+}
+
+/**
+ * Drop pgsodium from the preload list when no valid getkey script is available.
+ * pgsodium crashes PostgreSQL if loaded without one.
+ */
+export function filterPreloadLibraries(libraries: string[], pgsodiumEnabled: boolean): string[] {
+  return pgsodiumEnabled ? [...libraries] : libraries.filter((lib) => lib !== "pgsodium");
+}
+
+// ============================================================================
+// Plan
+// ============================================================================
+
+/**
+ * Compute the full GUC set the entrypoint would pass to postgres for the given resources.
+ * Throws when the input would make the entrypoint exit (RAM below minimum or out of range).
+ */
+export function planTuning(input: TuningInput): TuningPlan {
+  const warnings: string[] = [];
+
+  if (!Number.isInteger(input.memoryMB) || input.memoryMB > MAX_RAM_MB) {
+    throw new Error(`Memory must be an integer between ${MIN_RAM_MB} and ${MAX_RAM_MB} MB`);
+  }
+  if (input.memoryMB < MIN_RAM_MB) {
+    throw new Error(`${input.memoryMB}MB RAM is below the ${MIN_RAM_MB}MB minimum`);
+  }
+
+  let cpuCores = Math.floor(input.cpuCores);
+  if (cpuCores < MIN_CPU_CORES) {
+    warnings.push(`CPU cores (${cpuCores}) below minimum - clamping to ${MIN_CPU_CORES}`);
+    cpuCores = MIN_CPU_CORES;
+  } else if (cpuCores > MAX_CPU_CORES) {
+    warnings.push(`CPU cores (${cpuCores}) exceeds maximum (${MAX_CPU_CORES}) - clamping`);
+    cpuCores = MAX_CPU_CORES;
+  }
+
+  const resolved: Required<TuningInput> = {
+    memoryMB: input.memoryMB,
+    cpuCores,
+    workload: input.workload ?? "mixed",
+    storage: input.storage ?? "ssd",
+    sharedPreloadLibraries: input.sharedPreloadLibraries,
+    pgsodiumEnabled: input.pgsodiumEnabled ?? true,
+    walLevel: input.walLevel ?? "logical",
+    listenAddresses: input.listenAddresses ?? "127.0.0.1",
+    cronDatabaseName: input.cronDatabaseName ?? "postgres",
+    maxWorkerProcesses: calculateWorkerProcesses(cpuCores, input.maxWorkerProcesses),
+    linux: input.linux ?? true,
+    pgMajor: input.pgMajor ?? 18,
+  };
+
+  const ram = resolved.memoryMB;
+  const workloadProfile = WORKLOAD_PROFILES[resolved.workload];
+  const storageProfile = STORAGE_PROFILES[resolved.storage];
+
+  const maxConnections = calculateMaxConnections(ram, resolved.workload);
+  const sharedBuffers = calculateSharedBuffers(ram);
+  const parallel = calculateParallelWorkers(cpuCores);
+  const preload = filterPreloadLibraries(resolved.sharedPreloadLibraries, resolved.pgsodiumEnabled);
+
+  const gucs: Array<[string, string]> = [
+    ["shared_buffers", `${sharedBuffers}MB`],
+    ["effective_cache_size", `${calculateEffectiveCache(ram, sharedBuffers)}MB`],
+    ["maintenance_work_mem", `${calculateMaintenanceWorkMem(ram, resolved.workload)}MB`],
+    ["work_mem", `${calculateWorkMem(ram, maxConnections, sharedBuffers, resolved.workload)}MB`],
+    ["max_connections", String(maxConnections)],
+    ["max_worker_processes", String(resolved.maxWorkerProcesses)],
+    ["wal_level", resolved.walLevel],
+    ["shared_preload_libraries", preload.join(",")],
+    ["cron.database_name", resolved.cronDatabaseName],
+    ["checkpoint_completion_target", CHECKPOINT_COMPLETION_TARGET],
+    ["wal_buffers", `${calculateWalBuffers(sharedBuffers)}MB`],
+    ["min_wal_size", `${workloadProfile.minWalSizeMB}MB`],
+    ["max_wal_size", `${workloadProfile.maxWalSizeMB}MB`],
+    ["random_page_cost", storageProfile.randomPageCost],
+    [
+      "default_statistics_target",
+      String(
+        resolved.workload === "dw"
+          ? DEFAULT_STATISTICS_TARGET_DW
+          : DEFAULT_STATISTICS_TARGET_STANDARD
+      ),
+    ],
+    ["io_workers", String(calculateIoWorkers(cpuCores))],
+    ["maintenance_io_concurrency", String(storageProfile.maintIoConcurrency)],
+    ["max_parallel_workers", String(parallel.maxParallelWorkers)],
+    ["max_parallel_workers_per_gather", String(parallel.maxParallelWorkersPerGather)],
+    ["max_parallel_maintenance_workers", String(parallel.maxParallelMaintenanceWorkers)],
+  ];
+
+  if (resolved.linux) {
+    gucs.push(["effective_io_concurrency", String(storageProfile.ioConcurrency)]);
+  }
+
+  // wal_level=minimal requires max_wal_senders=0 (no replication)
+  if (resolved.walLevel === "minimal") {
+    gucs.push(["max_wal_senders", "0"]);
+  }
+
+  gucs.push(["listen_addresses", resolved.listenAddresses]);
+
+  if (resolved.pgsodiumEnabled) {
+    gucs.push([
+      "pgsodium.getkey_script",
+      `/usr/share/postgresql/${resolved.pgMajor}/extension/pgsodium_getkey`,
+    ]);
+  }
+
+  return { resolved, gucs, warnings };
+}
+
+// ============================================================================
+// Bash rendering (consumed by scripts/docker/generate-entrypoint.ts)
+// ============================================================================
+
+function renderAssociativeArray(name: string, entries: Array<[string, string | number]>): string {
+  const lines = entries.map(([key, value]) => `    [${key}]=${value}`);
+  return `declare -A ${name}=(\n${lines.join("\n")}\n)`;
+}
+
+/**
+ * Render the tuning constants and workload/storage lookup tables as bash declarations.
+ * Replaces the {{AUTO_CONFIG_TUNING_TABLES}} placeholder in the entrypoint template.
+ */
+export function renderBashTuningTables(): string {
+  const workloads = WORKLOAD_TYPES.map((w) => [w, WORKLOAD_PROFILES[w]] as const);
+  const storages = STORAGE_TYPES.map((s) => [s, STORAGE_PROFILES[s]] as const);
+
+  return [
+    `readonly SHARED_BUFFERS_CAP_MB=${SHARED_BUFFERS_CAP_MB}`,
+    `readonly MAINTENANCE_WORK_MEM_CAP_MB=${MAINTENANCE_WORK_MEM_CAP_MB}`,
+    `readonly WORK_MEM_CAP_MB=${WORK_MEM_CAP_MB}`,
+    `readonly WORK_MEM_DW_CAP_MB=${WORK_MEM_DW_CAP_MB}`,
+    `readonly OS_RESERVE_MB=${OS_RESERVE_MB}`,
+    `readonly CONNECTION_OVERHEAD_PER_CONN_MB=${CONNECTION_OVERHEAD_PER_CONN_MB}`,
+    "",
+    "# Fixed parameters",
+    `readonly CHECKPOINT_COMPLETION_TARGET="${CHECKPOINT_COMPLETION_TARGET}"`,
+    `readonly DEFAULT_STATISTICS_TARGET_DW=${DEFAULT_STATISTICS_TARGET_DW}`,
+    `readonly DEFAULT_STATISTICS_TARGET_STANDARD=${DEFAULT_STATISTICS_TARGET_STANDARD}`,
+    "",
+    "# Workload type lookup tables (associative arrays)",
+    renderAssociativeArray(
+      "WORKLOAD_MAX_CONN",
+      workloads.map(([w, p]) => [w, p.maxConnections])
+    ),
+    "",
+    renderAssociativeArray(
+      "WORKLOAD_MIN_WAL_MB",
+      workloads.map(([w, p]) => [w, p.minWalSizeMB])
+    ),
+    "",
+    renderAssociativeArray(
+      "WORKLOAD_MAX_WAL_MB",
+      workloads.map(([w, p]) => [w, p.maxWalSizeMB])
+    ),
+    "",
+    "# Storage type lookup tables",
+    renderAssociativeArray(
+      "STORAGE_RANDOM_COST",
+      storages.map(([s, p]) => [s, p.randomPageCost])
+    ),
+    "",
+    renderAssociativeArray(
+      "STORAGE_IO_CONCURRENCY",
+      storages.map(([s, p]) => [s, p.ioConcurrency])
+    ),
+    "",
+    renderAssociativeArray(
+      "STORAGE_MAINT_IO_CONCURRENCY",
+      storages.map(([s, p]) => [s, p.maintIoConcurrency])
+    ),
+  ].join("\n");
+}
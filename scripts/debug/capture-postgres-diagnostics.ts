@@ -38,7 +38,8 @@
  *     --stack-tail 500
  *
  * What gets collected:
- *   1. Container logs (docker logs)
+ *   1. Container logs (docker logs), with errors summarized by SQLSTATE when the container
+ *      logs JSON (POSTGRES_LOG_FORMAT=json)
  *   2. PostgreSQL configuration (SHOW ALL)
  *   3. Shared preload libraries (SHOW shared_preload_libraries)
  *   4. Extension catalog (pg_available_extensions)
@@ -55,6 +56,11 @@ import { join } from "node:path";
 import { error, success, info, warning, section } from "../utils/logger";
 import { getErrorMessage } from "../utils/errors";
 import { isDockerDaemonRunning } from "../utils/docker";
+import {
+  formatSqlstateSummary,
+  parseJsonLog,
+  summarizeErrorsBySqlstate,
+} from "./postgres-json-log";
 
 interface Options {
   container: string;
@@ -93,7 +99,7 @@ Examples:
     --include-stack-logs
 
 What gets collected:
-  - Container logs
+  - Container logs (errors by SQLSTATE too, with POSTGRES_LOG_FORMAT=json)
   - PostgreSQL configuration (SHOW ALL)
   - Shared preload libraries
   - Extension catalog
@@ -315,6 +321,17 @@ async function main(): Promise<void> {
     containerLogs
   );
 
+  // JSON logs (POSTGRES_LOG_FORMAT=json) carry the SQLSTATE of every error
+  const jsonLogEntries = parseJsonLog(containerLogs ?? "");
+  if (jsonLogEntries.length > 0) {
+    info(`Summarizing ${jsonLogEntries.length} JSON log entries by SQLSTATE...`);
+    await writeDiagnostic(
+      join(options.outputDir, "log-errors-by-sqlstate.txt"),
+      "Log Errors by SQLSTATE",
+      formatSqlstateSummary(summarizeErrorsBySqlstate(jsonLogEntries), jsonLogEntries.length)
+    );
+  }
+
   // 2. PostgreSQL configuration (SHOW ALL)
   info("Capturing PostgreSQL configuration...");
   const pgConfig = await execCapture(
@@ -402,6 +419,7 @@ async function main(): Promise<void> {
   info("Captured files:");
   const files = [
     "container-logs.txt",
+    ...(jsonLogEntries.length > 0 ? ["log-errors-by-sqlstate.txt"] : []),
     "postgres-config.txt",
     "shared-preload.txt",
     "extensions.txt",
@@ -0,0 +1,118 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  describeSqlstate,
+  formatSqlstateSummary,
+  parseJsonLog,
+  parseJsonLogLine,
+  summarizeErrorsBySqlstate,
+} from "./postgres-json-log";
+
+function line(fields: Record<string, unknown>): string {
+  return JSON.stringify({ pid: 42, backend_type: "client backend", ...fields });
+}
+
+const LOG = [
+  "[POSTGRES] [AUTO-CONFIG] JSON log mode → log_destination=jsonlog via the logging collector",
+  line({
+    timestamp: "2026-10-19 10:00:00.000 UTC",
+    error_severity: "LOG",
+    state_code: "00000",
+    message: "database system is ready to accept connections",
+  }),
+  line({
+    timestamp: "2026-10-19 10:01:00.000 UTC",
+    error_severity: "ERROR",
+    state_code: "23505",
+    message: 'duplicate key value violates unique constraint "users_email_key"',
+  }),
+  line({
+    timestamp: "2026-10-19 10:02:00.000 UTC",
+    error_severity: "FATAL",
+    state_code: "28P01",
+    message: 'password authentication failed for user "app"',
+  }),
+  "{not json",
+  line({
+    timestamp: "2026-10-19 10:03:00.000 UTC",
+    error_severity: "ERROR",
+    state_code: "23505",
+    message: 'duplicate key value violates unique constraint "orders_pkey"',
+  }),
+  "",
+].join("\n");
+
+describe("parseJsonLogLine", () => {
+  test("parses jsonlog entries", () => {
+    const entry = parseJsonLogLine(
+      `  ${line({ timestamp: "t", error_severity: "LOG", message: "m" })}`
+    );
+    expect(entry?.error_severity).toBe("LOG");
+    expect(entry?.pid).toBe(42);
+  });
+
+  test("skips text lines and other JSON", () => {
+    expect(parseJsonLogLine("2026-10-19 10:00:00 UTC [1]: LOG: ready")).toBeNull();
+    expect(parseJsonLogLine("{not json")).toBeNull();
+    expect(parseJsonLogLine('{"level":"info","msg":"other tool"}')).toBeNull();
+  });
+});
+
+describe("summarizeErrorsBySqlstate", () => {
+  test("groups ERROR/FATAL/PANIC by code, most frequent first", () => {
+    const entries = parseJsonLog(LOG);
+    expect(entries).toHaveLength(4);
+
+    const summaries = summarizeErrorsBySqlstate(entries);
+    expect(summaries.map((s) => [s.stateCode, s.count])).toEqual([
+      ["23505", 2],
+      ["28P01", 1],
+    ]);
+    expect(summaries[0]).toMatchObject({
+      description: "unique_violation (Integrity Constraint Violation)",
+      severities: { ERROR: 2 },
+      firstSeen: "2026-10-19 10:01:00.000 UTC",
+      lastSeen: "2026-10-19 10:03:00.000 UTC",
+      sampleMessage: 'duplicate key value violates unique constraint "orders_pkey"',
+    });
+    expect(summaries[1]?.severities).toEqual({ FATAL: 1 });
+  });
+
+  test("takes the severities to count", () => {
+    const summaries = summarizeErrorsBySqlstate(parseJsonLog(LOG), ["LOG"]);
+    expect(summaries.map((s) => s.stateCode)).toEqual(["00000"]);
+  });
+
+  test("groups entries without a SQLSTATE together", () => {
+    const summaries = summarizeErrorsBySqlstate([
+      { timestamp: "t", error_severity: "PANIC", message: "could not write" },
+    ]);
+    expect(summaries[0]).toMatchObject({ stateCode: "", description: "No SQLSTATE", count: 1 });
+  });
+});
+
+describe("describeSqlstate", () => {
+  test("names well-known conditions and falls back to the class", () => {
+    expect(describeSqlstate("40P01")).toBe("deadlock_detected (Transaction Rollback)");
+    expect(describeSqlstate("42P10")).toBe("Syntax Error or Access Rule Violation");
+    expect(describeSqlstate("ZZ999")).toBe("Unknown class");
+  });
+});
+
+describe("formatSqlstateSummary", () => {
+  test("renders one block per code", () => {
+    const entries = parseJsonLog(LOG);
+    const report = formatSqlstateSummary(summarizeErrorsBySqlstate(entries), entries.length);
+    expect(report).toStartWith(
+      "4 JSON log entries, 3 at ERROR/FATAL/PANIC across 2 SQLSTATE codes\n"
+    );
+    expect(report).toContain(
+      [
+        "23505  unique_violation (Integrity Constraint Violation)",
+        "  2 ERROR, 2026-10-19 10:01:00.000 UTC → 2026-10-19 10:03:00.000 UTC",
+        '  last: duplicate key value violates unique constraint "orders_pkey"',
+      ].join("\n")
+    );
+    expect(report).toContain("28P01  invalid_password (Invalid Authorization Specification)");
+  });
+});
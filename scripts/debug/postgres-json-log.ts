@@ -0,0 +1,244 @@
+/**
+ * PostgreSQL jsonlog parsing (POSTGRES_LOG_FORMAT=json)
+ *
+ * Reads `docker logs` output of a container in JSON log mode and summarizes its errors by
+ * SQLSTATE. Lines that are not jsonlog entries (entrypoint output, initdb, text from before the
+ * switch) are skipped, so mixed logs parse fine.
+ *
+ * Used by scripts/debug/capture-postgres-diagnostics.ts.
+ */
+
+/**
+ * One jsonlog line; PostgreSQL omits empty fields
+ * (https://www.postgresql.org/docs/current/runtime-config-logging.html#RUNTIME-CONFIG-LOGGING-JSONLOG)
+ */
+export interface JsonLogEntry {
+  timestamp: string;
+  error_severity: string;
+  message: string;
+  state_code?: string;
+  user?: string;
+  dbname?: string;
+  pid?: number;
+  application_name?: string;
+  backend_type?: string;
+  detail?: string;
+  hint?: string;
+  context?: string;
+  statement?: string;
+  query_id?: number;
+}
+
+export interface SqlstateSummary {
+  /** Five-character SQLSTATE, or "" when the entry had none */
+  stateCode: string;
+  /** Condition name for well-known codes, otherwise the class name */
+  description: string;
+  count: number;
+  /** Count per severity, e.g. { ERROR: 3, FATAL: 1 } */
+  severities: Record<string, number>;
+  firstSeen: string;
+  lastSeen: string;
+  /** Message of the most recent entry */
+  sampleMessage: string;
+}
+
+/** Severities that abort a statement or session */
+export const ERROR_SEVERITIES: readonly string[] = ["ERROR", "FATAL", "PANIC"];
+
+/** SQLSTATE classes (first two characters), from the PostgreSQL error codes appendix */
+const SQLSTATE_CLASSES: Record<string, string> = {
+  "00": "Successful Completion",
+  "01": "Warning",
+  "02": "No Data",
+  "03": "SQL Statement Not Yet Complete",
+  "08": "Connection Exception",
+  "09": "Triggered Action Exception",
+  "0A": "Feature Not Supported",
+  "0B": "Invalid Transaction Initiation",
+  "0F": "Locator Exception",
+  "0L": "Invalid Grantor",
+  "0P": "Invalid Role Specification",
+  "0Z": "Diagnostics Exception",
+  "20": "Case Not Found",
+  "21": "Cardinality Violation",
+  "22": "Data Exception",
+  "23": "Integrity Constraint Violation",
+  "24": "Invalid Cursor State",
+  "25": "Invalid Transaction State",
+  "26": "Invalid SQL Statement Name",
+  "27": "Triggered Data Change Violation",
+  "28": "Invalid Authorization Specification",
+  "2B": "Dependent Privilege Descriptors Still Exist",
+  "2D": "Invalid Transaction Termination",
+  "2F": "SQL Routine Exception",
+  "34": "Invalid Cursor Name",
+  "38": "External Routine Exception",
+  "39": "External Routine Invocation Exception",
+  "3B": "Savepoint Exception",
+  "3D": "Invalid Catalog Name",
+  "3F": "Invalid Schema Name",
+  "40": "Transaction Rollback",
+  "42": "Syntax Error or Access Rule Violation",
+  "44": "WITH CHECK OPTION Violation",
+  "53": "Insufficient Resources",
+  "54": "Program Limit Exceeded",
+  "55": "Object Not In Prerequisite State",
+  "57": "Operator Intervention",
+  "58": "System Error",
+  "72": "Snapshot Failure",
+  F0: "Configuration File Error",
+  HV: "Foreign Data Wrapper Error",
+  P0: "PL/pgSQL Error",
+  XX: "Internal Error",
+};
+
+/** Condition names of the codes that show up most in production logs */
+const SQLSTATE_CONDITIONS: Record<string, string> = {
+  "08006": "connection_failure",
+  "08P01": "protocol_violation",
+  "0A000": "feature_not_supported",
+  "22001": "string_data_right_truncation",
+  "22003": "numeric_value_out_of_range",
+  "22P02": "invalid_text_representation",
+  "23502": "not_null_violation",
+  "23503": "foreign_key_violation",
+  "23505": "unique_violation",
+  "23514": "check_violation",
+  "25P02": "in_failed_sql_transaction",
+  "28000": "invalid_authorization_specification",
+  "28P01": "invalid_password",
+  "3D000": "invalid_catalog_name",
+  "3F000": "invalid_schema_name",
+  "40001": "serialization_failure",
+  "40P01": "deadlock_detected",
+  "42501": "insufficient_privilege",
+  "42601": "syntax_error",
+  "42703": "undefined_column",
+  "42883": "undefined_function",
+  "42P01": "undefined_table",
+  "53100": "disk_full",
+  "53200": "out_of_memory",
+  "53300": "too_many_connections",
+  "55P03": "lock_not_available",
+  "57014": "query_canceled",
+  "57P01": "admin_shutdown",
+  "57P03": "cannot_connect_now",
+  "58P01": "undefined_file",
+  XX000: "internal_error",
+  XX001: "data_corrupted",
+};
+
+/**
+ * Describe a SQLSTATE: its condition name when well known, otherwise its class
+ *
+ * @example
+ * describeSqlstate("23505") // "unique_violation (Integrity Constraint Violation)"
+ * describeSqlstate("42P10") // "Syntax Error or Access Rule Violation"
+ */
+export function describeSqlstate(stateCode: string): string {
+  const className = SQLSTATE_CLASSES[stateCode.slice(0, 2)] ?? "Unknown class";
+  const condition = SQLSTATE_CONDITIONS[stateCode];
+  return condition ? `${condition} (${className})` : className;
+}
+
+/**
+ * Parse one log line as a jsonlog entry
+ *
+ * @returns The entry, or null for any other line
+ */
+export function parseJsonLogLine(line: string): JsonLogEntry | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith("{")) {
+    return null;
+  }
+  try {
+    const entry: unknown = JSON.parse(trimmed);
+    if (
+      typeof entry === "object" &&
+      entry !== null &&
+      typeof (entry as JsonLogEntry).error_severity === "string" &&
+      typeof (entry as JsonLogEntry).message === "string"
+    ) {
+      return entry as JsonLogEntry;
+    }
+  } catch {
+    // Not JSON, e.g. a text line starting with a brace
+  }
+  return null;
+}
+
+/**
+ * Parse the jsonlog entries of a log, skipping every other line
+ */
+export function parseJsonLog(text: string): JsonLogEntry[] {
+  return text
+    .split("\n")
+    .map(parseJsonLogLine)
+    .filter((entry): entry is JsonLogEntry => entry !== null);
+}
+
+/**
+ * Group the entries of the given severities by SQLSTATE, most frequent first
+ */
+export function summarizeErrorsBySqlstate(
+  entries: readonly JsonLogEntry[],
+  severities: readonly string[] = ERROR_SEVERITIES
+): SqlstateSummary[] {
+  const byCode = new Map<string, SqlstateSummary>();
+
+  for (const entry of entries) {
+    if (!severities.includes(entry.error_severity)) {
+      continue;
+    }
+    const stateCode = entry.state_code ?? "";
+    let summary = byCode.get(stateCode);
+    if (!summary) {
+      summary = {
+        stateCode,
+        description: stateCode ? describeSqlstate(stateCode) : "No SQLSTATE",
+        count: 0,
+        severities: {},
+        firstSeen: entry.timestamp,
+        lastSeen: entry.timestamp,
+        sampleMessage: entry.message,
+      };
+      byCode.set(stateCode, summary);
+    }
+    summary.count++;
+    summary.severities[entry.error_severity] = (summary.severities[entry.error_severity] ?? 0) + 1;
+    summary.lastSeen = entry.timestamp;
+    summary.sampleMessage = entry.message;
+  }
+
+  return [...byCode.values()].sort(
+    (a, b) => b.count - a.count || a.stateCode.localeCompare(b.stateCode)
+  );
+}
+
+/**
+ * Render the summaries as a plain-text report
+ */
+export function formatSqlstateSummary(
+  summaries: readonly SqlstateSummary[],
+  entryCount: number
+): string {
+  const errorCount = summaries.reduce((sum, s) => sum + s.count, 0);
+  const lines = [
+    `${entryCount} JSON log entries, ${errorCount} at ${ERROR_SEVERITIES.join("/")} across ${summaries.length} SQLSTATE codes`,
+  ];
+
+  for (const summary of summaries) {
+    const severities = Object.entries(summary.severities)
+      .map(([severity, count]) => `${count} ${severity}`)
+      .join(", ");
+    lines.push(
+      "",
+      `${summary.stateCode || "-----"}  ${summary.description}`,
+      `  ${severities}, ${summary.firstSeen} → ${summary.lastSeen}`,
+      `  last: ${summary.sampleMessage}`
+    );
+  }
+
+  return lines.join("\n") + "\n";
+}
@@ -8,34 +8,49 @@
  * ARG Strategy:
  * - All version dependencies are HARDCODED at generation time (PG_VERSION, PG_MAJOR, PG_BASE_IMAGE_SHA, PGDG versions)
  * - Only BUILD_DATE and VCS_REF remain as ARGs WITHOUT defaults (required at build time)
- * - To test different versions: update extension-defaults.ts and regenerate
+ * - To test different versions: update manifest-data.ts and regenerate
+ *
+ * Version matrix:
+ * - One production Dockerfile per PG_VERSION_MATRIX major (see scripts/extensions/pg-version-matrix.ts)
+ * - Primary major: docker/postgres/Dockerfile (+ regression.Dockerfile)
+ * - Additional majors: docker/postgres/pg<major>/Dockerfile with that major's resolved manifests
  *
  * Placeholders:
  * - {{PG_VERSION}} - PostgreSQL version (hardcoded, e.g., "18.1")
  * - {{PG_MAJOR}} - PostgreSQL major version (hardcoded, extracted from PG_VERSION, e.g., "18")
- * - {{PG_BASE_IMAGE_SHA}} - Base image SHA256 (hardcoded)
+ * - {{PG_BASE_IMAGE_SHA}} - Base image SHA256 (hardcoded; FROM falls back to the bare tag when a major has no pin)
+ * - {{MANIFEST_DIR}} - Directory holding the major's extensions*.manifest.json files
+ * - {{RUNTIME_DIR}} - Directory holding healthcheck.sh, the entrypoint and docker-entrypoint-initdb.d/
+ *   (docker/postgres for every major; build profiles point it at their own output directory)
  * - {{PGDG_PACKAGES_INSTALL}} - Dynamic PGDG package installation (hardcoded versions)
  * - {{PGDG_PACKAGES_INSTALL_REGRESSION}} - Regression mode PGDG package installation (all extensions)
  * - {{VERSION_INFO_GENERATION}} - Version info generation script
  *
+ * Build profiles (scripts/docker/generate-profile.ts) reuse renderProductionDockerfile() with
+ * a profile manifest, so a slimmed image installs only the profile's extensions.
+ *
  * Usage:
  *   bun scripts/docker/generate-dockerfile.ts
  */
 
 import { join } from "node:path";
-import { extensionDefaults } from "../extension-defaults";
-import { PGDG_MAPPINGS } from "../extensions/pgdg-mappings";
-import { error, info, section, success } from "../utils/logger";
+import { MANIFEST_ENTRIES } from "../extensions/manifest-data";
+import type { PgMajorOverride } from "../extensions/manifest-data";
+import { getPgdgAptPackage, PGDG_MAPPINGS } from "../extensions/pgdg-mappings";
+import {
+  getPgVersionMatrix,
+  resolveEntriesForPgMajor,
+  validatePgVersionMatrix,
+  type ResolvedPgTarget,
+} from "../extensions/pg-version-matrix";
+import { error, info, section, success, warning } from "../utils/logger";
 
 // Paths
 const REPO_ROOT = join(import.meta.dir, "../..");
 const TEMPLATE_PATH = join(REPO_ROOT, "docker/postgres/Dockerfile.template");
-const OUTPUT_PATH = join(REPO_ROOT, "docker/postgres/Dockerfile");
 const REGRESSION_TEMPLATE_PATH = join(REPO_ROOT, "docker/postgres/regression.Dockerfile.template");
 const REGRESSION_OUTPUT_PATH = join(REPO_ROOT, "docker/postgres/regression.Dockerfile");
 const MANIFEST_PATH = join(REPO_ROOT, "docker/postgres/extensions.manifest.json");
-const PGXS_MANIFEST_PATH = join(REPO_ROOT, "docker/postgres/extensions.pgxs.manifest.json");
-const CARGO_MANIFEST_PATH = join(REPO_ROOT, "docker/postgres/extensions.cargo.manifest.json");
 
 // PGDG_MAPPINGS imported from shared module (scripts/extensions/pgdg-mappings.ts)
 // This eliminates duplication with validate-pgdg-versions.ts
@@ -70,6 +85,9 @@ interface ManifestEntry {
   githubAssetPattern?: string;
   enabled?: boolean;
   enabledInComprehensiveTest?: boolean;
+  disabledReason?: string;
+  notes?: string[];
+  pgMajors?: Record<string, PgMajorOverride>;
   build?: BuildSpec;
   runtime?: {
     sharedPreload?: boolean;
@@ -78,15 +96,20 @@ interface ManifestEntry {
     preloadLibraryName?: string;
   };
   source: {
+    type: string;
+    repository?: string;
     tag?: string;
     ref?: string;
   };
 }
 
-interface Manifest {
+export interface Manifest {
   entries: ManifestEntry[];
 }
 
+/** Runtime files directory used by the matrix Dockerfiles */
+const DEFAULT_RUNTIME_DIR = "docker/postgres";
+
 /**
  * Validate package names to ensure they only contain safe characters
  * This prevents shell injection via SC2046/SC2086 word-splitting patterns
@@ -106,6 +129,19 @@ function validatePackageName(packageName: string, context: string): void {
   }
 }
 
+/**
+ * Get the pinned PGDG version of an entry (resolved for the target major)
+ */
+function requirePgdgVersion(entry: ManifestEntry, pgMajor: string): string {
+  if (!entry.pgdgVersion) {
+    throw new Error(
+      `PGDG entry "${entry.name}" missing required pgdgVersion for PostgreSQL ${pgMajor}.\n` +
+        `Add pgdgVersion (or pgMajors["${pgMajor}"].pgdgVersion) to the manifest entry.`
+    );
+  }
+  return entry.pgdgVersion;
+}
+
 /**
  * Read and parse manifest
  */
@@ -129,17 +165,14 @@ function generatePgdgPackagesInstall(manifest: Manifest, pgMajor: string): strin
     const entry = manifest.entries.find((e) => e.name === mapping.manifestName);
     // Check if entry exists, is PGDG, and is enabled (default true)
     if (entry && entry.install_via === "pgdg" && (entry.enabled ?? true)) {
-      // Package is enabled - use hardcoded version from extensionDefaults
-      const version =
-        extensionDefaults.pgdgVersions[
-          mapping.versionKey as keyof typeof extensionDefaults.pgdgVersions
-        ];
+      // Package is enabled - use the version pinned for this major
+      const version = requirePgdgVersion(entry, pgMajor);
 
       // Validate package name and version for shell safety (SC2046/SC2086 protection)
       validatePackageName(mapping.packageName, `PGDG package name (${mapping.manifestName})`);
       validatePackageName(version, `PGDG version (${mapping.manifestName})`);
 
-      enabledPgdgPackages.push(`postgresql-${pgMajor}-${mapping.packageName}=${version}`);
+      enabledPgdgPackages.push(`${getPgdgAptPackage(mapping.manifestName, pgMajor)}=${version}`);
     }
   }
 
@@ -450,17 +483,13 @@ function generatePgdgPackagesInstallRegression(manifest: Manifest, pgMajor: stri
     if (entry && entry.install_via === "pgdg") {
       const shouldInclude = (entry.enabled ?? true) || entry.enabledInComprehensiveTest === true;
       if (shouldInclude) {
-        // Use hardcoded version from extensionDefaults
-        const version =
-          extensionDefaults.pgdgVersions[
-            mapping.versionKey as keyof typeof extensionDefaults.pgdgVersions
-          ];
+        const version = requirePgdgVersion(entry, pgMajor);
 
         // Validate package name and version for shell safety
         validatePackageName(mapping.packageName, `PGDG package name (${mapping.manifestName})`);
         validatePackageName(version, `PGDG version (${mapping.manifestName})`);
 
-        allPgdgPackages.push(`postgresql-${pgMajor}-${mapping.packageName}=${version}`);
+        allPgdgPackages.push(`${getPgdgAptPackage(mapping.manifestName, pgMajor)}=${version}`);
       }
     }
   }
@@ -672,7 +701,7 @@ ${installCommands} && \\
  * Includes: pgxs, autotools, cmake, meson, make, timescaledb (build type)
  * Excludes: entries with install_via === "pgdg", "percona", "timescale", or "github-release"
  */
-function generatePgxsManifest(manifest: Manifest): Manifest {
+export function generatePgxsManifest(manifest: Manifest): Manifest {
   const pgxsBuildTypes = ["pgxs", "autotools", "cmake", "meson", "make", "timescaledb"];
   const filteredEntries = manifest.entries.filter(
     (entry) =>
@@ -694,7 +723,7 @@ function generatePgxsManifest(manifest: Manifest): Manifest {
  * Includes: cargo-pgrx
  * Excludes: entries with install_via === "pgdg", "percona", "timescale", or "github-release"
  */
-function generateCargoManifest(manifest: Manifest): Manifest {
+export function generateCargoManifest(manifest: Manifest): Manifest {
   const filteredEntries = manifest.entries.filter(
     (entry) =>
       entry.build &&
@@ -710,18 +739,6 @@ function generateCargoManifest(manifest: Manifest): Manifest {
   };
 }
 
-/**
- * Extract PG_MAJOR from PG_VERSION (e.g., "18.1" -> "18")
- */
-function extractPgMajor(): string {
-  const pgVersion = extensionDefaults.pgVersion;
-  const majorVersion = pgVersion.split(".")[0];
-  if (!majorVersion) {
-    throw new Error(`Could not extract major version from PG_VERSION: ${pgVersion}`);
-  }
-  return majorVersion;
-}
-
 /**
  * Generate version info generation instructions
  * Uses a separate builder stage with Bun to generate version files
@@ -748,9 +765,32 @@ function generateVersionInfoGeneration(_manifest: Manifest): string {
 }
 
 /**
- * Generate production Dockerfile from template
+ * Replace the PostgreSQL version placeholders shared by both templates
+ */
+function replaceVersionPlaceholders(dockerfile: string, target: ResolvedPgTarget): string {
+  let result = dockerfile;
+  if (!target.baseImageSha) {
+    // Unpinned additional major: build from the version tag until a digest is pinned
+    result = result.replace(/@\{\{PG_BASE_IMAGE_SHA\}\}/g, "");
+  }
+  result = result.replace(/\{\{PG_VERSION\}\}/g, target.pgVersion);
+  result = result.replace(/\{\{PG_MAJOR\}\}/g, target.pgMajor);
+  result = result.replace(/\{\{PG_BASE_IMAGE_SHA\}\}/g, target.baseImageSha ?? "");
+  return result.replace(/\{\{MANIFEST_DIR\}\}/g, target.artifactDir);
+}
+
+/**
+ * Render the production Dockerfile for a manifest and target
+ *
+ * @param runtimeDir - Repo-relative directory the runtime files are copied from
  */
-async function generateProductionDockerfile(manifest: Manifest, pgMajor: string): Promise<void> {
+export async function renderProductionDockerfile(
+  manifest: Manifest,
+  target: ResolvedPgTarget,
+  runtimeDir: string = DEFAULT_RUNTIME_DIR
+): Promise<string> {
+  const pgMajor = target.pgMajor;
+
   // Read template
   info("Reading production template...");
   if (!(await Bun.file(TEMPLATE_PATH).exists())) {
@@ -780,9 +820,8 @@ async function generateProductionDockerfile(manifest: Manifest, pgMajor: string)
 
   // Replace placeholders
   info("Replacing placeholders...");
-  dockerfile = dockerfile.replace(/\{\{PG_VERSION\}\}/g, extensionDefaults.pgVersion);
-  dockerfile = dockerfile.replace(/\{\{PG_MAJOR\}\}/g, pgMajor);
-  dockerfile = dockerfile.replace(/\{\{PG_BASE_IMAGE_SHA\}\}/g, extensionDefaults.baseImageSha);
+  dockerfile = replaceVersionPlaceholders(dockerfile, target);
+  dockerfile = dockerfile.replace(/\{\{RUNTIME_DIR\}\}/g, runtimeDir);
   dockerfile = dockerfile.replace("{{PGDG_PACKAGES_INSTALL}}", pgdgPackagesInstall);
   dockerfile = dockerfile.replace("{{PERCONA_PACKAGES_INSTALL}}", perconaPackagesInstall);
   dockerfile = dockerfile.replace("{{TIMESCALE_PACKAGES_INSTALL}}", timescalePackagesInstall);
@@ -794,16 +833,27 @@ async function generateProductionDockerfile(manifest: Manifest, pgMajor: string)
   const header = `# AUTO-GENERATED FILE - DO NOT EDIT
 # Generator: scripts/docker/generate-dockerfile.ts
 # Template: docker/postgres/Dockerfile.template
-# Manifest: docker/postgres/extensions.manifest.json
+# Manifest: ${target.artifactDir}/extensions.manifest.json
 # To regenerate: bun run generate
 
 `;
 
-  dockerfile = header + dockerfile;
+  return header + dockerfile;
+}
+
+/**
+ * Generate production Dockerfile from template
+ */
+async function generateProductionDockerfile(
+  manifest: Manifest,
+  target: ResolvedPgTarget
+): Promise<void> {
+  const outputPath = join(REPO_ROOT, target.artifactDir, "Dockerfile");
+  const dockerfile = await renderProductionDockerfile(manifest, target);
 
   // Write output
-  info(`Writing production Dockerfile to ${OUTPUT_PATH}...`);
-  await Bun.write(OUTPUT_PATH, dockerfile);
+  info(`Writing production Dockerfile to ${outputPath}...`);
+  await Bun.write(outputPath, dockerfile);
 
   success("Production Dockerfile generated successfully!");
 }
@@ -811,7 +861,11 @@ async function generateProductionDockerfile(manifest: Manifest, pgMajor: string)
 /**
  * Generate regression test Dockerfile from template
  */
-async function generateRegressionDockerfile(manifest: Manifest, pgMajor: string): Promise<void> {
+async function generateRegressionDockerfile(
+  manifest: Manifest,
+  target: ResolvedPgTarget
+): Promise<void> {
+  const pgMajor = target.pgMajor;
   // Read template
   info("Reading regression template...");
   if (!(await Bun.file(REGRESSION_TEMPLATE_PATH).exists())) {
@@ -832,9 +886,7 @@ async function generateRegressionDockerfile(manifest: Manifest, pgMajor: string)
 
   // Replace placeholders
   info("Replacing placeholders...");
-  dockerfile = dockerfile.replace(/\{\{PG_VERSION\}\}/g, extensionDefaults.pgVersion);
-  dockerfile = dockerfile.replace(/\{\{PG_MAJOR\}\}/g, pgMajor);
-  dockerfile = dockerfile.replace(/\{\{PG_BASE_IMAGE_SHA\}\}/g, extensionDefaults.baseImageSha);
+  dockerfile = replaceVersionPlaceholders(dockerfile, target);
   dockerfile = dockerfile.replace(
     "{{PGDG_PACKAGES_INSTALL_REGRESSION}}",
     pgdgPackagesInstallRegression
@@ -861,15 +913,13 @@ async function generateRegressionDockerfile(manifest: Manifest, pgMajor: string)
 }
 
 /**
- * Generate both Dockerfiles from templates
+ * Write a major's filtered manifests (and, for additional majors, its full manifest)
  */
-async function generateDockerfile(): Promise<void> {
-  section("Dockerfile Generation");
-
-  // Read manifest
-  info("Reading manifest...");
-  const manifest = await readManifest();
-  info(`Manifest loaded: ${manifest.entries.length} total entries`);
+async function writeTargetManifests(manifest: Manifest, target: ResolvedPgTarget): Promise<void> {
+  const dir = join(REPO_ROOT, target.artifactDir);
+  const pgxsManifestPath = join(dir, "extensions.pgxs.manifest.json");
+  const cargoManifestPath = join(dir, "extensions.cargo.manifest.json");
+  const written = [pgxsManifestPath, cargoManifestPath];
 
   // Generate filtered manifests
   info("Generating filtered manifests...");
@@ -878,34 +928,71 @@ async function generateDockerfile(): Promise<void> {
   info(`PGXS manifest: ${pgxsManifest.entries.length} entries`);
   info(`Cargo manifest: ${cargoManifest.entries.length} entries`);
 
-  // Write filtered manifests (unformatted first)
+  // Write manifests (unformatted first)
   info("Writing filtered manifests...");
-  await Bun.write(PGXS_MANIFEST_PATH, JSON.stringify(pgxsManifest, null, 2));
-  await Bun.write(CARGO_MANIFEST_PATH, JSON.stringify(cargoManifest, null, 2));
+  if (!target.primary) {
+    // Primary extensions.manifest.json is written by generate-manifest.ts
+    const manifestPath = join(dir, "extensions.manifest.json");
+    await Bun.write(manifestPath, JSON.stringify(manifest, null, 2) + "\n");
+    written.push(manifestPath);
+  }
+  await Bun.write(pgxsManifestPath, JSON.stringify(pgxsManifest, null, 2));
+  await Bun.write(cargoManifestPath, JSON.stringify(cargoManifest, null, 2));
 
   // Format with Prettier for consistency
-  info("Formatting filtered manifests with Prettier...");
+  info("Formatting manifests with Prettier...");
   try {
-    await Bun.$`bun run prettier:write ${PGXS_MANIFEST_PATH} ${CARGO_MANIFEST_PATH}`.quiet();
-    success(`Filtered manifests written and formatted`);
+    await Bun.$`bun run prettier:write ${written}`.quiet();
+    success(`Manifests written and formatted`);
   } catch {
     // Non-critical - manifests are valid JSON even if not formatted
     info("Note: Could not format with Prettier (not critical)");
   }
+}
 
-  // Extract PG_MAJOR
-  info("Extracting PG_MAJOR...");
-  const pgMajor = extractPgMajor();
+/**
+ * Generate Dockerfiles for every major in the version matrix
+ */
+async function generateDockerfile(): Promise<void> {
+  section("Dockerfile Generation");
 
-  // Generate production Dockerfile
-  console.log("");
-  section("Production Dockerfile");
-  await generateProductionDockerfile(manifest, pgMajor);
+  // Validate version matrix and per-major overrides
+  const matrixErrors = validatePgVersionMatrix(MANIFEST_ENTRIES);
+  if (matrixErrors.length > 0) {
+    throw new Error(`Invalid PostgreSQL version matrix:\n  ${matrixErrors.join("\n  ")}`);
+  }
+  const targets = getPgVersionMatrix();
+  info(`Version matrix: ${targets.map((t) => t.pgVersion).join(", ")}`);
 
-  // Generate regression Dockerfile
-  console.log("");
-  section("Regression Dockerfile");
-  await generateRegressionDockerfile(manifest, pgMajor);
+  // Read manifest
+  info("Reading manifest...");
+  const manifest = await readManifest();
+  info(`Manifest loaded: ${manifest.entries.length} total entries`);
+
+  for (const target of targets) {
+    const targetManifest: Manifest = {
+      entries: resolveEntriesForPgMajor(manifest.entries, target.pgMajor),
+    };
+
+    console.log("");
+    section(`PostgreSQL ${target.pgVersion} (${target.artifactDir})`);
+    if (!target.baseImageSha) {
+      warning(
+        `PostgreSQL ${target.pgMajor} has no baseImageSha pin; FROM uses the postgres:${target.pgVersion}-trixie tag`
+      );
+    }
+    await writeTargetManifests(targetManifest, target);
+
+    // Generate production Dockerfile
+    await generateProductionDockerfile(targetManifest, target);
+
+    // Regression image is built for the primary major only
+    if (target.primary) {
+      console.log("");
+      section("Regression Dockerfile");
+      await generateRegressionDockerfile(targetManifest, target);
+    }
+  }
 
   // Print stats
   console.log("");
@@ -923,6 +1010,7 @@ async function generateDockerfile(): Promise<void> {
   info(`PGDG extensions: ${enabledPgdg} enabled, ${disabledPgdg} disabled`);
   info(`Regression-only extensions: ${regressionOnlyPgdg}`);
   info(`Total extensions: ${manifest.entries.length}`);
+  info(`PostgreSQL majors: ${targets.map((t) => t.pgMajor).join(", ")}`);
   console.log("");
   success("All Dockerfiles generated successfully!");
 }
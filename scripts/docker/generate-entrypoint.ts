@@ -8,6 +8,12 @@
  * Placeholders:
  * - {{DEFAULT_SHARED_PRELOAD_LIBRARIES}} - Comma-separated list of extensions
  *   where runtime.sharedPreload == true AND runtime.defaultEnable == true AND enabled != false
+ * - {{AUTO_CONFIG_TUNING_TABLES}} - Tuning caps and workload/storage lookup tables
+ *   rendered from scripts/config/tuning.ts
+ * - {{EXTENSION_PROFILE_TABLES}} - Runtime extension profiles (POSTGRES_EXTENSION_PROFILE)
+ *   resolved by scripts/extensions/runtime-profiles.ts
+ * - {{JSON_LOG_SETTINGS}} - Logging collector settings of POSTGRES_LOG_FORMAT=json
+ *   from scripts/config-generator/logging.ts
  *
  * Usage:
  *   bun scripts/docker/generate-entrypoint.ts
@@ -15,6 +21,15 @@
 
 import { join } from "node:path";
 import { error, info, section, success } from "../utils/logger";
+import { renderBashTuningTables } from "../config/tuning";
+import { renderBashJsonLogSettings } from "../config-generator/logging";
+import { getDefaultEnabledExtensions } from "../config-generator/manifest-loader";
+import type { ManifestEntry as FullManifestEntry } from "../extensions/manifest-data";
+import {
+  renderBashProfileTables,
+  resolveRuntimeProfiles,
+  type RuntimeProfileSet,
+} from "../extensions/runtime-profiles";
 
 // Paths
 const REPO_ROOT = join(import.meta.dir, "../..");
@@ -81,16 +96,30 @@ export function generateDefaultSharedPreloadLibraries(manifest: Manifest): strin
 }
 
 /**
- * Generate entrypoint from template
+ * Resolve the runtime extension profiles of the image built from a manifest
+ *
+ * The `default` profile mirrors the image defaults: the extensions 01-extensions.sql creates
+ * and DEFAULT_SHARED_PRELOAD_LIBRARIES.
  */
-async function generateEntrypoint(): Promise<void> {
-  section("Entrypoint Generation");
-
-  // Read manifest
-  info("Reading manifest...");
-  const manifest = await readManifest();
-  info(`Manifest loaded: ${manifest.entries.length} total entries`);
+export function resolveImageRuntimeProfiles(entries: FullManifestEntry[]): RuntimeProfileSet {
+  return resolveRuntimeProfiles(entries, {
+    extensions: getDefaultEnabledExtensions({ generatedAt: "", entries }).map((e) => e.name),
+    preload: generateDefaultSharedPreloadLibraries({ entries })
+      .split(",")
+      .filter((lib) => lib.length > 0),
+  });
+}
 
+/**
+ * Render the entrypoint from template with the given default preload libraries
+ *
+ * @param defaultPreloadLibs - Comma-separated shared_preload_libraries default
+ * @param runtimeProfiles - Runtime extension profiles baked into the image
+ */
+export async function renderEntrypoint(
+  defaultPreloadLibs: string,
+  runtimeProfiles: RuntimeProfileSet
+): Promise<string> {
   // Read template
   info("Reading template...");
   if (!(await Bun.file(TEMPLATE_PATH).exists())) {
@@ -100,27 +129,60 @@ async function generateEntrypoint(): Promise<void> {
   const templateFile = Bun.file(TEMPLATE_PATH);
   let entrypoint = await templateFile.text();
 
-  // Generate DEFAULT_SHARED_PRELOAD_LIBRARIES
-  info("Generating DEFAULT_SHARED_PRELOAD_LIBRARIES...");
-  const defaultPreloadLibs = generateDefaultSharedPreloadLibraries(manifest);
-  info(`Extensions to preload by default: ${defaultPreloadLibs}`);
-
   // Replace placeholder
   info("Replacing placeholders...");
   entrypoint = entrypoint.replace("{{DEFAULT_SHARED_PRELOAD_LIBRARIES}}", defaultPreloadLibs);
+  entrypoint = entrypoint.replace("{{AUTO_CONFIG_TUNING_TABLES}}", renderBashTuningTables());
+  entrypoint = entrypoint.replace(
+    "{{EXTENSION_PROFILE_TABLES}}",
+    renderBashProfileTables(runtimeProfiles)
+  );
+  entrypoint = entrypoint.replace("{{JSON_LOG_SETTINGS}}", renderBashJsonLogSettings());
 
   // Add generation header
   const header = `#!/bin/bash
 # AUTO-GENERATED FILE - DO NOT EDIT
 # Generator: scripts/docker/generate-entrypoint.ts
 # Template: docker/postgres/docker-auto-config-entrypoint.sh.template
+# Tuning tables: scripts/config/tuning.ts
+# Extension profiles: scripts/extensions/runtime-profiles.ts
+# JSON log settings: scripts/config-generator/logging.ts
 # Manifest: docker/postgres/extensions.manifest.json
 # To regenerate: bun run generate
 
 `;
 
   // Replace the original shebang and add our header
-  entrypoint = entrypoint.replace(/^#!\/bin\/bash\n/, header);
+  return entrypoint.replace(/^#!\/bin\/bash\n/, header);
+}
+
+/**
+ * Generate entrypoint from template
+ */
+async function generateEntrypoint(): Promise<void> {
+  section("Entrypoint Generation");
+
+  // Read manifest
+  info("Reading manifest...");
+  const manifest = await readManifest();
+  info(`Manifest loaded: ${manifest.entries.length} total entries`);
+
+  // Generate DEFAULT_SHARED_PRELOAD_LIBRARIES
+  info("Generating DEFAULT_SHARED_PRELOAD_LIBRARIES...");
+  const defaultPreloadLibs = generateDefaultSharedPreloadLibraries(manifest);
+  info(`Extensions to preload by default: ${defaultPreloadLibs}`);
+
+  info("Resolving runtime extension profiles...");
+  const runtimeProfiles = resolveImageRuntimeProfiles(manifest.entries as FullManifestEntry[]);
+  for (const profile of runtimeProfiles.profiles) {
+    info(
+      profile.unavailableReason
+        ? `Profile ${profile.name}: unavailable (${profile.unavailableReason})`
+        : `Profile ${profile.name}: ${profile.extensions.join(",") || "(no extensions)"}`
+    );
+  }
+
+  const entrypoint = await renderEntrypoint(defaultPreloadLibs, runtimeProfiles);
 
   // Write output
   info(`Writing entrypoint to ${OUTPUT_PATH}...`);
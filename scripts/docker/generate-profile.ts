@@ -0,0 +1,266 @@
+#!/usr/bin/env bun
+/**
+ * Generate build artifacts for a slimmed image from a build profile
+ *
+ * Applies a profile (see scripts/extensions/build-profile.ts) to the primary manifest and
+ * writes a self-contained build directory inside the repository, so it can be used with
+ * the repository root as Docker build context:
+ *
+ *   <output-dir>/
+ *     Dockerfile                        Installs only the profile's extensions
+ *     extensions.manifest.json          Manifest with dropped entries disabled
+ *     extensions.pgxs.manifest.json     Source-build manifests for the builder stages
+ *     extensions.cargo.manifest.json
+ *     docker-auto-config-entrypoint.sh  Profile default shared_preload_libraries and the runtime
+ *                                       extension profiles the slimmed image can still offer
+ *     healthcheck.sh                    Expects the profile's init extensions
+ *     docker-entrypoint-initdb.d/       Generated 01-extensions.sql + applicable init scripts
+ *     profile.json                      Copy of the profile (marks the directory as generated)
+ *
+ * Usually run through `bun scripts/build.ts --profile=PATH`, which builds the result.
+ *
+ * Usage:
+ *   bun scripts/docker/generate-profile.ts --profile=PATH [--output-dir=DIR]
+ */
+
+import { readdir, rm } from "node:fs/promises";
+import { isAbsolute, join, relative, resolve } from "node:path";
+import { generateExtensionsInitScript } from "../config-generator/sql-generator";
+import { generateHealthcheckScript } from "../config-generator/healthcheck-generator";
+import {
+  estimateSizeSavings,
+  includesInitScript,
+  resolveBuildProfile,
+  validateBuildProfile,
+  type ResolvedBuildProfile,
+  type SizeBaseline,
+  type SizeSavings,
+} from "../extensions/build-profile";
+import type { ManifestEntry } from "../extensions/manifest-data";
+import { getPgVersionMatrix } from "../extensions/pg-version-matrix";
+import { resolveRuntimeProfiles } from "../extensions/runtime-profiles";
+import { getErrorMessage } from "../utils/errors";
+import { error, info, section, success, warning } from "../utils/logger";
+import {
+  generateCargoManifest,
+  generatePgxsManifest,
+  renderProductionDockerfile,
+} from "./generate-dockerfile";
+import { renderEntrypoint } from "./generate-entrypoint";
+
+// Paths
+const REPO_ROOT = join(import.meta.dir, "../..");
+const MANIFEST_PATH = join(REPO_ROOT, "docker/postgres/extensions.manifest.json");
+const INIT_SCRIPTS_DIR = join(REPO_ROOT, "docker/postgres/docker-entrypoint-initdb.d");
+const SIZE_BASELINES_PATH = join(REPO_ROOT, "scripts/config/size-baselines.json");
+
+/** Generated by this script, not copied from INIT_SCRIPTS_DIR */
+const EXTENSIONS_INIT_SQL = "01-extensions.sql";
+
+export interface ProfileArtifacts {
+  resolved: ResolvedBuildProfile;
+  /** Repo-relative output directory (Dockerfile is at <outputDir>/Dockerfile) */
+  outputDir: string;
+  savings: SizeSavings;
+  /** Init scripts copied from docker/postgres/docker-entrypoint-initdb.d */
+  initScripts: string[];
+}
+
+/**
+ * Resolve the output directory and make sure it can be (re)written
+ *
+ * @throws Error if the directory is outside the build context or holds other files
+ */
+async function prepareOutputDir(outputDir: string): Promise<string> {
+  const absolute = resolve(REPO_ROOT, outputDir);
+  const relativeDir = relative(REPO_ROOT, absolute);
+  if (relativeDir === "" || relativeDir.startsWith("..") || isAbsolute(relativeDir)) {
+    throw new Error(
+      `Output directory must be inside the repository (Docker build context): ${outputDir}`
+    );
+  }
+
+  // Only clear directories this script generated, never a hand-written one
+  const entries = await readdir(absolute).catch(() => null);
+  if (entries && entries.length > 0) {
+    if (!entries.includes("profile.json")) {
+      throw new Error(
+        `Output directory ${relativeDir} exists and was not generated from a profile`
+      );
+    }
+    await rm(absolute, { recursive: true });
+  }
+
+  return relativeDir;
+}
+
+/**
+ * Generate all build artifacts for a profile
+ *
+ * @param profilePath - Path to the profile JSON file
+ * @param outputDir - Output directory (default: build/profiles/<name>)
+ */
+export async function generateProfileArtifacts(
+  profilePath: string,
+  outputDir?: string
+): Promise<ProfileArtifacts> {
+  section("Build Profile Generation");
+
+  info(`Reading profile ${profilePath}...`);
+  const profileFile = Bun.file(profilePath);
+  if (!(await profileFile.exists())) {
+    throw new Error(`Profile not found: ${profilePath}`);
+  }
+  const profile = validateBuildProfile(await profileFile.json());
+
+  const manifest = (await Bun.file(MANIFEST_PATH).json()) as { entries: ManifestEntry[] };
+  const resolved = resolveBuildProfile(profile, manifest.entries);
+  info(`Profile "${profile.name}": ${resolved.selected.join(", ") || "(builtins only)"}`);
+  info(`Default preload: ${resolved.preloadLibraries.join(",") || "(none)"}`);
+  for (const message of resolved.warnings) {
+    warning(message);
+  }
+
+  const dir = await prepareOutputDir(outputDir ?? `build/profiles/${profile.name}`);
+  const absoluteDir = join(REPO_ROOT, dir);
+  info(`Output directory: ${dir}`);
+
+  // Manifests (profiles always build the primary major)
+  const primary = getPgVersionMatrix()[0];
+  if (!primary) {
+    throw new Error("PG_VERSION_MATRIX is empty");
+  }
+  const target = { ...primary, artifactDir: dir };
+  const profileManifest = { ...manifest, entries: resolved.entries };
+  await Bun.write(
+    join(absoluteDir, "extensions.manifest.json"),
+    JSON.stringify(profileManifest, null, 2) + "\n"
+  );
+  await Bun.write(
+    join(absoluteDir, "extensions.pgxs.manifest.json"),
+    JSON.stringify(generatePgxsManifest(profileManifest), null, 2) + "\n"
+  );
+  await Bun.write(
+    join(absoluteDir, "extensions.cargo.manifest.json"),
+    JSON.stringify(generateCargoManifest(profileManifest), null, 2) + "\n"
+  );
+
+  // Dockerfile, entrypoint and healthcheck (the Dockerfile sets the executable bits)
+  await Bun.write(
+    join(absoluteDir, "Dockerfile"),
+    await renderProductionDockerfile(profileManifest, target, dir)
+  );
+  // Runtime extension profiles only offer what the profile image ships; "default" is the
+  // build profile's own default set
+  const runtimeProfiles = resolveRuntimeProfiles(resolved.entries, {
+    extensions: resolved.initExtensions.map((e) => e.name),
+    preload: resolved.preloadLibraries,
+  });
+  for (const runtimeProfile of runtimeProfiles.profiles) {
+    if (runtimeProfile.unavailableReason) {
+      info(`Runtime profile ${runtimeProfile.name} is not available in this image`);
+    }
+  }
+  const preload = resolved.preloadLibraries.join(",");
+  await Bun.write(
+    join(absoluteDir, "docker-auto-config-entrypoint.sh"),
+    await renderEntrypoint(preload, runtimeProfiles)
+  );
+  await Bun.write(
+    join(absoluteDir, "healthcheck.sh"),
+    generateHealthcheckScript(resolved.initExtensions, preload)
+  );
+
+  // Init scripts: regenerated 01-extensions.sql plus the scripts of selected extensions
+  const initDir = join(absoluteDir, "docker-entrypoint-initdb.d");
+  await Bun.write(
+    join(initDir, EXTENSIONS_INIT_SQL),
+    await generateExtensionsInitScript(
+      resolved.initExtensions,
+      runtimeProfiles.extensionOrder.flatMap(
+        (name) => resolved.entries.find((e) => e.name === name) ?? []
+      )
+    )
+  );
+  const initScripts: string[] = [];
+  for (const fileName of (await readdir(INIT_SCRIPTS_DIR)).sort()) {
+    if (fileName === EXTENSIONS_INIT_SQL || !includesInitScript(resolved, fileName)) continue;
+    await Bun.write(join(initDir, fileName), Bun.file(join(INIT_SCRIPTS_DIR, fileName)));
+    initScripts.push(fileName);
+  }
+
+  await Bun.write(join(absoluteDir, "profile.json"), JSON.stringify(profile, null, 2) + "\n");
+
+  const baselines = (await Bun.file(SIZE_BASELINES_PATH).json()) as Record<string, SizeBaseline>;
+  const savings = estimateSizeSavings(resolved.excluded, baselines);
+
+  success(`Profile artifacts written to ${dir}`);
+  return { resolved, outputDir: dir, savings, initScripts };
+}
+
+/**
+ * Print the dropped entries and the size estimate
+ */
+export function printProfileReport(artifacts: ProfileArtifacts): void {
+  const { resolved, savings } = artifacts;
+  console.log("");
+  section(`Profile "${resolved.profile.name}" Summary`);
+  info(`Included: ${resolved.selected.join(", ") || "(builtins only)"}`);
+  info(`Excluded (${resolved.excluded.length}): ${resolved.excluded.join(", ") || "(none)"}`);
+  info(`Created at init: ${resolved.initExtensions.map((e) => e.name).join(", ")}`);
+  info(`Init scripts: ${artifacts.initScripts.join(", ")}`);
+  if (savings.measured.length > 0) {
+    info(
+      `Estimated savings: ${savings.minMb.toFixed(1)}-${savings.maxMb.toFixed(1)} MB of shared libraries (${savings.measured.join(", ")})`
+    );
+  } else {
+    info("Estimated savings: no excluded extension has a size baseline");
+  }
+  if (savings.unmeasured.length > 0) {
+    info(
+      `Not estimated (no entry in scripts/config/size-baselines.json): ${savings.unmeasured.join(", ")}`
+    );
+  }
+  info("Package dependencies and SQL files are not counted; compare `docker images` for the total");
+}
+
+function printHelp(): void {
+  console.log(`
+Generate build artifacts for a slimmed image from a build profile
+
+Usage:
+  bun scripts/docker/generate-profile.ts --profile=PATH [--output-dir=DIR]
+
+Options:
+  --profile=PATH     Profile JSON ({ "name", "include" | "exclude", "preload"? })
+  --output-dir=DIR   Output directory inside the repository (default: build/profiles/<name>)
+  --help, -h         Show this help message
+
+Build the image with: bun scripts/build.ts --profile=PATH
+`);
+}
+
+// Main execution
+if (import.meta.main) {
+  const args = Bun.argv.slice(2);
+  if (args.includes("--help") || args.includes("-h")) {
+    printHelp();
+    process.exit(0);
+  }
+
+  const profilePath = args.find((arg) => arg.startsWith("--profile="))?.slice("--profile=".length);
+  const outputDir = args
+    .find((arg) => arg.startsWith("--output-dir="))
+    ?.slice("--output-dir=".length);
+  if (!profilePath) {
+    error("--profile=PATH is required");
+    process.exit(1);
+  }
+
+  try {
+    printProfileReport(await generateProfileArtifacts(profilePath, outputDir));
+  } catch (err) {
+    error(`Failed to generate profile artifacts: ${getErrorMessage(err)}`);
+    process.exit(1);
+  }
+}
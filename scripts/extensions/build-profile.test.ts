@@ -0,0 +1,172 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+
+import {
+  estimateSizeSavings,
+  includesInitScript,
+  resolveBuildProfile,
+  validateBuildProfile,
+} from "./build-profile";
+import type { ManifestEntry } from "./manifest-data";
+import { createMockEntry } from "../test/manifest-test-utils";
+
+const REPO_ROOT = join(import.meta.dir, "../..");
+
+const ENTRIES: ManifestEntry[] = [
+  createMockEntry({
+    name: "pg_stat_statements",
+    kind: "builtin",
+    runtime: { sharedPreload: true, defaultEnable: true },
+  }),
+  createMockEntry({ name: "plpgsql", kind: "builtin", runtime: { defaultEnable: true } }),
+  createMockEntry({ name: "vector", runtime: { defaultEnable: true } }),
+  createMockEntry({
+    name: "vectorscale",
+    dependencies: ["vector"],
+    runtime: { defaultEnable: true },
+  }),
+  createMockEntry({ name: "pg_cron", runtime: { sharedPreload: true, defaultEnable: true } }),
+  createMockEntry({
+    name: "pg_partman",
+    runtime: { sharedPreload: true, preloadLibraryName: "pg_partman_bgw" },
+  }),
+  createMockEntry({ name: "timescaledb", runtime: { sharedPreload: true, defaultEnable: true } }),
+  createMockEntry({ name: "pgbackrest", kind: "tool" }),
+  createMockEntry({ name: "postgis", enabled: false, disabledReason: "Too large" }),
+];
+
+describe("validateBuildProfile", () => {
+  test("accepts include or exclude profiles", () => {
+    expect(validateBuildProfile({ name: "slim", include: ["vector"] }).include).toEqual(["vector"]);
+    expect(validateBuildProfile({ name: "no-ts", exclude: ["timescaledb"] }).name).toBe("no-ts");
+  });
+
+  test("requires exactly one of include and exclude", () => {
+    expect(() => validateBuildProfile({ name: "x" })).toThrow("exactly one of include or exclude");
+    expect(() => validateBuildProfile({ name: "x", include: [], exclude: [] })).toThrow(
+      "exactly one of include or exclude"
+    );
+  });
+
+  test("rejects malformed profiles and names unusable as tags", () => {
+    expect(() => validateBuildProfile({ name: "x", include: "vector" })).toThrow(
+      "Build profile validation failed"
+    );
+    expect(() => validateBuildProfile({ name: "My Profile", include: [] })).toThrow(
+      "lowercase letters, digits and hyphens"
+    );
+  });
+});
+
+describe("resolveBuildProfile", () => {
+  test("include keeps builtins and disables everything else", () => {
+    const resolved = resolveBuildProfile({ name: "slim", include: ["vector", "pg_cron"] }, ENTRIES);
+    expect(resolved.selected).toEqual(["vector", "pg_cron"]);
+    expect(resolved.excluded).toEqual(["vectorscale", "pg_partman", "timescaledb", "pgbackrest"]);
+    const timescale = resolved.entries.find((e) => e.name === "timescaledb");
+    expect(timescale?.enabled).toBe(false);
+    expect(timescale?.disabledReason).toBe("Excluded by build profile slim");
+    // Entries disabled in the manifest keep their own reason
+    expect(resolved.entries.find((e) => e.name === "postgis")?.disabledReason).toBe("Too large");
+  });
+
+  test("default preloads are restricted to the selected entries", () => {
+    const resolved = resolveBuildProfile({ name: "slim", include: ["vector", "pg_cron"] }, ENTRIES);
+    expect(resolved.preloadLibraries).toEqual(["pg_cron", "pg_stat_statements"]);
+    expect(resolved.initExtensions.map((e) => e.name)).toEqual([
+      "pg_stat_statements",
+      "plpgsql",
+      "vector",
+      "pg_cron",
+    ]);
+  });
+
+  test("exclude profiles keep everything else in dependency order", () => {
+    const resolved = resolveBuildProfile(
+      { name: "no-ts", exclude: ["timescaledb", "pgbackrest"] },
+      ENTRIES
+    );
+    expect(resolved.selected).toEqual(["vector", "vectorscale", "pg_cron", "pg_partman"]);
+    expect(resolved.excluded).toEqual(["timescaledb", "pgbackrest"]);
+  });
+
+  test("explicit preload uses library names and gates init creation", () => {
+    const resolved = resolveBuildProfile(
+      { name: "cronless", include: ["pg_cron", "pg_partman"], preload: ["pg_partman_bgw"] },
+      ENTRIES
+    );
+    expect(resolved.preloadLibraries).toEqual(["pg_partman_bgw"]);
+    expect(resolved.initExtensions.map((e) => e.name)).toEqual(["plpgsql"]);
+    expect(resolved.warnings).toEqual([
+      expect.stringContaining("pg_stat_statements is not preloaded"),
+      expect.stringContaining("pg_cron is not preloaded"),
+    ]);
+  });
+
+  test("reports every problem at once", () => {
+    let message = "";
+    try {
+      resolveBuildProfile(
+        { name: "bad", include: ["vectorscale", "postgis", "nope"], preload: ["timescaledb"] },
+        ENTRIES
+      );
+    } catch (err) {
+      message = String(err);
+    }
+    expect(message).toContain("nope: not in the extensions manifest");
+    expect(message).toContain("postgis: disabled in the manifest (Too large)");
+    expect(message).toContain("vectorscale: depends on vector, which is not in the profile");
+    expect(message).toContain("preload timescaledb: not a shared preload library");
+  });
+
+  test("builtins cannot be excluded", () => {
+    expect(() => resolveBuildProfile({ name: "x", exclude: ["plpgsql"] }, ENTRIES)).toThrow(
+      "plpgsql: builtin"
+    );
+  });
+
+  test("dependency cycles are rejected", () => {
+    const cyclic = [
+      createMockEntry({ name: "a", dependencies: ["b"] }),
+      createMockEntry({ name: "b", dependencies: ["a"] }),
+    ];
+    expect(() => resolveBuildProfile({ name: "x", include: ["a", "b"] }, cyclic)).toThrow(
+      "Circular dependency"
+    );
+  });
+});
+
+describe("init scripts and size estimate", () => {
+  test("extension init scripts follow the selection", () => {
+    const resolved = resolveBuildProfile({ name: "slim", include: ["pg_cron"] }, ENTRIES);
+    expect(includesInitScript(resolved, "01b-pg_cron.sh")).toBe(true);
+    expect(includesInitScript(resolved, "04-pg_partman-init.sh")).toBe(false);
+    expect(includesInitScript(resolved, "00-aza-pg-settings.sh")).toBe(true);
+  });
+
+  test("sums baselines of excluded entries and lists the rest", () => {
+    const savings = estimateSizeSavings(["timescaledb", "vectorscale", "pgbackrest"], {
+      timescaledb: { min: 0.2, max: 0.35, description: "" },
+      vectorscale: { min: 0.8, max: 1.1, description: "" },
+    });
+    expect(savings.minMb).toBeCloseTo(1.0);
+    expect(savings.maxMb).toBeCloseTo(1.45);
+    expect(savings.measured).toEqual(["timescaledb", "vectorscale"]);
+    expect(savings.unmeasured).toEqual(["pgbackrest"]);
+  });
+});
+
+describe("example profiles", () => {
+  test("slim profile resolves against the repository manifest", async () => {
+    const manifest = await Bun.file(
+      join(REPO_ROOT, "docker/postgres/extensions.manifest.json")
+    ).json();
+    const profile = validateBuildProfile(
+      await Bun.file(join(REPO_ROOT, "examples/profiles/slim.json")).json()
+    );
+    const resolved = resolveBuildProfile(profile, manifest.entries as ManifestEntry[]);
+    expect(resolved.selected.toSorted()).toEqual(["pg_cron", "pgmq", "vector"]);
+    expect(resolved.preloadLibraries).toContain("pg_cron");
+    expect(resolved.warnings).toEqual([]);
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Build profiles: slimmed images with a user-selected extension subset
+ *
+ * A profile is a small JSON file passed to `bun scripts/build.ts --profile=PATH`:
+ *
+ * ```json
+ * { "name": "slim", "include": ["vector", "pg_cron", "pgmq"], "preload": ["pg_cron"] }
+ * ```
+ *
+ * - `include` lists the extensions/tools to keep (everything else is dropped), or
+ *   `exclude` lists the ones to drop (everything else is kept). Exactly one is required.
+ * - Builtin entries ship with PostgreSQL itself and are always kept.
+ * - `preload` replaces the default shared_preload_libraries. When omitted, the manifest's
+ *   default preloads are restricted to the selected entries.
+ *
+ * This module is pure: it turns a profile and the image manifest into a profile manifest
+ * (dropped entries disabled, so every Dockerfile generator skips them), the init/healthcheck
+ * extension list and the size estimate. scripts/docker/generate-profile.ts writes the files.
+ */
+
+import { type } from "arktype";
+import type { ManifestEntry } from "./manifest-data";
+import { resolveExtensionDependencies } from "../test/manifest-test-utils";
+
+/** Profile names become directory names and image tag suffixes */
+const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+export const BuildProfileSchema = type({
+  name: "string",
+  "description?": "string",
+  "include?": "string[]",
+  "exclude?": "string[]",
+  "preload?": "string[]",
+});
+
+export type BuildProfile = typeof BuildProfileSchema.infer;
+
+/** Entry of scripts/config/size-baselines.json (sizes in MB) */
+export interface SizeBaseline {
+  min: number;
+  max: number;
+  description: string;
+}
+
+export interface SizeSavings {
+  /** Sum of the excluded entries' baseline ranges (MB) */
+  minMb: number;
+  maxMb: number;
+  /** Excluded entries covered by a baseline */
+  measured: string[];
+  /** Excluded entries without a baseline (not counted) */
+  unmeasured: string[];
+}
+
+export interface ResolvedBuildProfile {
+  profile: BuildProfile;
+  /** Manifest entries with everything outside the profile disabled */
+  entries: ManifestEntry[];
+  /** Non-builtin entries kept by the profile, in dependency order */
+  selected: string[];
+  /** Entries enabled in the image manifest that the profile drops */
+  excluded: string[];
+  /** Default shared_preload_libraries for the profile image */
+  preloadLibraries: string[];
+  /** Extensions created by 01-extensions.sql and verified by the healthcheck */
+  initExtensions: ManifestEntry[];
+  warnings: string[];
+}
+
+/**
+ * Init scripts in docker-entrypoint-initdb.d/ that only make sense with one extension.
+ * Scripts not listed here are always copied.
+ */
+export const EXTENSION_INIT_SCRIPTS: Record<string, string> = {
+  "01b-pg_cron.sh": "pg_cron",
+  "03-pgsodium-init.sh": "pgsodium",
+  "04-pg_partman-init.sh": "pg_partman",
+  "04a-pgflow-realtime-stub.sh": "pgflow",
+  "05-pgflow-init.sh": "pgflow",
+};
+
+/**
+ * Validate raw profile JSON
+ *
+ * @throws Error if the profile is malformed
+ */
+export function validateBuildProfile(data: unknown): BuildProfile {
+  const result = BuildProfileSchema(data);
+  if (result instanceof type.errors) {
+    throw new Error(`Build profile validation failed:\n${result.summary}`);
+  }
+  if (!PROFILE_NAME_PATTERN.test(result.name)) {
+    throw new Error(
+      `Build profile name "${result.name}" must be lowercase letters, digits and hyphens`
+    );
+  }
+  if ((result.include === undefined) === (result.exclude === undefined)) {
+    throw new Error(`Build profile "${result.name}" must set exactly one of include or exclude`);
+  }
+  return result;
+}
+
+function preloadLibraryName(entry: ManifestEntry): string {
+  return entry.runtime?.preloadLibraryName ?? entry.name;
+}
+
+/**
+ * Apply a profile to the image manifest entries
+ *
+ * Every dependency of a selected entry must be selected too (or be builtin); the profile
+ * is rejected otherwise rather than silently pulling extensions back in.
+ *
+ * @throws Error listing every problem found in the profile
+ */
+export function resolveBuildProfile(
+  profile: BuildProfile,
+  manifestEntries: readonly ManifestEntry[]
+): ResolvedBuildProfile {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const byName = new Map(manifestEntries.map((e) => [e.name, e] as const));
+  const isAvailable = (e: ManifestEntry) => e.enabled !== false;
+
+  const listed = profile.include ?? profile.exclude ?? [];
+  for (const name of listed) {
+    const entry = byName.get(name);
+    if (!entry) {
+      errors.push(`${name}: not in the extensions manifest`);
+    } else if (entry.kind === "builtin" && profile.exclude) {
+      errors.push(`${name}: builtin (ships with PostgreSQL) and cannot be excluded`);
+    } else if (!isAvailable(entry) && profile.include) {
+      errors.push(`${name}: disabled in the manifest (${entry.disabledReason ?? "no reason"})`);
+    }
+  }
+
+  const listedSet = new Set(listed);
+  const keeps = (entry: ManifestEntry) =>
+    entry.kind === "builtin" ||
+    (profile.include ? listedSet.has(entry.name) : !listedSet.has(entry.name));
+
+  const kept = manifestEntries.filter((e) => isAvailable(e) && keeps(e));
+  const keptNames = new Set(kept.map((e) => e.name));
+
+  for (const entry of kept) {
+    for (const dependency of entry.dependencies ?? []) {
+      if (!keptNames.has(dependency)) {
+        errors.push(`${entry.name}: depends on ${dependency}, which is not in the profile`);
+      }
+    }
+  }
+
+  // Dependency order (and cycle detection) for the kept entries
+  let ordered: ManifestEntry[] = [];
+  try {
+    ordered = resolveExtensionDependencies(kept);
+  } catch (err) {
+    errors.push(err instanceof Error ? err.message : String(err));
+  }
+
+  const preloadable = new Map(
+    kept.filter((e) => e.runtime?.sharedPreload).map((e) => [preloadLibraryName(e), e] as const)
+  );
+  let preloadLibraries: string[];
+  if (profile.preload) {
+    preloadLibraries = [...profile.preload].sort();
+    for (const library of preloadLibraries) {
+      if (!preloadable.has(library)) {
+        errors.push(`preload ${library}: not a shared preload library of a profile extension`);
+      }
+    }
+  } else {
+    preloadLibraries = [...preloadable]
+      .filter(([, e]) => e.runtime?.defaultEnable)
+      .map(([library]) => library)
+      .sort();
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid build profile "${profile.name}":\n  ${errors.join("\n  ")}`);
+  }
+
+  const entries = manifestEntries.map((entry): ManifestEntry => {
+    if (!isAvailable(entry) || keptNames.has(entry.name)) return entry;
+    return {
+      ...entry,
+      enabled: false,
+      disabledReason: `Excluded by build profile ${profile.name}`,
+    };
+  });
+
+  // Same selection as getDefaultEnabledExtensions(), minus extensions that cannot be
+  // created without their library preloaded
+  const preloadSet = new Set(preloadLibraries);
+  const initExtensions = kept.filter((entry) => {
+    if (!entry.runtime?.defaultEnable || entry.kind === "tool" || entry.runtime.preloadOnly) {
+      return false;
+    }
+    if (entry.runtime.sharedPreload && !preloadSet.has(preloadLibraryName(entry))) {
+      warnings.push(
+        `${entry.name} is not preloaded, so it is not created at init (CREATE EXTENSION needs the library loaded at server start)`
+      );
+      return false;
+    }
+    return true;
+  });
+
+  return {
+    profile,
+    entries,
+    selected: ordered.filter((e) => e.kind !== "builtin").map((e) => e.name),
+    excluded: manifestEntries
+      .filter((e) => isAvailable(e) && !keptNames.has(e.name))
+      .map((e) => e.name),
+    preloadLibraries,
+    initExtensions,
+    warnings,
+  };
+}
+
+/**
+ * Whether an init script from docker-entrypoint-initdb.d/ belongs in the profile image
+ */
+export function includesInitScript(resolved: ResolvedBuildProfile, fileName: string): boolean {
+  const extension = EXTENSION_INIT_SCRIPTS[fileName];
+  return extension === undefined || resolved.selected.includes(extension);
+}
+
+/**
+ * Estimate the image size saved by the excluded entries from size-baselines.json
+ *
+ * Baselines cover the shared libraries of the largest extensions only; package
+ * dependencies, SQL files and untracked extensions are not counted, so the real
+ * saving is at least this estimate.
+ */
+export function estimateSizeSavings(
+  excluded: readonly string[],
+  baselines: Readonly<Record<string, SizeBaseline>>
+): SizeSavings {
+  const savings: SizeSavings = { minMb: 0, maxMb: 0, measured: [], unmeasured: [] };
+  for (const name of excluded) {
+    const baseline = baselines[name];
+    if (baseline) {
+      savings.minMb += baseline.min;
+      savings.maxMb += baseline.max;
+      savings.measured.push(name);
+    } else {
+      savings.unmeasured.push(name);
+    }
+  }
+  return savings;
+}
@@ -69,7 +69,8 @@ async function main() {
   const resolved: ResolvedEntry[] = [];
   for (const entry of MANIFEST_ENTRIES) {
     const source = await resolveSource(entry.source);
-    resolved.push({ ...entry, source });
+    // Observability specs only feed the repository's monitoring configs, not the image
+    resolved.push({ ...entry, source, observability: undefined });
   }
 
   resolved.sort((a, b) => a.name.localeCompare(b.name));
@@ -22,6 +22,34 @@ export const MANIFEST_METADATA = {
   baseImageSha: "sha256:8ff36f3c66371cba71d20ceedccfc3de9669a68737607888c4ef0af93abe8e39",
 } as const;
 
+/**
+ * A PostgreSQL release line built from this manifest.
+ */
+export interface PgVersionTarget {
+  /** PostgreSQL version (e.g., "17.10") */
+  pgVersion: string;
+  /**
+   * Base image SHA256 digest for reproducible builds.
+   * Optional for additional majors only: without it the image is built from the
+   * floating postgres:<version>-trixie tag until a digest is pinned.
+   */
+  baseImageSha?: string;
+}
+
+/**
+ * PostgreSQL majors built and published side by side.
+ *
+ * The first target is the primary major: it comes from MANIFEST_METADATA, owns the
+ * unqualified generated files (docker/postgres/Dockerfile etc.) and the regression image.
+ * Additional majors get their own docker/postgres/pg<major>/ directory and resolve each
+ * entry through its `pgMajors` overrides (see scripts/extensions/pg-version-matrix.ts).
+ */
+export const PG_VERSION_MATRIX: readonly PgVersionTarget[] = [
+  { pgVersion: MANIFEST_METADATA.pgVersion, baseImageSha: MANIFEST_METADATA.baseImageSha },
+  // Kept while the fleet migrates to 18; drop once no deployment runs 17.
+  { pgVersion: "17.10" },
+] as const;
+
 export type SourceSpec =
   | { type: "builtin" }
   | { type: "git"; repository: string; tag: string }
@@ -88,6 +116,85 @@ export interface RuntimeSpec {
   notes?: string[];
 }
 
+/**
+ * Per-major adjustments for an entry. Fields left unset inherit the entry's own
+ * (primary major) values.
+ */
+export interface PgMajorOverride {
+  /**
+   * Entry is not available for this major (no upstream package or build).
+   * The per-major manifest marks it disabled with excludeReason as disabledReason.
+   */
+  exclude?: boolean;
+  /** Why the entry is excluded. Required when exclude === true. */
+  excludeReason?: string;
+  pgdgVersion?: string;
+  perconaPackage?: string;
+  perconaVersion?: string;
+  timescalePackage?: string;
+  timescaleVersion?: string;
+  soFileName?: string;
+  githubReleaseTag?: string;
+  /** cargo-pgrx feature flags (e.g., ["pg17"]) */
+  buildFeatures?: string[];
+  /**
+   * Upstream release tag shipped for this major, when it differs from source.tag
+   * (e.g., pgaudit release lines follow the server major).
+   * Only valid for package-installed entries, which are pinned by package version
+   * rather than by the resolved source commit.
+   */
+  sourceTag?: string;
+  notes?: string[];
+}
+
+/**
+ * One postgres_exporter custom query. Metrics are exported as `<query name>_<column>`,
+ * LABEL columns become labels of the other columns.
+ */
+export interface ObservabilityQuery {
+  name: string;
+  /** Comment rendered above the query in postgres_exporter_queries.yaml */
+  comment?: string;
+  query: string;
+  metrics: Array<{
+    column: string;
+    usage: "LABEL" | "GAUGE" | "COUNTER";
+    description: string;
+  }>;
+}
+
+export interface ObservabilityAlert {
+  /** Prometheus alert name (PostgreSQL prefix, like the hand-written rules) */
+  alert: string;
+  expr: string;
+  for: string;
+  severity: "warning" | "critical";
+  summary: string;
+  /** Go template text, may use {{ $labels.x }} and {{ $value }} */
+  description: string;
+}
+
+export interface ObservabilityPanel {
+  title: string;
+  type: "timeseries" | "stat";
+  expr: string;
+  /** Grafana legend format, e.g. "{{queue}}" */
+  legend?: string;
+  /** Grafana unit id, e.g. "s" or "short" */
+  unit?: string;
+}
+
+/**
+ * Monitoring generated for an extension when it is enabled: exporter queries, Prometheus
+ * rules and a Grafana dashboard row (scripts/config-generator/observability-generator.ts).
+ * Repository-side only, not written to extensions.manifest.json.
+ */
+export interface ObservabilitySpec {
+  queries: ObservabilityQuery[];
+  alerts?: ObservabilityAlert[];
+  panels?: ObservabilityPanel[];
+}
+
 export interface ManifestEntry {
   name: string;
   displayName?: string;
@@ -169,6 +276,11 @@ export interface ManifestEntry {
    */
   enabledInComprehensiveTest?: boolean;
   disabledReason?: string;
+  /**
+   * Overrides for additional majors in PG_VERSION_MATRIX, keyed by major (e.g., "17").
+   * The primary major always uses the entry's own fields.
+   */
+  pgMajors?: Record<string, PgMajorOverride>;
   /**
    * Direct URL to source code repository (e.g., GitHub, GitLab).
    * For extensions/tools: usually the git repository URL.
@@ -180,6 +292,8 @@ export interface ManifestEntry {
    * Falls back to repository README if not provided.
    */
   docsUrl?: string;
+  /** Exporter queries, alerts and dashboard panels generated when the extension is enabled */
+  observability?: ObservabilitySpec;
 }
 
 export const MANIFEST_ENTRIES: ManifestEntry[] = [
@@ -236,6 +350,74 @@ export const MANIFEST_ENTRIES: ManifestEntry[] = [
     },
     sourceUrl: "https://github.com/citusdata/pg_cron",
     docsUrl: "https://github.com/citusdata/pg_cron#readme",
+    observability: {
+      queries: [
+        {
+          name: "pg_cron_job",
+          comment: "pg_cron job runs over the last hour (cron.job_run_details)",
+          query: `SELECT
+  COALESCE(j.jobname, j.jobid::text) AS job,
+  count(d.runid) FILTER (WHERE d.status = 'failed') AS failed_runs_last_hour,
+  count(d.runid) AS runs_last_hour,
+  COALESCE((
+    SELECT (l.status = 'failed')::int
+    FROM cron.job_run_details l
+    WHERE l.jobid = j.jobid AND l.status IN ('succeeded', 'failed')
+    ORDER BY l.start_time DESC
+    LIMIT 1
+  ), 0) AS last_run_failed
+FROM cron.job j
+LEFT JOIN cron.job_run_details d
+  ON d.jobid = j.jobid AND d.start_time > now() - interval '1 hour'
+WHERE j.active
+GROUP BY j.jobid, j.jobname`,
+          metrics: [
+            { column: "job", usage: "LABEL", description: "Job name (job id when unnamed)" },
+            {
+              column: "failed_runs_last_hour",
+              usage: "GAUGE",
+              description: "Runs that failed in the last hour",
+            },
+            {
+              column: "runs_last_hour",
+              usage: "GAUGE",
+              description: "Runs started in the last hour",
+            },
+            {
+              column: "last_run_failed",
+              usage: "GAUGE",
+              description: "1 if the most recent finished run failed",
+            },
+          ],
+        },
+      ],
+      alerts: [
+        {
+          alert: "PostgreSQLCronJobFailed",
+          expr: "pg_cron_job_last_run_failed == 1",
+          for: "5m",
+          severity: "warning",
+          summary: "pg_cron job {{ $labels.job }} failing on {{ $labels.instance }}",
+          description:
+            "The last run of pg_cron job {{ $labels.job }} failed. See cron.job_run_details for the error.",
+        },
+      ],
+      panels: [
+        {
+          title: "Failed Runs (last hour)",
+          type: "timeseries",
+          expr: "pg_cron_job_failed_runs_last_hour",
+          legend: "{{job}}",
+          unit: "short",
+        },
+        {
+          title: "Jobs Whose Last Run Failed",
+          type: "stat",
+          expr: "sum(pg_cron_job_last_run_failed)",
+          unit: "short",
+        },
+      ],
+    },
   },
   {
     name: "pgaudit",
@@ -259,6 +441,13 @@ export const MANIFEST_ENTRIES: ManifestEntry[] = [
         "Tune pgaudit.log to control verbosity.",
       ],
     },
+    pgMajors: {
+      "17": {
+        pgdgVersion: "17.1-1.pgdg13+1",
+        sourceTag: "17.1",
+        notes: ["pgaudit release lines follow the server major: PG17 ships the 17.x line"],
+      },
+    },
     sourceUrl: "https://github.com/pgaudit/pgaudit",
     docsUrl: "https://www.pgaudit.org",
   },
@@ -538,6 +727,7 @@ export const MANIFEST_ENTRIES: ManifestEntry[] = [
       "v0.6.1: FDW parameter rescan, aggregate pushdown for enabled FDWs, dependency fixes.",
       "NOT available in PGDG. Pigsty has v0.5.0 (3 versions behind). Building from source for latest.",
     ],
+    pgMajors: { "17": { buildFeatures: ["pg17"] } },
     sourceUrl: "https://github.com/supabase/wrappers",
     docsUrl: "https://supabase.com/docs/guides/database/extensions/wrappers/overview",
   },
@@ -746,6 +936,7 @@ export const MANIFEST_ENTRIES: ManifestEntry[] = [
         "Source build required for latest features",
       ],
     },
+    pgMajors: { "17": { buildFeatures: ["pg17"] } },
     sourceUrl: "https://github.com/supabase/pg_jsonschema",
     docsUrl: "https://supabase.com/docs/guides/database/extensions/pg_jsonschema",
   },
@@ -795,6 +986,61 @@ export const MANIFEST_ENTRIES: ManifestEntry[] = [
     },
     sourceUrl: "https://github.com/pgmq/pgmq",
     docsUrl: "https://github.com/pgmq/pgmq#readme",
+    observability: {
+      queries: [
+        {
+          name: "pgmq_queue",
+          comment: "pgmq queue depth and message age (pgmq.metrics_all())",
+          query: `SELECT
+  queue_name AS queue,
+  queue_length AS length,
+  COALESCE(oldest_msg_age_sec, 0) AS oldest_message_age_seconds,
+  total_messages
+FROM pgmq.metrics_all()`,
+          metrics: [
+            { column: "queue", usage: "LABEL", description: "Queue name" },
+            { column: "length", usage: "GAUGE", description: "Messages in the queue" },
+            {
+              column: "oldest_message_age_seconds",
+              usage: "GAUGE",
+              description: "Age of the oldest message in seconds (0 when empty)",
+            },
+            {
+              column: "total_messages",
+              usage: "COUNTER",
+              description: "Messages sent to the queue since it was created",
+            },
+          ],
+        },
+      ],
+      alerts: [
+        {
+          alert: "PostgreSQLQueueBacklog",
+          expr: "pgmq_queue_oldest_message_age_seconds > 3600",
+          for: "15m",
+          severity: "warning",
+          summary: "pgmq queue {{ $labels.queue }} not draining on {{ $labels.instance }}",
+          description:
+            "The oldest message in queue {{ $labels.queue }} is {{ $value | humanizeDuration }} old. Check its consumers.",
+        },
+      ],
+      panels: [
+        {
+          title: "Queue Depth",
+          type: "timeseries",
+          expr: "pgmq_queue_length",
+          legend: "{{queue}}",
+          unit: "short",
+        },
+        {
+          title: "Oldest Message Age",
+          type: "timeseries",
+          expr: "pgmq_queue_oldest_message_age_seconds",
+          legend: "{{queue}}",
+          unit: "s",
+        },
+      ],
+    },
   },
   {
     name: "pgflow",
@@ -911,6 +1157,7 @@ export const MANIFEST_ENTRIES: ManifestEntry[] = [
         "Mutually exclusive with pg_stat_statements in older versions—keep both enabled in PG18 using monitor's pgsm aggregation.",
       ],
     },
+    pgMajors: { "17": { perconaPackage: "percona-pg-stat-monitor17" } },
     sourceUrl: "https://github.com/percona/pg_stat_monitor",
     docsUrl: "https://docs.percona.com/pg-stat-monitor",
   },
@@ -965,8 +1212,84 @@ export const MANIFEST_ENTRIES: ManifestEntry[] = [
         "timescaledb.telemetry_level defaults to 'off' to avoid outbound telemetry.",
       ],
     },
+    pgMajors: {
+      "17": {
+        timescalePackage: "timescaledb-2-postgresql-17",
+        timescaleVersion: "2.27.1~debian13-1710",
+      },
+    },
     sourceUrl: "https://github.com/timescale/timescaledb",
     docsUrl: "https://docs.timescale.com/",
+    observability: {
+      queries: [
+        {
+          name: "timescaledb_job",
+          comment: "TimescaleDB background jobs (policies) and their errors",
+          query: `SELECT
+  j.job_id::text AS job_id,
+  j.application_name AS application,
+  COALESCE(s.total_failures, 0) AS total_failures,
+  (COALESCE(s.last_run_status, '') = 'Failed')::int AS last_run_failed,
+  (
+    SELECT count(*)
+    FROM timescaledb_information.job_errors e
+    WHERE e.job_id = j.job_id AND e.finish_time > now() - interval '1 hour'
+  ) AS errors_last_hour
+FROM timescaledb_information.jobs j
+LEFT JOIN timescaledb_information.job_stats s ON s.job_id = j.job_id
+WHERE j.scheduled`,
+          metrics: [
+            { column: "job_id", usage: "LABEL", description: "Job id" },
+            {
+              column: "application",
+              usage: "LABEL",
+              description: "Job name (e.g. Compression Policy [1002])",
+            },
+            {
+              column: "total_failures",
+              usage: "COUNTER",
+              description: "Failed runs since creation",
+            },
+            {
+              column: "last_run_failed",
+              usage: "GAUGE",
+              description: "1 if the most recent run failed",
+            },
+            {
+              column: "errors_last_hour",
+              usage: "GAUGE",
+              description: "Errors recorded in job_errors in the last hour",
+            },
+          ],
+        },
+      ],
+      alerts: [
+        {
+          alert: "PostgreSQLTimescaleJobFailed",
+          expr: "timescaledb_job_last_run_failed == 1",
+          for: "15m",
+          severity: "warning",
+          summary: "TimescaleDB job {{ $labels.job_id }} failing on {{ $labels.instance }}",
+          description:
+            "{{ $labels.application }} failed on its last run. See timescaledb_information.job_errors.",
+        },
+      ],
+      panels: [
+        {
+          title: "Job Errors (last hour)",
+          type: "timeseries",
+          expr: "timescaledb_job_errors_last_hour",
+          legend: "{{application}}",
+          unit: "short",
+        },
+        {
+          title: "Jobs Whose Last Run Failed",
+          type: "stat",
+          expr: "sum(timescaledb_job_last_run_failed)",
+          unit: "short",
+        },
+      ],
+    },
   },
   {
     name: "timescaledb_toolkit",
@@ -991,6 +1314,7 @@ export const MANIFEST_ENTRIES: ManifestEntry[] = [
         "Switched from cargo-pgrx source build to Timescale apt (faster install)",
       ],
     },
+    pgMajors: { "17": { timescalePackage: "timescaledb-toolkit-postgresql-17" } },
     sourceUrl: "https://github.com/timescale/timescaledb-toolkit",
     docsUrl: "https://github.com/timescale/timescaledb-toolkit/tree/main/docs",
   },
@@ -1017,6 +1341,7 @@ export const MANIFEST_ENTRIES: ManifestEntry[] = [
         "Requires wal_level=logical in postgresql.conf for CDC functionality.",
       ],
     },
+    pgMajors: { "17": { perconaPackage: "percona-postgresql-17-wal2json" } },
     sourceUrl: "https://github.com/eulerto/wal2json",
     docsUrl: "https://github.com/eulerto/wal2json#readme",
   },
@@ -1045,6 +1370,57 @@ export const MANIFEST_ENTRIES: ManifestEntry[] = [
     },
     sourceUrl: "https://github.com/pgpartman/pg_partman",
     docsUrl: "https://github.com/pgpartman/pg_partman#readme",
+    observability: {
+      queries: [
+        {
+          name: "pg_partman_parent",
+          comment: "Future partitions of time-partitioned pg_partman parents (premake)",
+          query: `SELECT
+  c.parent_table,
+  c.premake,
+  (
+    SELECT count(*)
+    FROM partman.show_partitions(c.parent_table) p,
+      LATERAL partman.show_partition_info(
+        p.partition_schemaname || '.' || p.partition_tablename,
+        p_parent_table := c.parent_table
+      ) i
+    WHERE i.child_start_time > now()
+  ) AS premade_partitions
+FROM partman.part_config c
+WHERE c.datetime_string IS NOT NULL`,
+          metrics: [
+            { column: "parent_table", usage: "LABEL", description: "Partitioned parent table" },
+            { column: "premake", usage: "GAUGE", description: "Configured future partitions" },
+            {
+              column: "premade_partitions",
+              usage: "GAUGE",
+              description: "Partitions that start in the future",
+            },
+          ],
+        },
+      ],
+      alerts: [
+        {
+          alert: "PostgreSQLPartmanPremakeLow",
+          expr: "pg_partman_parent_premade_partitions < pg_partman_parent_premake",
+          for: "3h",
+          severity: "warning",
+          summary: "pg_partman running out of partitions on {{ $labels.instance }}",
+          description:
+            "{{ $labels.parent_table }} has {{ $value }} future partition(s), fewer than its premake. Check that run_maintenance (pg_partman_bgw or pg_cron) runs.",
+        },
+      ],
+      panels: [
+        {
+          title: "Future Partitions",
+          type: "timeseries",
+          expr: "pg_partman_parent_premade_partitions",
+          legend: "{{parent_table}}",
+          unit: "short",
+        },
+      ],
+    },
   },
   {
     name: "vectorscale",
@@ -81,6 +81,68 @@ export const RuntimeSpecSchema = type({
   "notes?": "string[]",
 });
 
+/**
+ * Per-major override schema - adjustments for additional PG_VERSION_MATRIX majors.
+ *
+ * Fields:
+ * - exclude/excludeReason: Entry has no build for this major (disabled in its manifest)
+ * - pgdgVersion/perconaPackage/perconaVersion/timescalePackage/timescaleVersion: Package pins
+ * - soFileName/githubReleaseTag: Binary release overrides
+ * - buildFeatures: cargo-pgrx feature flags (e.g., ["pg17"])
+ * - sourceTag: Upstream release tag shipped for this major (package installs only)
+ * - notes: Extra notes appended for this major
+ */
+export const PgMajorOverrideSchema = type({
+  "exclude?": "boolean",
+  "excludeReason?": "string",
+  "pgdgVersion?": "string",
+  "perconaPackage?": "string",
+  "perconaVersion?": "string",
+  "timescalePackage?": "string",
+  "timescaleVersion?": "string",
+  "soFileName?": "string",
+  "githubReleaseTag?": "string",
+  "buildFeatures?": "string[]",
+  "sourceTag?": "string",
+  "notes?": "string[]",
+});
+
+/**
+ * Observability schema - monitoring generated for an enabled extension.
+ *
+ * Fields:
+ * - queries: postgres_exporter custom queries (metrics named <query>_<column>)
+ * - alerts: Prometheus alerting rules over those metrics
+ * - panels: Grafana panels for the extension's dashboard row
+ */
+export const ObservabilitySpecSchema = type({
+  queries: type({
+    name: "string",
+    "comment?": "string",
+    query: "string",
+    metrics: type({
+      column: "string",
+      usage: "'LABEL'|'GAUGE'|'COUNTER'",
+      description: "string",
+    }).array(),
+  }).array(),
+  "alerts?": type({
+    alert: "string",
+    expr: "string",
+    for: "string",
+    severity: "'warning'|'critical'",
+    summary: "string",
+    description: "string",
+  }).array(),
+  "panels?": type({
+    title: "string",
+    type: "'timeseries'|'stat'",
+    expr: "string",
+    "legend?": "string",
+    "unit?": "string",
+  }).array(),
+});
+
 /**
  * Extension kind - literal union of valid extension types.
  */
@@ -114,6 +176,8 @@ export const ExtensionKindSchema = type("'extension'|'tool'|'builtin'");
  * - timescalePackage: Package name for Timescale packages (required when install_via="timescale")
  * - soFileName: Shared object filename for verification (required when install_via="percona", "timescale", or "github-release")
  * - enabled: Whether extension is enabled (defaults to true if not specified)
+ * - pgMajors: Per-major overrides keyed by PostgreSQL major (e.g., "17")
+ * - observability: Exporter queries, alerts and dashboard panels for the extension
  */
 export const ManifestEntrySchema = type({
   name: "string",
@@ -138,6 +202,8 @@ export const ManifestEntrySchema = type({
   "timescalePackage?": "string",
   "soFileName?": "string",
   "enabled?": "boolean",
+  "pgMajors?": { "[string]": PgMajorOverrideSchema },
+  "observability?": ObservabilitySpecSchema,
 });
 
 /**
@@ -0,0 +1,300 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+
+import { MANIFEST_ENTRIES, MANIFEST_METADATA, type ManifestEntry } from "./manifest-data";
+import {
+  extractPgMajor,
+  findPgTarget,
+  getPgMajorArtifactDir,
+  getPgVersionMatrix,
+  resolveEntriesForPgMajor,
+  resolveEntryForPgMajor,
+  validatePgVersionMatrix,
+} from "./pg-version-matrix";
+import { getPgdgAptPackage } from "./pgdg-mappings";
+import { generateMatrix, generateTags } from "../release/generate-version-tags";
+
+const REPO_ROOT = join(import.meta.dir, "../..");
+const PRIMARY = MANIFEST_METADATA.pgVersion;
+const PRIMARY_MAJOR = extractPgMajor(PRIMARY);
+const SHA = `sha256:${"a".repeat(64)}`;
+
+function entry(overrides: Partial<ManifestEntry> & { name: string }): ManifestEntry {
+  return {
+    kind: "extension",
+    category: "test",
+    description: "test entry",
+    source: { type: "git", repository: "https://example.com/x.git", tag: "v1.0.0" },
+    ...overrides,
+  };
+}
+
+describe("extractPgMajor", () => {
+  test("extracts the major from full and major-only versions", () => {
+    expect(extractPgMajor("18.4")).toBe("18");
+    expect(extractPgMajor("17.10")).toBe("17");
+    expect(extractPgMajor("17")).toBe("17");
+  });
+
+  test("rejects malformed versions", () => {
+    expect(() => extractPgMajor("latest")).toThrow();
+    expect(() => extractPgMajor("18.4-trixie")).toThrow();
+  });
+});
+
+describe("getPgVersionMatrix", () => {
+  test("primary comes first and matches MANIFEST_METADATA", () => {
+    const [primary, ...rest] = getPgVersionMatrix();
+    expect(primary?.pgVersion).toBe(PRIMARY);
+    expect(primary?.primary).toBe(true);
+    expect(primary?.baseImageSha).toBe(MANIFEST_METADATA.baseImageSha);
+    expect(primary?.artifactDir).toBe("docker/postgres");
+    expect(rest.every((t) => !t.primary)).toBe(true);
+  });
+
+  test("additional majors get their own artifact directory", () => {
+    expect(getPgMajorArtifactDir("17", "18")).toBe("docker/postgres/pg17");
+    expect(getPgMajorArtifactDir("18", "18")).toBe("docker/postgres");
+    const target = getPgVersionMatrix([{ pgVersion: "18.4" }, { pgVersion: "16.9" }])[1];
+    expect(target?.artifactDir).toBe("docker/postgres/pg16");
+  });
+
+  test("findPgTarget returns undefined for majors not in the matrix", () => {
+    expect(findPgTarget(PRIMARY_MAJOR)?.primary).toBe(true);
+    expect(findPgTarget("9")).toBeUndefined();
+  });
+});
+
+describe("resolveEntryForPgMajor", () => {
+  const timescale = entry({
+    name: "timescaledb",
+    install_via: "timescale",
+    timescalePackage: "timescaledb-2-postgresql-18",
+    timescaleVersion: "2.27.1~debian13-1804",
+    notes: ["base note"],
+    pgMajors: {
+      "17": {
+        timescalePackage: "timescaledb-2-postgresql-17",
+        timescaleVersion: "2.27.1~debian13-1710",
+        notes: ["pg17 note"],
+      },
+    },
+  });
+
+  test("applies package overrides and drops the pgMajors map", () => {
+    const resolved = resolveEntryForPgMajor(timescale, "17");
+    expect(resolved.timescalePackage).toBe("timescaledb-2-postgresql-17");
+    expect(resolved.timescaleVersion).toBe("2.27.1~debian13-1710");
+    expect(resolved.notes).toEqual(["base note", "pg17 note"]);
+    expect("pgMajors" in resolved).toBe(false);
+  });
+
+  test("majors without an override inherit the entry's own fields", () => {
+    const resolved = resolveEntryForPgMajor(timescale, "18");
+    expect(resolved.timescalePackage).toBe("timescaledb-2-postgresql-18");
+    expect("pgMajors" in resolved).toBe(false);
+  });
+
+  test("exclusions disable the entry with a reason", () => {
+    const resolved = resolveEntryForPgMajor(
+      entry({ name: "newext", pgMajors: { "17": { exclude: true, excludeReason: "no build" } } }),
+      "17"
+    );
+    expect(resolved.enabled).toBe(false);
+    expect(resolved.disabledReason).toBe("Not available for PostgreSQL 17: no build");
+  });
+
+  test("buildFeatures replaces cargo-pgrx features only", () => {
+    const resolved = resolveEntryForPgMajor(
+      entry({
+        name: "rustext",
+        build: { type: "cargo-pgrx", features: ["pg18"], noDefaultFeatures: true },
+        pgMajors: { "17": { buildFeatures: ["pg17"] } },
+      }),
+      "17"
+    );
+    expect(resolved.build).toEqual({
+      type: "cargo-pgrx",
+      features: ["pg17"],
+      noDefaultFeatures: true,
+    });
+  });
+
+  test("sourceTag replaces the tag and drops the primary commit", () => {
+    const resolved = resolveEntryForPgMajor(
+      {
+        name: "pgaudit",
+        install_via: "pgdg",
+        source: {
+          type: "git",
+          repository: "https://example.com/a.git",
+          tag: "18.0",
+          commit: "abc",
+        },
+        pgMajors: { "17": { sourceTag: "17.1" } },
+      },
+      "17"
+    );
+    expect(resolved.source.tag).toBe("17.1");
+    expect(resolved.source.repository).toBe("https://example.com/a.git");
+    expect(resolved.source).not.toHaveProperty("commit");
+  });
+});
+
+describe("validatePgVersionMatrix", () => {
+  const matrix = [{ pgVersion: PRIMARY, baseImageSha: SHA }, { pgVersion: "17.10" }];
+
+  test("repository manifest and matrix are valid", () => {
+    expect(validatePgVersionMatrix(MANIFEST_ENTRIES)).toEqual([]);
+  });
+
+  test("matrix must start with the primary version and pin its digest", () => {
+    expect(validatePgVersionMatrix([], [{ pgVersion: "17.10" }])).toContainEqual(
+      expect.stringContaining("must start with MANIFEST_METADATA.pgVersion")
+    );
+    expect(validatePgVersionMatrix([], [{ pgVersion: PRIMARY }])).toContainEqual(
+      expect.stringContaining("must pin baseImageSha")
+    );
+  });
+
+  test("rejects duplicate majors and malformed versions", () => {
+    expect(
+      validatePgVersionMatrix(
+        [],
+        [{ pgVersion: PRIMARY, baseImageSha: SHA }, { pgVersion: "18.1" }]
+      )
+    ).toContainEqual(expect.stringContaining("listed more than once"));
+    expect(validatePgVersionMatrix([], [{ pgVersion: "18" }])).toContainEqual(
+      expect.stringContaining("invalid pgVersion")
+    );
+  });
+
+  test("rejects overrides for the primary or unknown majors", () => {
+    const errors = validatePgVersionMatrix(
+      [entry({ name: "x", pgMajors: { [PRIMARY_MAJOR]: {}, "15": {} } })],
+      matrix
+    );
+    expect(errors).toContainEqual(expect.stringContaining("primary major uses the entry's own"));
+    expect(errors).toContainEqual(expect.stringContaining("PostgreSQL 15 is not in"));
+  });
+
+  test("exclusions need a reason and cannot drop default-enabled entries", () => {
+    const errors = validatePgVersionMatrix(
+      [
+        entry({
+          name: "core",
+          runtime: { defaultEnable: true },
+          pgMajors: { "17": { exclude: true } },
+        }),
+      ],
+      matrix
+    );
+    expect(errors).toContainEqual(expect.stringContaining("exclude requires excludeReason"));
+    expect(errors).toContainEqual(expect.stringContaining("cannot exclude a defaultEnable entry"));
+  });
+
+  test("enabled entries cannot depend on an excluded entry", () => {
+    const errors = validatePgVersionMatrix(
+      [
+        entry({ name: "base", pgMajors: { "17": { exclude: true, excludeReason: "n/a" } } }),
+        entry({ name: "dependent", dependencies: ["base"] }),
+      ],
+      matrix
+    );
+    expect(errors).toEqual(["dependent: depends on base, which is excluded for PostgreSQL 17"]);
+  });
+
+  test("flags package names and features still targeting the primary major", () => {
+    const errors = validatePgVersionMatrix(
+      [
+        entry({
+          name: "monitor",
+          install_via: "percona",
+          perconaPackage: `percona-pg-stat-monitor${PRIMARY_MAJOR}`,
+        }),
+        entry({ name: "rustext", build: { type: "cargo-pgrx", features: [`pg${PRIMARY_MAJOR}`] } }),
+      ],
+      matrix
+    );
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toContain('add a pgMajors["17"] override');
+  });
+
+  test("sourceTag and buildFeatures are restricted to matching entry types", () => {
+    const errors = validatePgVersionMatrix(
+      [
+        entry({
+          name: "src",
+          build: { type: "pgxs" },
+          pgMajors: { "17": { sourceTag: "v2", buildFeatures: ["pg17"] } },
+        }),
+      ],
+      matrix
+    );
+    expect(errors).toContainEqual(expect.stringContaining("sourceTag is only supported"));
+    expect(errors).toContainEqual(expect.stringContaining("buildFeatures is only supported"));
+  });
+});
+
+describe("generated per-major artifacts", () => {
+  for (const target of getPgVersionMatrix().filter((t) => !t.primary)) {
+    test(`PostgreSQL ${target.pgMajor} manifest matches the resolved manifest-data entries`, async () => {
+      const manifest = await Bun.file(
+        join(REPO_ROOT, target.artifactDir, "extensions.manifest.json")
+      ).json();
+      const resolved = resolveEntriesForPgMajor(MANIFEST_ENTRIES, target.pgMajor);
+      const byName = new Map(resolved.map((e) => [e.name, e]));
+      for (const generated of manifest.entries as ManifestEntry[]) {
+        const expected = byName.get(generated.name);
+        expect(expected).toBeDefined();
+        expect(generated.enabled).toBe(expected?.enabled);
+        expect(generated.pgdgVersion).toBe(expected?.pgdgVersion);
+        expect(generated.perconaPackage).toBe(expected?.perconaPackage);
+        expect(generated.timescalePackage).toBe(expected?.timescalePackage);
+        expect(generated.pgMajors).toBeUndefined();
+      }
+    });
+
+    test(`PostgreSQL ${target.pgMajor} Dockerfile targets its own major`, async () => {
+      const dockerfile = await Bun.file(join(REPO_ROOT, target.artifactDir, "Dockerfile")).text();
+      expect(dockerfile).toContain(`FROM postgres:${target.pgVersion}-trixie`);
+      expect(dockerfile).toContain(`COPY ${target.artifactDir}/extensions.manifest.json`);
+      expect(dockerfile).toContain(getPgdgAptPackage("pg_cron", target.pgMajor));
+      expect(dockerfile).not.toContain(`/usr/lib/postgresql/${PRIMARY_MAJOR}/`);
+      expect(dockerfile).not.toContain("{{");
+    });
+  }
+});
+
+describe("generate-version-tags", () => {
+  test("primary major tags are unchanged and marked primary", () => {
+    const tags = generateTags(PRIMARY, "202511221455");
+    expect(tags.versionTag).toBe(`${PRIMARY}-202511221455`);
+    expect(tags.imageTag).toBe(`${PRIMARY}-202511221455-single-node`);
+    expect(tags.convenience).toEqual([
+      `${PRIMARY}-single-node`,
+      `${PRIMARY_MAJOR}-single-node`,
+      PRIMARY,
+      PRIMARY_MAJOR,
+    ]);
+    expect(tags.primary).toBe(true);
+  });
+
+  test("additional majors get major-qualified tags only", () => {
+    const additional = getPgVersionMatrix().find((t) => !t.primary);
+    if (!additional) return;
+    const tags = generateTags(additional.pgVersion, "202511221455");
+    expect(tags.primary).toBe(false);
+    expect(tags.convenience.every((tag) => tag.startsWith(additional.pgMajor))).toBe(true);
+  });
+
+  test("rejects majors outside the matrix", () => {
+    expect(() => generateTags("9.6", "202511221455")).toThrow("not in PG_VERSION_MATRIX");
+  });
+
+  test("matrix rows point at each major's Dockerfile", () => {
+    const rows = generateMatrix();
+    expect(rows[0]?.dockerfile).toBe("docker/postgres/Dockerfile");
+    expect(rows.map((r) => r.pgMajor)).toEqual(getPgVersionMatrix().map((t) => t.pgMajor));
+  });
+});
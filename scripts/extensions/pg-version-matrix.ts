@@ -0,0 +1,307 @@
+/**
+ * PostgreSQL version matrix resolution.
+ *
+ * PG_VERSION_MATRIX in manifest-data.ts lists every major built from the manifest.
+ * This module resolves manifest entries for a given major (applying `pgMajors`
+ * overrides and exclusions), validates the overrides, and maps majors to their
+ * generated artifact directories.
+ *
+ * Used by:
+ * - scripts/docker/generate-dockerfile.ts (per-major Dockerfiles and manifests)
+ * - scripts/release/generate-version-tags.ts (per-major image tags)
+ * - scripts/test/test-extension-versions.ts (per-major manifest-version contract)
+ */
+
+import {
+  MANIFEST_METADATA,
+  PG_VERSION_MATRIX,
+  type ManifestEntry,
+  type PgMajorOverride,
+  type PgVersionTarget,
+} from "./manifest-data";
+
+export interface ResolvedPgTarget {
+  /** PostgreSQL version (e.g., "17.10") */
+  pgVersion: string;
+  /** PostgreSQL major (e.g., "17") */
+  pgMajor: string;
+  /** Base image digest, if pinned */
+  baseImageSha?: string;
+  /** True for the first matrix entry (MANIFEST_METADATA.pgVersion) */
+  primary: boolean;
+  /** Directory holding this major's generated Dockerfile and manifests (repo-relative) */
+  artifactDir: string;
+}
+
+/**
+ * Structural subset of a manifest entry touched by per-major resolution.
+ * Satisfied by both ManifestEntry and entries read back from extensions.manifest.json.
+ */
+export interface PgMatrixEntry {
+  name: string;
+  install_via?: string;
+  enabled?: boolean;
+  disabledReason?: string;
+  pgdgVersion?: string;
+  perconaPackage?: string;
+  perconaVersion?: string;
+  timescalePackage?: string;
+  timescaleVersion?: string;
+  soFileName?: string;
+  githubReleaseTag?: string;
+  build?: { type: string; features?: string[] };
+  source: { type: string; repository?: string; tag?: string };
+  notes?: string[];
+  pgMajors?: Record<string, PgMajorOverride>;
+}
+
+/** Override fields copied verbatim onto the resolved entry */
+const PACKAGE_OVERRIDE_FIELDS = [
+  "pgdgVersion",
+  "perconaPackage",
+  "perconaVersion",
+  "timescalePackage",
+  "timescaleVersion",
+  "soFileName",
+  "githubReleaseTag",
+] as const;
+
+/** Install methods pinned by package/release version rather than by source commit */
+const PACKAGE_INSTALL_METHODS = ["pgdg", "percona", "timescale", "github-release"];
+
+const PRIMARY_ARTIFACT_DIR = "docker/postgres";
+
+/**
+ * Extract the major from a PostgreSQL version (e.g., "18.4" -> "18")
+ */
+export function extractPgMajor(pgVersion: string): string {
+  const match = pgVersion.match(/^(\d+)(?:\.\d+)?$/);
+  if (!match?.[1]) {
+    throw new Error(`Could not extract major version from PostgreSQL version: ${pgVersion}`);
+  }
+  return match[1];
+}
+
+/**
+ * Directory holding the generated Dockerfile and manifests for a major
+ */
+export function getPgMajorArtifactDir(pgMajor: string, primaryMajor = getPrimaryPgMajor()): string {
+  return pgMajor === primaryMajor ? PRIMARY_ARTIFACT_DIR : `${PRIMARY_ARTIFACT_DIR}/pg${pgMajor}`;
+}
+
+/**
+ * Primary PostgreSQL major (from MANIFEST_METADATA)
+ */
+export function getPrimaryPgMajor(): string {
+  return extractPgMajor(MANIFEST_METADATA.pgVersion);
+}
+
+/**
+ * Resolve the version matrix into targets, primary first
+ */
+export function getPgVersionMatrix(
+  matrix: readonly PgVersionTarget[] = PG_VERSION_MATRIX
+): ResolvedPgTarget[] {
+  const primaryMajor = matrix[0] ? extractPgMajor(matrix[0].pgVersion) : getPrimaryPgMajor();
+  return matrix.map((target, index) => {
+    const pgMajor = extractPgMajor(target.pgVersion);
+    return {
+      pgVersion: target.pgVersion,
+      pgMajor,
+      baseImageSha: target.baseImageSha,
+      primary: index === 0,
+      artifactDir: getPgMajorArtifactDir(pgMajor, primaryMajor),
+    };
+  });
+}
+
+/**
+ * Find the matrix target for a major, or undefined if it is not built
+ */
+export function findPgTarget(
+  pgMajor: string,
+  matrix: readonly PgVersionTarget[] = PG_VERSION_MATRIX
+): ResolvedPgTarget | undefined {
+  return getPgVersionMatrix(matrix).find((target) => target.pgMajor === pgMajor);
+}
+
+/**
+ * Resolve a manifest entry for a major.
+ *
+ * Applies the entry's `pgMajors[pgMajor]` override (package pins, build features,
+ * source tag, notes). Excluded entries stay in the manifest but are marked disabled,
+ * so every generator treats them exactly like `enabled: false` entries.
+ * The `pgMajors` map itself is dropped from the result.
+ */
+export function resolveEntryForPgMajor<T extends PgMatrixEntry>(
+  entry: T,
+  pgMajor: string
+): Omit<T, "pgMajors"> {
+  const { pgMajors, ...base } = entry;
+  const override = pgMajors?.[pgMajor];
+  if (!override) {
+    return base;
+  }
+
+  const resolved: Record<string, unknown> = { ...base };
+
+  for (const field of PACKAGE_OVERRIDE_FIELDS) {
+    if (override[field] !== undefined) {
+      resolved[field] = override[field];
+    }
+  }
+
+  if (override.buildFeatures && entry.build) {
+    resolved.build = { ...entry.build, features: override.buildFeatures };
+  }
+
+  if (override.sourceTag && entry.source.type === "git") {
+    // The resolved commit belongs to the primary tag; package installs don't need one
+    resolved.source = {
+      type: "git",
+      repository: entry.source.repository,
+      tag: override.sourceTag,
+    };
+  }
+
+  if (override.notes) {
+    resolved.notes = [...(entry.notes ?? []), ...override.notes];
+  }
+
+  if (override.exclude) {
+    resolved.enabled = false;
+    resolved.disabledReason = `Not available for PostgreSQL ${pgMajor}: ${override.excludeReason ?? "excluded"}`;
+  }
+
+  return resolved as Omit<T, "pgMajors">;
+}
+
+/**
+ * Resolve all manifest entries for a major
+ */
+export function resolveEntriesForPgMajor<T extends PgMatrixEntry>(
+  entries: readonly T[],
+  pgMajor: string
+): Array<Omit<T, "pgMajors">> {
+  return entries.map((entry) => resolveEntryForPgMajor(entry, pgMajor));
+}
+
+/**
+ * Check whether a value still names the primary major (e.g., "postgresql-18" on a PG17 build)
+ */
+function referencesMajor(value: string, pgMajor: string): boolean {
+  return new RegExp(`(^|\\D)${pgMajor}(\\D|$)`).test(value);
+}
+
+/**
+ * Validate the version matrix and every entry's `pgMajors` overrides.
+ *
+ * @returns List of error messages (empty when valid)
+ */
+export function validatePgVersionMatrix(
+  entries: readonly ManifestEntry[],
+  matrix: readonly PgVersionTarget[] = PG_VERSION_MATRIX
+): string[] {
+  const errors: string[] = [];
+
+  if (matrix.length === 0) {
+    return ["PG_VERSION_MATRIX must list at least the primary PostgreSQL version"];
+  }
+
+  const seenMajors = new Set<string>();
+  for (const [index, target] of matrix.entries()) {
+    if (!/^\d+\.\d+$/.test(target.pgVersion)) {
+      errors.push(`PG_VERSION_MATRIX[${index}]: invalid pgVersion "${target.pgVersion}"`);
+      continue;
+    }
+    const pgMajor = extractPgMajor(target.pgVersion);
+    if (seenMajors.has(pgMajor)) {
+      errors.push(`PG_VERSION_MATRIX: PostgreSQL ${pgMajor} is listed more than once`);
+    }
+    seenMajors.add(pgMajor);
+    if (target.baseImageSha !== undefined && !/^sha256:[a-f0-9]{64}$/.test(target.baseImageSha)) {
+      errors.push(`PG_VERSION_MATRIX[${index}]: invalid baseImageSha "${target.baseImageSha}"`);
+    }
+  }
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  const targets = getPgVersionMatrix(matrix);
+  const primary = targets[0]!;
+  if (primary.pgVersion !== MANIFEST_METADATA.pgVersion) {
+    errors.push(
+      `PG_VERSION_MATRIX must start with MANIFEST_METADATA.pgVersion (${MANIFEST_METADATA.pgVersion}), got ${primary.pgVersion}`
+    );
+  }
+  if (!primary.baseImageSha) {
+    errors.push(`Primary PostgreSQL ${primary.pgMajor} must pin baseImageSha`);
+  }
+
+  const additionalMajors = new Set(targets.filter((t) => !t.primary).map((t) => t.pgMajor));
+
+  for (const entry of entries) {
+    for (const [pgMajor, override] of Object.entries(entry.pgMajors ?? {})) {
+      const where = `${entry.name}.pgMajors["${pgMajor}"]`;
+      if (pgMajor === primary.pgMajor) {
+        errors.push(`${where}: primary major uses the entry's own fields; move the values there`);
+        continue;
+      }
+      if (!additionalMajors.has(pgMajor)) {
+        errors.push(`${where}: PostgreSQL ${pgMajor} is not in PG_VERSION_MATRIX`);
+        continue;
+      }
+      if (override.exclude && !override.excludeReason) {
+        errors.push(`${where}: exclude requires excludeReason`);
+      }
+      if (override.exclude && entry.runtime?.defaultEnable) {
+        errors.push(
+          `${where}: cannot exclude a defaultEnable entry (init SQL and entrypoint are shared across majors)`
+        );
+      }
+      if (
+        override.sourceTag &&
+        (!entry.install_via || !PACKAGE_INSTALL_METHODS.includes(entry.install_via))
+      ) {
+        errors.push(`${where}: sourceTag is only supported for package-installed entries`);
+      }
+      if (override.buildFeatures && entry.build?.type !== "cargo-pgrx") {
+        errors.push(`${where}: buildFeatures is only supported for cargo-pgrx builds`);
+      }
+    }
+  }
+
+  for (const pgMajor of additionalMajors) {
+    const resolved = resolveEntriesForPgMajor(entries, pgMajor);
+    const excluded = new Set(
+      entries.filter((e) => e.pgMajors?.[pgMajor]?.exclude).map((e) => e.name)
+    );
+
+    for (const entry of resolved) {
+      if (entry.enabled === false) continue;
+
+      for (const dep of entry.dependencies ?? []) {
+        if (excluded.has(dep)) {
+          errors.push(
+            `${entry.name}: depends on ${dep}, which is excluded for PostgreSQL ${pgMajor}`
+          );
+        }
+      }
+
+      const majorSpecific = [
+        entry.perconaPackage,
+        entry.timescalePackage,
+        ...(entry.build?.type === "cargo-pgrx" ? (entry.build.features ?? []) : []),
+      ].filter((value): value is string => value !== undefined);
+      for (const value of majorSpecific) {
+        if (referencesMajor(value, primary.pgMajor)) {
+          errors.push(
+            `${entry.name}: "${value}" targets PostgreSQL ${primary.pgMajor}; add a pgMajors["${pgMajor}"] override`
+          );
+        }
+      }
+    }
+  }
+
+  return errors;
+}
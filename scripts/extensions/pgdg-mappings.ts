@@ -5,12 +5,16 @@
  * Any changes here automatically propagate to:
  * - scripts/extensions/validate-pgdg-versions.ts (validation)
  * - scripts/docker/generate-dockerfile.ts (Dockerfile generation)
+ *
+ * Package names are major-agnostic: the apt package for a given major is built with
+ * getPgdgAptPackage(), and versions come from each major's resolved manifest entry
+ * (see scripts/extensions/pg-version-matrix.ts).
  */
 
 export interface PgdgMapping {
   /** Extension name as it appears in manifest-data.ts */
   manifestName: string;
-  /** PGDG apt package name (e.g., "repack" for postgresql-18-repack) */
+  /** PGDG apt package name without the major prefix (e.g., "repack" for postgresql-<major>-repack) */
   packageName: string;
   /** Dockerfile ARG name for version pinning */
   argName: string;
@@ -102,3 +106,14 @@ export const PGDG_MAPPINGS: readonly PgdgMapping[] = [
 export const PACKAGE_NAME_MAP: Readonly<Record<string, string>> = Object.fromEntries(
   PGDG_MAPPINGS.map((m) => [m.manifestName, m.packageName])
 );
+
+/**
+ * Full PGDG apt package name for a manifest entry and PostgreSQL major.
+ * Falls back to the manifest name with underscores replaced for unmapped entries.
+ *
+ * @example getPgdgAptPackage("pg_repack", "17") // "postgresql-17-repack"
+ */
+export function getPgdgAptPackage(manifestName: string, pgMajor: string): string {
+  const packageName = PACKAGE_NAME_MAP[manifestName] ?? manifestName.replace(/_/g, "-");
+  return `postgresql-${pgMajor}-${packageName}`;
+}
@@ -0,0 +1,213 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+
+import { resolveImageRuntimeProfiles } from "../docker/generate-entrypoint";
+import type { ManifestEntry } from "./manifest-data";
+import { createMockEntry } from "../test/manifest-test-utils";
+import {
+  combineRuntimeProfiles,
+  renderBashProfileTables,
+  resolveRuntimeProfiles,
+  validateRuntimeProfileDefinitions,
+  type RuntimeProfileDefinition,
+} from "./runtime-profiles";
+
+const REPO_ROOT = join(import.meta.dir, "../..");
+
+const ENTRIES: ManifestEntry[] = [
+  createMockEntry({
+    name: "auto_explain",
+    kind: "builtin",
+    category: "observability",
+    runtime: { sharedPreload: true, defaultEnable: true, preloadOnly: true },
+  }),
+  createMockEntry({
+    name: "plpgsql",
+    kind: "builtin",
+    category: "language",
+    runtime: { defaultEnable: true },
+  }),
+  createMockEntry({ name: "vector", category: "ai", runtime: { defaultEnable: true } }),
+  createMockEntry({ name: "vectorscale", category: "ai", dependencies: ["vector"] }),
+  createMockEntry({ name: "pgsodium", category: "security", runtime: { sharedPreload: true } }),
+  createMockEntry({ name: "supabase_vault", category: "security", dependencies: ["pgsodium"] }),
+  createMockEntry({
+    name: "pg_cron",
+    category: "operations",
+    runtime: { sharedPreload: true, defaultEnable: true },
+  }),
+  createMockEntry({
+    name: "pg_partman",
+    category: "operations",
+    runtime: { sharedPreload: true, preloadLibraryName: "pg_partman_bgw" },
+  }),
+  createMockEntry({ name: "pgbackrest", kind: "tool", category: "operations" }),
+  createMockEntry({
+    name: "postgis",
+    category: "gis",
+    enabled: false,
+    disabledReason: "Too large",
+  }),
+  createMockEntry({ name: "pgrouting", category: "gis", dependencies: ["postgis"] }),
+];
+
+const DEFAULTS = { extensions: ["plpgsql", "vector"], preload: ["pg_cron", "auto_explain"] };
+
+const DEFINITIONS: RuntimeProfileDefinition[] = [
+  {
+    name: "ai",
+    description: "vectors",
+    categories: ["ai"],
+    settings: { "hnsw.iterative_scan": "strict_order" },
+  },
+  { name: "vault", description: "secrets", extensions: ["supabase_vault"] },
+  { name: "ops", description: "operations", categories: ["operations"] },
+  { name: "geo", description: "spatial", categories: ["gis"] },
+];
+
+describe("resolveRuntimeProfiles", () => {
+  const { profiles, extensionOrder } = resolveRuntimeProfiles(ENTRIES, DEFAULTS, DEFINITIONS);
+  const profile = (name: string) => profiles.find((p) => p.name === name);
+
+  test("core holds default-enabled builtins and default mirrors the image defaults", () => {
+    expect(profile("core")?.extensions).toEqual(["plpgsql"]);
+    expect(profile("core")?.preload).toEqual(["auto_explain"]);
+    expect(profile("default")?.extensions).toEqual(["plpgsql", "vector"]);
+    expect(profile("default")?.preload).toEqual(["auto_explain", "pg_cron"]);
+  });
+
+  test("category profiles include non-default entries and their settings", () => {
+    expect(profile("ai")?.extensions).toEqual(["vector", "vectorscale"]);
+    expect(profile("ai")?.preload).toEqual([]);
+    expect(profile("ai")?.settings).toEqual([["hnsw.iterative_scan", "strict_order"]]);
+  });
+
+  test("dependencies bring their preload libraries along", () => {
+    expect(profile("vault")?.extensions).toEqual(["pgsodium", "supabase_vault"]);
+    expect(profile("vault")?.preload).toEqual(["pgsodium"]);
+  });
+
+  test("tools are not created and preload library names are used", () => {
+    expect(profile("ops")?.extensions).toEqual(["pg_cron", "pg_partman"]);
+    expect(profile("ops")?.preload).toEqual(["pg_cron", "pg_partman_bgw"]);
+  });
+
+  test("profiles without any available member are unavailable with the reason", () => {
+    expect(profile("geo")?.unavailableReason).toBe(
+      "postgis: disabled in the manifest (Too large); pgrouting: depends on postgis, which is not available"
+    );
+    expect(extensionOrder).not.toContain("postgis");
+  });
+
+  test("extension order covers every available profile in dependency order", () => {
+    expect(extensionOrder).toEqual([
+      "plpgsql",
+      "vector",
+      "vectorscale",
+      "pgsodium",
+      "supabase_vault",
+      "pg_cron",
+      "pg_partman",
+    ]);
+  });
+});
+
+describe("validateRuntimeProfileDefinitions", () => {
+  test("reports every problem at once", () => {
+    let message = "";
+    try {
+      validateRuntimeProfileDefinitions(
+        [
+          { name: "default", description: "", categories: ["ai"] },
+          { name: "Bad Name", description: "", categories: ["nope"], extensions: ["missing"] },
+          { name: "empty", description: "" },
+          {
+            name: "unsafe",
+            description: "",
+            categories: ["ai"],
+            settings: { work_mem: "64MB", "hnsw.ef_search": "1; DROP" },
+          },
+        ],
+        ENTRIES
+      );
+    } catch (err) {
+      message = String(err);
+    }
+    expect(message).toContain("default: duplicate or reserved profile name");
+    expect(message).toContain("Bad Name: profile names must be lowercase");
+    expect(message).toContain("Bad Name: no manifest entry has category nope");
+    expect(message).toContain("Bad Name: missing is not in the extensions manifest");
+    expect(message).toContain("empty: must select at least one category or extension");
+    expect(message).toContain("setting work_mem must be a namespaced GUC");
+    expect(message).toContain("setting hnsw.ef_search has a value that needs quoting");
+  });
+});
+
+describe("combineRuntimeProfiles", () => {
+  const profileSet = resolveRuntimeProfiles(ENTRIES, DEFAULTS, DEFINITIONS);
+
+  test("named profiles are combined with core in dependency order", () => {
+    const combined = combineRuntimeProfiles(profileSet, ["vault", " ai "]);
+    expect(combined.names).toEqual(["core", "ai", "vault"]);
+    expect(combined.extensions).toEqual([
+      "plpgsql",
+      "vector",
+      "vectorscale",
+      "pgsodium",
+      "supabase_vault",
+    ]);
+    expect(combined.preload).toEqual(["auto_explain", "pgsodium"]);
+    expect(combined.settings).toEqual([["hnsw.iterative_scan", "strict_order"]]);
+  });
+
+  test("default is used verbatim without core", () => {
+    const combined = combineRuntimeProfiles(profileSet, ["default"]);
+    expect(combined.names).toEqual(["default"]);
+    expect(combined.preload).toEqual(["auto_explain", "pg_cron"]);
+  });
+
+  test("unknown, unavailable and empty selections are rejected", () => {
+    expect(() => combineRuntimeProfiles(profileSet, ["nope"])).toThrow(
+      "Unknown extension profile 'nope'"
+    );
+    expect(() => combineRuntimeProfiles(profileSet, ["geo"])).toThrow(
+      "'geo' is not available in this image (postgis: disabled"
+    );
+    expect(() => combineRuntimeProfiles(profileSet, [" ", ""])).toThrow("At least one");
+  });
+});
+
+describe("renderBashProfileTables", () => {
+  test("renders quoted tables for available and unavailable profiles", () => {
+    const tables = renderBashProfileTables(resolveRuntimeProfiles(ENTRIES, DEFAULTS, DEFINITIONS));
+    expect(tables).toContain("readonly EXTENSION_PROFILE_NAMES=(core default ai vault ops)");
+    expect(tables).toContain("    [vault]='pgsodium,supabase_vault'");
+    expect(tables).toContain("    [ops]='pg_cron,pg_partman_bgw'");
+    expect(tables).toContain("    [ai]='hnsw.iterative_scan=strict_order'");
+    expect(tables).toContain("    [geo]='postgis: disabled in the manifest (Too large);");
+  });
+});
+
+describe("repository profiles", () => {
+  async function loadProfileSet() {
+    const manifest = (await Bun.file(
+      join(REPO_ROOT, "docker/postgres/extensions.manifest.json")
+    ).json()) as { entries: ManifestEntry[] };
+    return resolveImageRuntimeProfiles(manifest.entries);
+  }
+
+  test("built-in definitions resolve against the manifest", async () => {
+    const { profiles } = await loadProfileSet();
+    const available = profiles.filter((p) => !p.unavailableReason).map((p) => p.name);
+    expect(available).toEqual(["core", "default", "ai", "timeseries", "queue", "supabase-compat"]);
+    // PostGIS is disabled in the manifest; the entrypoint explains why geo cannot be selected
+    expect(profiles.find((p) => p.name === "geo")?.unavailableReason).toContain("postgis");
+  });
+
+  test("generated entrypoint contains the current profile tables", async () => {
+    const entrypoint = await Bun.file(
+      join(REPO_ROOT, "docker/postgres/docker-auto-config-entrypoint.sh")
+    ).text();
+    expect(entrypoint).toContain(renderBashProfileTables(await loadProfileSet()));
+  });
+});
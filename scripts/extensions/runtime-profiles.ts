@@ -0,0 +1,421 @@
+/**
+ * Runtime extension profiles: named extension sets selected at container start
+ *
+ * `POSTGRES_EXTENSION_PROFILE=ai,queue` picks one or more profiles baked into the image.
+ * Each profile drives three things in the entrypoint and init scripts:
+ *
+ * - shared_preload_libraries (every preload library of the profile and its dependencies)
+ * - the extensions 01-extensions.sql creates on first start (and the healthcheck expects)
+ * - GUC defaults for those extensions (passed before user arguments, so `-c` still wins)
+ *
+ * Profiles are declared by manifest category and/or extension name and resolved against the
+ * image manifest, so a dependency (e.g. supabase_vault → pgsodium) is pulled in with its
+ * preload library, and a build profile image (scripts/extensions/build-profile.ts) only offers
+ * what it actually ships. Two profiles are implicit:
+ *
+ * - `default`: the image defaults (defaultEnable entries), used when the variable is unset
+ * - `core`: default-enabled builtins (plpgsql, pg_stat_statements, ...), added to any
+ *   selection that does not include `default`
+ *
+ * This module is pure. The entrypoint generator renders the resolved profiles as bash tables
+ * ({{EXTENSION_PROFILE_TABLES}}) and the entrypoint combines the selected ones at startup;
+ * combineRuntimeProfiles() is the TypeScript mirror of that bash logic.
+ */
+
+import type { ManifestEntry } from "./manifest-data";
+import { resolveExtensionDependencies } from "../test/manifest-test-utils";
+
+export const DEFAULT_PROFILE = "default";
+export const CORE_PROFILE = "core";
+
+export interface RuntimeProfileDefinition {
+  name: string;
+  description: string;
+  /** Manifest categories whose entries belong to the profile */
+  categories?: string[];
+  /** Individual manifest entries that belong to the profile */
+  extensions?: string[];
+  /** GUC defaults applied when the profile is active */
+  settings?: Record<string, string>;
+}
+
+/** Image default set the `default` profile reproduces exactly */
+export interface RuntimeProfileDefaults {
+  /** Extensions created at init (getDefaultEnabledExtensions) */
+  extensions: string[];
+  /** Default shared_preload_libraries */
+  preload: string[];
+}
+
+export interface ResolvedRuntimeProfile {
+  name: string;
+  description: string;
+  /** Extensions created at init, in dependency order */
+  extensions: string[];
+  /** Preload libraries (preloadLibraryName or name), sorted */
+  preload: string[];
+  settings: Array<[name: string, value: string]>;
+  /** Profile members this image cannot provide, with the reason */
+  skipped: string[];
+  /** Set when nothing in the profile is available in this image */
+  unavailableReason?: string;
+}
+
+export interface RuntimeProfileSet {
+  profiles: ResolvedRuntimeProfile[];
+  /** Union of all profile extensions in dependency order (creation order at init) */
+  extensionOrder: string[];
+}
+
+export interface CombinedRuntimeProfile {
+  /** Active profiles in table order (core added unless default is selected) */
+  names: string[];
+  extensions: string[];
+  preload: string[];
+  settings: Array<[name: string, value: string]>;
+}
+
+/**
+ * Named profiles baked into the image. Keep in sync with docs/ENVIRONMENT-VARIABLES.md.
+ */
+export const RUNTIME_PROFILE_DEFINITIONS: readonly RuntimeProfileDefinition[] = [
+  {
+    name: "ai",
+    description: "Vector search (pgvector, pgvectorscale)",
+    categories: ["ai"],
+    settings: {
+      "hnsw.iterative_scan": "strict_order",
+      "ivfflat.iterative_scan": "relaxed_order",
+    },
+  },
+  {
+    name: "timeseries",
+    description: "TimescaleDB hypertables and toolkit",
+    categories: ["timeseries"],
+    settings: { "timescaledb.telemetry_level": "off" },
+  },
+  {
+    name: "queue",
+    description: "Message queues and workflows (pgmq, pgflow)",
+    categories: ["queueing", "workflow"],
+  },
+  {
+    name: "geo",
+    description: "Spatial data and routing (PostGIS, pgRouting)",
+    categories: ["gis"],
+    settings: {
+      "postgis.gdal_enabled_drivers": "DISABLE_ALL",
+      "postgis.enable_outdb_rasters": "off",
+    },
+  },
+  {
+    name: "supabase-compat",
+    description: "Extensions Supabase projects commonly expect",
+    extensions: [
+      "pg_cron",
+      "pg_net",
+      "http",
+      "supabase_vault",
+      "supautils",
+      "wrappers",
+      "pg_jsonschema",
+      "pg_hashids",
+      "index_advisor",
+    ],
+  },
+];
+
+/** Profile names are comma-separated in POSTGRES_EXTENSION_PROFILE and bash table keys */
+const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+/** Extension GUCs are always namespaced (`prefix.name`) */
+const SETTING_NAME_PATTERN = /^[a-z_][a-z0-9_]*(\.[a-z_][a-z0-9_]*)+$/;
+/** Values are passed unquoted as `-c name=value` and stored space-separated in bash */
+const SETTING_VALUE_PATTERN = /^[A-Za-z0-9_.:/+-]+$/;
+
+function preloadLibraryName(entry: ManifestEntry): string {
+  return entry.runtime?.preloadLibraryName ?? entry.name;
+}
+
+function isCreatable(entry: ManifestEntry): boolean {
+  return entry.kind !== "tool" && !entry.runtime?.preloadOnly;
+}
+
+/**
+ * Check profile definitions against the manifest
+ *
+ * @throws Error listing every problem found
+ */
+export function validateRuntimeProfileDefinitions(
+  definitions: readonly RuntimeProfileDefinition[],
+  manifestEntries: readonly ManifestEntry[]
+): void {
+  const errors: string[] = [];
+  const names = new Set(manifestEntries.map((e) => e.name));
+  const categories = new Set(manifestEntries.map((e) => e.category));
+  const seen = new Set<string>([DEFAULT_PROFILE, CORE_PROFILE]);
+
+  for (const definition of definitions) {
+    const { name } = definition;
+    if (!PROFILE_NAME_PATTERN.test(name)) {
+      errors.push(`${name}: profile names must be lowercase letters, digits and hyphens`);
+    }
+    if (seen.has(name)) {
+      errors.push(`${name}: duplicate or reserved profile name`);
+    }
+    seen.add(name);
+
+    if ((definition.categories ?? []).length + (definition.extensions ?? []).length === 0) {
+      errors.push(`${name}: must select at least one category or extension`);
+    }
+    for (const category of definition.categories ?? []) {
+      if (!categories.has(category)) {
+        errors.push(`${name}: no manifest entry has category ${category}`);
+      }
+    }
+    for (const extension of definition.extensions ?? []) {
+      if (!names.has(extension)) {
+        errors.push(`${name}: ${extension} is not in the extensions manifest`);
+      }
+    }
+    for (const [setting, value] of Object.entries(definition.settings ?? {})) {
+      if (!SETTING_NAME_PATTERN.test(setting)) {
+        errors.push(`${name}: setting ${setting} must be a namespaced GUC (prefix.name)`);
+      }
+      if (!SETTING_VALUE_PATTERN.test(value)) {
+        errors.push(`${name}: setting ${setting} has a value that needs quoting (${value})`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid runtime extension profiles:\n  ${errors.join("\n  ")}`);
+  }
+}
+
+/**
+ * Resolve the implicit and declared profiles against the image manifest
+ *
+ * Members that are disabled in the manifest (or depend on a disabled entry) are skipped;
+ * a profile with no remaining members is marked unavailable instead of failing the build,
+ * so the entrypoint can explain why it cannot be selected.
+ *
+ * @throws Error if the definitions do not match the manifest
+ */
+export function resolveRuntimeProfiles(
+  manifestEntries: readonly ManifestEntry[],
+  defaults: RuntimeProfileDefaults,
+  definitions: readonly RuntimeProfileDefinition[] = RUNTIME_PROFILE_DEFINITIONS
+): RuntimeProfileSet {
+  validateRuntimeProfileDefinitions(definitions, manifestEntries);
+
+  const byName = new Map(manifestEntries.map((e) => [e.name, e] as const));
+  const isAvailable = (e: ManifestEntry) => e.enabled !== false;
+
+  // Why an entry cannot be provided, following dependencies (null when it can)
+  const unavailable = new Map<string, string | null>();
+  function unavailableReason(name: string, path: string[] = []): string | null {
+    const cached = unavailable.get(name);
+    if (cached !== undefined) return cached;
+
+    const entry = byName.get(name);
+    let reason: string | null = null;
+    if (!entry) {
+      reason = "not in the extensions manifest";
+    } else if (!isAvailable(entry)) {
+      reason = `disabled in the manifest (${entry.disabledReason ?? "no reason"})`;
+    } else if (path.includes(name)) {
+      throw new Error(`Circular dependency detected: ${name}`);
+    } else {
+      for (const dependency of entry.dependencies ?? []) {
+        if (unavailableReason(dependency, [...path, name]) !== null) {
+          reason = `depends on ${dependency}, which is not available`;
+          break;
+        }
+      }
+    }
+    unavailable.set(name, reason);
+    return reason;
+  }
+
+  // Member plus its dependencies, all available
+  function closure(names: readonly string[]): ManifestEntry[] {
+    const result = new Map<string, ManifestEntry>();
+    const visit = (name: string) => {
+      const entry = byName.get(name);
+      if (!entry || result.has(name)) return;
+      result.set(name, entry);
+      for (const dependency of entry.dependencies ?? []) visit(dependency);
+    };
+    names.forEach(visit);
+    return [...result.values()];
+  }
+
+  const allOrdered = resolveExtensionDependencies(manifestEntries.filter(isAvailable));
+  const orderIndex = new Map(allOrdered.map((e, i) => [e.name, i] as const));
+  const inOrder = (names: Iterable<string>) =>
+    [...new Set(names)].sort((a, b) => (orderIndex.get(a) ?? 0) - (orderIndex.get(b) ?? 0));
+
+  const fromMembers = (
+    name: string,
+    description: string,
+    members: readonly string[],
+    settings: Record<string, string> = {}
+  ): ResolvedRuntimeProfile => {
+    const skipped: string[] = [];
+    const available = members.filter((member) => {
+      const reason = unavailableReason(member);
+      if (reason !== null) skipped.push(`${member}: ${reason}`);
+      return reason === null;
+    });
+    const entries = closure(available);
+    const resolved: ResolvedRuntimeProfile = {
+      name,
+      description,
+      extensions: inOrder(entries.filter(isCreatable).map((e) => e.name)),
+      preload: entries
+        .filter((e) => e.runtime?.sharedPreload)
+        .map(preloadLibraryName)
+        .sort(),
+      settings: Object.entries(settings),
+      skipped,
+    };
+    if (members.length > 0 && available.length === 0) {
+      resolved.unavailableReason = skipped.join("; ");
+    }
+    return resolved;
+  };
+
+  const core = fromMembers(
+    CORE_PROFILE,
+    "Default-enabled builtins (always active)",
+    manifestEntries
+      .filter((e) => e.kind === "builtin" && isAvailable(e) && e.runtime?.defaultEnable)
+      .map((e) => e.name)
+  );
+
+  // The default profile is the image default set verbatim, not re-derived
+  const defaultProfile: ResolvedRuntimeProfile = {
+    name: DEFAULT_PROFILE,
+    description: "Image defaults (used when POSTGRES_EXTENSION_PROFILE is unset)",
+    extensions: inOrder(defaults.extensions),
+    preload: [...defaults.preload].sort(),
+    settings: [],
+    skipped: [],
+  };
+
+  const declared = definitions.map((definition) => {
+    const categories = new Set(definition.categories ?? []);
+    const members = manifestEntries
+      .filter((e) => categories.has(e.category))
+      .map((e) => e.name)
+      .concat(definition.extensions ?? []);
+    return fromMembers(
+      definition.name,
+      definition.description,
+      [...new Set(members)],
+      definition.settings
+    );
+  });
+
+  const profiles = [core, defaultProfile, ...declared];
+  return {
+    profiles,
+    extensionOrder: inOrder(
+      profiles.filter((p) => !p.unavailableReason).flatMap((p) => p.extensions)
+    ),
+  };
+}
+
+/**
+ * Combine selected profiles the way the entrypoint does
+ *
+ * @param selection - Profile names as given in POSTGRES_EXTENSION_PROFILE
+ * @throws Error for unknown or unavailable profiles
+ */
+export function combineRuntimeProfiles(
+  profileSet: RuntimeProfileSet,
+  selection: readonly string[]
+): CombinedRuntimeProfile {
+  const byName = new Map(profileSet.profiles.map((p) => [p.name, p] as const));
+  const selected = new Set<string>();
+  for (const raw of selection) {
+    const name = raw.trim();
+    if (name === "") continue;
+    const profile = byName.get(name);
+    if (!profile) {
+      throw new Error(
+        `Unknown extension profile '${name}' (available: ${[...byName.keys()].join(", ")})`
+      );
+    }
+    if (profile.unavailableReason) {
+      throw new Error(
+        `Extension profile '${name}' is not available in this image (${profile.unavailableReason})`
+      );
+    }
+    selected.add(name);
+  }
+  if (selected.size === 0) {
+    throw new Error("At least one extension profile must be selected");
+  }
+  if (!selected.has(DEFAULT_PROFILE)) {
+    selected.add(CORE_PROFILE);
+  }
+
+  const active = profileSet.profiles.filter((p) => selected.has(p.name));
+  const extensions = new Set(active.flatMap((p) => p.extensions));
+  return {
+    names: active.map((p) => p.name),
+    extensions: profileSet.extensionOrder.filter((name) => extensions.has(name)),
+    preload: [...new Set(active.flatMap((p) => p.preload))].sort(),
+    settings: active.flatMap((p) => p.settings),
+  };
+}
+
+function bashQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function renderAssociativeArray(name: string, entries: Array<[string, string]>): string {
+  const lines = entries.map(([key, value]) => `    [${key}]=${bashQuote(value)}`);
+  return `declare -A ${name}=(\n${lines.join("\n")}\n)`;
+}
+
+/**
+ * Render the resolved profiles as bash declarations.
+ * Replaces the {{EXTENSION_PROFILE_TABLES}} placeholder in the entrypoint template.
+ */
+export function renderBashProfileTables(profileSet: RuntimeProfileSet): string {
+  const available = profileSet.profiles.filter((p) => !p.unavailableReason);
+  const unavailable = profileSet.profiles.filter((p) => p.unavailableReason);
+
+  return [
+    `readonly EXTENSION_PROFILE_NAMES=(${available.map((p) => p.name).join(" ")})`,
+    `readonly EXTENSION_PROFILE_ORDER=${bashQuote(profileSet.extensionOrder.join(","))}`,
+    "",
+    "# Extensions created at init, per profile (comma-separated)",
+    renderAssociativeArray(
+      "EXTENSION_PROFILE_EXTENSIONS",
+      available.map((p) => [p.name, p.extensions.join(",")])
+    ),
+    "",
+    "# shared_preload_libraries, per profile (comma-separated)",
+    renderAssociativeArray(
+      "EXTENSION_PROFILE_PRELOAD",
+      available.map((p) => [p.name, p.preload.join(",")])
+    ),
+    "",
+    "# GUC defaults, per profile (space-separated name=value)",
+    renderAssociativeArray(
+      "EXTENSION_PROFILE_SETTINGS",
+      available
+        .filter((p) => p.settings.length > 0)
+        .map((p) => [p.name, p.settings.map(([name, value]) => `${name}=${value}`).join(" ")])
+    ),
+    "",
+    "# Profiles this image cannot provide, with the reason",
+    renderAssociativeArray(
+      "EXTENSION_PROFILE_UNAVAILABLE",
+      unavailable.map((p) => [p.name, p.unavailableReason ?? ""])
+    ),
+  ].join("\n");
+}
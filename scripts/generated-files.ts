@@ -20,6 +20,12 @@ export const GENERATED_FILES = [
   "docker/postgres/docker-entrypoint-initdb.d/01-extensions.sql",
   "docker/postgres/IMAGE-CONTENTS.txt",
 
+  // Docker artifacts - additional PG_VERSION_MATRIX majors
+  "docker/postgres/pg17/Dockerfile",
+  "docker/postgres/pg17/extensions.manifest.json",
+  "docker/postgres/pg17/extensions.pgxs.manifest.json",
+  "docker/postgres/pg17/extensions.cargo.manifest.json",
+
   // Documentation
   "docs/.generated/docs-data.json",
   "docs/EXTENSIONS.md",
@@ -30,14 +36,31 @@ export const GENERATED_FILES = [
   // PostgreSQL configs - primary stack
   "stacks/primary/configs/postgresql-primary.conf",
   "stacks/primary/configs/pg_hba.conf",
+  "stacks/primary/configs/pg_hba-tls.conf",
+  "stacks/primary/configs/pg_ident.conf",
 
   // PostgreSQL configs - replica stack
   "stacks/replica/configs/postgresql-replica.conf",
   "stacks/replica/configs/pg_hba.conf",
+  "stacks/replica/configs/pg_hba-tls.conf",
+  "stacks/replica/configs/pg_ident.conf",
 
   // PostgreSQL configs - single stack
   "stacks/single/configs/postgresql.conf",
   "stacks/single/configs/pg_hba.conf",
+  "stacks/single/configs/pg_hba-tls.conf",
+  "stacks/single/configs/pg_ident.conf",
+
+  // PostgreSQL configs - logical replication stack
+  "stacks/logical/configs/postgresql-logical.conf",
+  "stacks/logical/configs/pg_hba.conf",
+  "stacks/logical/configs/pg_hba-tls.conf",
+  "stacks/logical/configs/pg_ident.conf",
+
+  // Monitoring - exporter queries, alerts and dashboard from manifest observability specs
+  "docker/postgres/configs/postgres_exporter_queries.yaml",
+  "examples/prometheus/alerts.yml",
+  "examples/grafana/postgresql-extensions.json",
 
   // Workflow configuration
   ".github/workflow-config.json",
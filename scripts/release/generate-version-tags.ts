@@ -5,30 +5,44 @@
  *
  * Usage:
  *   bun scripts/release/generate-version-tags.ts --pg-version=18.1 --timestamp=202511221455 [--github-output]
+ *   bun scripts/release/generate-version-tags.ts --pg-major=17 --timestamp=202511221455 [--github-output]
+ *   bun scripts/release/generate-version-tags.ts --matrix [--github-output]
  *
  * Arguments:
- *   --pg-version    Full PostgreSQL version (e.g., "18.1")
+ *   --pg-version    Full PostgreSQL version (e.g., "18.1"); its major must be in PG_VERSION_MATRIX
+ *   --pg-major      PostgreSQL major (e.g., "17"); full version is taken from PG_VERSION_MATRIX
  *   --timestamp     Build timestamp in YYYYMMDDHHmm format
+ *   --matrix        Print the version matrix as JSON (for a CI build matrix) instead of tags
  *   --github-output Output to GITHUB_OUTPUT file (GitHub Actions)
  *
  * Output:
  *   version_tag=18.1-202511221455            (for releases, no type suffix)
  *   image_tag=18.1-202511221455-single-node  (for containers, with type suffix)
  *   convenience=18.1-single-node,18-single-node,18.1,18
+ *   primary=true                             (only the primary major marks releases as latest)
+ *
+ * Every tag is qualified by the PostgreSQL version or major, so images of all majors in
+ * the matrix can be published side by side without overwriting each other.
  */
 
-// Empty export makes this file a module (enables top-level await)
-export {};
+import { extractPgMajor, findPgTarget, getPgVersionMatrix } from "../extensions/pg-version-matrix";
 
-interface VersionTags {
+export interface VersionTags {
   versionTag: string; // For releases: 18.1-202511221455
   imageTag: string; // For containers: 18.1-202511221455-single-node
   convenience: string[]; // Convenience tags array
+  primary: boolean; // Primary major of the version matrix
 }
 
-function generateTags(pgVersion: string, timestamp: string): VersionTags {
-  const parts = pgVersion.split(".");
-  const pgMajor = parts[0] ?? pgVersion;
+export function generateTags(pgVersion: string, timestamp: string): VersionTags {
+  const pgMajor = extractPgMajor(pgVersion);
+  const target = findPgTarget(pgMajor);
+  if (!target) {
+    const majors = getPgVersionMatrix().map((t) => t.pgMajor);
+    throw new Error(
+      `PostgreSQL ${pgMajor} is not in PG_VERSION_MATRIX (available: ${majors.join(", ")})`
+    );
+  }
 
   // Separate version (for releases) from image tag (for containers)
   const versionTag = `${pgVersion}-${timestamp}`; // 18.1-202511221455
@@ -42,86 +56,144 @@ function generateTags(pgVersion: string, timestamp: string): VersionTags {
     pgMajor,
   ];
 
-  return { versionTag, imageTag, convenience };
+  return { versionTag, imageTag, convenience, primary: target.primary };
 }
 
-async function writeGitHubOutput(tags: VersionTags): Promise<void> {
+/**
+ * Build-matrix rows for CI: one per PostgreSQL major
+ */
+export function generateMatrix(): Array<{
+  pgVersion: string;
+  pgMajor: string;
+  primary: boolean;
+  dockerfile: string;
+}> {
+  return getPgVersionMatrix().map((target) => ({
+    pgVersion: target.pgVersion,
+    pgMajor: target.pgMajor,
+    primary: target.primary,
+    dockerfile: `${target.artifactDir}/Dockerfile`,
+  }));
+}
+
+async function appendGitHubOutput(output: string): Promise<void> {
   const outputFile = Bun.env.GITHUB_OUTPUT;
   if (!outputFile) {
     console.error("Error: GITHUB_OUTPUT environment variable not set");
     process.exit(1);
   }
 
-  const output = [
+  // Bun-first append: read existing + concatenate + write back
+  const file = Bun.file(outputFile);
+  const existing = (await file.exists()) ? await file.text() : "";
+  await Bun.write(outputFile, existing + output + "\n");
+}
+
+function formatTags(tags: VersionTags): string {
+  return [
     `version_tag=${tags.versionTag}`,
     `image_tag=${tags.imageTag}`,
     `convenience=${tags.convenience.join(",")}`,
+    `primary=${tags.primary}`,
   ].join("\n");
+}
 
-  // Bun-first append: read existing + concatenate + write back
-  const file = Bun.file(outputFile);
-  const existing = (await file.exists()) ? await file.text() : "";
-  await Bun.write(outputFile, existing + output + "\n");
+async function writeGitHubOutput(tags: VersionTags): Promise<void> {
+  await appendGitHubOutput(formatTags(tags));
 
   console.log("Generated version tags:");
   console.log(`  Version tag (for releases): ${tags.versionTag}`);
   console.log(`  Image tag (for containers): ${tags.imageTag}`);
   console.log(`  Convenience tags: ${tags.convenience.join(", ")}`);
+  console.log(`  Primary major: ${tags.primary}`);
 }
 
-function printConsoleOutput(tags: VersionTags): void {
-  console.log(`version_tag=${tags.versionTag}`);
-  console.log(`image_tag=${tags.imageTag}`);
-  console.log(`convenience=${tags.convenience.join(",")}`);
-}
-
-// Parse CLI arguments
-const args = Bun.argv.slice(2);
-
-if (args.includes("--help") || args.includes("-h")) {
+function printHelp(): void {
   console.log(`
 Generate version tags for container image release
 
 Usage:
   bun scripts/release/generate-version-tags.ts --pg-version=18.1 --timestamp=202511221455 [--github-output]
+  bun scripts/release/generate-version-tags.ts --pg-major=17 --timestamp=202511221455 [--github-output]
+  bun scripts/release/generate-version-tags.ts --matrix [--github-output]
 
 Arguments:
-  --pg-version    Full PostgreSQL version (required)
-  --timestamp     Build timestamp YYYYMMDDHHmm (required)
+  --pg-version    Full PostgreSQL version (required unless --pg-major or --matrix)
+  --pg-major      PostgreSQL major; full version comes from PG_VERSION_MATRIX
+  --timestamp     Build timestamp YYYYMMDDHHmm (required for tags)
+  --matrix        Print the PostgreSQL version matrix as JSON
   --github-output Output to GITHUB_OUTPUT file
   --help, -h      Show this help message
 
 Examples:
   bun scripts/release/generate-version-tags.ts --pg-version=18.1 --timestamp=202511221455
-  bun scripts/release/generate-version-tags.ts --pg-version=18.1 --timestamp=202511221455 --github-output
+  bun scripts/release/generate-version-tags.ts --pg-major=17 --timestamp=202511221455 --github-output
+  bun scripts/release/generate-version-tags.ts --matrix --github-output
 `);
-  process.exit(0);
 }
 
-const pgVersion = args.find((arg) => arg.startsWith("--pg-version="))?.split("=")[1];
-const timestamp = args.find((arg) => arg.startsWith("--timestamp="))?.split("=")[1];
-const githubOutput = args.includes("--github-output");
+async function main(): Promise<void> {
+  const args = Bun.argv.slice(2);
 
-if (!pgVersion) {
-  console.error("Error: --pg-version argument is required");
-  process.exit(1);
-}
+  if (args.includes("--help") || args.includes("-h")) {
+    printHelp();
+    process.exit(0);
+  }
 
-if (!timestamp) {
-  console.error("Error: --timestamp argument is required");
-  process.exit(1);
-}
+  const githubOutput = args.includes("--github-output");
 
-// Validate timestamp format
-if (!/^\d{12}$/.test(timestamp)) {
-  console.error("Error: --timestamp must be in YYYYMMDDHHmm format (12 digits)");
-  process.exit(1);
-}
+  if (args.includes("--matrix")) {
+    const matrix = JSON.stringify(generateMatrix());
+    if (githubOutput) {
+      await appendGitHubOutput(`matrix=${matrix}`);
+    }
+    console.log(`matrix=${matrix}`);
+    return;
+  }
+
+  let pgVersion = args.find((arg) => arg.startsWith("--pg-version="))?.split("=")[1];
+  const pgMajor = args.find((arg) => arg.startsWith("--pg-major="))?.split("=")[1];
+  const timestamp = args.find((arg) => arg.startsWith("--timestamp="))?.split("=")[1];
+
+  if (!pgVersion && pgMajor) {
+    pgVersion = findPgTarget(pgMajor)?.pgVersion;
+    if (!pgVersion) {
+      console.error(`Error: PostgreSQL ${pgMajor} is not in PG_VERSION_MATRIX`);
+      process.exit(1);
+    }
+  }
+
+  if (!pgVersion) {
+    console.error("Error: --pg-version or --pg-major argument is required");
+    process.exit(1);
+  }
 
-const tags = generateTags(pgVersion, timestamp);
+  if (!timestamp) {
+    console.error("Error: --timestamp argument is required");
+    process.exit(1);
+  }
+
+  // Validate timestamp format
+  if (!/^\d{12}$/.test(timestamp)) {
+    console.error("Error: --timestamp must be in YYYYMMDDHHmm format (12 digits)");
+    process.exit(1);
+  }
+
+  let tags: VersionTags;
+  try {
+    tags = generateTags(pgVersion, timestamp);
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  }
+
+  if (githubOutput) {
+    await writeGitHubOutput(tags);
+  } else {
+    console.log(formatTags(tags));
+  }
+}
 
-if (githubOutput) {
-  await writeGitHubOutput(tags);
-} else {
-  printConsoleOutput(tags);
+if (import.meta.main) {
+  await main();
 }
@@ -34,6 +34,21 @@ const ALLOWED_LINE_PATTERNS = [
   /PASSWORD.*test/,
 ];
 
+const COMPOSE_FILE_PATTERN = /(^|\/)(docker-)?compose[^/]*\.ya?ml$/;
+
+/** Environment entries in compose files: `KEY: value` or `- KEY=value` */
+const COMPOSE_ENV_PATTERN = /^\s*(?:-\s*)?["']?([A-Z][A-Z0-9_]*)["']?\s*[:=]\s*(.*)$/;
+
+/** Variable names that carry credentials (their *_FILE variants point at secrets instead) */
+const CREDENTIAL_VARIABLE_PATTERN =
+  /(?:^|_)(?:PASS|PASSWD|SECRET|TOKEN)$|PASSWORD$|(?:API|ACCESS|PRIVATE|S3)_KEY$/;
+
+/** user:password@ in connection strings; either part may be a ${...} interpolation */
+const URL_CREDENTIALS_PATTERN = /:\/\/(?:\$\{[^}]*\}|[^\s:@/{}])+:(?:\$\{[^}]*\}|[^\s@/{}])+@/;
+
+/** YAML block scalar indicators (`>-`, `|`), whose value continues on the indented lines below */
+const BLOCK_SCALAR_PATTERN = /^[>|][+-]?[0-9]?$/;
+
 function parseArgs(): Options {
   let profile: Profile = "test-all";
   let strict = true;
@@ -94,10 +109,58 @@ function isAllowedLine(line: string): boolean {
   return ALLOWED_LINE_PATTERNS.some((pattern) => pattern.test(line));
 }
 
-export function findSecretFindingsInText(file: string, text: string): SecretFinding[] {
+/**
+ * Credentials passed inline in a compose file
+ *
+ * Compose stacks pass credentials as Docker secrets (`*_FILE=/run/secrets/<name>`). A credential
+ * variable with any other value is flagged, including `${VAR}` interpolation, since the value
+ * ends up in the container environment and in `docker inspect`.
+ */
+export function findComposeCredentialFindings(file: string, text: string): SecretFinding[] {
   const findings: SecretFinding[] = [];
   const lines = text.split(/\r?\n/);
 
+  for (let index = 0; index < lines.length; index++) {
+    const lineNumber = index;
+    let line = lines[index] ?? "";
+    if (/^\s*#/.test(line) || line.includes("/run/secrets/")) {
+      continue;
+    }
+    const entry = COMPOSE_ENV_PATTERN.exec(line);
+    let value = entry?.[2]?.replace(/\s+#.*$/, "").trim() ?? "";
+    if (entry !== null && BLOCK_SCALAR_PATTERN.test(value)) {
+      // Fold the continuation lines into one value so wrapped URLs are matched whole
+      const indent = line.search(/\S/);
+      const continuation: string[] = [];
+      while (index + 1 < lines.length) {
+        const next = lines[index + 1] ?? "";
+        if (next.trim() !== "" && next.search(/\S/) <= indent) {
+          break;
+        }
+        continuation.push(next.trim());
+        index++;
+      }
+      value = continuation.filter(Boolean).join(" ");
+      line = `${line.trim()} ${value}`;
+    }
+    const inlineVariable =
+      entry !== null &&
+      CREDENTIAL_VARIABLE_PATTERN.test(entry[1] ?? "") &&
+      !/^(?:""|'')?$/.test(value);
+    if (inlineVariable || URL_CREDENTIALS_PATTERN.test(line)) {
+      findings.push({ file, lineNumber: lineNumber + 1, line: line.trim() });
+    }
+  }
+
+  return findings;
+}
+
+export function findSecretFindingsInText(file: string, text: string): SecretFinding[] {
+  const findings: SecretFinding[] = COMPOSE_FILE_PATTERN.test(file)
+    ? findComposeCredentialFindings(file, text)
+    : [];
+  const lines = text.split(/\r?\n/);
+
   for (const [index, line] of lines.entries()) {
     if (isAllowedLine(line)) {
       continue;
@@ -111,6 +174,9 @@ export function findSecretFindingsInText(file: string, text: string): SecretFind
         continue;
       }
 
+      if (findings.some((finding) => finding.lineNumber === index + 1)) {
+        continue;
+      }
       findings.push({
         file,
         lineNumber: index + 1,
@@ -122,7 +188,7 @@ export function findSecretFindingsInText(file: string, text: string): SecretFind
   return findings;
 }
 
-async function getTrackedFiles(profile: Profile): Promise<string[]> {
+async function getTrackedFiles(): Promise<string[]> {
   const proc = Bun.spawn(["git", "ls-files"], {
     stdout: "pipe",
     stderr: "pipe",
@@ -137,18 +203,28 @@ async function getTrackedFiles(profile: Profile): Promise<string[]> {
     throw new Error(`git ls-files failed: ${stderr.trim()}`);
   }
 
-  return stdout.split("\n").filter((file) => file !== "" && !isExcluded(file, profile));
+  return stdout.split("\n").filter((file) => file !== "");
 }
 
 async function scanTrackedFiles(profile: Profile): Promise<SecretFinding[]> {
   const findings: SecretFinding[] = [];
 
-  for (const file of await getTrackedFiles(profile)) {
+  for (const file of await getTrackedFiles()) {
+    // Compose files are checked for inline credentials wherever they live
+    const excluded = isExcluded(file, profile);
+    if (excluded && !COMPOSE_FILE_PATTERN.test(file)) {
+      continue;
+    }
     const source = Bun.file(file);
     if (!(await source.exists())) {
       continue;
     }
-    findings.push(...findSecretFindingsInText(file, await source.text()));
+    const text = await source.text();
+    findings.push(
+      ...(excluded
+        ? findComposeCredentialFindings(file, text)
+        : findSecretFindingsInText(file, text))
+    );
   }
 
   return findings;
@@ -941,6 +941,61 @@ const allChecks: Check[] = [
     requiresBuild: true,
     timeout: 180000, // 3 minutes
   },
+  {
+    name: "pgsodium Root Key Rotation",
+    category: "functional",
+    command: ["sh", "-c", "bun scripts/test/test-pgsodium-key.ts ${POSTGRES_IMAGE:-aza-pg:pg18}"],
+    description:
+      "Verify a wrong pgsodium root key refuses to start and PGSODIUM_ROOT_KEY_PREVIOUS re-encrypts vault secrets",
+    critical: false,
+    requiresDocker: true,
+    requiresBuild: true,
+    timeout: 420000, // 7 minutes (five container starts on one volume)
+  },
+  {
+    name: "Built-in Metrics Endpoint",
+    category: "functional",
+    command: ["sh", "-c", "bun scripts/test/test-metrics-server.ts ${POSTGRES_IMAGE:-aza-pg:pg18}"],
+    description:
+      "Verify POSTGRES_METRICS_PORT serves custom query, auto-config, init and healthcheck metrics",
+    critical: false,
+    requiresDocker: true,
+    requiresBuild: true,
+    timeout: 240000, // 4 minutes
+  },
+  {
+    name: "JSON Logging",
+    category: "functional",
+    command: ["sh", "-c", "bun scripts/test/test-json-logging.ts ${POSTGRES_IMAGE:-aza-pg:pg18}"],
+    description:
+      "Verify POSTGRES_LOG_FORMAT=json writes jsonlog entries with SQLSTATEs to the container output",
+    critical: false,
+    requiresDocker: true,
+    requiresBuild: true,
+    timeout: 240000, // 4 minutes
+  },
+  {
+    name: "Doctor",
+    category: "functional",
+    command: ["sh", "-c", "bun scripts/test/test-doctor.ts ${POSTGRES_IMAGE:-aza-pg:pg18}"],
+    description:
+      "Verify the doctor health report runs every check against a live container and exits 2 on critical findings",
+    critical: false,
+    requiresDocker: true,
+    requiresBuild: true,
+    timeout: 240000, // 4 minutes
+  },
+  {
+    name: "pg_stat_statements Snapshots",
+    category: "functional",
+    command: ["sh", "-c", "bun scripts/test/test-pgss-snapshot.ts ${POSTGRES_IMAGE:-aza-pg:pg18}"],
+    description:
+      "Verify PGSS_SNAPSHOT_SCHEDULE schedules aza_perf snapshots and pgss-snapshot.ts reports a latency regression",
+    critical: false,
+    requiresDocker: true,
+    requiresBuild: true,
+    timeout: 240000, // 4 minutes
+  },
   {
     name: "realtime.send() Graceful Degradation",
     category: "functional",
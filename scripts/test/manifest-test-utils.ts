@@ -21,6 +21,22 @@ export function loadManifestForTests(): ManifestEntry[] {
   return MANIFEST_ENTRIES;
 }
 
+/**
+ * Factory function to create test ManifestEntry objects with sensible defaults.
+ * Only override what you need for each test.
+ */
+export function createMockEntry(
+  overrides: Partial<ManifestEntry> & { name: string }
+): ManifestEntry {
+  return {
+    kind: "extension",
+    category: "test",
+    description: `Test extension: ${overrides.name}`,
+    source: { type: "builtin" },
+    ...overrides,
+  };
+}
+
 /**
  * Filter manifest entries to only those valid for testing.
  *
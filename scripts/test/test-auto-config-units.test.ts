@@ -2,207 +2,37 @@
 /**
  * Unit Tests for PostgreSQL Auto-Configuration Calculations
  *
- * Tests calculation logic in isolation without Docker containers.
- * Reimplements bash formulas in TypeScript for fast verification.
+ * Tests the tuning engine in scripts/config/tuning.ts without Docker containers.
+ * The entrypoint's lookup tables are rendered from the same module, and its bash formulas
+ * mirror the calculate* functions, so these tests pin the values a container would apply.
  *
  * Usage:
  *   bun test ./scripts/test/test-auto-config-units.test.ts
  *   bun test scripts/test/test-auto-config-units.test.ts
  *
  * Features:
- * - 90 regression test cases across 12 test suites
  * - Tests all calculation functions: shared_buffers, max_connections, work_mem, etc.
+ * - Tests the full GUC plan (ordering, pgsodium filtering, conditional parameters)
  * - Covers edge cases, boundary conditions, and real-world scenarios
- * - Fast execution (~6ms, no Docker required)
- * - TypeScript implementations match bash formulas exactly
+ * - Fast execution (no Docker required)
  */
 
 import { describe, test, expect } from "bun:test";
-
-// Type definitions
-interface WorkloadConfig {
-  maxConnections: number;
-  minWalSizeMB: number;
-  maxWalSizeMB: number;
-}
-
-interface StorageConfig {
-  randomPageCost: number;
-  ioConcurrency: number;
-  maintIoConcurrency: number;
-}
-
-// Constants (match bash script)
-const SHARED_BUFFERS_CAP_MB = 32768;
-const MAINTENANCE_WORK_MEM_CAP_MB = 2048;
-const WORK_MEM_CAP_MB = 32;
-const WORK_MEM_DW_CAP_MB = 256;
-const OS_RESERVE_MB = 512;
-const CONNECTION_OVERHEAD_PER_CONN_MB = 10;
-
-// Lookup tables (match bash associative arrays)
-const WORKLOAD_CONFIGS: Record<string, WorkloadConfig> = {
-  web: { maxConnections: 200, minWalSizeMB: 1024, maxWalSizeMB: 4096 },
-  oltp: { maxConnections: 300, minWalSizeMB: 2048, maxWalSizeMB: 8192 },
-  dw: { maxConnections: 100, minWalSizeMB: 4096, maxWalSizeMB: 16384 },
-  mixed: { maxConnections: 120, minWalSizeMB: 1024, maxWalSizeMB: 4096 },
-};
-
-const STORAGE_CONFIGS: Record<string, StorageConfig> = {
-  ssd: { randomPageCost: 1.1, ioConcurrency: 200, maintIoConcurrency: 20 },
-  hdd: { randomPageCost: 4.0, ioConcurrency: 2, maintIoConcurrency: 10 },
-  san: { randomPageCost: 1.1, ioConcurrency: 300, maintIoConcurrency: 20 },
-};
-
-// Calculation functions (TypeScript implementation of bash logic)
-function calculateSharedBuffers(totalRamMB: number): number {
-  let ratio: number;
-
-  if (totalRamMB <= 1024) {
-    ratio = 25;
-  } else if (totalRamMB <= 8192) {
-    ratio = 25;
-  } else if (totalRamMB <= 32768) {
-    ratio = 20;
-  } else {
-    ratio = 15;
-  }
-
-  let value = Math.floor((totalRamMB * ratio) / 100);
-
-  if (value < 64) value = 64;
-  if (value > SHARED_BUFFERS_CAP_MB) value = SHARED_BUFFERS_CAP_MB;
-
-  return value;
-}
-
-function calculateMaxConnections(totalRamMB: number, workload: string = "mixed"): number {
-  const config = (WORKLOAD_CONFIGS[workload] || WORKLOAD_CONFIGS.mixed)!;
-  let baseConn = config.maxConnections;
-
-  // Scale for small VPS
-  if (totalRamMB < 2048) {
-    baseConn = Math.floor((baseConn * 50) / 100);
-  } else if (totalRamMB < 4096) {
-    baseConn = Math.floor((baseConn * 70) / 100);
-  } else if (totalRamMB < 8192) {
-    baseConn = Math.floor((baseConn * 85) / 100);
-  }
-
-  // Minimum 20
-  if (baseConn < 20) baseConn = 20;
-
-  return baseConn;
-}
-
-function calculateEffectiveCache(totalRamMB: number, sharedBuffersMB: number): number {
-  // Account for OS + other services
-  let otherUsage = Math.floor((totalRamMB * 20) / 100);
-  if (otherUsage < OS_RESERVE_MB) otherUsage = OS_RESERVE_MB;
-
-  // Available for page cache
-  const cacheAvail = totalRamMB - sharedBuffersMB - otherUsage;
-
-  // Use 70% of that
-  let value = Math.floor((cacheAvail * 70) / 100);
-
-  // Minimum: 2× shared_buffers
-  const minValue = sharedBuffersMB * 2;
-  if (value < minValue) value = minValue;
-  if (value < 0) value = 0;
-
-  return value;
-}
-
-function calculateMaintenanceWorkMem(totalRamMB: number, workload: string = "mixed"): number {
-  let value: number;
-
-  if (workload === "dw") {
-    // DW: 12.5% of RAM (1/8)
-    value = Math.floor(totalRamMB / 8);
-  } else {
-    // Others: 6.25% of RAM (1/16)
-    value = Math.floor(totalRamMB / 16);
-  }
-
-  if (value < 32) value = 32;
-  if (value > MAINTENANCE_WORK_MEM_CAP_MB) value = MAINTENANCE_WORK_MEM_CAP_MB;
-
-  return value;
-}
-
-function calculateWorkMem(
-  totalRamMB: number,
-  maxConnections: number,
-  sharedBuffersMB: number,
-  workload: string = "mixed"
-): number {
-  // Account for connection overhead
-  const connOverhead = maxConnections * CONNECTION_OVERHEAD_PER_CONN_MB;
-
-  // Memory pool
-  let pool = totalRamMB - sharedBuffersMB - connOverhead - OS_RESERVE_MB;
-
-  // Safety floor
-  if (pool < 256) pool = 256;
-
-  // Divisor
-  const divisor = maxConnections * 4;
-
-  let value = Math.floor(pool / divisor);
-
-  // Minimum 1MB
-  if (value < 1) value = 1;
-
-  // RAM-tiered caps
-  let cap = WORK_MEM_CAP_MB;
-
-  if (workload === "dw" || workload === "mixed") {
-    if (totalRamMB >= 32768) {
-      cap = WORK_MEM_DW_CAP_MB; // 256MB
-    } else if (totalRamMB >= 8192) {
-      cap = 128;
-    } else if (totalRamMB >= 2048) {
-      cap = 64;
-    }
-  }
-
-  if (value > cap) value = cap;
-
-  return value;
-}
-
-function calculateWalBuffers(sharedBuffersMB: number): number {
-  // 3% of shared_buffers
-  let value = Math.floor((sharedBuffersMB * 3) / 100);
-
-  // Minimum 1MB
-  if (value < 1) value = 1;
-
-  // Maximum 16MB
-  if (value > 16) value = 16;
-
-  // Special rounding: 14-16MB → 16MB
-  if (value > 14 && value < 16) value = 16;
-
-  return value;
-}
-
-function calculateIoWorkers(cpuCores: number): number {
-  // Match bash: CPU_CORES / 4, min 1, max 64
-  const value = Math.floor(cpuCores / 4);
-  return Math.max(1, Math.min(64, value));
-}
-
-function calculateWorkerProcesses(cpuCores: number): number {
-  // CPU × 1.5
-  let value = cpuCores + Math.floor(cpuCores / 2);
-
-  if (value < 2) value = 2;
-  if (value > 64) value = 64;
-
-  return value;
-}
+import {
+  calculateEffectiveCache,
+  calculateIoWorkers,
+  calculateMaintenanceWorkMem,
+  calculateMaxConnections,
+  calculateParallelWorkers,
+  calculateSharedBuffers,
+  calculateWalBuffers,
+  calculateWorkerProcesses,
+  calculateWorkMem,
+  planTuning,
+  renderBashTuningTables,
+  STORAGE_PROFILES,
+  WORKLOAD_PROFILES,
+} from "../config/tuning";
 
 // Test suites
 describe("shared_buffers calculation", () => {
@@ -551,16 +381,12 @@ describe("io_workers calculation", () => {
 });
 
 describe("worker_processes calculation", () => {
-  test("1 core: 2 (minimum, 1 + 0 = 1 → 2)", () => {
-    expect(calculateWorkerProcesses(1)).toBe(2);
-  });
-
-  test("2 cores: 3 (2 + 1)", () => {
-    expect(calculateWorkerProcesses(2)).toBe(3);
+  test("1 core: 8 (1 + 1 = 2 → minimum 8)", () => {
+    expect(calculateWorkerProcesses(1)).toBe(8);
   });
 
-  test("4 cores: 6 (4 + 2)", () => {
-    expect(calculateWorkerProcesses(4)).toBe(6);
+  test("4 cores: 8 (4 + 1 = 5 → minimum 8)", () => {
+    expect(calculateWorkerProcesses(4)).toBe(8);
   });
 
   test("8 cores: 12 (8 + 4)", () => {
@@ -582,32 +408,67 @@ describe("worker_processes calculation", () => {
   test("Maximum cap: 64", () => {
     expect(calculateWorkerProcesses(100)).toBe(64);
   });
+
+  test("POSTGRES_MAX_WORKER_PROCESSES override replaces the computed value", () => {
+    expect(calculateWorkerProcesses(2, 16)).toBe(16);
+  });
+
+  test("Override is still clamped to 8-64", () => {
+    expect(calculateWorkerProcesses(2, 4)).toBe(8);
+    expect(calculateWorkerProcesses(2, 128)).toBe(64);
+  });
+});
+
+describe("parallel workers calculation", () => {
+  test("2 cores: conservative limits", () => {
+    expect(calculateParallelWorkers(2)).toEqual({
+      maxParallelWorkers: 2,
+      maxParallelWorkersPerGather: 1,
+      maxParallelMaintenanceWorkers: 1,
+    });
+  });
+
+  test("4 cores: half per gather", () => {
+    expect(calculateParallelWorkers(4)).toEqual({
+      maxParallelWorkers: 4,
+      maxParallelWorkersPerGather: 2,
+      maxParallelMaintenanceWorkers: 2,
+    });
+  });
+
+  test("16 cores: maintenance workers capped at 4", () => {
+    expect(calculateParallelWorkers(16)).toEqual({
+      maxParallelWorkers: 16,
+      maxParallelWorkersPerGather: 8,
+      maxParallelMaintenanceWorkers: 4,
+    });
+  });
 });
 
 describe("Workload configurations", () => {
   test("Web workload config", () => {
-    const config = WORKLOAD_CONFIGS.web!;
+    const config = WORKLOAD_PROFILES.web;
     expect(config.maxConnections).toBe(200);
     expect(config.minWalSizeMB).toBe(1024);
     expect(config.maxWalSizeMB).toBe(4096);
   });
 
   test("OLTP workload config", () => {
-    const config = WORKLOAD_CONFIGS.oltp!;
+    const config = WORKLOAD_PROFILES.oltp;
     expect(config.maxConnections).toBe(300);
     expect(config.minWalSizeMB).toBe(2048);
     expect(config.maxWalSizeMB).toBe(8192);
   });
 
   test("DW workload config", () => {
-    const config = WORKLOAD_CONFIGS.dw!;
+    const config = WORKLOAD_PROFILES.dw;
     expect(config.maxConnections).toBe(100);
     expect(config.minWalSizeMB).toBe(4096);
     expect(config.maxWalSizeMB).toBe(16384);
   });
 
   test("Mixed workload config", () => {
-    const config = WORKLOAD_CONFIGS.mixed!;
+    const config = WORKLOAD_PROFILES.mixed;
     expect(config.maxConnections).toBe(120);
     expect(config.minWalSizeMB).toBe(1024);
     expect(config.maxWalSizeMB).toBe(4096);
@@ -616,22 +477,22 @@ describe("Workload configurations", () => {
 
 describe("Storage configurations", () => {
   test("SSD storage config", () => {
-    const config = STORAGE_CONFIGS.ssd!;
-    expect(config.randomPageCost).toBe(1.1);
+    const config = STORAGE_PROFILES.ssd;
+    expect(config.randomPageCost).toBe("1.1");
     expect(config.ioConcurrency).toBe(200);
     expect(config.maintIoConcurrency).toBe(20);
   });
 
   test("HDD storage config", () => {
-    const config = STORAGE_CONFIGS.hdd!;
-    expect(config.randomPageCost).toBe(4.0);
+    const config = STORAGE_PROFILES.hdd;
+    expect(config.randomPageCost).toBe("4.0");
     expect(config.ioConcurrency).toBe(2);
     expect(config.maintIoConcurrency).toBe(10);
   });
 
   test("SAN storage config", () => {
-    const config = STORAGE_CONFIGS.san!;
-    expect(config.randomPageCost).toBe(1.1);
+    const config = STORAGE_PROFILES.san;
+    expect(config.randomPageCost).toBe("1.1");
     expect(config.ioConcurrency).toBe(300);
     expect(config.maintIoConcurrency).toBe(20);
   });
@@ -676,7 +537,7 @@ describe("Real-world scenarios", () => {
     expect(workMem).toBeGreaterThanOrEqual(1);
     expect(maintenanceWorkMem).toBe(64);
     expect(effectiveCache).toBeGreaterThanOrEqual(512);
-    expect(workerProcesses).toBe(3);
+    expect(workerProcesses).toBe(8);
   });
 
   test("Medium production (4GB RAM, 4 cores, web workload)", () => {
@@ -693,7 +554,7 @@ describe("Real-world scenarios", () => {
     expect(workMem).toBeGreaterThanOrEqual(1);
     expect(maintenanceWorkMem).toBe(256);
     expect(effectiveCache).toBeGreaterThanOrEqual(2048);
-    expect(workerProcesses).toBe(6);
+    expect(workerProcesses).toBe(8);
   });
 
   test("Large production (16GB RAM, 8 cores, oltp workload)", () => {
@@ -732,3 +593,109 @@ describe("Real-world scenarios", () => {
     expect(workerProcesses).toBe(24);
   });
 });
+
+describe("planTuning", () => {
+  const preload = ["auto_explain", "pg_cron", "pgsodium", "timescaledb"];
+
+  test("GUCs are emitted in entrypoint order with computed values", () => {
+    const plan = planTuning({
+      memoryMB: 8192,
+      cpuCores: 4,
+      workload: "oltp",
+      sharedPreloadLibraries: preload,
+    });
+    const gucs = Object.fromEntries(plan.gucs);
+
+    expect(plan.gucs[0]).toEqual(["shared_buffers", "2048MB"]);
+    expect(plan.gucs.at(-1)?.[0]).toBe("pgsodium.getkey_script");
+    expect(gucs.max_connections).toBe("300");
+    expect(gucs.min_wal_size).toBe("2048MB");
+    expect(gucs.max_wal_size).toBe("8192MB");
+    expect(gucs.effective_io_concurrency).toBe("200");
+    expect(gucs.shared_preload_libraries).toBe("auto_explain,pg_cron,pgsodium,timescaledb");
+    expect(gucs.listen_addresses).toBe("127.0.0.1");
+    expect(gucs.max_wal_senders).toBeUndefined();
+  });
+
+  test("pgsodium is dropped from preload without a getkey script", () => {
+    const plan = planTuning({
+      memoryMB: 2048,
+      cpuCores: 2,
+      sharedPreloadLibraries: preload,
+      pgsodiumEnabled: false,
+    });
+    const gucs = Object.fromEntries(plan.gucs);
+
+    expect(gucs.shared_preload_libraries).toBe("auto_explain,pg_cron,timescaledb");
+    expect(gucs["pgsodium.getkey_script"]).toBeUndefined();
+  });
+
+  test("wal_level=minimal disables WAL senders", () => {
+    const plan = planTuning({
+      memoryMB: 1024,
+      cpuCores: 1,
+      walLevel: "minimal",
+      sharedPreloadLibraries: [],
+    });
+    expect(Object.fromEntries(plan.gucs).max_wal_senders).toBe("0");
+  });
+
+  test("DW workload on HDD raises statistics target and random_page_cost", () => {
+    const plan = planTuning({
+      memoryMB: 16384,
+      cpuCores: 8,
+      workload: "dw",
+      storage: "hdd",
+      sharedPreloadLibraries: [],
+    });
+    const gucs = Object.fromEntries(plan.gucs);
+
+    expect(gucs.default_statistics_target).toBe("500");
+    expect(gucs.random_page_cost).toBe("4.0");
+    expect(gucs.effective_io_concurrency).toBe("2");
+  });
+
+  test("Non-Linux hosts skip effective_io_concurrency", () => {
+    const plan = planTuning({
+      memoryMB: 4096,
+      cpuCores: 2,
+      linux: false,
+      sharedPreloadLibraries: [],
+    });
+    expect(Object.fromEntries(plan.gucs).effective_io_concurrency).toBeUndefined();
+  });
+
+  test("CPU cores above 128 are clamped with a warning", () => {
+    const plan = planTuning({ memoryMB: 4096, cpuCores: 256, sharedPreloadLibraries: [] });
+    expect(plan.resolved.cpuCores).toBe(128);
+    expect(plan.warnings).toHaveLength(1);
+  });
+
+  test("RAM below 512MB is rejected like the entrypoint", () => {
+    expect(() => planTuning({ memoryMB: 511, cpuCores: 1, sharedPreloadLibraries: [] })).toThrow(
+      "below the 512MB minimum"
+    );
+  });
+
+  test("RAM above 1TB is rejected", () => {
+    expect(() =>
+      planTuning({ memoryMB: 1048577, cpuCores: 1, sharedPreloadLibraries: [] })
+    ).toThrow();
+  });
+});
+
+describe("renderBashTuningTables", () => {
+  test("Renders workload and storage associative arrays", () => {
+    const tables = renderBashTuningTables();
+    expect(tables).toContain("declare -A WORKLOAD_MAX_CONN=(\n    [web]=200\n");
+    expect(tables).toContain("    [hdd]=4.0\n");
+    expect(tables).toContain('readonly CHECKPOINT_COMPLETION_TARGET="0.9"');
+  });
+
+  test("Generated entrypoint contains the current tables", async () => {
+    const entrypoint = await Bun.file(
+      new URL("../../docker/postgres/docker-auto-config-entrypoint.sh", import.meta.url)
+    ).text();
+    expect(entrypoint).toContain(renderBashTuningTables());
+  });
+});
@@ -14,12 +14,16 @@
  * - Verify restored data matches original (before additional data)
  * - Verify backup info (pgbackrest info)
  * - Test incremental backup (pgbackrest backup --type=incr)
+ * - Scheduled backup: primary stack backup sidecar (BACKUP_SCHEDULE) against a local repo volume,
+ *   WAL archiving and the pg_backup exporter query
+ * - Point-in-time recovery: restore-postgres.ts --pitr to a time before a DELETE
  *
  * Usage:
  *   bun scripts/test/test-backup-restore.ts [image-tag] [--no-cleanup]
  */
 
 import { $ } from "bun";
+import { join } from "node:path";
 import {
   checkCommand,
   checkDockerDaemon,
@@ -43,8 +47,18 @@ interface TestConfig {
   backupVolume: string;
   dataVolume: string;
   testPassword: string;
+  scheduledPrimaryContainer: string;
+  schedulerContainer: string;
+  scheduledRepoVolume: string;
+  scheduledSocketVolume: string;
+  pitrContainer: string;
+  pitrVolume: string;
 }
 
+const REPO_ROOT = join(import.meta.dir, "../..");
+const SCHEDULER_SCRIPT = join(REPO_ROOT, "stacks/primary/scripts/backup-scheduler.sh");
+const EXPORTER_QUERIES = join(REPO_ROOT, "docker/postgres/configs/postgres_exporter_queries.yaml");
+
 /**
  * Parse command line arguments
  */
@@ -582,6 +596,213 @@ async function testVerifyRestoredData(config: TestConfig): Promise<TestResult> {
   }
 }
 
+/**
+ * Test 11: Scheduled Backup via the Primary Stack Sidecar
+ * Mirrors stacks/primary/compose.yml with the "backup" profile: PostgreSQL archives WAL because
+ * BACKUP_SCHEDULE is set, and the sidecar runs backup-scheduler.sh against a local repo volume,
+ * reaching the server through a shared socket volume.
+ */
+async function testScheduledBackup(config: TestConfig): Promise<TestResult> {
+  const start = Date.now();
+  try {
+    section("Test 11: Scheduled Backup via the Primary Stack Sidecar");
+
+    // Every minute; the first incremental backup is promoted to full by pgBackRest
+    const schedule = "incr=* * * * *";
+    const backupEnv = [
+      "-e",
+      `BACKUP_SCHEDULE=${schedule}`,
+      "-e",
+      "BACKUP_REPO_PATH=/backup/pgbackrest",
+      "-e",
+      "BACKUP_STANZA=scheduled",
+    ];
+
+    info("Creating data, repo and socket volumes...");
+    await $`docker volume create ${config.scheduledRepoVolume}`.quiet();
+    await $`docker volume create --driver local --opt type=tmpfs --opt device=tmpfs ${config.scheduledSocketVolume}`.quiet();
+
+    info("Starting PostgreSQL with BACKUP_SCHEDULE (WAL archiving)...");
+    await $`docker run -d --name ${config.scheduledPrimaryContainer} \
+      -e POSTGRES_PASSWORD=${config.testPassword} \
+      -e POSTGRES_MEMORY=1024 \
+      ${backupEnv} \
+      -v ${config.dataVolume}:/var/lib/postgresql \
+      -v ${config.scheduledRepoVolume}:/backup \
+      -v ${config.scheduledSocketVolume}:/var/run/postgresql \
+      ${config.imageTag}`.quiet();
+
+    const ready = await waitForPostgres({
+      container: config.scheduledPrimaryContainer,
+      timeout: TIMEOUTS.startup,
+    });
+    if (!ready) {
+      throw new Error("PostgreSQL with BACKUP_SCHEDULE failed to start");
+    }
+
+    const archiveMode =
+      await $`docker exec ${config.scheduledPrimaryContainer} psql -U postgres -tAc "SHOW archive_mode"`.text();
+    if (archiveMode.trim() !== "on") {
+      throw new Error(`Expected archive_mode=on with BACKUP_SCHEDULE, got ${archiveMode.trim()}`);
+    }
+
+    info("Starting backup sidecar...");
+    await $`docker run -d --name ${config.schedulerContainer} \
+      --user postgres \
+      --network none \
+      ${backupEnv} \
+      -e BACKUP_RETENTION_FULL=1 \
+      -v ${config.dataVolume}:/var/lib/postgresql \
+      -v ${config.scheduledRepoVolume}:/backup \
+      -v ${config.scheduledSocketVolume}:/var/run/postgresql \
+      -v ${SCHEDULER_SCRIPT}:/opt/backup-scheduler.sh:ro \
+      --entrypoint /bin/bash \
+      ${config.imageTag} /opt/backup-scheduler.sh`.quiet();
+
+    // Next minute boundary plus the backup itself
+    info("Waiting for the scheduled backup...");
+    let logs = "";
+    const deadline = Date.now() + 180_000;
+    while (Date.now() < deadline) {
+      logs = await $`docker logs ${config.schedulerContainer} 2>&1`.nothrow().text();
+      if (logs.includes("[BACKUP] incr backup completed") || logs.includes("[BACKUP] ERROR")) {
+        break;
+      }
+      await Bun.sleep(5000);
+    }
+    if (!logs.includes("[BACKUP] incr backup completed")) {
+      throw new Error(`Scheduled backup did not complete. Logs: ${logs.slice(-800)}`);
+    }
+    success("Scheduled backup completed");
+
+    const backupInfo = JSON.parse(
+      await $`docker exec ${config.schedulerContainer} pgbackrest info --output=json`.text()
+    ) as Array<{ backup: Array<{ type: string }> }>;
+    const types = backupInfo[0]?.backup.map((b) => b.type) ?? [];
+    if (!types.includes("full")) {
+      throw new Error(`Expected a full backup in the repository, got: ${types.join(", ")}`);
+    }
+
+    // The exporter query reads backup.info through aza.backup_info
+    info("Checking the pg_backup exporter query...");
+    const queries = Bun.YAML.parse(await Bun.file(EXPORTER_QUERIES).text()) as Record<
+      string,
+      { query: string }
+    >;
+    const backupQuery = queries.pg_backup?.query;
+    if (!backupQuery) {
+      throw new Error("pg_backup query missing from postgres_exporter_queries.yaml");
+    }
+    const rows = (
+      await $`docker exec ${config.scheduledPrimaryContainer} psql -U postgres -tAF, -c ${backupQuery}`.text()
+    )
+      .trim()
+      .split("\n");
+    const full = rows.find((row) => row.startsWith("full,"))?.split(",");
+    const finishedAt = Number(full?.[1]);
+    if (!full || !Number.isFinite(finishedAt) || Date.now() / 1000 - finishedAt > 600) {
+      throw new Error(`Unexpected pg_backup rows: ${rows.join(" | ")}`);
+    }
+    success(`pg_backup reports the full backup (finished at ${finishedAt})`);
+
+    return {
+      name: "Scheduled Backup via the Primary Stack Sidecar",
+      passed: true,
+      duration: Date.now() - start,
+    };
+  } catch (err) {
+    return {
+      name: "Scheduled Backup via the Primary Stack Sidecar",
+      passed: false,
+      duration: Date.now() - start,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+/**
+ * Test 12: Point-in-Time Recovery with restore-postgres.ts --pitr
+ * Deletes rows on the scheduled primary, then recovers the repository from Test 11 into a new
+ * volume to a time before the DELETE and checks the rows are back.
+ */
+async function testPointInTimeRecovery(config: TestConfig): Promise<TestResult> {
+  const start = Date.now();
+  try {
+    section("Test 12: Point-in-Time Recovery (restore-postgres.ts --pitr)");
+
+    // Keep the repository still while recovering from it
+    await $`docker stop ${config.schedulerContainer}`.nothrow().quiet();
+
+    const primary = config.scheduledPrimaryContainer;
+    await $`docker exec ${primary} psql -U postgres -c "CREATE TABLE pitr_test AS SELECT g AS id FROM generate_series(1, 100) g"`.quiet();
+    await Bun.sleep(2000);
+    const target = (
+      await $`docker exec ${primary} psql -U postgres -tAc "SELECT to_char(clock_timestamp() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS') || '+00'"`.text()
+    ).trim();
+    await Bun.sleep(2000);
+    info(`Recovery target: ${target}; deleting rows after it...`);
+    await $`docker exec ${primary} psql -U postgres -c "DELETE FROM pitr_test"`.quiet();
+
+    // Close the WAL segment holding the DELETE and wait for it to be archived
+    const segment = (
+      await $`docker exec ${primary} psql -U postgres -tAc "SELECT pg_walfile_name(pg_switch_wal())"`.text()
+    ).trim();
+    let archived = false;
+    for (let i = 0; i < 30 && !archived; i++) {
+      const result =
+        await $`docker exec ${primary} psql -U postgres -tAc ${`SELECT coalesce(last_archived_wal >= '${segment}', false) FROM pg_stat_archiver`}`.text();
+      archived = result.trim() === "t";
+      if (!archived) {
+        await Bun.sleep(2000);
+      }
+    }
+    if (!archived) {
+      throw new Error(`WAL segment ${segment} was not archived`);
+    }
+
+    info("Running restore-postgres.ts --pitr...");
+    const restore =
+      await $`bun ${join(REPO_ROOT, "scripts/tools/restore-postgres.ts")} --pitr ${target} \
+      --repo ${config.scheduledRepoVolume} --repo-path pgbackrest --stanza scheduled \
+      --target-volume ${config.pitrVolume} --image ${config.imageTag} --timeout 300`.nothrow();
+    if (restore.exitCode !== 0) {
+      throw new Error(`restore-postgres.ts --pitr failed:\n${restore.stdout}\n${restore.stderr}`);
+    }
+
+    info("Starting the recovered cluster...");
+    await $`docker run -d --name ${config.pitrContainer} --network none \
+      -v ${config.pitrVolume}:/var/lib/postgresql ${config.imageTag}`.quiet();
+    const ready = await waitForPostgres({
+      container: config.pitrContainer,
+      timeout: TIMEOUTS.startup,
+    });
+    if (!ready) {
+      throw new Error("Recovered cluster failed to start");
+    }
+
+    const count = (
+      await $`docker exec ${config.pitrContainer} psql -U postgres -tAc "SELECT count(*) FROM pitr_test"`.text()
+    ).trim();
+    if (count !== "100") {
+      throw new Error(`Expected 100 rows recovered before the DELETE, found ${count}`);
+    }
+    success("Rows deleted after the recovery target are back");
+
+    return {
+      name: "Point-in-Time Recovery",
+      passed: true,
+      duration: Date.now() - start,
+    };
+  } catch (err) {
+    return {
+      name: "Point-in-Time Recovery",
+      passed: false,
+      duration: Date.now() - start,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
 /**
  * Cleanup test environment
  */
@@ -592,6 +813,11 @@ async function cleanup(config: TestConfig): Promise<void> {
     info(`  Primary: ${config.primaryContainer}`);
     info(`  Restore: ${config.restoreContainer}`);
     info(`  Backup Volume: ${config.backupVolume}`);
+    info(`  Scheduled Primary: ${config.scheduledPrimaryContainer}`);
+    info(`  Scheduler: ${config.schedulerContainer}`);
+    info(`  Scheduled Repo Volume: ${config.scheduledRepoVolume}`);
+    info(`  PITR Container: ${config.pitrContainer}`);
+    info(`  PITR Volume: ${config.pitrVolume}`);
     return;
   }
 
@@ -603,9 +829,17 @@ async function cleanup(config: TestConfig): Promise<void> {
   // Cleanup restore container
   await cleanupContainer(config.restoreContainer);
 
+  // Cleanup scheduled backup containers
+  await cleanupContainer(config.schedulerContainer);
+  await cleanupContainer(config.scheduledPrimaryContainer);
+  await cleanupContainer(config.pitrContainer);
+
   // Cleanup volumes
   try {
     await $`docker volume rm ${config.backupVolume}`.nothrow().quiet();
+    await $`docker volume rm ${config.dataVolume} ${config.scheduledRepoVolume} ${config.scheduledSocketVolume} ${config.pitrVolume}`
+      .nothrow()
+      .quiet();
   } catch {
     // Ignore errors
   }
@@ -637,6 +871,12 @@ async function main(): Promise<void> {
     backupVolume: `backup-test-vol-${timestamp}-${pid}`,
     dataVolume: `backup-test-data-${timestamp}-${pid}`,
     testPassword: generateTestPassword(),
+    scheduledPrimaryContainer: generateUniqueContainerName("backup-test-scheduled"),
+    schedulerContainer: generateUniqueContainerName("backup-test-scheduler"),
+    scheduledRepoVolume: `backup-test-repo-${timestamp}-${pid}`,
+    scheduledSocketVolume: `backup-test-run-${timestamp}-${pid}`,
+    pitrContainer: generateUniqueContainerName("backup-test-pitr"),
+    pitrVolume: `backup-test-pitr-${timestamp}-${pid}`,
   };
 
   console.log("========================================");
@@ -685,6 +925,8 @@ async function main(): Promise<void> {
     results.push(await testIncrementalBackup(config));
     results.push(await testRestoreBackup(config));
     results.push(await testVerifyRestoredData(config));
+    results.push(await testScheduledBackup(config));
+    results.push(await testPointInTimeRecovery(config));
 
     // Print summary
     console.log("");
@@ -0,0 +1,117 @@
+#!/usr/bin/env bun
+/**
+ * Unit Tests for the Backup Sidecar Schedule
+ *
+ * Sources stacks/primary/scripts/backup-scheduler.sh in bash and checks the BACKUP_SCHEDULE
+ * parser and cron matching without Docker or pgBackRest.
+ *
+ * Usage:
+ *   bun test scripts/test/test-backup-schedule-units.test.ts
+ */
+
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+
+const SCHEDULER_SCRIPT = join(import.meta.dir, "../../stacks/primary/scripts/backup-scheduler.sh");
+
+const WEEKLY = "full=0 2 * * 0; diff=0 2 * * 1-6; incr=0 */6 * * *";
+
+/**
+ * Run a snippet after sourcing the scheduler (UTC, so timestamps are predictable)
+ */
+function runScheduler(snippet: string): { exitCode: number; stdout: string; stderr: string } {
+  const result = Bun.spawnSync(
+    ["bash", "-c", `source "$1"; set +e; ${snippet}`, "bash", SCHEDULER_SCRIPT],
+    {
+      env: { ...Bun.env, TZ: "UTC" },
+    }
+  );
+  return {
+    exitCode: result.exitCode,
+    stdout: result.stdout.toString(),
+    stderr: result.stderr.toString(),
+  };
+}
+
+/**
+ * Backup type due at each UTC time ("YYYY-MM-DD HH:MM") for a schedule
+ */
+function dueTypes(schedule: string, times: string[]): string[] {
+  const checks = times.map((time) => `due_backup_type "$(date -d '${time}' +%s)"; echo`).join("; ");
+  const { exitCode, stdout, stderr } = runScheduler(
+    `parse_schedule '${schedule}' || exit 1; ${checks}`
+  );
+  expect(stderr).toBe("");
+  expect(exitCode).toBe(0);
+  return stdout.split("\n").slice(0, times.length);
+}
+
+describe("BACKUP_SCHEDULE matching", () => {
+  test("the largest backup type wins when entries overlap", () => {
+    // 2026-10-18 is a Sunday
+    expect(
+      dueTypes(WEEKLY, [
+        "2026-10-18 02:00",
+        "2026-10-19 02:00",
+        "2026-10-19 06:00",
+        "2026-10-19 00:00",
+        "2026-10-19 06:01",
+      ])
+    ).toEqual(["full", "diff", "incr", "incr", ""]);
+  });
+
+  test("lists, ranges, steps and Sunday as 7", () => {
+    expect(
+      dueTypes("full=*/15 1-3,22 * * 7; incr=5/20 * * * *", [
+        "2026-10-18 22:30",
+        "2026-10-19 22:30",
+        "2026-10-19 04:25",
+        "2026-10-19 04:45",
+      ])
+    ).toEqual(["full", "", "incr", "incr"]);
+  });
+
+  test("restricted day-of-month and day-of-week match either, like cron", () => {
+    // 2026-10-15 is a Thursday, 2026-10-19 a Monday
+    expect(
+      dueTypes("full=0 3 1,15 * 1", ["2026-10-15 03:00", "2026-10-19 03:00", "2026-10-20 03:00"])
+    ).toEqual(["full", "full", ""]);
+  });
+});
+
+describe("BACKUP_SCHEDULE validation", () => {
+  test("reports every invalid entry", () => {
+    const { exitCode, stderr } = runScheduler(
+      "parse_schedule 'weekly=0 2 * * 0; full=61 * * * *; incr; diff=* * *; full=0 0 0 * *'"
+    );
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("'weekly=0 2 * * 0': unknown backup type 'weekly'");
+    expect(stderr).toContain("'full=61 * * * *': expected five cron fields");
+    expect(stderr).toContain("'incr': expected type=cron");
+    expect(stderr).toContain("'diff=* * *': expected five cron fields");
+    expect(stderr).toContain("'full=0 0 0 * *': expected five cron fields");
+  });
+
+  test("an empty schedule is rejected", () => {
+    const { exitCode, stderr } = runScheduler("parse_schedule ' ; '");
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("BACKUP_SCHEDULE has no entries");
+  });
+});
+
+describe("repository keys from files", () => {
+  test("file_env reads the _FILE variant and refuses both", () => {
+    const file = join(import.meta.dir, "../../stacks/primary/scripts/backup-scheduler.sh");
+    const { exitCode, stdout } = runScheduler(
+      `key=$(mktemp); printf 'cipher-pass\\n' > "$key"; PGBACKREST_REPO1_CIPHER_PASS_FILE=$key file_env PGBACKREST_REPO1_CIPHER_PASS; rm -f "$key"; echo "$PGBACKREST_REPO1_CIPHER_PASS|\${PGBACKREST_REPO1_CIPHER_PASS_FILE:-unset}"`
+    );
+    expect(exitCode).toBe(0);
+    expect(stdout).toBe("cipher-pass|unset\n");
+
+    const both = runScheduler(
+      `PGBACKREST_REPO1_S3_KEY=inline PGBACKREST_REPO1_S3_KEY_FILE=${file} file_env PGBACKREST_REPO1_S3_KEY`
+    );
+    expect(both.exitCode).toBe(1);
+    expect(both.stderr).toContain("Both PGBACKREST_REPO1_S3_KEY and PGBACKREST_REPO1_S3_KEY_FILE");
+  });
+});
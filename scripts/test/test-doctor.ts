@@ -0,0 +1,206 @@
+#!/usr/bin/env bun
+/**
+ * Doctor Test
+ *
+ * Purpose: Verify scripts/tools/doctor.ts reports on a live container
+ *
+ * Coverage:
+ * - JSON report runs every check; auto-config matches the container's cgroup limits
+ * - A duplicate index and pg_stat_statements entries show up as findings
+ * - The table report renders, and autovacuum = off is critical (exit code 2)
+ *
+ * Usage:
+ *   bun scripts/test/test-doctor.ts [image-tag] [--no-cleanup]
+ */
+
+import { $ } from "bun";
+import { join } from "node:path";
+import {
+  checkCommand,
+  checkDockerDaemon,
+  cleanupContainer,
+  ensureImageAvailable,
+  generateUniqueContainerName,
+  waitForPostgresStable,
+} from "../utils/docker";
+import { error, info, section, success, testSummary } from "../utils/logger";
+import type { TestResult } from "../utils/logger";
+import { TIMEOUTS } from "../config/test-timeouts";
+import { CHECKS, type DoctorReport } from "../tools/doctor-checks";
+
+const DOCTOR = join(import.meta.dir, "../tools/doctor.ts");
+
+interface TestConfig {
+  imageTag: string;
+  noCleanup: boolean;
+  testPassword: string;
+  containers: string[];
+  /** Container started by the first test */
+  container?: string;
+}
+
+async function runTest(name: string, body: () => Promise<void>): Promise<TestResult> {
+  const start = Date.now();
+  section(name);
+  try {
+    await body();
+    success(`${name} passed`);
+    return { name, passed: true, duration: Date.now() - start };
+  } catch (err) {
+    return {
+      name,
+      passed: false,
+      duration: Date.now() - start,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+async function psql(container: string, sql: string): Promise<void> {
+  await $`docker exec ${container} psql -U postgres -v ON_ERROR_STOP=1 -c ${sql}`.quiet();
+}
+
+async function testJsonReport(config: TestConfig): Promise<void> {
+  const containerName = generateUniqueContainerName("doctor-test");
+  config.containers.push(containerName);
+  info("Starting container with a 2 GiB / 2 CPU limit...");
+  await $`docker run -d --name ${containerName} --memory 2g --cpus 2 -e POSTGRES_PASSWORD=${config.testPassword} ${config.imageTag}`.quiet();
+
+  const ready = await waitForPostgresStable({
+    container: containerName,
+    timeout: TIMEOUTS.initialization,
+    requiredSuccesses: 3,
+  });
+  if (!ready) {
+    const logs = await $`docker logs ${containerName}`.nothrow().quiet();
+    throw new Error(`PostgreSQL failed to start:\n${logs.stderr.toString()}`);
+  }
+  config.container = containerName;
+
+  info("Creating a table with a duplicate index...");
+  await psql(
+    containerName,
+    `CREATE EXTENSION IF NOT EXISTS pg_stat_statements;
+     CREATE TABLE orders (id bigint PRIMARY KEY, customer_id bigint NOT NULL);
+     INSERT INTO orders SELECT g, g % 1000 FROM generate_series(1, 10000) g;
+     CREATE INDEX orders_customer_idx ON orders (customer_id);
+     CREATE INDEX orders_customer_idx_copy ON orders (customer_id);
+     ANALYZE orders;
+     SELECT count(*) FROM orders WHERE customer_id = 7;`
+  );
+
+  const result = await $`bun ${DOCTOR} --container ${containerName} --format json`
+    .nothrow()
+    .quiet();
+  if (result.exitCode !== 0) {
+    throw new Error(`doctor exited with ${result.exitCode}:\n${result.stderr.toString()}`);
+  }
+  const report = JSON.parse(result.stdout.toString()) as DoctorReport;
+
+  const checks = report.checks.map((check) => check.check);
+  if (checks.join(",") !== CHECKS.join(",")) {
+    throw new Error(`Checks ran: ${checks.join(", ")}`);
+  }
+  const autoConfig = report.checks.find((check) => check.check === "auto-config");
+  if (autoConfig?.status !== "ok") {
+    throw new Error(`auto-config should match the container limits: ${JSON.stringify(autoConfig)}`);
+  }
+  const duplicate = report.findings.find(
+    (finding) => finding.check === "duplicate-indexes" && finding.severity === "warning"
+  );
+  if (!duplicate?.subject.startsWith("public.orders_customer_idx")) {
+    throw new Error(`No duplicate index finding: ${JSON.stringify(report.findings)}`);
+  }
+  const topQueries = report.checks.find((check) => check.check === "top-queries");
+  if (topQueries?.status === "skipped" || topQueries?.findings.length === 0) {
+    throw new Error(`No pg_stat_statements entries: ${JSON.stringify(topQueries)}`);
+  }
+  info(`${report.findings.length} findings: ${JSON.stringify(report.counts)}`);
+}
+
+async function testCriticalExitCode(config: TestConfig): Promise<void> {
+  const container = config.container!;
+  info("Turning autovacuum off...");
+  await psql(container, "ALTER SYSTEM SET autovacuum = off");
+  await psql(container, "SELECT pg_reload_conf()");
+
+  try {
+    const result = await $`bun ${DOCTOR} --container ${container}`.nothrow().quiet();
+    const output = result.stdout.toString();
+    if (result.exitCode !== 2) {
+      throw new Error(`doctor exited with ${result.exitCode}, expected 2:\n${output}`);
+    }
+    if (!/^critical\s+autovacuum\s+autovacuum\s+autovacuum is off/m.test(output)) {
+      throw new Error(`Table report has no critical autovacuum finding:\n${output}`);
+    }
+  } finally {
+    await psql(container, "ALTER SYSTEM RESET autovacuum");
+    await psql(container, "SELECT pg_reload_conf()");
+  }
+}
+
+async function cleanup(config: TestConfig): Promise<void> {
+  if (config.noCleanup) {
+    info(`Skipping cleanup (--no-cleanup): ${config.containers.join(", ")}`);
+    return;
+  }
+  for (const container of config.containers) {
+    await cleanupContainer(container);
+  }
+}
+
+async function main(): Promise<void> {
+  try {
+    await checkCommand("docker");
+    await checkDockerDaemon();
+  } catch (err) {
+    error(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+
+  const config: TestConfig = {
+    imageTag:
+      Bun.argv.slice(2).find((arg) => !arg.startsWith("--")) ||
+      Bun.env.POSTGRES_IMAGE ||
+      "ghcr.io/fluxo-kt/aza-pg:pg18",
+    noCleanup: Bun.argv.includes("--no-cleanup"),
+    testPassword: `test_postgres_${Date.now()}_${process.pid}`,
+    containers: [],
+  };
+
+  console.log("========================================");
+  console.log("Doctor Test");
+  console.log("========================================");
+  console.log(`Image: ${config.imageTag}`);
+  console.log("");
+
+  process.on("SIGINT", async () => {
+    await cleanup(config);
+    process.exit(130);
+  });
+
+  try {
+    await ensureImageAvailable(config.imageTag);
+  } catch (err) {
+    error(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+
+  const results: TestResult[] = [];
+  try {
+    // The exit code check reuses the container the first one starts
+    const report = await runTest("JSON report", () => testJsonReport(config));
+    results.push(report);
+    if (report.passed) {
+      results.push(await runTest("Critical exit code", () => testCriticalExitCode(config)));
+    }
+  } finally {
+    await cleanup(config);
+  }
+
+  console.log("");
+  testSummary(results);
+  process.exit(results.every((result) => result.passed) ? 0 : 1);
+}
+
+main();
@@ -14,6 +14,9 @@
  * - Test extension dependencies (CASCADE behavior)
  * - Verify manifest versions match installed versions
  *
+ * Works for every major in PG_VERSION_MATRIX: the server major is detected from the
+ * running container and checked against that major's generated manifest.
+ *
  * Usage:
  *   bun scripts/test/test-extension-versions.ts [image-tag] [--no-cleanup]
  */
@@ -31,6 +34,7 @@ import {
 import { error, info, section, success, testSummary, warning } from "../utils/logger";
 import type { TestResult } from "../utils/logger";
 import { TIMEOUTS } from "../config/test-timeouts";
+import { findPgTarget, getPgVersionMatrix } from "../extensions/pg-version-matrix";
 
 /**
  * Test configuration
@@ -70,6 +74,33 @@ function generateTestPassword(): string {
   return Bun.env.TEST_POSTGRES_PASSWORD ?? `test_postgres_${timestamp}_${pid}`;
 }
 
+/**
+ * Detect the PostgreSQL major of the running server (e.g., "17")
+ */
+async function detectPgMajor(container: string): Promise<string> {
+  const result =
+    await $`docker exec ${container} psql -U postgres -tAc "SELECT current_setting('server_version_num')::int / 10000;"`;
+  const pgMajor = result.text().trim();
+  if (!/^\d+$/.test(pgMajor)) {
+    throw new Error(`Could not detect PostgreSQL major (got '${pgMajor}')`);
+  }
+  return pgMajor;
+}
+
+/**
+ * Path to the generated manifest for a PostgreSQL major in the version matrix
+ */
+function manifestPathForPgMajor(pgMajor: string): string {
+  const target = findPgTarget(pgMajor);
+  if (!target) {
+    const majors = getPgVersionMatrix().map((t) => t.pgMajor);
+    throw new Error(
+      `Image runs PostgreSQL ${pgMajor}, which is not in PG_VERSION_MATRIX (${majors.join(", ")})`
+    );
+  }
+  return join(import.meta.dir, "../..", target.artifactDir, "extensions.manifest.json");
+}
+
 /**
  * Query installed extensions
  */
@@ -143,7 +174,7 @@ async function testQueryExtensions(config: TestConfig): Promise<TestResult> {
  * Test 2: Verify installed extension versions match manifest declarations.
  *
  * First checks pg_aza_status for any failed installations (the initdb contract table),
- * then reads source.tag from extensions.manifest.json and extracts a semver string via
+ * then reads source.tag from the server major's extensions.manifest.json and extracts a semver string via
  * regex, asserting pg_extension.extversion starts with that declared version.
  *
  * Only extensions with defaultEnable=true are required to be present; all others that
@@ -178,7 +209,9 @@ async function testManifestVersionMatch(config: TestConfig): Promise<TestResult>
     const installed = await queryExtensions(config.containerName);
     const installedMap = new Map<string, string>(installed.map((e) => [e.name, e.version]));
 
-    const manifestPath = join(import.meta.dir, "../../docker/postgres/extensions.manifest.json");
+    const pgMajor = await detectPgMajor(config.containerName);
+    const manifestPath = manifestPathForPgMajor(pgMajor);
+    info(`PostgreSQL ${pgMajor}: checking against ${manifestPath}`);
     const manifest = await Bun.file(manifestPath).json();
 
     interface ManifestEntry {
@@ -590,7 +623,8 @@ async function testExtensionControlFiles(config: TestConfig): Promise<TestResult
   try {
     section("Test 9: Check Extension Control Files");
 
-    info("Checking for extension control files...");
+    const pgMajor = await detectPgMajor(config.containerName);
+    info(`Checking for extension control files (PostgreSQL ${pgMajor})...`);
 
     // Check key extensions
     const extensionsToCheck = ["vector", "timescaledb", "pg_cron", "pgaudit"];
@@ -598,7 +632,7 @@ async function testExtensionControlFiles(config: TestConfig): Promise<TestResult
 
     for (const extName of extensionsToCheck) {
       const checkResult =
-        await $`docker exec ${config.containerName} test -f /usr/share/postgresql/18/extension/${extName}.control`.nothrow();
+        await $`docker exec ${config.containerName} test -f /usr/share/postgresql/${pgMajor}/extension/${extName}.control`.nothrow();
 
       if (checkResult.exitCode !== 0) {
         missingControlFiles.push(extName);
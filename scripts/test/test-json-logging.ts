@@ -0,0 +1,214 @@
+#!/usr/bin/env bun
+/**
+ * JSON Logging Test
+ *
+ * Purpose: Verify POSTGRES_LOG_FORMAT=json switches PostgreSQL to jsonlog on the container output
+ *
+ * Coverage:
+ * - log_destination, logging_collector and log_directory follow the JSON log settings
+ * - docker logs carries jsonlog entries, including an error with its SQLSTATE
+ * - The SQLSTATE summary of capture-postgres-diagnostics.ts reads those logs
+ * - An invalid POSTGRES_LOG_FORMAT stops the container
+ *
+ * Usage:
+ *   bun scripts/test/test-json-logging.ts [image-tag] [--no-cleanup]
+ */
+
+import { $ } from "bun";
+import {
+  checkCommand,
+  checkDockerDaemon,
+  cleanupContainer,
+  ensureImageAvailable,
+  generateUniqueContainerName,
+  waitForPostgresStable,
+} from "../utils/docker";
+import { error, info, section, success, testSummary } from "../utils/logger";
+import type { TestResult } from "../utils/logger";
+import { TIMEOUTS } from "../config/test-timeouts";
+import { JSON_LOG_SETTINGS } from "../config-generator/logging";
+import { parseJsonLog, summarizeErrorsBySqlstate } from "../debug/postgres-json-log";
+
+interface TestConfig {
+  imageTag: string;
+  noCleanup: boolean;
+  testPassword: string;
+  containers: string[];
+  /** Container in JSON log mode, started by the first test */
+  container?: string;
+}
+
+async function runTest(name: string, body: () => Promise<void>): Promise<TestResult> {
+  const start = Date.now();
+  section(name);
+  try {
+    await body();
+    success(`${name} passed`);
+    return { name, passed: true, duration: Date.now() - start };
+  } catch (err) {
+    return {
+      name,
+      passed: false,
+      duration: Date.now() - start,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+async function show(container: string, setting: string): Promise<string> {
+  return (
+    await $`docker exec ${container} psql -U postgres -tAc ${`SHOW ${setting}`}`.text()
+  ).trim();
+}
+
+async function testSettings(config: TestConfig): Promise<void> {
+  const containerName = generateUniqueContainerName("json-logging-test");
+  config.containers.push(containerName);
+  info("Starting container with POSTGRES_LOG_FORMAT=json...");
+  await $`docker run -d --name ${containerName} -e POSTGRES_PASSWORD=${config.testPassword} -e POSTGRES_LOG_FORMAT=json ${config.imageTag}`.quiet();
+
+  const ready = await waitForPostgresStable({
+    container: containerName,
+    timeout: TIMEOUTS.initialization,
+    requiredSuccesses: 3,
+  });
+  if (!ready) {
+    const logs = await $`docker logs ${containerName}`.nothrow().quiet();
+    throw new Error(`PostgreSQL failed to start:\n${logs.stderr.toString()}`);
+  }
+  config.container = containerName;
+
+  const expected: [string, string][] = [
+    ["log_destination", JSON_LOG_SETTINGS.logDestination],
+    ["logging_collector", JSON_LOG_SETTINGS.loggingCollector],
+    ["log_directory", JSON_LOG_SETTINGS.logDirectory],
+  ];
+  for (const [setting, value] of expected) {
+    const actual = await show(containerName, setting);
+    if (actual !== value) {
+      throw new Error(`${setting} is '${actual}', expected '${value}'`);
+    }
+  }
+}
+
+async function testDockerLogs(config: TestConfig): Promise<void> {
+  const container = config.container!;
+  info("Running a failing query (division by zero, SQLSTATE 22012)...");
+  await $`docker exec ${container} psql -U postgres -c ${"SELECT 1/0"}`.nothrow().quiet();
+
+  // The collector writes asynchronously: give it a moment to flush
+  let summaries: ReturnType<typeof summarizeErrorsBySqlstate> = [];
+  let entryCount = 0;
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const logs = await $`docker logs ${container}`.nothrow().quiet();
+    const entries = parseJsonLog(logs.stdout.toString());
+    entryCount = entries.length;
+    summaries = summarizeErrorsBySqlstate(entries);
+    if (summaries.some((summary) => summary.stateCode === "22012")) {
+      break;
+    }
+    await Bun.sleep(1000);
+  }
+
+  if (entryCount === 0) {
+    throw new Error("docker logs has no jsonlog entries");
+  }
+  const divisionByZero = summaries.find((summary) => summary.stateCode === "22012");
+  if (!divisionByZero || !divisionByZero.sampleMessage.includes("division by zero")) {
+    throw new Error(
+      `No 22012 error in the JSON logs; codes seen: ${summaries.map((s) => s.stateCode).join(", ") || "none"}`
+    );
+  }
+  info(`${entryCount} JSON log entries, 22012 seen ${divisionByZero.count} time(s)`);
+}
+
+async function testInvalidFormat(config: TestConfig): Promise<void> {
+  const containerName = generateUniqueContainerName("json-logging-invalid");
+  config.containers.push(containerName);
+  info("Starting container with POSTGRES_LOG_FORMAT=xml...");
+  await $`docker run -d --name ${containerName} -e POSTGRES_PASSWORD=${config.testPassword} -e POSTGRES_LOG_FORMAT=xml ${config.imageTag}`.quiet();
+
+  const deadline = Date.now() + 60_000;
+  let status = "";
+  while (Date.now() < deadline) {
+    status = (await $`docker inspect -f {{.State.Status}} ${containerName}`.text()).trim();
+    if (status === "exited") {
+      break;
+    }
+    await Bun.sleep(1000);
+  }
+  if (status !== "exited") {
+    throw new Error("Container with an invalid log format kept running");
+  }
+  const logs = await $`docker logs ${containerName}`.nothrow().quiet();
+  if (!logs.stderr.toString().includes("Invalid POSTGRES_LOG_FORMAT='xml'")) {
+    throw new Error(`Error message missing from the logs:\n${logs.stderr.toString()}`);
+  }
+}
+
+async function cleanup(config: TestConfig): Promise<void> {
+  if (config.noCleanup) {
+    info(`Skipping cleanup (--no-cleanup): ${config.containers.join(", ")}`);
+    return;
+  }
+  for (const container of config.containers) {
+    await cleanupContainer(container);
+  }
+}
+
+async function main(): Promise<void> {
+  try {
+    await checkCommand("docker");
+    await checkDockerDaemon();
+  } catch (err) {
+    error(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+
+  const config: TestConfig = {
+    imageTag:
+      Bun.argv.slice(2).find((arg) => !arg.startsWith("--")) ||
+      Bun.env.POSTGRES_IMAGE ||
+      "ghcr.io/fluxo-kt/aza-pg:pg18",
+    noCleanup: Bun.argv.includes("--no-cleanup"),
+    testPassword: `test_postgres_${Date.now()}_${process.pid}`,
+    containers: [],
+  };
+
+  console.log("========================================");
+  console.log("JSON Logging Test");
+  console.log("========================================");
+  console.log(`Image: ${config.imageTag}`);
+  console.log("");
+
+  process.on("SIGINT", async () => {
+    await cleanup(config);
+    process.exit(130);
+  });
+
+  try {
+    await ensureImageAvailable(config.imageTag);
+  } catch (err) {
+    error(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+
+  const results: TestResult[] = [];
+  try {
+    // The log check reads the container the first one starts
+    const settings = await runTest("JSON log settings", () => testSettings(config));
+    results.push(settings);
+    if (settings.passed) {
+      results.push(await runTest("jsonlog on docker logs", () => testDockerLogs(config)));
+    }
+    results.push(await runTest("Invalid log format", () => testInvalidFormat(config)));
+  } finally {
+    await cleanup(config);
+  }
+
+  console.log("");
+  testSummary(results);
+  process.exit(results.every((result) => result.passed) ? 0 : 1);
+}
+
+main();
@@ -0,0 +1,490 @@
+#!/usr/bin/env bun
+/**
+ * Logical Replication Test
+ *
+ * Purpose: Test the logical replication stack and scripts/tools/logical-replicate.ts
+ *
+ * Coverage:
+ * - Start a publisher container (wal_level=logical, replicator role) and stacks/logical
+ *   on a shared network
+ * - Set up a publication and subscription for one table and one schema, including the
+ *   table definitions and the initial data copy
+ * - Verify changes made after the initial copy stream to the subscriber
+ * - Verify the pg_logical_subscription and pg_logical_slot exporter queries
+ * - Copy sequence values with --sync-sequences
+ * - Drop the subscription and publication with --drop (no slot left on the publisher)
+ *
+ * Usage:
+ *   bun scripts/test/test-logical-replication.ts [image-tag] [--no-cleanup]
+ */
+
+import { $ } from "bun";
+import { join } from "node:path";
+import {
+  checkCommand,
+  checkDockerDaemon,
+  cleanupContainer,
+  ensureImageAvailable,
+  generateUniqueContainerName,
+  generateUniqueProjectName,
+  waitForPostgresStable,
+} from "../utils/docker";
+import { error, info, section, success, testSummary, warning } from "../utils/logger";
+import type { TestResult } from "../utils/logger";
+import { TIMEOUTS } from "../config/test-timeouts";
+import { cleanupTestStackSecrets, createTestStackSecrets } from "../utils/stack-secrets";
+
+/**
+ * Test configuration
+ */
+interface TestConfig {
+  imageTag: string;
+  noCleanup: boolean;
+  publisherContainer: string;
+  subscriberContainer: string;
+  projectName: string;
+  networkName: string;
+  dataVolume: string;
+  testPassword: string;
+  testReplicationPassword: string;
+}
+
+const REPO_ROOT = join(import.meta.dir, "../..");
+const LOGICAL_STACK = join(REPO_ROOT, "stacks/logical");
+const TOOL = join(REPO_ROOT, "scripts/tools/logical-replicate.ts");
+const EXPORTER_QUERIES = join(REPO_ROOT, "docker/postgres/configs/postgres_exporter_queries.yaml");
+const SUBSCRIPTION = "logical_test";
+const INITIAL_ROWS = 1000;
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(): Pick<TestConfig, "imageTag" | "noCleanup"> {
+  const positional = Bun.argv.slice(2).filter((arg) => !arg.startsWith("--"));
+  const imageTag = positional[0] || Bun.env.POSTGRES_IMAGE || "ghcr.io/fluxo-kt/aza-pg:pg18";
+  const noCleanup = Bun.argv.includes("--no-cleanup");
+
+  return { imageTag, noCleanup };
+}
+
+async function psql(container: string, sql: string): Promise<string> {
+  return (
+    await $`docker exec ${container} psql -U postgres -v ON_ERROR_STOP=1 -tAc ${sql}`.text()
+  ).trim();
+}
+
+/**
+ * Run logical-replicate.ts against the test containers
+ */
+async function runTool(config: TestConfig, args: string[]): Promise<string> {
+  const result =
+    await $`bun ${TOOL} --source ${config.publisherContainer} --target ${config.subscriberContainer} --source-host ${config.publisherContainer} --name ${SUBSCRIPTION} ${args}`
+      .env({ ...process.env, PG_REPLICATION_PASSWORD: config.testReplicationPassword })
+      .nothrow()
+      .quiet();
+  const output = `${result.stdout.toString()}${result.stderr.toString()}`;
+  if (result.exitCode !== 0) {
+    throw new Error(`logical-replicate.ts ${args.join(" ")} failed:\n${output}`);
+  }
+  return output;
+}
+
+/**
+ * Poll a query until it returns the expected value
+ */
+async function waitForValue(
+  container: string,
+  sql: string,
+  expected: string,
+  timeoutSeconds: number
+): Promise<void> {
+  const deadline = Date.now() + timeoutSeconds * 1000;
+  let value = "";
+  while (Date.now() < deadline) {
+    value = await psql(container, sql).catch(() => "");
+    if (value === expected) {
+      return;
+    }
+    await Bun.sleep(1000);
+  }
+  throw new Error(`Expected '${expected}' from "${sql}" on ${container}, got '${value}'`);
+}
+
+/**
+ * Test 1: Start the publisher and the logical replication stack
+ */
+async function testStartServers(config: TestConfig): Promise<TestResult> {
+  const start = Date.now();
+  try {
+    section("Test 1: Start Publisher and Logical Stack");
+
+    await $`docker network create ${config.networkName}`.quiet();
+
+    info("Starting publisher (wal_level=logical by default)...");
+    await $`docker run -d --name ${config.publisherContainer} --network ${config.networkName} \
+      -e POSTGRES_PASSWORD=${config.testPassword} \
+      -e PG_REPLICATION_PASSWORD=${config.testReplicationPassword} \
+      ${config.imageTag}`.quiet();
+
+    info("Starting stacks/logical...");
+    // An empty replication_password skips the replicator role on the subscriber
+    const secretsDir = await createTestStackSecrets(config.projectName, {
+      postgres_password: config.testPassword,
+      replication_password: "",
+    });
+    const envContent = `POSTGRES_SECRETS_DIR=${secretsDir}
+POSTGRES_IMAGE=${config.imageTag}
+POSTGRES_MEMORY_LIMIT=1g
+POSTGRES_PORT=0
+COMPOSE_PROJECT_NAME=${config.projectName}
+POSTGRES_NETWORK_NAME=${config.networkName}
+POSTGRES_DATA_VOLUME=${config.dataVolume}
+`;
+    await Bun.write(join(LOGICAL_STACK, ".env.test"), envContent);
+    await $`docker compose --env-file .env.test up -d postgres-logical`.cwd(LOGICAL_STACK).quiet();
+
+    for (const container of [config.publisherContainer, config.subscriberContainer]) {
+      const ready = await waitForPostgresStable({ container, timeout: TIMEOUTS.initialization });
+      if (!ready) {
+        throw new Error(`${container} did not become ready`);
+      }
+    }
+
+    const walLevel = await psql(config.subscriberContainer, "SHOW wal_level");
+    const workers = await psql(config.subscriberContainer, "SHOW max_logical_replication_workers");
+    if (walLevel !== "logical" || workers !== "6") {
+      throw new Error(
+        `Logical stack config not applied: wal_level=${walLevel}, max_logical_replication_workers=${workers}`
+      );
+    }
+    success("Publisher and subscriber are running");
+
+    return {
+      name: "Start Publisher and Logical Stack",
+      passed: true,
+      duration: Date.now() - start,
+    };
+  } catch (err) {
+    return {
+      name: "Start Publisher and Logical Stack",
+      passed: false,
+      duration: Date.now() - start,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+/**
+ * Test 2: Set up replication, including table definitions and the initial copy
+ */
+async function testSetup(config: TestConfig): Promise<TestResult> {
+  const start = Date.now();
+  try {
+    section("Test 2: Publication, Subscription and Initial Sync");
+
+    await psql(
+      config.publisherContainer,
+      `CREATE TABLE public.orders (id bigserial PRIMARY KEY, note text NOT NULL);
+       INSERT INTO public.orders (note) SELECT 'order ' || g FROM generate_series(1, ${INITIAL_ROWS}) g;
+       CREATE SCHEMA events;
+       CREATE TABLE events.clicks (id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY, url text);
+       INSERT INTO events.clicks (url) VALUES ('/'), ('/pricing');
+       CREATE TABLE public.not_published (id int PRIMARY KEY)`
+    );
+
+    const output = await runTool(config, ["--tables", "orders", "--schemas", "events"]);
+    if (!output.includes("Initial sync finished")) {
+      throw new Error(`Unexpected tool output:\n${output}`);
+    }
+
+    const orders = await psql(config.subscriberContainer, "SELECT count(*) FROM public.orders");
+    const clicks = await psql(config.subscriberContainer, "SELECT count(*) FROM events.clicks");
+    if (orders !== String(INITIAL_ROWS) || clicks !== "2") {
+      throw new Error(`Initial copy incomplete: orders=${orders}, clicks=${clicks}`);
+    }
+    const unpublished = await psql(
+      config.subscriberContainer,
+      "SELECT to_regclass('public.not_published') IS NULL"
+    );
+    if (unpublished !== "t") {
+      throw new Error("A table outside --tables/--schemas was copied");
+    }
+    success(`Initial copy: ${orders} orders, ${clicks} clicks`);
+
+    return {
+      name: "Publication, Subscription and Initial Sync",
+      passed: true,
+      duration: Date.now() - start,
+    };
+  } catch (err) {
+    return {
+      name: "Publication, Subscription and Initial Sync",
+      passed: false,
+      duration: Date.now() - start,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+/**
+ * Test 3: Changes after the initial copy stream to the subscriber
+ */
+async function testStreaming(config: TestConfig): Promise<TestResult> {
+  const start = Date.now();
+  try {
+    section("Test 3: Streaming Changes");
+
+    await psql(
+      config.publisherContainer,
+      `INSERT INTO public.orders (note) VALUES ('late order');
+       UPDATE public.orders SET note = 'updated' WHERE id = 1;
+       DELETE FROM events.clicks WHERE url = '/'`
+    );
+
+    await waitForValue(
+      config.subscriberContainer,
+      "SELECT count(*) || ':' || (SELECT note FROM public.orders WHERE id = 1) || ':' || (SELECT count(*) FROM events.clicks) FROM public.orders",
+      `${INITIAL_ROWS + 1}:updated:1`,
+      60
+    );
+    success("INSERT, UPDATE and DELETE replicated");
+
+    return { name: "Streaming Changes", passed: true, duration: Date.now() - start };
+  } catch (err) {
+    return {
+      name: "Streaming Changes",
+      passed: false,
+      duration: Date.now() - start,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+/**
+ * Test 4: --status and the exporter queries report the subscription
+ */
+async function testMonitoring(config: TestConfig): Promise<TestResult> {
+  const start = Date.now();
+  try {
+    section("Test 4: Status and Exporter Queries");
+
+    const status = await runTool(config, ["--status"]);
+    if (!status.includes(SUBSCRIPTION) || !status.includes("streaming")) {
+      throw new Error(`--status does not show a streaming subscription:\n${status}`);
+    }
+
+    const queries = Bun.YAML.parse(await Bun.file(EXPORTER_QUERIES).text()) as Record<
+      string,
+      { query: string }
+    >;
+    const subscriptionQuery = queries.pg_logical_subscription?.query;
+    const slotQuery = queries.pg_logical_slot?.query;
+    if (!subscriptionQuery || !slotQuery) {
+      throw new Error(
+        "pg_logical_subscription or pg_logical_slot missing from postgres_exporter_queries.yaml"
+      );
+    }
+
+    // subscription, enabled, worker_running, lag_seconds, tables_syncing, apply/sync errors
+    const subscription = (
+      await $`docker exec ${config.subscriberContainer} psql -U postgres -tAF, -c ${subscriptionQuery}`.text()
+    ).trim();
+    const [name, enabled, running, , syncing] = subscription.split(",");
+    if (name !== SUBSCRIPTION || enabled !== "1" || running !== "1" || syncing !== "0") {
+      throw new Error(`Unexpected pg_logical_subscription row: ${subscription}`);
+    }
+
+    // slot_name, database, active, lag_bytes
+    const slot = (
+      await $`docker exec ${config.publisherContainer} psql -U postgres -tAF, -c ${slotQuery}`.text()
+    ).trim();
+    const [slotName, database, active] = slot.split(",");
+    if (slotName !== SUBSCRIPTION || database !== "postgres" || active !== "1") {
+      throw new Error(`Unexpected pg_logical_slot row: ${slot}`);
+    }
+    success(`Subscriber: ${subscription}; publisher: ${slot}`);
+
+    return { name: "Status and Exporter Queries", passed: true, duration: Date.now() - start };
+  } catch (err) {
+    return {
+      name: "Status and Exporter Queries",
+      passed: false,
+      duration: Date.now() - start,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+/**
+ * Test 5: --sync-sequences moves the subscriber's sequences past the publisher's values
+ */
+async function testSyncSequences(config: TestConfig): Promise<TestResult> {
+  const start = Date.now();
+  try {
+    section("Test 5: Sequence Sync");
+
+    await runTool(config, ["--tables", "orders", "--schemas", "events", "--sync-sequences"]);
+
+    const nextOrder = await psql(
+      config.subscriberContainer,
+      "SELECT nextval('public.orders_id_seq')"
+    );
+    const nextClick = await psql(
+      config.subscriberContainer,
+      "SELECT nextval(pg_get_serial_sequence('events.clicks', 'id'))"
+    );
+    if (Number(nextOrder) !== INITIAL_ROWS + 2 || Number(nextClick) !== 3) {
+      throw new Error(`Sequences not copied: orders_id_seq=${nextOrder}, clicks id=${nextClick}`);
+    }
+    success(`Sequences continue at ${nextOrder} and ${nextClick}`);
+
+    return { name: "Sequence Sync", passed: true, duration: Date.now() - start };
+  } catch (err) {
+    return {
+      name: "Sequence Sync",
+      passed: false,
+      duration: Date.now() - start,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+/**
+ * Test 6: --drop removes the subscription, the slot and the publication
+ */
+async function testDrop(config: TestConfig): Promise<TestResult> {
+  const start = Date.now();
+  try {
+    section("Test 6: Drop Replication");
+
+    await runTool(config, ["--drop"]);
+
+    const leftovers = [
+      await psql(config.subscriberContainer, "SELECT count(*) FROM pg_subscription"),
+      await psql(config.publisherContainer, "SELECT count(*) FROM pg_replication_slots"),
+      await psql(config.publisherContainer, "SELECT count(*) FROM pg_publication"),
+    ];
+    if (leftovers.some((count) => count !== "0")) {
+      throw new Error(`Subscriptions/slots/publications left: ${leftovers.join("/")}`);
+    }
+    success("Subscription, slot and publication dropped");
+
+    return { name: "Drop Replication", passed: true, duration: Date.now() - start };
+  } catch (err) {
+    return {
+      name: "Drop Replication",
+      passed: false,
+      duration: Date.now() - start,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+async function cleanup(config: TestConfig): Promise<void> {
+  if (config.noCleanup) {
+    warning("Skipping cleanup (--no-cleanup flag set)");
+    info(`Publisher: ${config.publisherContainer}`);
+    info(`Subscriber: ${config.subscriberContainer} (project ${config.projectName})`);
+    info(`Network: ${config.networkName}`);
+    return;
+  }
+
+  info("Cleaning up test environment...");
+  await $`docker compose --env-file .env.test down -v`.cwd(LOGICAL_STACK).nothrow().quiet();
+  await $`rm -f ${join(LOGICAL_STACK, ".env.test")}`.nothrow().quiet();
+  await cleanupTestStackSecrets(config.projectName);
+  await cleanupContainer(config.publisherContainer);
+  await $`docker network rm ${config.networkName}`.nothrow().quiet();
+}
+
+async function main(): Promise<void> {
+  try {
+    await checkCommand("docker");
+    await checkDockerDaemon();
+  } catch (err) {
+    error(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+
+  const args = parseArgs();
+  const timestamp = Date.now();
+  const pid = process.pid;
+  const projectName = generateUniqueProjectName("aza-pg-logical-test");
+
+  const config: TestConfig = {
+    ...args,
+    publisherContainer: generateUniqueContainerName("logical-test-publisher"),
+    subscriberContainer: `${projectName}-postgres-logical`,
+    projectName,
+    networkName: `logical-test-net-${timestamp}-${pid}`,
+    dataVolume: `logical-test-data-${timestamp}-${pid}`,
+    testPassword: Bun.env.TEST_POSTGRES_PASSWORD ?? `test_postgres_${timestamp}_${pid}`,
+    testReplicationPassword:
+      Bun.env.TEST_REPLICATION_PASSWORD ?? `test_replication_${timestamp}_${pid}`,
+  };
+
+  console.log("========================================");
+  console.log("Logical Replication Test");
+  console.log("========================================");
+  console.log(`Image: ${config.imageTag}`);
+  console.log(`Publisher: ${config.publisherContainer}`);
+  console.log(`Subscriber: ${config.subscriberContainer}`);
+  console.log("");
+
+  process.on("SIGINT", async () => {
+    console.log("\n\nCaught interrupt signal, cleaning up...");
+    await cleanup(config);
+    process.exit(130);
+  });
+
+  process.on("SIGTERM", async () => {
+    console.log("\n\nCaught termination signal, cleaning up...");
+    await cleanup(config);
+    process.exit(143);
+  });
+
+  try {
+    await ensureImageAvailable(config.imageTag);
+  } catch (err) {
+    error(
+      `Failed to ensure image availability: ${err instanceof Error ? err.message : String(err)}`
+    );
+    process.exit(1);
+  }
+
+  const results: TestResult[] = [];
+
+  try {
+    // Each step depends on the previous one
+    const steps = [
+      testStartServers,
+      testSetup,
+      testStreaming,
+      testMonitoring,
+      testSyncSequences,
+      testDrop,
+    ];
+    for (const step of steps) {
+      const result = await step(config);
+      results.push(result);
+      if (!result.passed) {
+        break;
+      }
+    }
+
+    console.log("");
+    testSummary(results);
+
+    if (results.length < 6 || results.some((r) => !r.passed)) {
+      process.exitCode = 1;
+    }
+  } catch (err) {
+    error("Test execution failed");
+    console.error(err);
+    process.exitCode = 1;
+  } finally {
+    await cleanup(config);
+  }
+}
+
+main();
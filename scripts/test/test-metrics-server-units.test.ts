@@ -0,0 +1,274 @@
+#!/usr/bin/env bun
+/**
+ * Unit Tests for the Built-in Metrics Endpoint
+ *
+ * Runs docker/postgres/metrics-server.pl with a stub psql on PATH and checks the exposition
+ * format, the query file handling and the healthcheck metrics without Docker or PostgreSQL.
+ *
+ * Usage:
+ *   bun test scripts/test/test-metrics-server-units.test.ts
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+const METRICS_SERVER = join(import.meta.dir, "../../docker/postgres/metrics-server.pl");
+const EXPORTER_QUERIES = join(
+  import.meta.dir,
+  "../../docker/postgres/configs/postgres_exporter_queries.yaml"
+);
+
+// Lists plpgsql and demo as installed extensions, prints demo rows (unit/record separated, \x1d
+// for NULL) for queries on demo_table and a UTF-8 row for city_table, and fails every other
+// query; STUB_PSQL_DOWN=1 fails everything
+const STUB_PSQL = `#!/bin/sh
+for arg; do sql="$arg"; done
+[ -n "$STUB_PSQL_DOWN" ] && { echo 'psql: error: connection to server failed' >&2; exit 2; }
+case "$sql" in
+  "SELECT extname FROM pg_extension") printf 'extname\\036plpgsql\\036demo\\n' ;;
+  *demo_table*) printf 'queue\\037depth\\037busy\\036a"b\\0375\\037t\\036c\\n\\037\\035\\037f\\n' ;;
+  *city_table*) printf 'city\\037people\\036Zürich\\037421878\\n' ;;
+  *) echo 'ERROR:  relation "missing" does not exist' >&2; exit 1 ;;
+esac
+`;
+
+const DEMO_QUERIES = `demo_queue:
+  extension: "demo"
+  query: |
+    SELECT queue, depth, busy FROM demo_table
+  metrics:
+    - queue:
+        usage: "LABEL"
+        description: "Queue name"
+    - depth:
+        usage: "GAUGE"
+        description: "Messages waiting"
+    - busy:
+        usage: "COUNTER"
+        description: "Busy flag"
+broken_query:
+  query: "SELECT * FROM missing"
+  metrics:
+    - value:
+        usage: "GAUGE"
+        description: "Never exported"
+absent_queue:
+  extension: "absent"
+  query: "SELECT queue, depth FROM demo_table"
+  metrics:
+    - depth:
+        usage: "GAUGE"
+        description: "Never exported"
+`;
+
+const CITY_QUERIES = `city:
+  query: "SELECT city, people FROM city_table"
+  metrics:
+    - city:
+        usage: "LABEL"
+        description: "Name"
+    - people:
+        usage: "GAUGE"
+        description: "Einwohner – Stadt"
+`;
+
+let dir = "";
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), "metrics-server-"));
+  writeFileSync(join(dir, "psql"), STUB_PSQL, { mode: 0o755 });
+  writeFileSync(join(dir, "queries.yaml"), DEMO_QUERIES);
+  writeFileSync(join(dir, "city.yaml"), CITY_QUERIES);
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function render(env: Record<string, string> = {}): {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+} {
+  const result = Bun.spawnSync(["perl", METRICS_SERVER, "render"], {
+    env: {
+      PATH: `${dir}:${Bun.env.PATH ?? "/usr/bin:/bin"}`,
+      POSTGRES_METRICS_QUERIES: join(dir, "queries.yaml"),
+      HEALTHCHECK_STATUS_FILE: join(dir, "healthcheck.status"),
+      ...env,
+    },
+  });
+  return {
+    exitCode: result.exitCode,
+    stdout: result.stdout.toString(),
+    stderr: result.stderr.toString(),
+  };
+}
+
+/**
+ * Sample lines of a metric (without HELP/TYPE comments)
+ */
+function samples(output: string, metric: string): string[] {
+  return output
+    .split("\n")
+    .filter((line) => line.startsWith(`${metric}{`) || line.startsWith(`${metric} `));
+}
+
+describe("custom queries", () => {
+  test("export GAUGE and COUNTER columns with LABEL columns as labels", () => {
+    const { exitCode, stdout } = render();
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain(
+      "# HELP demo_queue_depth Messages waiting\n# TYPE demo_queue_depth gauge\n"
+    );
+    expect(stdout).toContain("# TYPE demo_queue_busy counter\n");
+    // Label values are escaped; NULL becomes NaN, booleans 1/0
+    expect(samples(stdout, "demo_queue_depth")).toEqual([
+      'demo_queue_depth{queue="a\\"b"} 5',
+      'demo_queue_depth{queue="c\\n"} NaN',
+    ]);
+    expect(samples(stdout, "demo_queue_busy")).toEqual([
+      'demo_queue_busy{queue="a\\"b"} 1',
+      'demo_queue_busy{queue="c\\n"} 0',
+    ]);
+  });
+
+  test("a failing query is reported and logged, the others still export", () => {
+    const { stdout, stderr } = render();
+    expect(samples(stdout, "pg_up")).toEqual(["pg_up 1"]);
+    expect(samples(stdout, "aza_pg_metrics_query_success")).toEqual([
+      'aza_pg_metrics_query_success{query="broken_query"} 0',
+      'aza_pg_metrics_query_success{query="demo_queue"} 1',
+    ]);
+    expect(stdout).not.toContain("broken_query_value");
+    expect(stderr).toContain(
+      'Query broken_query failed: ERROR:  relation "missing" does not exist'
+    );
+  });
+
+  test("skips queries of extensions that are not installed", () => {
+    const { stdout, stderr } = render();
+    expect(stdout).not.toContain("absent_queue");
+    expect(stderr).not.toContain("absent_queue");
+  });
+
+  test("reads the image's exporter query file", () => {
+    const { exitCode, stdout } = render({ POSTGRES_METRICS_QUERIES: EXPORTER_QUERIES });
+    expect(exitCode).toBe(0);
+    for (const query of ["pg_backup", "aza_pg_autoconfig", "aza_pg_init"]) {
+      expect(stdout).toContain(`aza_pg_metrics_query_success{query="${query}"} 0`);
+    }
+    // pgmq is not among the stub's installed extensions
+    expect(stdout).not.toContain('query="pgmq_queue"');
+  });
+
+  test("an unreadable query file fails the scrape", () => {
+    writeFileSync(join(dir, "invalid.yaml"), "demo:\n  - a\n  b: c\n");
+    const { exitCode, stderr } = render({ POSTGRES_METRICS_QUERIES: join(dir, "invalid.yaml") });
+    expect(exitCode).not.toBe(0);
+    expect(stderr).toContain("invalid YAML in");
+  });
+});
+
+describe("server state", () => {
+  test("pg_up is 0 and no query runs when PostgreSQL is down", () => {
+    const { exitCode, stdout, stderr } = render({ STUB_PSQL_DOWN: "1" });
+    expect(exitCode).toBe(0);
+    expect(samples(stdout, "pg_up")).toEqual(["pg_up 0"]);
+    expect(stdout).not.toContain("aza_pg_metrics_query_success");
+    expect(stderr).toContain("PostgreSQL is not reachable: psql: error");
+  });
+
+  test("healthcheck metrics follow the recorded tier", () => {
+    writeFileSync(join(dir, "healthcheck.status"), "1700000000 3 1\n");
+    let { stdout } = render();
+    expect(samples(stdout, "aza_pg_healthcheck_ok")).toEqual(["aza_pg_healthcheck_ok 0"]);
+    expect(samples(stdout, "aza_pg_healthcheck_last_run_timestamp_seconds")).toEqual([
+      "aza_pg_healthcheck_last_run_timestamp_seconds 1700000000",
+    ]);
+    expect(samples(stdout, "aza_pg_healthcheck_tier_ok")).toEqual([
+      'aza_pg_healthcheck_tier_ok{tier="1",check="connection"} 1',
+      'aza_pg_healthcheck_tier_ok{tier="2",check="query"} 1',
+      'aza_pg_healthcheck_tier_ok{tier="3",check="extensions"} 0',
+    ]);
+
+    writeFileSync(join(dir, "healthcheck.status"), "1700000010 7 0\n");
+    ({ stdout } = render());
+    expect(samples(stdout, "aza_pg_healthcheck_ok")).toEqual(["aza_pg_healthcheck_ok 1"]);
+    expect(samples(stdout, "aza_pg_healthcheck_tier_ok")).toHaveLength(7);
+    expect(stdout).not.toMatch(/aza_pg_healthcheck_tier_ok\{.*\} 0/);
+
+    rmSync(join(dir, "healthcheck.status"));
+    ({ stdout } = render());
+    expect(stdout).not.toContain("aza_pg_healthcheck");
+  });
+});
+
+/**
+ * Run a metrics server on a random local port until the body finishes
+ */
+async function withServer(queries: string, body: (port: number) => Promise<void>): Promise<void> {
+  const port = 20000 + Math.floor(Math.random() * 20000);
+  const server = Bun.spawn(["perl", METRICS_SERVER, "serve"], {
+    env: {
+      PATH: `${dir}:${Bun.env.PATH ?? "/usr/bin:/bin"}`,
+      POSTGRES_METRICS_PORT: String(port),
+      POSTGRES_METRICS_LISTEN: "127.0.0.1",
+      POSTGRES_METRICS_QUERIES: join(dir, queries),
+      HEALTHCHECK_STATUS_FILE: join(dir, "healthcheck.status"),
+    },
+    stderr: "pipe",
+  });
+  try {
+    let ready = false;
+    for (let attempt = 0; attempt < 50 && !ready; attempt++) {
+      ready = await fetch(`http://127.0.0.1:${port}/`).then(
+        () => true,
+        () => false
+      );
+      if (!ready) {
+        await Bun.sleep(100);
+      }
+    }
+    expect(ready).toBe(true);
+    await body(port);
+  } finally {
+    server.kill();
+    await server.exited;
+  }
+}
+
+describe("serve", () => {
+  test("rejects an invalid port", () => {
+    const result = Bun.spawnSync(["perl", METRICS_SERVER, "serve"], {
+      env: { PATH: Bun.env.PATH ?? "/usr/bin:/bin", POSTGRES_METRICS_PORT: "70000" },
+    });
+    expect(result.exitCode).not.toBe(0);
+    expect(result.stderr.toString()).toContain("POSTGRES_METRICS_PORT must be a port number");
+  });
+
+  test("serves /metrics over HTTP", async () => {
+    await withServer("queries.yaml", async (port) => {
+      const response = await fetch(`http://127.0.0.1:${port}/metrics`);
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toStartWith("text/plain; version=0.0.4");
+      expect(await response.text()).toContain('demo_queue_depth{queue="a\\"b"} 5');
+
+      const missing = await fetch(`http://127.0.0.1:${port}/other`);
+      expect(missing.status).toBe(404);
+    });
+  });
+
+  test("Content-Length counts UTF-8 bytes", async () => {
+    await withServer("city.yaml", async (port) => {
+      const response = await fetch(`http://127.0.0.1:${port}/metrics`);
+      const body = Buffer.from(await response.arrayBuffer());
+      expect(Number(response.headers.get("content-length"))).toBe(body.length);
+      const text = body.toString("utf8");
+      expect(text).toContain('city_people{city="Zürich"} 421878');
+      expect(text).toContain("# HELP city_people Einwohner – Stadt");
+    });
+  });
+});
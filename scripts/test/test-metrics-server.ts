@@ -0,0 +1,274 @@
+#!/usr/bin/env bun
+/**
+ * Built-in Metrics Endpoint Test
+ *
+ * Purpose: Verify POSTGRES_METRICS_PORT serves Prometheus metrics from the image itself
+ *
+ * Coverage:
+ * - /metrics answers with pg_up 1 and the custom queries of the baked query file
+ * - aza_pg_autoconfig_info carries the auto-config inputs (manual memory, workload type)
+ * - aza_pg_init reports the completed init from pg_aza_status
+ * - Healthcheck tier results appear after a healthcheck.sh run
+ * - The server runs under the entrypoint (PID 1), not the postmaster, and is restarted after a
+ *   SIGKILL without PostgreSQL treating it as a crashed backend
+ * - An invalid POSTGRES_METRICS_PORT stops the container
+ *
+ * Usage:
+ *   bun scripts/test/test-metrics-server.ts [image-tag] [--no-cleanup]
+ */
+
+import { $ } from "bun";
+import {
+  checkCommand,
+  checkDockerDaemon,
+  cleanupContainer,
+  ensureImageAvailable,
+  generateUniqueContainerName,
+  waitForPostgresStable,
+} from "../utils/docker";
+import { error, info, section, success, testSummary } from "../utils/logger";
+import type { TestResult } from "../utils/logger";
+import { TIMEOUTS } from "../config/test-timeouts";
+
+const METRICS_PORT = 9187;
+
+interface TestConfig {
+  imageTag: string;
+  noCleanup: boolean;
+  testPassword: string;
+  containers: string[];
+  /** Container serving metrics, started by the first test */
+  container?: string;
+  /** Host URL of its published /metrics */
+  metricsUrl?: string;
+}
+
+async function runTest(name: string, body: () => Promise<void>): Promise<TestResult> {
+  const start = Date.now();
+  section(name);
+  try {
+    await body();
+    success(`${name} passed`);
+    return { name, passed: true, duration: Date.now() - start };
+  } catch (err) {
+    return {
+      name,
+      passed: false,
+      duration: Date.now() - start,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+async function scrape(config: TestConfig): Promise<string> {
+  const response = await fetch(config.metricsUrl!);
+  if (response.status !== 200) {
+    throw new Error(`/metrics returned HTTP ${response.status}`);
+  }
+  return response.text();
+}
+
+/**
+ * Sample lines of a metric, e.g. ['pg_up 1']
+ */
+function samples(metrics: string, metric: string): string[] {
+  return metrics
+    .split("\n")
+    .filter((line) => line.startsWith(`${metric}{`) || line.startsWith(`${metric} `));
+}
+
+function expectSample(metrics: string, metric: string, pattern: RegExp): void {
+  const lines = samples(metrics, metric);
+  if (!lines.some((line) => pattern.test(line))) {
+    throw new Error(`No ${metric} sample matches ${pattern}; got: ${lines.join(" | ") || "none"}`);
+  }
+}
+
+async function testEndpoint(config: TestConfig): Promise<void> {
+  const containerName = generateUniqueContainerName("metrics-server-test");
+  config.containers.push(containerName);
+  info("Starting container with POSTGRES_METRICS_PORT...");
+  await $`docker run -d --name ${containerName} -e POSTGRES_PASSWORD=${config.testPassword} -e POSTGRES_MEMORY=1024 -e POSTGRES_WORKLOAD_TYPE=oltp -e POSTGRES_METRICS_PORT=${METRICS_PORT} -p 127.0.0.1::${METRICS_PORT} ${config.imageTag}`.quiet();
+
+  const ready = await waitForPostgresStable({
+    container: containerName,
+    timeout: TIMEOUTS.initialization,
+    requiredSuccesses: 3,
+  });
+  if (!ready) {
+    const logs = await $`docker logs ${containerName}`.nothrow().quiet();
+    throw new Error(`PostgreSQL failed to start:\n${logs.stderr.toString()}`);
+  }
+  const hostPort = (await $`docker port ${containerName} ${METRICS_PORT}/tcp`.text())
+    .trim()
+    .split("\n")[0];
+  config.container = containerName;
+  config.metricsUrl = `http://${hostPort}/metrics`;
+
+  const metrics = await scrape(config);
+  expectSample(metrics, "pg_up", /^pg_up 1$/);
+  expectSample(metrics, "aza_pg_metrics_query_success", /query="pg_connection_usage"\} 1$/);
+  expectSample(metrics, "aza_pg_metrics_query_success", /query="pgmq_queue"\} 1$/);
+  expectSample(metrics, "pg_connection_usage_max_conn", /^pg_connection_usage_max_conn \d+$/);
+}
+
+async function testAutoConfigAndInit(config: TestConfig): Promise<void> {
+  const metrics = await scrape(config);
+  expectSample(
+    metrics,
+    "aza_pg_autoconfig_info",
+    /workload_type="oltp",storage_type="ssd",memory_source="manual",.*\} 1$/
+  );
+  expectSample(metrics, "aza_pg_autoconfig_memory_bytes", / 1073741824$/);
+  expectSample(metrics, "aza_pg_init_completed", /status="completed"\} 1$/);
+  expectSample(metrics, "aza_pg_init_failed_extensions", / 0$/);
+}
+
+async function testHealthcheckTiers(config: TestConfig): Promise<void> {
+  info("Running healthcheck.sh...");
+  await $`docker exec ${config.container!} /usr/local/bin/healthcheck.sh`.quiet();
+  const metrics = await scrape(config);
+  expectSample(metrics, "aza_pg_healthcheck_ok", /^aza_pg_healthcheck_ok 1$/);
+  const tiers = samples(metrics, "aza_pg_healthcheck_tier_ok");
+  if (tiers.length !== 7 || tiers.some((line) => !line.endsWith(" 1"))) {
+    throw new Error(`Expected 7 passing tiers, got: ${tiers.join(" | ")}`);
+  }
+}
+
+async function testSupervision(config: TestConfig): Promise<void> {
+  const container = config.container!;
+  const findServer = `for dir in /proc/[0-9]*; do
+      if tr '\\0' ' ' < "$dir/cmdline" 2>/dev/null | grep -q 'metrics-server[.]pl serve'; then
+        echo "\${dir#/proc/} $(awk '{ print $4 }' "$dir/stat")"
+      fi
+    done`;
+  const [pid, parent] = (await $`docker exec ${container} bash -c ${findServer}`.text())
+    .trim()
+    .split(" ");
+  if (!pid || parent !== "1") {
+    throw new Error(
+      `Expected the metrics server to be a child of PID 1, got pid=${pid} ppid=${parent}`
+    );
+  }
+
+  info(`Killing the metrics server (pid ${pid})...`);
+  await $`docker exec ${container} bash -c ${`kill -KILL ${pid}`}`.quiet();
+  const deadline = Date.now() + 30_000;
+  let restarted = false;
+  while (Date.now() < deadline && !restarted) {
+    await Bun.sleep(1000);
+    restarted = await scrape(config).then(
+      () => true,
+      () => false
+    );
+  }
+  if (!restarted) {
+    throw new Error("The metrics endpoint did not come back after its server was killed");
+  }
+  const logs = (await $`docker logs ${container}`.nothrow().quiet()).stderr.toString();
+  if (logs.includes("terminating any other active server processes")) {
+    throw new Error("PostgreSQL restarted its backends after the metrics server was killed");
+  }
+  if (!logs.includes("Metrics endpoint exited")) {
+    throw new Error(`The restart was not logged:\n${logs}`);
+  }
+}
+
+async function testInvalidPort(config: TestConfig): Promise<void> {
+  const containerName = generateUniqueContainerName("metrics-server-invalid");
+  config.containers.push(containerName);
+  info("Starting container with POSTGRES_METRICS_PORT=abc...");
+  await $`docker run -d --name ${containerName} -e POSTGRES_PASSWORD=${config.testPassword} -e POSTGRES_METRICS_PORT=abc ${config.imageTag}`.quiet();
+
+  const deadline = Date.now() + 60_000;
+  let status = "";
+  while (Date.now() < deadline) {
+    status = (await $`docker inspect -f {{.State.Status}} ${containerName}`.text()).trim();
+    if (status === "exited") {
+      break;
+    }
+    await Bun.sleep(1000);
+  }
+  if (status !== "exited") {
+    throw new Error("Container with an invalid metrics port kept running");
+  }
+  const logs = await $`docker logs ${containerName}`.nothrow().quiet();
+  if (!logs.stderr.toString().includes("POSTGRES_METRICS_PORT must be a port number")) {
+    throw new Error(`Error message missing from the logs:\n${logs.stderr.toString()}`);
+  }
+}
+
+async function cleanup(config: TestConfig): Promise<void> {
+  if (config.noCleanup) {
+    info(`Skipping cleanup (--no-cleanup): ${config.containers.join(", ")}`);
+    return;
+  }
+  for (const container of config.containers) {
+    await cleanupContainer(container);
+  }
+}
+
+async function main(): Promise<void> {
+  try {
+    await checkCommand("docker");
+    await checkDockerDaemon();
+  } catch (err) {
+    error(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+
+  const config: TestConfig = {
+    imageTag:
+      Bun.argv.slice(2).find((arg) => !arg.startsWith("--")) ||
+      Bun.env.POSTGRES_IMAGE ||
+      "ghcr.io/fluxo-kt/aza-pg:pg18",
+    noCleanup: Bun.argv.includes("--no-cleanup"),
+    testPassword: `test_postgres_${Date.now()}_${process.pid}`,
+    containers: [],
+  };
+
+  console.log("========================================");
+  console.log("Built-in Metrics Endpoint Test");
+  console.log("========================================");
+  console.log(`Image: ${config.imageTag}`);
+  console.log("");
+
+  process.on("SIGINT", async () => {
+    await cleanup(config);
+    process.exit(130);
+  });
+
+  try {
+    await ensureImageAvailable(config.imageTag);
+  } catch (err) {
+    error(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+
+  const results: TestResult[] = [];
+  try {
+    // The later checks scrape the container the first one starts
+    const steps: [string, (config: TestConfig) => Promise<void>][] = [
+      ["Metrics endpoint", testEndpoint],
+      ["Auto-config and init metrics", testAutoConfigAndInit],
+      ["Healthcheck tier metrics", testHealthcheckTiers],
+      ["Metrics server supervision", testSupervision],
+    ];
+    for (const [name, body] of steps) {
+      const result = await runTest(name, () => body(config));
+      results.push(result);
+      if (!result.passed) {
+        break;
+      }
+    }
+    results.push(await runTest("Invalid metrics port", () => testInvalidPort(config)));
+  } finally {
+    await cleanup(config);
+  }
+
+  console.log("");
+  testSummary(results);
+  process.exit(results.every((result) => result.passed) ? 0 : 1);
+}
+
+main();
@@ -27,6 +27,7 @@ import {
 import { error, info, section, success, testSummary, warning } from "../utils/logger";
 import type { TestResult } from "../utils/logger";
 import { TIMEOUTS } from "../config/test-timeouts";
+import { cleanupTestStackSecrets, createTestStackSecrets } from "../utils/stack-secrets";
 import { join } from "node:path";
 
 /**
@@ -277,7 +278,10 @@ async function testSetupComposeStack(config: TestConfig): Promise<TestResult> {
 
     // Create test .env file for compose
     info("Creating compose environment configuration...");
-    const envContent = `POSTGRES_PASSWORD=${config.testPassword}
+    const secretsDir = await createTestStackSecrets(config.projectName, {
+      postgres_password: config.testPassword,
+    });
+    const envContent = `POSTGRES_SECRETS_DIR=${secretsDir}
 POSTGRES_IMAGE=${config.imageTag}
 POSTGRES_MEMORY_LIMIT=1g
 COMPOSE_PROJECT_NAME=${config.projectName}
@@ -545,12 +549,13 @@ async function cleanup(config: TestConfig): Promise<void> {
     // Ignore errors
   }
 
-  // Cleanup env file
+  // Cleanup env file and secrets
   try {
     await $`rm -f ${config.envTestPath}`.quiet();
   } catch {
     // Ignore errors
   }
+  await cleanupTestStackSecrets(config.projectName);
 
   success("Cleanup completed");
 }
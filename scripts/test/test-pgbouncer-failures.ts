@@ -10,6 +10,8 @@
  *   4. PostgreSQL unavailable
  *   5. Max connections exceeded
  *   6. .pgpass wrong permissions
+ *   7. Session and transaction pool modes side by side (PGBOUNCER_DATABASES)
+ *   8. Invalid PGBOUNCER_DATABASES entry
  *
  * Examples:
  *   bun run scripts/test/test-pgbouncer-failures.ts                    # Use default 'stacks/primary'
@@ -23,6 +25,11 @@ import { checkCommand, checkDockerDaemon, generateUniqueProjectName } from "../u
 import { info, success, warning, error } from "../utils/logger";
 import { TIMEOUTS } from "../config/test-timeouts";
 import { getTestDockerConfig, cleanupTestDockerConfig } from "../utils/docker-test-config";
+import {
+  cleanupTestStackSecrets,
+  createTestStackSecrets,
+  type TestStackSecrets,
+} from "../utils/stack-secrets";
 
 // =====================================================
 // Interfaces
@@ -54,6 +61,8 @@ const testResult: TestResult = {
 let cleanupProject = "";
 let cleanupDockerEnv: Record<string, string> | undefined;
 let cleanupDockerConfig: string | undefined;
+/** Projects whose secrets directory cleanup removes */
+const secretProjects: string[] = [];
 
 // =====================================================
 // Helper Functions
@@ -112,6 +121,10 @@ async function cleanup(): Promise<void> {
     // Suppress cleanup errors
   }
 
+  for (const projectName of secretProjects.splice(0)) {
+    await cleanupTestStackSecrets(projectName);
+  }
+
   await cleanupTestDockerConfig(cleanupDockerConfig);
 
   success("Cleanup completed");
@@ -209,7 +222,7 @@ async function getContainerState(containerId: string): Promise<string> {
 
 async function runPgbouncerAdmin(containerId: string, command: string): Promise<string> {
   const result =
-    await $`docker exec ${containerId} sh -c ${`PGPASSWORD="$PGBOUNCER_AUTH_PASS" psql -h localhost -p 6432 -U pgbouncer_auth -d pgbouncer -tAc "${command}" 2>&1`}`
+    await $`docker exec ${containerId} sh -c ${`PGPASSWORD="$(cat "$PGBOUNCER_AUTH_PASS_FILE")" psql -h localhost -p 6432 -U pgbouncer_auth -d pgbouncer -tAc "${command}" 2>&1`}`
       .quiet()
       .nothrow();
 
@@ -221,6 +234,32 @@ async function runPgbouncerAdmin(containerId: string, command: string): Promise<
   return result.stdout.toString().trim();
 }
 
+/**
+ * Read SHOW DATABASES from the admin console, keyed by database name
+ */
+async function showPgbouncerDatabases(
+  containerId: string
+): Promise<Map<string, Record<string, string>>> {
+  const result =
+    await $`docker exec ${containerId} sh -c ${'PGPASSWORD="$(cat "$PGBOUNCER_AUTH_PASS_FILE")" psql -h localhost -p 6432 -U pgbouncer_auth -d pgbouncer -Ac "SHOW DATABASES" 2>&1'}`
+      .quiet()
+      .nothrow();
+  if (result.exitCode !== 0) {
+    throw new Error(result.stdout.toString().trim());
+  }
+
+  // Unaligned output: header row, data rows, "(N rows)" footer
+  const [header, ...rows] = result.stdout.toString().trim().split("\n");
+  const columns = header?.split("|") ?? [];
+  const databases = new Map<string, Record<string, string>>();
+  for (const row of rows.filter((line) => line.includes("|"))) {
+    const values = row.split("|");
+    const record = Object.fromEntries(columns.map((column, i) => [column, values[i] ?? ""]));
+    databases.set(record.name ?? "", record);
+  }
+  return databases;
+}
+
 async function waitForPostgresClients(containerId: string, expected: number): Promise<boolean> {
   for (let attempt = 0; attempt < 20; attempt++) {
     const output = await runPgbouncerAdmin(containerId, "SHOW CLIENTS");
@@ -246,10 +285,13 @@ async function waitForPostgresClients(containerId: string, expected: number): Pr
 async function createTestEnv(
   filename: string,
   content: string,
-  projectName: string
+  projectName: string,
+  secrets: TestStackSecrets
 ): Promise<void> {
   const envPath = join(STACK_PATH, filename);
-  const fullContent = `${content}COMPOSE_PROJECT_NAME=${projectName}\n`;
+  const secretsDir = await createTestStackSecrets(projectName, secrets);
+  secretProjects.push(projectName);
+  const fullContent = `POSTGRES_SECRETS_DIR=${secretsDir}\n${content}COMPOSE_PROJECT_NAME=${projectName}\n`;
   await Bun.write(envPath, fullContent);
   // Also create .env copy for Docker Compose v2 compatibility
   await Bun.write(join(STACK_PATH, ".env"), fullContent);
@@ -283,14 +325,16 @@ async function testWrongPassword(): Promise<void> {
 
   await createTestEnv(
     ".env.test-wrong-pass",
-    `POSTGRES_PASSWORD=correct_postgres_pass_123
-PGBOUNCER_AUTH_PASS=correct_postgres_pass_123
-PG_REPLICATION_PASSWORD=replication_pass_123
-POSTGRES_IMAGE=${getPostgresImage()}
+    `POSTGRES_IMAGE=${getPostgresImage()}
 POSTGRES_MEMORY_LIMIT=1536m
 POSTGRES_BIND_IP=0.0.0.0
 `,
-    projectName
+    projectName,
+    {
+      postgres_password: "correct_postgres_pass_123",
+      pgbouncer_auth_password: "correct_postgres_pass_123",
+      replication_password: "replication_pass_123",
+    }
   );
 
   // Pre-pull images to avoid credential issues during compose up
@@ -384,14 +428,16 @@ async function testMissingPgpass(): Promise<void> {
 
   await createTestEnv(
     ".env.test-no-pgpass",
-    `POSTGRES_PASSWORD=test_postgres_pass_123
-PGBOUNCER_AUTH_PASS=test_pgbouncer_pass_123
-PG_REPLICATION_PASSWORD=replication_pass_123
-POSTGRES_IMAGE=${getPostgresImage()}
+    `POSTGRES_IMAGE=${getPostgresImage()}
 POSTGRES_MEMORY_LIMIT=1536m
 POSTGRES_BIND_IP=0.0.0.0
 `,
-    projectName
+    projectName,
+    {
+      postgres_password: "test_postgres_pass_123",
+      pgbouncer_auth_password: "test_pgbouncer_pass_123",
+      replication_password: "replication_pass_123",
+    }
   );
 
   // Pre-pull images to avoid credential issues during compose up
@@ -472,15 +518,17 @@ async function testInvalidListenAddress(): Promise<void> {
 
   await createTestEnv(
     ".env.test-invalid-addr",
-    `POSTGRES_PASSWORD=test_postgres_pass_123
-PGBOUNCER_AUTH_PASS=test_pgbouncer_pass_123
-PG_REPLICATION_PASSWORD=replication_pass_123
-POSTGRES_IMAGE=${getPostgresImage()}
+    `POSTGRES_IMAGE=${getPostgresImage()}
 POSTGRES_MEMORY_LIMIT=1536m
 POSTGRES_BIND_IP=0.0.0.0
 PGBOUNCER_LISTEN_ADDR=999.999.999.999
 `,
-    projectName
+    projectName,
+    {
+      postgres_password: "test_postgres_pass_123",
+      pgbouncer_auth_password: "test_pgbouncer_pass_123",
+      replication_password: "replication_pass_123",
+    }
   );
 
   // Pre-pull images to avoid credential issues during compose up
@@ -583,14 +631,16 @@ async function testPostgresUnavailable(): Promise<void> {
 
   await createTestEnv(
     ".env.test-no-postgres",
-    `POSTGRES_PASSWORD=test_postgres_pass_123
-PGBOUNCER_AUTH_PASS=test_pgbouncer_pass_123
-PG_REPLICATION_PASSWORD=replication_pass_123
-POSTGRES_IMAGE=${getPostgresImage()}
+    `POSTGRES_IMAGE=${getPostgresImage()}
 POSTGRES_MEMORY_LIMIT=1536m
 POSTGRES_BIND_IP=0.0.0.0
 `,
-    projectName
+    projectName,
+    {
+      postgres_password: "test_postgres_pass_123",
+      pgbouncer_auth_password: "test_pgbouncer_pass_123",
+      replication_password: "replication_pass_123",
+    }
   );
 
   // Pre-pull images to avoid credential issues during compose up
@@ -659,15 +709,17 @@ async function testMaxConnections(): Promise<void> {
   // Set very low max_client_conn to make limit easier to hit
   await createTestEnv(
     ".env.test-max-conn",
-    `POSTGRES_PASSWORD=test_postgres_pass_123
-PGBOUNCER_AUTH_PASS=test_pgbouncer_pass_123
-PG_REPLICATION_PASSWORD=replication_pass_123
-POSTGRES_IMAGE=${getPostgresImage()}
+    `POSTGRES_IMAGE=${getPostgresImage()}
 POSTGRES_MEMORY_LIMIT=1536m
 POSTGRES_BIND_IP=0.0.0.0
 PGBOUNCER_MAX_CLIENT_CONN=2
 `,
-    projectName
+    projectName,
+    {
+      postgres_password: "test_postgres_pass_123",
+      pgbouncer_auth_password: "test_pgbouncer_pass_123",
+      replication_password: "replication_pass_123",
+    }
   );
 
   // Pre-pull images to avoid credential issues during compose up
@@ -691,8 +743,8 @@ PGBOUNCER_MAX_CLIENT_CONN=2
       if (pgbouncerContainer) {
         // Open multiple connections that hold for 10 seconds
         info("Opening 2 long-running connections...");
-        await $`docker exec -d ${pgbouncerContainer} sh -c 'PGPASSWORD="$PGBOUNCER_AUTH_PASS" timeout 12 psql -h localhost -p 6432 -U pgbouncer_auth -d postgres -c "SELECT pg_sleep(10)"'`.quiet();
-        await $`docker exec -d ${pgbouncerContainer} sh -c 'PGPASSWORD="$PGBOUNCER_AUTH_PASS" timeout 12 psql -h localhost -p 6432 -U pgbouncer_auth -d postgres -c "SELECT pg_sleep(10)"'`.quiet();
+        await $`docker exec -d ${pgbouncerContainer} sh -c 'PGPASSWORD="$(cat "$PGBOUNCER_AUTH_PASS_FILE")" timeout 12 psql -h localhost -p 6432 -U pgbouncer_auth -d postgres -c "SELECT pg_sleep(10)"'`.quiet();
+        await $`docker exec -d ${pgbouncerContainer} sh -c 'PGPASSWORD="$(cat "$PGBOUNCER_AUTH_PASS_FILE")" timeout 12 psql -h localhost -p 6432 -U pgbouncer_auth -d postgres -c "SELECT pg_sleep(10)"'`.quiet();
 
         if (!(await waitForPostgresClients(pgbouncerContainer, 2))) {
           error("Test FAILED: Could not establish two PgBouncer client connections");
@@ -703,7 +755,7 @@ PGBOUNCER_MAX_CLIENT_CONN=2
         // Try third connection - should fail due to max_client_conn=2
         info("Attempting third connection (should fail due to max_client_conn=2)...");
         const result =
-          await $`docker exec ${pgbouncerContainer} sh -c 'PGPASSWORD="$PGBOUNCER_AUTH_PASS" timeout 5 psql -h localhost -p 6432 -U pgbouncer_auth -d postgres -c "SELECT 1" 2>&1'`
+          await $`docker exec ${pgbouncerContainer} sh -c 'PGPASSWORD="$(cat "$PGBOUNCER_AUTH_PASS_FILE")" timeout 5 psql -h localhost -p 6432 -U pgbouncer_auth -d postgres -c "SELECT 1" 2>&1'`
             .nothrow()
             .quiet();
 
@@ -760,14 +812,16 @@ async function testPgpassPermissions(): Promise<void> {
 
   await createTestEnv(
     ".env.test-pgpass-perms",
-    `POSTGRES_PASSWORD=test_postgres_pass_123
-PGBOUNCER_AUTH_PASS=test_pgbouncer_pass_123
-PG_REPLICATION_PASSWORD=replication_pass_123
-POSTGRES_IMAGE=${getPostgresImage()}
+    `POSTGRES_IMAGE=${getPostgresImage()}
 POSTGRES_MEMORY_LIMIT=1536m
 POSTGRES_BIND_IP=0.0.0.0
 `,
-    projectName
+    projectName,
+    {
+      postgres_password: "test_postgres_pass_123",
+      pgbouncer_auth_password: "test_pgbouncer_pass_123",
+      replication_password: "replication_pass_123",
+    }
   );
 
   // Pre-pull images to avoid credential issues during compose up
@@ -832,6 +886,193 @@ POSTGRES_BIND_IP=0.0.0.0
   }
 }
 
+/**
+ * Test 7: Session and Transaction Pool Modes Side by Side
+ * Declares one session-mode and one transaction-mode database through PGBOUNCER_DATABASES
+ * and checks that session state (advisory locks) survives between statements in session mode.
+ */
+async function testMixedPoolModes(): Promise<void> {
+  console.log();
+  info("Test 7: Session and Transaction Pool Modes (PGBOUNCER_DATABASES)");
+  console.log("----------------------------------------");
+  testResult.testsRun++;
+
+  const projectName = generateUniqueProjectName("pgbouncer-test-pool-modes");
+  cleanupProject = projectName;
+
+  // Setup dockerEnv for this test
+  const dockerEnv = cleanupDockerConfig
+    ? { ...Bun.env, DOCKER_CONFIG: cleanupDockerConfig, COMPOSE_PROJECT_NAME: projectName }
+    : { ...Bun.env, COMPOSE_PROJECT_NAME: projectName };
+
+  // Update global for cleanup
+  cleanupDockerEnv = dockerEnv;
+
+  // Both entries route to the postgres database so no extra databases need to be created
+  await createTestEnv(
+    ".env.test-pool-modes",
+    `POSTGRES_IMAGE=${getPostgresImage()}
+POSTGRES_MEMORY_LIMIT=1536m
+POSTGRES_BIND_IP=0.0.0.0
+PGBOUNCER_DATABASES=app_session dbname=postgres pool_mode=session pool_size=4; app_tx dbname=postgres pool_mode=transaction
+`,
+    projectName,
+    {
+      postgres_password: "test_postgres_pass_123",
+      pgbouncer_auth_password: "test_pgbouncer_pass_123",
+      replication_password: "replication_pass_123",
+    }
+  );
+
+  // Pre-pull images to avoid credential issues during compose up
+  const postgresImage = getPostgresImage();
+  const pgbouncerImage =
+    "edoburu/pgbouncer:v1.25.1-p0@sha256:c7bfcaa24de830e29588bb9ad1eb39cebaf07c27149e1974445899b695634bb4";
+  await Promise.all([
+    $`docker pull ${postgresImage}`.quiet().nothrow(),
+    $`docker pull ${pgbouncerImage}`.quiet().nothrow(),
+  ]);
+
+  try {
+    info("Starting services with a session and a transaction database...");
+    const cmd = $`docker compose --env-file .env.test-pool-modes up -d postgres pgbouncer`;
+    await cmd.cwd(STACK_PATH).env(dockerEnv).quiet();
+
+    if (!(await waitForContainerStatus(projectName, "postgres", "healthy", 60, dockerEnv))) {
+      error("Test FAILED: PostgreSQL failed to start");
+      testResult.testsFailed++;
+      return;
+    }
+    await waitForContainerStatus(projectName, "pgbouncer", "healthy", 30, dockerEnv);
+
+    const pgbouncerContainer = await getContainerId(projectName, "pgbouncer", dockerEnv);
+    if (!pgbouncerContainer) {
+      error("Test FAILED: PgBouncer container not found");
+      testResult.testsFailed++;
+      return;
+    }
+
+    const databases = await showPgbouncerDatabases(pgbouncerContainer);
+    const sessionDb = databases.get("app_session");
+    const transactionDb = databases.get("app_tx");
+    if (sessionDb?.pool_mode !== "session" || sessionDb.pool_size !== "4") {
+      error(`Test FAILED: app_session not configured as declared: ${JSON.stringify(sessionDb)}`);
+      testResult.testsFailed++;
+      return;
+    }
+    if (transactionDb?.pool_mode !== "transaction") {
+      error(`Test FAILED: app_tx not configured as declared: ${JSON.stringify(transactionDb)}`);
+      testResult.testsFailed++;
+      return;
+    }
+
+    // Session mode keeps one server connection per client, so the lock taken by the first
+    // statement is still held (and released) by the second
+    info("Checking session-level advisory lock through app_session...");
+    const lockResult =
+      await $`docker exec ${pgbouncerContainer} sh -c ${'PGPASSWORD="$(cat "$PGBOUNCER_AUTH_PASS_FILE")" psql -h localhost -p 6432 -U pgbouncer_auth -d app_session -tA -c "SELECT pg_advisory_lock(4242)" -c "SELECT pg_advisory_unlock(4242)" 2>&1'}`
+        .quiet()
+        .nothrow();
+    const transactionResult =
+      await $`docker exec ${pgbouncerContainer} sh -c ${'PGPASSWORD="$(cat "$PGBOUNCER_AUTH_PASS_FILE")" psql -h localhost -p 6432 -U pgbouncer_auth -d app_tx -tAc "SELECT 1" 2>&1'}`
+        .quiet()
+        .nothrow();
+
+    if (lockResult.exitCode !== 0 || !lockResult.stdout.toString().trim().endsWith("t")) {
+      error(`Test FAILED: Advisory lock did not survive in session mode: ${lockResult.text()}`);
+      testResult.testsFailed++;
+    } else if (transactionResult.exitCode !== 0 || transactionResult.text().trim() !== "1") {
+      error(`Test FAILED: Query through app_tx failed: ${transactionResult.text()}`);
+      testResult.testsFailed++;
+    } else {
+      success("Test PASSED: Session and transaction databases are served side by side");
+      testResult.testsPassed++;
+    }
+  } finally {
+    const cmd = $`docker compose down -v`;
+    await cmd.cwd(STACK_PATH).env(dockerEnv).quiet().nothrow();
+    cleanupProject = "";
+  }
+}
+
+/**
+ * Test 8: Invalid PGBOUNCER_DATABASES Entry
+ */
+async function testInvalidDatabases(): Promise<void> {
+  console.log();
+  info("Test 8: Invalid PGBOUNCER_DATABASES Entry");
+  console.log("----------------------------------------");
+  testResult.testsRun++;
+
+  const projectName = generateUniqueProjectName("pgbouncer-test-invalid-databases");
+  cleanupProject = projectName;
+
+  // Setup dockerEnv for this test
+  const dockerEnv = cleanupDockerConfig
+    ? { ...Bun.env, DOCKER_CONFIG: cleanupDockerConfig, COMPOSE_PROJECT_NAME: projectName }
+    : { ...Bun.env, COMPOSE_PROJECT_NAME: projectName };
+
+  // Update global for cleanup
+  cleanupDockerEnv = dockerEnv;
+
+  await createTestEnv(
+    ".env.test-invalid-databases",
+    `POSTGRES_IMAGE=${getPostgresImage()}
+POSTGRES_MEMORY_LIMIT=1536m
+POSTGRES_BIND_IP=0.0.0.0
+PGBOUNCER_DATABASES=app_session pool_mode=sessions; app_tx pool_mode=transaction
+`,
+    projectName,
+    {
+      postgres_password: "test_postgres_pass_123",
+      pgbouncer_auth_password: "test_pgbouncer_pass_123",
+      replication_password: "replication_pass_123",
+    }
+  );
+
+  try {
+    info("Starting PostgreSQL...");
+    const cmd1 = $`docker compose --env-file .env.test-invalid-databases up -d postgres`;
+    await cmd1.cwd(STACK_PATH).env(dockerEnv).quiet();
+
+    if (!(await waitForContainerStatus(projectName, "postgres", "healthy", 60, dockerEnv))) {
+      error("Test FAILED: PostgreSQL failed to start");
+      testResult.testsFailed++;
+      return;
+    }
+
+    info("Starting PgBouncer with a misspelled pool_mode...");
+    const cmd2 = $`docker compose --env-file .env.test-invalid-databases up -d pgbouncer`;
+    await cmd2.cwd(STACK_PATH).env(dockerEnv).quiet().nothrow();
+
+    // Wait for PgBouncer to exit and start restarting
+    await Bun.sleep(5000);
+
+    const pgbouncerContainer = await getContainerId(projectName, "pgbouncer", dockerEnv);
+    const containerState = pgbouncerContainer
+      ? await getContainerState(pgbouncerContainer)
+      : "missing";
+    const rejected = await checkLogsForPattern(
+      projectName,
+      "pgbouncer",
+      "ERROR: Invalid PGBOUNCER_DATABASES entry 'app_session': invalid pool_mode 'sessions'",
+      dockerEnv
+    );
+
+    if (containerState !== "running" && rejected) {
+      success("Test PASSED: PgBouncer rejected the invalid database declaration");
+      testResult.testsPassed++;
+    } else {
+      error(`Test FAILED: Invalid PGBOUNCER_DATABASES was not rejected (state: ${containerState})`);
+      testResult.testsFailed++;
+    }
+  } finally {
+    const cmd = $`docker compose down -v`;
+    await cmd.cwd(STACK_PATH).env(dockerEnv).quiet().nothrow();
+    cleanupProject = "";
+  }
+}
+
 // =====================================================
 // Main Execution
 // =====================================================
@@ -914,6 +1155,8 @@ async function main(): Promise<void> {
     await testPostgresUnavailable();
     await testMaxConnections();
     await testPgpassPermissions();
+    await testMixedPoolModes();
+    await testInvalidDatabases();
   } finally {
     // Ensure final cleanup
     await cleanup();
@@ -939,6 +1182,8 @@ async function main(): Promise<void> {
     console.log("  ✅ PostgreSQL unavailable (depends_on healthcheck works)");
     console.log("  ✅ Max connections exceeded (limit enforced)");
     console.log("  ✅ .pgpass wrong permissions (psql rejects insecure password file)");
+    console.log("  ✅ Session and transaction databases side by side (per-database pool_mode)");
+    console.log("  ✅ Invalid PGBOUNCER_DATABASES entry (startup prevented)");
     process.exit(0);
   } else {
     error("Some tests failed!");
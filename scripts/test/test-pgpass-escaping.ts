@@ -20,6 +20,7 @@ import { join, resolve } from "node:path";
 import { stat } from "node:fs/promises";
 import { TIMEOUTS } from "../config/test-timeouts";
 import { getTestDockerConfig, cleanupTestDockerConfig } from "../utils/docker-test-config";
+import { cleanupTestStackSecrets, createTestStackSecrets } from "../utils/stack-secrets";
 
 /**
  * Service health status from Docker Compose
@@ -97,11 +98,15 @@ async function createTestEnvWithPassword(
   const postgresImage = Bun.env.POSTGRES_IMAGE ?? "ghcr.io/fluxo-kt/aza-pg:pg18";
   const credentials = generateTestCredentials(password);
 
+  const secretsDir = await createTestStackSecrets(projectName, {
+    postgres_password: credentials.postgresPassword,
+    pgbouncer_auth_password: credentials.pgbouncerPassword,
+    replication_password: credentials.replicationPassword,
+  });
+
   // POSTGRES_BIND_IP=0.0.0.0 is required for inter-container communication
   // This sets PostgreSQL's listen_addresses to allow PgBouncer to connect via Docker network
-  const envContent = `POSTGRES_PASSWORD=${credentials.postgresPassword}
-PGBOUNCER_AUTH_PASS=${credentials.pgbouncerPassword}
-PG_REPLICATION_PASSWORD=${credentials.replicationPassword}
+  const envContent = `POSTGRES_SECRETS_DIR=${secretsDir}
 POSTGRES_IMAGE=${postgresImage}
 POSTGRES_MEMORY_LIMIT=2g
 POSTGRES_BIND_IP=0.0.0.0
@@ -341,6 +346,8 @@ async function cleanup(
     await $`rm -f ${envFileCopy}`.quiet();
   }
 
+  await cleanupTestStackSecrets(projectName);
+
   // Cleanup isolated Docker config if created
   await cleanupTestDockerConfig(testDockerConfig);
 
@@ -0,0 +1,95 @@
+#!/usr/bin/env bun
+/**
+ * Unit Tests for the pgsodium Root Key Helpers
+ *
+ * Sources docker/postgres/pgsodium-key.sh in bash and checks the previous-key parsing and the
+ * re-encryption SQL without Docker or PostgreSQL.
+ *
+ * Usage:
+ *   bun test scripts/test/test-pgsodium-key-units.test.ts
+ */
+
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+
+const KEY_SCRIPT = join(import.meta.dir, "../../docker/postgres/pgsodium-key.sh");
+
+const KEY = "0123456789abcdef".repeat(4);
+
+/**
+ * Run a snippet after sourcing the key script, with only the given variables set
+ */
+function runKeyScript(
+  snippet: string,
+  env: Record<string, string> = {}
+): { exitCode: number; stdout: string; stderr: string } {
+  const result = Bun.spawnSync(
+    ["bash", "-c", `source "$1"; set +e; ${snippet}`, "bash", KEY_SCRIPT],
+    {
+      env: { PATH: Bun.env.PATH ?? "/usr/bin:/bin", ...env },
+    }
+  );
+  return {
+    exitCode: result.exitCode,
+    stdout: result.stdout.toString(),
+    stderr: result.stderr.toString(),
+  };
+}
+
+describe("previous root key", () => {
+  test("is empty when unset", () => {
+    expect(runKeyScript("previous_root_key")).toMatchObject({ exitCode: 0, stdout: "" });
+  });
+
+  test("reads the variable or the file, ignoring whitespace", () => {
+    expect(
+      runKeyScript("previous_root_key", { PGSODIUM_ROOT_KEY_PREVIOUS: ` ${KEY}\n` }).stdout
+    ).toBe(KEY);
+
+    const { exitCode, stdout } = runKeyScript(
+      `file=$(mktemp); printf '%s\\n' "${KEY}" >"$file"; PGSODIUM_ROOT_KEY_PREVIOUS_FILE=$file previous_root_key; rm -f "$file"`
+    );
+    expect(exitCode).toBe(0);
+    expect(stdout).toBe(KEY);
+  });
+
+  test("rejects malformed keys and both sources at once", () => {
+    const short = runKeyScript("previous_root_key", { PGSODIUM_ROOT_KEY_PREVIOUS: "abc123" });
+    expect(short.exitCode).toBe(1);
+    expect(short.stderr).toContain("must be 64 hex characters");
+
+    const both = runKeyScript("previous_root_key", {
+      PGSODIUM_ROOT_KEY_PREVIOUS: KEY,
+      PGSODIUM_ROOT_KEY_PREVIOUS_FILE: "/run/secrets/pgsodium_root_key_previous",
+    });
+    expect(both.exitCode).toBe(1);
+    expect(both.stderr).toContain("are exclusive");
+  });
+});
+
+describe("re-encryption SQL", () => {
+  const ID_1 = "6b1b2f5e-0c39-4d8e-9a51-0f3f0b8e2a11";
+  const ID_2 = "0f0e9c1a-7d55-4a2b-8c3e-9b1d2e3f4a52";
+
+  test("updates one database's secrets in a transaction with logging off", () => {
+    const exported = [`app\t${ID_1}\tc2VjcmV0`, `other\t${ID_2}\tb3RoZXI=`].join("\\n");
+    const { exitCode, stdout } = runKeyScript(`import_sql app <<<"$(printf '${exported}')"`);
+    expect(exitCode).toBe(0);
+    const lines = stdout.trim().split("\n");
+    expect(lines).toContain("SET log_statement = 'none';");
+    expect(lines).toContain("SET log_min_error_statement = 'panic';");
+    expect(lines.slice(-3)).toEqual([
+      "BEGIN;",
+      `SELECT vault.update_secret('${ID_1}', convert_from(decode('c2VjcmV0', 'base64'), 'UTF8'));`,
+      "COMMIT;",
+    ]);
+  });
+
+  test("rejects lines that could inject SQL", () => {
+    const { exitCode, stderr } = runKeyScript(
+      `import_sql app <<<"$(printf 'app\\t${ID_1}\\tx'\\'');DROP')"`
+    );
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("Invalid export line");
+  });
+});
@@ -0,0 +1,294 @@
+#!/usr/bin/env bun
+/**
+ * pgsodium Root Key Verification and Rotation Test
+ *
+ * Purpose: Verify the entrypoint checks the pgsodium root key against existing vault secrets
+ *
+ * Coverage:
+ * - A vault secret created with key A survives a restart with key A
+ * - Restarting with key B refuses to start (secrets do not decrypt)
+ * - Key B with PGSODIUM_ROOT_KEY_PREVIOUS=A re-encrypts the secret, value intact
+ * - Key B alone then starts normally
+ * - An unreadable PGSODIUM_ROOT_KEY_FILE refuses to start instead of disabling pgsodium
+ *
+ * The keys come from PGSODIUM_ROOT_KEY through the image's built-in pgsodium_getkey (the
+ * tests/fixtures/pgsodium script always prints the test key, so it is not mounted here). The
+ * containers keep the default preload list, which does not include supabase_vault: the check
+ * must find the vault by its installation.
+ *
+ * Usage:
+ *   bun scripts/test/test-pgsodium-key.ts [image-tag] [--no-cleanup]
+ */
+
+import { $ } from "bun";
+import {
+  checkCommand,
+  checkDockerDaemon,
+  cleanupContainer,
+  ensureImageAvailable,
+  generateUniqueContainerName,
+  waitForPostgresStable,
+} from "../utils/docker";
+import { error, info, section, success, testSummary } from "../utils/logger";
+import type { TestResult } from "../utils/logger";
+import { TIMEOUTS } from "../config/test-timeouts";
+
+const KEY_A = "a".repeat(64);
+const KEY_B = "0123456789abcdef".repeat(4);
+const SECRET_MARKER = "sk_live_rotation";
+const SECRET_VALUE = `${SECRET_MARKER}'"value\nwith newline`;
+
+interface TestConfig {
+  imageTag: string;
+  noCleanup: boolean;
+  volumeName: string;
+  testPassword: string;
+  /** Containers started so far (one per restart, all on the same volume) */
+  containers: string[];
+}
+
+/**
+ * Start a container on the test volume with the given root key environment
+ */
+async function startContainer(config: TestConfig, env: Record<string, string>): Promise<string> {
+  const containerName = generateUniqueContainerName("pgsodium-key-test");
+  config.containers.push(containerName);
+  const envArgs = Object.entries({
+    POSTGRES_PASSWORD: config.testPassword,
+    POSTGRES_MEMORY: "1024",
+    ENABLE_PGSODIUM_INIT: "true",
+    ...env,
+  }).flatMap(([key, value]) => ["-e", `${key}=${value}`]);
+
+  await $`docker run -d --name ${containerName} ${envArgs} -v ${config.volumeName}:/var/lib/postgresql ${config.imageTag}`.quiet();
+  return containerName;
+}
+
+async function startAndWait(config: TestConfig, env: Record<string, string>): Promise<string> {
+  const containerName = await startContainer(config, env);
+  const ready = await waitForPostgresStable({
+    container: containerName,
+    timeout: TIMEOUTS.initialization,
+    requiredSuccesses: 3,
+  });
+  if (!ready) {
+    const logs = await $`docker logs ${containerName}`.nothrow().quiet();
+    throw new Error(`PostgreSQL failed to start:\n${logs.stderr.toString()}`);
+  }
+  return containerName;
+}
+
+async function stopContainer(containerName: string): Promise<void> {
+  await $`docker stop -t 30 ${containerName}`.quiet();
+  await $`docker rm -v ${containerName}`.quiet();
+}
+
+async function executeSQL(container: string, sql: string): Promise<string> {
+  const result = await $`docker exec ${container} psql -U postgres -tAc ${sql}`;
+  return result.text().trim();
+}
+
+async function containerLogs(container: string): Promise<string> {
+  const logs = await $`docker logs ${container}`.nothrow().quiet();
+  return logs.stdout.toString() + logs.stderr.toString();
+}
+
+async function runTest(name: string, body: () => Promise<void>): Promise<TestResult> {
+  const start = Date.now();
+  section(name);
+  try {
+    await body();
+    success(`${name} passed`);
+    return { name, passed: true, duration: Date.now() - start };
+  } catch (err) {
+    return {
+      name,
+      passed: false,
+      duration: Date.now() - start,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+/**
+ * Decrypted value of the test secret (base64, so quotes and newlines survive psql output)
+ */
+async function readSecret(container: string): Promise<string> {
+  const encoded = await executeSQL(
+    container,
+    "SELECT encode(convert_to(decrypted_secret, 'UTF8'), 'base64') FROM vault.decrypted_secrets WHERE name = 'rotation_test'"
+  );
+  return Buffer.from(encoded.replace(/\s/g, ""), "base64").toString("utf8");
+}
+
+async function testCreateSecret(config: TestConfig): Promise<void> {
+  info("Creating volume and starting with key A...");
+  await $`docker volume create ${config.volumeName}`.quiet();
+  const container = await startAndWait(config, { PGSODIUM_ROOT_KEY: KEY_A });
+
+  await executeSQL(container, "CREATE EXTENSION IF NOT EXISTS supabase_vault CASCADE");
+  const encoded = Buffer.from(SECRET_VALUE, "utf8").toString("base64");
+  await executeSQL(
+    container,
+    `SELECT vault.create_secret(convert_from(decode('${encoded}', 'base64'), 'UTF8'), 'rotation_test')`
+  );
+  if ((await readSecret(container)) !== SECRET_VALUE) {
+    throw new Error("Secret does not round-trip with key A");
+  }
+  await stopContainer(container);
+
+  info("Restarting with key A...");
+  const restarted = await startAndWait(config, { PGSODIUM_ROOT_KEY: KEY_A });
+  if (!(await containerLogs(restarted)).includes("Root key verified: 1 vault secret(s) decrypt")) {
+    throw new Error("Restart with the same key did not report a verified root key");
+  }
+  await stopContainer(restarted);
+}
+
+/**
+ * Wait for a container that must refuse to start; returns its logs
+ */
+async function expectRefusal(container: string, reason: string): Promise<string> {
+  const deadline = Date.now() + TIMEOUTS.initialization * 1000;
+  let status = "";
+  while (Date.now() < deadline) {
+    status = (await $`docker inspect -f {{.State.Status}} ${container}`.text()).trim();
+    if (status === "exited") {
+      break;
+    }
+    await Bun.sleep(1000);
+  }
+  if (status !== "exited") {
+    throw new Error(`Container with ${reason} kept running`);
+  }
+  const exitCode = (await $`docker inspect -f {{.State.ExitCode}} ${container}`.text()).trim();
+  if (exitCode === "0") {
+    throw new Error(`Container with ${reason} exited with code 0`);
+  }
+  return containerLogs(container);
+}
+
+async function testWrongKeyRefused(config: TestConfig): Promise<void> {
+  info("Starting with key B (no previous key)...");
+  const container = await startContainer(config, { PGSODIUM_ROOT_KEY: KEY_B });
+  const logs = await expectRefusal(container, "the wrong root key");
+  if (!logs.includes("1 of 1 vault secret(s) do not decrypt with the current pgsodium root key")) {
+    throw new Error(`Refusal message missing from the logs:\n${logs}`);
+  }
+  await $`docker rm -v ${container}`.quiet();
+}
+
+async function testRotation(config: TestConfig): Promise<void> {
+  info("Starting with key B and PGSODIUM_ROOT_KEY_PREVIOUS=A...");
+  const container = await startAndWait(config, {
+    PGSODIUM_ROOT_KEY: KEY_B,
+    PGSODIUM_ROOT_KEY_PREVIOUS: KEY_A,
+  });
+  const logs = await containerLogs(container);
+  if (!logs.includes("Re-encrypted 1 vault secret(s) with the current root key")) {
+    throw new Error(`Rotation message missing from the logs:\n${logs}`);
+  }
+  if (logs.includes(SECRET_MARKER)) {
+    throw new Error("The decrypted secret appears in the container logs");
+  }
+  if ((await readSecret(container)) !== SECRET_VALUE) {
+    throw new Error("Secret value changed during rotation");
+  }
+  await stopContainer(container);
+
+  info("Restarting with key B alone...");
+  const restarted = await startAndWait(config, { PGSODIUM_ROOT_KEY: KEY_B });
+  if ((await readSecret(restarted)) !== SECRET_VALUE) {
+    throw new Error("Secret does not decrypt with key B after rotation");
+  }
+  await stopContainer(restarted);
+}
+
+async function testUnreadableKeyFile(config: TestConfig): Promise<void> {
+  info("Starting with PGSODIUM_ROOT_KEY_FILE pointing at a missing secret...");
+  const container = await startContainer(config, {
+    PGSODIUM_ROOT_KEY_FILE: "/run/secrets/pgsodium_root_key",
+  });
+  const logs = await expectRefusal(container, "an unreadable key file");
+  if (!logs.includes("PGSODIUM_ROOT_KEY_FILE=/run/secrets/pgsodium_root_key is not readable")) {
+    throw new Error(`Unreadable key file message missing from the logs:\n${logs}`);
+  }
+  await $`docker rm -v ${container}`.quiet();
+}
+
+async function cleanup(config: TestConfig): Promise<void> {
+  if (config.noCleanup) {
+    info(`Skipping cleanup (--no-cleanup): volume ${config.volumeName}`);
+    return;
+  }
+  for (const container of config.containers) {
+    await cleanupContainer(container);
+  }
+  await $`docker volume rm ${config.volumeName}`.nothrow().quiet();
+}
+
+async function main(): Promise<void> {
+  try {
+    await checkCommand("docker");
+    await checkDockerDaemon();
+  } catch (err) {
+    error(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+
+  const config: TestConfig = {
+    imageTag:
+      Bun.argv.slice(2).find((arg) => !arg.startsWith("--")) ||
+      Bun.env.POSTGRES_IMAGE ||
+      "ghcr.io/fluxo-kt/aza-pg:pg18",
+    noCleanup: Bun.argv.includes("--no-cleanup"),
+    volumeName: `pgsodium-key-test-vol-${Date.now()}-${process.pid}`,
+    testPassword: `test_postgres_${Date.now()}_${process.pid}`,
+    containers: [],
+  };
+
+  console.log("========================================");
+  console.log("pgsodium Root Key Test");
+  console.log("========================================");
+  console.log(`Image: ${config.imageTag}`);
+  console.log(`Volume: ${config.volumeName}`);
+  console.log("");
+
+  process.on("SIGINT", async () => {
+    await cleanup(config);
+    process.exit(130);
+  });
+
+  try {
+    await ensureImageAvailable(config.imageTag);
+  } catch (err) {
+    error(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+
+  const results: TestResult[] = [];
+  try {
+    // Each step depends on the volume state left by the previous one
+    const steps: [string, (config: TestConfig) => Promise<void>][] = [
+      ["Vault secret with key A", testCreateSecret],
+      ["Wrong key refused", testWrongKeyRefused],
+      ["Rotation to key B", testRotation],
+      ["Unreadable key file refused", testUnreadableKeyFile],
+    ];
+    for (const [name, body] of steps) {
+      const result = await runTest(name, () => body(config));
+      results.push(result);
+      if (!result.passed) {
+        break;
+      }
+    }
+  } finally {
+    await cleanup(config);
+  }
+
+  console.log("");
+  testSummary(results);
+  process.exit(results.every((result) => result.passed) ? 0 : 1);
+}
+
+main();
@@ -0,0 +1,232 @@
+#!/usr/bin/env bun
+/**
+ * pg_stat_statements Snapshot Test
+ *
+ * Purpose: Verify 07-pgss-snapshots.sh and scripts/tools/pgss-snapshot.ts on a live container
+ *
+ * Coverage:
+ * - PGSS_SNAPSHOT_SCHEDULE creates the aza_perf schema and the aza-perf-snapshot pg_cron job
+ * - --snapshot and --list work; a window of one snapshot is rejected
+ * - A statement slowed down by dropping its index shows up as a regression (exit code 2), and a
+ *   statement only run after the "deploy" as new
+ *
+ * Usage:
+ *   bun scripts/test/test-pgss-snapshot.ts [image-tag] [--no-cleanup]
+ */
+
+import { $ } from "bun";
+import { join } from "node:path";
+import {
+  checkCommand,
+  checkDockerDaemon,
+  cleanupContainer,
+  ensureImageAvailable,
+  generateUniqueContainerName,
+  waitForPostgresStable,
+} from "../utils/docker";
+import { error, info, section, success, testSummary } from "../utils/logger";
+import type { TestResult } from "../utils/logger";
+import { TIMEOUTS } from "../config/test-timeouts";
+import type { WindowDiffReport } from "../tools/pgss-diff";
+
+const PGSS_SNAPSHOT = join(import.meta.dir, "../tools/pgss-snapshot.ts");
+const LOOKUP = "SELECT count(*) FROM orders WHERE customer_id = 7;";
+const RUNS = 30;
+
+interface TestConfig {
+  imageTag: string;
+  noCleanup: boolean;
+  testPassword: string;
+  containers: string[];
+  /** Container started by the first test */
+  container?: string;
+}
+
+async function runTest(name: string, body: () => Promise<void>): Promise<TestResult> {
+  const start = Date.now();
+  section(name);
+  try {
+    await body();
+    success(`${name} passed`);
+    return { name, passed: true, duration: Date.now() - start };
+  } catch (err) {
+    return {
+      name,
+      passed: false,
+      duration: Date.now() - start,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+async function psql(container: string, sql: string): Promise<string> {
+  const result = await $`docker exec ${container} psql -U postgres -v ON_ERROR_STOP=1 -tAc ${sql}`
+    .nothrow()
+    .quiet();
+  if (result.exitCode !== 0) {
+    throw new Error(`psql failed: ${result.stderr.toString().trim()}`);
+  }
+  return result.text().trim();
+}
+
+async function snapshot(container: string, label: string): Promise<number> {
+  const result = await $`bun ${PGSS_SNAPSHOT} --container ${container} --snapshot --label ${label}`
+    .nothrow()
+    .quiet();
+  if (result.exitCode !== 0) {
+    throw new Error(`--snapshot failed:\n${result.stderr.toString()}`);
+  }
+  return Number(await psql(container, "SELECT max(snapshot_id) FROM aza_perf.snapshots"));
+}
+
+async function runLookups(container: string, extra = ""): Promise<void> {
+  await psql(container, `${LOOKUP.repeat(RUNS)}${extra}`);
+}
+
+async function testInstall(config: TestConfig): Promise<void> {
+  const containerName = generateUniqueContainerName("pgss-snapshot-test");
+  config.containers.push(containerName);
+  info("Starting container with PGSS_SNAPSHOT_SCHEDULE='0 * * * *'...");
+  await $`docker run -d --name ${containerName} -e POSTGRES_PASSWORD=${config.testPassword} -e PGSS_SNAPSHOT_SCHEDULE=${"0 * * * *"} -e PGSS_SNAPSHOT_RETENTION=3 ${config.imageTag}`.quiet();
+
+  const ready = await waitForPostgresStable({
+    container: containerName,
+    timeout: TIMEOUTS.initialization,
+    requiredSuccesses: 3,
+  });
+  if (!ready) {
+    const logs = await $`docker logs ${containerName}`.nothrow().quiet();
+    throw new Error(`PostgreSQL failed to start:\n${logs.stderr.toString()}`);
+  }
+  config.container = containerName;
+
+  const job = await psql(
+    containerName,
+    "SELECT schedule || ' ' || command FROM cron.job WHERE jobname = 'aza-perf-snapshot'"
+  );
+  if (!job.startsWith("0 * * * *") || !job.includes("aza_perf.prune(interval '3 days')")) {
+    throw new Error(`Unexpected aza-perf-snapshot job: '${job}'`);
+  }
+  info(`Job: ${job}`);
+}
+
+async function testRegressionDiff(config: TestConfig): Promise<void> {
+  const container = config.container!;
+  info("Creating an indexed table and running the lookup...");
+  await psql(
+    container,
+    `CREATE TABLE orders (id bigint PRIMARY KEY, customer_id bigint NOT NULL, note text);
+     INSERT INTO orders SELECT g, g % 5000, repeat('x', 100) FROM generate_series(1, 300000) g;
+     CREATE INDEX orders_customer_idx ON orders (customer_id);
+     ANALYZE orders`
+  );
+
+  const first = await snapshot(container, "baseline-start");
+  await runLookups(container);
+  const deploy = await snapshot(container, "pre-deploy");
+
+  const single =
+    await $`bun ${PGSS_SNAPSHOT} --container ${container} --baseline ${`${first}..${first}`} --compare ${`${first}..${deploy}`}`
+      .nothrow()
+      .quiet();
+  if (single.exitCode !== 1 || !single.stderr.toString().includes("needs two snapshots")) {
+    throw new Error(`A one-snapshot window should fail:\n${single.stderr.toString()}`);
+  }
+
+  info("Dropping the index (the 'deploy') and running the lookup again...");
+  await psql(container, "DROP INDEX orders_customer_idx");
+  await runLookups(container, "SELECT count(*) FROM orders WHERE note IS NULL;");
+  const last = await snapshot(container, "post-deploy");
+
+  const list = await $`bun ${PGSS_SNAPSHOT} --container ${container} --list`.nothrow().quiet();
+  if (!list.text().includes("pre-deploy")) {
+    throw new Error(`--list does not show the labeled snapshot:\n${list.text()}`);
+  }
+
+  const result =
+    await $`bun ${PGSS_SNAPSHOT} --container ${container} --baseline ${`${first}..${deploy}`} --compare ${`${deploy}..${last}`} --no-plans --format json`
+      .nothrow()
+      .quiet();
+  if (result.exitCode !== 2) {
+    throw new Error(
+      `Diff exited with ${result.exitCode}, expected 2:\n${result.stdout.toString()}${result.stderr.toString()}`
+    );
+  }
+  const report = JSON.parse(result.stdout.toString()) as WindowDiffReport;
+  const regression = report.diff.regressions.find((entry) => entry.query.includes("orders"));
+  if (!regression) {
+    throw new Error(`No regression for the lookup: ${JSON.stringify(report.diff)}`);
+  }
+  if (!report.diff.newQueries.some((entry) => entry.query.includes("note IS NULL"))) {
+    throw new Error(`The post-deploy statement is not new: ${JSON.stringify(report.diff)}`);
+  }
+  info(
+    `Lookup mean ${regression.baselineMeanMs.toFixed(2)} ms → ${regression.compareMeanMs.toFixed(2)} ms`
+  );
+}
+
+async function cleanup(config: TestConfig): Promise<void> {
+  if (config.noCleanup) {
+    info(`Skipping cleanup (--no-cleanup): ${config.containers.join(", ")}`);
+    return;
+  }
+  for (const container of config.containers) {
+    await cleanupContainer(container);
+  }
+}
+
+async function main(): Promise<void> {
+  try {
+    await checkCommand("docker");
+    await checkDockerDaemon();
+  } catch (err) {
+    error(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+
+  const config: TestConfig = {
+    imageTag:
+      Bun.argv.slice(2).find((arg) => !arg.startsWith("--")) ||
+      Bun.env.POSTGRES_IMAGE ||
+      "ghcr.io/fluxo-kt/aza-pg:pg18",
+    noCleanup: Bun.argv.includes("--no-cleanup"),
+    testPassword: `test_postgres_${Date.now()}_${process.pid}`,
+    containers: [],
+  };
+
+  console.log("========================================");
+  console.log("pg_stat_statements Snapshot Test");
+  console.log("========================================");
+  console.log(`Image: ${config.imageTag}`);
+  console.log("");
+
+  process.on("SIGINT", async () => {
+    await cleanup(config);
+    process.exit(130);
+  });
+
+  try {
+    await ensureImageAvailable(config.imageTag);
+  } catch (err) {
+    error(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+
+  const results: TestResult[] = [];
+  try {
+    // The diff test reuses the container the first one starts
+    const install = await runTest("Install and schedule", () => testInstall(config));
+    results.push(install);
+    if (install.passed) {
+      results.push(await runTest("Regression diff", () => testRegressionDiff(config)));
+    }
+  } finally {
+    await cleanup(config);
+  }
+
+  console.log("");
+  testSummary(results);
+  process.exit(results.every((result) => result.passed) ? 0 : 1);
+}
+
+main();
@@ -3,20 +3,25 @@
  * Test script: Validate replica stack deployment and replication functionality
  * Usage: bun run scripts/test/test-replica-stack.ts
  *
- * Tests:
+ * Tests (1 primary, 2 replicas):
  *   1. Primary stack deployment and health
- *   2. Replication slot creation on primary
- *   3. Replica stack deployment
+ *   2. Replication slots created on primary from REPLICATION_SLOT_NAMES
+ *   3. Replica stack deployment (one stack per replica)
  *   4. Standby mode verification (pg_is_in_recovery)
  *   5. Hot standby settings and read-only queries
  *   6. Replication lag monitoring
  *   7. postgres_exporter availability on replica
+ *   8. Quorum synchronous replication (ANY 1) across both replicas
+ *   9. Delayed replica (the second one): pause, replay until a target, extract, resume
+ *  10. Slot cleanup after the second replica is removed (replication-slots.ts --prune)
  */
 
 import { $ } from "bun";
 import { resolve } from "node:path";
 import { checkCommand, checkDockerDaemon, generateUniqueProjectName } from "../utils/docker";
+import { formatSynchronousStandbyNames } from "../utils/guc-formatter";
 import { error, info, success, warning } from "../utils/logger";
+import { cleanupTestStackSecrets, createTestStackSecrets } from "../utils/stack-secrets";
 import { TIMEOUTS } from "../config/test-timeouts";
 
 /**
@@ -31,6 +36,38 @@ interface ReplicaTestConfig {
   testReplicationPassword: string;
 }
 
+/**
+ * One replica stack instance; each runs as its own compose project from stacks/replica
+ */
+interface ReplicaInstance {
+  envFile: string;
+  slot: string;
+  hostname: string;
+  port: number;
+  exporterPort: number;
+  /** REPLICA_APPLY_DELAY; set on the delayed replica */
+  applyDelay?: string;
+}
+
+const REPLICAS: [ReplicaInstance, ReplicaInstance] = [
+  {
+    envFile: ".env.test",
+    slot: "replica_slot_test",
+    // Not "postgres-replica": every replica stack's service answers to that name
+    hostname: "postgres-replica-1",
+    port: 5433,
+    exporterPort: 9188,
+  },
+  {
+    envFile: ".env.test-2",
+    slot: "replica_slot_test_2",
+    hostname: "postgres-replica-2",
+    port: 5434,
+    exporterPort: 9190,
+    applyDelay: "1h",
+  },
+];
+
 /**
  * Docker Compose service health status
  */
@@ -158,17 +195,20 @@ async function deployPrimaryStack(config: ReplicaTestConfig): Promise<void> {
   const primaryProjectName = generateUniqueProjectName("aza-pg-replica-test-primary");
   const networkName = `postgres-replica-test-net-${Date.now()}-${process.pid}`;
 
-  // Create .env.test file
-  const envContent = `POSTGRES_PASSWORD=${config.testPostgresPassword}
-PGBOUNCER_AUTH_PASS=${config.testPgBouncerPassword}
-PG_REPLICATION_PASSWORD=${config.testReplicationPassword}
+  // Create .env.test file (passwords as secret files, shared with the replicas)
+  const secretsDir = await createTestStackSecrets(primaryProjectName, {
+    postgres_password: config.testPostgresPassword,
+    pgbouncer_auth_password: config.testPgBouncerPassword,
+    replication_password: config.testReplicationPassword,
+  });
+  const envContent = `POSTGRES_SECRETS_DIR=${secretsDir}
 POSTGRES_IMAGE=${Bun.env.POSTGRES_IMAGE || "ghcr.io/fluxo-kt/aza-pg:pg18"}
 POSTGRES_MEMORY_LIMIT=2g
 POSTGRES_BIND_IP=0.0.0.0
 COMPOSE_PROJECT_NAME=${primaryProjectName}
 POSTGRES_NETWORK_NAME=${networkName}
 ENABLE_REPLICATION=true
-REPLICATION_SLOT_NAME=replica_slot_test
+REPLICATION_SLOT_NAMES=${REPLICAS.map((replica) => replica.slot).join(",")}
 `;
 
   await Bun.write(resolve(config.primaryStackPath, ".env.test"), envContent);
@@ -213,9 +253,13 @@ REPLICATION_SLOT_NAME=replica_slot_test
 /**
  * Get service health status from docker compose
  */
-async function getServiceHealth(stackPath: string, serviceName: string): Promise<ServiceStatus> {
+async function getServiceHealth(
+  stackPath: string,
+  serviceName: string,
+  envFile: string = ".env.test"
+): Promise<ServiceStatus> {
   try {
-    const result = await $`docker compose --env-file .env.test ps ${serviceName} --format json`
+    const result = await $`docker compose --env-file ${envFile} ps ${serviceName} --format json`
       .cwd(stackPath)
       .quiet();
     const output = result.text().trim();
@@ -273,67 +317,60 @@ async function waitForPrimaryHealthy(
 /**
  * Get container ID for a service
  */
-async function getContainerId(stackPath: string, serviceName: string): Promise<string> {
-  const result = await $`docker compose --env-file .env.test ps ${serviceName} -q`.cwd(stackPath);
+async function getContainerId(
+  stackPath: string,
+  serviceName: string,
+  envFile: string = ".env.test"
+): Promise<string> {
+  const result = await $`docker compose --env-file ${envFile} ps ${serviceName} -q`.cwd(stackPath);
   return result.text().trim();
 }
 
 /**
- * Create replication slot on primary
+ * Verify the primary's init created one slot per replica
  */
-async function createReplicationSlot(config: ReplicaTestConfig): Promise<void> {
-  info("Step 2: Creating replication slot on primary...");
+async function verifyReplicationSlots(config: ReplicaTestConfig): Promise<void> {
+  info("Step 2: Verifying replication slots created by primary init...");
 
   const containerId = await getContainerId(config.primaryStackPath, "postgres");
-
-  try {
-    // Drop slot if it exists (idempotent operation)
-    await $`docker exec ${containerId} psql -U postgres -tAc "SELECT pg_drop_replication_slot('replica_slot_test') WHERE EXISTS (SELECT 1 FROM pg_replication_slots WHERE slot_name = 'replica_slot_test');"`.nothrow();
-
-    // Create fresh replication slot
-    await $`docker exec ${containerId} psql -U postgres -tAc "SELECT pg_create_physical_replication_slot('replica_slot_test');"`;
-  } catch (err) {
-    error("Failed to create replication slot");
-    console.error(err);
-    process.exit(1);
-  }
-
-  success("Replication slot 'replica_slot_test' created");
-
-  // Verify slot exists
   const result =
-    await $`docker exec ${containerId} psql -U postgres -tAc "SELECT COUNT(*) FROM pg_replication_slots WHERE slot_name = 'replica_slot_test';"`;
-  const count = result.text().trim();
-
-  if (count !== "1") {
-    error(`Replication slot verification failed (expected 1, got: ${count})`);
+    await $`docker exec ${containerId} psql -U postgres -tAc "SELECT string_agg(slot_name, ',' ORDER BY slot_name) FROM pg_replication_slots WHERE slot_type = 'physical';"`;
+  const slots = result.text().trim();
+  const expected = REPLICAS.map((replica) => replica.slot)
+    .sort()
+    .join(",");
+
+  if (slots !== expected) {
+    error(`Replication slots on primary: '${slots}', expected '${expected}'`);
     process.exit(1);
   }
 
-  success("Replication slot verified in pg_replication_slots");
+  success(`Replication slots created from REPLICATION_SLOT_NAMES: ${slots}`);
 }
 
 /**
  * Deploy replica stack
  */
-async function deployReplicaStack(config: ReplicaTestConfig): Promise<void> {
-  info("Step 3: Deploying replica stack...");
-
-  // Clear any existing replica data volume to force fresh pg_basebackup
-  await $`docker volume rm postgres-replica-data`.quiet().nothrow();
+async function deployReplicaStack(
+  config: ReplicaTestConfig,
+  replica: ReplicaInstance
+): Promise<void> {
+  info(`Step 3: Deploying replica stack (slot ${replica.slot})...`);
 
   // Generate unique project name for replica (must match network name from primary)
   const replicaProjectName = generateUniqueProjectName("aza-pg-replica-test-replica");
+  const dataVolume = `${replicaProjectName}-data`;
 
   // Read primary's env to get network name
   const primaryEnvContent = await Bun.file(resolve(config.primaryStackPath, ".env.test")).text();
   const networkNameMatch = primaryEnvContent.match(/POSTGRES_NETWORK_NAME=(.+)/);
   const networkName =
     networkNameMatch?.[1]?.trim() ?? `postgres-replica-test-net-${Date.now()}-${process.pid}`;
+  // The replica uses the primary's secrets (same superuser and replication passwords)
+  const secretsDir = primaryEnvContent.match(/POSTGRES_SECRETS_DIR=(.+)/)?.[1]?.trim() ?? "";
 
   // Create .env.test file
-  const envContent = `POSTGRES_PASSWORD=${config.testPostgresPassword}
-PG_REPLICATION_PASSWORD=${config.testReplicationPassword}
+  const envContent = `POSTGRES_SECRETS_DIR=${secretsDir}
 POSTGRES_IMAGE=${Bun.env.POSTGRES_IMAGE || "ghcr.io/fluxo-kt/aza-pg:pg18"}
 POSTGRES_MEMORY_LIMIT=2g
 POSTGRES_CPU_LIMIT=2
@@ -342,12 +379,15 @@ COMPOSE_PROJECT_NAME=${replicaProjectName}
 POSTGRES_NETWORK_NAME=${networkName}
 PRIMARY_HOST=postgres
 PRIMARY_PORT=5432
-REPLICATION_SLOT_NAME=replica_slot_test
-POSTGRES_PORT=5433
-POSTGRES_EXPORTER_PORT=9188
+REPLICATION_SLOT_NAME=${replica.slot}
+REPLICA_HOSTNAME=${replica.hostname}
+POSTGRES_PORT=${replica.port}
+POSTGRES_EXPORTER_PORT=${replica.exporterPort}
+POSTGRES_DATA_VOLUME=${dataVolume}
+REPLICA_APPLY_DELAY=${replica.applyDelay ?? ""}
 `;
 
-  await Bun.write(resolve(config.replicaStackPath, ".env.test"), envContent);
+  await Bun.write(resolve(config.replicaStackPath, replica.envFile), envContent);
 
   // Temporarily replace .env with .env.test for test isolation
   const envPath = resolve(config.replicaStackPath, ".env");
@@ -363,8 +403,8 @@ POSTGRES_EXPORTER_PORT=9188
   }
 
   try {
-    // Copy .env.test to .env (Docker Compose requires .env to exist)
-    await $`cp .env.test .env`.cwd(config.replicaStackPath);
+    // Copy the replica's env file to .env (Docker Compose requires .env to exist)
+    await $`cp ${replica.envFile} .env`.cwd(config.replicaStackPath);
 
     // Start replica stack (will run fresh pg_basebackup)
     info("Starting replica stack services...");
@@ -392,14 +432,19 @@ POSTGRES_EXPORTER_PORT=9188
  */
 async function waitForReplicaHealthy(
   config: ReplicaTestConfig,
+  replica: ReplicaInstance,
   timeout: number = TIMEOUTS.replication
 ): Promise<void> {
-  info(`Waiting for replica to be healthy (max ${timeout} seconds)...`);
+  info(`Waiting for replica ${replica.slot} to be healthy (max ${timeout} seconds)...`);
 
   let elapsed = 0;
   let lastStatus = { health: "unknown", state: "unknown" };
   while (elapsed < timeout) {
-    lastStatus = await getServiceHealth(config.replicaStackPath, "postgres-replica");
+    lastStatus = await getServiceHealth(
+      config.replicaStackPath,
+      "postgres-replica",
+      replica.envFile
+    );
 
     if (lastStatus.health === "healthy") {
       success("Replica PostgreSQL is healthy");
@@ -414,8 +459,10 @@ async function waitForReplicaHealthy(
   error(`Replica PostgreSQL failed to become healthy after ${timeout}s`);
   error(`Last known health status: ${lastStatus.health}`);
   error(`Container state: ${lastStatus.state}`);
-  error(`Container: postgres-replica (service in replica stack)`);
-  await $`docker compose --env-file .env.test logs postgres-replica`.cwd(config.replicaStackPath);
+  error(`Container: postgres-replica (service in replica stack, ${replica.envFile})`);
+  await $`docker compose --env-file ${replica.envFile} logs postgres-replica`.cwd(
+    config.replicaStackPath
+  );
   throw new Error(
     `Replica PostgreSQL health check failed - timeout after ${timeout}s with health status: ${lastStatus.health} and state: ${lastStatus.state}`
   );
@@ -605,6 +652,173 @@ async function testPostgresExporter(config: ReplicaTestConfig): Promise<boolean>
   }
 }
 
+/**
+ * Quorum commit over both replicas: synchronous_standby_names = ANY 1 (slot1, slot2)
+ */
+async function verifyQuorumSync(config: ReplicaTestConfig): Promise<void> {
+  info("Step 8: Verifying quorum synchronous replication...");
+
+  const primaryContainerId = await getContainerId(config.primaryStackPath, "postgres");
+  const standbyNames = formatSynchronousStandbyNames({
+    method: "ANY",
+    count: 1,
+    names: REPLICAS.map((replica) => replica.slot),
+  });
+
+  await $`docker exec ${primaryContainerId} psql -U postgres -c ${`ALTER SYSTEM SET synchronous_standby_names = '${standbyNames}'`} -c "SELECT pg_reload_conf();"`.quiet();
+
+  const expected = REPLICAS.map((replica) => `${replica.slot}|quorum`)
+    .sort()
+    .join(",");
+  let states = "";
+  for (let attempt = 0; attempt < 15; attempt++) {
+    const result =
+      await $`docker exec ${primaryContainerId} psql -U postgres -tAc "SELECT string_agg(application_name || '|' || sync_state, ',' ORDER BY application_name) FROM pg_stat_replication;"`;
+    states = result.text().trim();
+    if (states === expected) {
+      break;
+    }
+    await Bun.sleep(2000);
+  }
+
+  if (states !== expected) {
+    error(`pg_stat_replication sync states: '${states}', expected '${expected}'`);
+    process.exit(1);
+  }
+  success(`Both replicas are quorum standbys (${standbyNames})`);
+
+  // A synchronous commit returns only once a standby confirmed it
+  await $`docker exec ${primaryContainerId} psql -U postgres -c "CREATE TABLE quorum_test AS SELECT 1 AS id;"`.quiet();
+  success("Synchronous commit confirmed by the quorum");
+}
+
+/**
+ * Recover a dropped table from the delayed replica with delayed-replica.ts
+ */
+async function verifyDelayedReplica(config: ReplicaTestConfig): Promise<void> {
+  info("Step 9: Recovering a dropped table from the delayed replica...");
+
+  const delayed = REPLICAS[1];
+  const tool = resolve(config.projectRoot, "scripts/tools/delayed-replica.ts");
+  const primaryContainerId = await getContainerId(config.primaryStackPath, "postgres");
+  const replicaContainerId = await getContainerId(
+    config.replicaStackPath,
+    "postgres-replica",
+    delayed.envFile
+  );
+  const onReplica = async (sql: string): Promise<string> =>
+    (await $`docker exec ${replicaContainerId} psql -U postgres -tAc ${sql}`.nothrow().quiet())
+      .text()
+      .trim();
+  const runTool = async (...args: string[]): Promise<void> => {
+    const result = await $`bun ${tool} --container ${replicaContainerId} ${args}`.nothrow().quiet();
+    if (result.exitCode !== 0) {
+      error(`delayed-replica.ts ${args.join(" ")} failed:\n${result.stdout}${result.stderr}`);
+      process.exit(1);
+    }
+  };
+
+  const settings = await onReplica(
+    "SELECT current_setting('recovery_min_apply_delay') || '|' || current_setting('hot_standby_feedback');"
+  );
+  if (settings !== `${delayed.applyDelay}|off`) {
+    error(`Delayed replica settings: '${settings}', expected '${delayed.applyDelay}|off'`);
+    process.exit(1);
+  }
+  success(`REPLICA_APPLY_DELAY applied (recovery_min_apply_delay=${delayed.applyDelay})`);
+
+  // The "destructive migration": a table is created, then dropped after the target time
+  await $`docker exec ${primaryContainerId} psql -U postgres -c "CREATE TABLE delayed_test AS SELECT 42 AS id;"`.quiet();
+  await Bun.sleep(1500);
+  const target = (
+    await $`docker exec ${primaryContainerId} psql -U postgres -tAc "SELECT to_char(clock_timestamp() AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI:SS.US') || '+00';"`.quiet()
+  )
+    .text()
+    .trim();
+  await Bun.sleep(1500);
+  await $`docker exec ${primaryContainerId} psql -U postgres -c "DROP TABLE delayed_test;"`.quiet();
+
+  if ((await onReplica("SELECT to_regclass('delayed_test') IS NULL;")) !== "t") {
+    error("The delayed replica applied the table without waiting for its delay");
+    process.exit(1);
+  }
+  success("The delay holds back both changes");
+
+  await runTool("--pause");
+  await runTool("--replay-until", target, "--timeout", "120");
+  const rows = await onReplica("SELECT string_agg(id::text, ',') FROM delayed_test;");
+  if (rows !== "42") {
+    error(`delayed_test on the replica paused at ${target}: '${rows}', expected '42'`);
+    process.exit(1);
+  }
+  success(`Replayed until ${target}: the table exists, its DROP is not applied`);
+
+  const dumpFile = resolve(config.replicaStackPath, ".delayed-test-extract.sql");
+  try {
+    await runTool("--extract", dumpFile, "--tables", "delayed_test");
+    const dump = await Bun.file(dumpFile).text();
+    if (!dump.includes("CREATE TABLE public.delayed_test")) {
+      error("--extract output does not contain the table");
+      process.exit(1);
+    }
+    success("--extract dumped the table");
+  } finally {
+    await $`rm -f ${dumpFile}`.quiet();
+  }
+
+  await runTool("--resume");
+  const resumed = await onReplica(
+    "SELECT current_setting('recovery_target_time') || '|' || current_setting('recovery_min_apply_delay') || '|' || pg_get_wal_replay_pause_state();"
+  );
+  if (resumed !== `|${delayed.applyDelay}|not paused`) {
+    error(`After --resume: '${resumed}', expected '|${delayed.applyDelay}|not paused'`);
+    process.exit(1);
+  }
+  success("--resume dropped the target and restored the delay");
+}
+
+/**
+ * Remove the second replica and drop its slot so it stops holding back WAL
+ */
+async function verifySlotCleanup(config: ReplicaTestConfig): Promise<void> {
+  info("Step 10: Removing the second replica and pruning its slot...");
+
+  const [kept, removed] = REPLICAS;
+  const primaryContainerId = await getContainerId(config.primaryStackPath, "postgres");
+
+  // Back to one named standby before its peer disappears
+  await $`docker exec ${primaryContainerId} psql -U postgres -c ${`ALTER SYSTEM SET synchronous_standby_names = '${kept.slot}'`} -c "SELECT pg_reload_conf();"`.quiet();
+
+  await $`docker compose --env-file ${removed.envFile} down -v`
+    .cwd(config.replicaStackPath)
+    .quiet();
+  success(`Replica ${removed.slot} removed`);
+
+  // The walsender exits shortly after its replica disconnects; the slot is then inactive
+  let pruned = false;
+  for (let attempt = 0; attempt < 10 && !pruned; attempt++) {
+    const result =
+      await $`bun ${resolve(config.projectRoot, "scripts/tools/replication-slots.ts")} --container ${primaryContainerId} --keep ${kept.slot} --prune`
+        .nothrow()
+        .quiet();
+    const slots =
+      await $`docker exec ${primaryContainerId} psql -U postgres -tAc "SELECT string_agg(slot_name, ',' ORDER BY slot_name) FROM pg_replication_slots;"`;
+    pruned = result.exitCode === 0 && slots.text().trim() === kept.slot;
+    if (!pruned) {
+      await Bun.sleep(2000);
+    }
+  }
+
+  if (!pruned) {
+    error(`Slot ${removed.slot} was not pruned`);
+    process.exit(1);
+  }
+  success(`Slot ${removed.slot} dropped; ${kept.slot} kept`);
+
+  await $`docker exec ${primaryContainerId} psql -U postgres -c "INSERT INTO quorum_test VALUES (2);"`.quiet();
+  success("Commits continue with the remaining replica");
+}
+
 /**
  * Cleanup test environment
  */
@@ -634,6 +848,17 @@ async function cleanup(config: ReplicaTestConfig): Promise<void> {
     // Ignore if file doesn't exist
   }
 
+  // Stop the second replica (removed in step 10 unless the test failed earlier)
+  try {
+    await $`docker compose --env-file ${REPLICAS[1].envFile} down -v --remove-orphans`
+      .cwd(config.replicaStackPath)
+      .quiet()
+      .nothrow();
+    await $`rm -f ${resolve(config.replicaStackPath, REPLICAS[1].envFile)}`.quiet();
+  } catch {
+    // Ignore if it was never deployed
+  }
+
   // Stop replica first
   try {
     await $`docker compose --env-file .env.test down -v --remove-orphans`
@@ -694,11 +919,12 @@ async function cleanup(config: ReplicaTestConfig): Promise<void> {
       }
     }
 
-    // Clean up primary volumes
+    // Clean up primary volumes and secrets
     if (primaryProjectName) {
       await $`docker volume prune -f --filter label=com.docker.compose.project=${primaryProjectName}`
         .nothrow()
         .quiet();
+      await cleanupTestStackSecrets(primaryProjectName);
     }
   } catch (err) {
     warning(`Primary cleanup warning: ${err instanceof Error ? err.message : String(err)}`);
@@ -727,8 +953,8 @@ function printSummary(exporterVerified: boolean): void {
   console.log("");
   console.log("Summary:");
   console.log("  ✅ Primary stack deployed and healthy");
-  console.log("  ✅ Replication slot created on primary");
-  console.log("  ✅ Replica stack deployed and healthy");
+  console.log("  ✅ One replication slot per replica created on primary");
+  console.log("  ✅ Two replica stacks deployed and healthy");
   console.log("  ✅ Replica is in standby mode (pg_is_in_recovery = true)");
   console.log("  ✅ Hot standby enabled - read-only queries work");
   console.log("  ✅ Write protection verified on replica");
@@ -738,6 +964,9 @@ function printSummary(exporterVerified: boolean): void {
   } else {
     console.log("  ⏭️  postgres_exporter skipped (monitoring network unavailable)");
   }
+  console.log("  ✅ Quorum synchronous replication (ANY 1) across both replicas");
+  console.log("  ✅ Delayed replica paused, replayed to a target, extracted and resumed");
+  console.log("  ✅ Removed replica's slot pruned");
   console.log("");
 }
 
@@ -898,12 +1127,14 @@ async function main(): Promise<void> {
     await deployPrimaryStack(config);
     await waitForPrimaryHealthy(config);
 
-    // Step 2: Create replication slot
-    await createReplicationSlot(config);
+    // Step 2: Verify replication slots
+    await verifyReplicationSlots(config);
 
-    // Step 3: Deploy replica stack
-    await deployReplicaStack(config);
-    await waitForReplicaHealthy(config);
+    // Step 3: Deploy replica stacks
+    for (const replica of REPLICAS) {
+      await deployReplicaStack(config, replica);
+      await waitForReplicaHealthy(config, replica);
+    }
 
     // Step 4: Verify standby mode
     await verifyStandbyMode(config);
@@ -917,6 +1148,15 @@ async function main(): Promise<void> {
     // Step 7: Test postgres_exporter
     const exporterVerified = await testPostgresExporter(config);
 
+    // Step 8: Quorum synchronous replication
+    await verifyQuorumSync(config);
+
+    // Step 9: Delayed replica recovery
+    await verifyDelayedReplica(config);
+
+    // Step 10: Slot cleanup after removing a replica
+    await verifySlotCleanup(config);
+
     // Print summary
     printSummary(exporterVerified);
   } catch (err) {
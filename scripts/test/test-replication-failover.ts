@@ -14,8 +14,16 @@
  * - Test write operations on promoted primary
  * - Verify replication slot is removed after promotion
  *
+ * With --agent, scripts/tools/failover-agent.ts replaces the manual stop and promotion:
+ * - Kill the primary container while the agent watches it
+ * - Writes through PgBouncer resume within FAILOVER_WRITE_BOUND_SECONDS
+ * - The fenced old primary refuses to start again
+ *
+ * Both modes finish by rejoining the old primary as a replica of the promoted one
+ * (scripts/tools/rejoin-as-replica.ts, pg_rewind).
+ *
  * Usage:
- *   bun scripts/test/test-replication-failover.ts [image-tag] [--no-cleanup]
+ *   bun scripts/test/test-replication-failover.ts [image-tag] [--agent] [--no-cleanup]
  */
 
 import { $ } from "bun";
@@ -24,6 +32,7 @@ import { generateUniqueProjectName } from "../utils/docker";
 import { error, info, section, success, testSummary, warning } from "../utils/logger";
 import type { TestResult } from "../utils/logger";
 import { TIMEOUTS } from "../config/test-timeouts";
+import { cleanupTestStackSecrets, createTestStackSecrets } from "../utils/stack-secrets";
 
 /**
  * Test configuration
@@ -31,6 +40,7 @@ import { TIMEOUTS } from "../config/test-timeouts";
 interface TestConfig {
   imageTag: string;
   noCleanup: boolean;
+  agentMode: boolean;
   projectRoot: string;
   primaryStackPath: string;
   replicaStackPath: string;
@@ -44,13 +54,18 @@ interface TestConfig {
 /**
  * Parse command line arguments
  */
-function parseArgs(): Pick<TestConfig, "imageTag" | "noCleanup"> {
-  const imageTag = Bun.argv[2] || Bun.env.POSTGRES_IMAGE || "ghcr.io/fluxo-kt/aza-pg:pg18";
+function parseArgs(): Pick<TestConfig, "imageTag" | "noCleanup" | "agentMode"> {
+  const positional = Bun.argv.slice(2).filter((arg) => !arg.startsWith("--"));
+  const imageTag = positional[0] || Bun.env.POSTGRES_IMAGE || "ghcr.io/fluxo-kt/aza-pg:pg18";
   const noCleanup = Bun.argv.includes("--no-cleanup");
+  const agentMode = Bun.argv.includes("--agent");
 
-  return { imageTag, noCleanup };
+  return { imageTag, noCleanup, agentMode };
 }
 
+/** Writes through PgBouncer must resume this soon after the primary is killed (--agent) */
+const FAILOVER_WRITE_BOUND_SECONDS = 60;
+
 /**
  * Get project root directory
  */
@@ -77,10 +92,12 @@ function generateTestPasswords(): Pick<
 }
 
 /**
- * Get container ID for a service
+ * Get container ID for a service (stopped containers included)
  */
 async function getContainerId(stackPath: string, serviceName: string): Promise<string> {
-  const result = await $`docker compose --env-file .env.test ps ${serviceName} -q`.cwd(stackPath);
+  const result = await $`docker compose --env-file .env.test ps ${serviceName} -a -q`.cwd(
+    stackPath
+  );
   return result.text().trim();
 }
 
@@ -156,10 +173,15 @@ async function testDeployStacks(config: TestConfig): Promise<TestResult> {
   try {
     section("Test 1: Deploy Primary + Replica Stack");
 
+    // Passwords as secret files, shared by both stacks
+    const secretsDir = await createTestStackSecrets(config.primaryProjectName, {
+      postgres_password: config.testPostgresPassword,
+      pgbouncer_auth_password: config.testPostgresPassword,
+      replication_password: config.testReplicationPassword,
+    });
+
     // Create primary .env.test
-    const primaryEnvContent = `POSTGRES_PASSWORD=${config.testPostgresPassword}
-PGBOUNCER_AUTH_PASS=${config.testPostgresPassword}
-PG_REPLICATION_PASSWORD=${config.testReplicationPassword}
+    const primaryEnvContent = `POSTGRES_SECRETS_DIR=${secretsDir}
 POSTGRES_IMAGE=${config.imageTag}
 POSTGRES_MEMORY_LIMIT=2g
 POSTGRES_BIND_IP=0.0.0.0
@@ -174,10 +196,16 @@ REPLICATION_SLOT_NAME=failover_test_slot
     // Copy .env.test to .env (Docker Compose requires .env to exist for env_file directive)
     await $`cp .env.test .env`.cwd(config.primaryStackPath);
 
-    // Deploy primary
+    // Deploy primary (with PgBouncer for the failover agent to repoint)
     info("Starting primary stack...");
-    await $`docker compose --env-file .env.test up -d postgres`.cwd(config.primaryStackPath);
+    const primaryServices = config.agentMode ? ["postgres", "pgbouncer"] : ["postgres"];
+    await $`docker compose --env-file .env.test up -d ${primaryServices}`.cwd(
+      config.primaryStackPath
+    );
     await waitForServiceHealthy(config.primaryStackPath, "postgres");
+    if (config.agentMode) {
+      await waitForServiceHealthy(config.primaryStackPath, "pgbouncer");
+    }
 
     // Create replication slot
     const primaryContainerId = await getContainerId(config.primaryStackPath, "postgres");
@@ -187,8 +215,7 @@ REPLICATION_SLOT_NAME=failover_test_slot
     success("Replication slot created");
 
     // Create replica .env.test
-    const replicaEnvContent = `POSTGRES_PASSWORD=${config.testPostgresPassword}
-PG_REPLICATION_PASSWORD=${config.testReplicationPassword}
+    const replicaEnvContent = `POSTGRES_SECRETS_DIR=${secretsDir}
 POSTGRES_IMAGE=${config.imageTag}
 POSTGRES_MEMORY_LIMIT=2g
 POSTGRES_CPU_LIMIT=2
@@ -395,6 +422,168 @@ async function testStopPrimary(config: TestConfig): Promise<TestResult> {
   }
 }
 
+/**
+ * Write one row through PgBouncer (as pgbouncer_auth), giving up after 5 seconds
+ */
+async function writeThroughPgBouncer(pgbouncerContainerId: string): Promise<boolean> {
+  const result =
+    await $`docker exec ${pgbouncerContainerId} sh -c ${'PGPASSWORD="$(cat "$PGBOUNCER_AUTH_PASS_FILE")" timeout 5 psql -h localhost -p 6432 -U pgbouncer_auth -d postgres -tAc "INSERT INTO failover_agent_probe DEFAULT VALUES" 2>&1'}`
+      .nothrow()
+      .quiet();
+  return result.exitCode === 0;
+}
+
+/**
+ * Test 5 (--agent): Kill Primary With the Failover Agent Running
+ */
+async function testAutomaticFailover(config: TestConfig): Promise<TestResult> {
+  const start = Date.now();
+  let agent: ReturnType<typeof Bun.spawn> | undefined;
+  try {
+    section("Test 5: Kill Primary With the Failover Agent Running");
+
+    const primaryContainerId = await getContainerId(config.primaryStackPath, "postgres");
+    const replicaContainerId = await getContainerId(config.replicaStackPath, "postgres-replica");
+    const pgbouncerContainerId = await getContainerId(config.primaryStackPath, "pgbouncer");
+
+    info("Creating write probe table...");
+    await $`docker exec ${primaryContainerId} psql -U postgres -c ${"CREATE TABLE failover_agent_probe (id SERIAL PRIMARY KEY, written_at TIMESTAMPTZ DEFAULT now()); GRANT SELECT, INSERT ON failover_agent_probe TO pgbouncer_auth; GRANT USAGE ON SEQUENCE failover_agent_probe_id_seq TO pgbouncer_auth;"}`;
+    if (!(await writeThroughPgBouncer(pgbouncerContainerId))) {
+      throw new Error("Write through PgBouncer failed before the failover");
+    }
+
+    info("Starting failover agent...");
+    agent = Bun.spawn(
+      [
+        "bun",
+        resolve(config.projectRoot, "scripts/tools/failover-agent.ts"),
+        "--primary",
+        primaryContainerId,
+        "--replica",
+        replicaContainerId,
+        "--slot",
+        "failover_test_slot",
+        "--pgbouncer",
+        pgbouncerContainerId,
+        "--interval",
+        "2",
+        "--failures",
+        "3",
+      ],
+      { stdout: "pipe", stderr: "inherit" }
+    );
+
+    // Echo the agent's log and wait until it has seen the replica streaming
+    let agentLog = "";
+    const decoder = new TextDecoder();
+    const stdout = agent.stdout as ReadableStream<Uint8Array>;
+    const logDone = (async () => {
+      for await (const chunk of stdout) {
+        const text = decoder.decode(chunk);
+        agentLog += text;
+        process.stdout.write(text);
+      }
+    })();
+    const watchDeadline = Date.now() + 30_000;
+    while (!agentLog.includes("Primary healthy; replica streaming")) {
+      if (Date.now() > watchDeadline || agent.exitCode !== null) {
+        throw new Error("Failover agent did not report a healthy primary with a streaming replica");
+      }
+      await Bun.sleep(500);
+    }
+
+    info("Killing primary container...");
+    await $`docker kill ${primaryContainerId}`;
+    const killedAt = Date.now();
+
+    let resumed = false;
+    while (Date.now() - killedAt < FAILOVER_WRITE_BOUND_SECONDS * 1000) {
+      if (await writeThroughPgBouncer(pgbouncerContainerId)) {
+        resumed = true;
+        break;
+      }
+      await Bun.sleep(1000);
+    }
+    const downtime = ((Date.now() - killedAt) / 1000).toFixed(1);
+    if (!resumed) {
+      throw new Error(
+        `Writes through PgBouncer did not resume within ${FAILOVER_WRITE_BOUND_SECONDS}s`
+      );
+    }
+    success(`Writes through PgBouncer resumed ${downtime}s after the primary was killed`);
+
+    const exitCode = await Promise.race([agent.exited, Bun.sleep(30_000).then(() => null)]);
+    await logDone;
+    if (exitCode !== 0) {
+      throw new Error(`Failover agent exited with ${exitCode ?? "a timeout"}, expected 0`);
+    }
+    success("Failover agent exited after promoting the replica");
+
+    return {
+      name: "Kill Primary With the Failover Agent Running",
+      passed: true,
+      duration: Date.now() - start,
+    };
+  } catch (err) {
+    return {
+      name: "Kill Primary With the Failover Agent Running",
+      passed: false,
+      duration: Date.now() - start,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  } finally {
+    if (agent && agent.exitCode === null) {
+      agent.kill();
+    }
+  }
+}
+
+/**
+ * Test 6 (--agent): Fenced Old Primary Refuses to Start
+ */
+async function testFencedPrimary(config: TestConfig): Promise<TestResult> {
+  const start = Date.now();
+  try {
+    section("Test 6: Fenced Old Primary Refuses to Start");
+
+    const primaryContainerId = await getContainerId(config.primaryStackPath, "postgres");
+
+    const restartPolicy =
+      await $`docker inspect -f "{{.HostConfig.RestartPolicy.Name}}" ${primaryContainerId}`;
+    if (restartPolicy.text().trim() !== "no") {
+      throw new Error(`Restart policy is '${restartPolicy.text().trim()}', expected 'no'`);
+    }
+    success("Restart policy disabled");
+
+    info("Starting the old primary again...");
+    await $`docker start ${primaryContainerId}`.nothrow().quiet();
+    await Bun.sleep(5000);
+
+    const running = await $`docker inspect -f "{{.State.Running}}" ${primaryContainerId}`;
+    if (running.text().trim() !== "false") {
+      throw new Error("Fenced primary is running");
+    }
+    const logs = await $`docker logs ${primaryContainerId} 2>&1`.nothrow().quiet();
+    if (!logs.text().includes("fenced by the failover agent")) {
+      throw new Error("Fenced primary exited without the fence message");
+    }
+
+    success("Fenced primary refused to start");
+    return {
+      name: "Fenced Old Primary Refuses to Start",
+      passed: true,
+      duration: Date.now() - start,
+    };
+  } catch (err) {
+    return {
+      name: "Fenced Old Primary Refuses to Start",
+      passed: false,
+      duration: Date.now() - start,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
 /**
  * Test 6: Promote Replica to Primary
  */
@@ -588,6 +777,72 @@ async function testWalPositionAdvances(config: TestConfig): Promise<TestResult>
   }
 }
 
+/**
+ * Test 10: Rejoin Old Primary as a Replica With pg_rewind
+ */
+async function testRejoinOldPrimary(config: TestConfig): Promise<TestResult> {
+  const start = Date.now();
+  try {
+    section("Test 10: Rejoin Old Primary as a Replica With pg_rewind");
+
+    const primaryContainerId = await getContainerId(config.primaryStackPath, "postgres");
+    const replicaContainerId = await getContainerId(config.replicaStackPath, "postgres-replica");
+
+    info("Running rejoin-as-replica.ts...");
+    await $`bun ${resolve(config.projectRoot, "scripts/tools/rejoin-as-replica.ts")} --container ${primaryContainerId} --primary ${replicaContainerId} --primary-host postgres-replica --slot rejoin_test_slot -y`.env(
+      { ...Bun.env, PG_REPLICATION_PASSWORD: config.testReplicationPassword }
+    );
+
+    const recovery =
+      await $`docker exec ${primaryContainerId} psql -U postgres -tAc "SELECT pg_is_in_recovery();"`;
+    if (recovery.text().trim() !== "t") {
+      throw new Error("Rejoined old primary is not in recovery");
+    }
+    success("Old primary is in recovery");
+
+    // Written on the promoted primary after the failover (Test 9)
+    let replicated = false;
+    for (let attempt = 0; attempt < 15 && !replicated; attempt++) {
+      const rows =
+        await $`docker exec ${primaryContainerId} psql -U postgres -tAc "SELECT COUNT(*) FROM failover_test WHERE data = 'wal_test';"`
+          .nothrow()
+          .quiet();
+      replicated = rows.text().trim() === "1";
+      if (!replicated) {
+        await Bun.sleep(2000);
+      }
+    }
+    if (!replicated) {
+      throw new Error("Rows written after the failover did not reach the rejoined replica");
+    }
+    success("Rows written after the failover replicated to the rejoined replica");
+
+    if (config.agentMode) {
+      const marker =
+        await $`docker exec ${primaryContainerId} test -e /var/lib/postgresql/aza-pg.fenced`
+          .nothrow()
+          .quiet();
+      if (marker.exitCode === 0) {
+        throw new Error("Fence marker is still present");
+      }
+      success("Fence marker removed");
+    }
+
+    return {
+      name: "Rejoin Old Primary as a Replica With pg_rewind",
+      passed: true,
+      duration: Date.now() - start,
+    };
+  } catch (err) {
+    return {
+      name: "Rejoin Old Primary as a Replica With pg_rewind",
+      passed: false,
+      duration: Date.now() - start,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
 /**
  * Cleanup test environment
  */
@@ -643,6 +898,8 @@ async function cleanup(config: TestConfig): Promise<void> {
     // Ignore cleanup errors
   }
 
+  await cleanupTestStackSecrets(config.primaryProjectName);
+
   try {
     // Clean up network
     await $`docker network rm ${config.networkName}`.quiet();
@@ -676,6 +933,7 @@ async function main(): Promise<void> {
   console.log("Replication Failover Test");
   console.log("========================================");
   console.log(`Image: ${config.imageTag}`);
+  console.log(`Failover: ${config.agentMode ? "failover agent" : "manual promotion"}`);
   console.log(`Primary Stack: ${config.primaryStackPath}`);
   console.log(`Replica Stack: ${config.replicaStackPath}`);
   console.log("");
@@ -701,11 +959,17 @@ async function main(): Promise<void> {
     results.push(await testVerifyReplication(config));
     results.push(await testVerifyRecoveryMode(config));
     results.push(await testCheckReplicationLag(config));
-    results.push(await testStopPrimary(config));
-    results.push(await testPromoteReplica(config));
+    if (config.agentMode) {
+      results.push(await testAutomaticFailover(config));
+      results.push(await testFencedPrimary(config));
+    } else {
+      results.push(await testStopPrimary(config));
+      results.push(await testPromoteReplica(config));
+    }
     results.push(await testVerifyPromotion(config));
     results.push(await testWriteOperations(config));
     results.push(await testWalPositionAdvances(config));
+    results.push(await testRejoinOldPrimary(config));
 
     // Print summary
     console.log("");
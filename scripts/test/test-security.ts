@@ -9,12 +9,17 @@
  * - Network binding configuration
  * - Extension security (SHA pins, manifest validation)
  * - pgAudit logging verification
+ * - TLS mode (POSTGRES_TLS=require): plaintext TCP refused, verify-full accepted
+ * - Declarative roles (roles.yaml): least-privilege grants and reconciliation on restart
  *
  * Usage: bun test scripts/test/test-security.ts
  */
 
 import { describe, test, expect, beforeAll, afterAll } from "bun:test";
 import { $ } from "bun";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import type { ManifestEntry } from "../extensions/manifest-data";
 import { generateUniqueContainerName, waitForPostgresStable } from "../utils/docker";
 
@@ -22,6 +27,7 @@ const TEST_CONTAINER = `aza-pg-security-test-${Date.now()}`;
 const TEST_PASSWORD = "secureTestPass123!";
 const TEST_IMAGE = Bun.env.POSTGRES_IMAGE || "localhost/aza-pg:latest";
 const IMAGE_MANIFEST_PATH = "/etc/postgresql/extensions.manifest.json";
+const REPO_ROOT = join(import.meta.dir, "../..");
 
 type ImageSourceSpec = ManifestEntry["source"] & { commit?: string };
 
@@ -535,3 +541,250 @@ describe("Security - SSL/TLS Configuration", () => {
     }
   });
 });
+
+describe("Security - TLS mode (POSTGRES_TLS=require)", () => {
+  const tlsContainer = generateUniqueContainerName("aza-pg-security-tls");
+  let certRoot = "";
+
+  /** TCP connection from inside the container, as a client on the network would connect */
+  async function connectOverTcp(options: string) {
+    const result =
+      await $`docker exec -e PGPASSWORD=${TEST_PASSWORD} ${tlsContainer} psql ${`host=localhost user=postgres dbname=postgres connect_timeout=5 ${options}`} -tAc ${"SELECT ssl_is_used()"}`
+        .quiet()
+        .nothrow();
+    return {
+      stdout: result.stdout.toString().trim(),
+      stderr: result.stderr.toString().trim(),
+      success: result.exitCode === 0,
+    };
+  }
+
+  beforeAll(async () => {
+    certRoot = await mkdtemp(join(tmpdir(), "aza-pg-tls-"));
+    const certDir = join(certRoot, "certs");
+    const generated =
+      await $`bun ${join(REPO_ROOT, "scripts/tools/generate-ssl-certs.ts")} ${certDir} 2`
+        .quiet()
+        .nothrow();
+    if (generated.exitCode !== 0) {
+      throw new Error(`generate-ssl-certs.ts failed: ${generated.stderr.toString()}`);
+    }
+
+    const result = await $`docker run --name ${tlsContainer} \
+      -e POSTGRES_PASSWORD=${TEST_PASSWORD} \
+      -e POSTGRES_MEMORY=1024 \
+      -e POSTGRES_TLS=require \
+      -v ${certDir}:/etc/postgresql/certs:ro \
+      -v ${join(REPO_ROOT, "stacks/single/configs/pg_hba-tls.conf")}:/etc/postgresql/pg_hba-tls.conf:ro \
+      -d ${TEST_IMAGE}`
+      .quiet()
+      .nothrow();
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to start TLS test container: ${result.stderr.toString()}`);
+    }
+
+    const ready = await waitForPostgresStable({
+      container: tlsContainer,
+      timeout: 120,
+      requiredSuccesses: 3,
+      checkInterval: 1000,
+    });
+    if (!ready) {
+      throw new Error("TLS test container did not become stable in time (120s timeout)");
+    }
+  }, 150000);
+
+  afterAll(async () => {
+    await $`docker rm -f -v ${tlsContainer}`.quiet().nothrow();
+    if (certRoot) {
+      await rm(certRoot, { recursive: true, force: true });
+    }
+  }, 15000);
+
+  test("SSL is on with the generated certificates", async () => {
+    const ssl = await runSQLInContainer(tlsContainer, "SHOW ssl");
+    expect(ssl.stdout).toBe("on");
+    const certFile = await runSQLInContainer(tlsContainer, "SHOW ssl_cert_file");
+    expect(certFile.stdout).toBe("/var/lib/postgresql/tls/server.crt");
+  });
+
+  test("pg_hba only has hostssl rules for TCP", async () => {
+    const types = await runSQLInContainer(
+      tlsContainer,
+      "SELECT string_agg(DISTINCT type, ',' ORDER BY type) FROM pg_hba_file_rules"
+    );
+    expect(types.success).toBe(true);
+    expect(types.stdout).toBe("hostssl,local");
+  });
+
+  test("Plaintext TCP connections are refused", async () => {
+    const result = await connectOverTcp("sslmode=disable");
+    expect(result.success).toBe(false);
+    expect(result.stderr).toMatch(/no pg_hba\.conf entry.*no encryption/);
+  });
+
+  test("verify-full connections against the local CA succeed", async () => {
+    const result = await connectOverTcp(
+      "sslmode=verify-full sslrootcert=/var/lib/postgresql/tls/ca.crt"
+    );
+    expect(result.success).toBe(true);
+    expect(result.stdout).toBe("t");
+  });
+});
+
+describe("Security - Declarative roles (roles.yaml)", () => {
+  const rolesContainer = generateUniqueContainerName("aza-pg-security-roles");
+  const APP_PASSWORD = "appRolePass123!";
+  let rolesRoot = "";
+  let rolesFile = "";
+
+  const rolesYaml = (appMemberOf: string, appConnectionLimit: number) => `roles:
+  - name: app_owner
+    login: true
+    password_secret: app_owner_password
+    grants:
+      - database: app
+        privileges: ddl
+  - name: app_readwrite
+    grants:
+      - database: app
+        privileges: write
+  - name: app
+    login: true
+    password_secret: app_password
+    connection_limit: ${appConnectionLimit}
+    member_of:
+${appMemberOf}
+  - name: outsider
+    login: true
+    password_file: /run/secrets/app_password
+databases:
+  - name: app
+    owner: app_owner
+`;
+
+  /** Password login over TCP, as an application would connect */
+  async function runAsRole(role: string, database: string, sql: string) {
+    const result =
+      await $`docker exec -e PGPASSWORD=${APP_PASSWORD} ${rolesContainer} psql ${`host=localhost user=${role} dbname=${database} connect_timeout=5`} -v ON_ERROR_STOP=1 -tAc ${sql}`
+        .quiet()
+        .nothrow();
+    return {
+      stdout: result.stdout.toString().trim(),
+      stderr: result.stderr.toString().trim(),
+      success: result.exitCode === 0,
+    };
+  }
+
+  async function waitForRolesContainer() {
+    const ready = await waitForPostgresStable({
+      container: rolesContainer,
+      timeout: 120,
+      requiredSuccesses: 3,
+      checkInterval: 1000,
+    });
+    if (!ready) {
+      const logs = await $`docker logs ${rolesContainer}`.quiet().nothrow();
+      throw new Error(`Roles test container did not become stable:\n${logs.stderr.toString()}`);
+    }
+  }
+
+  beforeAll(async () => {
+    rolesRoot = await mkdtemp(join(tmpdir(), "aza-pg-roles-"));
+    const secretsDir = join(rolesRoot, "secrets");
+    rolesFile = join(rolesRoot, "roles.yaml");
+    await Bun.write(join(secretsDir, "app_password"), `${APP_PASSWORD}\n`);
+    await Bun.write(join(secretsDir, "app_owner_password"), `${APP_PASSWORD}\n`);
+    await Bun.write(rolesFile, rolesYaml("      - app_readwrite", 20));
+    await $`chmod 755 ${rolesRoot} ${secretsDir}`.quiet();
+    await $`chmod 644 ${rolesFile} ${join(secretsDir, "app_password")} ${join(secretsDir, "app_owner_password")}`.quiet();
+
+    const result = await $`docker run --name ${rolesContainer} \
+      -e POSTGRES_PASSWORD=${TEST_PASSWORD} \
+      -e POSTGRES_MEMORY=1024 \
+      -v ${rolesFile}:/etc/postgresql/roles.yaml:ro \
+      -v ${secretsDir}:/run/secrets:ro \
+      -d ${TEST_IMAGE}`
+      .quiet()
+      .nothrow();
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to start roles test container: ${result.stderr.toString()}`);
+    }
+    await waitForRolesContainer();
+  }, 150000);
+
+  afterAll(async () => {
+    await $`docker rm -f -v ${rolesContainer}`.quiet().nothrow();
+    if (rolesRoot) {
+      await rm(rolesRoot, { recursive: true, force: true });
+    }
+  }, 15000);
+
+  test("Declared roles exist without elevated attributes", async () => {
+    const roles = await runSQLInContainer(
+      rolesContainer,
+      "SELECT string_agg(format('%s:%s%s%s%s', rolname, rolcanlogin::int, rolsuper::int, rolcreaterole::int, rolbypassrls::int), ',' ORDER BY rolname) FROM pg_roles WHERE rolname IN ('app', 'app_owner', 'app_readwrite', 'outsider')"
+    );
+    expect(roles.success).toBe(true);
+    expect(roles.stdout).toBe("app:1000,app_owner:1000,app_readwrite:0000,outsider:1000");
+  });
+
+  test("App role logs in with its secret and writes to the owner's new tables", async () => {
+    const created = await runAsRole(
+      "app_owner",
+      "app",
+      "CREATE TABLE orders (id int PRIMARY KEY, note text)"
+    );
+    expect(created.success).toBe(true);
+
+    const written = await runAsRole(
+      "app",
+      "app",
+      "INSERT INTO orders VALUES (1, 'ok'); SELECT count(*) FROM orders"
+    );
+    expect(written.success).toBe(true);
+    expect(written.stdout).toBe("1");
+  });
+
+  test("App role cannot create extensions", async () => {
+    const result = await runAsRole("app", "app", "CREATE EXTENSION pgcrypto");
+    expect(result.success).toBe(false);
+    expect(result.stderr).toMatch(/permission denied to create extension/);
+  });
+
+  test("App role cannot create tables (write grant has no schema CREATE)", async () => {
+    const result = await runAsRole("app", "app", "CREATE TABLE app_table (id int)");
+    expect(result.success).toBe(false);
+    expect(result.stderr).toMatch(/permission denied for schema public/);
+  });
+
+  test("Roles without a grant cannot connect to the declared database", async () => {
+    const result = await runAsRole("outsider", "app", "SELECT 1");
+    expect(result.success).toBe(false);
+    expect(result.stderr).toMatch(/permission denied for database "app"/);
+  });
+
+  test("Restart reconciles memberships and attributes with the edited file", async () => {
+    await Bun.write(rolesFile, rolesYaml("      - app_readwrite\n      - pg_read_all_stats", 7));
+    await $`docker restart ${rolesContainer}`.quiet();
+    await waitForRolesContainer();
+
+    const granted = await runSQLInContainer(
+      rolesContainer,
+      "SELECT rolconnlimit, pg_has_role('app', 'pg_read_all_stats', 'MEMBER') FROM pg_roles WHERE rolname = 'app'"
+    );
+    expect(granted.stdout).toBe("7|t");
+
+    await Bun.write(rolesFile, rolesYaml("      - pg_read_all_stats", 7));
+    await $`docker restart ${rolesContainer}`.quiet();
+    await waitForRolesContainer();
+
+    const revoked = await runSQLInContainer(
+      rolesContainer,
+      "SELECT pg_has_role('app', 'app_readwrite', 'MEMBER')"
+    );
+    expect(revoked.stdout).toBe("f");
+    const denied = await runAsRole("app", "app", "SELECT count(*) FROM orders");
+    expect(denied.success).toBe(false);
+  }, 300000);
+});
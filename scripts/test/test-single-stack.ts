@@ -18,6 +18,7 @@ import { checkCommand, checkDockerDaemon, generateUniqueProjectName } from "../u
 import { info, success, warning, error } from "../utils/logger";
 import { join } from "node:path";
 import { TIMEOUTS } from "../config/test-timeouts";
+import { cleanupTestStackSecrets, createTestStackSecrets } from "../utils/stack-secrets";
 
 // Get script directory
 const scriptDir = import.meta.dir;
@@ -245,6 +246,7 @@ async function main(): Promise<void> {
     } catch {
       // Ignore errors
     }
+    await cleanupTestStackSecrets(projectName);
     success("Cleanup completed");
   };
 
@@ -263,7 +265,10 @@ async function main(): Promise<void> {
       // Create test .env file
       info("Creating test environment configuration...");
       const postgresImage = Bun.env.POSTGRES_IMAGE || "ghcr.io/fluxo-kt/aza-pg:pg18";
-      const envContent = `POSTGRES_PASSWORD=${testPostgresPassword}
+      const secretsDir = await createTestStackSecrets(projectName, {
+        postgres_password: testPostgresPassword,
+      });
+      const envContent = `POSTGRES_SECRETS_DIR=${secretsDir}
 POSTGRES_IMAGE=${postgresImage}
 POSTGRES_MEMORY_LIMIT=2g
 COMPOSE_PROJECT_NAME=${projectName}
@@ -24,6 +24,7 @@ import {
   toPostgresGUCName,
   formatValue,
   formatSetting,
+  formatSynchronousStandbyNames,
 } from "../utils/guc-formatter";
 import { formatDuration, formatMemory, formatThroughput } from "../utils/logger";
 
@@ -290,6 +291,29 @@ describe("GUC Formatting - Complete Settings", () => {
   });
 });
 
+describe("GUC Formatting - Synchronous Standbys", () => {
+  test("Quorum and priority lists render as synchronous_standby_names", () => {
+    expect(
+      formatSetting("synchronousStandbyNames", { method: "ANY", count: 1, names: ["r1", "r2"] })
+    ).toBe("synchronous_standby_names = 'ANY 1 (r1, r2)'");
+    expect(
+      formatSynchronousStandbyNames({ method: "FIRST", count: 2, names: ["a", "b", "c"] })
+    ).toBe("FIRST 2 (a, b, c)");
+  });
+
+  test("Counts outside the list and non-slot names are rejected", () => {
+    expect(() =>
+      formatSynchronousStandbyNames({ method: "ANY", count: 3, names: ["r1", "r2"] })
+    ).toThrow("ANY 3 needs between 1 and 2 standbys");
+    expect(() =>
+      formatSynchronousStandbyNames({ method: "ANY", count: 0, names: ["r1"] })
+    ).toThrow();
+    expect(() =>
+      formatSynchronousStandbyNames({ method: "ANY", count: 1, names: ["r1", "r-2"] })
+    ).toThrow("invalid standby name 'r-2'");
+  });
+});
+
 describe("Logger - Duration Formatting", () => {
   test("Milliseconds are formatted correctly", () => {
     expect(formatDuration(0)).toBe("0ms");
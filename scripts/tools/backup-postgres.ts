@@ -1,20 +1,45 @@
 #!/usr/bin/env bun
 /**
  * Backup PostgreSQL database using pg_dump
- * Usage: ./backup-postgres.ts [database] [output-file]
+ * Usage: ./backup-postgres.ts [database] [output-file] [OPTIONS]
  * Environment: PGHOST, PGPORT, PGUSER, PGPASSWORD
  *
+ * Options:
+ *   --format=plain|custom|directory   Dump format (default: plain)
+ *   --jobs N                          Parallel dump jobs (directory format only)
+ *   --compress=METHOD[:LEVEL]         gzip (default), zstd, lz4 or none
+ *   --schema PATTERN                  Dump only matching schemas (repeatable)
+ *   --exclude-table PATTERN           Skip matching tables (repeatable)
+ *
+ * Every dump gets a <output>.rowcounts.json manifest with exact row counts taken from the
+ * dump's own snapshot; restore-postgres.ts compares the restored database against it.
+ *
  * Examples:
  *   ./backup-postgres.ts                           # Backup 'postgres' db to auto-named file
  *   ./backup-postgres.ts mydb                       # Backup 'mydb' to auto-named file
  *   ./backup-postgres.ts mydb backup.sql.gz         # Backup 'mydb' to specific file
+ *   ./backup-postgres.ts mydb --format=directory --jobs 4 --compress=zstd
  *   PGHOST=db.example.com PGUSER=admin ./backup-postgres.ts mydb
  */
 
 import { $ } from "bun";
+import { existsSync } from "node:fs";
+import { dirname } from "node:path";
 import { checkCommand, waitForPostgres } from "../utils/docker";
+import { getErrorMessage } from "../utils/errors";
 import { info, success, error } from "../utils/logger";
-import { dirname } from "node:path";
+import {
+  ROW_COUNT_QUERY,
+  ROW_COUNT_SUFFIX,
+  buildPgDumpArgs,
+  dumpExtension,
+  parseCompression,
+  parseDumpFormat,
+  parseRowCounts,
+  validateDumpOptions,
+  type DumpOptions,
+  type RowCountManifest,
+} from "./dump-format";
 
 interface BackupConfig {
   database: string;
@@ -23,8 +48,16 @@ interface BackupConfig {
   pgPort: number;
   pgUser: string;
   pgPassword?: string;
+  dump: DumpOptions;
 }
 
+/** Decompress-to-stdout command per plain dump compression */
+const DECOMPRESS_COMMANDS = {
+  gzip: ["gzip", "-dc"],
+  zstd: ["zstd", "-dcq"],
+  lz4: ["lz4", "-dc"],
+} as const;
+
 /**
  * Check if a command exists in PATH
  */
@@ -40,8 +73,13 @@ async function commandExists(command: string): Promise<boolean> {
 /**
  * Guard: Check required commands
  */
-async function checkRequiredCommands(): Promise<void> {
-  const commands = ["pg_dump", "pg_isready", "gzip", "du"];
+async function checkRequiredCommands(dump: DumpOptions): Promise<void> {
+  const commands = ["pg_dump", "psql", "pg_isready", "du"];
+  if (dump.format !== "plain") {
+    commands.push("pg_restore");
+  } else if (dump.compression.method !== "none") {
+    commands.push(DECOMPRESS_COMMANDS[dump.compression.method][0]);
+  }
 
   for (const cmd of commands) {
     if (!(await commandExists(cmd))) {
@@ -54,19 +92,121 @@ async function checkRequiredCommands(): Promise<void> {
   }
 }
 
+function printHelp(): void {
+  process.stdout.write(`
+Backup a PostgreSQL database with pg_dump
+
+USAGE:
+  bun scripts/tools/backup-postgres.ts [database] [output-file] [OPTIONS]
+
+OPTIONS:
+  --format FORMAT         plain (default, SQL), custom (pg_restore archive) or directory
+  --jobs N                Parallel dump jobs (directory format only; default: 1)
+  --compress METHOD[:N]   gzip (default), zstd, lz4 or none, with optional level
+  --schema PATTERN        Dump only schemas matching PATTERN (repeatable)
+  --exclude-table PATTERN Do not dump tables matching PATTERN (repeatable)
+  -h, --help              Show this help message
+
+  Options also accept --option=value. The default output name follows the format:
+  backup_<db>_<timestamp>.sql.gz, .sql.zst, .dump or .dir
+
+ENVIRONMENT:
+  PGHOST, PGPORT, PGUSER, PGPASSWORD
+
+EXAMPLES:
+  bun scripts/tools/backup-postgres.ts mydb
+  bun scripts/tools/backup-postgres.ts mydb --format=custom --compress=zstd:3
+  bun scripts/tools/backup-postgres.ts mydb --format=directory --jobs 4 --compress=lz4
+  bun scripts/tools/backup-postgres.ts mydb --schema app --exclude-table 'app.audit_*'
+`);
+  process.exit(0);
+}
+
 /**
  * Parse configuration from arguments and environment
  */
 function parseConfig(): BackupConfig {
-  const args = Bun.argv.slice(2);
-  const database = args[0] || "postgres";
+  const positional: string[] = [];
+  const dump: DumpOptions = {
+    format: "plain",
+    compression: { method: "gzip" },
+    jobs: 1,
+    schemas: [],
+    excludeTables: [],
+  };
+
+  // Accept both "--option value" and "--option=value"
+  const args = Bun.argv
+    .slice(2)
+    .flatMap((arg) =>
+      arg.startsWith("--") && arg.includes("=")
+        ? [arg.slice(0, arg.indexOf("=")), arg.slice(arg.indexOf("=") + 1)]
+        : [arg]
+    );
+
+  const requireValue = (option: string, index: number): string => {
+    const value = args[index];
+    if (value === undefined || value === "") {
+      error(`Missing value for ${option} option`);
+      process.exit(1);
+    }
+    return value;
+  };
+
+  try {
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i] as string;
+
+      switch (arg) {
+        case "--format":
+          dump.format = parseDumpFormat(requireValue(arg, ++i));
+          break;
+
+        case "--jobs":
+          dump.jobs = Number(requireValue(arg, ++i));
+          break;
+
+        case "--compress":
+          dump.compression = parseCompression(requireValue(arg, ++i));
+          break;
+
+        case "--schema":
+          dump.schemas.push(requireValue(arg, ++i));
+          break;
+
+        case "--exclude-table":
+          dump.excludeTables.push(requireValue(arg, ++i));
+          break;
+
+        case "-h":
+        case "--help":
+          printHelp();
+          break;
+
+        default:
+          if (arg.startsWith("-")) {
+            error(`Unknown option: ${arg}. Use -h for help.`);
+            process.exit(1);
+          }
+          positional.push(arg);
+      }
+    }
+    validateDumpOptions(dump);
+  } catch (err) {
+    error(getErrorMessage(err));
+    process.exit(1);
+  }
+
+  const database = positional[0] || "postgres";
 
   // Generate default output filename with timestamp
   const timestamp = new Date()
     .toISOString()
     .replace(/[-:T]/g, "_")
     .replace(/\.\d{3}Z$/, "");
-  const outputFile = args[1] || `backup_${database}_${timestamp}.sql.gz`;
+  const outputFile =
+    positional[1] ||
+    `backup_${database}_${timestamp}${dumpExtension(dump.format, dump.compression)}`;
 
   const pgHost = Bun.env.PGHOST || "localhost";
   const pgPort = Number.parseInt(Bun.env.PGPORT || "5432", 10);
@@ -80,6 +220,7 @@ function parseConfig(): BackupConfig {
     pgPort,
     pgUser,
     pgPassword,
+    dump,
   };
 }
 
@@ -133,8 +274,7 @@ async function checkOutputDirectory(outputFile: string): Promise<void> {
  * Guard: Prevent overwriting existing files
  */
 async function checkFileExists(outputFile: string): Promise<void> {
-  const exists = await Bun.file(outputFile).exists();
-  if (exists) {
+  if (existsSync(outputFile)) {
     error(`Output file already exists: ${outputFile}`);
     process.stdout.write(`   Remove existing file: rm ${outputFile}\n`);
     process.stdout.write("   Or specify different output file as second argument\n");
@@ -142,91 +282,179 @@ async function checkFileExists(outputFile: string): Promise<void> {
   }
 }
 
+/**
+ * Connection options shared by pg_dump and psql
+ */
+function connectionArgs(config: BackupConfig): string[] {
+  return [
+    "-h",
+    config.pgHost,
+    "-p",
+    config.pgPort.toString(),
+    "-U",
+    config.pgUser,
+    "-d",
+    config.database,
+  ];
+}
+
+/**
+ * Open a REPEATABLE READ transaction and export its snapshot, so pg_dump and the row counts
+ * see the same data. The transaction stays open until release() is called.
+ */
+async function exportSnapshot(
+  config: BackupConfig
+): Promise<{ snapshot: string; release: () => Promise<void> }> {
+  const proc = Bun.spawn(["psql", "-XAtq", "-v", "ON_ERROR_STOP=1", ...connectionArgs(config)], {
+    stdin: "pipe",
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+  proc.stdin.write("BEGIN ISOLATION LEVEL REPEATABLE READ;\nSELECT pg_export_snapshot();\n");
+  await proc.stdin.flush();
+
+  const reader = proc.stdout.getReader();
+  const decoder = new TextDecoder();
+  let output = "";
+  while (!output.includes("\n")) {
+    const { value, done } = await reader.read();
+    if (done) {
+      const stderr = await new Response(proc.stderr).text();
+      throw new Error(`Could not export a snapshot: ${stderr.trim() || "psql exited"}`);
+    }
+    output += decoder.decode(value);
+  }
+  reader.releaseLock();
+
+  return {
+    snapshot: output.trim(),
+    release: async () => {
+      proc.stdin.write("COMMIT;\n");
+      await proc.stdin.end();
+      await proc.exited;
+    },
+  };
+}
+
+/**
+ * Exact row counts of the dumped database as of the snapshot
+ */
+async function writeRowCountManifest(config: BackupConfig, snapshot: string): Promise<number> {
+  const output = await $`psql -XAtq -v ON_ERROR_STOP=1 ${connectionArgs(config)} \
+    -c ${"BEGIN ISOLATION LEVEL REPEATABLE READ"} \
+    -c ${`SET TRANSACTION SNAPSHOT '${snapshot}'`} \
+    -c ${ROW_COUNT_QUERY} \
+    -c COMMIT`.text();
+
+  const manifest: RowCountManifest = {
+    database: config.database,
+    createdAt: new Date().toISOString(),
+    filtered: config.dump.schemas.length > 0 || config.dump.excludeTables.length > 0,
+    tables: parseRowCounts(output),
+  };
+  await Bun.write(
+    `${config.outputFile}${ROW_COUNT_SUFFIX}`,
+    `${JSON.stringify(manifest, null, 2)}\n`
+  );
+  return manifest.tables.length;
+}
+
 /**
  * Perform the backup operation
  */
 async function performBackup(config: BackupConfig): Promise<void> {
-  info("Creating backup...");
+  info(
+    `Creating ${config.dump.format} backup (compression: ${config.dump.compression.method}${config.dump.jobs > 1 ? `, ${config.dump.jobs} jobs` : ""})...`
+  );
 
+  let session: Awaited<ReturnType<typeof exportSnapshot>> | undefined;
   try {
-    // Run pg_dump and pipe to gzip
-    const result = await $`pg_dump \
-      -h ${config.pgHost} \
-      -p ${config.pgPort.toString()} \
-      -U ${config.pgUser} \
-      -d ${config.database} \
-      --format=plain \
-      --no-owner \
-      --no-acl \
-      --verbose`.quiet();
-
-    // Compress output
-    const compressed = Bun.gzipSync(new Uint8Array(await result.arrayBuffer()));
-    await Bun.write(config.outputFile, compressed);
-  } catch {
+    session = await exportSnapshot(config);
+    await $`pg_dump ${connectionArgs(config)} ${buildPgDumpArgs(config.dump, config.outputFile, session.snapshot)}`.quiet();
+
+    const tables = await writeRowCountManifest(config, session.snapshot);
+    info(`Recorded row counts for ${tables} table(s) in ${config.outputFile}${ROW_COUNT_SUFFIX}`);
+  } catch (err) {
     process.stdout.write("\n");
     error("Backup failed");
-    process.stdout.write("   Check pg_dump output above for details\n");
+    const stderr = (err as { stderr?: Buffer }).stderr?.toString().trim();
+    process.stdout.write(`   ${stderr || getErrorMessage(err)}\n`);
     process.stdout.write("   Common issues:\n");
     process.stdout.write(
       `   - Database does not exist: psql -h ${config.pgHost} -U ${config.pgUser} -l\n`
     );
     process.stdout.write(`   - Insufficient permissions for user ${config.pgUser}\n`);
+    process.stdout.write(
+      "   - zstd/lz4 compression needs pg_dump 16 or newer: pg_dump --version\n"
+    );
     process.stdout.write(`   - Disk space: df -h ${dirname(config.outputFile)}\n`);
 
     // Clean up partial backup
     try {
-      await $`rm -f ${config.outputFile}`.quiet();
+      await $`rm -rf ${config.outputFile} ${`${config.outputFile}${ROW_COUNT_SUFFIX}`}`.quiet();
     } catch {
       // Ignore cleanup errors
     }
 
     process.exit(1);
+  } finally {
+    await session?.release();
   }
 }
 
 /**
- * Verify backup file was created and has content
+ * Remove a broken backup and exit
  */
-async function verifyBackup(outputFile: string): Promise<void> {
-  const file = Bun.file(outputFile);
-  const exists = await file.exists();
-
-  if (!exists) {
-    error("Backup file is empty or was not created");
-    process.stdout.write("   This usually indicates pg_dump failed silently\n");
-    try {
-      await $`rm -f ${outputFile}`.quiet();
-    } catch {
-      // Ignore cleanup errors
-    }
-    process.exit(1);
+async function discardBackup(outputFile: string, reason: string, hint: string): Promise<never> {
+  error(reason);
+  process.stdout.write(`   ${hint}\n`);
+  try {
+    await $`rm -rf ${outputFile} ${`${outputFile}${ROW_COUNT_SUFFIX}`}`.quiet();
+  } catch {
+    // Ignore cleanup errors
   }
+  process.exit(1);
+}
 
-  const size = file.size;
-  if (size === 0) {
-    error("Backup file is empty or was not created");
-    process.stdout.write("   This usually indicates pg_dump failed silently\n");
-    try {
-      await $`rm -f ${outputFile}`.quiet();
-    } catch {
-      // Ignore cleanup errors
+/**
+ * Verify backup file was created, has content and can be read back
+ */
+async function verifyBackup(config: BackupConfig): Promise<void> {
+  const { outputFile, dump } = config;
+
+  if (dump.format === "directory") {
+    if (!existsSync(`${outputFile}/toc.dat`)) {
+      await discardBackup(
+        outputFile,
+        "Backup directory is incomplete (no toc.dat)",
+        "This usually indicates pg_dump failed silently"
+      );
+    }
+  } else {
+    const file = Bun.file(outputFile);
+    if (!(await file.exists()) || file.size === 0) {
+      await discardBackup(
+        outputFile,
+        "Backup file is empty or was not created",
+        "This usually indicates pg_dump failed silently"
+      );
     }
-    process.exit(1);
   }
 
-  // Verify backup is valid gzip
+  // Archives are checked by reading their table of contents, plain dumps by decompressing
   try {
-    await $`gzip -t ${outputFile}`.quiet();
-  } catch {
-    error("Backup file is corrupted (invalid gzip format)");
-    process.stdout.write("   The backup process may have been interrupted\n");
-    try {
-      await $`rm -f ${outputFile}`.quiet();
-    } catch {
-      // Ignore cleanup errors
+    if (dump.format !== "plain") {
+      await $`pg_restore --list ${outputFile}`.quiet();
+    } else if (dump.compression.method !== "none") {
+      const [tool] = DECOMPRESS_COMMANDS[dump.compression.method];
+      await $`${tool} -t ${outputFile}`.quiet();
     }
-    process.exit(1);
+  } catch {
+    await discardBackup(
+      outputFile,
+      `Backup is corrupted (unreadable ${dump.format === "plain" ? `${dump.compression.method} stream` : "archive"})`,
+      "The backup process may have been interrupted"
+    );
   }
 }
 
@@ -235,20 +463,26 @@ async function verifyBackup(outputFile: string): Promise<void> {
  */
 async function showBackupInfo(config: BackupConfig): Promise<void> {
   // Get file size
-  const duResult = await $`du -h ${config.outputFile}`.text();
+  const duResult = await $`du -sh ${config.outputFile}`.text();
   const backupSize = duResult.split("\t")[0];
 
   process.stdout.write("\n");
   success("Backup complete!");
   process.stdout.write(`File: ${config.outputFile}\n`);
   process.stdout.write(`Size: ${backupSize}\n`);
+  process.stdout.write(`Row counts: ${config.outputFile}${ROW_COUNT_SUFFIX}\n`);
   process.stdout.write("\n");
 
   // Show backup contents preview
   process.stdout.write("Backup contains:\n");
   try {
+    const { method } = config.dump.compression;
     const preview =
-      await $`zcat ${config.outputFile} | grep -E "^(CREATE TABLE|CREATE INDEX|CREATE EXTENSION)" | head -20`.text();
+      config.dump.format !== "plain"
+        ? await $`pg_restore --list ${config.outputFile} | grep -E " (TABLE|INDEX|EXTENSION) " | head -20`.text()
+        : method === "none"
+          ? await $`grep -E "^(CREATE TABLE|CREATE INDEX|CREATE EXTENSION)" ${config.outputFile} | head -20`.text()
+          : await $`${DECOMPRESS_COMMANDS[method]} ${config.outputFile} | grep -E "^(CREATE TABLE|CREATE INDEX|CREATE EXTENSION)" | head -20`.text();
     process.stdout.write(preview);
   } catch {
     process.stdout.write("(no tables/indexes/extensions found)\n");
@@ -256,7 +490,7 @@ async function showBackupInfo(config: BackupConfig): Promise<void> {
   process.stdout.write("...\n");
   process.stdout.write("\n");
   process.stdout.write(
-    `To restore: gunzip -c ${config.outputFile} | psql -h HOST -U USER -d DATABASE\n`
+    `To restore: bun scripts/tools/restore-postgres.ts ${config.outputFile} DATABASE${config.dump.format === "directory" ? " --jobs 4" : ""}\n`
   );
 }
 
@@ -264,10 +498,10 @@ async function showBackupInfo(config: BackupConfig): Promise<void> {
  * Main function
  */
 async function main(): Promise<void> {
-  await checkRequiredCommands();
-
   const config = parseConfig();
 
+  await checkRequiredCommands(config.dump);
+
   checkPgPassword(config);
   await checkOutputDirectory(config.outputFile);
   await checkFileExists(config.outputFile);
@@ -278,7 +512,14 @@ async function main(): Promise<void> {
   process.stdout.write(`Database: ${config.database}\n`);
   process.stdout.write(`Host: ${config.pgHost}:${config.pgPort}\n`);
   process.stdout.write(`User: ${config.pgUser}\n`);
+  process.stdout.write(`Format: ${config.dump.format}\n`);
   process.stdout.write(`Output: ${config.outputFile}\n`);
+  if (config.dump.schemas.length > 0) {
+    process.stdout.write(`Schemas: ${config.dump.schemas.join(", ")}\n`);
+  }
+  if (config.dump.excludeTables.length > 0) {
+    process.stdout.write(`Excluded tables: ${config.dump.excludeTables.join(", ")}\n`);
+  }
   process.stdout.write("\n");
 
   // Check PostgreSQL is accessible
@@ -303,7 +544,7 @@ async function main(): Promise<void> {
   process.stdout.write("\n");
 
   await performBackup(config);
-  await verifyBackup(config.outputFile);
+  await verifyBackup(config);
   await showBackupInfo(config);
 }
 
@@ -0,0 +1,544 @@
+#!/usr/bin/env bun
+/**
+ * Pause, resume and fast-forward a delayed replica, then promote it or extract data from it
+ *
+ * USAGE:
+ *   bun scripts/tools/delayed-replica.ts --container NAME [ACTION] [OPTIONS]
+ *
+ * OPTIONS:
+ *   --container NAME        Delayed replica container (required)
+ *   --status                Show the apply delay and replay position (default action)
+ *   --pause                 Stop replaying WAL; the replica keeps receiving it
+ *   --resume                Drop a --replay-until target, restore the apply delay from the
+ *                           container's REPLICA_APPLY_DELAY and replay again
+ *   --replay-until TIME     Replay everything committed before TIME, then pause
+ *                           ('YYYY-MM-DD HH:MM:SS+00'; a UTC offset is required)
+ *   --promote               Promote the replica where --replay-until paused it (needs --yes)
+ *   --extract FILE          Dump --tables from the paused replica to FILE (plain SQL)
+ *   --tables LIST           Tables for --extract, comma-separated (schema.table; default schema public)
+ *   --database NAME         Database for --extract (default: postgres)
+ *   --timeout SECONDS       Time allowed to reach the target or to dump (default: 3600)
+ *   --yes                   Confirm --promote
+ *   -h, --help              Show this help message
+ *
+ * DESCRIPTION:
+ *   A replica created with REPLICA_APPLY_DELAY (stacks/replica) applies each transaction that
+ *   long after it commits on the primary, so a destructive change can be stopped before it
+ *   reaches this copy:
+ *   1. --pause as soon as the change is noticed (within the delay)
+ *   2. --replay-until a time just before the change: the delay is lifted, the replica restarts
+ *      with recovery_target_time and pauses before the first transaction committed at or
+ *      after TIME
+ *   3. Either --extract the lost rows and load them into the primary, or --promote the
+ *      replica as the new primary
+ *   4. After --extract, --resume puts the replica back to following the primary with its delay
+ *
+ *   The delay and the recovery target live in postgresql.auto.conf (ALTER SYSTEM). --resume is
+ *   also how a changed REPLICA_APPLY_DELAY reaches an existing replica.
+ *
+ * EXAMPLES:
+ *   # Replay position and delay
+ *   bun scripts/tools/delayed-replica.ts --container aza-pg-delayed-postgres-replica
+ *
+ *   # A migration dropped a table at 14:03 UTC: stop replay, then replay up to 14:02
+ *   bun scripts/tools/delayed-replica.ts --container aza-pg-delayed-postgres-replica --pause
+ *   bun scripts/tools/delayed-replica.ts --container aza-pg-delayed-postgres-replica \
+ *     --replay-until '2026-10-18 14:02:00+00'
+ *
+ *   # Save the table, then follow the primary again
+ *   bun scripts/tools/delayed-replica.ts --container aza-pg-delayed-postgres-replica \
+ *     --extract orders.sql --tables orders
+ *   bun scripts/tools/delayed-replica.ts --container aza-pg-delayed-postgres-replica --resume
+ *
+ *   # Or make the replica the new primary
+ *   bun scripts/tools/delayed-replica.ts --container aza-pg-delayed-postgres-replica --promote --yes
+ *
+ * PREREQUISITES:
+ *   - Docker installed and running, with the replica container running
+ *   - PostgreSQL 14+ (pause state and promotion while paused)
+ *
+ * WARNINGS:
+ *   - Replay never goes backwards: once the change is replayed, only a backup restore
+ *     (restore-postgres.ts --pitr) can go back
+ *   - --promote refuses unless --replay-until paused the replica: promoting a delayed replica
+ *     otherwise replays all WAL it has received, including the change the delay held back
+ *   - Stop writes to the old primary before promoting; then drop this replica's slot there
+ *   - While paused, the replica keeps receiving WAL and its slot keeps WAL on the primary
+ *
+ * EXIT CODES:
+ *   0 - Action completed
+ *   1 - Invalid arguments, wrong replica state or a failed step
+ */
+
+import { getErrorMessage } from "../utils/errors";
+import { checkCommand, checkDockerDaemon } from "../utils/docker";
+import { error, info, section, success, warning } from "../utils/logger";
+import { parseTableList } from "./logical-plan";
+import {
+  REPLAY_STATUS_QUERY,
+  buildFollowSql,
+  buildReplayUntilSql,
+  formatDelay,
+  parseApplyDelay,
+  parseReplayStatus,
+  type ApplyDelay,
+  type ReplayStatus,
+} from "./replay-plan";
+import { formatEpoch, parseRecoveryTargetTime, type RecoveryTarget } from "./restore-pitr";
+
+type Action = "status" | "pause" | "resume" | "replay-until" | "promote" | "extract";
+
+interface DelayedReplicaConfig {
+  action: Action;
+  container: string;
+  target?: RecoveryTarget;
+  extractFile: string;
+  tables: string[];
+  database: string;
+  timeoutSeconds: number;
+  yes: boolean;
+}
+
+/** Time allowed for the replica to accept connections after a restart */
+const READY_TIMEOUT_SECONDS = 120;
+
+function printHelp(): void {
+  process.stdout.write(`
+Pause, resume and fast-forward a delayed replica, then promote it or extract data from it
+
+USAGE:
+  bun scripts/tools/delayed-replica.ts --container NAME [ACTION] [OPTIONS]
+
+OPTIONS:
+  --container NAME        Delayed replica container (required)
+  --status                Show the apply delay and replay position (default action)
+  --pause                 Stop replaying WAL; the replica keeps receiving it
+  --resume                Drop a --replay-until target, restore the apply delay from the
+                          container's REPLICA_APPLY_DELAY and replay again
+  --replay-until TIME     Replay everything committed before TIME, then pause
+                          ('YYYY-MM-DD HH:MM:SS+00'; a UTC offset is required)
+  --promote               Promote the replica where --replay-until paused it (needs --yes)
+  --extract FILE          Dump --tables from the paused replica to FILE (plain SQL)
+  --tables LIST           Tables for --extract, comma-separated (schema.table; default schema public)
+  --database NAME         Database for --extract (default: postgres)
+  --timeout SECONDS       Time allowed to reach the target or to dump (default: 3600)
+  --yes                   Confirm --promote
+  -h, --help              Show this help message
+
+EXAMPLES:
+  # Replay position and delay
+  bun scripts/tools/delayed-replica.ts --container aza-pg-delayed-postgres-replica
+
+  # A migration dropped a table at 14:03 UTC: stop replay, then replay up to 14:02
+  bun scripts/tools/delayed-replica.ts --container aza-pg-delayed-postgres-replica --pause
+  bun scripts/tools/delayed-replica.ts --container aza-pg-delayed-postgres-replica \\
+    --replay-until '2026-10-18 14:02:00+00'
+
+  # Save the table, then follow the primary again
+  bun scripts/tools/delayed-replica.ts --container aza-pg-delayed-postgres-replica \\
+    --extract orders.sql --tables orders
+  bun scripts/tools/delayed-replica.ts --container aza-pg-delayed-postgres-replica --resume
+
+  # Or make the replica the new primary
+  bun scripts/tools/delayed-replica.ts --container aza-pg-delayed-postgres-replica --promote --yes
+`);
+  process.exit(0);
+}
+
+function parseArgs(): DelayedReplicaConfig {
+  const args = Bun.argv.slice(2);
+  const config: DelayedReplicaConfig = {
+    action: "status",
+    container: "",
+    extractFile: "",
+    tables: [],
+    database: "postgres",
+    timeoutSeconds: 3600,
+    yes: false,
+  };
+  const actions = new Set<Action>();
+
+  const requireValue = (option: string, index: number): string => {
+    const value = args[index];
+    if (value === undefined || value === "") {
+      error(`Missing value for ${option} option`);
+      process.exit(1);
+    }
+    return value;
+  };
+
+  const parsed = <T>(parse: () => T): T => {
+    try {
+      return parse();
+    } catch (err) {
+      error(getErrorMessage(err));
+      process.exit(1);
+    }
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case "--container":
+        config.container = requireValue(arg, ++i);
+        break;
+
+      case "--status":
+      case "--pause":
+      case "--resume":
+      case "--promote":
+        actions.add(arg.slice(2) as Action);
+        break;
+
+      case "--replay-until": {
+        const value = requireValue(arg, ++i);
+        config.target = parsed(() => parseRecoveryTargetTime(value));
+        actions.add("replay-until");
+        break;
+      }
+
+      case "--extract":
+        config.extractFile = requireValue(arg, ++i);
+        actions.add("extract");
+        break;
+
+      case "--tables": {
+        const value = requireValue(arg, ++i);
+        config.tables = parsed(() => parseTableList(value));
+        break;
+      }
+
+      case "--database": {
+        const value = requireValue(arg, ++i);
+        if (!/^[A-Za-z0-9_]+$/.test(value)) {
+          error(`Invalid --database: ${value}`);
+          process.exit(1);
+        }
+        config.database = value;
+        break;
+      }
+
+      case "--timeout": {
+        const value = requireValue(arg, ++i);
+        config.timeoutSeconds = Number(value);
+        if (!Number.isInteger(config.timeoutSeconds) || config.timeoutSeconds < 1) {
+          error(`Invalid --timeout: ${value}`);
+          process.exit(1);
+        }
+        break;
+      }
+
+      case "--yes":
+        config.yes = true;
+        break;
+
+      case "-h":
+      case "--help":
+        printHelp();
+        break;
+
+      default:
+        error(`Unknown option: ${arg}. Use -h for help.`);
+        process.exit(1);
+    }
+  }
+
+  if (actions.size > 1) {
+    error("Use only one of --status, --pause, --resume, --replay-until, --promote and --extract");
+    process.exit(1);
+  }
+  config.action = [...actions][0] ?? "status";
+
+  if (!config.container) {
+    error("--container is required. Use -h for help.");
+    process.exit(1);
+  }
+  if (config.action === "extract" && config.tables.length === 0) {
+    error("--tables is required with --extract. Use -h for help.");
+    process.exit(1);
+  }
+  if (config.action === "promote" && !config.yes) {
+    error("Promotion cannot be undone: pass --yes to confirm");
+    process.exit(1);
+  }
+
+  return config;
+}
+
+/**
+ * Run a docker command with a time limit; stderr is folded into the output on failure
+ */
+async function docker(args: string[], timeoutMs: number): Promise<{ ok: boolean; output: string }> {
+  const proc = Bun.spawn(["docker", ...args], {
+    stdout: "pipe",
+    stderr: "pipe",
+    timeout: timeoutMs,
+  });
+  const [stdout, stderr] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+  ]);
+  const exitCode = await proc.exited;
+  if (proc.signalCode) {
+    return { ok: false, output: `timed out after ${timeoutMs / 1000}s` };
+  }
+  return {
+    ok: exitCode === 0,
+    output: exitCode === 0 ? stdout.trim() : `${stderr.trim()}\n${stdout.trim()}`.trim(),
+  };
+}
+
+async function psql(container: string, sql: string): Promise<string> {
+  const result = await docker(
+    ["exec", container, "psql", "-U", "postgres", "-d", "postgres", "-v", "ON_ERROR_STOP=1"].concat(
+      ["-tAc", sql]
+    ),
+    60_000
+  );
+  if (!result.ok) {
+    throw new Error(`Query on ${container} failed: ${result.output}`);
+  }
+  return result.output;
+}
+
+async function replayStatus(container: string): Promise<ReplayStatus> {
+  return parseReplayStatus(await psql(container, REPLAY_STATUS_QUERY));
+}
+
+/**
+ * The standing apply delay: the container's REPLICA_APPLY_DELAY (unset or empty means none)
+ */
+async function configuredDelay(container: string): Promise<ApplyDelay | undefined> {
+  const result = await docker(["exec", container, "printenv", "REPLICA_APPLY_DELAY"], 30_000);
+  return result.ok && result.output !== "" ? parseApplyDelay(result.output) : undefined;
+}
+
+function describeCommit(epoch: number | undefined): string {
+  if (epoch === undefined) {
+    return "none yet";
+  }
+  const seconds = Math.max(0, Math.round(Date.now() / 1000 - epoch));
+  const ago = seconds >= 120 ? `${Math.round(seconds / 60)} min` : `${seconds}s`;
+  return `${formatEpoch(epoch)} (${ago} ago)`;
+}
+
+function printStatus(status: ReplayStatus): void {
+  info(`  Role:              ${status.inRecovery ? "replica (in recovery)" : "primary"}`);
+  if (!status.inRecovery) {
+    return;
+  }
+  info(`  Apply delay:       ${formatDelay(status.applyDelayMs)}`);
+  info(
+    `  Replay:            ${status.pauseState === "not paused" ? "running" : status.pauseState}`
+  );
+  info(`  Last replayed:     ${describeCommit(status.lastReplayEpoch)}`);
+  info(`  Received, pending: ${status.pendingBytes ?? 0} bytes`);
+  if (status.targetTime) {
+    info(`  Recovery target:   ${status.targetTime}`);
+  }
+}
+
+async function requireReplica(config: DelayedReplicaConfig): Promise<ReplayStatus> {
+  const status = await replayStatus(config.container);
+  if (!status.inRecovery) {
+    throw new Error(`${config.container} is not in recovery (already promoted?)`);
+  }
+  return status;
+}
+
+async function restart(config: DelayedReplicaConfig): Promise<void> {
+  info(`Restarting ${config.container}...`);
+  const result = await docker(["restart", "-t", "60", config.container], 120_000);
+  if (!result.ok) {
+    throw new Error(`Restarting ${config.container} failed: ${result.output}`);
+  }
+  for (let waited = 0; waited < READY_TIMEOUT_SECONDS; waited += 2) {
+    const ready = await docker(["exec", config.container, "pg_isready", "-U", "postgres"], 10_000);
+    if (ready.ok) {
+      return;
+    }
+    await Bun.sleep(2000);
+  }
+  throw new Error(
+    `${config.container} did not accept connections within ${READY_TIMEOUT_SECONDS}s`
+  );
+}
+
+async function showStatus(config: DelayedReplicaConfig): Promise<void> {
+  section(`Replay on ${config.container}`);
+  printStatus(await replayStatus(config.container));
+}
+
+async function pauseReplay(config: DelayedReplicaConfig): Promise<void> {
+  await requireReplica(config);
+  await psql(config.container, "SELECT pg_wal_replay_pause()");
+  const status = await replayStatus(config.container);
+  // "pause requested" while waiting out the delay: nothing more is applied either way
+  success(`Replay ${status.pauseState} on ${config.container}`);
+  printStatus(status);
+}
+
+async function resumeReplay(config: DelayedReplicaConfig): Promise<void> {
+  const status = await requireReplica(config);
+  const delay = await configuredDelay(config.container);
+  for (const sql of buildFollowSql(delay)) {
+    await psql(config.container, sql);
+  }
+
+  if (status.targetTime) {
+    // Resuming at a recovery target would end recovery and promote; a restart drops the target
+    await restart(config);
+  } else {
+    await psql(config.container, "SELECT pg_reload_conf()");
+    if (status.pauseState !== "not paused") {
+      await psql(config.container, "SELECT pg_wal_replay_resume()");
+    }
+  }
+  success(
+    `${config.container} follows the primary again (apply delay ${delay ? delay.value : "none"})`
+  );
+  printStatus(await replayStatus(config.container));
+}
+
+async function replayUntil(config: DelayedReplicaConfig, target: RecoveryTarget): Promise<void> {
+  section(`Replay until ${target.value}`);
+  const statements = buildReplayUntilSql(target, await requireReplica(config), Date.now() / 1000);
+  for (const sql of statements) {
+    await psql(config.container, sql);
+  }
+  await restart(config);
+
+  // Replay pauses at the first commit at or after the target. If none has been received yet,
+  // everything received is older than the target: pause there once the replica is caught up.
+  let caughtUp = false;
+  for (let waited = 0; waited < config.timeoutSeconds; waited += 2) {
+    const status = await replayStatus(config.container);
+    if (status.pauseState === "paused") {
+      success(
+        `Paused at the target; every transaction committed before ${target.value} is applied`
+      );
+      printStatus(status);
+      return;
+    }
+    const streaming = await psql(
+      config.container,
+      "SELECT count(*) FROM pg_stat_wal_receiver WHERE status = 'streaming'"
+    );
+    if (streaming === "1" && status.pendingBytes === 0) {
+      if (caughtUp) {
+        await psql(config.container, "SELECT pg_wal_replay_pause()");
+        success(
+          `Replayed all WAL received so far (nothing committed between the last replayed commit and ${target.value}); replay paused`
+        );
+        printStatus(await replayStatus(config.container));
+        return;
+      }
+      caughtUp = true;
+    } else {
+      caughtUp = false;
+    }
+    await Bun.sleep(2000);
+  }
+  throw new Error(
+    `Replay did not reach ${target.value} within ${config.timeoutSeconds}s; it keeps replaying toward the target (check --status)`
+  );
+}
+
+async function promote(config: DelayedReplicaConfig): Promise<void> {
+  const status = await requireReplica(config);
+  if (!status.targetTime || status.pauseState !== "paused") {
+    throw new Error(
+      "Replay is not paused at a --replay-until target; promoting now would replay every WAL record already received"
+    );
+  }
+
+  section(`Promote ${config.container}`);
+  const promoted = await psql(config.container, "SELECT pg_promote(true, 60)");
+  if (promoted !== "t") {
+    throw new Error(`${config.container} did not finish promotion within 60s; check its logs`);
+  }
+  // Leftover recovery settings would apply again if the server is ever rejoined as a replica
+  for (const sql of buildFollowSql(undefined)) {
+    await psql(config.container, sql);
+  }
+  await psql(config.container, "SELECT pg_reload_conf()");
+
+  success(`${config.container} is a primary at ${describeCommit(status.lastReplayEpoch)}`);
+  warning("Stop writes to the old primary, then repoint clients or PgBouncer at this server");
+  info(
+    "Its slot on the old primary still keeps WAL: drop it with replication-slots.ts --keep ... --prune"
+  );
+}
+
+async function extract(config: DelayedReplicaConfig): Promise<void> {
+  const status = await requireReplica(config);
+  if (status.pauseState === "not paused") {
+    throw new Error(
+      "Replay is running; --pause or --replay-until first so the change cannot arrive"
+    );
+  }
+
+  section(`Extract ${config.tables.join(", ")}`);
+  const proc = Bun.spawn(
+    ["docker", "exec", config.container, "pg_dump", "-U", "postgres", "-d", config.database].concat(
+      ["--no-owner", "--no-privileges", ...config.tables.flatMap((table) => ["-t", table])]
+    ),
+    {
+      stdout: Bun.file(config.extractFile),
+      stderr: "pipe",
+      timeout: config.timeoutSeconds * 1000,
+    }
+  );
+  const stderr = await new Response(proc.stderr).text();
+  const exitCode = await proc.exited;
+  if (proc.signalCode || exitCode !== 0) {
+    throw new Error(
+      `pg_dump on ${config.container} failed: ${proc.signalCode ? `timed out after ${config.timeoutSeconds}s` : stderr.trim()}`
+    );
+  }
+  success(
+    `Wrote ${config.extractFile} (${Bun.file(config.extractFile).size} bytes) as of ${describeCommit(status.lastReplayEpoch)}`
+  );
+  info("Load it into a scratch database and copy the rows back; --resume when done");
+}
+
+async function main(): Promise<void> {
+  const config = parseArgs();
+
+  await checkCommand("docker");
+  await checkDockerDaemon();
+
+  switch (config.action) {
+    case "status":
+      await showStatus(config);
+      return;
+
+    case "pause":
+      await pauseReplay(config);
+      return;
+
+    case "resume":
+      await resumeReplay(config);
+      return;
+
+    case "replay-until":
+      await replayUntil(config, config.target!);
+      return;
+
+    case "promote":
+      await promote(config);
+      return;
+
+    case "extract":
+      await extract(config);
+      return;
+  }
+}
+
+if (import.meta.main) {
+  main().catch((err) => {
+    error(getErrorMessage(err));
+    process.exit(1);
+  });
+}
@@ -0,0 +1,578 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  autovacuumThresholds,
+  buildReport,
+  checkAutoConfig,
+  checkAutovacuum,
+  checkBloat,
+  checkDuplicateIndexes,
+  checkReplicationSlots,
+  checkTopStatements,
+  checkUnusedIndexes,
+  checkWraparound,
+  detectResources,
+  estimateIndexBloat,
+  estimateTableBloat,
+  formatReport,
+  indexAdvisorQuery,
+  parseContainerResources,
+  parseIndexAdvice,
+  parseSettings,
+  parseTables,
+  settingToMB,
+  topStatementsQuery,
+  type ContainerResources,
+  type IndexStats,
+  type ServerSettings,
+  type TableStats,
+  type TopStatement,
+} from "./doctor-checks";
+
+const NOW = 1_800_000_000;
+const DAY = 86400;
+const GiB = 1024 * 1024 * 1024;
+
+/** Settings of a server auto-configured for 2 GiB and 2 CPUs (mixed, ssd) */
+function settings(overrides: Partial<ServerSettings> = {}): ServerSettings {
+  const values: Record<string, [string, string | null]> = {
+    autovacuum: ["on", null],
+    autovacuum_vacuum_threshold: ["50", null],
+    autovacuum_vacuum_scale_factor: ["0.2", null],
+    autovacuum_vacuum_max_threshold: ["100000000", null],
+    autovacuum_analyze_threshold: ["50", null],
+    autovacuum_analyze_scale_factor: ["0.1", null],
+    autovacuum_freeze_max_age: ["200000000", null],
+    max_slot_wal_keep_size: ["-1", "MB"],
+    block_size: ["8192", null],
+    shared_buffers: ["65536", "8kB"],
+    effective_cache_size: ["131072", "8kB"],
+    maintenance_work_mem: ["131072", "kB"],
+    work_mem: ["1024", "kB"],
+    max_connections: ["84", null],
+    io_workers: ["1", null],
+    max_parallel_workers: ["2", null],
+  };
+  return {
+    settings: Object.fromEntries(
+      Object.entries(values).map(([name, [setting, unit]]) => [name, { setting, unit }])
+    ),
+    aza: {
+      workload_type: "mixed",
+      storage_type: "ssd",
+      ram_mb: "2048",
+      ram_source: "cgroup-v2",
+      cpu_cores: "2",
+      cpu_source: "cgroup-v2",
+    },
+    serverVersion: "18.1",
+    inRecovery: false,
+    now: NOW,
+    statsReset: NOW - 30 * DAY,
+    extensions: ["pg_stat_statements"],
+    ...overrides,
+  };
+}
+
+function table(overrides: Partial<TableStats> = {}): TableStats {
+  return {
+    schema: "public",
+    name: "orders",
+    pages: 1000,
+    tuples: 100000,
+    columns: 4,
+    fillfactor: 100,
+    rowWidth: 36,
+    nullableColumns: 0,
+    deadTuples: 0,
+    modifiedSinceAnalyze: 0,
+    lastVacuum: NOW - DAY,
+    lastAnalyze: NOW - DAY,
+    xidAge: 1000,
+    reloptions: null,
+    ...overrides,
+  };
+}
+
+function index(overrides: Partial<IndexStats> = {}): IndexStats {
+  return {
+    schema: "public",
+    table: "orders",
+    name: "orders_customer_id_idx",
+    method: "btree",
+    unique: false,
+    primary: false,
+    constraint: false,
+    valid: true,
+    pages: 300,
+    tuples: 100000,
+    sizeBytes: 300 * 8192,
+    scans: 10,
+    fillfactor: 90,
+    keyWidth: 8,
+    keyColumns: 1,
+    columns: "2",
+    opclasses: "3124",
+    collations: "0",
+    options: "0",
+    expressions: null,
+    predicate: null,
+    definition: "CREATE INDEX orders_customer_id_idx ON public.orders USING btree (customer_id)",
+    ...overrides,
+  };
+}
+
+function statement(overrides: Partial<TopStatement> = {}): TopStatement {
+  return {
+    queryId: "42",
+    database: "postgres",
+    role: "app",
+    query: "SELECT * FROM orders WHERE customer_id = $1",
+    calls: 1000,
+    totalMs: 5000,
+    meanMs: 5,
+    rows: 1000,
+    sharedHit: 990,
+    sharedRead: 10,
+    tempWritten: 0,
+    percent: 40,
+    ...overrides,
+  };
+}
+
+const LIMITED: ContainerResources = {
+  memoryMaxBytes: 2 * GiB,
+  cpuQuota: 200000,
+  cpuPeriod: 100000,
+  memTotalKB: 16 * 1024 * 1024,
+  nproc: 8,
+};
+
+describe("queries and parsers", () => {
+  test("parseSettings fills defaults and rejects other output", () => {
+    const parsed = parseSettings(JSON.stringify({ serverVersion: "18.1", now: NOW }));
+    expect(parsed).toMatchObject({ inRecovery: false, statsReset: null, extensions: [] });
+    expect(() => parseSettings("ERROR")).toThrow("Unexpected settings output");
+    expect(() => parseSettings("{}")).toThrow("missing serverVersion");
+  });
+
+  test("row parsers need a JSON array", () => {
+    expect(parseTables(JSON.stringify([table()]))).toHaveLength(1);
+    expect(() => parseTables("{}")).toThrow("expected a JSON array");
+  });
+
+  test("topStatementsQuery clamps the limit", () => {
+    expect(topStatementsQuery(5)).toContain("LIMIT 5");
+    expect(topStatementsQuery(0)).toContain("LIMIT 1");
+  });
+
+  test("index_advisor only plans SELECTs of the current database", () => {
+    expect(indexAdvisorQuery(statement(), "postgres")).toContain(
+      "index_advisor($doctor$SELECT * FROM orders WHERE customer_id = $1$doctor$)"
+    );
+    expect(indexAdvisorQuery(statement({ database: "app" }), "postgres")).toBeNull();
+    expect(
+      indexAdvisorQuery(statement({ query: "UPDATE orders SET x = $1" }), "postgres")
+    ).toBeNull();
+    expect(indexAdvisorQuery(statement({ query: "SELECT $doctor$" }), "postgres")).toBeNull();
+  });
+
+  test("parseIndexAdvice collects distinct statements", () => {
+    const output = JSON.stringify([
+      { statements: ["CREATE INDEX ON public.orders USING btree (customer_id)"], errors: [] },
+      { statements: null, errors: ["cannot plan"] },
+    ]);
+    expect(parseIndexAdvice(output)).toEqual([
+      "CREATE INDEX ON public.orders USING btree (customer_id)",
+    ]);
+  });
+});
+
+describe("resources", () => {
+  test("parses cgroup v2 limits", () => {
+    const resources = parseContainerResources(
+      "memory_max=2147483648\ncpu_max=150000 100000\nmem_total_kb=16384000\nnproc=8\n"
+    );
+    expect(resources).toEqual({
+      memoryMaxBytes: 2 * GiB,
+      cpuQuota: 150000,
+      cpuPeriod: 100000,
+      memTotalKB: 16384000,
+      nproc: 8,
+    });
+    expect(detectResources(resources)).toEqual({
+      ramMB: 2048,
+      ramSource: "cgroup-v2",
+      cpuCores: 2,
+      cpuSource: "cgroup-v2",
+    });
+  });
+
+  test("falls back to meminfo and nproc without limits, like the entrypoint", () => {
+    const resources = parseContainerResources(
+      "memory_max=max\ncpu_max=max 100000\nmem_total_kb=8388608\nnproc=256"
+    );
+    expect(detectResources(resources)).toEqual({
+      ramMB: 8192,
+      ramSource: "meminfo",
+      cpuCores: 128,
+      cpuSource: "nproc",
+    });
+  });
+
+  test("settingToMB follows the pg_settings unit", () => {
+    expect(settingToMB("16384", "8kB")).toBe(128);
+    expect(settingToMB("4096", "kB")).toBe(4);
+    expect(settingToMB("512", "MB")).toBe(512);
+  });
+});
+
+describe("bloat", () => {
+  test("estimates a compact table as not bloated", () => {
+    // 24-byte header + 40-byte row + line pointer: 120 rows per page
+    const estimate = estimateTableBloat(table({ pages: 834, tuples: 100000 }));
+    expect(estimate?.expectedPages).toBe(834);
+    expect(estimate?.wastedBytes).toBe(0);
+  });
+
+  test("estimates wasted space and skips tables without statistics", () => {
+    const estimate = estimateTableBloat(table({ pages: 20000, tuples: 100000 }))!;
+    expect(estimate.wastedBytes).toBe((20000 - 834) * 8192);
+    expect(estimate.ratio).toBeCloseTo(0.958, 2);
+    expect(estimateTableBloat(table({ rowWidth: null }))).toBeNull();
+    expect(estimateTableBloat(table({ tuples: -1 }))).toBeNull();
+  });
+
+  test("estimates B-tree indexes only", () => {
+    // 8-byte header + 8-byte key + line pointer, 90% fillfactor: 366 per page, plus the metapage
+    expect(estimateIndexBloat(index())?.expectedPages).toBe(275);
+    expect(estimateIndexBloat(index({ method: "gin" }))).toBeNull();
+    expect(estimateIndexBloat(index({ expressions: "lower(email)" }))).toBeNull();
+  });
+
+  test("reports relations over the size and ratio thresholds", () => {
+    const result = checkBloat(
+      settings(),
+      [table({ pages: 200000 }), table({ name: "small", pages: 2000 })],
+      [index({ pages: 100000 })]
+    );
+    expect(result.findings.map((f) => [f.severity, f.subject])).toEqual([
+      ["warning", "public.orders"],
+      ["info", "public.orders_customer_id_idx"],
+    ]);
+    expect(result.findings[0]?.recommendation).toContain("pg_repack");
+    expect(result.findings[1]?.recommendation).toBe(
+      'REINDEX INDEX CONCURRENTLY "public"."orders_customer_id_idx"'
+    );
+  });
+});
+
+describe("indexes", () => {
+  test("reports large unused indexes that back no constraint", () => {
+    const result = checkUnusedIndexes(settings({ statsReset: NOW - 2 * DAY }), [
+      index({ scans: 0, sizeBytes: 200 * 1024 * 1024 }),
+      index({ name: "small_idx", scans: 0, sizeBytes: 2 * 1024 * 1024 }),
+      index({ name: "tiny_idx", scans: 0, sizeBytes: 8192 }),
+      index({ name: "orders_pkey", scans: 0, unique: true, constraint: true }),
+      index({ name: "used_idx", scans: 5 }),
+    ]);
+    expect(result.findings.map((f) => [f.severity, f.subject])).toEqual([
+      ["warning", "public.orders_customer_id_idx"],
+      ["info", "public.small_idx"],
+    ]);
+    expect(result.findings[0]?.recommendation).toBe(
+      'DROP INDEX CONCURRENTLY "public"."orders_customer_id_idx"'
+    );
+    expect(result.summary).toContain("statistics reset 2d ago");
+    expect(result.summary).toContain("scans on replicas not counted");
+  });
+
+  test("keeps the constraint index among exact duplicates", () => {
+    const result = checkDuplicateIndexes([
+      index({ name: "orders_customer_id_idx", scans: 500 }),
+      index({ name: "orders_customer_id_key", unique: true, constraint: true, scans: 0 }),
+      index({ name: "orders_customer_id_idx1", unique: true, scans: 0 }),
+    ]);
+    expect(result.findings.map((f) => f.subject)).toEqual([
+      "public.orders_customer_id_idx1",
+      "public.orders_customer_id_idx",
+    ]);
+    expect(
+      result.findings.every((f) =>
+        f.message.startsWith("Same definition as orders_customer_id_key")
+      )
+    ).toBe(true);
+  });
+
+  test("reports a B-tree covered by another index's leading columns", () => {
+    const result = checkDuplicateIndexes([
+      index(),
+      index({
+        name: "orders_customer_id_created_idx",
+        keyColumns: 2,
+        columns: "2 3",
+        opclasses: "3124 3128",
+        collations: "0 0",
+        options: "0 0",
+      }),
+      index({ name: "orders_created_idx", columns: "3", opclasses: "3128" }),
+      index({ name: "orders_customer_id_desc_idx", options: "3" }),
+    ]);
+    expect(result.findings).toHaveLength(1);
+    expect(result.findings[0]).toMatchObject({
+      severity: "info",
+      subject: "public.orders_customer_id_idx",
+    });
+    expect(result.summary).toBe("0 exact duplicates, 1 prefixes of another index");
+  });
+});
+
+describe("autovacuum", () => {
+  test("applies scale factor, max threshold and reloptions", () => {
+    expect(autovacuumThresholds(settings(), table()).vacuum).toBe(20050);
+    expect(autovacuumThresholds(settings(), table({ tuples: 1e10 })).vacuum).toBe(100000000);
+    expect(
+      autovacuumThresholds(
+        settings(),
+        table({
+          reloptions: { autovacuum_vacuum_scale_factor: "0.01", autovacuum_enabled: "false" },
+        })
+      )
+    ).toEqual({ vacuum: 1050, analyze: 10050, enabled: false });
+  });
+
+  test("grades dead tuples against the threshold", () => {
+    const result = checkAutovacuum(settings(), [
+      table({ name: "warned", deadTuples: 50000 }),
+      table({ name: "critical", deadTuples: 300000, lastVacuum: null }),
+      table({ name: "healthy", deadTuples: 15000 }),
+      table({ name: "stale", modifiedSinceAnalyze: 40000 }),
+    ]);
+    expect(result.findings.map((f) => [f.severity, f.subject])).toEqual([
+      ["warning", "public.warned"],
+      ["critical", "public.critical"],
+      ["info", "public.stale"],
+    ]);
+    expect(result.findings[1]?.message).toContain("never vacuumed");
+    expect(result.summary).toBe("2 of 4 tables behind on vacuum");
+  });
+
+  test("points at a table with autovacuum disabled", () => {
+    const result = checkAutovacuum(settings(), [
+      table({ deadTuples: 50000, reloptions: { autovacuum_enabled: "false" } }),
+    ]);
+    expect(result.findings[0]?.recommendation).toBe(
+      'ALTER TABLE "public"."orders" RESET (autovacuum_enabled)'
+    );
+  });
+
+  test("autovacuum off server-wide is critical", () => {
+    const off = settings();
+    off.settings.autovacuum = { setting: "off", unit: null };
+    expect(checkAutovacuum(off, []).findings[0]?.severity).toBe("critical");
+  });
+});
+
+describe("wraparound", () => {
+  test("grades the distance to wraparound and lists the oldest tables", () => {
+    const result = checkWraparound(
+      settings(),
+      [
+        { name: "postgres", xidAge: 1_200_000_000, mxidAge: 10 },
+        { name: "app", xidAge: 10, mxidAge: 1_700_000_000 },
+        { name: "template1", xidAge: 1000, mxidAge: 0 },
+      ],
+      [table({ name: "old", xidAge: 1_200_000_000 }), table({ xidAge: 5000 })],
+      "postgres"
+    );
+    expect(result.findings.map((f) => [f.severity, f.subject])).toEqual([
+      ["warning", "postgres"],
+      ["critical", "app"],
+    ]);
+    expect(result.findings[0]?.recommendation).toContain("Oldest tables: public.old (1.2B)");
+    expect(result.findings[1]?.message).toContain("Oldest multixact");
+    expect(result.findings[1]?.recommendation).not.toContain("Oldest tables");
+    expect(result.summary).toContain("79% of the limit");
+  });
+});
+
+describe("replication slots", () => {
+  test("grades slots by activity and retained WAL", () => {
+    const slot = {
+      type: "physical" as const,
+      walStatus: "reserved",
+      inactiveSince: null,
+      xminAge: null,
+    };
+    const result = checkReplicationSlots(settings(), [
+      { ...slot, name: "r1", active: true, retainedBytes: 1024 },
+      { ...slot, name: "r2", active: false, retainedBytes: 2 * GiB, inactiveSince: NOW - 3 * DAY },
+      { ...slot, name: "r3", active: false, retainedBytes: 20 * GiB },
+      { ...slot, name: "r4", active: false, retainedBytes: 0, walStatus: "lost" },
+      {
+        ...slot,
+        name: "cdc",
+        type: "logical",
+        active: false,
+        retainedBytes: 1024,
+        xminAge: 300000000,
+      },
+    ]);
+    expect(result.findings.map((f) => [f.severity, f.subject])).toEqual([
+      ["warning", "r2"],
+      ["critical", "r3"],
+      ["critical", "r4"],
+      ["info", "cdc"],
+      ["warning", "cdc"],
+    ]);
+    expect(result.findings[0]?.message).toBe(
+      "Inactive for 3d physical slot retains 2.00 GB of WAL"
+    );
+    expect(result.findings[0]?.recommendation).toContain(
+      "replication-slots.ts --keep <slots> --prune"
+    );
+    expect(result.findings[0]?.recommendation).toContain("set max_slot_wal_keep_size");
+    expect(result.findings[3]?.recommendation).toContain("pg_drop_replication_slot('cdc')");
+    expect(result.summary).toBe("5 slots, 4 inactive, max_slot_wal_keep_size unlimited");
+  });
+});
+
+describe("top statements", () => {
+  test("is skipped without pg_stat_statements", () => {
+    expect(checkTopStatements(settings(), null, "app")).toMatchObject({
+      status: "skipped",
+      summary: expect.stringContaining("not installed in app"),
+    });
+  });
+
+  test("lists statements and flags slow ones", () => {
+    const result = checkTopStatements(
+      settings({ extensions: ["pg_stat_statements", "index_advisor"] }),
+      [
+        statement({
+          indexAdvice: ["CREATE INDEX ON public.orders USING btree (customer_id)"],
+        }),
+        statement({ query: "SELECT  report(\n  $1)", meanMs: 900, calls: 50, percent: 30 }),
+        statement({ query: "UPDATE orders SET total = $1", tempWritten: 500, database: "app" }),
+      ],
+      "postgres"
+    );
+    expect(result.status).toBe("findings");
+    expect(result.findings.map((f) => [f.severity, f.subject])).toEqual([
+      ["info", "SELECT * FROM orders WHERE customer_id = $1"],
+      ["warning", "SELECT report( $1)"],
+      ["info", "UPDATE orders SET total = $1"],
+    ]);
+    expect(result.findings[0]?.message).toBe(
+      "40% of execution time, 1000 calls, mean 5.0 ms, cache hit 99%"
+    );
+    expect(result.findings[0]?.recommendation).toBe(
+      "index_advisor suggests: CREATE INDEX ON public.orders USING btree (customer_id)"
+    );
+    expect(result.findings[1]?.recommendation).toBe("EXPLAIN (ANALYZE, BUFFERS) it (queryid 42)");
+    expect(result.findings[2]?.message).toContain("500 temp blocks written, in app");
+    expect(result.summary).toContain("index_advisor consulted");
+  });
+
+  test("a list without slow statements is ok", () => {
+    expect(checkTopStatements(settings(), [statement()], "postgres").status).toBe("ok");
+  });
+});
+
+describe("auto-config", () => {
+  test("matches when the limits are unchanged", () => {
+    const result = checkAutoConfig(settings(), LIMITED);
+    expect(result.status).toBe("ok");
+    expect(result.summary).toBe(
+      "Started with 2048 MB (cgroup-v2) and 2 CPUs (cgroup-v2); container now 2048 MB (cgroup-v2) and 2 CPUs (cgroup-v2)"
+    );
+  });
+
+  test("reports a resized container with the settings a restart would apply", () => {
+    const result = checkAutoConfig(settings(), { ...LIMITED, memoryMaxBytes: 4 * GiB });
+    expect(result.findings).toHaveLength(1);
+    expect(result.findings[0]?.severity).toBe("warning");
+    expect(result.findings[0]?.message).toContain(
+      "memory 2048 MB (cgroup-v2) → 4096 MB (cgroup-v2)"
+    );
+    expect(result.findings[0]?.recommendation).toContain("shared_buffers 512MB → 1024MB");
+  });
+
+  test("POSTGRES_MEMORY above the cgroup limit is critical", () => {
+    const manual = settings();
+    manual.aza = { ...manual.aza, ram_mb: "8192", ram_source: "manual" };
+    const result = checkAutoConfig(manual, LIMITED);
+    expect(result.findings.find((f) => f.severity === "critical")?.subject).toBe("POSTGRES_MEMORY");
+  });
+
+  test("notes host RAM tuning and settings changed outside auto-config", () => {
+    const host = settings();
+    host.aza = { ...host.aza, ram_source: "meminfo" };
+    host.settings.work_mem = { setting: "65536", unit: "kB" };
+    const result = checkAutoConfig(host, {
+      ...LIMITED,
+      memoryMaxBytes: null,
+      memTotalKB: 2048 * 1024,
+    });
+    expect(result.findings.map((f) => [f.severity, f.subject])).toEqual([
+      ["info", "memory limit"],
+      ["info", "settings"],
+    ]);
+    expect(result.findings[1]?.message).toContain("work_mem 64MB (auto-config 1MB)");
+  });
+
+  test("is skipped outside the aza-pg entrypoint", () => {
+    expect(checkAutoConfig(settings({ aza: {} }), LIMITED).status).toBe("skipped");
+    expect(checkAutoConfig(settings(), null).status).toBe("skipped");
+  });
+});
+
+describe("report", () => {
+  const report = buildReport({
+    container: "aza-pg-postgres-primary",
+    database: "postgres",
+    settings: settings(),
+    tables: [table({ deadTuples: 300000 }), table({ name: "events", modifiedSinceAnalyze: 50000 })],
+    indexes: [index({ scans: 0, sizeBytes: 200 * 1024 * 1024 })],
+    databases: [{ name: "postgres", xidAge: 1000, mxidAge: 0 }],
+    slots: [],
+    statements: null,
+    resources: LIMITED,
+  });
+
+  test("sorts findings by severity and counts them", () => {
+    expect(report.findings.map((f) => [f.severity, f.check])).toEqual([
+      ["critical", "autovacuum"],
+      ["warning", "unused-indexes"],
+      ["info", "autovacuum"],
+    ]);
+    expect(report.counts).toEqual({ critical: 1, warning: 1, info: 1 });
+    expect(report.generatedAt).toBe(new Date(NOW * 1000).toISOString());
+    expect(report.checks.map((check) => check.status)).toEqual([
+      "ok",
+      "ok",
+      "findings",
+      "ok",
+      "ok",
+      "findings",
+      "ok",
+      "skipped",
+    ]);
+  });
+
+  test("renders a table with recommendations and the check list", () => {
+    const output = formatReport(report, "table");
+    expect(output).toStartWith(
+      "aza-pg doctor: aza-pg-postgres-primary (database postgres, PostgreSQL 18.1)\n"
+    );
+    expect(output).toMatch(/^SEVERITY\s+CHECK\s+SUBJECT\s+FINDING$/m);
+    expect(output).toMatch(/^critical\s+autovacuum\s+public\.orders\s+300k dead tuples/m);
+    expect(output).toMatch(/^\s+→ DROP INDEX CONCURRENTLY "public"\."orders_customer_id_idx"$/m);
+    expect(output).toContain("  - pg_stat_statements top statements");
+    expect(output).toEndWith("1 critical, 1 warning, 1 info");
+  });
+
+  test("renders JSON", () => {
+    expect(JSON.parse(formatReport(report, "json"))).toEqual(JSON.parse(JSON.stringify(report)));
+  });
+});
@@ -0,0 +1,1368 @@
+/**
+ * Health checks for doctor.ts
+ *
+ * Pure logic: the SQL the doctor runs against a live server, the parsers for its JSON output, and
+ * the checks that turn the catalog and statistics snapshot into a prioritized list of findings.
+ * Bloat is estimated from pg_stats (no pgstattuple scan), so it is cheap enough to run against a
+ * busy primary but only approximate.
+ */
+
+import { formatMemory } from "../utils/logger";
+import {
+  MAX_CPU_CORES,
+  MIN_CPU_CORES,
+  planTuning,
+  STORAGE_TYPES,
+  WORKLOAD_TYPES,
+  type StorageType,
+  type WorkloadType,
+} from "../config/tuning";
+
+export type Severity = "critical" | "warning" | "info";
+export const SEVERITIES: readonly Severity[] = ["critical", "warning", "info"];
+
+export type CheckName =
+  | "wraparound"
+  | "replication-slots"
+  | "autovacuum"
+  | "auto-config"
+  | "bloat"
+  | "unused-indexes"
+  | "duplicate-indexes"
+  | "top-queries";
+
+/** Checks in report order */
+export const CHECKS: readonly CheckName[] = [
+  "wraparound",
+  "replication-slots",
+  "autovacuum",
+  "auto-config",
+  "bloat",
+  "unused-indexes",
+  "duplicate-indexes",
+  "top-queries",
+];
+
+const CHECK_TITLES: Readonly<Record<CheckName, string>> = {
+  wraparound: "Transaction ID wraparound",
+  "replication-slots": "Replication slots retaining WAL",
+  autovacuum: "Autovacuum lag",
+  "auto-config": "Auto-config vs container limits",
+  bloat: "Table and index bloat",
+  "unused-indexes": "Unused indexes",
+  "duplicate-indexes": "Duplicate indexes",
+  "top-queries": "pg_stat_statements top statements",
+};
+
+export interface Finding {
+  check: CheckName;
+  severity: Severity;
+  /** Object the finding is about (database, relation, slot, statement) */
+  subject: string;
+  message: string;
+  recommendation?: string;
+}
+
+export interface CheckResult {
+  check: CheckName;
+  title: string;
+  status: "ok" | "findings" | "skipped";
+  summary: string;
+  findings: Finding[];
+}
+
+export interface DoctorReport {
+  container: string;
+  database: string;
+  generatedAt: string;
+  serverVersion: string;
+  inRecovery: boolean;
+  checks: CheckResult[];
+  /** Every finding, most severe first */
+  findings: Finding[];
+  counts: Record<Severity, number>;
+}
+
+// ============================================================================
+// Queries (each returns one JSON value)
+// ============================================================================
+
+/** pg_settings entries the checks read */
+const SETTING_NAMES = [
+  "autovacuum",
+  "autovacuum_vacuum_threshold",
+  "autovacuum_vacuum_scale_factor",
+  "autovacuum_vacuum_max_threshold",
+  "autovacuum_analyze_threshold",
+  "autovacuum_analyze_scale_factor",
+  "autovacuum_freeze_max_age",
+  "max_slot_wal_keep_size",
+  "block_size",
+  "shared_buffers",
+  "effective_cache_size",
+  "maintenance_work_mem",
+  "work_mem",
+  "max_connections",
+  "io_workers",
+  "max_parallel_workers",
+];
+
+/** Decisions the entrypoint records as aza.* GUCs at startup */
+const AZA_SETTINGS = [
+  "workload_type",
+  "storage_type",
+  "ram_mb",
+  "ram_source",
+  "cpu_cores",
+  "cpu_source",
+] as const;
+
+export const SETTINGS_QUERY = `SELECT json_build_object(
+  'settings', (SELECT json_object_agg(name, json_build_object('setting', setting, 'unit', unit))
+    FROM pg_settings WHERE name IN (${SETTING_NAMES.map((name) => `'${name}'`).join(", ")})),
+  'aza', json_build_object(${AZA_SETTINGS.map((name) => `'${name}', current_setting('aza.${name}', true)`).join(", ")}),
+  'serverVersion', current_setting('server_version'),
+  'inRecovery', pg_is_in_recovery(),
+  'now', extract(epoch FROM now())::float8,
+  'statsReset', (SELECT extract(epoch FROM stats_reset)::float8 FROM pg_stat_database
+    WHERE datname = current_database()),
+  'extensions', (SELECT coalesce(json_agg(extname), '[]') FROM pg_extension
+    WHERE extname IN ('pg_stat_statements', 'index_advisor', 'hypopg'))
+)`;
+
+/** Tables and materialized views of the current database with their statistics */
+export const TABLES_QUERY = `SELECT coalesce(json_agg(t), '[]') FROM (
+  SELECT n.nspname AS schema, c.relname AS name, c.relpages AS pages,
+    c.reltuples::float8 AS tuples, c.relnatts AS columns,
+    coalesce((SELECT option_value::int FROM pg_options_to_table(c.reloptions)
+      WHERE option_name = 'fillfactor'), 100) AS fillfactor,
+    (SELECT sum(s.avg_width)::int FROM pg_stats s
+      WHERE s.schemaname = n.nspname AND s.tablename = c.relname AND NOT s.inherited) AS "rowWidth",
+    (SELECT count(*)::int FROM pg_stats s WHERE s.schemaname = n.nspname
+      AND s.tablename = c.relname AND NOT s.inherited AND s.null_frac > 0) AS "nullableColumns",
+    st.n_dead_tup AS "deadTuples", st.n_mod_since_analyze AS "modifiedSinceAnalyze",
+    extract(epoch FROM greatest(st.last_vacuum, st.last_autovacuum))::float8 AS "lastVacuum",
+    extract(epoch FROM greatest(st.last_analyze, st.last_autoanalyze))::float8 AS "lastAnalyze",
+    age(c.relfrozenxid) AS "xidAge",
+    (SELECT json_object_agg(option_name, option_value) FROM pg_options_to_table(c.reloptions))
+      AS reloptions
+  FROM pg_class c
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  LEFT JOIN pg_stat_all_tables st ON st.relid = c.oid
+  WHERE c.relkind IN ('r', 'm')
+    AND n.nspname NOT IN ('pg_catalog', 'information_schema') AND n.nspname !~ '^pg_toast'
+) t`;
+
+/** Indexes of the current database with their scans and key width estimate */
+export const INDEXES_QUERY = `SELECT coalesce(json_agg(t), '[]') FROM (
+  SELECT n.nspname AS schema, tc.relname AS "table", ic.relname AS name, am.amname AS method,
+    i.indisunique AS "unique", i.indisprimary AS "primary",
+    EXISTS (SELECT 1 FROM pg_constraint con WHERE con.conindid = i.indexrelid) AS "constraint",
+    i.indisvalid AS valid, ic.relpages AS pages, ic.reltuples::float8 AS tuples,
+    pg_relation_size(i.indexrelid) AS "sizeBytes", coalesce(st.idx_scan, 0) AS scans,
+    coalesce((SELECT option_value::int FROM pg_options_to_table(ic.reloptions)
+      WHERE option_name = 'fillfactor'), 90) AS fillfactor,
+    (SELECT sum(s.avg_width)::int FROM pg_attribute a
+      JOIN pg_stats s ON s.schemaname = n.nspname AND s.tablename = tc.relname
+        AND s.attname = a.attname AND NOT s.inherited
+      WHERE a.attrelid = tc.oid AND a.attnum = ANY (i.indkey::int2[])) AS "keyWidth",
+    i.indnkeyatts AS "keyColumns", i.indkey::text AS columns, i.indclass::text AS opclasses,
+    i.indcollation::text AS collations, i.indoption::text AS options,
+    pg_get_expr(i.indexprs, i.indrelid) AS expressions,
+    pg_get_expr(i.indpred, i.indrelid) AS predicate,
+    pg_get_indexdef(i.indexrelid) AS definition
+  FROM pg_index i
+  JOIN pg_class ic ON ic.oid = i.indexrelid
+  JOIN pg_class tc ON tc.oid = i.indrelid
+  JOIN pg_namespace n ON n.oid = tc.relnamespace
+  JOIN pg_am am ON am.oid = ic.relam
+  LEFT JOIN pg_stat_all_indexes st ON st.indexrelid = i.indexrelid
+  WHERE n.nspname NOT IN ('pg_catalog', 'information_schema') AND n.nspname !~ '^pg_toast'
+) t`;
+
+/** Transaction ID and multixact age of every database */
+export const WRAPAROUND_QUERY = `SELECT coalesce(json_agg(t), '[]') FROM (
+  SELECT datname AS name, age(datfrozenxid) AS "xidAge", mxid_age(datminmxid) AS "mxidAge"
+  FROM pg_database WHERE datallowconn
+) t`;
+
+/**
+ * Replication slots with retained WAL and the xmin they hold back
+ *
+ * Retained WAL is measured against the replay position on a standby (cascading upstream).
+ */
+export const SLOT_HEALTH_QUERY = `SELECT coalesce(json_agg(t), '[]') FROM (
+  SELECT slot_name AS name, slot_type AS type, active, wal_status AS "walStatus",
+    pg_wal_lsn_diff(
+      CASE WHEN pg_is_in_recovery() THEN pg_last_wal_replay_lsn() ELSE pg_current_wal_lsn() END,
+      restart_lsn)::float8 AS "retainedBytes",
+    extract(epoch FROM inactive_since)::float8 AS "inactiveSince",
+    greatest(age(xmin), age(catalog_xmin)) AS "xminAge"
+  FROM pg_replication_slots
+) t`;
+
+/** pg_stat_statements entries with the highest total execution time */
+export function topStatementsQuery(limit: number): string {
+  return `SELECT coalesce(json_agg(t), '[]') FROM (
+  SELECT s.queryid::text AS "queryId", d.datname AS database, r.rolname AS role,
+    left(s.query, 2000) AS query, s.calls, s.total_exec_time AS "totalMs",
+    s.mean_exec_time AS "meanMs", s.rows, s.shared_blks_hit AS "sharedHit",
+    s.shared_blks_read AS "sharedRead", s.temp_blks_written AS "tempWritten",
+    100 * s.total_exec_time / nullif(sum(s.total_exec_time) OVER (), 0) AS percent
+  FROM pg_stat_statements s
+  LEFT JOIN pg_database d ON d.oid = s.dbid
+  LEFT JOIN pg_roles r ON r.oid = s.userid
+  ORDER BY s.total_exec_time DESC
+  LIMIT ${Math.max(1, Math.floor(limit))}
+) t`;
+}
+
+/**
+ * index_advisor call for a statement, or null when it cannot be advised
+ *
+ * index_advisor plans the statement with hypothetical indexes (HypoPG), so it only applies to
+ * SELECTs of the database the doctor is connected to.
+ */
+export function indexAdvisorQuery(statement: TopStatement, database: string): string | null {
+  const query = statement.query.trim();
+  if (statement.database !== database || !/^select\b/i.test(query) || query.includes("$doctor$")) {
+    return null;
+  }
+  return `SELECT coalesce(json_agg(t), '[]') FROM (
+  SELECT index_statements AS statements, errors FROM index_advisor($doctor$${query}$doctor$)
+) t`;
+}
+
+/** Reads the cgroup limits and host resources the entrypoint detects RAM and CPUs from */
+export const RESOURCES_SCRIPT = [
+  `echo "memory_max=$(cat /sys/fs/cgroup/memory.max 2>/dev/null)"`,
+  `echo "cpu_max=$(cat /sys/fs/cgroup/cpu.max 2>/dev/null)"`,
+  `echo "mem_total_kb=$(awk '/MemTotal/ {print $2}' /proc/meminfo 2>/dev/null)"`,
+  `echo "nproc=$(nproc 2>/dev/null)"`,
+].join("; ");
+
+// ============================================================================
+// Parsed query output
+// ============================================================================
+
+export interface ServerSettings {
+  settings: Record<string, { setting: string; unit: string | null }>;
+  aza: Partial<Record<(typeof AZA_SETTINGS)[number], string | null>>;
+  serverVersion: string;
+  inRecovery: boolean;
+  /** Server time (epoch seconds) the ages are measured against */
+  now: number;
+  statsReset: number | null;
+  extensions: string[];
+}
+
+export interface TableStats {
+  schema: string;
+  name: string;
+  pages: number;
+  /** -1 until the table was first vacuumed or analyzed */
+  tuples: number;
+  columns: number;
+  fillfactor: number;
+  /** Sum of pg_stats average widths; null without statistics */
+  rowWidth: number | null;
+  nullableColumns: number;
+  deadTuples: number | null;
+  modifiedSinceAnalyze: number | null;
+  lastVacuum: number | null;
+  lastAnalyze: number | null;
+  xidAge: number;
+  reloptions: Record<string, string> | null;
+}
+
+export interface IndexStats {
+  schema: string;
+  table: string;
+  name: string;
+  method: string;
+  unique: boolean;
+  primary: boolean;
+  /** Backs a primary key, unique or exclusion constraint */
+  constraint: boolean;
+  valid: boolean;
+  pages: number;
+  tuples: number;
+  sizeBytes: number;
+  scans: number;
+  fillfactor: number;
+  keyWidth: number | null;
+  keyColumns: number;
+  /** pg_index.indkey, indclass, indcollation and indoption as space-separated lists */
+  columns: string;
+  opclasses: string;
+  collations: string;
+  options: string;
+  expressions: string | null;
+  predicate: string | null;
+  definition: string;
+}
+
+export interface DatabaseAge {
+  name: string;
+  xidAge: number;
+  mxidAge: number;
+}
+
+export interface SlotHealth {
+  name: string;
+  type: "physical" | "logical";
+  active: boolean;
+  /** reserved, extended, unreserved or lost; null when the slot never reserved WAL */
+  walStatus: string | null;
+  retainedBytes: number | null;
+  /** Epoch seconds, PostgreSQL 17+ */
+  inactiveSince: number | null;
+  xminAge: number | null;
+}
+
+export interface TopStatement {
+  queryId: string;
+  database: string | null;
+  role: string | null;
+  query: string;
+  calls: number;
+  totalMs: number;
+  meanMs: number;
+  rows: number;
+  sharedHit: number;
+  sharedRead: number;
+  tempWritten: number;
+  /** Share of the total execution time of all tracked statements */
+  percent: number | null;
+  /** CREATE INDEX statements suggested by index_advisor */
+  indexAdvice?: string[];
+}
+
+/** Container resources as seen from inside the container (RESOURCES_SCRIPT output) */
+export interface ContainerResources {
+  /** cgroup v2 memory.max in bytes; null without a limit */
+  memoryMaxBytes: number | null;
+  cpuQuota: number | null;
+  cpuPeriod: number;
+  memTotalKB: number | null;
+  nproc: number | null;
+}
+
+/** Resources detected the way the entrypoint's detect_ram and detect_cpu do */
+export interface DetectedResources {
+  ramMB: number;
+  ramSource: "cgroup-v2" | "meminfo" | "default";
+  cpuCores: number;
+  cpuSource: "cgroup-v2" | "nproc";
+}
+
+function parseJson(output: string, what: string): unknown {
+  try {
+    return JSON.parse(output);
+  } catch {
+    throw new Error(`Unexpected ${what} output: '${output.slice(0, 200)}'`);
+  }
+}
+
+function parseJsonRows<T>(output: string, what: string): T[] {
+  const value = parseJson(output, what);
+  if (!Array.isArray(value)) {
+    throw new Error(`Unexpected ${what} output: expected a JSON array`);
+  }
+  return value as T[];
+}
+
+/**
+ * Parse SETTINGS_QUERY output
+ */
+export function parseSettings(output: string): ServerSettings {
+  const value = parseJson(output, "settings") as Partial<ServerSettings> | null;
+  if (!value || typeof value.serverVersion !== "string" || typeof value.now !== "number") {
+    throw new Error("Unexpected settings output: missing serverVersion or now");
+  }
+  return {
+    settings: value.settings ?? {},
+    aza: value.aza ?? {},
+    serverVersion: value.serverVersion,
+    inRecovery: value.inRecovery === true,
+    now: value.now,
+    statsReset: value.statsReset ?? null,
+    extensions: value.extensions ?? [],
+  };
+}
+
+export const parseTables = (output: string): TableStats[] =>
+  parseJsonRows<TableStats>(output, "tables");
+export const parseIndexes = (output: string): IndexStats[] =>
+  parseJsonRows<IndexStats>(output, "indexes");
+export const parseDatabaseAges = (output: string): DatabaseAge[] =>
+  parseJsonRows<DatabaseAge>(output, "wraparound");
+export const parseSlotHealth = (output: string): SlotHealth[] =>
+  parseJsonRows<SlotHealth>(output, "replication slots");
+export const parseTopStatements = (output: string): TopStatement[] =>
+  parseJsonRows<TopStatement>(output, "pg_stat_statements");
+
+/**
+ * Parse indexAdvisorQuery output into the suggested CREATE INDEX statements
+ */
+export function parseIndexAdvice(output: string): string[] {
+  const rows = parseJsonRows<{ statements: string[] | null }>(output, "index_advisor");
+  return [...new Set(rows.flatMap((row) => row.statements ?? []))];
+}
+
+/**
+ * Parse RESOURCES_SCRIPT output
+ */
+export function parseContainerResources(output: string): ContainerResources {
+  const values = new Map<string, string>();
+  for (const line of output.split("\n")) {
+    const separator = line.indexOf("=");
+    if (separator > 0) {
+      values.set(line.slice(0, separator).trim(), line.slice(separator + 1).trim());
+    }
+  }
+  const integer = (value: string | undefined): number | null =>
+    value !== undefined && /^\d+$/.test(value) ? Number(value) : null;
+
+  const [quota, period] = (values.get("cpu_max") ?? "").split(/\s+/);
+  return {
+    memoryMaxBytes: integer(values.get("memory_max")),
+    cpuQuota: integer(quota),
+    cpuPeriod: integer(period) ?? 100000,
+    memTotalKB: integer(values.get("mem_total_kb")),
+    nproc: integer(values.get("nproc")),
+  };
+}
+
+/**
+ * Detect RAM and CPUs like the entrypoint (without the POSTGRES_MEMORY override)
+ */
+export function detectResources(resources: ContainerResources): DetectedResources {
+  let ramMB = 1024;
+  let ramSource: DetectedResources["ramSource"] = "default";
+  if (resources.memoryMaxBytes !== null) {
+    ramMB = Math.floor(resources.memoryMaxBytes / 1024 / 1024);
+    ramSource = "cgroup-v2";
+  } else if (resources.memTotalKB) {
+    ramMB = Math.floor(resources.memTotalKB / 1024);
+    ramSource = "meminfo";
+  }
+
+  let cpuCores = resources.nproc ?? 1;
+  let cpuSource: DetectedResources["cpuSource"] = "nproc";
+  if (resources.cpuQuota) {
+    cpuCores = Math.max(1, Math.ceil(resources.cpuQuota / resources.cpuPeriod));
+    cpuSource = "cgroup-v2";
+  }
+  cpuCores = Math.min(MAX_CPU_CORES, Math.max(MIN_CPU_CORES, cpuCores));
+
+  return { ramMB, ramSource, cpuCores, cpuSource };
+}
+
+// ============================================================================
+// Formatting helpers
+// ============================================================================
+
+/**
+ * Quote an SQL identifier
+ */
+function quoteIdent(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function qualified(schema: string, name: string): string {
+  return `${quoteIdent(schema)}.${quoteIdent(name)}`;
+}
+
+function formatCount(value: number): string {
+  if (value >= 1e9) return `${(value / 1e9).toFixed(1)}B`;
+  if (value >= 1e6) return `${(value / 1e6).toFixed(1)}M`;
+  if (value >= 1e4) return `${Math.round(value / 1e3)}k`;
+  return String(Math.round(value));
+}
+
+function formatAge(seconds: number): string {
+  if (seconds >= 86400) return `${Math.floor(seconds / 86400)}d`;
+  if (seconds >= 3600) return `${Math.floor(seconds / 3600)}h`;
+  return `${Math.max(0, Math.floor(seconds / 60))}min`;
+}
+
+function formatPercent(value: number): string {
+  return `${value.toFixed(value < 10 ? 1 : 0)}%`;
+}
+
+function numericSetting(settings: ServerSettings, name: string, fallback: number): number {
+  const value = Number(settings.settings[name]?.setting);
+  return Number.isFinite(value) ? value : fallback;
+}
+
+function result(check: CheckName, findings: Finding[], summary: string): CheckResult {
+  return {
+    check,
+    title: CHECK_TITLES[check],
+    status: findings.length > 0 ? "findings" : "ok",
+    summary,
+    findings,
+  };
+}
+
+function skipped(check: CheckName, reason: string): CheckResult {
+  return { check, title: CHECK_TITLES[check], status: "skipped", summary: reason, findings: [] };
+}
+
+// ============================================================================
+// Bloat
+// ============================================================================
+
+const PAGE_HEADER_BYTES = 24;
+const BTREE_SPECIAL_BYTES = 16;
+const TUPLE_HEADER_BYTES = 23;
+const INDEX_TUPLE_HEADER_BYTES = 8;
+const LINE_POINTER_BYTES = 4;
+
+/** Bloat is reported from this share of the relation being wasted */
+export const BLOAT_MIN_RATIO = 0.3;
+export const BLOAT_INFO_BYTES = 64 * 1024 * 1024;
+export const BLOAT_WARNING_BYTES = 1024 * 1024 * 1024;
+
+export interface BloatEstimate {
+  expectedPages: number;
+  wastedBytes: number;
+  /** Wasted share of the relation (0-1) */
+  ratio: number;
+}
+
+const align8 = (bytes: number): number => Math.ceil(bytes / 8) * 8;
+
+function bloat(pages: number, expectedPages: number, blockSize: number): BloatEstimate {
+  const wastedPages = Math.max(0, pages - expectedPages);
+  return {
+    expectedPages,
+    wastedBytes: wastedPages * blockSize,
+    ratio: pages > 0 ? wastedPages / pages : 0,
+  };
+}
+
+/**
+ * Estimate table bloat from the row width in pg_stats
+ *
+ * Returns null for tables without statistics (never analyzed).
+ */
+export function estimateTableBloat(table: TableStats, blockSize = 8192): BloatEstimate | null {
+  if (table.rowWidth === null || table.tuples < 0 || table.pages === 0) {
+    return null;
+  }
+  const nullBitmap = table.nullableColumns > 0 ? Math.ceil(table.columns / 8) : 0;
+  const tupleBytes =
+    align8(TUPLE_HEADER_BYTES + nullBitmap) + align8(table.rowWidth) + LINE_POINTER_BYTES;
+  const usable = Math.floor(((blockSize - PAGE_HEADER_BYTES) * table.fillfactor) / 100);
+  const perPage = Math.max(1, Math.floor(usable / tupleBytes));
+  return bloat(table.pages, Math.ceil(table.tuples / perPage), blockSize);
+}
+
+/**
+ * Estimate B-tree leaf bloat from the key width in pg_stats
+ *
+ * Returns null for other access methods, expression indexes and indexes without statistics.
+ */
+export function estimateIndexBloat(index: IndexStats, blockSize = 8192): BloatEstimate | null {
+  if (
+    index.method !== "btree" ||
+    index.expressions !== null ||
+    index.keyWidth === null ||
+    index.tuples < 0 ||
+    index.pages === 0
+  ) {
+    return null;
+  }
+  const tupleBytes = INDEX_TUPLE_HEADER_BYTES + align8(index.keyWidth) + LINE_POINTER_BYTES;
+  const usable = Math.floor(
+    ((blockSize - PAGE_HEADER_BYTES - BTREE_SPECIAL_BYTES) * index.fillfactor) / 100
+  );
+  const perPage = Math.max(1, Math.floor(usable / tupleBytes));
+  // The metapage is not bloat
+  return bloat(index.pages, Math.ceil(index.tuples / perPage) + 1, blockSize);
+}
+
+function bloatSeverity(estimate: BloatEstimate): Severity | null {
+  if (estimate.ratio < BLOAT_MIN_RATIO || estimate.wastedBytes < BLOAT_INFO_BYTES) {
+    return null;
+  }
+  return estimate.wastedBytes >= BLOAT_WARNING_BYTES ? "warning" : "info";
+}
+
+function bloatMessage(estimate: BloatEstimate): string {
+  return `~${formatMemory(estimate.wastedBytes)} wasted (${formatPercent(estimate.ratio * 100)} of the relation)`;
+}
+
+export function checkBloat(
+  settings: ServerSettings,
+  tables: TableStats[],
+  indexes: IndexStats[]
+): CheckResult {
+  const blockSize = numericSetting(settings, "block_size", 8192);
+  const findings: Finding[] = [];
+  let estimated = 0;
+
+  for (const table of tables) {
+    const estimate = estimateTableBloat(table, blockSize);
+    if (!estimate) continue;
+    estimated++;
+    const severity = bloatSeverity(estimate);
+    if (severity) {
+      findings.push({
+        check: "bloat",
+        severity,
+        subject: `${table.schema}.${table.name}`,
+        message: `Table ${bloatMessage(estimate)}`,
+        recommendation: `Rewrite online with pg_repack (bundled), or VACUUM FULL ${qualified(table.schema, table.name)} during a maintenance window (exclusive lock)`,
+      });
+    }
+  }
+  for (const index of indexes) {
+    const estimate = estimateIndexBloat(index, blockSize);
+    if (!estimate) continue;
+    estimated++;
+    const severity = bloatSeverity(estimate);
+    if (severity) {
+      findings.push({
+        check: "bloat",
+        severity,
+        subject: `${index.schema}.${index.name}`,
+        message: `Index ${bloatMessage(estimate)}`,
+        recommendation: `REINDEX INDEX CONCURRENTLY ${qualified(index.schema, index.name)}`,
+      });
+    }
+  }
+
+  const unestimated = tables.length + indexes.length - estimated;
+  return result(
+    "bloat",
+    findings,
+    `${findings.length} bloated of ${estimated} estimated relations` +
+      (unestimated > 0 ? ` (${unestimated} without statistics or not B-tree)` : "")
+  );
+}
+
+// ============================================================================
+// Indexes
+// ============================================================================
+
+/** Unused indexes are reported from this size; smaller ones cost little to keep */
+export const UNUSED_INDEX_MIN_BYTES = 1024 * 1024;
+export const UNUSED_INDEX_WARNING_BYTES = 100 * 1024 * 1024;
+/** Statistics younger than this may not cover weekly or monthly queries */
+const STATS_MIN_AGE_SECONDS = 7 * 86400;
+
+export function checkUnusedIndexes(settings: ServerSettings, indexes: IndexStats[]): CheckResult {
+  const unused = indexes.filter(
+    (index) =>
+      index.scans === 0 &&
+      index.valid &&
+      !index.unique &&
+      !index.constraint &&
+      index.sizeBytes >= UNUSED_INDEX_MIN_BYTES
+  );
+
+  const findings: Finding[] = unused.map((index) => ({
+    check: "unused-indexes",
+    severity: index.sizeBytes >= UNUSED_INDEX_WARNING_BYTES ? "warning" : "info",
+    subject: `${index.schema}.${index.name}`,
+    message: `Never scanned, ${formatMemory(index.sizeBytes)} on ${index.schema}.${index.table}`,
+    recommendation: `DROP INDEX CONCURRENTLY ${qualified(index.schema, index.name)}`,
+  }));
+
+  const notes: string[] = [];
+  if (settings.statsReset !== null && settings.now - settings.statsReset < STATS_MIN_AGE_SECONDS) {
+    notes.push(`statistics reset ${formatAge(settings.now - settings.statsReset)} ago`);
+  }
+  notes.push(
+    settings.inRecovery ? "scans counted on this replica only" : "scans on replicas not counted"
+  );
+  const total = unused.reduce((sum, index) => sum + index.sizeBytes, 0);
+  return result(
+    "unused-indexes",
+    findings,
+    `${unused.length} unused (${formatMemory(total)}); ${notes.join(", ")}`
+  );
+}
+
+function signature(index: IndexStats): string {
+  return [
+    index.method,
+    index.columns,
+    index.keyColumns,
+    index.opclasses,
+    index.collations,
+    index.options,
+    index.expressions ?? "",
+    index.predicate ?? "",
+  ].join("|");
+}
+
+/** Rank of the index to keep among duplicates: constraints first, then unique, then used */
+function keepRank(index: IndexStats): number {
+  return (index.primary ? 4 : 0) + (index.constraint ? 2 : 0) + (index.unique ? 1 : 0);
+}
+
+/**
+ * Whether `index` is made redundant by `other`: both plain B-trees on the same table, and
+ * the key columns of `index` are a leading prefix of those of `other`
+ */
+function isPrefixOf(index: IndexStats, other: IndexStats): boolean {
+  const plain = (i: IndexStats) => i.method === "btree" && i.expressions === null && !i.predicate;
+  if (!plain(index) || !plain(other) || index.unique || index.constraint) {
+    return false;
+  }
+  if (index.schema !== other.schema || index.table !== other.table) {
+    return false;
+  }
+  const keys = (i: IndexStats, list: string) => list.split(" ").slice(0, i.keyColumns);
+  const fields = ["columns", "opclasses", "collations", "options"] as const;
+  return (
+    index.keyColumns < other.keyColumns &&
+    fields.every((field) => {
+      const mine = keys(index, index[field]);
+      const theirs = keys(other, other[field]);
+      return mine.every((value, position) => theirs[position] === value);
+    })
+  );
+}
+
+export function checkDuplicateIndexes(indexes: IndexStats[]): CheckResult {
+  const findings: Finding[] = [];
+  const groups = new Map<string, IndexStats[]>();
+  for (const index of indexes.filter((i) => i.valid)) {
+    const key = `${index.schema}.${index.table}|${signature(index)}`;
+    groups.set(key, [...(groups.get(key) ?? []), index]);
+  }
+
+  const duplicates = new Set<IndexStats>();
+  for (const group of groups.values()) {
+    if (group.length < 2) continue;
+    const [keep, ...extra] = [...group].sort(
+      (a, b) => keepRank(b) - keepRank(a) || b.scans - a.scans || a.name.localeCompare(b.name)
+    );
+    for (const index of extra) {
+      duplicates.add(index);
+      findings.push({
+        check: "duplicate-indexes",
+        severity: "warning",
+        subject: `${index.schema}.${index.name}`,
+        message: `Same definition as ${keep!.name} (${formatMemory(index.sizeBytes)})`,
+        recommendation: index.constraint
+          ? `Drop the constraint ${index.name} backs if nothing references it, keeping ${keep!.name}`
+          : `DROP INDEX CONCURRENTLY ${qualified(index.schema, index.name)}`,
+      });
+    }
+  }
+
+  for (const index of indexes) {
+    if (duplicates.has(index) || !index.valid) continue;
+    const covering = indexes.find(
+      (other) => other !== index && other.valid && isPrefixOf(index, other)
+    );
+    if (covering) {
+      findings.push({
+        check: "duplicate-indexes",
+        severity: "info",
+        subject: `${index.schema}.${index.name}`,
+        message: `Leading columns of ${covering.name}, which serves the same lookups (${formatMemory(index.sizeBytes)})`,
+        recommendation: `DROP INDEX CONCURRENTLY ${qualified(index.schema, index.name)} unless its smaller size matters for hot lookups`,
+      });
+    }
+  }
+
+  return result(
+    "duplicate-indexes",
+    findings,
+    `${duplicates.size} exact duplicates, ${findings.length - duplicates.size} prefixes of another index`
+  );
+}
+
+// ============================================================================
+// Autovacuum
+// ============================================================================
+
+/** Dead tuples are only reported from this count, whatever the threshold */
+export const DEAD_TUPLES_MIN = 10000;
+
+interface AutovacuumThresholds {
+  vacuum: number;
+  analyze: number;
+  enabled: boolean;
+}
+
+/**
+ * The dead tuple and modification counts at which autovacuum processes a table, with the
+ * table's reloptions applied (PostgreSQL 18 caps the vacuum threshold at
+ * autovacuum_vacuum_max_threshold)
+ */
+export function autovacuumThresholds(
+  settings: ServerSettings,
+  table: TableStats
+): AutovacuumThresholds {
+  const option = (name: string): number =>
+    Number(table.reloptions?.[name] ?? numericSetting(settings, name, Number.NaN));
+  const tuples = Math.max(0, table.tuples);
+
+  let vacuum =
+    option("autovacuum_vacuum_threshold") + option("autovacuum_vacuum_scale_factor") * tuples;
+  const maxThreshold = option("autovacuum_vacuum_max_threshold");
+  if (Number.isFinite(maxThreshold) && maxThreshold >= 0) {
+    vacuum = Math.min(vacuum, maxThreshold);
+  }
+  return {
+    vacuum: Math.round(vacuum),
+    analyze: Math.round(
+      option("autovacuum_analyze_threshold") + option("autovacuum_analyze_scale_factor") * tuples
+    ),
+    enabled: table.reloptions?.autovacuum_enabled?.toLowerCase() !== "false",
+  };
+}
+
+export function checkAutovacuum(settings: ServerSettings, tables: TableStats[]): CheckResult {
+  const findings: Finding[] = [];
+  const globallyOn = settings.settings.autovacuum?.setting !== "off";
+  if (!globallyOn) {
+    findings.push({
+      check: "autovacuum",
+      severity: "critical",
+      subject: "autovacuum",
+      message: "autovacuum is off: dead tuples accumulate and nothing prevents wraparound",
+      recommendation: "ALTER SYSTEM SET autovacuum = on; SELECT pg_reload_conf();",
+    });
+  }
+
+  let lagging = 0;
+  for (const table of tables) {
+    const dead = table.deadTuples ?? 0;
+    const thresholds = autovacuumThresholds(settings, table);
+    const subject = `${table.schema}.${table.name}`;
+    const lastVacuum =
+      table.lastVacuum === null
+        ? "never vacuumed"
+        : `last vacuum ${formatAge(settings.now - table.lastVacuum)} ago`;
+
+    if (dead >= DEAD_TUPLES_MIN && dead >= 2 * thresholds.vacuum) {
+      lagging++;
+      const disabled = !thresholds.enabled;
+      findings.push({
+        check: "autovacuum",
+        severity: dead >= 10 * thresholds.vacuum ? "critical" : "warning",
+        subject,
+        message:
+          `${formatCount(dead)} dead tuples, autovacuum threshold ${formatCount(thresholds.vacuum)}, ${lastVacuum}` +
+          (disabled ? " (autovacuum_enabled = false)" : ""),
+        recommendation: disabled
+          ? `ALTER TABLE ${qualified(table.schema, table.name)} RESET (autovacuum_enabled)`
+          : `VACUUM (VERBOSE, ANALYZE) ${qualified(table.schema, table.name)}; if autovacuum keeps falling behind, look for long transactions and lower its scale factor for this table`,
+      });
+    } else if (
+      (table.modifiedSinceAnalyze ?? 0) >= DEAD_TUPLES_MIN &&
+      (table.modifiedSinceAnalyze ?? 0) >= 2 * thresholds.analyze
+    ) {
+      findings.push({
+        check: "autovacuum",
+        severity: "info",
+        subject,
+        message: `${formatCount(table.modifiedSinceAnalyze ?? 0)} rows changed since the last analyze (threshold ${formatCount(thresholds.analyze)}): planner statistics are stale`,
+        recommendation: `ANALYZE ${qualified(table.schema, table.name)}`,
+      });
+    }
+  }
+
+  return result(
+    "autovacuum",
+    findings,
+    globallyOn
+      ? `${lagging} of ${tables.length} tables behind on vacuum`
+      : "autovacuum is disabled server-wide"
+  );
+}
+
+// ============================================================================
+// Wraparound
+// ============================================================================
+
+/** Transaction IDs available before PostgreSQL stops assigning them (2^31) */
+export const XID_LIMIT = 2 ** 31;
+export const WRAPAROUND_WARNING_RATIO = 0.5;
+export const WRAPAROUND_CRITICAL_RATIO = 0.75;
+
+export function checkWraparound(
+  settings: ServerSettings,
+  databases: DatabaseAge[],
+  tables: TableStats[],
+  database: string
+): CheckResult {
+  const findings: Finding[] = [];
+  let oldest = 0;
+
+  for (const db of databases) {
+    const ratio = Math.max(db.xidAge, db.mxidAge) / XID_LIMIT;
+    oldest = Math.max(oldest, ratio);
+    if (ratio < WRAPAROUND_WARNING_RATIO) continue;
+
+    const kind = db.mxidAge > db.xidAge ? "multixact" : "transaction ID";
+    let recommendation =
+      "Run VACUUM (FREEZE, VERBOSE) on its oldest tables, and end what holds back freezing: long transactions, prepared transactions, stale replication slot xmin";
+    if (db.name === database) {
+      const oldestTables = [...tables]
+        .sort((a, b) => b.xidAge - a.xidAge)
+        .slice(0, 3)
+        .map((table) => `${table.schema}.${table.name} (${formatCount(table.xidAge)})`);
+      if (oldestTables.length > 0) {
+        recommendation += `. Oldest tables: ${oldestTables.join(", ")}`;
+      }
+    }
+    findings.push({
+      check: "wraparound",
+      severity: ratio >= WRAPAROUND_CRITICAL_RATIO ? "critical" : "warning",
+      subject: db.name,
+      message: `Oldest ${kind} is ${formatCount(Math.max(db.xidAge, db.mxidAge))} old, ${formatPercent(ratio * 100)} of the way to wraparound`,
+      recommendation,
+    });
+  }
+
+  const freezeMaxAge = numericSetting(settings, "autovacuum_freeze_max_age", 200000000);
+  return result(
+    "wraparound",
+    findings,
+    `Oldest database at ${formatPercent(oldest * 100)} of the limit (autovacuum freezes from ${formatPercent((freezeMaxAge / XID_LIMIT) * 100)})`
+  );
+}
+
+// ============================================================================
+// Replication slots
+// ============================================================================
+
+export const SLOT_WARNING_BYTES = 1024 * 1024 * 1024;
+export const SLOT_CRITICAL_BYTES = 10 * 1024 * 1024 * 1024;
+
+export function checkReplicationSlots(settings: ServerSettings, slots: SlotHealth[]): CheckResult {
+  const findings: Finding[] = [];
+  const freezeMaxAge = numericSetting(settings, "autovacuum_freeze_max_age", 200000000);
+  const keepSize = settings.settings.max_slot_wal_keep_size?.setting;
+  const unlimited = keepSize === undefined || keepSize === "-1";
+  const dropHint = (slot: SlotHealth) =>
+    slot.type === "physical"
+      ? "bun scripts/tools/replication-slots.ts --keep <slots> --prune"
+      : `SELECT pg_drop_replication_slot('${slot.name.replace(/'/g, "''")}')`;
+
+  for (const slot of slots) {
+    const retained = slot.retainedBytes ?? 0;
+    const since =
+      slot.inactiveSince === null ? "" : ` for ${formatAge(settings.now - slot.inactiveSince)}`;
+    const state = slot.active ? "Active" : `Inactive${since}`;
+
+    if (slot.walStatus === "lost") {
+      findings.push({
+        check: "replication-slots",
+        severity: "critical",
+        subject: slot.name,
+        message: `${slot.type} slot lost the WAL its consumer needs`,
+        recommendation: `Drop it (${dropHint(slot)}) and rebuild its consumer`,
+      });
+      continue;
+    }
+
+    let severity: Severity | null = null;
+    if (!slot.active) {
+      severity =
+        retained >= SLOT_CRITICAL_BYTES || slot.walStatus === "unreserved"
+          ? "critical"
+          : retained >= SLOT_WARNING_BYTES
+            ? "warning"
+            : "info";
+    } else if (retained >= SLOT_CRITICAL_BYTES) {
+      severity = "warning";
+    }
+    if (severity) {
+      findings.push({
+        check: "replication-slots",
+        severity,
+        subject: slot.name,
+        message: `${state} ${slot.type} slot retains ${formatMemory(retained)} of WAL${slot.walStatus === "unreserved" ? " and is about to lose it" : ""}`,
+        recommendation: slot.active
+          ? "Check the consumer's lag (pg_stat_replication)"
+          : `Drop it if its consumer is gone (${dropHint(slot)})` +
+            (unlimited ? "; set max_slot_wal_keep_size to cap retained WAL" : ""),
+      });
+    }
+
+    if (slot.xminAge !== null && slot.xminAge >= freezeMaxAge) {
+      findings.push({
+        check: "replication-slots",
+        severity: "warning",
+        subject: slot.name,
+        message: `Holds back vacuum and freezing: its xmin is ${formatCount(slot.xminAge)} transactions old`,
+        recommendation: slot.active
+          ? "Find the long-running query on the consumer (hot_standby_feedback)"
+          : `Drop it if its consumer is gone (${dropHint(slot)})`,
+      });
+    }
+  }
+
+  const inactive = slots.filter((slot) => !slot.active).length;
+  return result(
+    "replication-slots",
+    findings,
+    `${slots.length} slots, ${inactive} inactive` +
+      (unlimited ? ", max_slot_wal_keep_size unlimited" : `, max_slot_wal_keep_size ${keepSize}MB`)
+  );
+}
+
+// ============================================================================
+// Top statements
+// ============================================================================
+
+/** A statement is slow from this mean time when it also runs often */
+export const SLOW_STATEMENT_MS = 500;
+const SLOW_STATEMENT_MIN_CALLS = 10;
+
+function statementSubject(query: string): string {
+  const line = query.replace(/\s+/g, " ").trim();
+  return line.length > 60 ? `${line.slice(0, 57)}...` : line;
+}
+
+export function checkTopStatements(
+  settings: ServerSettings,
+  statements: TopStatement[] | null,
+  database: string
+): CheckResult {
+  if (statements === null) {
+    return skipped(
+      "top-queries",
+      `pg_stat_statements extension not installed in ${database} (CREATE EXTENSION pg_stat_statements)`
+    );
+  }
+
+  const findings: Finding[] = statements.map((statement) => {
+    const slow =
+      statement.meanMs >= SLOW_STATEMENT_MS && statement.calls >= SLOW_STATEMENT_MIN_CALLS;
+    const blocks = statement.sharedHit + statement.sharedRead;
+    const details = [
+      statement.percent === null ? null : `${formatPercent(statement.percent)} of execution time`,
+      `${formatCount(statement.calls)} calls`,
+      `mean ${statement.meanMs.toFixed(1)} ms`,
+      blocks > 0 ? `cache hit ${formatPercent((statement.sharedHit / blocks) * 100)}` : null,
+      statement.tempWritten > 0
+        ? `${formatCount(statement.tempWritten)} temp blocks written`
+        : null,
+      statement.database && statement.database !== database ? `in ${statement.database}` : null,
+    ].filter(Boolean);
+
+    let recommendation: string | undefined;
+    if (statement.indexAdvice && statement.indexAdvice.length > 0) {
+      recommendation = `index_advisor suggests: ${statement.indexAdvice.join("; ")}`;
+    } else if (statement.tempWritten > 0) {
+      recommendation = "Spills to disk: raise work_mem for this role or add an index for the sort";
+    } else if (slow) {
+      recommendation = `EXPLAIN (ANALYZE, BUFFERS) it (queryid ${statement.queryId})`;
+    }
+    return {
+      check: "top-queries",
+      severity: slow ? "warning" : "info",
+      subject: statementSubject(statement.query),
+      message: details.join(", "),
+      recommendation,
+    };
+  });
+
+  const advisor = settings.extensions.includes("index_advisor")
+    ? "index_advisor consulted for SELECTs"
+    : "install index_advisor for index suggestions";
+  return {
+    ...result(
+      "top-queries",
+      findings,
+      `Top ${statements.length} statements by total time; ${advisor}`
+    ),
+    // Top statements are listed for reference: they are not a problem in themselves
+    status: findings.some((finding) => finding.severity !== "info") ? "findings" : "ok",
+  };
+}
+
+// ============================================================================
+// Auto-config
+// ============================================================================
+
+/** Resources differing by more than this share count as a changed limit */
+const RESOURCE_TOLERANCE = 0.05;
+
+/** GUCs the entrypoint derives from RAM and CPUs */
+const TUNED_SETTINGS = [
+  "shared_buffers",
+  "effective_cache_size",
+  "maintenance_work_mem",
+  "work_mem",
+  "max_connections",
+  "io_workers",
+  "max_parallel_workers",
+];
+
+/**
+ * Convert a pg_settings memory value to MB ("16384" with unit "8kB" is 128)
+ */
+export function settingToMB(setting: string, unit: string | null): number {
+  const value = Number(setting);
+  const bytesPerUnit: Record<string, number> = {
+    B: 1,
+    kB: 1024,
+    "8kB": 8192,
+    MB: 1024 * 1024,
+    GB: 1024 * 1024 * 1024,
+  };
+  return (value * (bytesPerUnit[unit ?? "MB"] ?? 1024 * 1024)) / 1024 / 1024;
+}
+
+/** Live value of a tuned GUC in the form planTuning renders it */
+function liveSetting(settings: ServerSettings, name: string): string | undefined {
+  const entry = settings.settings[name];
+  if (!entry) return undefined;
+  return entry.unit ? `${Math.round(settingToMB(entry.setting, entry.unit))}MB` : entry.setting;
+}
+
+function plannedSettings(
+  ramMB: number,
+  cpuCores: number,
+  workload: WorkloadType,
+  storage: StorageType
+): Map<string, string> | null {
+  try {
+    const plan = planTuning({
+      memoryMB: ramMB,
+      cpuCores,
+      workload,
+      storage,
+      sharedPreloadLibraries: [],
+    });
+    return new Map(plan.gucs.filter(([name]) => TUNED_SETTINGS.includes(name)));
+  } catch {
+    return null;
+  }
+}
+
+function differs(a: number, b: number): boolean {
+  return Math.abs(a - b) > Math.max(a, b) * RESOURCE_TOLERANCE;
+}
+
+export function checkAutoConfig(
+  settings: ServerSettings,
+  resources: ContainerResources | null
+): CheckResult {
+  const ramMB = Number(settings.aza.ram_mb);
+  const cpuCores = Number(settings.aza.cpu_cores);
+  if (!settings.aza.ram_mb || !Number.isFinite(ramMB) || !Number.isFinite(cpuCores)) {
+    return skipped("auto-config", "aza.* settings missing: not started by the aza-pg entrypoint");
+  }
+  if (!resources) {
+    return skipped("auto-config", "Could not read the container's cgroup limits");
+  }
+
+  const workload = WORKLOAD_TYPES.find((type) => type === settings.aza.workload_type) ?? "mixed";
+  const storage = STORAGE_TYPES.find((type) => type === settings.aza.storage_type) ?? "ssd";
+  const ramSource = settings.aza.ram_source ?? "unknown";
+  const detected = detectResources(resources);
+  const findings: Finding[] = [];
+
+  const memoryChanged = ramSource !== "manual" && differs(ramMB, detected.ramMB);
+  const cpuChanged = cpuCores !== detected.cpuCores;
+  if (memoryChanged || cpuChanged) {
+    const changes = [
+      memoryChanged
+        ? `memory ${ramMB} MB (${ramSource}) → ${detected.ramMB} MB (${detected.ramSource})`
+        : null,
+      cpuChanged ? `CPUs ${cpuCores} → ${detected.cpuCores} (${detected.cpuSource})` : null,
+    ].filter(Boolean);
+    const planned = plannedSettings(
+      memoryChanged ? detected.ramMB : ramMB,
+      detected.cpuCores,
+      workload,
+      storage
+    );
+    const retune = planned
+      ? [...planned]
+          .filter(([name, value]) => liveSetting(settings, name) !== value)
+          .map(([name, value]) => `${name} ${liveSetting(settings, name)} → ${value}`)
+      : [];
+    findings.push({
+      check: "auto-config",
+      severity: "warning",
+      subject: "resources",
+      message: `Container limits changed since PostgreSQL started: ${changes.join(", ")}`,
+      recommendation:
+        "Restart the container so auto-config retunes" +
+        (retune.length > 0 ? ` (${retune.join(", ")})` : ""),
+    });
+  }
+
+  if (
+    ramSource === "manual" &&
+    detected.ramSource === "cgroup-v2" &&
+    ramMB > detected.ramMB * (1 + RESOURCE_TOLERANCE)
+  ) {
+    findings.push({
+      check: "auto-config",
+      severity: "critical",
+      subject: "POSTGRES_MEMORY",
+      message: `POSTGRES_MEMORY=${ramMB} exceeds the container's ${detected.ramMB} MB memory limit: PostgreSQL is sized for memory it cannot use and risks the OOM killer`,
+      recommendation: `Lower POSTGRES_MEMORY to at most ${detected.ramMB} or raise the container's memory limit`,
+    });
+  }
+
+  if (ramSource === "meminfo" && detected.ramSource === "meminfo") {
+    findings.push({
+      check: "auto-config",
+      severity: "info",
+      subject: "memory limit",
+      message: `No container memory limit: tuned for the host's ${ramMB} MB`,
+      recommendation: "Set a memory limit (deploy.resources.limits.memory) or POSTGRES_MEMORY",
+    });
+  }
+
+  // Values that differ from what auto-config computes for the recorded resources were set elsewhere
+  const expected = plannedSettings(ramMB, cpuCores, workload, storage);
+  const overridden = expected
+    ? [...expected].filter(([name, value]) => {
+        const live = liveSetting(settings, name);
+        return live !== undefined && live !== value;
+      })
+    : [];
+  if (overridden.length > 0) {
+    findings.push({
+      check: "auto-config",
+      severity: "info",
+      subject: "settings",
+      message: `Live settings differ from auto-config for ${ramMB} MB / ${cpuCores} CPUs: ${overridden
+        .map(([name, value]) => `${name} ${liveSetting(settings, name)} (auto-config ${value})`)
+        .join(", ")}`,
+      recommendation: "Expected when set on purpose; otherwise check the image version and command",
+    });
+  }
+
+  return result(
+    "auto-config",
+    findings,
+    `Started with ${ramMB} MB (${ramSource}) and ${cpuCores} CPUs (${settings.aza.cpu_source ?? "unknown"}); container now ${detected.ramMB} MB (${detected.ramSource}) and ${detected.cpuCores} CPUs (${detected.cpuSource})`
+  );
+}
+
+// ============================================================================
+// Report
+// ============================================================================
+
+export interface DoctorInput {
+  container: string;
+  database: string;
+  settings: ServerSettings;
+  tables: TableStats[];
+  indexes: IndexStats[];
+  databases: DatabaseAge[];
+  slots: SlotHealth[];
+  /** null when pg_stat_statements is not installed in the database */
+  statements: TopStatement[] | null;
+  /** null when the cgroup limits could not be read */
+  resources: ContainerResources | null;
+}
+
+/**
+ * Run every check and collect the findings, most severe first
+ */
+export function buildReport(input: DoctorInput): DoctorReport {
+  const { settings, database } = input;
+  const checks = [
+    checkWraparound(settings, input.databases, input.tables, database),
+    checkReplicationSlots(settings, input.slots),
+    checkAutovacuum(settings, input.tables),
+    checkAutoConfig(settings, input.resources),
+    checkBloat(settings, input.tables, input.indexes),
+    checkUnusedIndexes(settings, input.indexes),
+    checkDuplicateIndexes(input.indexes),
+    checkTopStatements(settings, input.statements, database),
+  ];
+
+  // Stable sort: within a severity, findings keep check order
+  const findings = checks
+    .flatMap((check) => check.findings)
+    .sort((a, b) => SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity));
+  const counts = { critical: 0, warning: 0, info: 0 };
+  for (const finding of findings) {
+    counts[finding.severity]++;
+  }
+
+  return {
+    container: input.container,
+    database,
+    generatedAt: new Date(settings.now * 1000).toISOString(),
+    serverVersion: settings.serverVersion,
+    inRecovery: settings.inRecovery,
+    checks,
+    findings,
+    counts,
+  };
+}
+
+export type ReportFormat = "table" | "json";
+export const REPORT_FORMATS: readonly ReportFormat[] = ["table", "json"];
+
+const STATUS_MARKERS: Readonly<Record<CheckResult["status"], string>> = {
+  ok: "✓",
+  findings: "!",
+  skipped: "-",
+};
+
+/** Subjects longer than this are truncated in the table */
+const SUBJECT_WIDTH = 40;
+
+/**
+ * Render a report as a terminal table or as JSON
+ */
+export function formatReport(report: DoctorReport, format: ReportFormat): string {
+  if (format === "json") {
+    return JSON.stringify(report, null, 2);
+  }
+
+  const lines = [
+    `aza-pg doctor: ${report.container} (database ${report.database}, PostgreSQL ${report.serverVersion}${report.inRecovery ? ", replica" : ""})`,
+    "",
+  ];
+
+  if (report.findings.length === 0) {
+    lines.push("No findings.");
+  } else {
+    const subject = (finding: Finding) =>
+      finding.subject.length > SUBJECT_WIDTH
+        ? `${finding.subject.slice(0, SUBJECT_WIDTH - 3)}...`
+        : finding.subject;
+    const checkWidth = Math.max(5, ...report.findings.map((finding) => finding.check.length));
+    const subjectWidth = Math.max(7, ...report.findings.map((finding) => subject(finding).length));
+    const indent = " ".repeat(8 + 2 + checkWidth + 2 + subjectWidth + 2);
+
+    lines.push(
+      `${"SEVERITY".padEnd(8)}  ${"CHECK".padEnd(checkWidth)}  ${"SUBJECT".padEnd(subjectWidth)}  FINDING`
+    );
+    for (const finding of report.findings) {
+      lines.push(
+        `${finding.severity.padEnd(8)}  ${finding.check.padEnd(checkWidth)}  ${subject(finding).padEnd(subjectWidth)}  ${finding.message}`
+      );
+      if (finding.recommendation) {
+        lines.push(`${indent}→ ${finding.recommendation}`);
+      }
+    }
+  }
+
+  lines.push("", "Checks:");
+  const titleWidth = Math.max(...report.checks.map((check) => check.title.length));
+  for (const check of report.checks) {
+    lines.push(
+      `  ${STATUS_MARKERS[check.status]} ${check.title.padEnd(titleWidth)}  ${check.summary}`
+    );
+  }
+  lines.push(
+    "",
+    `${report.counts.critical} critical, ${report.counts.warning} warning, ${report.counts.info} info`
+  );
+  return lines.join("\n");
+}
@@ -0,0 +1,233 @@
+#!/usr/bin/env bun
+/**
+ * Print a prioritized health report for a running aza-pg container
+ *
+ * USAGE:
+ *   bun scripts/tools/doctor.ts --container NAME [OPTIONS]
+ *
+ * OPTIONS:
+ *   --container NAME    PostgreSQL container to inspect (required)
+ *   --database NAME     Database whose tables, indexes and statements are checked (default: postgres)
+ *   --format FORMAT     table or json (default: table)
+ *   --top N             pg_stat_statements entries to report (default: 10)
+ *   -h, --help          Show this help message
+ *
+ * DESCRIPTION:
+ *   Reads the catalog and statistics views of a live server and reports, most severe first:
+ *   transaction ID wraparound distance, replication slots retaining WAL, autovacuum lag, auto-config
+ *   decisions that no longer match the container's cgroup limits, table and index bloat estimates,
+ *   unused and duplicate indexes, and the top pg_stat_statements entries (with index_advisor
+ *   suggestions when the extension is installed). Only reads: every recommendation is left to the
+ *   operator.
+ *
+ * EXAMPLES:
+ *   # Report for the primary
+ *   bun scripts/tools/doctor.ts --container aza-pg-postgres-primary
+ *
+ *   # Check the application database, as JSON for monitoring
+ *   bun scripts/tools/doctor.ts --container aza-pg-postgres-primary --database app --format json
+ *
+ * PREREQUISITES:
+ *   - Docker installed and running, with the container running
+ *
+ * EXIT CODES:
+ *   0 - Report printed, no critical findings
+ *   1 - Invalid arguments or a failed query
+ *   2 - Report printed with critical findings
+ */
+
+import { $ } from "bun";
+import { getErrorMessage } from "../utils/errors";
+import { checkCommand, checkDockerDaemon } from "../utils/docker";
+import { error } from "../utils/logger";
+import {
+  buildReport,
+  formatReport,
+  indexAdvisorQuery,
+  INDEXES_QUERY,
+  parseContainerResources,
+  parseDatabaseAges,
+  parseIndexAdvice,
+  parseIndexes,
+  parseSettings,
+  parseSlotHealth,
+  parseTables,
+  parseTopStatements,
+  REPORT_FORMATS,
+  RESOURCES_SCRIPT,
+  SETTINGS_QUERY,
+  SLOT_HEALTH_QUERY,
+  TABLES_QUERY,
+  topStatementsQuery,
+  WRAPAROUND_QUERY,
+  type ContainerResources,
+  type ReportFormat,
+  type TopStatement,
+} from "./doctor-checks";
+
+interface DoctorConfig {
+  container: string;
+  database: string;
+  format: ReportFormat;
+  top: number;
+}
+
+/** Keeps the doctor from piling onto a server that is already struggling */
+const STATEMENT_TIMEOUT = "30s";
+
+function printHelp(): void {
+  process.stdout.write(`
+Print a prioritized health report for a running aza-pg container
+
+USAGE:
+  bun scripts/tools/doctor.ts --container NAME [OPTIONS]
+
+OPTIONS:
+  --container NAME    PostgreSQL container to inspect (required)
+  --database NAME     Database whose tables, indexes and statements are checked (default: postgres)
+  --format FORMAT     ${REPORT_FORMATS.join(" or ")} (default: table)
+  --top N             pg_stat_statements entries to report (default: 10)
+  -h, --help          Show this help message
+
+EXAMPLES:
+  # Report for the primary
+  bun scripts/tools/doctor.ts --container aza-pg-postgres-primary
+
+  # Check the application database, as JSON for monitoring
+  bun scripts/tools/doctor.ts --container aza-pg-postgres-primary --database app --format json
+`);
+  process.exit(0);
+}
+
+function parseArgs(): DoctorConfig {
+  const args = Bun.argv.slice(2);
+  const config: DoctorConfig = { container: "", database: "postgres", format: "table", top: 10 };
+
+  const requireValue = (option: string, index: number): string => {
+    const value = args[index];
+    if (value === undefined || value === "") {
+      error(`Missing value for ${option} option`);
+      process.exit(1);
+    }
+    return value;
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case "--container":
+        config.container = requireValue(arg, ++i);
+        break;
+
+      case "--database":
+        config.database = requireValue(arg, ++i);
+        break;
+
+      case "--format": {
+        const value = requireValue(arg, ++i);
+        if (!(REPORT_FORMATS as readonly string[]).includes(value)) {
+          error(`--format must be one of: ${REPORT_FORMATS.join(", ")} (got '${value}')`);
+          process.exit(1);
+        }
+        config.format = value as ReportFormat;
+        break;
+      }
+
+      case "--top": {
+        const value = requireValue(arg, ++i);
+        if (!/^\d+$/.test(value) || Number(value) < 1) {
+          error(`--top must be a positive integer (got '${value}')`);
+          process.exit(1);
+        }
+        config.top = Number(value);
+        break;
+      }
+
+      case "-h":
+      case "--help":
+        printHelp();
+        break;
+
+      default:
+        error(`Unknown option: ${arg}. Use -h for help.`);
+        process.exit(1);
+    }
+  }
+
+  if (!config.container) {
+    error("--container is required. Use -h for help.");
+    process.exit(1);
+  }
+
+  return config;
+}
+
+async function psql(config: DoctorConfig, sql: string): Promise<string> {
+  const result =
+    await $`docker exec -e PGOPTIONS=${`-c statement_timeout=${STATEMENT_TIMEOUT}`} ${config.container} psql -U postgres -d ${config.database} -v ON_ERROR_STOP=1 -tAc ${sql}`
+      .nothrow()
+      .quiet();
+  if (result.exitCode !== 0) {
+    throw new Error(`Query on ${config.container} failed: ${result.stderr.toString().trim()}`);
+  }
+  return result.text().trim();
+}
+
+async function readResources(container: string): Promise<ContainerResources | null> {
+  const result = await $`docker exec ${container} sh -c ${RESOURCES_SCRIPT}`.nothrow().quiet();
+  return result.exitCode === 0 ? parseContainerResources(result.text()) : null;
+}
+
+/**
+ * Ask index_advisor about each SELECT; a statement it cannot plan is left without advice
+ */
+async function adviseIndexes(config: DoctorConfig, statements: TopStatement[]): Promise<void> {
+  for (const statement of statements) {
+    const query = indexAdvisorQuery(statement, config.database);
+    if (!query) continue;
+    try {
+      statement.indexAdvice = parseIndexAdvice(await psql(config, query));
+    } catch {
+      // Statements index_advisor cannot plan (e.g. parameters of unknown type) get no advice
+    }
+  }
+}
+
+async function main(): Promise<void> {
+  const config = parseArgs();
+
+  await checkCommand("docker");
+  await checkDockerDaemon();
+
+  const settings = parseSettings(await psql(config, SETTINGS_QUERY));
+  let statements: TopStatement[] | null = null;
+  if (settings.extensions.includes("pg_stat_statements")) {
+    statements = parseTopStatements(await psql(config, topStatementsQuery(config.top)));
+    if (settings.extensions.includes("index_advisor")) {
+      await adviseIndexes(config, statements);
+    }
+  }
+
+  const report = buildReport({
+    container: config.container,
+    database: config.database,
+    settings,
+    tables: parseTables(await psql(config, TABLES_QUERY)),
+    indexes: parseIndexes(await psql(config, INDEXES_QUERY)),
+    databases: parseDatabaseAges(await psql(config, WRAPAROUND_QUERY)),
+    slots: parseSlotHealth(await psql(config, SLOT_HEALTH_QUERY)),
+    statements,
+    resources: await readResources(config.container),
+  });
+
+  process.stdout.write(`${formatReport(report, config.format)}\n`);
+  process.exit(report.counts.critical > 0 ? 2 : 0);
+}
+
+if (import.meta.main) {
+  main().catch((err) => {
+    error(getErrorMessage(err));
+    process.exit(1);
+  });
+}
@@ -0,0 +1,161 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  buildPgDumpArgs,
+  buildPgRestoreArgs,
+  compareRowCounts,
+  detectDumpFormat,
+  dumpExtension,
+  parseCompression,
+  parseDumpFormat,
+  parseRowCountManifest,
+  parseRowCounts,
+  validateDumpOptions,
+  type DumpOptions,
+  type RowCountManifest,
+} from "./dump-format";
+
+const DIRECTORY_OPTIONS: DumpOptions = {
+  format: "directory",
+  compression: { method: "zstd", level: 3 },
+  jobs: 4,
+  schemas: ["app"],
+  excludeTables: ["app.audit_log", "public.*_tmp"],
+};
+
+describe("option parsing", () => {
+  test("formats accept pg_dump's single-letter aliases", () => {
+    expect(parseDumpFormat("custom")).toBe("custom");
+    expect(parseDumpFormat("d")).toBe("directory");
+    expect(() => parseDumpFormat("tar")).toThrow("Invalid format 'tar'");
+  });
+
+  test("compression takes an optional level within the method's range", () => {
+    expect(parseCompression("zstd:19")).toEqual({ method: "zstd", level: 19 });
+    expect(parseCompression("LZ4")).toEqual({ method: "lz4" });
+    expect(parseCompression("none")).toEqual({ method: "none" });
+    expect(() => parseCompression("gzip:10")).toThrow("Invalid gzip compression level '10' (1-9)");
+    expect(() => parseCompression("none:1")).toThrow("takes no level");
+    expect(() => parseCompression("brotli")).toThrow("Invalid compression 'brotli'");
+  });
+
+  test("parallel dumps require the directory format", () => {
+    expect(() => validateDumpOptions(DIRECTORY_OPTIONS)).not.toThrow();
+    expect(() => validateDumpOptions({ ...DIRECTORY_OPTIONS, format: "custom" })).toThrow(
+      "--jobs requires --format=directory"
+    );
+    expect(() => validateDumpOptions({ ...DIRECTORY_OPTIONS, jobs: 0 })).toThrow(
+      "--jobs must be a positive integer"
+    );
+  });
+});
+
+describe("pg_dump and pg_restore arguments", () => {
+  test("dump arguments carry compression, jobs, filters and snapshot", () => {
+    expect(buildPgDumpArgs(DIRECTORY_OPTIONS, "out.dir", "00000003-0000001B-1")).toEqual([
+      "--format=directory",
+      "--file=out.dir",
+      "--no-owner",
+      "--no-acl",
+      "--compress=zstd:3",
+      "--jobs=4",
+      "--schema=app",
+      "--exclude-table=app.audit_log",
+      "--exclude-table=public.*_tmp",
+      "--snapshot=00000003-0000001B-1",
+    ]);
+  });
+
+  test("plain gzip dumps keep the .sql.gz name", () => {
+    const plain: DumpOptions = {
+      format: "plain",
+      compression: { method: "gzip" },
+      jobs: 1,
+      schemas: [],
+      excludeTables: [],
+    };
+    expect(buildPgDumpArgs(plain, "b.sql.gz")).toEqual([
+      "--format=plain",
+      "--file=b.sql.gz",
+      "--no-owner",
+      "--no-acl",
+      "--compress=gzip",
+    ]);
+    expect(dumpExtension("plain", { method: "gzip" })).toBe(".sql.gz");
+    expect(dumpExtension("plain", { method: "none" })).toBe(".sql");
+    expect(dumpExtension("custom", { method: "lz4" })).toBe(".dump");
+    expect(dumpExtension("directory", { method: "zstd" })).toBe(".dir");
+  });
+
+  test("restore arguments only add --jobs when parallel", () => {
+    expect(buildPgRestoreArgs("b.dump", "mydb", 1)).toEqual([
+      "--no-owner",
+      "--no-acl",
+      "--dbname=mydb",
+      "b.dump",
+    ]);
+    expect(buildPgRestoreArgs("b.dir", "mydb", 8)).toContain("--jobs=8");
+  });
+});
+
+describe("detectDumpFormat", () => {
+  const bytes = (...values: number[]) => new Uint8Array(values);
+
+  test("recognizes archives and compressed plain dumps by magic bytes", () => {
+    const file = { isDirectory: false };
+    expect(detectDumpFormat(new TextEncoder().encode("PGDMP\x01\x10"), file).format).toBe("custom");
+    expect(detectDumpFormat(bytes(0x1f, 0x8b, 0x08), file)).toEqual({
+      format: "plain",
+      compression: "gzip",
+    });
+    expect(detectDumpFormat(bytes(0x28, 0xb5, 0x2f, 0xfd), file).compression).toBe("zstd");
+    expect(detectDumpFormat(bytes(0x04, 0x22, 0x4d, 0x18), file).compression).toBe("lz4");
+    expect(detectDumpFormat(new TextEncoder().encode("--\n-- PostgreSQL"), file)).toEqual({
+      format: "plain",
+      compression: "none",
+    });
+  });
+
+  test("directories need a toc.dat", () => {
+    expect(detectDumpFormat(bytes(), { isDirectory: true, hasTocFile: true }).format).toBe(
+      "directory"
+    );
+    expect(() => detectDumpFormat(bytes(), { isDirectory: true, hasTocFile: false })).toThrow(
+      "no toc.dat"
+    );
+  });
+});
+
+describe("row-count verification", () => {
+  const manifest: RowCountManifest = {
+    database: "app",
+    createdAt: "2026-10-19T10:00:00.000Z",
+    filtered: false,
+    tables: parseRowCounts("app|orders|1200\napp|users|40\npublic|odd|name|7\n"),
+  };
+
+  test("parses qualified names, including '|' in table names", () => {
+    expect(manifest.tables).toEqual([
+      { table: "app.orders", rows: 1200 },
+      { table: "app.users", rows: 40 },
+      { table: "public.odd|name", rows: 7 },
+    ]);
+  });
+
+  test("reports mismatches and missing tables, ignoring extra restored tables", () => {
+    const restored = parseRowCounts("app|orders|1199\napp|users|40\npublic|other|3\n");
+    expect(compareRowCounts(manifest, restored)).toEqual({
+      matched: 1,
+      mismatched: [{ table: "app.orders", expected: 1200, actual: 1199 }],
+      missing: ["public.odd|name"],
+    });
+    expect(compareRowCounts({ ...manifest, filtered: true }, restored).missing).toEqual([]);
+  });
+
+  test("manifests round-trip through JSON and are validated", () => {
+    expect(parseRowCountManifest(JSON.stringify(manifest))).toEqual(manifest);
+    expect(() => parseRowCountManifest('{"tables":[{"table":"t","rows":"x"}]}')).toThrow(
+      "Invalid row-count manifest"
+    );
+  });
+});
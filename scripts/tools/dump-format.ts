@@ -0,0 +1,295 @@
+/**
+ * Dump formats, compression and row-count verification for backup-postgres.ts / restore-postgres.ts
+ *
+ * Pure logic: pg_dump/pg_restore arguments, format detection from a dump's first bytes, and the
+ * row-count manifest written next to each dump so a restore can be compared with its source.
+ */
+
+export type DumpFormat = "plain" | "custom" | "directory";
+
+export type CompressionMethod = "gzip" | "zstd" | "lz4" | "none";
+
+export interface Compression {
+  method: CompressionMethod;
+  level?: number;
+}
+
+export interface DumpOptions {
+  format: DumpFormat;
+  compression: Compression;
+  jobs: number;
+  schemas: string[];
+  excludeTables: string[];
+}
+
+/** Dump format and compression as seen on disk */
+export interface DetectedDump {
+  format: DumpFormat;
+  /** Outer compression of plain dumps (archive formats compress internally) */
+  compression: CompressionMethod;
+}
+
+export interface TableRowCount {
+  /** Qualified name: schema.table */
+  table: string;
+  rows: number;
+}
+
+/** Written next to each dump as <dump>.rowcounts.json */
+export interface RowCountManifest {
+  database: string;
+  createdAt: string;
+  /** Whether --schema/--exclude-table limited the dump (then not every source table is restored) */
+  filtered: boolean;
+  tables: TableRowCount[];
+}
+
+export interface RowCountComparison {
+  matched: number;
+  mismatched: Array<{ table: string; expected: number; actual: number }>;
+  /** In the manifest but not in the restored database */
+  missing: string[];
+}
+
+export const DUMP_FORMATS: readonly DumpFormat[] = ["plain", "custom", "directory"];
+
+const COMPRESSION_LEVELS: Record<Exclude<CompressionMethod, "none">, [number, number]> = {
+  gzip: [1, 9],
+  zstd: [1, 22],
+  lz4: [1, 12],
+};
+
+/** File name suffix of a row-count manifest */
+export const ROW_COUNT_SUFFIX = ".rowcounts.json";
+
+/**
+ * Exact row counts of the user tables in the current database, one "schema|table|rows" line each
+ *
+ * Extension-owned tables are skipped: their contents come from CREATE EXTENSION in the target
+ * (e.g. cron.job), not from the dump. So is pg_aza_status, which every aza-pg database fills at
+ * initialization. Partitions are counted individually, parents are not.
+ */
+export const ROW_COUNT_QUERY = `SELECT n.nspname || '|' || c.relname || '|' ||
+  (xpath('/row/n/text()', query_to_xml(format('SELECT count(*) AS n FROM %I.%I', n.nspname, c.relname), false, true, '')))[1]::text
+FROM pg_class c
+JOIN pg_namespace n ON n.oid = c.relnamespace
+WHERE c.relkind = 'r'
+  AND n.nspname NOT IN ('pg_catalog', 'information_schema')
+  AND n.nspname NOT LIKE 'pg\\_toast%'
+  AND (n.nspname, c.relname) <> ('public', 'pg_aza_status')
+  AND NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.classid = 'pg_class'::regclass AND d.objid = c.oid AND d.deptype = 'e')
+ORDER BY 1`;
+
+/**
+ * Parse a --format value
+ *
+ * @throws Error for unknown formats
+ */
+export function parseDumpFormat(value: string): DumpFormat {
+  const format = value.toLowerCase();
+  // pg_dump's single-letter aliases
+  const alias: Record<string, DumpFormat> = { p: "plain", c: "custom", d: "directory" };
+  const resolved = alias[format] ?? format;
+  if (!DUMP_FORMATS.includes(resolved as DumpFormat)) {
+    throw new Error(`Invalid format '${value}'. Use one of: ${DUMP_FORMATS.join(", ")}`);
+  }
+  return resolved as DumpFormat;
+}
+
+/**
+ * Parse a --compress value: METHOD[:LEVEL], e.g. "zstd:3"
+ *
+ * @throws Error for unknown methods or out-of-range levels
+ */
+export function parseCompression(value: string): Compression {
+  const [method = "", level, ...rest] = value.toLowerCase().split(":");
+  if (rest.length > 0 || !["gzip", "zstd", "lz4", "none"].includes(method)) {
+    throw new Error(
+      `Invalid compression '${value}'. Use gzip, zstd or lz4 (optionally :LEVEL), or none`
+    );
+  }
+  if (level === undefined) {
+    return { method: method as CompressionMethod };
+  }
+  if (method === "none") {
+    throw new Error("Compression 'none' takes no level");
+  }
+  const [min, max] = COMPRESSION_LEVELS[method as Exclude<CompressionMethod, "none">];
+  const parsed = Number(level);
+  if (!/^\d+$/.test(level) || parsed < min || parsed > max) {
+    throw new Error(`Invalid ${method} compression level '${level}' (${min}-${max})`);
+  }
+  return { method: method as CompressionMethod, level: parsed };
+}
+
+/**
+ * Check option combinations pg_dump would reject
+ *
+ * @throws Error describing the conflict
+ */
+export function validateDumpOptions(options: DumpOptions): void {
+  if (options.jobs < 1 || !Number.isInteger(options.jobs)) {
+    throw new Error("--jobs must be a positive integer");
+  }
+  if (options.jobs > 1 && options.format !== "directory") {
+    throw new Error("pg_dump --jobs requires --format=directory (restore can still use --jobs)");
+  }
+}
+
+/**
+ * File (or directory) name suffix for a dump
+ */
+export function dumpExtension(format: DumpFormat, compression: Compression): string {
+  if (format === "custom") return ".dump";
+  if (format === "directory") return ".dir";
+  const suffix: Record<CompressionMethod, string> = {
+    gzip: ".gz",
+    zstd: ".zst",
+    lz4: ".lz4",
+    none: "",
+  };
+  return `.sql${suffix[compression.method]}`;
+}
+
+/**
+ * pg_dump arguments (without connection options) writing the dump to outputFile
+ */
+export function buildPgDumpArgs(
+  options: DumpOptions,
+  outputFile: string,
+  snapshot?: string
+): string[] {
+  const args = [`--format=${options.format}`, `--file=${outputFile}`, "--no-owner", "--no-acl"];
+  const { method, level } = options.compression;
+  args.push(`--compress=${level === undefined ? method : `${method}:${level}`}`);
+  if (options.jobs > 1) {
+    args.push(`--jobs=${options.jobs}`);
+  }
+  for (const schema of options.schemas) {
+    args.push(`--schema=${schema}`);
+  }
+  for (const table of options.excludeTables) {
+    args.push(`--exclude-table=${table}`);
+  }
+  if (snapshot) {
+    args.push(`--snapshot=${snapshot}`);
+  }
+  return args;
+}
+
+/**
+ * pg_restore arguments (without connection options) for an archive-format dump
+ */
+export function buildPgRestoreArgs(dumpPath: string, database: string, jobs: number): string[] {
+  const args = ["--no-owner", "--no-acl", `--dbname=${database}`];
+  if (jobs > 1) {
+    args.push(`--jobs=${jobs}`);
+  }
+  args.push(dumpPath);
+  return args;
+}
+
+/**
+ * Detect a dump's format from its first bytes (or, for directories, whether toc.dat exists)
+ *
+ * Custom-format archives start with "PGDMP" whatever their internal compression; plain dumps are
+ * recognized by the gzip, zstd and lz4 frame magic numbers and are SQL text otherwise.
+ *
+ * @throws Error for directories that are not directory-format dumps
+ */
+export function detectDumpFormat(
+  header: Uint8Array,
+  entry: { isDirectory: boolean; hasTocFile?: boolean }
+): DetectedDump {
+  if (entry.isDirectory) {
+    if (!entry.hasTocFile) {
+      throw new Error("Directory is not a pg_dump directory-format dump (no toc.dat)");
+    }
+    return { format: "directory", compression: "none" };
+  }
+
+  const startsWith = (...bytes: number[]) => bytes.every((byte, i) => header[i] === byte);
+  if (startsWith(0x50, 0x47, 0x44, 0x4d, 0x50)) {
+    return { format: "custom", compression: "none" };
+  }
+  if (startsWith(0x1f, 0x8b)) {
+    return { format: "plain", compression: "gzip" };
+  }
+  if (startsWith(0x28, 0xb5, 0x2f, 0xfd)) {
+    return { format: "plain", compression: "zstd" };
+  }
+  if (startsWith(0x04, 0x22, 0x4d, 0x18)) {
+    return { format: "plain", compression: "lz4" };
+  }
+  return { format: "plain", compression: "none" };
+}
+
+/**
+ * Parse ROW_COUNT_QUERY output
+ */
+export function parseRowCounts(output: string): TableRowCount[] {
+  return output
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .map((line) => {
+      const rows = line.slice(line.lastIndexOf("|") + 1);
+      const name = line.slice(0, line.lastIndexOf("|"));
+      const separator = name.indexOf("|");
+      return {
+        table: `${name.slice(0, separator)}.${name.slice(separator + 1)}`,
+        rows: Number(rows),
+      };
+    });
+}
+
+/**
+ * Compare restored row counts with a backup's manifest
+ *
+ * Tables in the restored database that the manifest does not list are ignored: the restore target
+ * may hold other tables. Tables missing from the restore only count when the dump was unfiltered.
+ */
+export function compareRowCounts(
+  manifest: RowCountManifest,
+  restored: TableRowCount[]
+): RowCountComparison {
+  const actual = new Map(restored.map((t) => [t.table, t.rows]));
+  const comparison: RowCountComparison = { matched: 0, mismatched: [], missing: [] };
+
+  for (const { table, rows } of manifest.tables) {
+    const restoredRows = actual.get(table);
+    if (restoredRows === undefined) {
+      if (!manifest.filtered) {
+        comparison.missing.push(table);
+      }
+    } else if (restoredRows === rows) {
+      comparison.matched++;
+    } else {
+      comparison.mismatched.push({ table, expected: rows, actual: restoredRows });
+    }
+  }
+
+  return comparison;
+}
+
+/**
+ * Read a row-count manifest
+ *
+ * @throws Error if the JSON is not a manifest
+ */
+export function parseRowCountManifest(json: string): RowCountManifest {
+  const manifest = JSON.parse(json) as Partial<RowCountManifest>;
+  if (
+    typeof manifest !== "object" ||
+    manifest === null ||
+    !Array.isArray(manifest.tables) ||
+    !manifest.tables.every((t) => typeof t?.table === "string" && Number.isInteger(t?.rows))
+  ) {
+    throw new Error("Invalid row-count manifest");
+  }
+  return {
+    database: String(manifest.database ?? ""),
+    createdAt: String(manifest.createdAt ?? ""),
+    filtered: manifest.filtered === true,
+    tables: manifest.tables,
+  };
+}
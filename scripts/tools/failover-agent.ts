@@ -0,0 +1,570 @@
+#!/usr/bin/env bun
+/**
+ * Watch a primary and promote its replica automatically when the primary fails
+ *
+ * USAGE:
+ *   bun scripts/tools/failover-agent.ts --primary CONTAINER --replica CONTAINER [OPTIONS]
+ *
+ * OPTIONS:
+ *   --primary NAME            Primary container (required)
+ *   --primary-context NAME    Docker context of the primary's host (default: current context)
+ *   --replica NAME            Replica container to promote (required)
+ *   --slot NAME               The replica's replication slot on the primary
+ *                             (default: $REPLICATION_SLOT_NAME or replica_slot_1)
+ *   --pgbouncer NAME          PgBouncer container to repoint at the promoted replica
+ *   --primary-address H:P     Primary address in PgBouncer's [databases] (default: postgres:5432)
+ *   --replica-address H:P     Address PgBouncer uses for the promoted replica
+ *                             (default: postgres-replica:5432)
+ *   --interval SECONDS        Seconds between probes (default: 5)
+ *   --failures N              Consecutive failed probes before failing over (default: 3)
+ *   --max-lag-bytes N         Largest replication lag, seen while the primary was last healthy,
+ *                             that still allows a failover (default: 16777216)
+ *   --fence-command CMD       Shell command that fences the primary instead of the Docker fence;
+ *                             must exit 0 before the replica is promoted
+ *   --dry-run                 Log the decisions only; never fence or promote
+ *   -h, --help                Show this help message
+ *
+ * DESCRIPTION:
+ *   Every interval the agent runs the image healthcheck (all tiers, including "not in recovery")
+ *   in the primary and reads the replica's slot in pg_stat_replication, then asks the replica for
+ *   its recovery and WAL receiver state. After --failures consecutive failures it fails over if
+ *   the replica is still in recovery, has lost its WAL stream too, and was streaming within
+ *   --max-lag-bytes while the primary was last healthy. Otherwise it holds and keeps probing.
+ *
+ *   Failover:
+ *   1. Fence the old primary: disable its restart policy, kill it and write a fence marker into
+ *      its data volume (the entrypoint refuses to start while the marker exists), or run
+ *      --fence-command. No fence, no promotion.
+ *   2. Promote the replica with pg_promote() and check it accepts writes
+ *   3. Rewrite PgBouncer's [databases] entries for --primary-address and reload it (SIGHUP)
+ *   The agent exits 0 once the replica is promoted.
+ *
+ * EXAMPLES:
+ *   # Primary and replica stacks on one host
+ *   bun scripts/tools/failover-agent.ts --primary aza-pg-postgres-primary \
+ *     --replica aza-pg-postgres-replica --pgbouncer aza-pg-pgbouncer-primary
+ *
+ *   # Watch without acting
+ *   bun scripts/tools/failover-agent.ts --primary aza-pg-postgres-primary \
+ *     --replica aza-pg-postgres-replica --dry-run
+ *
+ * PREREQUISITES:
+ *   - Docker installed and running, with access to the primary, replica and PgBouncer containers
+ *     (or a --fence-command that can fence a primary on another host)
+ *   - The replica streams from the primary through the --slot replication slot
+ *
+ * WARNINGS:
+ *   - A fenced primary stays down until it is rebuilt or rewound as a replica of the new primary
+ *     and its fence marker is removed
+ *   - The PgBouncer rewrite survives container restarts, not re-creation; update the stack
+ *     configuration before recreating it
+ *
+ * EXIT CODES:
+ *   0 - Failover completed
+ *   1 - Invalid arguments or failover failure after fencing
+ */
+
+import { getErrorMessage } from "../utils/errors";
+import { checkCommand, checkDockerDaemon } from "../utils/docker";
+import { error, info, section, success, warning } from "../utils/logger";
+import {
+  FENCE_MARKER,
+  REPLICA_QUERY,
+  evaluateProbes,
+  initialAgentState,
+  parseReplicaProbe,
+  parseReplicationState,
+  replicationQuery,
+  repointPgBouncerDatabases,
+  type FailoverPolicy,
+  type PrimaryProbe,
+  type ReplicaProbe,
+  type ServerAddress,
+} from "./failover-policy";
+
+interface AgentConfig {
+  primary: string;
+  primaryContext?: string;
+  replica: string;
+  slot: string;
+  pgbouncer?: string;
+  primaryAddress: ServerAddress;
+  replicaAddress: ServerAddress;
+  intervalSeconds: number;
+  policy: FailoverPolicy;
+  fenceCommand?: string;
+  dryRun: boolean;
+}
+
+/** Rendered by stacks/primary/scripts/pgbouncer-entrypoint.sh */
+const PGBOUNCER_CONFIG = "/tmp/pgbouncer.ini";
+
+/** Read by pgbouncer-entrypoint.sh on start so the rewrite survives container restarts */
+const PGBOUNCER_TARGET_FILE = "/tmp/pgbouncer-primary-target";
+
+const FENCE_TIMEOUT_MS = 60_000;
+
+function printHelp(): void {
+  process.stdout.write(`
+Watch a primary and promote its replica automatically when the primary fails
+
+USAGE:
+  bun scripts/tools/failover-agent.ts --primary CONTAINER --replica CONTAINER [OPTIONS]
+
+OPTIONS:
+  --primary NAME            Primary container (required)
+  --primary-context NAME    Docker context of the primary's host (default: current context)
+  --replica NAME            Replica container to promote (required)
+  --slot NAME               The replica's replication slot on the primary
+                            (default: $REPLICATION_SLOT_NAME or replica_slot_1)
+  --pgbouncer NAME          PgBouncer container to repoint at the promoted replica
+  --primary-address H:P     Primary address in PgBouncer's [databases] (default: postgres:5432)
+  --replica-address H:P     Address PgBouncer uses for the promoted replica
+                            (default: postgres-replica:5432)
+  --interval SECONDS        Seconds between probes (default: 5)
+  --failures N              Consecutive failed probes before failing over (default: 3)
+  --max-lag-bytes N         Largest replication lag, seen while the primary was last healthy,
+                            that still allows a failover (default: 16777216)
+  --fence-command CMD       Shell command that fences the primary instead of the Docker fence;
+                            must exit 0 before the replica is promoted
+  --dry-run                 Log the decisions only; never fence or promote
+  -h, --help                Show this help message
+
+EXAMPLES:
+  # Primary and replica stacks on one host
+  bun scripts/tools/failover-agent.ts --primary aza-pg-postgres-primary \\
+    --replica aza-pg-postgres-replica --pgbouncer aza-pg-pgbouncer-primary
+
+  # Watch without acting
+  bun scripts/tools/failover-agent.ts --primary aza-pg-postgres-primary \\
+    --replica aza-pg-postgres-replica --dry-run
+
+WARNINGS:
+  - A fenced primary stays down until it is rebuilt or rewound as a replica of the new primary
+    and its fence marker (${FENCE_MARKER}) is removed
+  - The PgBouncer rewrite survives container restarts, not re-creation; update the stack
+    configuration before recreating it
+`);
+  process.exit(0);
+}
+
+function parseAddress(option: string, value: string): ServerAddress {
+  const match = /^([A-Za-z0-9.-]+):(\d{1,5})$/.exec(value);
+  const port = Number(match?.[2]);
+  if (!match || port < 1 || port > 65535) {
+    error(`${option} must be HOST:PORT, got '${value}'`);
+    process.exit(1);
+  }
+  return { host: match[1]!, port };
+}
+
+function parseArgs(): AgentConfig {
+  const args = Bun.argv.slice(2);
+  const config: AgentConfig = {
+    primary: "",
+    replica: "",
+    slot: Bun.env.REPLICATION_SLOT_NAME || "replica_slot_1",
+    primaryAddress: { host: "postgres", port: 5432 },
+    replicaAddress: { host: "postgres-replica", port: 5432 },
+    intervalSeconds: 5,
+    policy: { failureThreshold: 3, maxLagBytes: 16 * 1024 * 1024 },
+    dryRun: false,
+  };
+
+  const requireValue = (option: string, index: number): string => {
+    const value = args[index];
+    if (value === undefined || value === "") {
+      error(`Missing value for ${option} option`);
+      process.exit(1);
+    }
+    return value;
+  };
+
+  const requireCount = (option: string, index: number, min: number): number => {
+    const value = requireValue(option, index);
+    const count = Number(value);
+    if (!/^\d+$/.test(value) || count < min) {
+      error(`${option} must be an integer of at least ${min}`);
+      process.exit(1);
+    }
+    return count;
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case "--primary":
+        config.primary = requireValue(arg, ++i);
+        break;
+
+      case "--primary-context":
+        config.primaryContext = requireValue(arg, ++i);
+        break;
+
+      case "--replica":
+        config.replica = requireValue(arg, ++i);
+        break;
+
+      case "--slot":
+        config.slot = requireValue(arg, ++i);
+        break;
+
+      case "--pgbouncer":
+        config.pgbouncer = requireValue(arg, ++i);
+        break;
+
+      case "--primary-address":
+        config.primaryAddress = parseAddress(arg, requireValue(arg, ++i));
+        break;
+
+      case "--replica-address":
+        config.replicaAddress = parseAddress(arg, requireValue(arg, ++i));
+        break;
+
+      case "--interval":
+        config.intervalSeconds = requireCount(arg, ++i, 1);
+        break;
+
+      case "--failures":
+        config.policy.failureThreshold = requireCount(arg, ++i, 1);
+        break;
+
+      case "--max-lag-bytes":
+        config.policy.maxLagBytes = requireCount(arg, ++i, 0);
+        break;
+
+      case "--fence-command":
+        config.fenceCommand = requireValue(arg, ++i);
+        break;
+
+      case "--dry-run":
+        config.dryRun = true;
+        break;
+
+      case "-h":
+      case "--help":
+        printHelp();
+        break;
+
+      default:
+        error(`Unknown option: ${arg}. Use -h for help.`);
+        process.exit(1);
+    }
+  }
+
+  for (const [option, value] of [
+    ["--primary", config.primary],
+    ["--replica", config.replica],
+  ] as const) {
+    if (!value) {
+      error(`${option} is required. Use -h for help.`);
+      process.exit(1);
+    }
+  }
+
+  // The slot name is interpolated into the replication query
+  if (!/^[a-zA-Z0-9_]+$/.test(config.slot)) {
+    error(`Invalid replication slot name '${config.slot}' (alphanumeric and underscore only)`);
+    process.exit(1);
+  }
+
+  return config;
+}
+
+/**
+ * Run a docker command with a time limit; stderr is folded into the output on failure
+ */
+async function docker(
+  args: string[],
+  timeoutMs: number,
+  stdin?: string
+): Promise<{ ok: boolean; output: string }> {
+  const proc = Bun.spawn(["docker", ...args], {
+    stdin: stdin === undefined ? "ignore" : new Blob([stdin]),
+    stdout: "pipe",
+    stderr: "pipe",
+    timeout: timeoutMs,
+  });
+  const [stdout, stderr] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+  ]);
+  const exitCode = await proc.exited;
+  if (proc.signalCode) {
+    return { ok: false, output: `timed out after ${timeoutMs / 1000}s` };
+  }
+  return {
+    ok: exitCode === 0,
+    output: exitCode === 0 ? stdout.trim() : `${stderr.trim()}\n${stdout.trim()}`.trim(),
+  };
+}
+
+/**
+ * Docker arguments for a command against the primary's host
+ */
+function onPrimary(config: AgentConfig, args: string[]): string[] {
+  return config.primaryContext ? ["--context", config.primaryContext, ...args] : args;
+}
+
+function psqlArgs(container: string, sql: string): string[] {
+  return ["exec", container, "psql", "-U", "postgres", "-d", "postgres", "-tAc", sql];
+}
+
+async function psql(container: string, sql: string, timeoutMs: number) {
+  return docker(psqlArgs(container, sql), timeoutMs);
+}
+
+async function probePrimary(config: AgentConfig): Promise<PrimaryProbe> {
+  const timeoutMs = config.intervalSeconds * 1000 + 5000;
+  const health = await docker(
+    onPrimary(config, ["exec", config.primary, "/usr/local/bin/healthcheck.sh"]),
+    timeoutMs
+  );
+  if (!health.ok) {
+    const detail =
+      health.output.split("\n").find((line) => line.trim() !== "") ?? "healthcheck failed";
+    return { healthy: false, detail };
+  }
+
+  const replication = await docker(
+    onPrimary(config, psqlArgs(config.primary, replicationQuery(config.slot))),
+    timeoutMs
+  );
+  return {
+    healthy: true,
+    detail: "healthy",
+    replication: replication.ok ? parseReplicationState(replication.output) : undefined,
+  };
+}
+
+async function probeReplica(config: AgentConfig): Promise<ReplicaProbe> {
+  const result = await psql(config.replica, REPLICA_QUERY, config.intervalSeconds * 1000 + 5000);
+  return parseReplicaProbe(result.ok ? result.output : undefined);
+}
+
+/**
+ * Make sure the old primary cannot accept writes again before anything is promoted
+ *
+ * The Docker fence disables the restart policy, kills the container and writes FENCE_MARKER into
+ * the volume mounted at /var/lib/postgresql, using the primary's own image.
+ */
+async function fencePrimary(config: AgentConfig): Promise<void> {
+  if (config.fenceCommand) {
+    info(`Fencing ${config.primary} with --fence-command...`);
+    const proc = Bun.spawn(["sh", "-c", config.fenceCommand], {
+      env: { ...Bun.env, FAILOVER_PRIMARY: config.primary, FAILOVER_REPLICA: config.replica },
+      stdout: "inherit",
+      stderr: "inherit",
+      timeout: FENCE_TIMEOUT_MS,
+    });
+    if ((await proc.exited) !== 0) {
+      throw new Error(`--fence-command failed (exit code ${proc.exitCode ?? proc.signalCode})`);
+    }
+    success("Primary fenced by --fence-command");
+    return;
+  }
+
+  info(`Fencing ${config.primary}...`);
+  const inspect = await docker(onPrimary(config, ["inspect", config.primary]), FENCE_TIMEOUT_MS);
+  if (!inspect.ok) {
+    throw new Error(`Cannot inspect ${config.primary}: ${inspect.output}`);
+  }
+  const [container] = JSON.parse(inspect.output) as Array<{
+    Config: { Image: string };
+    State: { Running: boolean };
+    Mounts: Array<{ Type: string; Name?: string; Source: string; Destination: string }>;
+  }>;
+  const dataMount = container?.Mounts.find((m) => m.Destination === "/var/lib/postgresql");
+  if (!container || !dataMount) {
+    throw new Error(`${config.primary} has no volume mounted at /var/lib/postgresql`);
+  }
+
+  const steps: Array<[string, string[]]> = [
+    ["disable restart policy", ["update", "--restart=no", config.primary]],
+  ];
+  if (container.State.Running) {
+    steps.push(["kill container", ["kill", config.primary]]);
+  }
+  steps.push([
+    "write fence marker",
+    [
+      "run",
+      "--rm",
+      "--network",
+      "none",
+      "--entrypoint",
+      "/bin/sh",
+      "-e",
+      `FENCE_INFO=fenced_at=${new Date().toISOString()} promoted=${config.replica}`,
+      "-v",
+      `${dataMount.Type === "volume" ? dataMount.Name : dataMount.Source}:/var/lib/postgresql`,
+      container.Config.Image,
+      "-c",
+      `printf '%s\\n' "$FENCE_INFO" > ${FENCE_MARKER}`,
+    ],
+  ]);
+
+  for (const [step, args] of steps) {
+    const result = await docker(onPrimary(config, args), FENCE_TIMEOUT_MS);
+    if (!result.ok) {
+      throw new Error(`Fencing ${config.primary} failed (${step}): ${result.output}`);
+    }
+  }
+  success(`Primary fenced (${FENCE_MARKER} written, restart policy disabled)`);
+}
+
+async function promoteReplica(config: AgentConfig): Promise<void> {
+  info(`Promoting ${config.replica}...`);
+  const promote = await psql(config.replica, "SELECT pg_promote(true, 60)", 90_000);
+  if (!promote.ok || promote.output !== "t") {
+    throw new Error(`pg_promote() failed: ${promote.output || "promotion did not finish in 60s"}`);
+  }
+
+  // Assigning a transaction ID fails on a server that is still read-only
+  const write = await psql(config.replica, "SELECT pg_current_xact_id()", 30_000);
+  if (!write.ok) {
+    throw new Error(`Promoted replica does not accept writes: ${write.output}`);
+  }
+  success(`${config.replica} promoted and accepting writes`);
+}
+
+async function repointPgBouncer(config: AgentConfig, pgbouncer: string): Promise<void> {
+  const { primaryAddress: from, replicaAddress: to } = config;
+  info(`Repointing ${pgbouncer} from ${from.host}:${from.port} to ${to.host}:${to.port}...`);
+
+  const current = await docker(["exec", pgbouncer, "cat", PGBOUNCER_CONFIG], 30_000);
+  if (!current.ok) {
+    throw new Error(`Cannot read ${PGBOUNCER_CONFIG} in ${pgbouncer}: ${current.output}`);
+  }
+  const { ini, changed } = repointPgBouncerDatabases(`${current.output}\n`, from, to);
+  if (changed.length === 0) {
+    warning(
+      `No [databases] entry in ${pgbouncer} uses ${from.host}:${from.port}; nothing to repoint`
+    );
+    return;
+  }
+
+  const write = await docker(
+    [
+      "exec",
+      "-i",
+      pgbouncer,
+      "sh",
+      "-c",
+      `umask 077 && cat > ${PGBOUNCER_CONFIG}.failover && mv ${PGBOUNCER_CONFIG}.failover ${PGBOUNCER_CONFIG}` +
+        ` && printf '%s %s %s %s\\n' ${from.host} ${from.port} ${to.host} ${to.port} > ${PGBOUNCER_TARGET_FILE}`,
+    ],
+    30_000,
+    ini
+  );
+  if (!write.ok) {
+    throw new Error(`Cannot write ${PGBOUNCER_CONFIG} in ${pgbouncer}: ${write.output}`);
+  }
+
+  const reload = await docker(["kill", "--signal", "HUP", pgbouncer], 30_000);
+  if (!reload.ok) {
+    throw new Error(`Cannot reload ${pgbouncer}: ${reload.output}`);
+  }
+  success(`PgBouncer databases repointed: ${changed.join(", ")}`);
+}
+
+async function failover(config: AgentConfig, reason: string): Promise<boolean> {
+  section("Failover");
+  warning(`Failing over to ${config.replica}: ${reason}`);
+
+  try {
+    await fencePrimary(config);
+  } catch (err) {
+    // Nothing was promoted, so the next round can try again
+    error(getErrorMessage(err));
+    warning("Not promoting an unfenced primary's replica; retrying next round");
+    return false;
+  }
+
+  await promoteReplica(config);
+  if (config.pgbouncer) {
+    await repointPgBouncer(config, config.pgbouncer);
+  }
+
+  success(`Failover complete: ${config.replica} is the new primary`);
+  info(
+    `Rejoin ${config.primary} as a replica with scripts/tools/rejoin-as-replica.ts; it removes ${FENCE_MARKER}`
+  );
+  return true;
+}
+
+async function main(): Promise<void> {
+  const config = parseArgs();
+
+  await checkCommand("docker");
+  await checkDockerDaemon();
+
+  info(
+    `Watching ${config.primary} every ${config.intervalSeconds}s` +
+      ` (failover to ${config.replica} after ${config.policy.failureThreshold} failed probes` +
+      `${config.dryRun ? ", dry run" : ""})`
+  );
+
+  let state = initialAgentState();
+  let lastMessage = "";
+  // Log a message only when it differs from the previous one
+  const report = (log: (message: string) => void, message: string) => {
+    if (message !== lastMessage) {
+      log(message);
+      lastMessage = message;
+    }
+  };
+
+  for (;;) {
+    const primary = await probePrimary(config);
+    const replica = await probeReplica(config);
+    const result = evaluateProbes(state, primary, replica, config.policy);
+    state = result.state;
+    const { decision } = result;
+
+    switch (decision.action) {
+      case "healthy": {
+        const replication = primary.replication;
+        report(
+          replication?.state === "streaming" ? success : warning,
+          replication
+            ? `Primary healthy; replica ${replication.state}, ${replication.lagBytes} bytes behind`
+            : `Primary healthy; no replica connected through slot '${config.slot}'`
+        );
+        break;
+      }
+
+      case "suspect":
+        lastMessage = "";
+        warning(
+          `Primary probe failed (${decision.failures}/${config.policy.failureThreshold}): ${primary.detail}`
+        );
+        break;
+
+      case "hold":
+        report(error, `Primary is down but not failing over: ${decision.reason}`);
+        break;
+
+      case "promote":
+        if (config.dryRun) {
+          report(warning, `Dry run: would fail over to ${config.replica} (${decision.reason})`);
+          break;
+        }
+        if (await failover(config, decision.reason)) {
+          return;
+        }
+        lastMessage = "";
+        break;
+    }
+
+    await Bun.sleep(config.intervalSeconds * 1000);
+  }
+}
+
+if (import.meta.main) {
+  main().catch((err) => {
+    error(getErrorMessage(err));
+    process.exit(1);
+  });
+}
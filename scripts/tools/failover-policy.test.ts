@@ -0,0 +1,183 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  evaluateProbes,
+  initialAgentState,
+  parseReplicaProbe,
+  parseReplicationState,
+  repointPgBouncerDatabases,
+  type AgentState,
+  type Decision,
+  type FailoverPolicy,
+  type PrimaryProbe,
+  type ReplicaProbe,
+} from "./failover-policy";
+
+const POLICY: FailoverPolicy = { failureThreshold: 3, maxLagBytes: 1024 };
+
+const HEALTHY: PrimaryProbe = {
+  healthy: true,
+  detail: "healthy",
+  replication: { state: "streaming", lagBytes: 200 },
+};
+const DOWN: PrimaryProbe = { healthy: false, detail: "FAIL: PostgreSQL not accepting connections" };
+const STANDBY_CUT_OFF: ReplicaProbe = { reachable: true, inRecovery: true, receiverStatus: "" };
+
+/**
+ * Feed probes through evaluateProbes, returning the last decision
+ */
+function run(probes: Array<[PrimaryProbe, ReplicaProbe]>, state: AgentState = initialAgentState()) {
+  return probes.reduce(
+    (result, [primary, replica]) => evaluateProbes(result.state, primary, replica, POLICY),
+    { state, decision: { action: "healthy" } as Decision }
+  );
+}
+
+describe("evaluateProbes", () => {
+  test("promotes after the threshold of consecutive failures", () => {
+    const failing = run([
+      [HEALTHY, STANDBY_CUT_OFF],
+      [DOWN, STANDBY_CUT_OFF],
+      [DOWN, STANDBY_CUT_OFF],
+    ]);
+    expect(failing.decision).toEqual({ action: "suspect", failures: 2 });
+
+    const down = evaluateProbes(failing.state, DOWN, STANDBY_CUT_OFF, POLICY);
+    expect(down.decision).toEqual({
+      action: "promote",
+      reason: "primary failed 3 consecutive probes (FAIL: PostgreSQL not accepting connections)",
+    });
+  });
+
+  test("a healthy probe resets the failure count", () => {
+    const result = run([
+      [HEALTHY, STANDBY_CUT_OFF],
+      [DOWN, STANDBY_CUT_OFF],
+      [DOWN, STANDBY_CUT_OFF],
+      [HEALTHY, STANDBY_CUT_OFF],
+      [DOWN, STANDBY_CUT_OFF],
+    ]);
+    expect(result.decision).toEqual({ action: "suspect", failures: 1 });
+  });
+
+  test("holds while the replica still streams from the primary", () => {
+    const streaming: ReplicaProbe = { ...STANDBY_CUT_OFF, receiverStatus: "streaming" };
+    const result = run([
+      [HEALTHY, streaming],
+      [DOWN, streaming],
+      [DOWN, streaming],
+      [DOWN, streaming],
+    ]);
+    expect(result.decision).toEqual({
+      action: "hold",
+      reason: "the replica still streams WAL from the primary; only the agent lost contact",
+    });
+  });
+
+  test("holds when the replica was behind, disconnected or is unusable", () => {
+    const down = (primary: PrimaryProbe, replica: ReplicaProbe = STANDBY_CUT_OFF) =>
+      run([
+        [primary, STANDBY_CUT_OFF],
+        [DOWN, replica],
+        [DOWN, replica],
+        [DOWN, replica],
+      ]).decision;
+
+    expect(down({ ...HEALTHY, replication: { state: "streaming", lagBytes: 4096 } })).toEqual({
+      action: "hold",
+      reason: "the replica was 4096 bytes behind when the primary was last healthy (max 1024)",
+    });
+    expect(down({ ...HEALTHY, replication: undefined })).toEqual({
+      action: "hold",
+      reason: "the replica was not connected when the primary was last healthy",
+    });
+    expect(down({ ...HEALTHY, replication: { state: "catchup", lagBytes: 0 } })).toMatchObject({
+      reason: "the replica was in state 'catchup' when the primary was last healthy",
+    });
+    expect(
+      down(HEALTHY, { reachable: false, inRecovery: false, receiverStatus: "" })
+    ).toMatchObject({
+      reason: "the replica cannot be queried",
+    });
+    expect(down(HEALTHY, { reachable: true, inRecovery: false, receiverStatus: "" })).toMatchObject(
+      {
+        reason: "the replica is not in recovery (already promoted?)",
+      }
+    );
+  });
+
+  test("never fails over a primary it has not seen healthy", () => {
+    let state = initialAgentState();
+    for (let i = 0; i < 5; i++) {
+      state = evaluateProbes(state, DOWN, STANDBY_CUT_OFF, POLICY).state;
+    }
+    expect(evaluateProbes(state, DOWN, STANDBY_CUT_OFF, POLICY).decision).toEqual({
+      action: "hold",
+      reason: "the primary has not been healthy since the agent started",
+    });
+  });
+});
+
+describe("probe parsing", () => {
+  test("replication state needs a state and a byte lag", () => {
+    expect(parseReplicationState("streaming|0\n")).toEqual({ state: "streaming", lagBytes: 0 });
+    expect(parseReplicationState("")).toBeUndefined();
+    expect(parseReplicationState("streaming|")).toBeUndefined();
+  });
+
+  test("replica probes report unreachable replicas", () => {
+    expect(parseReplicaProbe("t|streaming")).toEqual({
+      reachable: true,
+      inRecovery: true,
+      receiverStatus: "streaming",
+    });
+    expect(parseReplicaProbe("f|")).toEqual({
+      reachable: true,
+      inRecovery: false,
+      receiverStatus: "",
+    });
+    expect(parseReplicaProbe(undefined).reachable).toBe(false);
+    expect(parseReplicaProbe("psql: error").reachable).toBe(false);
+  });
+});
+
+describe("repointPgBouncerDatabases", () => {
+  const INI = `[databases]
+postgres = host=postgres port=5432 dbname=postgres user=pgbouncer_auth
+app = host=postgres port=5432 dbname=app pool_mode=session
+reports = host=analytics port=5432 dbname=reports
+; host=postgres port=5432 in a comment
+
+[pgbouncer]
+listen_port = 6432
+auth_query = SELECT * FROM pgbouncer_lookup($1)
+`;
+
+  test("rewrites only [databases] entries on the old primary", () => {
+    const { ini, changed } = repointPgBouncerDatabases(
+      INI,
+      { host: "postgres", port: 5432 },
+      { host: "postgres-replica", port: 5433 }
+    );
+    expect(changed).toEqual(["postgres", "app"]);
+    expect(ini).toBe(
+      INI.replace(
+        "postgres = host=postgres port=5432 dbname=postgres",
+        "postgres = host=postgres-replica port=5433 dbname=postgres"
+      ).replace(
+        "app = host=postgres port=5432 dbname=app",
+        "app = host=postgres-replica port=5433 dbname=app"
+      )
+    );
+  });
+
+  test("a missing port means 5432", () => {
+    const { ini, changed } = repointPgBouncerDatabases(
+      "[databases]\nx = dbname=x host=db1\n",
+      { host: "db1", port: 5432 },
+      { host: "db2", port: 5432 }
+    );
+    expect(changed).toEqual(["x"]);
+    expect(ini).toBe("[databases]\nx = host=db2 port=5432 dbname=x\n");
+  });
+});
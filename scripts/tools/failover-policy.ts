@@ -0,0 +1,199 @@
+/**
+ * Failover decisions for failover-agent.ts
+ *
+ * Pure logic: turns probes of the primary and the replica into "wait" or "promote", parses the
+ * probe queries' output and repoints PgBouncer's [databases] entries at the promoted server.
+ */
+
+export interface FailoverPolicy {
+  /** Consecutive failed primary probes before a failover is considered */
+  failureThreshold: number;
+  /** Largest replay lag (bytes) the replica may have had while the primary was last healthy */
+  maxLagBytes: number;
+}
+
+/** The replica's row in the primary's pg_stat_replication (matched by replication slot) */
+export interface ReplicationState {
+  state: string;
+  /** pg_current_wal_lsn() - replay_lsn */
+  lagBytes: number;
+}
+
+export interface PrimaryProbe {
+  /** The image healthcheck passed (every tier, including "not in recovery") */
+  healthy: boolean;
+  /** Failing tier or error, for logs */
+  detail: string;
+  /** Absent when the replica is not connected */
+  replication?: ReplicationState;
+}
+
+export interface ReplicaProbe {
+  reachable: boolean;
+  inRecovery: boolean;
+  /** pg_stat_wal_receiver.status, empty when no WAL receiver runs */
+  receiverStatus: string;
+}
+
+export interface AgentState {
+  consecutiveFailures: number;
+  /** Replication as seen on the last healthy primary probe (undefined: replica not connected) */
+  lastReplication?: ReplicationState;
+  /** Whether the primary has been healthy at least once since the agent started */
+  primarySeenHealthy: boolean;
+}
+
+export type Decision =
+  | { action: "healthy" }
+  | { action: "suspect"; failures: number }
+  | { action: "hold"; reason: string }
+  | { action: "promote"; reason: string };
+
+export interface ServerAddress {
+  host: string;
+  port: number;
+}
+
+/** Written to the old primary's volume when it is fenced; the entrypoint refuses to start while it exists */
+export const FENCE_MARKER = "/var/lib/postgresql/aza-pg.fenced";
+
+/** Replication state of the replica using a slot, as "state|lag_bytes" (no row when disconnected) */
+export function replicationQuery(slot: string): string {
+  return `SELECT r.state || '|' || coalesce(pg_wal_lsn_diff(pg_current_wal_lsn(), r.replay_lsn), 0)::bigint
+FROM pg_stat_replication r
+JOIN pg_replication_slots s ON s.active_pid = r.pid
+WHERE s.slot_name = '${slot}'`;
+}
+
+/** Recovery and WAL receiver state of the replica, as "t|streaming" */
+export const REPLICA_QUERY = `SELECT pg_is_in_recovery() || '|' || coalesce((SELECT status FROM pg_stat_wal_receiver), '')`;
+
+export function initialAgentState(): AgentState {
+  return { consecutiveFailures: 0, primarySeenHealthy: false };
+}
+
+/**
+ * Parse replicationQuery() output
+ */
+export function parseReplicationState(output: string): ReplicationState | undefined {
+  const line = output.trim().split("\n")[0] ?? "";
+  const [state = "", lag = ""] = line.split("|");
+  if (!state || !/^\d+$/.test(lag)) {
+    return undefined;
+  }
+  return { state, lagBytes: Number(lag) };
+}
+
+/**
+ * Parse REPLICA_QUERY output (undefined output: the replica could not be queried)
+ */
+export function parseReplicaProbe(output: string | undefined): ReplicaProbe {
+  const [recovery, status = ""] = (output ?? "").trim().split("|");
+  if (recovery !== "t" && recovery !== "f") {
+    return { reachable: false, inRecovery: false, receiverStatus: "" };
+  }
+  return { reachable: true, inRecovery: recovery === "t", receiverStatus: status };
+}
+
+/**
+ * Decide what to do after one round of probes
+ *
+ * A failover needs failureThreshold consecutive failed primary probes, a replica that is still in
+ * recovery but has lost its WAL stream (so the agent is not merely cut off from a working primary),
+ * and a replica that was streaming within maxLagBytes the last time the primary was healthy.
+ */
+export function evaluateProbes(
+  state: AgentState,
+  primary: PrimaryProbe,
+  replica: ReplicaProbe,
+  policy: FailoverPolicy
+): { state: AgentState; decision: Decision } {
+  if (primary.healthy) {
+    return {
+      state: {
+        consecutiveFailures: 0,
+        lastReplication: primary.replication,
+        primarySeenHealthy: true,
+      },
+      decision: { action: "healthy" },
+    };
+  }
+
+  const next: AgentState = { ...state, consecutiveFailures: state.consecutiveFailures + 1 };
+  if (next.consecutiveFailures < policy.failureThreshold) {
+    return { state: next, decision: { action: "suspect", failures: next.consecutiveFailures } };
+  }
+
+  const hold = (reason: string) => ({ state: next, decision: { action: "hold", reason } as const });
+  if (!next.primarySeenHealthy) {
+    return hold("the primary has not been healthy since the agent started");
+  }
+  if (!replica.reachable) {
+    return hold("the replica cannot be queried");
+  }
+  if (!replica.inRecovery) {
+    return hold("the replica is not in recovery (already promoted?)");
+  }
+  if (replica.receiverStatus === "streaming") {
+    return hold("the replica still streams WAL from the primary; only the agent lost contact");
+  }
+  const last = next.lastReplication;
+  if (!last || last.state !== "streaming") {
+    return hold(
+      `the replica was ${last ? `in state '${last.state}'` : "not connected"} when the primary was last healthy`
+    );
+  }
+  if (last.lagBytes > policy.maxLagBytes) {
+    return hold(
+      `the replica was ${last.lagBytes} bytes behind when the primary was last healthy (max ${policy.maxLagBytes})`
+    );
+  }
+
+  return {
+    state: next,
+    decision: {
+      action: "promote",
+      reason: `primary failed ${next.consecutiveFailures} consecutive probes (${primary.detail})`,
+    },
+  };
+}
+
+/**
+ * Point the [databases] entries that use `from` at `to`
+ *
+ * Only host= and port= of matching entries change (a missing port= means 5432); other sections,
+ * comments and entries for other servers are kept as they are.
+ */
+export function repointPgBouncerDatabases(
+  ini: string,
+  from: ServerAddress,
+  to: ServerAddress
+): { ini: string; changed: string[] } {
+  const changed: string[] = [];
+  let inDatabases = false;
+
+  const lines = ini.split("\n").map((line) => {
+    const section = /^\s*\[(.+)\]\s*$/.exec(line);
+    if (section) {
+      inDatabases = section[1] === "databases";
+      return line;
+    }
+    const entry = /^(\s*)([^;#=\s][^=]*?)\s*=\s*(.*)$/.exec(line);
+    if (!inDatabases || !entry) {
+      return line;
+    }
+
+    const [, indent = "", name = "", value = ""] = entry;
+    const params = value.split(/\s+/).filter(Boolean);
+    const get = (key: string) => params.find((p) => p.startsWith(`${key}=`))?.slice(key.length + 1);
+    if (get("host") !== from.host || Number(get("port") ?? 5432) !== from.port) {
+      return line;
+    }
+
+    const rewritten = params.filter((p) => !p.startsWith("host=") && !p.startsWith("port="));
+    changed.push(name);
+    return `${indent}${name} = ${[`host=${to.host}`, `port=${to.port}`, ...rewritten].join(" ")}`;
+  });
+
+  return { ini: lines.join("\n"), changed };
+}
@@ -0,0 +1,241 @@
+#!/usr/bin/env bun
+/**
+ * Create the Docker secret files a stack's compose.yml mounts (passwords)
+ *
+ * USAGE:
+ *   bun scripts/tools/generate-secrets.ts [OPTIONS]
+ *
+ * OPTIONS:
+ *   --stack NAME        primary, replica, single or logical (default: primary)
+ *   --dir DIR           Secrets directory (default: stacks/<stack>/secrets)
+ *   --from-env FILE     Take the values of existing variables from an .env file (migration)
+ *   --from-dir DIR      Copy values from another stack's secrets (replicas: the primary's)
+ *   --force             Replace existing secret files
+ *   -h, --help          Show this help message
+ *
+ * DESCRIPTION:
+ *   Writes one file per credential into the secrets directory: postgres_password,
+ *   replication_password and pgbouncer_auth_password for the primary stack. compose.yml mounts
+ *   them at /run/secrets/<name> and passes POSTGRES_PASSWORD_FILE, PG_REPLICATION_PASSWORD_FILE
+ *   and PGBOUNCER_AUTH_PASS_FILE, so no password appears in the environment or docker inspect.
+ *   Missing values are generated (32 random bytes, base64url); existing files are kept. A
+ *   replica's secrets must match the primary's and are never generated. Files are mode 644 so
+ *   the containers' unprivileged users can read them; the directory is mode 700.
+ *
+ * EXAMPLES:
+ *   # New primary stack
+ *   bun scripts/tools/generate-secrets.ts
+ *
+ *   # Existing deployment: move the passwords out of .env (then delete them from .env)
+ *   bun scripts/tools/generate-secrets.ts --from-env stacks/primary/.env
+ *
+ *   # Replica on another host: copy the primary's secrets
+ *   bun scripts/tools/generate-secrets.ts --stack replica --from-dir stacks/primary/secrets
+ *
+ * WARNINGS:
+ *   - Passwords are applied when a cluster is initialized. Replacing a file for an existing
+ *     cluster does not change the role's password: run ALTER ROLE ... PASSWORD as well
+ *   - A variable and its _FILE variant are exclusive: after --from-env, remove POSTGRES_PASSWORD,
+ *     PG_REPLICATION_PASSWORD and PGBOUNCER_AUTH_PASS from .env or the containers refuse to start
+ *
+ * EXIT CODES:
+ *   0 - Secrets written (or already present)
+ *   1 - Invalid arguments or a replica secret without a source
+ */
+
+import { $ } from "bun";
+import { readdir } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { getErrorMessage } from "../utils/errors";
+import { error, info, section, success, warning } from "../utils/logger";
+import {
+  parseEnvFile,
+  parseStackName,
+  planSecrets,
+  STACK_SECRETS,
+  type SecretAction,
+  type StackName,
+} from "./secrets-plan";
+
+interface SecretsConfig {
+  stack: StackName;
+  dir: string;
+  fromEnv?: string;
+  fromDir?: string;
+  force: boolean;
+}
+
+const SOURCE_LABELS: Record<SecretAction["source"], string> = {
+  kept: "kept (existing file)",
+  env: "migrated from .env",
+  copied: "copied",
+  generated: "generated",
+  empty: "empty (feature off)",
+};
+
+function printHelp(): void {
+  process.stdout.write(`
+Create the Docker secret files a stack's compose.yml mounts (passwords)
+
+USAGE:
+  bun scripts/tools/generate-secrets.ts [OPTIONS]
+
+OPTIONS:
+  --stack NAME        primary, replica, single or logical (default: primary)
+  --dir DIR           Secrets directory (default: stacks/<stack>/secrets)
+  --from-env FILE     Take the values of existing variables from an .env file (migration)
+  --from-dir DIR      Copy values from another stack's secrets (replicas: the primary's)
+  --force             Replace existing secret files
+  -h, --help          Show this help message
+
+EXAMPLES:
+  # New primary stack
+  bun scripts/tools/generate-secrets.ts
+
+  # Existing deployment: move the passwords out of .env (then delete them from .env)
+  bun scripts/tools/generate-secrets.ts --from-env stacks/primary/.env
+
+  # Replica on another host: copy the primary's secrets
+  bun scripts/tools/generate-secrets.ts --stack replica --from-dir stacks/primary/secrets
+
+WARNINGS:
+  - Passwords are applied when a cluster is initialized. Replacing a file for an existing
+    cluster does not change the role's password: run ALTER ROLE ... PASSWORD as well
+  - A variable and its _FILE variant are exclusive: after --from-env, remove POSTGRES_PASSWORD,
+    PG_REPLICATION_PASSWORD and PGBOUNCER_AUTH_PASS from .env or the containers refuse to start
+`);
+  process.exit(0);
+}
+
+function parseArgs(): SecretsConfig {
+  const args = Bun.argv.slice(2);
+  let stack: StackName = "primary";
+  let dir: string | undefined;
+  const config: Omit<SecretsConfig, "stack" | "dir"> = { force: false };
+
+  const requireValue = (option: string, index: number): string => {
+    const value = args[index];
+    if (value === undefined || value === "") {
+      error(`Missing value for ${option} option`);
+      process.exit(1);
+    }
+    return value;
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case "--stack":
+        try {
+          stack = parseStackName(requireValue(arg, ++i));
+        } catch (err) {
+          error(getErrorMessage(err));
+          process.exit(1);
+        }
+        break;
+
+      case "--dir":
+        dir = requireValue(arg, ++i);
+        break;
+
+      case "--from-env":
+        config.fromEnv = requireValue(arg, ++i);
+        break;
+
+      case "--from-dir":
+        config.fromDir = requireValue(arg, ++i);
+        break;
+
+      case "--force":
+        config.force = true;
+        break;
+
+      case "-h":
+      case "--help":
+        printHelp();
+        break;
+
+      default:
+        error(`Unknown option: ${arg}. Use -h for help.`);
+        process.exit(1);
+    }
+  }
+
+  return { ...config, stack, dir: dir ?? join("stacks", stack, "secrets") };
+}
+
+/**
+ * Files in a secrets directory, by name (empty when the directory does not exist)
+ */
+async function readSecretDir(dir: string, names: string[]): Promise<Map<string, string>> {
+  const entries = await readdir(dir).catch(() => [] as string[]);
+  const secrets = new Map<string, string>();
+  for (const name of names.filter((candidate) => entries.includes(candidate))) {
+    secrets.set(name, (await Bun.file(join(dir, name)).text()).replace(/\n+$/, ""));
+  }
+  return secrets;
+}
+
+async function main(): Promise<void> {
+  const config = parseArgs();
+  const names = STACK_SECRETS[config.stack].map((spec) => spec.name);
+
+  let env: Map<string, string> | undefined;
+  if (config.fromEnv) {
+    const file = Bun.file(config.fromEnv);
+    if (!(await file.exists())) {
+      throw new Error(`${config.fromEnv} not found`);
+    }
+    env = parseEnvFile(await file.text());
+  }
+  let copyFrom: Map<string, string> | undefined;
+  if (config.fromDir) {
+    copyFrom = await readSecretDir(config.fromDir, names);
+    if (copyFrom.size === 0) {
+      throw new Error(`No secrets of the ${config.stack} stack found in ${config.fromDir}`);
+    }
+  }
+
+  const existing = new Set((await readSecretDir(config.dir, names)).keys());
+  const plan = planSecrets(config.stack, { existing, env, copyFrom, force: config.force });
+
+  info(`Writing ${config.stack} stack secrets to ${config.dir}...`);
+  await $`mkdir -p ${config.dir}`;
+  await $`chmod 700 ${config.dir}`;
+
+  section("Secrets");
+  for (const action of plan) {
+    if (action.value !== undefined) {
+      const path = join(config.dir, action.spec.name);
+      await Bun.write(path, action.value);
+      await $`chmod 644 ${path}`;
+    }
+    process.stdout.write(
+      `  ${action.spec.name.padEnd(26)} ${`${action.spec.envVar}_FILE`.padEnd(30)} ${SOURCE_LABELS[action.source]}\n`
+    );
+  }
+
+  const migrated = plan.filter((action) => action.source === "env");
+  if (migrated.length > 0) {
+    warning(
+      `Remove ${migrated.map((action) => action.spec.envVar).join(", ")} from ${config.fromEnv}: a variable and its _FILE variant are exclusive`
+    );
+  }
+  if (config.force && existing.size > 0) {
+    warning(
+      "Replaced secrets only apply to new clusters: change the role passwords with ALTER ROLE as well"
+    );
+  }
+  success(`Secrets ready in ${config.dir}`);
+  if (config.dir !== join("stacks", config.stack, "secrets")) {
+    info(`Set POSTGRES_SECRETS_DIR=${resolve(config.dir)} in the stack's .env`);
+  }
+}
+
+if (import.meta.main) {
+  main().catch((err) => {
+    error(getErrorMessage(err));
+    process.exit(1);
+  });
+}
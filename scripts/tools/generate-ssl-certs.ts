@@ -1,35 +1,80 @@
 #!/usr/bin/env bun
 /**
- * Generate self-signed SSL certificates for PostgreSQL
- * For production, replace with real certificates from a CA
+ * Generate a local CA and the certificates for TLS mode (POSTGRES_TLS=require)
+ * For production, replace with certificates from your own CA (same file names)
  *
  * Usage:
- *   bun run scripts/tools/generate-ssl-certs.ts <cert-directory> [days-valid]
+ *   bun run scripts/tools/generate-ssl-certs.ts <cert-directory> [days-valid] [--hosts LIST] [--ca-dir DIR]
  *   Example: bun run scripts/tools/generate-ssl-certs.ts stacks/primary/certs 3650
+ *
+ * The CA key is written outside the certificate directory (<cert-directory>-ca by default) so it
+ * is never mounted into a container. An existing CA is reused, so reissuing keeps every client
+ * that trusts ca.crt working.
  */
 
 import { $ } from "bun";
+import { basename, dirname, join } from "node:path";
 import { info, success, error, warning } from "../utils/logger";
+import {
+  buildCertSpecs,
+  buildExtensions,
+  CA_CONFIG,
+  parseHostList,
+  type CertSpec,
+} from "./tls-plan";
 
 interface CertConfig {
   certDir: string;
+  caDir: string;
   daysValid: number;
-  hostname: string;
+  hosts: string[];
 }
 
 /**
  * Parse command line arguments
  */
 function parseArgs(): CertConfig | null {
-  const certDir = Bun.argv[2];
-  const daysValidArg = Bun.argv[3];
+  const positional: string[] = [];
+  let caDir: string | undefined;
+  let hosts: string[] = [];
+
+  const args = Bun.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    if (arg === "--hosts" || arg === "--ca-dir") {
+      const value = args[++i];
+      if (!value) {
+        error(`${arg} requires a value`);
+        return null;
+      }
+      if (arg === "--hosts") {
+        try {
+          hosts = parseHostList(value);
+        } catch (err) {
+          error((err as Error).message);
+          return null;
+        }
+      } else {
+        caDir = value;
+      }
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  const [certDir, daysValidArg] = positional;
 
   if (!certDir) {
-    console.log("Usage: generate-ssl-certs.ts <cert-directory> [days-valid]");
+    console.log(
+      "Usage: generate-ssl-certs.ts <cert-directory> [days-valid] [--hosts LIST] [--ca-dir DIR]"
+    );
     console.log("Example: generate-ssl-certs.ts stacks/primary/certs 3650");
     console.log("");
-    console.log("Generates self-signed certificates for PostgreSQL TLS/SSL.");
+    console.log("Issues a local CA plus server and client certificates for POSTGRES_TLS=require:");
+    console.log("PostgreSQL, PgBouncer, the replication user and postgres_exporter.");
     console.log("Default validity: 3650 days (10 years)");
+    console.log("--hosts adds names to the server certificates (POSTGRES_HOSTNAME is added too)");
+    console.log("--ca-dir sets where the CA key lives (default: <cert-directory>-ca)");
     return null;
   }
 
@@ -40,25 +85,25 @@ function parseArgs(): CertConfig | null {
     return null;
   }
 
-  const hostname = Bun.env.POSTGRES_HOSTNAME || "postgres.local";
+  if (Bun.env.POSTGRES_HOSTNAME) {
+    hosts = [...new Set([...hosts, ...parseHostList(Bun.env.POSTGRES_HOSTNAME)])];
+  }
 
   return {
     certDir,
+    caDir: caDir ?? join(dirname(certDir), `${basename(certDir)}-ca`),
     daysValid,
-    hostname,
+    hosts,
   };
 }
 
 /**
  * Check if certificates already exist
  */
-async function certificatesExist(certDir: string): Promise<boolean> {
-  const keyFile = Bun.file(`${certDir}/server.key`);
-  const certFile = Bun.file(`${certDir}/server.crt`);
-
-  const [keyExists, certExists] = await Promise.all([keyFile.exists(), certFile.exists()]);
-
-  return keyExists || certExists;
+async function certificatesExist(certDir: string, specs: CertSpec[]): Promise<boolean> {
+  const files = specs.flatMap((spec) => [`${spec.name}.key`, `${spec.name}.crt`]);
+  const exists = await Promise.all(files.map((file) => Bun.file(join(certDir, file)).exists()));
+  return exists.some(Boolean);
 }
 
 /**
@@ -84,71 +129,90 @@ async function promptConfirmation(message: string): Promise<boolean> {
 }
 
 /**
- * Remove existing certificate files
+ * Create the CA unless one already exists, and publish ca.crt into the certificate directory
  */
-async function removeExistingCerts(certDir: string): Promise<void> {
-  try {
-    await $`rm -f ${certDir}/server.key ${certDir}/server.crt ${certDir}/ca.crt`.quiet();
-  } catch {
-    // Ignore errors if files don't exist
+async function ensureCA(config: CertConfig): Promise<boolean> {
+  const { caDir, certDir, daysValid } = config;
+  const caKey = join(caDir, "ca.key");
+  const caCert = join(caDir, "ca.crt");
+  const created = !(await Bun.file(caKey).exists());
+
+  if (created) {
+    info(`Creating local CA in ${caDir}...`);
+    await $`mkdir -p ${caDir}`;
+    await $`chmod 700 ${caDir}`;
+    const configFile = join(caDir, "ca.cnf");
+    await Bun.write(configFile, CA_CONFIG);
+    try {
+      await $`openssl req -new -x509 -config ${configFile} -days ${daysValid.toString()} -nodes -newkey rsa:3072 -keyout ${caKey} -out ${caCert} -subj ${"/CN=aza-pg local CA/O=PostgreSQL"}`.quiet();
+    } catch (err) {
+      error("Failed to create the CA certificate");
+      throw err;
+    } finally {
+      await $`rm -f ${configFile}`.quiet();
+    }
+    await $`chmod 600 ${caKey}`;
+  } else {
+    info(`Reusing the CA in ${caDir}`);
   }
+
+  await $`cp ${caCert} ${join(certDir, "ca.crt")}`;
+  await $`chmod 644 ${join(certDir, "ca.crt")}`;
+  return created;
 }
 
 /**
- * Generate SSL certificates using OpenSSL
+ * Issue one certificate signed by the CA
  */
-async function generateCertificates(config: CertConfig): Promise<void> {
-  const { certDir, daysValid, hostname } = config;
+async function issueCertificate(config: CertConfig, spec: CertSpec): Promise<void> {
+  const { caDir, certDir, daysValid } = config;
+  const key = join(certDir, `${spec.name}.key`);
+  const csr = join(certDir, `${spec.name}.csr`);
+  const cert = join(certDir, `${spec.name}.crt`);
+  const extFile = join(certDir, `${spec.name}.ext`);
 
-  info("Generating private key...");
+  info(`Issuing ${spec.name}.crt (${spec.description})...`);
 
   try {
-    await $`openssl req -new -x509 -days ${daysValid.toString()} -nodes -text -out ${certDir}/server.crt -keyout ${certDir}/server.key -subj /CN=${hostname}/O=PostgreSQL/C=US`;
+    await Bun.write(extFile, buildExtensions(spec));
+    await $`openssl req -new -nodes -newkey rsa:2048 -keyout ${key} -out ${csr} -subj /CN=${spec.commonName}/O=PostgreSQL`.quiet();
+    await $`openssl x509 -req -in ${csr} -CA ${join(caDir, "ca.crt")} -CAkey ${join(caDir, "ca.key")} -CAcreateserial -days ${daysValid.toString()} -sha256 -extfile ${extFile} -out ${cert}`.quiet();
   } catch (err) {
-    error("Failed to generate certificates");
+    error(`Failed to issue ${spec.name}.crt`);
     throw err;
+  } finally {
+    await $`rm -f ${csr} ${extFile}`.quiet();
   }
 
-  // Verify that the key file was created
-  const keyFile = Bun.file(`${certDir}/server.key`);
-  if (!(await keyFile.exists())) {
-    error("Failed to generate certificates");
-    throw new Error("Certificate key file not created");
-  }
-}
-
-/**
- * Set proper file permissions
- */
-async function setPermissions(certDir: string): Promise<void> {
-  await $`chmod 600 ${certDir}/server.key`;
-  await $`chmod 644 ${certDir}/server.crt`;
-}
-
-/**
- * Copy certificate as CA certificate
- */
-async function createCACert(certDir: string): Promise<void> {
-  await $`cp ${certDir}/server.crt ${certDir}/ca.crt`;
+  await $`chmod ${spec.keyMode.toString(8)} ${key}`;
+  await $`chmod 644 ${cert}`;
 }
 
 /**
  * Print success message with next steps
  */
-function printSuccess(certDir: string): void {
+function printSuccess(config: CertConfig, specs: CertSpec[]): void {
+  const { certDir, caDir } = config;
   success("Certificates generated successfully!");
   console.log("");
   console.log("Files created:");
-  console.log(`  - ${certDir}/server.key  (private key, 600 permissions)`);
-  console.log(`  - ${certDir}/server.crt  (certificate)`);
-  console.log(`  - ${certDir}/ca.crt      (CA certificate, copy of server.crt)`);
+  console.log(`  - ${caDir}/ca.key  (CA private key, 600 - keep offline, never mount)`);
+  console.log(`  - ${certDir}/ca.crt  (CA certificate)`);
+  for (const spec of specs) {
+    const mode = spec.keyMode.toString(8);
+    console.log(
+      `  - ${certDir}/${spec.name}.crt / ${spec.name}.key  (${spec.description}, key ${mode})`
+    );
+  }
   console.log("");
   console.log("Next steps:");
-  console.log("  1. Uncomment SSL lines in postgresql.conf");
-  console.log("  2. Mount certs in compose.yml volumes section");
-  console.log("  3. Restart PostgreSQL stack");
+  console.log("  1. Set POSTGRES_TLS=require in each stack's .env");
+  console.log(`  2. Point POSTGRES_TLS_DIR at ${certDir} for stacks outside its directory`);
+  console.log("  3. Set POSTGRES_EXPORTER_SSLMODE=verify-full and recreate the stack");
   console.log("");
-  console.log("For production, replace these self-signed certificates with real ones from a CA.");
+  console.log(
+    "For production, replace these with certificates from your own CA (same file names)."
+  );
 }
 
 /**
@@ -162,6 +226,7 @@ async function main(): Promise<void> {
   }
 
   const { certDir, daysValid } = config;
+  const specs = buildCertSpecs(config.hosts);
 
   info(`Generating certificates in: ${certDir}`);
   info(`Validity period: ${daysValid} days`);
@@ -170,7 +235,7 @@ async function main(): Promise<void> {
   await $`mkdir -p ${certDir}`;
 
   // Check if certificates already exist
-  if (await certificatesExist(certDir)) {
+  if (await certificatesExist(certDir, specs)) {
     warning(`Certificates already exist in ${certDir}`);
     const shouldOverwrite = await promptConfirmation("Overwrite existing certificates?");
 
@@ -178,21 +243,17 @@ async function main(): Promise<void> {
       info("Aborted");
       process.exit(0);
     }
-
-    await removeExistingCerts(certDir);
   }
 
-  // Generate certificates
-  await generateCertificates(config);
-
-  // Set file permissions
-  await setPermissions(certDir);
+  if (await ensureCA(config)) {
+    warning("New CA: clients that trusted a previous ca.crt need the new one");
+  }
 
-  // Create CA certificate (copy of server cert)
-  await createCACert(certDir);
+  for (const spec of specs) {
+    await issueCertificate(config, spec);
+  }
 
-  // Print success message
-  printSuccess(certDir);
+  printSuccess(config, specs);
 }
 
 // Run main function
@@ -0,0 +1,239 @@
+#!/usr/bin/env bun
+/**
+ * Issue a client certificate for one role from the local CA (cert authentication)
+ *
+ * USAGE:
+ *   bun scripts/tools/issue-client-cert.ts --role NAME [OPTIONS]
+ *
+ * OPTIONS:
+ *   --role NAME         Role the certificate authenticates as; becomes the CN (required)
+ *   --ca-dir DIR        CA created by generate-ssl-certs.ts (default: stacks/primary/certs-ca)
+ *   --out DIR           Where <role>.crt, <role>.key and ca.crt are written
+ *                       (default: stacks/primary/client-certs)
+ *   --days N            Validity in days (default: 825)
+ *   --force             Reissue when <role>.crt already exists
+ *   -h, --help          Show this help message
+ *
+ * DESCRIPTION:
+ *   Signs a clientAuth certificate whose CN is the role name with the CA that
+ *   generate-ssl-certs.ts created, so servers in TLS mode (POSTGRES_TLS=require) accept it for
+ *   `cert` pg_hba rules and for `clientcert=verify-full`. A `cert` rule without a map compares
+ *   the CN to the role; with a map, the generated pg_ident.conf decides which roles the CN may
+ *   use. Add the rule to pgHbaRules (and the mapping to pgIdentMappings) in
+ *   scripts/config-generator/base-config.ts, then regenerate the configs.
+ *
+ * EXAMPLES:
+ *   # Certificate for the app_reader role
+ *   bun scripts/tools/issue-client-cert.ts --role app_reader
+ *
+ *   # Connect with it
+ *   psql "host=db.example.com dbname=app user=app_reader sslmode=verify-full \
+ *     sslrootcert=ca.crt sslcert=app_reader.crt sslkey=app_reader.key"
+ *
+ * PREREQUISITES:
+ *   - openssl
+ *   - A CA from generate-ssl-certs.ts (ca.key and ca.crt in --ca-dir)
+ *
+ * WARNINGS:
+ *   - Anyone holding <role>.key can log in as the role wherever a cert rule allows it; there is
+ *     no revocation list, so keep validity short and rotate the CA to revoke
+ *
+ * EXIT CODES:
+ *   0 - Certificate issued
+ *   1 - Invalid arguments, missing CA or openssl failure
+ */
+
+import { $ } from "bun";
+import { join } from "node:path";
+import { getErrorMessage } from "../utils/errors";
+import { checkCommand } from "../utils/docker";
+import { error, info, section, success } from "../utils/logger";
+import { buildExtensions, clientCertSpec, type CertSpec } from "./tls-plan";
+
+interface IssueConfig {
+  role: string;
+  caDir: string;
+  outDir: string;
+  daysValid: number;
+  force: boolean;
+}
+
+function printHelp(): void {
+  process.stdout.write(`
+Issue a client certificate for one role from the local CA (cert authentication)
+
+USAGE:
+  bun scripts/tools/issue-client-cert.ts --role NAME [OPTIONS]
+
+OPTIONS:
+  --role NAME         Role the certificate authenticates as; becomes the CN (required)
+  --ca-dir DIR        CA created by generate-ssl-certs.ts (default: stacks/primary/certs-ca)
+  --out DIR           Where <role>.crt, <role>.key and ca.crt are written
+                      (default: stacks/primary/client-certs)
+  --days N            Validity in days (default: 825)
+  --force             Reissue when <role>.crt already exists
+  -h, --help          Show this help message
+
+EXAMPLES:
+  # Certificate for the app_reader role
+  bun scripts/tools/issue-client-cert.ts --role app_reader
+
+  # Connect with it
+  psql "host=db.example.com dbname=app user=app_reader sslmode=verify-full \\
+    sslrootcert=ca.crt sslcert=app_reader.crt sslkey=app_reader.key"
+
+WARNINGS:
+  - Anyone holding <role>.key can log in as the role wherever a cert rule allows it; there is
+    no revocation list, so keep validity short and rotate the CA to revoke
+`);
+  process.exit(0);
+}
+
+function parseArgs(): IssueConfig {
+  const args = Bun.argv.slice(2);
+  const config: IssueConfig = {
+    role: "",
+    caDir: "stacks/primary/certs-ca",
+    outDir: "stacks/primary/client-certs",
+    daysValid: 825,
+    force: false,
+  };
+
+  const requireValue = (option: string, index: number): string => {
+    const value = args[index];
+    if (value === undefined || value === "") {
+      error(`Missing value for ${option} option`);
+      process.exit(1);
+    }
+    return value;
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case "--role":
+        config.role = requireValue(arg, ++i);
+        break;
+
+      case "--ca-dir":
+        config.caDir = requireValue(arg, ++i);
+        break;
+
+      case "--out":
+        config.outDir = requireValue(arg, ++i);
+        break;
+
+      case "--days": {
+        const value = requireValue(arg, ++i);
+        config.daysValid = Number.parseInt(value, 10);
+        if (!/^\d+$/.test(value) || config.daysValid <= 0) {
+          error(`Invalid --days value: ${value} (must be a positive integer)`);
+          process.exit(1);
+        }
+        break;
+      }
+
+      case "--force":
+        config.force = true;
+        break;
+
+      case "-h":
+      case "--help":
+        printHelp();
+        break;
+
+      default:
+        error(`Unknown option: ${arg}. Use -h for help.`);
+        process.exit(1);
+    }
+  }
+
+  if (!config.role) {
+    error("--role is required. Use -h for help.");
+    process.exit(1);
+  }
+
+  return config;
+}
+
+async function issue(config: IssueConfig, spec: CertSpec): Promise<void> {
+  const { caDir, outDir, daysValid } = config;
+  const key = join(outDir, `${spec.name}.key`);
+  const csr = join(outDir, `${spec.name}.csr`);
+  const cert = join(outDir, `${spec.name}.crt`);
+  const extFile = join(outDir, `${spec.name}.ext`);
+
+  await $`mkdir -p ${outDir}`;
+  try {
+    await Bun.write(extFile, buildExtensions(spec));
+    await $`openssl req -new -nodes -newkey rsa:2048 -keyout ${key} -out ${csr} -subj /CN=${spec.commonName}/O=PostgreSQL`.quiet();
+    await $`openssl x509 -req -in ${csr} -CA ${join(caDir, "ca.crt")} -CAkey ${join(caDir, "ca.key")} -CAcreateserial -days ${daysValid.toString()} -sha256 -extfile ${extFile} -out ${cert}`.quiet();
+  } catch (err) {
+    throw new Error(`openssl failed to issue ${spec.name}.crt: ${getErrorMessage(err)}`);
+  } finally {
+    await $`rm -f ${csr} ${extFile}`.quiet();
+  }
+
+  await $`chmod ${spec.keyMode.toString(8)} ${key}`;
+  await $`chmod 644 ${cert}`;
+  await $`cp ${join(caDir, "ca.crt")} ${join(outDir, "ca.crt")}`;
+}
+
+function printUsage(config: IssueConfig, spec: CertSpec): void {
+  const dir = config.outDir;
+  section("Connect");
+  process.stdout.write(
+    `  sslmode=verify-full sslrootcert=${dir}/ca.crt sslcert=${dir}/${spec.name}.crt sslkey=${dir}/${spec.name}.key\n`
+  );
+  section("Allow it (scripts/config-generator/base-config.ts, then regenerate)");
+  process.stdout.write(
+    [
+      "  Certificate only (no password):",
+      `    pgHbaRules:  { type: "hostssl", database: "all", user: "${config.role}", address: "10.0.0.0/8", method: "cert" }`,
+      "  Certificate in addition to the password:",
+      `    pgHbaRules:  { ..., user: "${config.role}", method: "scram-sha-256", clientCert: "verify-full" }`,
+      "  Certificate CN allowed to log in as other roles:",
+      `    pgIdentMappings: { map: "app_certs", systemUser: "${spec.commonName}", databaseUser: "<role>" }`,
+      `    pgHbaRules:  { ..., method: "cert", map: "app_certs" }`,
+      "  Rules are matched in order: put them before the broader scram-sha-256 rules.",
+      "",
+    ].join("\n")
+  );
+}
+
+async function main(): Promise<void> {
+  const config = parseArgs();
+  let spec: CertSpec;
+  try {
+    spec = clientCertSpec(config.role);
+  } catch (err) {
+    error(getErrorMessage(err));
+    process.exit(1);
+  }
+
+  await checkCommand("openssl");
+
+  for (const file of ["ca.key", "ca.crt"]) {
+    if (!(await Bun.file(join(config.caDir, file)).exists())) {
+      throw new Error(
+        `${join(config.caDir, file)} not found (create the CA with scripts/tools/generate-ssl-certs.ts)`
+      );
+    }
+  }
+  if (!config.force && (await Bun.file(join(config.outDir, `${spec.name}.crt`)).exists())) {
+    throw new Error(`${join(config.outDir, `${spec.name}.crt`)} exists (use --force to reissue)`);
+  }
+
+  info(`Issuing ${spec.name}.crt (CN=${spec.commonName}, ${config.daysValid} days)...`);
+  await issue(config, spec);
+  success(`Issued ${join(config.outDir, `${spec.name}.crt`)} and ${spec.name}.key (600)`);
+  printUsage(config, spec);
+}
+
+if (import.meta.main) {
+  main().catch((err) => {
+    error(getErrorMessage(err));
+    process.exit(1);
+  });
+}
@@ -0,0 +1,130 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  buildGrantSql,
+  buildPublicationSql,
+  buildSetvalSql,
+  buildSubscriptionSql,
+  parseSchemaList,
+  parseSequenceValues,
+  parseSubscriptionStatus,
+  parseTableList,
+  schemaDumpArgs,
+} from "./logical-plan";
+
+const SCOPE = { tables: ["public.orders", "billing.invoices"], schemas: ["events"] };
+
+describe("scope lists", () => {
+  test("qualifies tables with public and drops duplicates", () => {
+    expect(parseTableList("orders, billing.invoices orders")).toEqual([
+      "public.orders",
+      "billing.invoices",
+    ]);
+    expect(parseSchemaList("events,audit")).toEqual(["events", "audit"]);
+  });
+
+  test("rejects names that would need quoting", () => {
+    expect(() => parseTableList("Orders")).toThrow("Invalid table 'Orders'");
+    expect(() => parseTableList("a.b.c")).toThrow("expected table or schema.table");
+    expect(() => parseSchemaList("audit;drop")).toThrow("Invalid schema 'audit;drop'");
+  });
+});
+
+describe("publisher SQL", () => {
+  test("publishes tables and schemas together", () => {
+    expect(buildPublicationSql("migrate", SCOPE)).toBe(
+      "CREATE PUBLICATION migrate FOR TABLE public.orders, billing.invoices, TABLES IN SCHEMA events"
+    );
+    expect(() => buildPublicationSql("migrate", { tables: [], schemas: [] })).toThrow(
+      "Nothing to publish"
+    );
+  });
+
+  test("grants the subscription role read access for the initial copy", () => {
+    expect(buildGrantSql("replicator", SCOPE)).toEqual([
+      "GRANT USAGE ON SCHEMA events TO replicator",
+      "GRANT USAGE ON SCHEMA public TO replicator",
+      "GRANT USAGE ON SCHEMA billing TO replicator",
+      "GRANT SELECT ON public.orders TO replicator",
+      "GRANT SELECT ON billing.invoices TO replicator",
+      "GRANT SELECT ON ALL TABLES IN SCHEMA events TO replicator",
+      "ALTER DEFAULT PRIVILEGES IN SCHEMA events GRANT SELECT ON TABLES TO replicator",
+    ]);
+  });
+
+  test("dumps schemas and single tables separately", () => {
+    expect(schemaDumpArgs(SCOPE)).toEqual([
+      ["--schema-only", "--no-owner", "--no-privileges", "--no-publications", "-n", "events"],
+      [
+        "--schema-only",
+        "--no-owner",
+        "--no-privileges",
+        "--no-publications",
+        "-t",
+        "public.orders",
+        "-t",
+        "billing.invoices",
+      ],
+    ]);
+    expect(schemaDumpArgs({ tables: [], schemas: ["events"] })).toHaveLength(1);
+  });
+});
+
+test("buildSubscriptionSql escapes the connection string", () => {
+  expect(buildSubscriptionSql("migrate", "host=postgres password='it\\'s'", true)).toBe(
+    "CREATE SUBSCRIPTION migrate CONNECTION 'host=postgres password=''it\\''s''' PUBLICATION migrate WITH (copy_data = true, slot_name = migrate)"
+  );
+});
+
+describe("parseSubscriptionStatus", () => {
+  test("reads worker, lag, sync progress and errors", () => {
+    expect(
+      parseSubscriptionStatus("migrate|true|true|3|4|2|0|1\nread_model|false|false||0|0|0|0\n")
+    ).toEqual([
+      {
+        name: "migrate",
+        enabled: true,
+        workerRunning: true,
+        lagSeconds: 3,
+        tablesTotal: 4,
+        tablesReady: 2,
+        applyErrors: 0,
+        syncErrors: 1,
+      },
+      {
+        name: "read_model",
+        enabled: false,
+        workerRunning: false,
+        lagSeconds: undefined,
+        tablesTotal: 0,
+        tablesReady: 0,
+        applyErrors: 0,
+        syncErrors: 0,
+      },
+    ]);
+  });
+
+  test("rejects unexpected rows", () => {
+    expect(() => parseSubscriptionStatus("ERROR: relation does not exist")).toThrow(
+      "Unexpected subscription status row"
+    );
+  });
+});
+
+describe("sequences", () => {
+  test("copies used sequences and skips untouched ones", () => {
+    const sequences = parseSequenceValues(
+      'public.orders_id_seq|9007199254740993\n"Events"."o\'id"|-5\nbilling.unused_seq|\n'
+    );
+    expect(sequences).toEqual([
+      { name: "public.orders_id_seq", lastValue: 9007199254740993n },
+      { name: '"Events"."o\'id"', lastValue: -5n },
+      { name: "billing.unused_seq", lastValue: undefined },
+    ]);
+    expect(buildSetvalSql(sequences)).toEqual([
+      "SELECT setval('public.orders_id_seq', 9007199254740993, true)",
+      "SELECT setval('\"Events\".\"o''id\"', -5, true)",
+    ]);
+    expect(() => parseSequenceValues("no separator")).toThrow("Unexpected sequence row");
+  });
+});
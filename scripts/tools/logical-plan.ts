@@ -0,0 +1,236 @@
+/**
+ * Publication and subscription planning for logical-replicate.ts
+ *
+ * Pure logic: validates the replicated tables and schemas, builds the SQL run on the publisher
+ * and the subscriber, the pg_dump arguments that copy their schema, and parses subscription
+ * status and sequence values.
+ */
+
+export interface ReplicationScope {
+  /** Schema-qualified tables (unqualified names are taken as public) */
+  tables: string[];
+  /** Every table in these schemas, including tables created later */
+  schemas: string[];
+}
+
+export interface SubscriptionStatus {
+  name: string;
+  enabled: boolean;
+  workerRunning: boolean;
+  /** Seconds since the publisher last confirmed a position; undefined before the first message */
+  lagSeconds?: number;
+  tablesTotal: number;
+  tablesReady: number;
+  applyErrors: number;
+  syncErrors: number;
+}
+
+export interface SequenceValue {
+  name: string;
+  /** undefined when nextval() was never called on the publisher */
+  lastValue?: bigint;
+}
+
+const IDENTIFIER = /^[a-z_][a-z0-9_]*$/;
+
+/**
+ * Validate a publication, subscription or role name
+ *
+ * Names are interpolated into SQL unquoted, so only lower-case identifiers are accepted.
+ */
+export function validateIdentifier(value: string, kind: string): string {
+  if (!IDENTIFIER.test(value) || value.length > 63) {
+    throw new Error(
+      `Invalid ${kind} '${value}' (lower-case letters, digits and underscore, at most 63 characters)`
+    );
+  }
+  return value;
+}
+
+function parseList(value: string): string[] {
+  return [...new Set(value.split(/[\s,]+/).filter(Boolean))];
+}
+
+/**
+ * Parse a comma- or space-separated table list into schema-qualified names
+ *
+ * @throws {Error} If a name is not a lower-case (optionally schema-qualified) identifier
+ */
+export function parseTableList(value: string): string[] {
+  return parseList(value).map((table) => {
+    const parts = table.split(".");
+    if (parts.length > 2) {
+      throw new Error(`Invalid table '${table}' (expected table or schema.table)`);
+    }
+    const [schema, name] = parts.length === 2 ? parts : ["public", parts[0]!];
+    return `${validateIdentifier(schema!, "schema")}.${validateIdentifier(name!, "table")}`;
+  });
+}
+
+/**
+ * Parse a comma- or space-separated schema list
+ */
+export function parseSchemaList(value: string): string[] {
+  return parseList(value).map((schema) => validateIdentifier(schema, "schema"));
+}
+
+function scopeSchemas(scope: ReplicationScope): string[] {
+  return [...new Set([...scope.schemas, ...scope.tables.map((table) => table.split(".")[0]!)])];
+}
+
+/**
+ * CREATE PUBLICATION for the scope (PostgreSQL 15+ allows tables and schemas in one publication)
+ */
+export function buildPublicationSql(name: string, scope: ReplicationScope): string {
+  const objects = [
+    ...(scope.tables.length > 0 ? [`TABLE ${scope.tables.join(", ")}`] : []),
+    ...scope.schemas.map((schema) => `TABLES IN SCHEMA ${schema}`),
+  ];
+  if (objects.length === 0) {
+    throw new Error("Nothing to publish: pass --tables and/or --schemas");
+  }
+  return `CREATE PUBLICATION ${name} FOR ${objects.join(", ")}`;
+}
+
+/**
+ * Grants the subscription's role needs on the publisher for the initial copy
+ *
+ * Default privileges cover tables later created by the role running them (postgres) in a
+ * published schema, which the publication picks up as well.
+ */
+export function buildGrantSql(user: string, scope: ReplicationScope): string[] {
+  return [
+    ...scopeSchemas(scope).map((schema) => `GRANT USAGE ON SCHEMA ${schema} TO ${user}`),
+    ...scope.tables.map((table) => `GRANT SELECT ON ${table} TO ${user}`),
+    ...scope.schemas.flatMap((schema) => [
+      `GRANT SELECT ON ALL TABLES IN SCHEMA ${schema} TO ${user}`,
+      `ALTER DEFAULT PRIVILEGES IN SCHEMA ${schema} GRANT SELECT ON TABLES TO ${user}`,
+    ]),
+  ];
+}
+
+/**
+ * pg_dump argument sets that copy the scope's table definitions
+ *
+ * pg_dump ignores -n once -t is given, so schemas and single tables need separate dumps.
+ */
+export function schemaDumpArgs(scope: ReplicationScope): string[][] {
+  const common = ["--schema-only", "--no-owner", "--no-privileges", "--no-publications"];
+  return [
+    ...(scope.schemas.length > 0
+      ? [[...common, ...scope.schemas.flatMap((schema) => ["-n", schema])]]
+      : []),
+    ...(scope.tables.length > 0
+      ? [[...common, ...scope.tables.flatMap((table) => ["-t", table])]]
+      : []),
+  ];
+}
+
+/**
+ * CREATE SUBSCRIPTION on the subscriber; the slot on the publisher gets the subscription's name
+ */
+export function buildSubscriptionSql(name: string, conninfo: string, copyData: boolean): string {
+  const connection = conninfo.replace(/'/g, "''");
+  return `CREATE SUBSCRIPTION ${name} CONNECTION '${connection}' PUBLICATION ${name} WITH (copy_data = ${copyData}, slot_name = ${name})`;
+}
+
+/**
+ * Subscriptions of the current database as
+ * "name|enabled|worker_running|lag_seconds|tables_total|tables_ready|apply_errors|sync_errors"
+ */
+export const SUBSCRIPTION_STATUS_QUERY = `SELECT s.subname || '|' || s.subenabled || '|' || (w.pid IS NOT NULL) || '|' ||
+  coalesce(round(extract(epoch FROM now() - w.latest_end_time))::text, '') || '|' ||
+  (SELECT count(*) FROM pg_subscription_rel r WHERE r.srsubid = s.oid) || '|' ||
+  (SELECT count(*) FROM pg_subscription_rel r WHERE r.srsubid = s.oid AND r.srsubstate = 'r') || '|' ||
+  coalesce(st.apply_error_count, 0) || '|' || coalesce(st.sync_error_count, 0)
+FROM pg_subscription s
+LEFT JOIN pg_stat_subscription w ON w.subid = s.oid AND w.worker_type = 'apply'
+LEFT JOIN pg_stat_subscription_stats st ON st.subid = s.oid
+WHERE s.subdbid = (SELECT oid FROM pg_database WHERE datname = current_database())
+ORDER BY s.subname`;
+
+/**
+ * Parse SUBSCRIPTION_STATUS_QUERY output
+ */
+export function parseSubscriptionStatus(output: string): SubscriptionStatus[] {
+  return output
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .map((line) => {
+      const fields = line.trim().split("|");
+      const [name = "", enabled, running, lag = "", total, ready, applyErrors, syncErrors] = fields;
+      const counts = [total, ready, applyErrors, syncErrors];
+      if (
+        fields.length !== 8 ||
+        !name ||
+        !/^(true|false)$/.test(`${enabled}`) ||
+        !/^(true|false)$/.test(`${running}`) ||
+        !counts.every((count) => /^\d+$/.test(count ?? ""))
+      ) {
+        throw new Error(`Unexpected subscription status row: '${line}'`);
+      }
+      return {
+        name,
+        enabled: enabled === "true",
+        workerRunning: running === "true",
+        lagSeconds: /^-?\d+$/.test(lag) ? Number(lag) : undefined,
+        tablesTotal: Number(total),
+        tablesReady: Number(ready),
+        applyErrors: Number(applyErrors),
+        syncErrors: Number(syncErrors),
+      };
+    });
+}
+
+/**
+ * Sequences owned by the scope's tables or living in its schemas, as "schema.sequence|last_value"
+ * with quoted identifiers
+ *
+ * Logical replication does not carry sequence values; they are copied before switching writes.
+ */
+export function sequencesQuery(scope: ReplicationScope): string {
+  const schemas = scope.schemas.map((schema) => `'${schema}'`).join(", ");
+  const tables = scope.tables.map((table) => `'${table}'::regclass`).join(", ");
+  return `SELECT format('%I.%I', s.schemaname, s.sequencename) || '|' || coalesce(s.last_value::text, '')
+FROM pg_sequences s
+WHERE s.schemaname = ANY (ARRAY[${schemas}]::text[])
+  OR EXISTS (
+    SELECT 1 FROM pg_depend d
+    WHERE d.classid = 'pg_class'::regclass
+      AND d.objid = format('%I.%I', s.schemaname, s.sequencename)::regclass
+      AND d.refobjid = ANY (ARRAY[${tables}]::regclass[])
+      AND d.deptype IN ('a', 'i')
+  )
+ORDER BY 1`;
+}
+
+/**
+ * Parse sequencesQuery output
+ */
+export function parseSequenceValues(output: string): SequenceValue[] {
+  return output
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .map((line) => {
+      const separator = line.trim().lastIndexOf("|");
+      const name = line.trim().slice(0, Math.max(separator, 0));
+      const value = line.trim().slice(separator + 1);
+      if (separator <= 0 || !/^(-?\d+)?$/.test(value)) {
+        throw new Error(`Unexpected sequence row: '${line}'`);
+      }
+      return { name, lastValue: value === "" ? undefined : BigInt(value) };
+    });
+}
+
+/**
+ * setval() calls that move the subscriber's sequences to the publisher's values
+ *
+ * Sequences never used on the publisher are left alone.
+ */
+export function buildSetvalSql(sequences: SequenceValue[]): string[] {
+  return sequences.flatMap((sequence) =>
+    sequence.lastValue === undefined
+      ? []
+      : [`SELECT setval('${sequence.name.replace(/'/g, "''")}', ${sequence.lastValue}, true)`]
+  );
+}
@@ -0,0 +1,656 @@
+#!/usr/bin/env bun
+/**
+ * Replicate tables between two aza-pg servers with logical replication (publication/subscription)
+ *
+ * USAGE:
+ *   bun scripts/tools/logical-replicate.ts --source NAME --target NAME --tables LIST [OPTIONS]
+ *   bun scripts/tools/logical-replicate.ts --target NAME --status [--source NAME]
+ *
+ * OPTIONS:
+ *   --source NAME           Publisher container
+ *   --target NAME           Subscriber container (required)
+ *   --source-host HOST      Host the subscriber connects to (default: --source)
+ *   --source-port PORT      Port the subscriber connects to (default: 5432)
+ *   --database NAME         Database on both servers (default: postgres)
+ *   --tables LIST           Tables to replicate, comma-separated (schema.table; default schema public)
+ *   --schemas LIST          Schemas to replicate, including tables created in them later
+ *   --name NAME             Publication, subscription and slot name (default: aza_logical)
+ *   --user NAME             Role the subscription connects as (default: replicator)
+ *   --no-schema             Do not copy table definitions; they already exist on the target
+ *   --no-copy-data          Stream changes only, without the initial data copy
+ *   --timeout SECONDS       Time allowed for the initial data copy (default: 3600)
+ *   --status                Show subscription state, lag and the publisher's slot
+ *   --sync-sequences        Copy sequence values of the replicated tables to the target
+ *   --drop                  Drop the subscription, its slot and the publication
+ *   -h, --help              Show this help message
+ *
+ * DESCRIPTION:
+ *   Sets up logical replication from --source to --target:
+ *   1. Check the source runs with wal_level=logical and the role has REPLICATION
+ *   2. Grant the role read access and create the publication on the source
+ *   3. Copy the table definitions to the target (pg_dump --schema-only)
+ *   4. Create the subscription on the target, which creates its slot on the source
+ *   5. Wait until every table finished its initial copy and streams changes
+ *
+ *   Logical replication does not carry DDL or sequence values. Apply schema changes on the
+ *   target first, and run --sync-sequences before moving writes to the target.
+ *
+ *   The role's password is read from $PG_REPLICATION_PASSWORD, or from the source's environment
+ *   or Docker secret (PG_REPLICATION_PASSWORD_FILE) when unset. When the source runs in TLS mode
+ *   (POSTGRES_TLS=require), the subscription connects with sslmode=verify-full against the
+ *   target's copy of the same local CA.
+ *
+ * EXAMPLES:
+ *   # Zero-downtime major version migration: replicate everything in public
+ *   bun scripts/tools/logical-replicate.ts --source aza-pg-postgres-primary \
+ *     --target aza-pg-postgres-logical --source-host postgres --schemas public --name pg18_migration
+ *
+ *   # Read model with two tables
+ *   bun scripts/tools/logical-replicate.ts --source aza-pg-postgres-primary \
+ *     --target aza-pg-postgres-logical --source-host postgres --tables orders,billing.invoices \
+ *     --name read_model
+ *
+ *   # Lag and sync progress
+ *   bun scripts/tools/logical-replicate.ts --target aza-pg-postgres-logical --status
+ *
+ *   # Cutover: copy sequences, then remove replication
+ *   bun scripts/tools/logical-replicate.ts --source aza-pg-postgres-primary \
+ *     --target aza-pg-postgres-logical --schemas public --name pg18_migration --sync-sequences
+ *   bun scripts/tools/logical-replicate.ts --source aza-pg-postgres-primary \
+ *     --target aza-pg-postgres-logical --name pg18_migration --drop
+ *
+ * PREREQUISITES:
+ *   - Docker installed and running, with both containers running
+ *   - The --database exists on both servers
+ *   - Source started with wal_level=logical (primary stack default) and PG_REPLICATION_PASSWORD
+ *     (creates the replicator role)
+ *   - The target reaches the source on --source-host (stacks/logical joins the primary's network)
+ *   - Replicated tables have a primary key or a replica identity for UPDATE and DELETE
+ *
+ * WARNINGS:
+ *   - The slot keeps WAL on the source while the subscription is disabled or failing; use
+ *     --drop when replication is no longer needed
+ *   - Writes to replicated tables on the target can conflict with incoming changes
+ *
+ * EXIT CODES:
+ *   0 - Replication set up (or status shown, sequences copied, replication dropped)
+ *   1 - Invalid arguments, failed preflight or failed step
+ */
+
+import { getErrorMessage } from "../utils/errors";
+import { checkCommand, checkDockerDaemon } from "../utils/docker";
+import { error, info, section, success, warning } from "../utils/logger";
+import {
+  SUBSCRIPTION_STATUS_QUERY,
+  buildGrantSql,
+  buildPublicationSql,
+  buildSetvalSql,
+  buildSubscriptionSql,
+  parseSchemaList,
+  parseSequenceValues,
+  parseSubscriptionStatus,
+  parseTableList,
+  schemaDumpArgs,
+  sequencesQuery,
+  validateIdentifier,
+  type ReplicationScope,
+  type SubscriptionStatus,
+} from "./logical-plan";
+import { quoteConninfoValue, TLS_CA_FILE } from "./rejoin-config";
+
+type Action = "setup" | "status" | "sync-sequences" | "drop";
+
+interface LogicalConfig {
+  action: Action;
+  source: string;
+  target: string;
+  sourceHost: string;
+  sourcePort: number;
+  database: string;
+  scope: ReplicationScope;
+  name: string;
+  user: string;
+  copySchema: boolean;
+  copyData: boolean;
+  timeoutSeconds: number;
+}
+
+function printHelp(): void {
+  process.stdout.write(`
+Replicate tables between two aza-pg servers with logical replication (publication/subscription)
+
+USAGE:
+  bun scripts/tools/logical-replicate.ts --source NAME --target NAME --tables LIST [OPTIONS]
+  bun scripts/tools/logical-replicate.ts --target NAME --status [--source NAME]
+
+OPTIONS:
+  --source NAME           Publisher container
+  --target NAME           Subscriber container (required)
+  --source-host HOST      Host the subscriber connects to (default: --source)
+  --source-port PORT      Port the subscriber connects to (default: 5432)
+  --database NAME         Database on both servers (default: postgres)
+  --tables LIST           Tables to replicate, comma-separated (schema.table; default schema public)
+  --schemas LIST          Schemas to replicate, including tables created in them later
+  --name NAME             Publication, subscription and slot name (default: aza_logical)
+  --user NAME             Role the subscription connects as (default: replicator)
+  --no-schema             Do not copy table definitions; they already exist on the target
+  --no-copy-data          Stream changes only, without the initial data copy
+  --timeout SECONDS       Time allowed for the initial data copy (default: 3600)
+  --status                Show subscription state, lag and the publisher's slot
+  --sync-sequences        Copy sequence values of the replicated tables to the target
+  --drop                  Drop the subscription, its slot and the publication
+  -h, --help              Show this help message
+
+EXAMPLES:
+  # Zero-downtime major version migration: replicate everything in public
+  bun scripts/tools/logical-replicate.ts --source aza-pg-postgres-primary \\
+    --target aza-pg-postgres-logical --source-host postgres --schemas public --name pg18_migration
+
+  # Read model with two tables
+  bun scripts/tools/logical-replicate.ts --source aza-pg-postgres-primary \\
+    --target aza-pg-postgres-logical --source-host postgres --tables orders,billing.invoices \\
+    --name read_model
+
+  # Lag and sync progress
+  bun scripts/tools/logical-replicate.ts --target aza-pg-postgres-logical --status
+
+  # Cutover: copy sequences, then remove replication
+  bun scripts/tools/logical-replicate.ts --source aza-pg-postgres-primary \\
+    --target aza-pg-postgres-logical --schemas public --name pg18_migration --sync-sequences
+  bun scripts/tools/logical-replicate.ts --source aza-pg-postgres-primary \\
+    --target aza-pg-postgres-logical --name pg18_migration --drop
+`);
+  process.exit(0);
+}
+
+function parseArgs(): LogicalConfig {
+  const args = Bun.argv.slice(2);
+  const config: LogicalConfig = {
+    action: "setup",
+    source: "",
+    target: "",
+    sourceHost: "",
+    sourcePort: 5432,
+    database: "postgres",
+    scope: { tables: [], schemas: [] },
+    name: "aza_logical",
+    user: "replicator",
+    copySchema: true,
+    copyData: true,
+    timeoutSeconds: 3600,
+  };
+  const actions = new Set<Action>();
+
+  const requireValue = (option: string, index: number): string => {
+    const value = args[index];
+    if (value === undefined || value === "") {
+      error(`Missing value for ${option} option`);
+      process.exit(1);
+    }
+    return value;
+  };
+
+  const parsed = <T>(parse: () => T): T => {
+    try {
+      return parse();
+    } catch (err) {
+      error(getErrorMessage(err));
+      process.exit(1);
+    }
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case "--source":
+        config.source = requireValue(arg, ++i);
+        break;
+
+      case "--target":
+        config.target = requireValue(arg, ++i);
+        break;
+
+      case "--source-host":
+        config.sourceHost = requireValue(arg, ++i);
+        break;
+
+      case "--source-port": {
+        const value = requireValue(arg, ++i);
+        config.sourcePort = Number(value);
+        if (!Number.isInteger(config.sourcePort) || config.sourcePort < 1) {
+          error(`Invalid --source-port: ${value}`);
+          process.exit(1);
+        }
+        break;
+      }
+
+      case "--database": {
+        const value = requireValue(arg, ++i);
+        config.database = parsed(() => validateIdentifier(value, "database"));
+        break;
+      }
+
+      case "--tables": {
+        const value = requireValue(arg, ++i);
+        config.scope.tables = parsed(() => parseTableList(value));
+        break;
+      }
+
+      case "--schemas": {
+        const value = requireValue(arg, ++i);
+        config.scope.schemas = parsed(() => parseSchemaList(value));
+        break;
+      }
+
+      case "--name": {
+        const value = requireValue(arg, ++i);
+        config.name = parsed(() => validateIdentifier(value, "name"));
+        break;
+      }
+
+      case "--user": {
+        const value = requireValue(arg, ++i);
+        config.user = parsed(() => validateIdentifier(value, "role"));
+        break;
+      }
+
+      case "--no-schema":
+        config.copySchema = false;
+        break;
+
+      case "--no-copy-data":
+        config.copyData = false;
+        break;
+
+      case "--timeout": {
+        const value = requireValue(arg, ++i);
+        config.timeoutSeconds = Number(value);
+        if (!Number.isInteger(config.timeoutSeconds) || config.timeoutSeconds < 1) {
+          error(`Invalid --timeout: ${value}`);
+          process.exit(1);
+        }
+        break;
+      }
+
+      case "--status":
+      case "--sync-sequences":
+      case "--drop":
+        actions.add(arg.slice(2) as Action);
+        break;
+
+      case "-h":
+      case "--help":
+        printHelp();
+        break;
+
+      default:
+        error(`Unknown option: ${arg}. Use -h for help.`);
+        process.exit(1);
+    }
+  }
+
+  if (actions.size > 1) {
+    error("Use only one of --status, --sync-sequences and --drop");
+    process.exit(1);
+  }
+  config.action = [...actions][0] ?? "setup";
+
+  if (!config.target) {
+    error("--target is required. Use -h for help.");
+    process.exit(1);
+  }
+  if (config.action !== "status" && !config.source) {
+    error("--source is required. Use -h for help.");
+    process.exit(1);
+  }
+  const scoped = config.scope.tables.length > 0 || config.scope.schemas.length > 0;
+  if ((config.action === "setup" || config.action === "sync-sequences") && !scoped) {
+    error("--tables or --schemas is required. Use -h for help.");
+    process.exit(1);
+  }
+  config.sourceHost ||= config.source;
+
+  return config;
+}
+
+/**
+ * Run a docker command with a time limit; stderr is folded into the output on failure
+ */
+async function docker(
+  args: string[],
+  timeoutMs: number,
+  stdin?: string
+): Promise<{ ok: boolean; output: string }> {
+  const proc = Bun.spawn(["docker", ...args], {
+    stdin: stdin === undefined ? "ignore" : new Blob([stdin]),
+    stdout: "pipe",
+    stderr: "pipe",
+    timeout: timeoutMs,
+  });
+  const [stdout, stderr] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+  ]);
+  const exitCode = await proc.exited;
+  if (proc.signalCode) {
+    return { ok: false, output: `timed out after ${timeoutMs / 1000}s` };
+  }
+  return {
+    ok: exitCode === 0,
+    output: exitCode === 0 ? stdout.trim() : `${stderr.trim()}\n${stdout.trim()}`.trim(),
+  };
+}
+
+async function psql(container: string, database: string, sql: string): Promise<string> {
+  const result = await docker(
+    ["exec", container, "psql", "-U", "postgres", "-d", database, "-v", "ON_ERROR_STOP=1"].concat([
+      "-tAc",
+      sql,
+    ]),
+    60_000
+  );
+  if (!result.ok) {
+    throw new Error(`Query on ${container} failed: ${result.output}`);
+  }
+  return result.output;
+}
+
+async function replicationPassword(config: LogicalConfig): Promise<string> {
+  if (Bun.env.PG_REPLICATION_PASSWORD) {
+    return Bun.env.PG_REPLICATION_PASSWORD;
+  }
+  // The stacks pass it as a Docker secret (PG_REPLICATION_PASSWORD_FILE)
+  const result = await docker(
+    [
+      "exec",
+      config.source,
+      "sh",
+      "-c",
+      'if [ -n "${PG_REPLICATION_PASSWORD_FILE:-}" ]; then cat "$PG_REPLICATION_PASSWORD_FILE"; else printenv PG_REPLICATION_PASSWORD; fi',
+    ],
+    30_000
+  );
+  if (!result.ok || !result.output) {
+    throw new Error(`PG_REPLICATION_PASSWORD is not set here or in ${config.source}'s environment`);
+  }
+  return result.output;
+}
+
+/**
+ * Whether the source only accepts TLS connections; the target then needs the same CA to verify it
+ */
+async function sourceRequiresTls(config: LogicalConfig): Promise<boolean> {
+  const mode = await docker(["exec", config.source, "printenv", "POSTGRES_TLS"], 30_000);
+  if (!mode.ok || mode.output !== "require") {
+    return false;
+  }
+  const ca = await docker(["exec", config.target, "test", "-r", TLS_CA_FILE], 30_000);
+  if (!ca.ok) {
+    throw new Error(
+      `${config.source} runs with POSTGRES_TLS=require but ${config.target} has no ${TLS_CA_FILE}; start it in TLS mode with certificates from the same CA`
+    );
+  }
+  return true;
+}
+
+async function preflight(config: LogicalConfig): Promise<void> {
+  section("Preflight");
+
+  const walLevel = await psql(config.source, config.database, "SHOW wal_level");
+  if (walLevel !== "logical") {
+    throw new Error(
+      `${config.source} runs with wal_level=${walLevel}; logical replication needs wal_level=logical (POSTGRES_WAL_LEVEL)`
+    );
+  }
+
+  const replication = await psql(
+    config.source,
+    config.database,
+    `SELECT rolreplication FROM pg_roles WHERE rolname = '${config.user}'`
+  );
+  if (replication !== "t") {
+    throw new Error(
+      replication === ""
+        ? `Role ${config.user} does not exist on ${config.source}; start it with PG_REPLICATION_PASSWORD or pass --user`
+        : `Role ${config.user} on ${config.source} lacks the REPLICATION attribute`
+    );
+  }
+
+  const publication = await psql(
+    config.source,
+    config.database,
+    `SELECT 1 FROM pg_publication WHERE pubname = '${config.name}'`
+  );
+  if (publication) {
+    throw new Error(
+      `Publication ${config.name} already exists on ${config.source} (use --drop first)`
+    );
+  }
+  const subscription = await psql(
+    config.target,
+    config.database,
+    `SELECT 1 FROM pg_subscription WHERE subname = '${config.name}'`
+  );
+  if (subscription) {
+    throw new Error(
+      `Subscription ${config.name} already exists on ${config.target} (use --drop first)`
+    );
+  }
+
+  success(`${config.source} publishes with wal_level=logical as ${config.user}`);
+}
+
+async function createPublication(config: LogicalConfig): Promise<void> {
+  section("Publication");
+  for (const sql of buildGrantSql(config.user, config.scope)) {
+    await psql(config.source, config.database, sql);
+  }
+  await psql(config.source, config.database, buildPublicationSql(config.name, config.scope));
+  success(`Created publication ${config.name} on ${config.source}`);
+}
+
+async function copySchema(config: LogicalConfig): Promise<void> {
+  section("Table definitions");
+  for (const dumpArgs of schemaDumpArgs(config.scope)) {
+    const dump = await docker(
+      ["exec", config.source, "pg_dump", "-U", "postgres", "-d", config.database, ...dumpArgs],
+      300_000
+    );
+    if (!dump.ok) {
+      throw new Error(`pg_dump on ${config.source} failed: ${dump.output}`);
+    }
+    const restore = await docker(
+      ["exec", "-i", config.target, "psql", "-U", "postgres", "-d", config.database].concat([
+        "-v",
+        "ON_ERROR_STOP=1",
+        "-q",
+      ]),
+      300_000,
+      dump.output
+    );
+    if (!restore.ok) {
+      throw new Error(
+        `Applying the table definitions on ${config.target} failed (pass --no-schema if they already exist): ${restore.output}`
+      );
+    }
+  }
+  success(`Copied table definitions to ${config.target}`);
+}
+
+async function createSubscription(
+  config: LogicalConfig,
+  password: string,
+  tls: boolean
+): Promise<void> {
+  section("Subscription");
+  const conninfo = [
+    ["host", config.sourceHost],
+    ["port", String(config.sourcePort)],
+    ["dbname", config.database],
+    ["user", config.user],
+    ["password", password],
+    ...(tls
+      ? [
+          ["sslmode", "verify-full"],
+          ["sslrootcert", TLS_CA_FILE],
+        ]
+      : []),
+  ]
+    .map(([key, value]) => `${key}=${quoteConninfoValue(value!)}`)
+    .join(" ");
+
+  // CREATE SUBSCRIPTION cannot run in a transaction block; psql -c runs it on its own
+  await psql(
+    config.target,
+    config.database,
+    buildSubscriptionSql(config.name, conninfo, config.copyData)
+  );
+  success(`Created subscription ${config.name} on ${config.target}`);
+}
+
+async function subscriptionStatus(config: LogicalConfig): Promise<SubscriptionStatus | undefined> {
+  const statuses = parseSubscriptionStatus(
+    await psql(config.target, config.database, SUBSCRIPTION_STATUS_QUERY)
+  );
+  return statuses.find((status) => status.name === config.name);
+}
+
+async function waitForInitialSync(config: LogicalConfig): Promise<void> {
+  section("Initial sync");
+  const deadline = Date.now() + config.timeoutSeconds * 1000;
+  let reported = "";
+
+  while (Date.now() < deadline) {
+    const status = await subscriptionStatus(config);
+    if (!status) {
+      throw new Error(`Subscription ${config.name} disappeared from ${config.target}`);
+    }
+    const progress = `${status.tablesReady}/${status.tablesTotal} tables ready`;
+    if (progress !== reported) {
+      info(progress);
+      reported = progress;
+    }
+    if (status.syncErrors > 0) {
+      warning(`${status.syncErrors} table sync error(s); check ${config.target}'s logs`);
+    }
+    if (status.workerRunning && status.tablesReady === status.tablesTotal) {
+      success(`Initial sync finished; ${config.target} streams changes from ${config.source}`);
+      return;
+    }
+    await Bun.sleep(2000);
+  }
+
+  throw new Error(
+    `Initial sync did not finish within ${config.timeoutSeconds}s; it continues in the background (see --status)`
+  );
+}
+
+function printStatus(statuses: SubscriptionStatus[]): void {
+  if (statuses.length === 0) {
+    info("No subscriptions in this database");
+    return;
+  }
+  for (const status of statuses) {
+    const state = !status.enabled ? "disabled" : status.workerRunning ? "streaming" : "not running";
+    const lag = status.lagSeconds === undefined ? "no position yet" : `lag ${status.lagSeconds}s`;
+    process.stdout.write(
+      `  ${status.name.padEnd(24)} ${state.padEnd(12)} ${lag.padEnd(16)} ` +
+        `${status.tablesReady}/${status.tablesTotal} tables ready, ` +
+        `${status.applyErrors} apply / ${status.syncErrors} sync errors\n`
+    );
+  }
+}
+
+async function showStatus(config: LogicalConfig): Promise<void> {
+  section(`Subscriptions on ${config.target}`);
+  printStatus(
+    parseSubscriptionStatus(await psql(config.target, config.database, SUBSCRIPTION_STATUS_QUERY))
+  );
+
+  if (!config.source) {
+    return;
+  }
+  section(`Slot ${config.name} on ${config.source}`);
+  const slot = await psql(
+    config.source,
+    config.database,
+    `SELECT active || '|' || coalesce(pg_wal_lsn_diff(pg_current_wal_lsn(), confirmed_flush_lsn)::bigint::text, '')
+     FROM pg_replication_slots WHERE slot_name = '${config.name}'`
+  );
+  if (!slot) {
+    warning(`No slot ${config.name} on ${config.source}`);
+    return;
+  }
+  const [active, lagBytes] = slot.split("|");
+  const lag = lagBytes
+    ? `${(Number(lagBytes) / 1024 / 1024).toFixed(1)} MiB behind`
+    : "no position yet";
+  info(`${active === "true" ? "active" : "inactive"}, ${lag}`);
+}
+
+async function syncSequences(config: LogicalConfig): Promise<void> {
+  section("Sequences");
+  const sequences = parseSequenceValues(
+    await psql(config.source, config.database, sequencesQuery(config.scope))
+  );
+  const statements = buildSetvalSql(sequences);
+  for (const sql of statements) {
+    await psql(config.target, config.database, sql);
+  }
+  success(
+    `Copied ${statements.length} of ${sequences.length} sequence value(s) to ${config.target}`
+  );
+}
+
+async function dropReplication(config: LogicalConfig): Promise<void> {
+  section("Drop");
+  // Also drops the slot on the source, so the source must still be reachable from the target
+  await psql(config.target, config.database, `DROP SUBSCRIPTION IF EXISTS ${config.name}`);
+  success(`Dropped subscription ${config.name} on ${config.target}`);
+  await psql(config.source, config.database, `DROP PUBLICATION IF EXISTS ${config.name}`);
+  success(`Dropped publication ${config.name} on ${config.source}`);
+}
+
+async function main(): Promise<void> {
+  const config = parseArgs();
+
+  await checkCommand("docker");
+  await checkDockerDaemon();
+
+  switch (config.action) {
+    case "status":
+      await showStatus(config);
+      return;
+
+    case "sync-sequences":
+      await syncSequences(config);
+      return;
+
+    case "drop":
+      await dropReplication(config);
+      return;
+
+    case "setup":
+      break;
+  }
+
+  await preflight(config);
+  const tls = await sourceRequiresTls(config);
+  const password = await replicationPassword(config);
+  await createPublication(config);
+  if (config.copySchema) {
+    await copySchema(config);
+  }
+  await createSubscription(config, password, tls);
+  await waitForInitialSync(config);
+
+  info("Before moving writes to the target, run --sync-sequences; remove replication with --drop");
+}
+
+if (import.meta.main) {
+  main().catch((err) => {
+    error(getErrorMessage(err));
+    process.exit(1);
+  });
+}
@@ -0,0 +1,286 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  comparePlans,
+  diffWindows,
+  extractPlans,
+  formatDiffReport,
+  parseResolvedWindow,
+  parseWindowSpec,
+  planNodes,
+  resolveWindowQuery,
+  takeSnapshotQuery,
+  windowStatementsQuery,
+  type CapturedPlan,
+  type ResolvedWindow,
+  type WindowDiffReport,
+  type WindowStatement,
+} from "./pgss-diff";
+
+function statement(overrides: Partial<WindowStatement> = {}): WindowStatement {
+  return {
+    database: "app",
+    queryId: "-4242424242424242424",
+    query: "SELECT * FROM orders WHERE customer_id = $1",
+    calls: 100,
+    totalMs: 200,
+    rows: 100,
+    sharedHit: 1000,
+    sharedRead: 10,
+    tempWritten: 0,
+    ...overrides,
+  };
+}
+
+const WINDOW: ResolvedWindow = {
+  startId: 10,
+  startAt: "2026-10-19T10:00:00.000+00:00",
+  endId: 12,
+  endAt: "2026-10-19T12:00:00.000+00:00",
+  resetInside: false,
+};
+
+const INDEX_PLAN = [
+  "duration: 3012.345 ms  plan:",
+  "Query Text: SELECT * FROM orders WHERE customer_id = $1",
+  "Index Scan using orders_customer_idx on orders  (cost=0.29..8.31 rows=1 width=16) (actual time=0.01..0.02 rows=1 loops=1)",
+  "  Index Cond: (customer_id = 7)",
+].join("\n");
+
+const SEQ_PLAN = [
+  "duration: 5200.100 ms  plan:",
+  "Query Text: SELECT * FROM orders WHERE customer_id = $1",
+  "Gather  (cost=1000.00..11675.10 rows=1 width=16) (actual time=0.3..5100.2 rows=1 loops=1)",
+  "  Workers Planned: 2",
+  "  ->  Parallel Seq Scan on orders  (cost=0.00..10675.00 rows=1 width=16) (actual time=3.1..5000.4 rows=0 loops=3)",
+  "        Filter: (customer_id = 7)",
+].join("\n");
+
+/** A jsonlog line the way PostgreSQL writes it: query_id as a bare int64 */
+function logLine(message: string, queryId: string, timestamp: string): string {
+  const fields = JSON.stringify({
+    timestamp,
+    user: "app",
+    dbname: "app",
+    error_severity: "LOG",
+    message,
+  });
+  return `${fields.slice(0, -1)},"query_id":${queryId}}`;
+}
+
+describe("parseWindowSpec", () => {
+  test("splits FROM..TO", () => {
+    expect(parseWindowSpec("12..now")).toEqual({ from: "12", to: "now" });
+    expect(parseWindowSpec("2026-10-19 10:00:00.5 .. 41")).toEqual({
+      from: "2026-10-19 10:00:00.5",
+      to: "41",
+    });
+  });
+
+  test("rejects a missing endpoint", () => {
+    expect(() => parseWindowSpec("12")).toThrow("FROM..TO");
+    expect(() => parseWindowSpec("12..")).toThrow("FROM..TO");
+  });
+});
+
+describe("SQL", () => {
+  test("snapshot ids are used as given, timestamps quoted", () => {
+    const sql = resolveWindowQuery({ from: "12", to: "2026-10-19 o'clock" });
+    expect(sql).toContain("WHERE snapshot_id = 12");
+    expect(sql).toContain("taken_at <= '2026-10-19 o''clock'::timestamptz ORDER BY taken_at DESC");
+  });
+
+  test("labels are quoted", () => {
+    expect(takeSnapshotQuery("it's deployed")).toBe(
+      "SELECT aza_perf.take_snapshot('it''s deployed')"
+    );
+    expect(takeSnapshotQuery(null)).toBe("SELECT aza_perf.take_snapshot(NULL)");
+  });
+
+  test("deltas against the start snapshot unless stats were reset inside the window", () => {
+    expect(windowStatementsQuery(WINDOW)).toContain("b.snapshot_id = 10 AND");
+    expect(windowStatementsQuery(WINDOW)).toContain("WHERE e.snapshot_id = 12");
+    expect(windowStatementsQuery({ ...WINDOW, resetInside: true })).toContain(
+      "b.snapshot_id = NULL AND"
+    );
+  });
+});
+
+describe("parseResolvedWindow", () => {
+  const spec = { from: "yesterday", to: "now" };
+
+  test("returns the resolved snapshots", () => {
+    expect(parseResolvedWindow(JSON.stringify(WINDOW), spec)).toEqual(WINDOW);
+  });
+
+  test("names the endpoint without a snapshot", () => {
+    const output = JSON.stringify({ ...WINDOW, startId: null, startAt: null });
+    expect(() => parseResolvedWindow(output, spec)).toThrow("no snapshot at or after 'yesterday'");
+    const noEnd = JSON.stringify({ ...WINDOW, endId: null, endAt: null });
+    expect(() => parseResolvedWindow(noEnd, spec)).toThrow("no snapshot at or before 'now'");
+  });
+
+  test("rejects a window of one snapshot or running backwards", () => {
+    const single = JSON.stringify({ ...WINDOW, endId: 10, endAt: WINDOW.startAt });
+    expect(() => parseResolvedWindow(single, spec)).toThrow("needs two snapshots");
+    const backwards = JSON.stringify({ ...WINDOW, startAt: WINDOW.endAt, endAt: WINDOW.startAt });
+    expect(() => parseResolvedWindow(backwards, spec)).toThrow("#10..#12");
+  });
+});
+
+describe("diffWindows", () => {
+  test("reports regressions by added time", () => {
+    const baseline = [
+      statement(),
+      statement({ queryId: "2", calls: 1000, totalMs: 1000 }),
+      statement({ queryId: "3", totalMs: 500 }),
+    ];
+    const compare = [
+      statement({ calls: 100, totalMs: 600 }),
+      statement({ queryId: "2", calls: 1000, totalMs: 3000 }),
+      statement({ queryId: "3", totalMs: 600 }),
+    ];
+
+    const diff = diffWindows(baseline, compare);
+
+    expect(diff.regressions.map((regression) => regression.queryId)).toEqual([
+      "2",
+      "-4242424242424242424",
+    ]);
+    expect(diff.regressions[0]).toMatchObject({
+      baselineMeanMs: 1,
+      compareMeanMs: 3,
+      ratio: 3,
+      addedMs: 2000,
+    });
+    expect(diff.newQueries).toEqual([]);
+    expect(diff.gone).toBe(0);
+  });
+
+  test("ignores rare statements and sub-millisecond differences", () => {
+    const baseline = [
+      statement({ calls: 5, totalMs: 5 }),
+      statement({ queryId: "2", calls: 100, totalMs: 10 }),
+    ];
+    const compare = [
+      statement({ calls: 5, totalMs: 500 }),
+      statement({ queryId: "2", calls: 100, totalMs: 90 }),
+    ];
+
+    expect(diffWindows(baseline, compare).regressions).toEqual([]);
+    expect(
+      diffWindows(baseline, compare, { threshold: 1.5, minCalls: 1, limit: 20 }).regressions
+    ).toHaveLength(1);
+  });
+
+  test("counts new, improved and gone statements per database", () => {
+    const baseline = [
+      statement({ totalMs: 1000 }),
+      statement({ queryId: "2" }),
+      statement({ database: "other" }),
+    ];
+    const compare = [
+      statement({ totalMs: 300 }),
+      statement({ database: "reporting", totalMs: 50 }),
+      statement({ queryId: "9", totalMs: 900 }),
+    ];
+
+    const diff = diffWindows(baseline, compare);
+
+    expect(diff.improved).toBe(1);
+    expect(diff.gone).toBe(2);
+    expect(diff.newQueries.map((query) => `${query.database}/${query.queryId}`)).toEqual([
+      "app/9",
+      "reporting/-4242424242424242424",
+    ]);
+  });
+
+  test("limits each list", () => {
+    const compare = Array.from({ length: 5 }, (_, i) => statement({ queryId: String(i) }));
+    const diff = diffWindows([], compare, { threshold: 1.5, minCalls: 10, limit: 2 });
+    expect(diff.newQueries).toHaveLength(2);
+    expect(diff.compareStatements).toBe(5);
+  });
+});
+
+describe("auto_explain plans", () => {
+  test("planNodes keeps node types, relations and indentation", () => {
+    expect(planNodes(SEQ_PLAN)).toEqual(["Gather", "  Parallel Seq Scan on orders"]);
+    expect(planNodes(INDEX_PLAN)).toEqual(["Index Scan using orders_customer_idx on orders"]);
+  });
+
+  test("extractPlans keeps the exact int64 query_id and skips other lines", () => {
+    const log = [
+      "[POSTGRES] [AUTO-CONFIG] JSON log mode → log_destination=jsonlog via the logging collector",
+      logLine(INDEX_PLAN, "-4242424242424242424", "2026-10-19 10:30:00.000 UTC"),
+      logLine("duration: 10.0 ms  statement: SELECT 1", "17", "2026-10-19 10:31:00.000 UTC"),
+      logLine(SEQ_PLAN, "0", "2026-10-19 10:32:00.000 UTC"),
+      "2026-10-19 10:33:00.000 UTC [42] LOG:  duration: 3000.0 ms  plan:",
+    ].join("\n");
+
+    expect(extractPlans(log)).toEqual([
+      {
+        queryId: "-4242424242424242424",
+        database: "app",
+        timestamp: "2026-10-19 10:30:00.000 UTC",
+        durationMs: 3012.345,
+        nodes: ["Index Scan using orders_customer_idx on orders"],
+      },
+    ]);
+  });
+
+  test("comparePlans reports new plan shapes of statements seen in both windows", () => {
+    const plan = (overrides: Partial<CapturedPlan>): CapturedPlan => ({
+      queryId: "1",
+      database: "app",
+      timestamp: "2026-10-19 10:30:00.000 UTC",
+      durationMs: 3000,
+      nodes: planNodes(INDEX_PLAN),
+      ...overrides,
+    });
+    const baseline = [plan({}), plan({ queryId: "2" })];
+    const compare = [
+      plan({ durationMs: 3500 }),
+      plan({ durationMs: 5200, nodes: planNodes(SEQ_PLAN) }),
+      plan({ queryId: "2", durationMs: 9000 }),
+      plan({ queryId: "3", nodes: planNodes(SEQ_PLAN) }),
+    ];
+
+    const changes = comparePlans(baseline, compare);
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0]!.queryId).toBe("1");
+    expect(changes[0]!.baseline.nodes).toEqual(planNodes(INDEX_PLAN));
+    expect(changes[0]!.compare.durationMs).toBe(5200);
+  });
+});
+
+describe("formatDiffReport", () => {
+  const report: WindowDiffReport = {
+    container: "aza-pg-postgres-primary",
+    database: "postgres",
+    generatedAt: "2026-10-19T13:00:00.000Z",
+    baseline: WINDOW,
+    compare: { ...WINDOW, startId: 12, endId: 14 },
+    options: { threshold: 1.5, minCalls: 10, limit: 20 },
+    diff: diffWindows(
+      [statement()],
+      [statement({ totalMs: 600 }), statement({ queryId: "9", totalMs: 50 })]
+    ),
+    planChanges: [],
+    notes: ["pg_stat_statements was reset inside the compare window"],
+  };
+
+  test("table lists regressions, new statements and notes", () => {
+    const output = formatDiffReport(report, "table");
+    expect(output).toContain("2 statements (baseline 1): 1 new, 1 regressed (mean ≥ 1.5x)");
+    expect(output).toMatch(/-4242424242424242424\s+app\s+100→100\s+2\.00 ms\s+6\.00 ms\s+3\.0x/);
+    expect(output).toContain("New statements (most time first):");
+    expect(output).toContain("Plan changes (auto_explain): 0");
+    expect(output).toContain("Note: pg_stat_statements was reset inside the compare window");
+  });
+
+  test("json is the report itself", () => {
+    expect(JSON.parse(formatDiffReport(report, "json"))).toEqual(report);
+  });
+});
@@ -0,0 +1,555 @@
+/**
+ * pg_stat_statements window diff for pgss-snapshot.ts
+ *
+ * Pure logic: the SQL that lists and resolves aza_perf snapshots (created by
+ * 07-pgss-snapshots.sh), the per-statement deltas between two snapshots, and the comparison of a
+ * baseline window with a compare window: new statements, mean latency regressions by queryid and
+ * plan changes seen in auto_explain output (POSTGRES_LOG_FORMAT=json).
+ */
+
+import { parseJsonLogLine } from "../debug/postgres-json-log";
+
+/** Snapshot as listed by listSnapshotsQuery */
+export interface SnapshotInfo {
+  id: number;
+  takenAt: string;
+  label: string | null;
+  statsReset: string | null;
+  statements: number;
+}
+
+/** A window as given on the command line: FROM..TO, each a snapshot id or a timestamp */
+export interface WindowSpec {
+  from: string;
+  to: string;
+}
+
+/** The snapshots a window resolved to */
+export interface ResolvedWindow {
+  startId: number;
+  startAt: string;
+  endId: number;
+  endAt: string;
+  /** pg_stat_statements was reset between the two snapshots */
+  resetInside: boolean;
+}
+
+/** Counters a statement accumulated between the two snapshots of a window */
+export interface WindowStatement {
+  database: string;
+  /** pg_stat_statements queryid (int64, kept as text) */
+  queryId: string;
+  query: string;
+  calls: number;
+  totalMs: number;
+  rows: number;
+  sharedHit: number;
+  sharedRead: number;
+  tempWritten: number;
+}
+
+export interface Regression {
+  database: string;
+  queryId: string;
+  query: string;
+  baselineCalls: number;
+  compareCalls: number;
+  baselineMeanMs: number;
+  compareMeanMs: number;
+  /** compareMeanMs / baselineMeanMs */
+  ratio: number;
+  /** Execution time the slowdown added to the compare window */
+  addedMs: number;
+}
+
+export interface DiffOptions {
+  /** Mean time ratio from which a statement counts as regressed (and its inverse as improved) */
+  threshold: number;
+  /** Calls a statement needs in both windows before its means are compared */
+  minCalls: number;
+  /** Entries per list in the report */
+  limit: number;
+}
+
+export const DEFAULT_DIFF_OPTIONS: DiffOptions = { threshold: 1.5, minCalls: 10, limit: 20 };
+
+/** Mean time differences below this are noise, whatever the ratio */
+export const REGRESSION_MIN_DELTA_MS = 1;
+
+export interface StatementDiff {
+  baselineStatements: number;
+  compareStatements: number;
+  /** Statements run in the compare window but not in the baseline window, most time first */
+  newQueries: WindowStatement[];
+  /** Most added time first */
+  regressions: Regression[];
+  improved: number;
+  /** Statements run in the baseline window but not in the compare window */
+  gone: number;
+}
+
+/** One plan auto_explain logged */
+export interface CapturedPlan {
+  queryId: string;
+  database: string | null;
+  timestamp: string;
+  durationMs: number;
+  /** Plan nodes without costs and timings, indented as in the plan */
+  nodes: string[];
+}
+
+export interface PlanChange {
+  database: string | null;
+  queryId: string;
+  /** Slowest baseline plan */
+  baseline: CapturedPlan;
+  /** Slowest compare plan whose shape the baseline window never logged */
+  compare: CapturedPlan;
+}
+
+export interface WindowDiffReport {
+  container: string;
+  database: string;
+  generatedAt: string;
+  baseline: ResolvedWindow;
+  compare: ResolvedWindow;
+  options: DiffOptions;
+  diff: StatementDiff;
+  /** null when plans were not compared */
+  planChanges: PlanChange[] | null;
+  notes: string[];
+}
+
+// =============================================================================
+// SQL
+// =============================================================================
+
+/** SQL string literal */
+export function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/** Most recent snapshots with their statement counts, oldest first */
+export function listSnapshotsQuery(limit: number): string {
+  return `SELECT coalesce(json_agg(t ORDER BY t.id), '[]') FROM (
+  SELECT s.snapshot_id AS id, s.taken_at AS "takenAt", s.label, s.stats_reset AS "statsReset",
+    (SELECT count(*) FROM aza_perf.statements st WHERE st.snapshot_id = s.snapshot_id) AS statements
+  FROM aza_perf.snapshots s
+  ORDER BY s.snapshot_id DESC
+  LIMIT ${Math.max(1, Math.floor(limit))}
+) t`;
+}
+
+export function takeSnapshotQuery(label: string | null): string {
+  return `SELECT aza_perf.take_snapshot(${label === null ? "NULL" : quoteLiteral(label)})`;
+}
+
+/**
+ * Parse a FROM..TO window
+ *
+ * Each endpoint is a snapshot id or anything PostgreSQL accepts as a timestamptz ('now',
+ * '2026-10-19 12:00', 'yesterday').
+ */
+export function parseWindowSpec(value: string): WindowSpec {
+  const parts = value.split("..");
+  if (parts.length !== 2 || !parts[0]!.trim() || !parts[1]!.trim()) {
+    throw new Error(`Window must be FROM..TO (got '${value}')`);
+  }
+  return { from: parts[0]!.trim(), to: parts[1]!.trim() };
+}
+
+function endpointQuery(endpoint: string, side: "start" | "end"): string {
+  if (/^\d+$/.test(endpoint)) {
+    return `SELECT snapshot_id, taken_at, stats_reset FROM aza_perf.snapshots WHERE snapshot_id = ${endpoint}`;
+  }
+  const [op, order] = side === "start" ? [">=", "ASC"] : ["<=", "DESC"];
+  return `SELECT snapshot_id, taken_at, stats_reset FROM aza_perf.snapshots
+    WHERE taken_at ${op} ${quoteLiteral(endpoint)}::timestamptz ORDER BY taken_at ${order} LIMIT 1`;
+}
+
+/**
+ * Snapshots a window resolves to: the first snapshot at or after FROM and the last one at or
+ * before TO (snapshot ids are taken as given)
+ */
+export function resolveWindowQuery(window: WindowSpec): string {
+  return `SELECT json_build_object(
+  'startId', s.snapshot_id, 'startAt', s.taken_at,
+  'endId', e.snapshot_id, 'endAt', e.taken_at,
+  'resetInside', s.stats_reset IS DISTINCT FROM e.stats_reset
+) FROM (SELECT 1) one
+LEFT JOIN (${endpointQuery(window.from, "start")}) s ON true
+LEFT JOIN (${endpointQuery(window.to, "end")}) e ON true`;
+}
+
+/**
+ * Per-statement deltas between two snapshots
+ *
+ * Entries are matched on their full pg_stat_statements key. An entry the start snapshot lacks
+ * (new, or evicted and re-added) or whose counters went down counts in full, and so does every
+ * entry when pg_stat_statements was reset inside the window.
+ */
+export function windowStatementsQuery(window: ResolvedWindow): string {
+  const delta = (column: string) => `sum(e.${column} - coalesce(b.${column}, 0))`;
+  const startId = window.resetInside ? "NULL" : String(window.startId);
+  return `SELECT coalesce(json_agg(t), '[]') FROM (
+  SELECT coalesce(d.datname, e.dbid::text) AS database, e.queryid::text AS "queryId",
+    coalesce(q.query, '') AS query, ${delta("calls")} AS calls,
+    ${delta("total_exec_time")} AS "totalMs", ${delta("rows")} AS rows,
+    ${delta("shared_blks_hit")} AS "sharedHit", ${delta("shared_blks_read")} AS "sharedRead",
+    ${delta("temp_blks_written")} AS "tempWritten"
+  FROM aza_perf.statements e
+  LEFT JOIN aza_perf.statements b ON b.snapshot_id = ${startId} AND b.dbid = e.dbid
+    AND b.userid = e.userid AND b.queryid = e.queryid AND b.toplevel = e.toplevel
+    AND b.calls <= e.calls
+  LEFT JOIN aza_perf.queries q ON q.dbid = e.dbid AND q.queryid = e.queryid
+  LEFT JOIN pg_database d ON d.oid = e.dbid
+  WHERE e.snapshot_id = ${window.endId}
+  GROUP BY d.datname, e.dbid, e.queryid, q.query
+  HAVING ${delta("calls")} > 0
+) t`;
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+function parseJson(output: string, what: string): unknown {
+  try {
+    return JSON.parse(output);
+  } catch {
+    throw new Error(`Unexpected ${what} output: '${output.slice(0, 200)}'`);
+  }
+}
+
+function parseJsonRows<T>(output: string, what: string): T[] {
+  const value = parseJson(output, what);
+  if (!Array.isArray(value)) {
+    throw new Error(`Unexpected ${what} output: expected a JSON array`);
+  }
+  return value as T[];
+}
+
+export const parseSnapshots = (output: string): SnapshotInfo[] =>
+  parseJsonRows<SnapshotInfo>(output, "snapshot list");
+export const parseWindowStatements = (output: string): WindowStatement[] =>
+  parseJsonRows<WindowStatement>(output, "window statements");
+
+/**
+ * Parse resolveWindowQuery output
+ *
+ * @throws When an endpoint matched no snapshot or the window does not move forward
+ */
+export function parseResolvedWindow(output: string, window: WindowSpec): ResolvedWindow {
+  const value = parseJson(output, "window") as Partial<ResolvedWindow> | null;
+  const label = `${window.from}..${window.to}`;
+  if (!value || typeof value.startId !== "number") {
+    throw new Error(`Window ${label}: no snapshot at or after '${window.from}'`);
+  }
+  if (typeof value.endId !== "number") {
+    throw new Error(`Window ${label}: no snapshot at or before '${window.to}'`);
+  }
+  if (value.endId === value.startId || Date.parse(value.endAt!) <= Date.parse(value.startAt!)) {
+    throw new Error(
+      `Window ${label} needs two snapshots, oldest first (resolved to #${value.startId}..#${value.endId})`
+    );
+  }
+  return {
+    startId: value.startId,
+    startAt: value.startAt!,
+    endId: value.endId,
+    endAt: value.endAt!,
+    resetInside: value.resetInside === true,
+  };
+}
+
+// =============================================================================
+// Statement diff
+// =============================================================================
+
+const statementKey = (statement: { database: string | null; queryId: string }): string =>
+  `${statement.database ?? ""}\u0000${statement.queryId}`;
+
+const mean = (statement: WindowStatement): number =>
+  statement.calls > 0 ? statement.totalMs / statement.calls : 0;
+
+/**
+ * Compare the statements of two windows
+ */
+export function diffWindows(
+  baseline: readonly WindowStatement[],
+  compare: readonly WindowStatement[],
+  options: DiffOptions = DEFAULT_DIFF_OPTIONS
+): StatementDiff {
+  const baselineByKey = new Map(baseline.map((statement) => [statementKey(statement), statement]));
+  const compareKeys = new Set(compare.map(statementKey));
+
+  const newQueries: WindowStatement[] = [];
+  const regressions: Regression[] = [];
+  let improved = 0;
+
+  for (const after of compare) {
+    const before = baselineByKey.get(statementKey(after));
+    if (!before) {
+      newQueries.push(after);
+      continue;
+    }
+    if (before.calls < options.minCalls || after.calls < options.minCalls) {
+      continue;
+    }
+    const baselineMeanMs = mean(before);
+    const compareMeanMs = mean(after);
+    if (Math.abs(compareMeanMs - baselineMeanMs) < REGRESSION_MIN_DELTA_MS || baselineMeanMs <= 0) {
+      continue;
+    }
+    const ratio = compareMeanMs / baselineMeanMs;
+    if (ratio >= options.threshold) {
+      regressions.push({
+        database: after.database,
+        queryId: after.queryId,
+        query: after.query,
+        baselineCalls: before.calls,
+        compareCalls: after.calls,
+        baselineMeanMs,
+        compareMeanMs,
+        ratio,
+        addedMs: (compareMeanMs - baselineMeanMs) * after.calls,
+      });
+    } else if (ratio <= 1 / options.threshold) {
+      improved++;
+    }
+  }
+
+  return {
+    baselineStatements: baseline.length,
+    compareStatements: compare.length,
+    newQueries: newQueries.sort((a, b) => b.totalMs - a.totalMs).slice(0, options.limit),
+    regressions: regressions.sort((a, b) => b.addedMs - a.addedMs).slice(0, options.limit),
+    improved,
+    gone: baseline.filter((statement) => !compareKeys.has(statementKey(statement))).length,
+  };
+}
+
+// =============================================================================
+// auto_explain plans
+// =============================================================================
+
+const PLAN_MESSAGE = /^duration: ([\d.]+) ms\s+plan:\n/;
+/** query_id is an int64 that JSON.parse would round, so it is read from the raw line */
+const QUERY_ID = /"query_id":\s*(-?\d+)/;
+const NODE_COST = "  (cost=";
+
+/**
+ * Plan nodes of an auto_explain text plan, without costs and timings
+ *
+ * Keeps the node type, relation, index and the indentation that gives the plan its shape, so
+ * two plans compare equal unless the planner chose differently.
+ */
+export function planNodes(plan: string): string[] {
+  return plan
+    .split("\n")
+    .filter((line) => line.includes(NODE_COST))
+    .map((line) => line.slice(0, line.indexOf(NODE_COST)).replace("->  ", "").trimEnd());
+}
+
+/**
+ * Plans auto_explain logged in a jsonlog stream
+ *
+ * Needs compute_query_id (on by default with pg_stat_statements loaded) for the query_id and
+ * auto_explain.log_format = text; other lines are skipped.
+ */
+export function extractPlans(logText: string): CapturedPlan[] {
+  const plans: CapturedPlan[] = [];
+  for (const line of logText.split("\n")) {
+    const entry = parseJsonLogLine(line);
+    const match = entry ? PLAN_MESSAGE.exec(entry.message) : null;
+    const queryId = QUERY_ID.exec(line)?.[1];
+    if (!entry || !match || !queryId || queryId === "0") {
+      continue;
+    }
+    const nodes = planNodes(entry.message);
+    if (nodes.length === 0) {
+      continue;
+    }
+    plans.push({
+      queryId,
+      database: entry.dbname ?? null,
+      timestamp: entry.timestamp,
+      durationMs: Number(match[1]),
+      nodes,
+    });
+  }
+  return plans;
+}
+
+function plansByStatement(plans: readonly CapturedPlan[]): Map<string, Map<string, CapturedPlan>> {
+  const byStatement = new Map<string, Map<string, CapturedPlan>>();
+  for (const plan of plans) {
+    const key = statementKey(plan);
+    let shapes = byStatement.get(key);
+    if (!shapes) {
+      shapes = new Map();
+      byStatement.set(key, shapes);
+    }
+    const shape = plan.nodes.join("\n");
+    const known = shapes.get(shape);
+    if (!known || plan.durationMs > known.durationMs) {
+      shapes.set(shape, plan);
+    }
+  }
+  return byStatement;
+}
+
+const slowest = (plans: Iterable<CapturedPlan>): CapturedPlan =>
+  [...plans].reduce((a, b) => (b.durationMs > a.durationMs ? b : a));
+
+/**
+ * Statements whose compare window logged a plan shape the baseline window did not
+ *
+ * Only statements with plans in both windows compare: auto_explain logs a plan only when a
+ * statement runs longer than auto_explain.log_min_duration.
+ */
+export function comparePlans(
+  baseline: readonly CapturedPlan[],
+  compare: readonly CapturedPlan[],
+  limit = DEFAULT_DIFF_OPTIONS.limit
+): PlanChange[] {
+  const before = plansByStatement(baseline);
+  const changes: PlanChange[] = [];
+
+  for (const [key, shapes] of plansByStatement(compare)) {
+    const baselineShapes = before.get(key);
+    if (!baselineShapes) {
+      continue;
+    }
+    const newShapes = [...shapes].filter(([shape]) => !baselineShapes.has(shape));
+    if (newShapes.length === 0) {
+      continue;
+    }
+    const plan = slowest(newShapes.map(([, plan]) => plan));
+    changes.push({
+      database: plan.database,
+      queryId: plan.queryId,
+      baseline: slowest(baselineShapes.values()),
+      compare: plan,
+    });
+  }
+
+  return changes
+    .sort((a, b) => b.compare.durationMs - a.compare.durationMs)
+    .slice(0, Math.max(0, limit));
+}
+
+// =============================================================================
+// Report
+// =============================================================================
+
+export type DiffFormat = "table" | "json";
+export const DIFF_FORMATS: readonly DiffFormat[] = ["table", "json"];
+
+/** Query texts longer than this are truncated in the table */
+const QUERY_WIDTH = 60;
+/** Plan nodes shown per plan in the table */
+const PLAN_NODES_SHOWN = 12;
+
+function shortQuery(query: string): string {
+  const line = query.replace(/\s+/g, " ").trim();
+  return line.length > QUERY_WIDTH ? `${line.slice(0, QUERY_WIDTH - 3)}...` : line;
+}
+
+function formatMs(ms: number): string {
+  if (ms >= 60000) return `${(ms / 60000).toFixed(1)} min`;
+  if (ms >= 1000) return `${(ms / 1000).toFixed(2)} s`;
+  return `${ms.toFixed(2)} ms`;
+}
+
+function formatWindow(window: ResolvedWindow): string {
+  return `#${window.startId} ${window.startAt} → #${window.endId} ${window.endAt}`;
+}
+
+function table(header: string[], rows: string[][]): string[] {
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column]!.length))
+  );
+  const render = (row: string[]) =>
+    row
+      .map((cell, column) => (column === row.length - 1 ? cell : cell.padEnd(widths[column]!)))
+      .join("  ");
+  return [render(header), ...rows.map(render)].map((line) => `  ${line}`);
+}
+
+function planLines(title: string, plan: CapturedPlan): string[] {
+  const nodes = plan.nodes.slice(0, PLAN_NODES_SHOWN);
+  const more = plan.nodes.length - nodes.length;
+  return [
+    `    ${title} (${formatMs(plan.durationMs)} at ${plan.timestamp}):`,
+    ...nodes.map((node) => `      ${node}`),
+    ...(more > 0 ? [`      ... ${more} more nodes`] : []),
+  ];
+}
+
+/**
+ * Render a diff report as a terminal table or as JSON
+ */
+export function formatDiffReport(report: WindowDiffReport, format: DiffFormat): string {
+  if (format === "json") {
+    return JSON.stringify(report, null, 2);
+  }
+
+  const { diff, options } = report;
+  const lines = [
+    `pg_stat_statements diff: ${report.container} (snapshots in ${report.database})`,
+    `  Baseline: ${formatWindow(report.baseline)}`,
+    `  Compare:  ${formatWindow(report.compare)}`,
+    "",
+    `${diff.compareStatements} statements (baseline ${diff.baselineStatements}): ${diff.newQueries.length} new, ${diff.regressions.length} regressed (mean ≥ ${options.threshold}x), ${diff.improved} improved, ${diff.gone} no longer run`,
+  ];
+
+  if (diff.regressions.length > 0) {
+    lines.push("", "Latency regressions (most added time first):");
+    lines.push(
+      ...table(
+        ["QUERYID", "DATABASE", "CALLS", "MEAN BEFORE", "MEAN AFTER", "CHANGE", "ADDED", "QUERY"],
+        diff.regressions.map((regression) => [
+          regression.queryId,
+          regression.database,
+          `${regression.baselineCalls}→${regression.compareCalls}`,
+          formatMs(regression.baselineMeanMs),
+          formatMs(regression.compareMeanMs),
+          `${regression.ratio.toFixed(1)}x`,
+          formatMs(regression.addedMs),
+          shortQuery(regression.query),
+        ])
+      )
+    );
+  }
+
+  if (diff.newQueries.length > 0) {
+    lines.push("", "New statements (most time first):");
+    lines.push(
+      ...table(
+        ["QUERYID", "DATABASE", "CALLS", "MEAN", "TOTAL", "QUERY"],
+        diff.newQueries.map((statement) => [
+          statement.queryId,
+          statement.database,
+          String(statement.calls),
+          formatMs(mean(statement)),
+          formatMs(statement.totalMs),
+          shortQuery(statement.query),
+        ])
+      )
+    );
+  }
+
+  if (report.planChanges !== null) {
+    lines.push("", `Plan changes (auto_explain): ${report.planChanges.length}`);
+    for (const change of report.planChanges) {
+      lines.push(`  ${change.queryId}${change.database ? ` in ${change.database}` : ""}`);
+      lines.push(...planLines("before", change.baseline), ...planLines("after", change.compare));
+    }
+  }
+
+  if (report.notes.length > 0) {
+    lines.push("", ...report.notes.map((note) => `Note: ${note}`));
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,476 @@
+#!/usr/bin/env bun
+/**
+ * Take, list and compare pg_stat_statements snapshots of a running aza-pg container
+ *
+ * USAGE:
+ *   bun scripts/tools/pgss-snapshot.ts --container NAME [ACTION] [OPTIONS]
+ *
+ * ACTIONS:
+ *   --list                  List the most recent snapshots (default)
+ *   --snapshot              Take a snapshot now (e.g. right before a deploy)
+ *   --install               Create the aza_perf schema and schedule snapshots with pg_cron
+ *   --baseline FROM..TO     Window to compare against; with --compare, diff the two windows
+ *   --compare FROM..TO      Window to check for regressions
+ *
+ * OPTIONS:
+ *   --container NAME        PostgreSQL container (required)
+ *   --database NAME         Database holding aza_perf (default: cron.database_name, else postgres)
+ *   --label TEXT            Label for --snapshot
+ *   --schedule CRON         pg_cron schedule for --install (e.g. '0 * * * *')
+ *   --retention DAYS        Days of snapshots --install keeps (default: 14)
+ *   --threshold RATIO       Mean time ratio that counts as a regression (default: 1.5)
+ *   --min-calls N           Calls needed in both windows to compare means (default: 10)
+ *   --limit N               Entries per list (default: 20)
+ *   --no-plans              Skip the auto_explain plan comparison
+ *   --format FORMAT         table or json (default: table)
+ *   -h, --help              Show this help message
+ *
+ * DESCRIPTION:
+ *   Snapshots are copies of the pg_stat_statements counters in the aza_perf schema, taken by the
+ *   aza-perf-snapshot pg_cron job (PGSS_SNAPSHOT_SCHEDULE) or with --snapshot. A window is two
+ *   snapshots: FROM and TO are snapshot ids or PostgreSQL timestamps ('now', '2026-10-19 12:00'),
+ *   resolved to the first snapshot at or after FROM and the last at or before TO.
+ *
+ *   The diff reports statements new in the compare window, latency regressions by queryid
+ *   (mean execution time up by --threshold), and statements whose auto_explain plan changed:
+ *   plans are read from the container logs of each window, so they need POSTGRES_LOG_FORMAT=json
+ *   and only exist for statements slower than auto_explain.log_min_duration.
+ *
+ * EXAMPLES:
+ *   # Enable hourly snapshots on a running primary
+ *   bun scripts/tools/pgss-snapshot.ts --container aza-pg-postgres-primary --install --schedule '0 * * * *'
+ *
+ *   # Snapshot before a deploy (say it is #41), then compare the morning before it with everything since
+ *   bun scripts/tools/pgss-snapshot.ts --container aza-pg-postgres-primary --snapshot --label pre-deploy
+ *   bun scripts/tools/pgss-snapshot.ts --container aza-pg-postgres-primary \
+ *     --baseline "2026-10-19 10:00..41" --compare "41..now"
+ *
+ * PREREQUISITES:
+ *   - Docker installed and running, with the container running
+ *   - pg_stat_statements in shared_preload_libraries (the default)
+ *
+ * EXIT CODES:
+ *   0 - Success (diff: no regressions)
+ *   1 - Invalid arguments or a failed query
+ *   2 - Diff found latency regressions or plan changes
+ */
+
+import { $ } from "bun";
+import { getErrorMessage } from "../utils/errors";
+import { checkCommand, checkDockerDaemon } from "../utils/docker";
+import { error, info, success } from "../utils/logger";
+import {
+  comparePlans,
+  DEFAULT_DIFF_OPTIONS,
+  DIFF_FORMATS,
+  diffWindows,
+  extractPlans,
+  formatDiffReport,
+  listSnapshotsQuery,
+  parseResolvedWindow,
+  parseSnapshots,
+  parseWindowSpec,
+  parseWindowStatements,
+  resolveWindowQuery,
+  takeSnapshotQuery,
+  windowStatementsQuery,
+  type DiffFormat,
+  type DiffOptions,
+  type PlanChange,
+  type ResolvedWindow,
+  type WindowDiffReport,
+  type WindowSpec,
+} from "./pgss-diff";
+
+type Action = "list" | "snapshot" | "install" | "diff";
+
+interface SnapshotConfig {
+  container: string;
+  database: string | null;
+  action: Action | null;
+  label: string | null;
+  schedule: string | null;
+  retention: number | null;
+  baseline: WindowSpec | null;
+  compare: WindowSpec | null;
+  options: DiffOptions;
+  plans: boolean;
+  format: DiffFormat;
+}
+
+const INIT_SCRIPT = "/docker-entrypoint-initdb.d/07-pgss-snapshots.sh";
+const STATEMENT_TIMEOUT = "60s";
+
+function printHelp(): void {
+  process.stdout.write(`
+Take, list and compare pg_stat_statements snapshots of a running aza-pg container
+
+USAGE:
+  bun scripts/tools/pgss-snapshot.ts --container NAME [ACTION] [OPTIONS]
+
+ACTIONS:
+  --list                  List the most recent snapshots (default)
+  --snapshot              Take a snapshot now (e.g. right before a deploy)
+  --install               Create the aza_perf schema and schedule snapshots with pg_cron
+  --baseline FROM..TO     Window to compare against; with --compare, diff the two windows
+  --compare FROM..TO      Window to check for regressions
+
+OPTIONS:
+  --container NAME        PostgreSQL container (required)
+  --database NAME         Database holding aza_perf (default: cron.database_name, else postgres)
+  --label TEXT            Label for --snapshot
+  --schedule CRON         pg_cron schedule for --install (e.g. '0 * * * *')
+  --retention DAYS        Days of snapshots --install keeps (default: 14)
+  --threshold RATIO       Mean time ratio that counts as a regression (default: ${DEFAULT_DIFF_OPTIONS.threshold})
+  --min-calls N           Calls needed in both windows to compare means (default: ${DEFAULT_DIFF_OPTIONS.minCalls})
+  --limit N               Entries per list (default: ${DEFAULT_DIFF_OPTIONS.limit})
+  --no-plans              Skip the auto_explain plan comparison
+  --format FORMAT         ${DIFF_FORMATS.join(" or ")} (default: table)
+  -h, --help              Show this help message
+
+FROM and TO are snapshot ids or PostgreSQL timestamps ('now', '2026-10-19 12:00').
+
+EXAMPLES:
+  # Enable hourly snapshots on a running primary
+  bun scripts/tools/pgss-snapshot.ts --container aza-pg-postgres-primary --install --schedule '0 * * * *'
+
+  # Snapshot before a deploy (say it is #41), then compare the morning before it with everything since
+  bun scripts/tools/pgss-snapshot.ts --container aza-pg-postgres-primary --snapshot --label pre-deploy
+  bun scripts/tools/pgss-snapshot.ts --container aza-pg-postgres-primary \\
+    --baseline "2026-10-19 10:00..41" --compare "41..now"
+`);
+  process.exit(0);
+}
+
+function parseArgs(): SnapshotConfig {
+  const args = Bun.argv.slice(2);
+  const config: SnapshotConfig = {
+    container: "",
+    database: null,
+    action: null,
+    label: null,
+    schedule: null,
+    retention: null,
+    baseline: null,
+    compare: null,
+    options: { ...DEFAULT_DIFF_OPTIONS },
+    plans: true,
+    format: "table",
+  };
+
+  const requireValue = (option: string, index: number): string => {
+    const value = args[index];
+    if (value === undefined || value === "") {
+      error(`Missing value for ${option} option`);
+      process.exit(1);
+    }
+    return value;
+  };
+
+  const setAction = (action: Action): void => {
+    if (config.action !== null && config.action !== action) {
+      error(`Choose one of --list, --snapshot, --install or --baseline/--compare`);
+      process.exit(1);
+    }
+    config.action = action;
+  };
+
+  const positiveInteger = (option: string, value: string): number => {
+    if (!/^\d+$/.test(value) || Number(value) < 1) {
+      error(`${option} must be a positive integer (got '${value}')`);
+      process.exit(1);
+    }
+    return Number(value);
+  };
+
+  const windowSpec = (option: string, value: string): WindowSpec => {
+    try {
+      return parseWindowSpec(value);
+    } catch (err) {
+      error(`${option}: ${getErrorMessage(err)}`);
+      process.exit(1);
+    }
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case "--container":
+        config.container = requireValue(arg, ++i);
+        break;
+
+      case "--database":
+        config.database = requireValue(arg, ++i);
+        break;
+
+      case "--list":
+        setAction("list");
+        break;
+
+      case "--snapshot":
+        setAction("snapshot");
+        break;
+
+      case "--install":
+        setAction("install");
+        break;
+
+      case "--baseline":
+        setAction("diff");
+        config.baseline = windowSpec(arg, requireValue(arg, ++i));
+        break;
+
+      case "--compare":
+        setAction("diff");
+        config.compare = windowSpec(arg, requireValue(arg, ++i));
+        break;
+
+      case "--label":
+        config.label = requireValue(arg, ++i);
+        break;
+
+      case "--schedule":
+        config.schedule = requireValue(arg, ++i);
+        break;
+
+      case "--retention":
+        config.retention = positiveInteger(arg, requireValue(arg, ++i));
+        break;
+
+      case "--threshold": {
+        const value = requireValue(arg, ++i);
+        if (!/^\d+(\.\d+)?$/.test(value) || Number(value) <= 1) {
+          error(`--threshold must be a ratio above 1 (got '${value}')`);
+          process.exit(1);
+        }
+        config.options.threshold = Number(value);
+        break;
+      }
+
+      case "--min-calls":
+        config.options.minCalls = positiveInteger(arg, requireValue(arg, ++i));
+        break;
+
+      case "--limit":
+        config.options.limit = positiveInteger(arg, requireValue(arg, ++i));
+        break;
+
+      case "--no-plans":
+        config.plans = false;
+        break;
+
+      case "--format": {
+        const value = requireValue(arg, ++i);
+        if (!(DIFF_FORMATS as readonly string[]).includes(value)) {
+          error(`--format must be one of: ${DIFF_FORMATS.join(", ")} (got '${value}')`);
+          process.exit(1);
+        }
+        config.format = value as DiffFormat;
+        break;
+      }
+
+      case "-h":
+      case "--help":
+        printHelp();
+        break;
+
+      default:
+        error(`Unknown option: ${arg}. Use -h for help.`);
+        process.exit(1);
+    }
+  }
+
+  if (!config.container) {
+    error("--container is required. Use -h for help.");
+    process.exit(1);
+  }
+  if (config.action === "diff" && (!config.baseline || !config.compare)) {
+    error("--baseline and --compare are both required for a diff");
+    process.exit(1);
+  }
+  if (config.action === "install" && !config.schedule) {
+    error("--install requires --schedule (a pg_cron schedule, e.g. '0 * * * *')");
+    process.exit(1);
+  }
+
+  return config;
+}
+
+async function psql(config: SnapshotConfig, database: string, sql: string): Promise<string> {
+  const result =
+    await $`docker exec -e PGOPTIONS=${`-c statement_timeout=${STATEMENT_TIMEOUT}`} ${config.container} psql -U postgres -d ${database} -v ON_ERROR_STOP=1 -tAc ${sql}`
+      .nothrow()
+      .quiet();
+  if (result.exitCode !== 0) {
+    throw new Error(`Query on ${config.container} failed: ${result.stderr.toString().trim()}`);
+  }
+  return result.text().trim();
+}
+
+/**
+ * aza_perf lives where pg_cron runs its jobs; servers without pg_cron fall back to postgres
+ */
+async function resolveDatabase(config: SnapshotConfig): Promise<string> {
+  if (config.database) {
+    return config.database;
+  }
+  try {
+    return (await psql(config, "postgres", "SHOW cron.database_name")) || "postgres";
+  } catch {
+    return "postgres";
+  }
+}
+
+async function requireSchema(config: SnapshotConfig, database: string): Promise<void> {
+  const exists = await psql(config, database, "SELECT to_regnamespace('aza_perf') IS NOT NULL");
+  if (exists !== "t") {
+    throw new Error(
+      `No aza_perf schema in ${database}: set PGSS_SNAPSHOT_SCHEDULE or run --install --schedule CRON`
+    );
+  }
+}
+
+async function install(config: SnapshotConfig, database: string): Promise<void> {
+  info(`Installing aza_perf in ${database} on ${config.container}...`);
+  const retention =
+    config.retention === null ? [] : ["-e", `PGSS_SNAPSHOT_RETENTION=${config.retention}`];
+  const result =
+    await $`docker exec -u postgres -e PGSS_SNAPSHOT_SCHEDULE=${config.schedule!} ${retention} -e POSTGRES_DB=${database} ${config.container} ${INIT_SCRIPT}`
+      .nothrow()
+      .quiet();
+  const output = `${result.stdout.toString()}${result.stderr.toString()}`.trim();
+  if (result.exitCode !== 0) {
+    throw new Error(`${INIT_SCRIPT} failed:\n${output}`);
+  }
+  process.stdout.write(`${output}\n`);
+}
+
+async function listSnapshots(config: SnapshotConfig, database: string): Promise<void> {
+  const snapshots = parseSnapshots(
+    await psql(config, database, listSnapshotsQuery(config.options.limit))
+  );
+  if (config.format === "json") {
+    process.stdout.write(`${JSON.stringify(snapshots, null, 2)}\n`);
+    return;
+  }
+  if (snapshots.length === 0) {
+    info(`No snapshots in ${database} yet`);
+    return;
+  }
+  for (const snapshot of snapshots) {
+    process.stdout.write(
+      `#${snapshot.id}  ${snapshot.takenAt}  ${snapshot.statements} statements${snapshot.label ? `  ${snapshot.label}` : ""}\n`
+    );
+  }
+}
+
+async function resolveWindow(
+  config: SnapshotConfig,
+  database: string,
+  window: WindowSpec
+): Promise<ResolvedWindow> {
+  return parseResolvedWindow(await psql(config, database, resolveWindowQuery(window)), window);
+}
+
+/** Container logs written between the two snapshots of a window, both streams */
+async function windowLogs(container: string, window: ResolvedWindow): Promise<string> {
+  const since = Math.floor(Date.parse(window.startAt) / 1000);
+  const until = Math.ceil(Date.parse(window.endAt) / 1000);
+  const result = await $`docker logs --since ${since} --until ${until} ${container}`
+    .nothrow()
+    .quiet();
+  if (result.exitCode !== 0) {
+    throw new Error(`docker logs ${container} failed: ${result.stderr.toString().trim()}`);
+  }
+  return `${result.stdout.toString()}\n${result.stderr.toString()}`;
+}
+
+async function diff(config: SnapshotConfig, database: string): Promise<void> {
+  const baseline = await resolveWindow(config, database, config.baseline!);
+  const compare = await resolveWindow(config, database, config.compare!);
+
+  const notes: string[] = [];
+  for (const [name, window] of [
+    ["baseline", baseline],
+    ["compare", compare],
+  ] as const) {
+    if (window.resetInside) {
+      notes.push(
+        `pg_stat_statements was reset inside the ${name} window: its counters start at the reset`
+      );
+    }
+  }
+
+  const statementDiff = diffWindows(
+    parseWindowStatements(await psql(config, database, windowStatementsQuery(baseline))),
+    parseWindowStatements(await psql(config, database, windowStatementsQuery(compare))),
+    config.options
+  );
+
+  let planChanges: PlanChange[] | null = null;
+  if (config.plans) {
+    const capturedBaseline = extractPlans(await windowLogs(config.container, baseline));
+    const capturedCompare = extractPlans(await windowLogs(config.container, compare));
+    if (capturedBaseline.length === 0 && capturedCompare.length === 0) {
+      notes.push(
+        "No auto_explain plans in the container logs of either window: plan changes need POSTGRES_LOG_FORMAT=json and statements slower than auto_explain.log_min_duration"
+      );
+    } else {
+      planChanges = comparePlans(capturedBaseline, capturedCompare, config.options.limit);
+    }
+  }
+
+  const report: WindowDiffReport = {
+    container: config.container,
+    database,
+    generatedAt: new Date().toISOString(),
+    baseline,
+    compare,
+    options: config.options,
+    diff: statementDiff,
+    planChanges,
+    notes,
+  };
+  process.stdout.write(`${formatDiffReport(report, config.format)}\n`);
+  const changed = statementDiff.regressions.length > 0 || (planChanges?.length ?? 0) > 0;
+  process.exit(changed ? 2 : 0);
+}
+
+async function main(): Promise<void> {
+  const config = parseArgs();
+
+  await checkCommand("docker");
+  await checkDockerDaemon();
+
+  const database = await resolveDatabase(config);
+  switch (config.action ?? "list") {
+    case "install":
+      await install(config, database);
+      break;
+
+    case "snapshot": {
+      await requireSchema(config, database);
+      const id = await psql(config, database, takeSnapshotQuery(config.label));
+      success(`Snapshot #${id} taken in ${database}`);
+      break;
+    }
+
+    case "list":
+      await requireSchema(config, database);
+      await listSnapshots(config, database);
+      break;
+
+    case "diff":
+      await requireSchema(config, database);
+      await diff(config, database);
+      break;
+  }
+}
+
+if (import.meta.main) {
+  main().catch((err) => {
+    error(getErrorMessage(err));
+    process.exit(1);
+  });
+}
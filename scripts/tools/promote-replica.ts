@@ -466,7 +466,12 @@ function showPostPromotionInstructions(config: PromoteConfig): void {
   process.stdout.write("\n");
   process.stdout.write("4. Configure new replicas to connect to this primary (if needed)\n");
   process.stdout.write("\n");
-  process.stdout.write("5. Stop or reconfigure old primary to prevent split-brain\n");
+  process.stdout.write(
+    "5. Stop the old primary to prevent split-brain, then rejoin it as a replica:\n"
+  );
+  process.stdout.write(
+    `   bun scripts/tools/rejoin-as-replica.ts --container OLD_PRIMARY --primary ${config.containerName}\n`
+  );
   process.stdout.write("\n");
   warning("IMPORTANT: Ensure only ONE primary exists in your cluster!");
   process.stdout.write("\n");
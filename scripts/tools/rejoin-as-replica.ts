@@ -0,0 +1,656 @@
+#!/usr/bin/env bun
+/**
+ * Rejoin a failed primary as a replica of the new primary using pg_rewind
+ *
+ * USAGE:
+ *   bun scripts/tools/rejoin-as-replica.ts --container CONTAINER --primary CONTAINER [OPTIONS]
+ *
+ * OPTIONS:
+ *   --container NAME        Failed (old) primary container to rejoin (required)
+ *   --container-context NAME
+ *                           Docker context of the old primary's host (default: current context)
+ *   --primary NAME          New primary container (required)
+ *   --primary-host HOST     Host the rejoined replica streams from (default: --primary)
+ *   --primary-port PORT     Port the rejoined replica streams from (default: 5432)
+ *   --slot NAME             Replication slot to create on the new primary and stream through
+ *                           (default: $REPLICATION_SLOT_NAME or replica_slot_1)
+ *   --network NAME          Docker network pg_rewind reaches the new primary on
+ *                           (default: the old primary's first network)
+ *   --no-start              Prepare the data directory but leave the container stopped
+ *   -y, --yes               Skip confirmation prompt
+ *   -h, --help              Show this help message
+ *
+ * DESCRIPTION:
+ *   Turns a primary that lost a failover (promote-replica.ts or failover-agent.ts) into a
+ *   replica of the promoted server without copying the whole cluster:
+ *   1. Check the new primary is out of recovery and stop the old primary
+ *   2. Check the old data directory has data checksums or wal_log_hints=on (pg_controldata)
+ *   3. Create the replicator role, its pg_rewind grants and the slot on the new primary
+ *      (the image's 02-replication.sh)
+ *   4. Run pg_rewind against the new primary (crash recovery first if it was not shut down cleanly)
+ *   5. Write standby.signal, primary_conninfo and primary_slot_name, and remove the fence marker
+ *   6. Restore the restart policy, start the container and wait until it streams
+ *
+ *   The replicator password is read from $PG_REPLICATION_PASSWORD, or from the new primary's
+ *   environment or Docker secret (PG_REPLICATION_PASSWORD_FILE) when unset.
+ *
+ * EXAMPLES:
+ *   # Rejoin the fenced primary after the failover agent promoted the replica
+ *   bun scripts/tools/rejoin-as-replica.ts --container aza-pg-postgres-primary \
+ *     --primary aza-pg-postgres-replica --primary-host postgres-replica
+ *
+ *   # Rewind only; recreate the container from the replica stack afterwards
+ *   bun scripts/tools/rejoin-as-replica.ts --container aza-pg-postgres-primary \
+ *     --primary aza-pg-postgres-replica --no-start -y
+ *
+ * PREREQUISITES:
+ *   - Docker installed and running, with access to the new primary (and to the old primary,
+ *     directly or through --container-context)
+ *   - The old data directory has data checksums (image default) or ran with wal_log_hints=on
+ *     (generated configs set it)
+ *   - WAL from the last common checkpoint is still in the old data directory's pg_wal
+ *   - In TLS mode (POSTGRES_TLS=require on the old primary) both servers' certificates come from
+ *     the same CA; pg_rewind and streaming verify the new primary with sslmode=verify-full, and
+ *     streaming authenticates with the replicator client certificate from the stack's certs
+ *
+ * WARNINGS:
+ *   - Changes the old primary made after the divergence are discarded
+ *   - The container keeps its environment: recreate it with POSTGRES_ROLE=replica (replica stack)
+ *     so the healthcheck accepts a server in recovery
+ *   - If pg_rewind fails, rebuild the replica with pg_basebackup instead
+ *
+ * EXIT CODES:
+ *   0 - Rejoined (or prepared with --no-start)
+ *   1 - Invalid arguments, failed preflight or failed rejoin
+ */
+
+import { getErrorMessage } from "../utils/errors";
+import { checkCommand, checkDockerDaemon } from "../utils/docker";
+import { error, info, section, success, warning } from "../utils/logger";
+import { FENCE_MARKER, parseReplicationState, replicationQuery } from "./failover-policy";
+import {
+  RECOVERY_SETTINGS,
+  TLS_CA_FILE,
+  TLS_REPLICATOR_CERT,
+  TLS_REPLICATOR_KEY,
+  buildPrimaryConninfo,
+  parseRewindSupport,
+  rewindOutcome,
+  setAutoConfSettings,
+} from "./rejoin-config";
+
+interface RejoinConfig {
+  container: string;
+  containerContext?: string;
+  primary: string;
+  primaryHost: string;
+  primaryPort: number;
+  slot: string;
+  network?: string;
+  start: boolean;
+  skipConfirmation: boolean;
+}
+
+/** What the tool needs from `docker inspect` of the old primary */
+interface OldPrimary {
+  image: string;
+  volume: string;
+  pgdata: string;
+  networks: string[];
+  running: boolean;
+  restartPolicy: string;
+  /** Started with POSTGRES_TLS=require: the new primary only accepts TLS connections from it */
+  tls: boolean;
+}
+
+const REPLICATION_USER = "replicator";
+const DEFAULT_PGDATA = "/var/lib/postgresql/18/docker";
+const STREAMING_TIMEOUT_SECONDS = 120;
+
+function printHelp(): void {
+  process.stdout.write(`
+Rejoin a failed primary as a replica of the new primary using pg_rewind
+
+USAGE:
+  bun scripts/tools/rejoin-as-replica.ts --container CONTAINER --primary CONTAINER [OPTIONS]
+
+OPTIONS:
+  --container NAME        Failed (old) primary container to rejoin (required)
+  --container-context NAME
+                          Docker context of the old primary's host (default: current context)
+  --primary NAME          New primary container (required)
+  --primary-host HOST     Host the rejoined replica streams from (default: --primary)
+  --primary-port PORT     Port the rejoined replica streams from (default: 5432)
+  --slot NAME             Replication slot to create on the new primary and stream through
+                          (default: $REPLICATION_SLOT_NAME or replica_slot_1)
+  --network NAME          Docker network pg_rewind reaches the new primary on
+                          (default: the old primary's first network)
+  --no-start              Prepare the data directory but leave the container stopped
+  -y, --yes               Skip confirmation prompt
+  -h, --help              Show this help message
+
+EXAMPLES:
+  # Rejoin the fenced primary after the failover agent promoted the replica
+  bun scripts/tools/rejoin-as-replica.ts --container aza-pg-postgres-primary \\
+    --primary aza-pg-postgres-replica --primary-host postgres-replica
+
+  # Rewind only; recreate the container from the replica stack afterwards
+  bun scripts/tools/rejoin-as-replica.ts --container aza-pg-postgres-primary \\
+    --primary aza-pg-postgres-replica --no-start -y
+
+WARNINGS:
+  - Changes the old primary made after the divergence are discarded
+  - The container keeps its environment: recreate it with POSTGRES_ROLE=replica (replica stack)
+    so the healthcheck accepts a server in recovery
+  - If pg_rewind fails, rebuild the replica with pg_basebackup instead
+`);
+  process.exit(0);
+}
+
+function parseArgs(): RejoinConfig {
+  const args = Bun.argv.slice(2);
+  const config: RejoinConfig = {
+    container: "",
+    primary: "",
+    primaryHost: "",
+    primaryPort: 5432,
+    slot: Bun.env.REPLICATION_SLOT_NAME || "replica_slot_1",
+    start: true,
+    skipConfirmation: false,
+  };
+
+  const requireValue = (option: string, index: number): string => {
+    const value = args[index];
+    if (value === undefined || value === "") {
+      error(`Missing value for ${option} option`);
+      process.exit(1);
+    }
+    return value;
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case "--container":
+        config.container = requireValue(arg, ++i);
+        break;
+
+      case "--container-context":
+        config.containerContext = requireValue(arg, ++i);
+        break;
+
+      case "--primary":
+        config.primary = requireValue(arg, ++i);
+        break;
+
+      case "--primary-host":
+        config.primaryHost = requireValue(arg, ++i);
+        break;
+
+      case "--primary-port": {
+        const value = requireValue(arg, ++i);
+        config.primaryPort = Number(value);
+        if (!/^\d{1,5}$/.test(value) || config.primaryPort < 1 || config.primaryPort > 65535) {
+          error(`--primary-port must be a port number, got '${value}'`);
+          process.exit(1);
+        }
+        break;
+      }
+
+      case "--slot":
+        config.slot = requireValue(arg, ++i);
+        break;
+
+      case "--network":
+        config.network = requireValue(arg, ++i);
+        break;
+
+      case "--no-start":
+        config.start = false;
+        break;
+
+      case "-y":
+      case "--yes":
+        config.skipConfirmation = true;
+        break;
+
+      case "-h":
+      case "--help":
+        printHelp();
+        break;
+
+      default:
+        error(`Unknown option: ${arg}. Use -h for help.`);
+        process.exit(1);
+    }
+  }
+
+  for (const [option, value] of [
+    ["--container", config.container],
+    ["--primary", config.primary],
+  ] as const) {
+    if (!value) {
+      error(`${option} is required. Use -h for help.`);
+      process.exit(1);
+    }
+  }
+  config.primaryHost ||= config.primary;
+
+  // Same rule as 02-replication.sh; the slot name is interpolated into the replication query
+  if (!/^[a-zA-Z0-9_]+$/.test(config.slot)) {
+    error(`Invalid replication slot name '${config.slot}' (alphanumeric and underscore only)`);
+    process.exit(1);
+  }
+
+  return config;
+}
+
+/**
+ * Run a docker command with a time limit; stderr is folded into the output on failure
+ */
+async function docker(
+  args: string[],
+  timeoutMs: number,
+  stdin?: string
+): Promise<{ ok: boolean; output: string }> {
+  const proc = Bun.spawn(["docker", ...args], {
+    stdin: stdin === undefined ? "ignore" : new Blob([stdin]),
+    stdout: "pipe",
+    stderr: "pipe",
+    timeout: timeoutMs,
+  });
+  const [stdout, stderr] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+  ]);
+  const exitCode = await proc.exited;
+  if (proc.signalCode) {
+    return { ok: false, output: `timed out after ${timeoutMs / 1000}s` };
+  }
+  return {
+    ok: exitCode === 0,
+    output: exitCode === 0 ? stdout.trim() : `${stderr.trim()}\n${stdout.trim()}`.trim(),
+  };
+}
+
+async function dockerOrThrow(
+  step: string,
+  args: string[],
+  timeoutMs: number,
+  stdin?: string
+): Promise<string> {
+  const result = await docker(args, timeoutMs, stdin);
+  if (!result.ok) {
+    throw new Error(`${step} failed: ${result.output}`);
+  }
+  return result.output;
+}
+
+async function psql(container: string, sql: string): Promise<string> {
+  return dockerOrThrow(
+    `Query on ${container}`,
+    ["exec", container, "psql", "-U", "postgres", "-d", "postgres", "-tAc", sql],
+    30_000
+  );
+}
+
+/**
+ * Docker arguments for a command against the old primary's host
+ */
+function onOldHost(config: RejoinConfig, args: string[]): string[] {
+  return config.containerContext ? ["--context", config.containerContext, ...args] : args;
+}
+
+/**
+ * Docker arguments for a throwaway container on the old primary's image and data volume
+ */
+function onOldVolume(
+  config: RejoinConfig,
+  old: OldPrimary,
+  options: string[],
+  command: string[]
+): string[] {
+  return onOldHost(config, [
+    "run",
+    "--rm",
+    ...options,
+    "-v",
+    `${old.volume}:/var/lib/postgresql`,
+    "--entrypoint",
+    command[0]!,
+    old.image,
+    ...command.slice(1),
+  ]);
+}
+
+async function inspectOldPrimary(config: RejoinConfig): Promise<OldPrimary> {
+  const output = await dockerOrThrow(
+    `Inspecting ${config.container}`,
+    onOldHost(config, ["inspect", config.container]),
+    30_000
+  );
+  const [container] = JSON.parse(output) as Array<{
+    Config: { Image: string; Env: string[] | null };
+    State: { Running: boolean };
+    HostConfig: { RestartPolicy: { Name: string } };
+    Mounts: Array<{ Type: string; Name?: string; Source: string; Destination: string }>;
+    NetworkSettings: { Networks: Record<string, unknown> };
+  }>;
+  const dataMount = container?.Mounts.find((m) => m.Destination === "/var/lib/postgresql");
+  if (!container || !dataMount) {
+    throw new Error(`${config.container} has no volume mounted at /var/lib/postgresql`);
+  }
+
+  const env = container.Config.Env ?? [];
+  const pgdata = env.find((entry) => entry.startsWith("PGDATA="))?.slice("PGDATA=".length);
+  return {
+    image: container.Config.Image,
+    volume: dataMount.Type === "volume" ? (dataMount.Name ?? dataMount.Source) : dataMount.Source,
+    pgdata: pgdata || DEFAULT_PGDATA,
+    networks: Object.keys(container.NetworkSettings.Networks ?? {}),
+    running: container.State.Running,
+    restartPolicy: container.HostConfig.RestartPolicy.Name,
+    tls: env.includes("POSTGRES_TLS=require"),
+  };
+}
+
+async function replicationPassword(config: RejoinConfig): Promise<string> {
+  if (Bun.env.PG_REPLICATION_PASSWORD) {
+    return Bun.env.PG_REPLICATION_PASSWORD;
+  }
+  // The stacks pass it as a Docker secret (PG_REPLICATION_PASSWORD_FILE)
+  const result = await docker(
+    [
+      "exec",
+      config.primary,
+      "sh",
+      "-c",
+      'if [ -n "${PG_REPLICATION_PASSWORD_FILE:-}" ]; then cat "$PG_REPLICATION_PASSWORD_FILE"; else printenv PG_REPLICATION_PASSWORD; fi',
+    ],
+    30_000
+  );
+  if (!result.ok || !result.output) {
+    throw new Error(
+      `PG_REPLICATION_PASSWORD is not set here or in ${config.primary}'s environment`
+    );
+  }
+  return result.output;
+}
+
+async function preflight(config: RejoinConfig, old: OldPrimary): Promise<string> {
+  section("Preflight");
+
+  const recovery = await psql(config.primary, "SELECT pg_is_in_recovery()");
+  if (recovery !== "f") {
+    throw new Error(`${config.primary} is still in recovery; promote it before rejoining`);
+  }
+  success(`${config.primary} is a primary`);
+
+  const network = config.network ?? old.networks[0];
+  if (!network) {
+    throw new Error(`${config.container} is on no Docker network; pass --network`);
+  }
+  info(`pg_rewind will reach ${config.primaryHost}:${config.primaryPort} on network '${network}'`);
+  return network;
+}
+
+async function confirmRejoin(config: RejoinConfig, old: OldPrimary): Promise<void> {
+  if (config.skipConfirmation) {
+    return;
+  }
+
+  process.stdout.write("\n");
+  warning("=========================================");
+  warning("REJOIN WARNING");
+  warning("=========================================");
+  process.stdout.write(`Old primary:  ${config.container}${old.running ? " (running)" : ""}\n`);
+  process.stdout.write(`Volume:       ${old.volume}\n`);
+  process.stdout.write(
+    `New primary:  ${config.primary} (${config.primaryHost}:${config.primaryPort})\n`
+  );
+  process.stdout.write(`Slot:         ${config.slot}\n`);
+  process.stdout.write("\n");
+  warning("IMPORTANT:");
+  process.stdout.write(`  - ${config.container} will be stopped\n`);
+  process.stdout.write("  - Writes it accepted after the failover are discarded\n");
+  process.stdout.write("\n");
+  process.stdout.write("Continue with rejoin? [yes/NO]: ");
+
+  const input = await readLine();
+  if (input.trim().toLowerCase() !== "yes") {
+    info("Rejoin cancelled by user");
+    process.exit(0);
+  }
+}
+
+/**
+ * Read a line from stdin
+ */
+async function readLine(): Promise<string> {
+  const decoder = new TextDecoder();
+  const bytesRead = await Bun.stdin.stream().getReader().read();
+  if (bytesRead.value) {
+    return decoder.decode(bytesRead.value);
+  }
+  return "";
+}
+
+async function stopOldPrimary(config: RejoinConfig, old: OldPrimary): Promise<void> {
+  if (!old.running) {
+    info(`${config.container} is already stopped`);
+    return;
+  }
+  info(`Stopping ${config.container}...`);
+  await dockerOrThrow(
+    `Stopping ${config.container}`,
+    onOldHost(config, ["stop", "-t", "60", config.container]),
+    90_000
+  );
+  success(`${config.container} stopped`);
+}
+
+async function checkRewindSupport(config: RejoinConfig, old: OldPrimary): Promise<void> {
+  const controlData = await dockerOrThrow(
+    "pg_controldata",
+    onOldVolume(config, old, ["--network", "none"], ["pg_controldata", old.pgdata]),
+    60_000
+  );
+  const support = parseRewindSupport(controlData);
+  if (!support.checksums && !support.walLogHints) {
+    throw new Error(
+      "The old data directory has neither data checksums nor wal_log_hints=on, so pg_rewind " +
+        "cannot run; rebuild the replica with pg_basebackup"
+    );
+  }
+  success(`pg_rewind is possible (${support.checksums ? "data checksums" : "wal_log_hints=on"})`);
+}
+
+/**
+ * Run the image's 02-replication.sh on the new primary: role, pg_rewind grants and slot
+ */
+async function prepareNewPrimary(config: RejoinConfig, password: string): Promise<void> {
+  info(`Preparing ${config.primary} (role, grants, slot '${config.slot}')...`);
+  await dockerOrThrow(
+    "02-replication.sh",
+    [
+      "exec",
+      "-e",
+      `PG_REPLICATION_PASSWORD=${password}`,
+      "-e",
+      `REPLICATION_SLOT_NAMES=${config.slot}`,
+      config.primary,
+      "bash",
+      "/docker-entrypoint-initdb.d/02-replication.sh",
+    ],
+    60_000
+  );
+  success(`Replication slot '${config.slot}' ready on ${config.primary}`);
+}
+
+async function rewind(
+  config: RejoinConfig,
+  old: OldPrimary,
+  network: string,
+  password: string
+): Promise<void> {
+  info("Running pg_rewind...");
+  const source =
+    `host=${config.primaryHost} port=${config.primaryPort} user=${REPLICATION_USER} dbname=postgres` +
+    (old.tls ? ` sslmode=verify-full sslrootcert=${TLS_CA_FILE}` : "");
+  const output = await dockerOrThrow(
+    "pg_rewind",
+    onOldVolume(
+      config,
+      old,
+      ["--network", network, "-e", `PGPASSWORD=${password}`],
+      ["pg_rewind", `--target-pgdata=${old.pgdata}`, `--source-server=${source}`, "--progress"]
+    ),
+    30 * 60_000
+  );
+  success(
+    rewindOutcome(output) === "not-needed"
+      ? "Timelines had not diverged; no rewind required"
+      : "Data directory rewound to the new primary's timeline"
+  );
+}
+
+/**
+ * Point the rewound data directory at the new primary and lift the fence
+ */
+async function writeStandbyConfig(
+  config: RejoinConfig,
+  old: OldPrimary,
+  password: string
+): Promise<void> {
+  const autoConfPath = `${old.pgdata}/postgresql.auto.conf`;
+  const current = await dockerOrThrow(
+    "Reading postgresql.auto.conf",
+    onOldVolume(
+      config,
+      old,
+      ["--network", "none"],
+      ["sh", "-c", `cat ${autoConfPath} 2>/dev/null || true`]
+    ),
+    60_000
+  );
+
+  const [conninfoKey, slotKey] = RECOVERY_SETTINGS;
+  const autoConf = setAutoConfSettings(current, {
+    [conninfoKey]: buildPrimaryConninfo({
+      host: config.primaryHost,
+      port: config.primaryPort,
+      user: REPLICATION_USER,
+      password,
+      applicationName: config.slot,
+      ...(old.tls && {
+        sslRootCert: TLS_CA_FILE,
+        sslCert: TLS_REPLICATOR_CERT,
+        sslKey: TLS_REPLICATOR_KEY,
+      }),
+    }),
+    [slotKey]: config.slot,
+  });
+
+  await dockerOrThrow(
+    "Writing standby configuration",
+    onOldVolume(
+      config,
+      old,
+      ["-i", "--network", "none"],
+      [
+        "sh",
+        "-c",
+        `umask 077 && cat > ${autoConfPath}.rejoin && mv ${autoConfPath}.rejoin ${autoConfPath}` +
+          ` && touch ${old.pgdata}/standby.signal && rm -f ${FENCE_MARKER}`,
+      ]
+    ),
+    60_000,
+    autoConf
+  );
+  success(`standby.signal and ${RECOVERY_SETTINGS.join(", ")} written; fence marker removed`);
+}
+
+async function startAsReplica(config: RejoinConfig, old: OldPrimary): Promise<void> {
+  if (old.restartPolicy === "no") {
+    // The failover agent's fence disabled it; the stacks use unless-stopped
+    await dockerOrThrow(
+      "Restoring restart policy",
+      onOldHost(config, ["update", "--restart=unless-stopped", config.container]),
+      30_000
+    );
+  }
+  if (!config.start) {
+    info(`--no-start: ${config.container} left stopped`);
+    return;
+  }
+
+  info(`Starting ${config.container}...`);
+  await dockerOrThrow(
+    `Starting ${config.container}`,
+    onOldHost(config, ["start", config.container]),
+    60_000
+  );
+
+  for (let waited = 0; waited < STREAMING_TIMEOUT_SECONDS; waited += 2) {
+    const result = await docker(
+      [
+        "exec",
+        config.primary,
+        "psql",
+        "-U",
+        "postgres",
+        "-d",
+        "postgres",
+        "-tAc",
+        replicationQuery(config.slot),
+      ],
+      30_000
+    );
+    const replication = result.ok ? parseReplicationState(result.output) : undefined;
+    if (replication?.state === "streaming") {
+      success(
+        `${config.container} streams from ${config.primary} (${replication.lagBytes} bytes behind)`
+      );
+      return;
+    }
+    await Bun.sleep(2000);
+  }
+  throw new Error(
+    `${config.container} did not start streaming within ${STREAMING_TIMEOUT_SECONDS}s; check its logs`
+  );
+}
+
+async function main(): Promise<void> {
+  const config = parseArgs();
+
+  await checkCommand("docker");
+  await checkDockerDaemon();
+
+  const old = await inspectOldPrimary(config);
+  const network = await preflight(config, old);
+  const password = await replicationPassword(config);
+  await confirmRejoin(config, old);
+
+  section("Rejoin");
+  await stopOldPrimary(config, old);
+  await checkRewindSupport(config, old);
+  await prepareNewPrimary(config, password);
+  await rewind(config, old, network, password);
+  await writeStandbyConfig(config, old, password);
+  await startAsReplica(config, old);
+
+  process.stdout.write("\n");
+  success(`${config.container} rejoined as a replica of ${config.primary}`);
+  warning(
+    `Recreate ${config.container} with POSTGRES_ROLE=replica (replica stack) so its healthcheck ` +
+      "accepts a server in recovery"
+  );
+}
+
+if (import.meta.main) {
+  main().catch((err) => {
+    error(getErrorMessage(err));
+    process.exit(1);
+  });
+}
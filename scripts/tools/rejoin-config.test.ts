@@ -0,0 +1,126 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  buildPrimaryConninfo,
+  parseRewindSupport,
+  quoteConninfoValue,
+  rewindOutcome,
+  setAutoConfSettings,
+} from "./rejoin-config";
+
+const CONTROL_DATA = `pg_control version number:            1800
+Database cluster state:               shut down
+wal_level setting:                    replica
+wal_log_hints setting:                off
+Data page checksum version:           1
+`;
+
+describe("parseRewindSupport", () => {
+  test("reads checksums and wal_log_hints", () => {
+    expect(parseRewindSupport(CONTROL_DATA)).toEqual({ checksums: true, walLogHints: false });
+    expect(
+      parseRewindSupport(
+        CONTROL_DATA.replace(
+          "hints setting:                off",
+          "hints setting:                on"
+        ).replace("version:           1", "version:           0")
+      )
+    ).toEqual({ checksums: false, walLogHints: true });
+  });
+
+  test("rejects output without the fields", () => {
+    expect(() => parseRewindSupport("pg_controldata: fatal")).toThrow(
+      "no 'Data page checksum version' line"
+    );
+  });
+});
+
+describe("primary_conninfo", () => {
+  test("quotes values libpq would split", () => {
+    expect(quoteConninfoValue("postgres-replica")).toBe("postgres-replica");
+    expect(quoteConninfoValue("")).toBe("''");
+    expect(quoteConninfoValue("it's a \\secret")).toBe("'it\\'s a \\\\secret'");
+  });
+
+  test("builds the streaming connection", () => {
+    expect(
+      buildPrimaryConninfo({
+        host: "postgres-replica",
+        port: 5432,
+        user: "replicator",
+        password: "p w",
+        applicationName: "replica_slot_1",
+      })
+    ).toBe(
+      "host=postgres-replica port=5432 user=replicator password='p w' application_name=replica_slot_1"
+    );
+  });
+
+  test("verifies the new primary in TLS mode", () => {
+    expect(
+      buildPrimaryConninfo({
+        host: "postgres-replica",
+        port: 5432,
+        user: "replicator",
+        password: "secret",
+        applicationName: "replica_slot_1",
+        sslRootCert: "/var/lib/postgresql/tls/ca.crt",
+      })
+    ).toBe(
+      "host=postgres-replica port=5432 user=replicator password=secret application_name=replica_slot_1 sslmode=verify-full sslrootcert=/var/lib/postgresql/tls/ca.crt"
+    );
+  });
+
+  test("presents the replicator client certificate for cert auth", () => {
+    expect(
+      buildPrimaryConninfo({
+        host: "postgres",
+        port: 5432,
+        user: "replicator",
+        password: "secret",
+        applicationName: "replica_slot_1",
+        sslRootCert: "/tls/ca.crt",
+        sslCert: "/tls/replicator.crt",
+        sslKey: "/tls/replicator.key",
+      })
+    ).toBe(
+      "host=postgres port=5432 user=replicator password=secret application_name=replica_slot_1 sslmode=verify-full sslrootcert=/tls/ca.crt sslcert=/tls/replicator.crt sslkey=/tls/replicator.key"
+    );
+  });
+});
+
+describe("setAutoConfSettings", () => {
+  const AUTO_CONF = `# Do not edit this file manually!
+# It will be overwritten by the ALTER SYSTEM command.
+work_mem = '64MB'
+primary_conninfo = 'host=postgres port=5432 user=replicator'
+PRIMARY_SLOT_NAME = 'old_slot'
+`;
+
+  test("replaces recovery settings and keeps the rest", () => {
+    expect(
+      setAutoConfSettings(AUTO_CONF, {
+        primary_conninfo: "host=postgres-replica password='x'",
+        primary_slot_name: "replica_slot_1",
+      })
+    ).toBe(`# Do not edit this file manually!
+# It will be overwritten by the ALTER SYSTEM command.
+work_mem = '64MB'
+primary_conninfo = 'host=postgres-replica password=''x'''
+primary_slot_name = 'replica_slot_1'
+`);
+  });
+
+  test("works on an empty file", () => {
+    expect(setAutoConfSettings("", { primary_slot_name: "s" })).toBe("primary_slot_name = 's'\n");
+  });
+});
+
+test("rewindOutcome recognizes timelines that never diverged", () => {
+  expect(
+    rewindOutcome(
+      "pg_rewind: source and target cluster are on the same timeline\npg_rewind: no rewind required"
+    )
+  ).toBe("not-needed");
+  expect(rewindOutcome("pg_rewind: Done!")).toBe("rewound");
+});
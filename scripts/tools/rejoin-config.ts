@@ -0,0 +1,115 @@
+/**
+ * Recovery configuration for rejoin-as-replica.ts
+ *
+ * Pure logic: decides from pg_controldata whether pg_rewind can run, builds the libpq conninfo
+ * the rejoined replica streams from and rewrites the recovery settings in postgresql.auto.conf.
+ */
+
+export interface PrimaryConnection {
+  host: string;
+  port: number;
+  user: string;
+  password: string;
+  /** Shown as application_name in the new primary's pg_stat_replication */
+  applicationName: string;
+  /** CA to verify the new primary against (sslmode=verify-full); plaintext when unset */
+  sslRootCert?: string;
+  /** Client certificate and key for cert authentication (pg_hba-tls.conf replication rules) */
+  sslCert?: string;
+  sslKey?: string;
+}
+
+export interface RewindSupport {
+  checksums: boolean;
+  walLogHints: boolean;
+}
+
+/** Local CA the entrypoint copies next to PGDATA in TLS mode (POSTGRES_TLS=require) */
+export const TLS_CA_FILE = "/var/lib/postgresql/tls/ca.crt";
+export const TLS_REPLICATOR_CERT = "/var/lib/postgresql/tls/replicator.crt";
+export const TLS_REPLICATOR_KEY = "/var/lib/postgresql/tls/replicator.key";
+
+/** Settings replaced in postgresql.auto.conf; pg_rewind copies the source's file, which may point at the old primary */
+export const RECOVERY_SETTINGS = ["primary_conninfo", "primary_slot_name"] as const;
+
+/**
+ * Read the settings pg_rewind depends on from pg_controldata output
+ *
+ * pg_rewind needs hint-bit changes in WAL: either data checksums or wal_log_hints=on.
+ */
+export function parseRewindSupport(controlData: string): RewindSupport {
+  const value = (label: string) => {
+    const match = new RegExp(`^${label}:\\s*(.+)$`, "m").exec(controlData);
+    if (!match) {
+      throw new Error(`pg_controldata output has no '${label}' line`);
+    }
+    return match[1]!.trim();
+  };
+  return {
+    checksums: value("Data page checksum version") !== "0",
+    walLogHints: value("wal_log_hints setting") === "on",
+  };
+}
+
+/**
+ * Quote a libpq conninfo value when it is empty or contains spaces, quotes or backslashes
+ */
+export function quoteConninfoValue(value: string): string {
+  if (value !== "" && !/[\s'\\]/.test(value)) {
+    return value;
+  }
+  return `'${value.replace(/[\\']/g, "\\$&")}'`;
+}
+
+export function buildPrimaryConninfo(connection: PrimaryConnection): string {
+  return [
+    ["host", connection.host],
+    ["port", String(connection.port)],
+    ["user", connection.user],
+    ["password", connection.password],
+    ["application_name", connection.applicationName],
+    ...(connection.sslRootCert
+      ? [
+          ["sslmode", "verify-full"],
+          ["sslrootcert", connection.sslRootCert],
+        ]
+      : []),
+    ...(connection.sslCert && connection.sslKey
+      ? [
+          ["sslcert", connection.sslCert],
+          ["sslkey", connection.sslKey],
+        ]
+      : []),
+  ]
+    .map(([key, value]) => `${key}=${quoteConninfoValue(value!)}`)
+    .join(" ");
+}
+
+/**
+ * Replace settings in postgresql.auto.conf, keeping every other line
+ *
+ * Values are written as quoted strings ('' escapes a quote), the way ALTER SYSTEM writes them.
+ */
+export function setAutoConfSettings(content: string, settings: Record<string, string>): string {
+  const keys = Object.keys(settings).map((key) => key.toLowerCase());
+  const kept = content
+    .split("\n")
+    .filter((line) => {
+      const key = /^\s*([A-Za-z0-9_.]+)\s*=/.exec(line)?.[1]?.toLowerCase();
+      return key === undefined || !keys.includes(key);
+    })
+    .join("\n")
+    .trimEnd();
+
+  const added = Object.entries(settings).map(
+    ([key, value]) => `${key} = '${value.replace(/'/g, "''")}'`
+  );
+  return `${[kept, ...added].filter(Boolean).join("\n")}\n`;
+}
+
+/**
+ * Whether pg_rewind changed the data directory or found the timelines had not diverged
+ */
+export function rewindOutcome(output: string): "rewound" | "not-needed" {
+  return /no rewind required/i.test(output) ? "not-needed" : "rewound";
+}
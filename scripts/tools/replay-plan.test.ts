@@ -0,0 +1,108 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  buildFollowSql,
+  buildReplayUntilSql,
+  formatDelay,
+  parseApplyDelay,
+  parseReplayStatus,
+  type ReplayStatus,
+} from "./replay-plan";
+import { parseRecoveryTargetTime } from "./restore-pitr";
+
+const TARGET = parseRecoveryTargetTime("2026-10-18 14:02:00+00");
+
+const DELAYED: ReplayStatus = {
+  inRecovery: true,
+  pauseState: "paused",
+  lastReplayEpoch: TARGET.epoch - 600,
+  applyDelayMs: 3_600_000,
+  targetTime: "",
+  pendingBytes: 4096,
+};
+
+describe("apply delay", () => {
+  test("accepts recovery_min_apply_delay units", () => {
+    expect(parseApplyDelay("1h")).toEqual({ value: "1h", ms: 3_600_000 });
+    expect(parseApplyDelay("90min")).toEqual({ value: "90min", ms: 5_400_000 });
+    expect(parseApplyDelay("500")).toEqual({ value: "500ms", ms: 500 });
+  });
+
+  test("rejects other formats and delays past the int limit", () => {
+    expect(() => parseApplyDelay("1 hour")).toThrow("Invalid apply delay '1 hour'");
+    expect(() => parseApplyDelay("-1h")).toThrow("Invalid apply delay");
+    expect(() => parseApplyDelay("25d")).toThrow("at most 24d");
+  });
+
+  test("formats with the largest whole unit", () => {
+    expect(formatDelay(3_600_000)).toBe("1h");
+    expect(formatDelay(5_400_000)).toBe("90min");
+    expect(formatDelay(1500)).toBe("1500ms");
+    expect(formatDelay(0)).toBe("0");
+  });
+});
+
+describe("parseReplayStatus", () => {
+  test("reads a paused delayed replica", () => {
+    expect(
+      parseReplayStatus("true|paused|1760796120.25|3600000|2026-10-18 14:02:00+00:00|4096\n")
+    ).toEqual({
+      inRecovery: true,
+      pauseState: "paused",
+      lastReplayEpoch: 1760796120.25,
+      applyDelayMs: 3_600_000,
+      targetTime: "2026-10-18 14:02:00+00:00",
+      pendingBytes: 4096,
+    });
+  });
+
+  test("reads a primary", () => {
+    expect(parseReplayStatus("false|not paused||0||")).toEqual({
+      inRecovery: false,
+      pauseState: "not paused",
+      lastReplayEpoch: undefined,
+      applyDelayMs: 0,
+      targetTime: "",
+      pendingBytes: undefined,
+    });
+  });
+
+  test("rejects unexpected rows", () => {
+    expect(() => parseReplayStatus("ERROR: permission denied")).toThrow(
+      "Unexpected replay status row"
+    );
+  });
+});
+
+describe("buildReplayUntilSql", () => {
+  test("sets an exclusive target, pauses there and lifts the delay", () => {
+    expect(buildReplayUntilSql(TARGET, DELAYED, TARGET.epoch + 60)).toEqual([
+      "ALTER SYSTEM SET recovery_target_time = '2026-10-18 14:02:00+00:00'",
+      "ALTER SYSTEM SET recovery_target_action = 'pause'",
+      "ALTER SYSTEM SET recovery_target_inclusive = off",
+      "ALTER SYSTEM SET recovery_min_apply_delay = 0",
+    ]);
+  });
+
+  test("refuses targets replay cannot reach", () => {
+    expect(() => buildReplayUntilSql(TARGET, DELAYED, TARGET.epoch - 1)).toThrow(
+      "is in the future"
+    );
+    expect(() =>
+      buildReplayUntilSql(TARGET, { ...DELAYED, lastReplayEpoch: TARGET.epoch }, TARGET.epoch + 60)
+    ).toThrow("Replay already passed 2026-10-18 14:02:00+00:00");
+    expect(() =>
+      buildReplayUntilSql(TARGET, { ...DELAYED, inRecovery: false }, TARGET.epoch + 60)
+    ).toThrow("not in recovery");
+  });
+});
+
+test("buildFollowSql drops the target and restores the delay", () => {
+  expect(buildFollowSql(parseApplyDelay("1h"))).toEqual([
+    "ALTER SYSTEM RESET recovery_target_time",
+    "ALTER SYSTEM RESET recovery_target_action",
+    "ALTER SYSTEM RESET recovery_target_inclusive",
+    "ALTER SYSTEM SET recovery_min_apply_delay = '1h'",
+  ]);
+  expect(buildFollowSql(undefined).at(-1)).toBe("ALTER SYSTEM RESET recovery_min_apply_delay");
+});
@@ -0,0 +1,158 @@
+/**
+ * WAL replay control for delayed-replica.ts
+ *
+ * Pure logic: validates apply delays, parses the replica's replay state and builds the
+ * ALTER SYSTEM statements that fast-forward a delayed replica to a recovery target and put it
+ * back to following the primary.
+ */
+
+import { formatEpoch, type RecoveryTarget } from "./restore-pitr";
+
+export type PauseState = "not paused" | "pause requested" | "paused";
+
+export interface ReplayStatus {
+  inRecovery: boolean;
+  pauseState: PauseState;
+  /** Commit time (Unix) of the last replayed transaction; undefined before the first one */
+  lastReplayEpoch?: number;
+  /** recovery_min_apply_delay in milliseconds */
+  applyDelayMs: number;
+  /** recovery_target_time as configured; empty when no target is set */
+  targetTime: string;
+  /** WAL received but not replayed yet (bytes); undefined on a primary */
+  pendingBytes?: number;
+}
+
+export interface ApplyDelay {
+  /** As written to recovery_min_apply_delay, e.g. "1h" */
+  value: string;
+  ms: number;
+}
+
+const DELAY_UNITS_MS = { ms: 1, s: 1000, min: 60_000, h: 3_600_000, d: 86_400_000 } as const;
+
+/** recovery_min_apply_delay is an int of milliseconds */
+const MAX_DELAY_MS = 2_147_483_647;
+
+/** Settings the fast-forward writes to postgresql.auto.conf besides the apply delay */
+export const RECOVERY_TARGET_SETTINGS = [
+  "recovery_target_time",
+  "recovery_target_action",
+  "recovery_target_inclusive",
+] as const;
+
+/**
+ * Replay state as "in_recovery|pause_state|last_replay_epoch|apply_delay_ms|target_time|pending_bytes"
+ *
+ * pg_get_wal_replay_pause_state() raises an error outside recovery, hence the CASE.
+ */
+export const REPLAY_STATUS_QUERY = `SELECT pg_is_in_recovery() || '|' ||
+  CASE WHEN pg_is_in_recovery() THEN pg_get_wal_replay_pause_state() ELSE 'not paused' END || '|' ||
+  coalesce(extract(epoch FROM pg_last_xact_replay_timestamp())::text, '') || '|' ||
+  (SELECT setting FROM pg_settings WHERE name = 'recovery_min_apply_delay') || '|' ||
+  current_setting('recovery_target_time') || '|' ||
+  coalesce(pg_wal_lsn_diff(pg_last_wal_receive_lsn(), pg_last_wal_replay_lsn())::bigint::text, '')`;
+
+/**
+ * Parse an apply delay such as "1h" or "30min" (a number without unit is milliseconds)
+ *
+ * @throws {Error} If the value is not a whole number with an optional ms, s, min, h or d unit
+ */
+export function parseApplyDelay(input: string): ApplyDelay {
+  const match = /^(\d+)(ms|s|min|h|d)?$/.exec(input.trim());
+  const unit = (match?.[2] ?? "ms") as keyof typeof DELAY_UNITS_MS;
+  const ms = match ? Number(match[1]) * DELAY_UNITS_MS[unit] : NaN;
+  if (!match || ms > MAX_DELAY_MS) {
+    throw new Error(
+      `Invalid apply delay '${input}' (a whole number with ms, s, min, h or d, at most 24d, e.g. 1h)`
+    );
+  }
+  return { value: `${match[1]}${unit}`, ms };
+}
+
+/**
+ * Format a delay in milliseconds with the largest unit that divides it
+ */
+export function formatDelay(ms: number): string {
+  if (ms === 0) {
+    return "0";
+  }
+  const [unit, size] = Object.entries(DELAY_UNITS_MS)
+    .reverse()
+    .find(([, size]) => ms % size === 0)!;
+  return `${ms / size}${unit}`;
+}
+
+/**
+ * Parse REPLAY_STATUS_QUERY output
+ */
+export function parseReplayStatus(output: string): ReplayStatus {
+  const line = output.trim();
+  const fields = line.split("|");
+  const [inRecovery, pauseState = "", lastReplay = "", delay = "", target = "", pending = ""] =
+    fields;
+  if (
+    fields.length !== 6 ||
+    !/^(true|false)$/.test(`${inRecovery}`) ||
+    !["not paused", "pause requested", "paused"].includes(pauseState) ||
+    !/^\d+$/.test(delay)
+  ) {
+    throw new Error(`Unexpected replay status row: '${line}'`);
+  }
+  return {
+    inRecovery: inRecovery === "true",
+    pauseState: pauseState as PauseState,
+    lastReplayEpoch: /^\d+(\.\d+)?$/.test(lastReplay) ? Number(lastReplay) : undefined,
+    applyDelayMs: Number(delay),
+    targetTime: target,
+    pendingBytes: /^-?\d+$/.test(pending) ? Number(pending) : undefined,
+  };
+}
+
+/**
+ * ALTER SYSTEM statements that replay everything committed before the target, then pause
+ *
+ * The apply delay is lifted so replay catches up to the target at once. Recovery targets only
+ * take effect after a restart. Replay never goes backwards: a target before the last replayed
+ * commit is rejected.
+ *
+ * @throws {Error} If the server is not a replica or the target is in the future or already passed
+ */
+export function buildReplayUntilSql(
+  target: RecoveryTarget,
+  status: ReplayStatus,
+  nowEpoch: number
+): string[] {
+  if (!status.inRecovery) {
+    throw new Error("Server is not in recovery; only a replica can be fast-forwarded");
+  }
+  if (target.epoch > nowEpoch) {
+    throw new Error(`Target ${target.value} is in the future`);
+  }
+  if (status.lastReplayEpoch !== undefined && status.lastReplayEpoch >= target.epoch) {
+    throw new Error(
+      `Replay already passed ${target.value} (last replayed commit at ${formatEpoch(status.lastReplayEpoch)}); ` +
+        "restore a backup with restore-postgres.ts --pitr to go back further"
+    );
+  }
+  return [
+    `ALTER SYSTEM SET recovery_target_time = '${target.value}'`,
+    "ALTER SYSTEM SET recovery_target_action = 'pause'",
+    "ALTER SYSTEM SET recovery_target_inclusive = off",
+    "ALTER SYSTEM SET recovery_min_apply_delay = 0",
+  ];
+}
+
+/**
+ * ALTER SYSTEM statements that drop the recovery target and restore the apply delay
+ *
+ * Without a delay the setting is reset to postgresql.conf's value.
+ */
+export function buildFollowSql(delay: ApplyDelay | undefined): string[] {
+  return [
+    ...RECOVERY_TARGET_SETTINGS.map((setting) => `ALTER SYSTEM RESET ${setting}`),
+    delay && delay.ms > 0
+      ? `ALTER SYSTEM SET recovery_min_apply_delay = '${delay.value}'`
+      : "ALTER SYSTEM RESET recovery_min_apply_delay",
+  ];
+}
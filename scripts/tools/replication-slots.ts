@@ -0,0 +1,215 @@
+#!/usr/bin/env bun
+/**
+ * List, create and prune physical replication slots (one per replica)
+ *
+ * USAGE:
+ *   bun scripts/tools/replication-slots.ts --container NAME [--keep SLOTS [--prune]] [OPTIONS]
+ *
+ * OPTIONS:
+ *   --container NAME    Primary, or upstream replica of cascading replicas (required)
+ *   --keep SLOTS        Slots that must exist, comma-separated (same format as
+ *                       REPLICATION_SLOT_NAMES); missing ones are created
+ *   --prune             Drop inactive physical slots that are not in --keep
+ *   --dry-run           Show the plan without changing anything
+ *   -h, --help          Show this help message
+ *
+ * DESCRIPTION:
+ *   Without --keep, lists the server's slots with their activity and retained WAL. The primary
+ *   stack creates REPLICATION_SLOT_NAMES only when it initializes its data directory; use this
+ *   tool to add a slot for a new replica, and --prune to drop the slot of a removed replica so it
+ *   stops holding back WAL. Slots a replica still streams through and logical slots are never
+ *   dropped.
+ *
+ * EXAMPLES:
+ *   # List slots
+ *   bun scripts/tools/replication-slots.ts --container aza-pg-postgres-primary
+ *
+ *   # Replica r2 was removed: keep r1 only
+ *   bun scripts/tools/replication-slots.ts --container aza-pg-postgres-primary --keep r1 --prune
+ *
+ * PREREQUISITES:
+ *   - Docker installed and running, with the container running
+ *
+ * EXIT CODES:
+ *   0 - Slots listed or reconciled
+ *   1 - Invalid arguments or a failed query
+ */
+
+import { $ } from "bun";
+import { getErrorMessage } from "../utils/errors";
+import { checkCommand, checkDockerDaemon } from "../utils/docker";
+import { error, info, section, success, warning } from "../utils/logger";
+import { SLOTS_QUERY, parseSlotNames, parseSlots, planSlotSync, type SlotInfo } from "./slot-plan";
+
+interface SlotsConfig {
+  container: string;
+  keep?: string[];
+  prune: boolean;
+  dryRun: boolean;
+}
+
+function printHelp(): void {
+  process.stdout.write(`
+List, create and prune physical replication slots (one per replica)
+
+USAGE:
+  bun scripts/tools/replication-slots.ts --container NAME [--keep SLOTS [--prune]] [OPTIONS]
+
+OPTIONS:
+  --container NAME    Primary, or upstream replica of cascading replicas (required)
+  --keep SLOTS        Slots that must exist, comma-separated (same format as
+                      REPLICATION_SLOT_NAMES); missing ones are created
+  --prune             Drop inactive physical slots that are not in --keep
+  --dry-run           Show the plan without changing anything
+  -h, --help          Show this help message
+
+EXAMPLES:
+  # List slots
+  bun scripts/tools/replication-slots.ts --container aza-pg-postgres-primary
+
+  # Replica r2 was removed: keep r1 only
+  bun scripts/tools/replication-slots.ts --container aza-pg-postgres-primary --keep r1 --prune
+`);
+  process.exit(0);
+}
+
+function parseArgs(): SlotsConfig {
+  const args = Bun.argv.slice(2);
+  const config: SlotsConfig = { container: "", prune: false, dryRun: false };
+
+  const requireValue = (option: string, index: number): string => {
+    const value = args[index];
+    if (value === undefined || value === "") {
+      error(`Missing value for ${option} option`);
+      process.exit(1);
+    }
+    return value;
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case "--container":
+        config.container = requireValue(arg, ++i);
+        break;
+
+      case "--keep":
+        try {
+          config.keep = parseSlotNames(requireValue(arg, ++i));
+        } catch (err) {
+          error(getErrorMessage(err));
+          process.exit(1);
+        }
+        break;
+
+      case "--prune":
+        config.prune = true;
+        break;
+
+      case "--dry-run":
+        config.dryRun = true;
+        break;
+
+      case "-h":
+      case "--help":
+        printHelp();
+        break;
+
+      default:
+        error(`Unknown option: ${arg}. Use -h for help.`);
+        process.exit(1);
+    }
+  }
+
+  if (!config.container) {
+    error("--container is required. Use -h for help.");
+    process.exit(1);
+  }
+  if (config.prune && !config.keep) {
+    error("--prune requires --keep (the slots to keep)");
+    process.exit(1);
+  }
+
+  return config;
+}
+
+async function psql(container: string, sql: string): Promise<string> {
+  const result =
+    await $`docker exec ${container} psql -U postgres -d postgres -v ON_ERROR_STOP=1 -tAc ${sql}`
+      .nothrow()
+      .quiet();
+  if (result.exitCode !== 0) {
+    throw new Error(`Query on ${container} failed: ${result.stderr.toString().trim()}`);
+  }
+  return result.text().trim();
+}
+
+function printSlots(slots: SlotInfo[]): void {
+  if (slots.length === 0) {
+    info("No replication slots");
+    return;
+  }
+  for (const slot of slots) {
+    const retained =
+      slot.retainedBytes === undefined
+        ? "no WAL reserved"
+        : `${(slot.retainedBytes / 1024 / 1024).toFixed(1)} MiB retained`;
+    process.stdout.write(
+      `  ${slot.name.padEnd(24)} ${slot.type.padEnd(9)} ${(slot.active ? "active" : "inactive").padEnd(9)} ${retained}\n`
+    );
+  }
+}
+
+async function main(): Promise<void> {
+  const config = parseArgs();
+
+  await checkCommand("docker");
+  await checkDockerDaemon();
+
+  section(`Replication slots on ${config.container}`);
+  const slots = parseSlots(await psql(config.container, SLOTS_QUERY));
+  printSlots(slots);
+
+  if (!config.keep) {
+    return;
+  }
+
+  const plan = planSlotSync(slots, config.keep, config.prune);
+  for (const name of plan.keptActive) {
+    warning(`Not dropping '${name}': a replica still streams through it`);
+  }
+  if (plan.create.length === 0 && plan.drop.length === 0) {
+    success("Slots already match --keep");
+    return;
+  }
+
+  section(config.dryRun ? "Plan (dry run)" : "Changes");
+  for (const name of plan.create) {
+    info(`Create '${name}'`);
+    if (!config.dryRun) {
+      await psql(config.container, `SELECT pg_create_physical_replication_slot('${name}')`);
+    }
+  }
+  for (const name of plan.drop) {
+    info(`Drop '${name}'`);
+    if (!config.dryRun) {
+      // Fails if a replica connected since the listing; the slot is then kept
+      await psql(
+        config.container,
+        `SELECT pg_drop_replication_slot('${name.replace(/'/g, "''")}')`
+      );
+    }
+  }
+
+  if (!config.dryRun) {
+    success(`Created ${plan.create.length}, dropped ${plan.drop.length} slot(s)`);
+  }
+}
+
+if (import.meta.main) {
+  main().catch((err) => {
+    error(getErrorMessage(err));
+    process.exit(1);
+  });
+}
@@ -0,0 +1,121 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  buildPitrRestoreArgs,
+  formatEpoch,
+  parseBackupInfo,
+  parseRecoveryTargetTime,
+  selectBackupForTarget,
+} from "./restore-pitr";
+
+// 2026-10-18 02:00:00 UTC and friends
+const DAY = 86_400;
+const SUNDAY = 1_792_288_800;
+
+const INFO_JSON = JSON.stringify([
+  {
+    name: "main",
+    status: { code: 0, message: "ok" },
+    backup: [
+      {
+        label: "20261018-020000F_20261018-080000I",
+        type: "incr",
+        timestamp: { start: SUNDAY + 6 * 3600, stop: SUNDAY + 6 * 3600 + 30 },
+      },
+      {
+        label: "20261018-020000F",
+        type: "full",
+        timestamp: { start: SUNDAY, stop: SUNDAY + 300 },
+      },
+      {
+        label: "20261018-020000F_20261019-020000D",
+        type: "diff",
+        timestamp: { start: SUNDAY + DAY, stop: SUNDAY + DAY + 60 },
+      },
+    ],
+  },
+  { name: "other", status: { code: 2, message: "no valid backups" }, backup: [] },
+]);
+
+describe("parseRecoveryTargetTime", () => {
+  test("normalizes offsets and keeps fractional seconds", () => {
+    expect(parseRecoveryTargetTime("2026-10-18 14:03:00+00")).toEqual({
+      value: "2026-10-18 14:03:00+00:00",
+      epoch: SUNDAY + 12 * 3600 + 180,
+    });
+    expect(parseRecoveryTargetTime("2026-10-18T16:03+0200").epoch).toBe(SUNDAY + 12 * 3600 + 180);
+    expect(parseRecoveryTargetTime(" 2026-10-18 14:03:00.25Z ").value).toBe(
+      "2026-10-18 14:03:00.25+00:00"
+    );
+    expect(parseRecoveryTargetTime("2026-10-18 09:03:00 -05:00").epoch).toBe(
+      SUNDAY + 12 * 3600 + 180
+    );
+  });
+
+  test("requires a UTC offset and a real date", () => {
+    expect(() => parseRecoveryTargetTime("2026-10-18 14:03:00")).toThrow(
+      "a UTC offset is required"
+    );
+    expect(() => parseRecoveryTargetTime("yesterday")).toThrow("Invalid recovery target time");
+    expect(() => parseRecoveryTargetTime("2026-02-30 00:00:00+00")).toThrow(
+      "not a valid date and time"
+    );
+    expect(() => parseRecoveryTargetTime("2026-10-18 25:00:00+00")).toThrow(
+      "not a valid date and time"
+    );
+  });
+});
+
+describe("parseBackupInfo", () => {
+  test("returns backups sorted by stop time", () => {
+    expect(parseBackupInfo(INFO_JSON, "main").map((b) => b.type)).toEqual(["full", "incr", "diff"]);
+  });
+
+  test("reports missing stanzas and empty repositories", () => {
+    expect(() => parseBackupInfo(INFO_JSON, "nope")).toThrow("Stanza 'nope' not found");
+    expect(() => parseBackupInfo(INFO_JSON, "other")).toThrow(
+      "Stanza 'other' has no backups (no valid backups)"
+    );
+    expect(() => parseBackupInfo("ERROR: [055]", "main")).toThrow("did not return JSON");
+  });
+});
+
+describe("selectBackupForTarget", () => {
+  const backups = parseBackupInfo(INFO_JSON, "main");
+
+  test("picks the newest backup that finished before the target", () => {
+    const target = parseRecoveryTargetTime("2026-10-18 14:03:00+00");
+    expect(selectBackupForTarget(backups, target).label).toBe("20261018-020000F_20261018-080000I");
+    expect(selectBackupForTarget(backups, target, "20261018-020000F").type).toBe("full");
+  });
+
+  test("rejects targets before the oldest backup and sets that finished too late", () => {
+    expect(() =>
+      selectBackupForTarget(backups, parseRecoveryTargetTime("2026-10-18 01:00:00+00"))
+    ).toThrow(`the oldest backup (20261018-020000F) finished at ${formatEpoch(SUNDAY + 300)}`);
+    expect(() =>
+      selectBackupForTarget(
+        backups,
+        parseRecoveryTargetTime("2026-10-18 14:03:00+00"),
+        "20261018-020000F_20261019-020000D"
+      )
+    ).toThrow("after the recovery target");
+    expect(() =>
+      selectBackupForTarget(backups, parseRecoveryTargetTime("2026-10-18 14:03:00+00"), "x")
+    ).toThrow("Backup set 'x' not found");
+  });
+});
+
+describe("buildPitrRestoreArgs", () => {
+  test("restores the selected set to the target time and promotes", () => {
+    const target = parseRecoveryTargetTime("2026-10-18 14:03:00+00");
+    const [full] = parseBackupInfo(INFO_JSON, "main");
+    expect(buildPitrRestoreArgs(target, full!)).toEqual([
+      "restore",
+      "--type=time",
+      "--target=2026-10-18 14:03:00+00:00",
+      "--target-action=promote",
+      "--set=20261018-020000F",
+    ]);
+  });
+});
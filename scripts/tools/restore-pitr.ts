@@ -0,0 +1,179 @@
+/**
+ * Point-in-time recovery planning: recovery target, backup set and pgBackRest restore arguments
+ *
+ * Pure logic behind `restore-postgres.ts --pitr`. The CLI reads the repository through the
+ * target image (`pgbackrest info --output=json`) and this module validates the recovery target,
+ * picks the backup set to restore from and builds the pgBackRest restore command.
+ */
+
+/** Recovery target as passed to recovery_target_time, plus its Unix time for comparisons */
+export interface RecoveryTarget {
+  /** Normalized "YYYY-MM-DD HH:MM:SS[.fff]+HH:MM" (always with an explicit offset) */
+  value: string;
+  epoch: number;
+}
+
+/** Backup set from `pgbackrest info --output=json` */
+export interface PgbackrestBackup {
+  label: string;
+  type: "full" | "diff" | "incr";
+  /** Unix times the backup started and finished */
+  start: number;
+  stop: number;
+}
+
+/** Subset of one stanza in `pgbackrest info --output=json` */
+interface PgbackrestStanzaInfo {
+  name: string;
+  status?: { code: number; message: string };
+  backup?: Array<{ label: string; type: string; timestamp: { start: number; stop: number } }>;
+}
+
+const TARGET_TIME_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})(?::(\d{2})(\.\d{1,6})?)?\s*(Z|UTC|[+-]\d{2}(?::?\d{2})?)$/i;
+
+/**
+ * Parse a recovery target time such as "2026-10-18 14:03:00+00"
+ *
+ * An explicit UTC offset is required: without one PostgreSQL interprets the target in the
+ * server's timezone, which is easy to get wrong during an incident.
+ *
+ * @throws Error if the value is not a valid timestamp with offset
+ */
+export function parseRecoveryTargetTime(input: string): RecoveryTarget {
+  const match = TARGET_TIME_PATTERN.exec(input.trim());
+  if (!match) {
+    throw new Error(
+      `Invalid recovery target time '${input}'. Use 'YYYY-MM-DD HH:MM:SS+00' (a UTC offset is required)`
+    );
+  }
+  const [, year, month, day, hour, minute, second = "00", fraction = "", zone = ""] = match;
+
+  let offset = "+00:00";
+  if (!/^(z|utc)$/i.test(zone)) {
+    const digits = zone.replace(":", "");
+    offset = `${digits.slice(0, 3)}:${digits.slice(3) || "00"}`;
+  }
+
+  // Reject dates like February 30 that Date.parse would roll over
+  const calendar = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  const epochMs = Date.parse(
+    `${year}-${month}-${day}T${hour}:${minute}:${second}${fraction}${offset}`
+  );
+  if (
+    Number.isNaN(epochMs) ||
+    calendar.getUTCMonth() !== Number(month) - 1 ||
+    calendar.getUTCDate() !== Number(day)
+  ) {
+    throw new Error(`Invalid recovery target time '${input}': not a valid date and time`);
+  }
+
+  return {
+    value: `${year}-${month}-${day} ${hour}:${minute}:${second}${fraction}${offset}`,
+    epoch: epochMs / 1000,
+  };
+}
+
+/**
+ * Format a Unix time for messages (UTC, second precision)
+ */
+export function formatEpoch(epoch: number): string {
+  return new Date(epoch * 1000)
+    .toISOString()
+    .replace("T", " ")
+    .replace(/\.\d+Z$/, "+00");
+}
+
+/**
+ * Read the backup sets of a stanza from `pgbackrest info --output=json`
+ *
+ * @throws Error if the stanza is missing or has no backups
+ */
+export function parseBackupInfo(json: string, stanza: string): PgbackrestBackup[] {
+  let stanzas: PgbackrestStanzaInfo[];
+  try {
+    stanzas = JSON.parse(json) as PgbackrestStanzaInfo[];
+  } catch {
+    throw new Error("pgbackrest info did not return JSON");
+  }
+
+  const entry = Array.isArray(stanzas) ? stanzas.find((s) => s.name === stanza) : undefined;
+  if (!entry) {
+    throw new Error(`Stanza '${stanza}' not found in the repository`);
+  }
+
+  const backups = (entry.backup ?? []).flatMap((backup): PgbackrestBackup[] =>
+    backup.type === "full" || backup.type === "diff" || backup.type === "incr"
+      ? [
+          {
+            label: backup.label,
+            type: backup.type,
+            start: backup.timestamp.start,
+            stop: backup.timestamp.stop,
+          },
+        ]
+      : []
+  );
+  if (backups.length === 0) {
+    const status = entry.status && entry.status.code !== 0 ? ` (${entry.status.message})` : "";
+    throw new Error(`Stanza '${stanza}' has no backups${status}`);
+  }
+
+  return backups.sort((a, b) => a.stop - b.stop);
+}
+
+/**
+ * Pick the backup set to restore: the requested label, or the newest backup that finished
+ * before the recovery target (WAL replay covers the rest)
+ *
+ * @throws Error if no usable backup exists for the target
+ */
+export function selectBackupForTarget(
+  backups: PgbackrestBackup[],
+  target: RecoveryTarget,
+  label?: string
+): PgbackrestBackup {
+  if (label) {
+    const backup = backups.find((b) => b.label === label);
+    if (!backup) {
+      throw new Error(
+        `Backup set '${label}' not found. Available: ${backups.map((b) => b.label).join(", ")}`
+      );
+    }
+    if (backup.stop > target.epoch) {
+      throw new Error(
+        `Backup set '${label}' finished at ${formatEpoch(backup.stop)}, after the recovery target ${target.value}`
+      );
+    }
+    return backup;
+  }
+
+  const candidates = backups.filter((b) => b.stop <= target.epoch);
+  const backup = candidates[candidates.length - 1];
+  if (!backup) {
+    const oldest = backups[0];
+    throw new Error(
+      `No backup finished before the recovery target ${target.value}` +
+        (oldest
+          ? `; the oldest backup (${oldest.label}) finished at ${formatEpoch(oldest.stop)}`
+          : "")
+    );
+  }
+  return backup;
+}
+
+/**
+ * pgBackRest restore arguments for recovery to a point in time, promoting once it is reached
+ *
+ * Stanza, repository and data directory come from PGBACKREST_* variables, so the generated
+ * restore_command (`pgbackrest --stanza=... archive-get`) keeps working in the recovery container.
+ */
+export function buildPitrRestoreArgs(target: RecoveryTarget, backup: PgbackrestBackup): string[] {
+  return [
+    "restore",
+    "--type=time",
+    `--target=${target.value}`,
+    "--target-action=promote",
+    `--set=${backup.label}`,
+  ];
+}
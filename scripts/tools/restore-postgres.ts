@@ -2,27 +2,73 @@
 /**
  * Restore PostgreSQL database from backup
  * Usage: ./restore-postgres.ts <backup-file> [database]
+ *        ./restore-postgres.ts --pitr TIME --repo SOURCE [OPTIONS]
  * Environment: PGHOST, PGPORT, PGUSER, PGPASSWORD
  *
  * Examples:
  *   ./restore-postgres.ts backup.sql.gz                    # Restore to 'postgres' database
  *   ./restore-postgres.ts backup.sql.gz mydb                # Restore to 'mydb' database
  *   PGHOST=db.example.com ./restore-postgres.ts backup.sql.gz
+ *
+ * Point-in-time recovery (--pitr) restores a pgBackRest backup into a fresh Docker volume with
+ * recovery_target_time, starts the image until recovery promotes the cluster, and verifies it
+ * with the pg_aza_status table and the image healthcheck. Use -h for its options.
+ *
+ *   ./restore-postgres.ts --pitr "2026-10-18 14:03:00+00" --repo /srv/pgbackrest
+ *   ./restore-postgres.ts --pitr "2026-10-18 14:03:00+00" --repo postgres_backup --repo-path pgbackrest
  */
 
+import { existsSync, statSync } from "node:fs";
+import { resolve } from "node:path";
 import { $ } from "bun";
-import { checkCommand, waitForPostgres } from "../utils/docker";
-import { info, success, error } from "../utils/logger";
+import {
+  checkCommand,
+  checkDockerDaemon,
+  cleanupContainer,
+  dockerRun,
+  ensureImageAvailable,
+  generateUniqueContainerName,
+  waitForPostgres,
+} from "../utils/docker";
+import { getErrorMessage } from "../utils/errors";
+import { info, success, error, section, warning } from "../utils/logger";
+import {
+  ROW_COUNT_QUERY,
+  ROW_COUNT_SUFFIX,
+  buildPgRestoreArgs,
+  compareRowCounts,
+  detectDumpFormat,
+  parseRowCountManifest,
+  parseRowCounts,
+  type DetectedDump,
+} from "./dump-format";
+import {
+  buildPitrRestoreArgs,
+  formatEpoch,
+  parseBackupInfo,
+  parseRecoveryTargetTime,
+  selectBackupForTarget,
+  type PgbackrestBackup,
+  type RecoveryTarget,
+} from "./restore-pitr";
 
 interface RestoreConfig {
   backupFile: string;
   database: string;
+  jobs: number;
   pgHost: string;
   pgPort: number;
   pgUser: string;
   pgPassword?: string;
 }
 
+/** Decompress-to-stdout command per plain dump compression */
+const DECOMPRESS_COMMANDS = {
+  gzip: ["gzip", "-dc"],
+  zstd: ["zstd", "-dcq"],
+  lz4: ["lz4", "-dc"],
+} as const;
+
 /**
  * Check if a command exists in PATH
  */
@@ -38,8 +84,13 @@ async function commandExists(command: string): Promise<boolean> {
 /**
  * Guard: Check required commands
  */
-async function checkRequiredCommands(): Promise<void> {
-  const commands = ["psql", "pg_isready", "gunzip"];
+async function checkRequiredCommands(dump: DetectedDump): Promise<void> {
+  const commands = ["psql", "pg_isready"];
+  if (dump.format !== "plain") {
+    commands.push("pg_restore");
+  } else if (dump.compression !== "none") {
+    commands.push(DECOMPRESS_COMMANDS[dump.compression][0]);
+  }
 
   for (const cmd of commands) {
     if (!(await commandExists(cmd))) {
@@ -59,7 +110,7 @@ function showUsage(): void {
   const scriptName = Bun.argv[1];
   error("Backup file argument required");
   process.stdout.write("\n");
-  process.stdout.write(`Usage: ${scriptName} <backup-file> [database]\n`);
+  process.stdout.write(`Usage: ${scriptName} <backup-file> [database] [--jobs N]\n`);
   process.stdout.write("\n");
   process.stdout.write("Examples:\n");
   process.stdout.write(
@@ -68,25 +119,102 @@ function showUsage(): void {
   process.stdout.write(
     `  ${scriptName} backup_20250131_120000.sql.gz mydb            # Restore to 'mydb' db\n`
   );
+  process.stdout.write(
+    `  ${scriptName} backup_mydb.dir mydb --jobs 4                 # Parallel pg_restore\n`
+  );
   process.stdout.write(
     `  PGHOST=remote.host ${scriptName} backup.sql.gz              # Restore to remote host\n`
   );
+  process.stdout.write(`\nUse ${scriptName} -h for all options.\n`);
   process.exit(1);
 }
 
+function printHelp(): void {
+  process.stdout.write(`
+Restore a pg_dump backup, or recover a pgBackRest backup to a point in time
+
+USAGE:
+  bun scripts/tools/restore-postgres.ts <backup> [database] [--jobs N]
+  bun scripts/tools/restore-postgres.ts --pitr TIME --repo SOURCE [OPTIONS]
+
+DUMP RESTORE:
+  <backup>                backup-postgres.ts output: plain SQL (.sql, .sql.gz, .sql.zst, .sql.lz4),
+                          custom archive or directory; the format is detected from the file
+  [database]              Target database (default: postgres)
+  --jobs N                Parallel pg_restore jobs (custom and directory formats; default: 1)
+
+  Restored row counts are compared with <backup>.rowcounts.json when it exists.
+  Environment: PGHOST, PGPORT, PGUSER, PGPASSWORD
+
+POINT-IN-TIME RECOVERY OPTIONS:
+  --pitr TIME             Recovery target, with UTC offset: "2026-10-18 14:03:00+00" (required)
+  --repo SOURCE           pgBackRest repository: host directory or Docker volume (required)
+  --repo-path SUBDIR      Repository path inside SOURCE (default: its root; the primary
+                          stack's backup volume keeps it in "pgbackrest")
+  --stanza NAME           pgBackRest stanza (default: main)
+  --set LABEL             Backup set to restore (default: newest one finished before TIME)
+  --target-volume NAME    New data volume to create (default: postgres_data_pitr_<timestamp>)
+  --image IMAGE           Image to recover with (default: $POSTGRES_IMAGE or ghcr.io/fluxo-kt/aza-pg:pg18)
+  --database NAME         Database holding pg_aza_status, i.e. POSTGRES_DB (default: postgres)
+  --timeout SECONDS       Time allowed for WAL replay and promotion (default: 600)
+  -h, --help              Show this help message
+
+POINT-IN-TIME RECOVERY:
+  1. Lists the repository with pgbackrest info and picks the backup set
+  2. Runs pgbackrest restore --type=time into a new volume (the repository is mounted read-only)
+  3. Starts the image on the volume: WAL is replayed with archive-get up to TIME, then the
+     cluster is promoted
+  4. Verifies pg_aza_status and the healthcheck, then stops the container
+
+  The original data volume and the repository are left untouched.
+
+EXAMPLES:
+  # Parallel restore of a directory-format dump
+  bun scripts/tools/restore-postgres.ts backup_mydb.dir mydb --jobs 4
+
+  # Undo an accidental DELETE on the primary stack (repository in the postgres_backup volume)
+  bun scripts/tools/restore-postgres.ts --pitr "2026-10-18 14:03:00+00" \\
+    --repo postgres_backup --repo-path pgbackrest
+
+  # Repository in a host directory, explicit backup set and volume name
+  bun scripts/tools/restore-postgres.ts --pitr "2026-10-18 14:03:00+00" --repo /srv/pgbackrest \\
+    --set 20261018-020000F --target-volume postgres_data_restored
+`);
+  process.exit(0);
+}
+
 /**
  * Parse configuration from arguments and environment
  */
-function parseConfig(): RestoreConfig {
-  const args = Bun.argv.slice(2);
+function parseConfig(args: string[]): RestoreConfig {
+  const positional: string[] = [];
+  let jobs = 1;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i] as string;
+    if (arg === "--jobs" || arg.startsWith("--jobs=")) {
+      const value = arg === "--jobs" ? args[++i] : arg.slice("--jobs=".length);
+      jobs = Number(value);
+      if (!Number.isInteger(jobs) || jobs < 1) {
+        error("--jobs must be a positive integer");
+        process.exit(1);
+      }
+    } else if (arg.startsWith("-")) {
+      error(`Unknown option: ${arg}. Use -h for help.`);
+      process.exit(1);
+    } else {
+      positional.push(arg);
+    }
+  }
 
   // Guard: Check backup file argument
-  if (args.length === 0 || !args[0]) {
+  if (positional.length === 0 || !positional[0]) {
     showUsage();
   }
 
-  const backupFile = args[0] as string;
-  const database = args[1] || "postgres";
+  // Directory dumps may be given with a trailing slash
+  const backupFile = (positional[0] as string).replace(/(.)\/+$/, "$1");
+  const database = positional[1] || "postgres";
 
   const pgHost = Bun.env.PGHOST || "localhost";
   const pgPort = Number.parseInt(Bun.env.PGPORT || "5432", 10);
@@ -96,6 +224,7 @@ function parseConfig(): RestoreConfig {
   return {
     backupFile,
     database,
+    jobs,
     pgHost,
     pgPort,
     pgUser,
@@ -107,13 +236,17 @@ function parseConfig(): RestoreConfig {
  * Guard: Verify backup file exists
  */
 async function verifyBackupFile(backupFile: string): Promise<void> {
-  const exists = await Bun.file(backupFile).exists();
-  if (!exists) {
+  if (!existsSync(backupFile)) {
     error(`Backup file not found: ${backupFile}`);
     process.stdout.write(`   Check file path: ls -la $(dirname "${backupFile}")\n`);
     process.exit(1);
   }
 
+  // Directory-format dumps are checked through their toc.dat
+  if (statSync(backupFile).isDirectory()) {
+    return;
+  }
+
   // Check if readable by attempting to read file
   try {
     const file = Bun.file(backupFile);
@@ -126,19 +259,41 @@ async function verifyBackupFile(backupFile: string): Promise<void> {
 }
 
 /**
- * Guard: Verify backup file format
+ * Guard: Detect and verify backup format
  */
-async function verifyBackupFormat(backupFile: string): Promise<void> {
-  if (backupFile.endsWith(".gz")) {
-    try {
-      await $`gzip -t ${backupFile}`.quiet();
-    } catch {
-      error("Backup file is corrupted (invalid gzip format)");
-      process.stdout.write(`   File: ${backupFile}\n`);
-      process.stdout.write(`   Try: gunzip -t ${backupFile}\n`);
-      process.exit(1);
+async function verifyBackupFormat(backupFile: string): Promise<DetectedDump> {
+  let dump: DetectedDump;
+  try {
+    const isDirectory = statSync(backupFile).isDirectory();
+    const header = isDirectory
+      ? new Uint8Array()
+      : new Uint8Array(await Bun.file(backupFile).slice(0, 8).arrayBuffer());
+    dump = detectDumpFormat(header, {
+      isDirectory,
+      hasTocFile: isDirectory && existsSync(`${backupFile}/toc.dat`),
+    });
+  } catch (err) {
+    error(getErrorMessage(err));
+    process.stdout.write(`   File: ${backupFile}\n`);
+    process.exit(1);
+  }
+
+  // Compressed plain dumps: test the stream; archives are checked when pg_restore reads them
+  if (dump.format === "plain" && dump.compression !== "none") {
+    const [tool] = DECOMPRESS_COMMANDS[dump.compression];
+    if (await commandExists(tool)) {
+      try {
+        await $`${tool} -t ${backupFile}`.quiet();
+      } catch {
+        error(`Backup file is corrupted (invalid ${dump.compression} format)`);
+        process.stdout.write(`   File: ${backupFile}\n`);
+        process.stdout.write(`   Try: ${tool} -t ${backupFile}\n`);
+        process.exit(1);
+      }
     }
   }
+
+  return dump;
 }
 
 /**
@@ -172,21 +327,41 @@ async function confirmRestore(database: string): Promise<void> {
 /**
  * Perform the restore operation
  */
-async function performRestore(config: RestoreConfig): Promise<void> {
+async function performRestore(config: RestoreConfig, dump: DetectedDump): Promise<void> {
   info("Restoring backup...");
 
+  const connection = ["-h", config.pgHost, "-p", config.pgPort.toString(), "-U", config.pgUser];
+
   try {
-    if (config.backupFile.endsWith(".gz")) {
-      process.stdout.write("Decompressing and restoring...\n");
-      await $`gunzip -c ${config.backupFile} | psql -h ${config.pgHost} -p ${config.pgPort.toString()} -U ${config.pgUser} -d ${config.database} --quiet`.quiet();
+    if (dump.format !== "plain") {
+      process.stdout.write(
+        `Restoring ${dump.format}-format archive with pg_restore${config.jobs > 1 ? ` (${config.jobs} jobs)` : ""}...\n`
+      );
+      const result =
+        await $`pg_restore ${connection} ${buildPgRestoreArgs(config.backupFile, config.database, config.jobs)}`
+          .nothrow()
+          .quiet();
+      // pg_restore exits 1 when it skipped failing statements (e.g. objects that already exist);
+      // the row-count verification below decides whether the data made it
+      if (result.exitCode !== 0) {
+        const stderr = result.stderr.toString();
+        if (!stderr.includes("errors ignored on restore")) {
+          process.stdout.write(stderr);
+          throw new Error(`pg_restore exited with code ${result.exitCode}`);
+        }
+        warning(stderr.trim().split("\n").pop() ?? "pg_restore reported errors");
+      }
+    } else if (dump.compression !== "none") {
+      process.stdout.write(`Decompressing (${dump.compression}) and restoring...\n`);
+      await $`${DECOMPRESS_COMMANDS[dump.compression]} ${config.backupFile} | psql ${connection} -d ${config.database} --quiet`.quiet();
     } else {
       process.stdout.write("Restoring uncompressed backup...\n");
-      await $`psql -h ${config.pgHost} -p ${config.pgPort.toString()} -U ${config.pgUser} -d ${config.database} -f ${config.backupFile} --quiet`.quiet();
+      await $`psql ${connection} -d ${config.database} -f ${config.backupFile} --quiet`.quiet();
     }
-  } catch {
+  } catch (err) {
     process.stdout.write("\n");
     error("Restore failed");
-    process.stdout.write("   Check psql output above for details\n");
+    process.stdout.write(`   ${getErrorMessage(err)}\n`);
     process.stdout.write("   Common issues:\n");
     process.stdout.write(
       `   - Database '${config.database}' does not exist: createdb -h ${config.pgHost} -U ${config.pgUser} ${config.database}\n`
@@ -199,36 +374,541 @@ async function performRestore(config: RestoreConfig): Promise<void> {
 }
 
 /**
- * Verify restore by showing database stats
+ * Verify restore against the backup's row-count manifest, or show database stats without one
  */
 async function verifyRestore(config: RestoreConfig): Promise<void> {
-  process.stdout.write("\nDatabase stats:\n");
+  const manifestFile = `${config.backupFile}${ROW_COUNT_SUFFIX}`;
+  if (!existsSync(manifestFile)) {
+    process.stdout.write(`\nNo ${manifestFile}; showing database stats instead of row counts:\n`);
+    try {
+      const stats =
+        await $`psql -h ${config.pgHost} -p ${config.pgPort.toString()} -U ${config.pgUser} -d ${config.database} -c "SELECT schemaname, tablename, pg_size_pretty(pg_total_relation_size(schemaname||'.'||tablename)) AS size FROM pg_tables WHERE schemaname NOT IN ('pg_catalog', 'information_schema') ORDER BY pg_total_relation_size(schemaname||'.'||tablename) DESC LIMIT 10;"`.text();
+      process.stdout.write(stats);
+    } catch {
+      process.stdout.write("(Could not retrieve table statistics)\n");
+    }
+    return;
+  }
+
+  info("Comparing row counts with the backup...");
+  const manifest = parseRowCountManifest(await Bun.file(manifestFile).text());
+  const output =
+    await $`psql -XAtq -v ON_ERROR_STOP=1 -h ${config.pgHost} -p ${config.pgPort.toString()} -U ${config.pgUser} -d ${config.database} -c ${ROW_COUNT_QUERY}`.text();
+  const comparison = compareRowCounts(manifest, parseRowCounts(output));
+
+  for (const { table, expected, actual } of comparison.mismatched) {
+    error(`${table}: ${actual} rows restored, ${expected} in the backup`);
+  }
+  for (const table of comparison.missing) {
+    error(`${table}: not restored`);
+  }
+  if (comparison.mismatched.length > 0 || comparison.missing.length > 0) {
+    throw new Error(
+      `Row counts differ from the backup for ${comparison.mismatched.length + comparison.missing.length} table(s)`
+    );
+  }
+  success(
+    `Row counts match the backup for ${comparison.matched} table(s) (taken ${manifest.createdAt})`
+  );
+}
 
+// ---------------------------------------------------------------------------
+// Point-in-time recovery from a pgBackRest repository (--pitr)
+// ---------------------------------------------------------------------------
+
+interface PitrConfig {
+  target: RecoveryTarget;
+  /** Host directory or Docker volume holding the repository */
+  repo: string;
+  repoIsVolume: boolean;
+  /** Repository path below the repo mount, e.g. "pgbackrest" for the primary stack's backup volume */
+  repoPath: string;
+  stanza: string;
+  set?: string;
+  targetVolume: string;
+  image: string;
+  database: string;
+  timeout: number;
+}
+
+/** Where the repository source is mounted (read-only) in the restore and recovery containers */
+const PITR_REPO_MOUNT = "/pgbackrest-repo";
+
+/** Mount point of the data volume, as in the compose stacks */
+const PITR_DATA_MOUNT = "/var/lib/postgresql";
+
+const HEALTHCHECK_SCRIPT = "/usr/local/bin/healthcheck.sh";
+
+function parsePitrArgs(args: string[]): PitrConfig {
+  let targetTime = "";
+  let repo = "";
+  const config = {
+    repoPath: "",
+    stanza: "main",
+    set: undefined as string | undefined,
+    targetVolume: `postgres_data_pitr_${new Date().toISOString().replace(/\D/g, "").slice(0, 14)}`,
+    image: Bun.env.POSTGRES_IMAGE || "ghcr.io/fluxo-kt/aza-pg:pg18",
+    database: "postgres",
+    timeout: 600,
+  };
+
+  const requireValue = (option: string, index: number): string => {
+    const value = args[index];
+    if (value === undefined || value === "") {
+      error(`Missing value for ${option} option`);
+      process.exit(1);
+    }
+    return value;
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case "--pitr":
+        targetTime = requireValue(arg, ++i);
+        break;
+
+      case "--repo":
+        repo = requireValue(arg, ++i);
+        break;
+
+      case "--repo-path":
+        config.repoPath = requireValue(arg, ++i).replace(/^\/+|\/+$/g, "");
+        break;
+
+      case "--stanza":
+        config.stanza = requireValue(arg, ++i);
+        if (!/^[A-Za-z0-9_-]+$/.test(config.stanza)) {
+          error(`Invalid stanza name: '${config.stanza}'`);
+          process.exit(1);
+        }
+        break;
+
+      case "--set":
+        config.set = requireValue(arg, ++i);
+        break;
+
+      case "--target-volume":
+        config.targetVolume = requireValue(arg, ++i);
+        break;
+
+      case "--image":
+        config.image = requireValue(arg, ++i);
+        break;
+
+      case "--database":
+        config.database = requireValue(arg, ++i);
+        break;
+
+      case "--timeout": {
+        const timeout = Number.parseInt(requireValue(arg, ++i), 10);
+        if (!Number.isInteger(timeout) || timeout < 1) {
+          error("--timeout must be a positive integer");
+          process.exit(1);
+        }
+        config.timeout = timeout;
+        break;
+      }
+
+      case "-h":
+      case "--help":
+        printHelp();
+        break;
+
+      default:
+        error(`Unknown option: ${arg}. Use -h for help.`);
+        process.exit(1);
+    }
+  }
+
+  if (!repo) {
+    error("--repo is required with --pitr. Use -h for help.");
+    process.exit(1);
+  }
+
+  let target: RecoveryTarget;
   try {
-    const stats =
-      await $`psql -h ${config.pgHost} -p ${config.pgPort.toString()} -U ${config.pgUser} -d ${config.database} -c "SELECT schemaname, tablename, pg_size_pretty(pg_total_relation_size(schemaname||'.'||tablename)) AS size FROM pg_tables WHERE schemaname NOT IN ('pg_catalog', 'information_schema') ORDER BY pg_total_relation_size(schemaname||'.'||tablename) DESC LIMIT 10;"`.text();
-    process.stdout.write(stats);
-  } catch {
-    process.stdout.write("(Could not retrieve table statistics)\n");
+    target = parseRecoveryTargetTime(targetTime);
+  } catch (err) {
+    error(getErrorMessage(err));
+    process.exit(1);
   }
+
+  // Paths are bind-mounted; anything else is taken as a volume name
+  const repoIsVolume = !repo.includes("/") && !repo.startsWith(".");
+  return {
+    ...config,
+    target,
+    repo: repoIsVolume ? repo : resolve(repo),
+    repoIsVolume,
+  };
+}
+
+/**
+ * Run a docker command, throwing with its output on failure
+ */
+async function docker(args: string[], failure: string): Promise<string> {
+  const result = await dockerRun(args);
+  if (!result.success) {
+    throw new Error(`${failure}: ${result.output}`);
+  }
+  return result.output;
+}
+
+/**
+ * pgBackRest settings shared by the restore and recovery containers
+ *
+ * The restore_command written by pgbackrest restore only carries --stanza, so the recovery
+ * container needs the repository and data paths from the environment as well.
+ */
+function pgbackrestEnv(config: PitrConfig, pgdata: string): string[] {
+  const repoPath = config.repoPath ? `${PITR_REPO_MOUNT}/${config.repoPath}` : PITR_REPO_MOUNT;
+  return [
+    "-e",
+    `PGBACKREST_STANZA=${config.stanza}`,
+    "-e",
+    `PGBACKREST_REPO1_PATH=${repoPath}`,
+    "-e",
+    `PGBACKREST_PG1_PATH=${pgdata}`,
+    "-e",
+    "PGBACKREST_LOG_LEVEL_CONSOLE=warn",
+    "-e",
+    "PGBACKREST_LOG_LEVEL_FILE=off",
+  ];
+}
+
+function pitrMounts(config: PitrConfig): string[] {
+  return [
+    "-v",
+    `${config.repo}:${PITR_REPO_MOUNT}:ro`,
+    "-v",
+    `${config.targetVolume}:${PITR_DATA_MOUNT}`,
+  ];
+}
+
+async function checkPitrPrerequisites(config: PitrConfig): Promise<void> {
+  info("Checking prerequisites...");
+
+  await checkCommand("docker");
+  await checkDockerDaemon();
+  await ensureImageAvailable(config.image);
+
+  if (config.repoIsVolume) {
+    await docker(["volume", "inspect", config.repo], `Volume '${config.repo}' does not exist`);
+  } else if (!existsSync(config.repo)) {
+    throw new Error(`Repository directory not found: ${config.repo}`);
+  }
+
+  const existing = await dockerRun(["volume", "inspect", config.targetVolume]);
+  if (existing.success) {
+    throw new Error(
+      `Volume '${config.targetVolume}' already exists. PITR restores into a fresh volume; choose another --target-volume.`
+    );
+  }
+
+  success("Prerequisites check passed");
+}
+
+/**
+ * Read PGDATA from the image's environment
+ */
+async function inspectPgdata(image: string): Promise<string> {
+  const pgdata = (
+    await docker(
+      ["run", "--rm", "--entrypoint", "sh", image, "-c", 'printf "%s" "$PGDATA"'],
+      `Failed to inspect image ${image}`
+    )
+  ).trim();
+  if (!pgdata.startsWith(`${PITR_DATA_MOUNT}/`)) {
+    throw new Error(`PGDATA of ${image} (${pgdata || "unset"}) is not below ${PITR_DATA_MOUNT}`);
+  }
+  return pgdata;
+}
+
+/**
+ * List the repository and pick the backup set for the recovery target
+ */
+async function selectPitrBackup(config: PitrConfig, pgdata: string): Promise<PgbackrestBackup> {
+  info(`Reading backups of stanza '${config.stanza}'...`);
+
+  const output = await docker(
+    [
+      "run",
+      "--rm",
+      "--network",
+      "none",
+      "-v",
+      `${config.repo}:${PITR_REPO_MOUNT}:ro`,
+      ...pgbackrestEnv(config, pgdata),
+      "--entrypoint",
+      "pgbackrest",
+      config.image,
+      "info",
+      "--output=json",
+    ],
+    "pgbackrest info failed"
+  );
+
+  const backups = parseBackupInfo(output, config.stanza);
+  const backup = selectBackupForTarget(backups, config.target, config.set);
+  success(
+    `Restoring ${backup.type} backup ${backup.label} (finished ${formatEpoch(backup.stop)}) of ${backups.length}`
+  );
+  return backup;
+}
+
+async function runPitrRestore(
+  config: PitrConfig,
+  pgdata: string,
+  backup: PgbackrestBackup
+): Promise<void> {
+  info(`Restoring into volume '${config.targetVolume}'...`);
+
+  await docker(["volume", "create", config.targetVolume], "Failed to create the target volume");
+
+  const restoreArgs = buildPitrRestoreArgs(config.target, backup);
+  await docker(
+    [
+      "run",
+      "--rm",
+      "--network",
+      "none",
+      ...pitrMounts(config),
+      ...pgbackrestEnv(config, pgdata),
+      "--entrypoint",
+      "sh",
+      config.image,
+      "-c",
+      'mkdir -p "$PGDATA" && chmod 700 "$PGDATA" && exec pgbackrest "$@"',
+      "sh",
+      ...restoreArgs,
+    ],
+    "pgbackrest restore failed"
+  );
+
+  success(`Backup restored to ${pgdata} with recovery_target_time '${config.target.value}'`);
+}
+
+/**
+ * Start the image on the restored volume and wait until recovery has promoted the cluster
+ */
+async function recoverToTarget(
+  config: PitrConfig,
+  pgdata: string,
+  container: string
+): Promise<void> {
+  info("Starting PostgreSQL in recovery mode...");
+
+  // No network: the recovered cluster must not be reachable (or archive) before it is verified
+  await docker(
+    [
+      "run",
+      "-d",
+      "--name",
+      container,
+      "--network",
+      "none",
+      ...pitrMounts(config),
+      ...pgbackrestEnv(config, pgdata),
+      config.image,
+    ],
+    "Failed to start the recovery container"
+  );
+
+  info(`Replaying WAL up to ${config.target.value} (timeout: ${config.timeout}s)...`);
+  const deadline = Date.now() + config.timeout * 1000;
+  while (Date.now() < deadline) {
+    const running = await dockerRun(["inspect", "-f", "{{.State.Running}}", container]);
+    if (running.output !== "true") {
+      const logs = await dockerRun(["logs", "--tail", "40", container]);
+      process.stdout.write(`${logs.output}\n`);
+      throw new Error(
+        "PostgreSQL exited during recovery (see the log above). A target after the end of the archived WAL fails with 'recovery ended before configured recovery target was reached'."
+      );
+    }
+
+    const inRecovery = await dockerRun([
+      "exec",
+      container,
+      "psql",
+      "-XAt",
+      "-U",
+      "postgres",
+      "-d",
+      "postgres",
+      "-c",
+      "SELECT pg_is_in_recovery()",
+    ]);
+    if (inRecovery.success && inRecovery.output === "f") {
+      success("Recovery target reached; cluster promoted");
+      return;
+    }
+
+    await Bun.sleep(2000);
+  }
+
+  throw new Error(
+    `Cluster was not promoted within ${config.timeout}s; check: docker logs ${container}`
+  );
+}
+
+/**
+ * Check pg_aza_status and the image healthcheck on the promoted cluster
+ */
+async function verifyPitr(config: PitrConfig, container: string): Promise<void> {
+  info("Verifying the recovered cluster...");
+
+  if (!(await waitForPostgres({ container, timeout: 60 }))) {
+    throw new Error(`PostgreSQL is not accepting connections; check: docker logs ${container}`);
+  }
+
+  const psql = (sql: string) =>
+    docker(
+      [
+        "exec",
+        container,
+        "psql",
+        "-XAt",
+        "-v",
+        "ON_ERROR_STOP=1",
+        "-U",
+        "postgres",
+        "-d",
+        config.database,
+        "-c",
+        sql,
+      ],
+      "Verification query failed"
+    );
+
+  const status = await psql(
+    "SELECT status || '|' || init_timestamp || '|' || coalesce(array_to_string(failed_extensions, ', '), '') FROM pg_aza_status ORDER BY init_timestamp DESC LIMIT 1"
+  );
+  const [state = "", initialized = "", failed = ""] = status.split("|");
+  if (state === "") {
+    throw new Error(`pg_aza_status in database '${config.database}' is empty`);
+  }
+  if (state === "failed") {
+    throw new Error(`pg_aza_status reports a failed initialization (${failed})`);
+  }
+  const statusLine = `pg_aza_status: ${state} (initialized ${initialized})`;
+  if (state === "partial") {
+    warning(`${statusLine}; failed extensions: ${failed}`);
+  } else {
+    success(statusLine);
+  }
+
+  const health = await dockerRun(["exec", container, HEALTHCHECK_SCRIPT]);
+  if (!health.success) {
+    throw new Error(`Healthcheck failed: ${health.output}`);
+  }
+  success("Healthcheck passed");
+
+  const replayed = await psql("SELECT coalesce(pg_last_xact_replay_timestamp()::text, '')");
+  info(`Last replayed transaction: ${replayed || "none (no WAL after the backup)"}`);
+}
+
+function showPitrNextSteps(config: PitrConfig): void {
+  process.stdout.write("\n");
+  success("=========================================");
+  success("POINT-IN-TIME RECOVERY COMPLETE");
+  success("=========================================");
+  process.stdout.write("\n");
+  process.stdout.write(`Recovered volume: ${config.targetVolume}\n`);
+  process.stdout.write("\n");
+  process.stdout.write("Next steps:\n");
+  process.stdout.write("\n");
+  process.stdout.write("1. Inspect the recovered data (e.g. to copy deleted rows back):\n");
+  process.stdout.write(
+    `   docker run -d --name pitr-inspect --network none -v ${config.targetVolume}:${PITR_DATA_MOUNT} ${config.image}\n`
+  );
+  process.stdout.write("   docker exec -it pitr-inspect psql -U postgres\n");
+  process.stdout.write("\n");
+  process.stdout.write("2. Or switch the stack to the recovered volume:\n");
+  process.stdout.write(
+    `   docker compose down && POSTGRES_DATA_VOLUME=${config.targetVolume} docker compose up -d\n`
+  );
+  process.stdout.write("\n");
+  warning(
+    "The recovered cluster starts a new timeline: take a full backup once it runs with BACKUP_SCHEDULE."
+  );
+  process.stdout.write("\n");
+}
+
+async function pitrMain(args: string[]): Promise<void> {
+  const config = parsePitrArgs(args);
+
+  section("PostgreSQL Point-in-Time Recovery");
+  process.stdout.write(`Target time: ${config.target.value}\n`);
+  process.stdout.write(
+    `Repository:  ${config.repo}${config.repoPath ? `/${config.repoPath}` : ""} (stanza ${config.stanza})\n`
+  );
+  process.stdout.write(`New volume:  ${config.targetVolume}\n`);
+  process.stdout.write(`Image:       ${config.image}\n`);
+  process.stdout.write("\n");
+
+  await checkPitrPrerequisites(config);
+  const pgdata = await inspectPgdata(config.image);
+  const backup = await selectPitrBackup(config, pgdata);
+
+  const container = generateUniqueContainerName("aza-pg-pitr");
+  let promoted = false;
+  try {
+    await runPitrRestore(config, pgdata, backup);
+    await recoverToTarget(config, pgdata, container);
+    promoted = true;
+    await verifyPitr(config, container);
+  } catch (err) {
+    // A promoted cluster is kept for inspection even if verification fails
+    if (promoted) {
+      warning(`Keeping recovered volume '${config.targetVolume}' for inspection`);
+    } else {
+      warning(`Removing incomplete volume '${config.targetVolume}'`);
+    }
+    throw err;
+  } finally {
+    await dockerRun(["stop", "-t", "60", container]);
+    await cleanupContainer(container);
+    if (!promoted) {
+      await dockerRun(["volume", "rm", "-f", config.targetVolume]);
+    }
+  }
+
+  showPitrNextSteps(config);
 }
 
 /**
  * Main function
  */
 async function main(): Promise<void> {
-  await checkRequiredCommands();
+  const args = Bun.argv.slice(2);
+  if (args.includes("-h") || args.includes("--help")) {
+    printHelp();
+  }
+  if (args.includes("--pitr")) {
+    await pitrMain(args);
+    return;
+  }
 
-  const config = parseConfig();
+  const config = parseConfig(args);
 
   await verifyBackupFile(config.backupFile);
-  await verifyBackupFormat(config.backupFile);
+  const dump = await verifyBackupFormat(config.backupFile);
+  if (dump.format === "plain" && config.jobs > 1) {
+    error("--jobs needs a custom or directory-format dump (plain SQL restores serially)");
+    process.exit(1);
+  }
+  await checkRequiredCommands(dump);
   checkPgPassword(config);
 
   process.stdout.write("========================================\n");
   process.stdout.write("PostgreSQL Restore\n");
   process.stdout.write("========================================\n");
   process.stdout.write(`Backup file: ${config.backupFile}\n`);
+  process.stdout.write(
+    `Format: ${dump.format}${dump.compression !== "none" ? ` (${dump.compression})` : ""}\n`
+  );
   process.stdout.write(`Database: ${config.database}\n`);
   process.stdout.write(`Host: ${config.pgHost}:${config.pgPort}\n`);
   process.stdout.write(`User: ${config.pgUser}\n`);
@@ -257,7 +937,7 @@ async function main(): Promise<void> {
 
   await confirmRestore(config.database);
 
-  await performRestore(config);
+  await performRestore(config, dump);
 
   process.stdout.write("\n");
   success("Restore complete!");
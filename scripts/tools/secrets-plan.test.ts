@@ -0,0 +1,122 @@
+import { describe, expect, test } from "bun:test";
+
+import { generateSecret, parseEnvFile, parseStackName, planSecrets } from "./secrets-plan";
+
+const sources = (overrides: Partial<Parameters<typeof planSecrets>[1]> = {}) => ({
+  existing: new Set<string>(),
+  force: false,
+  ...overrides,
+});
+
+describe("parseStackName", () => {
+  test("accepts the four stacks only", () => {
+    expect(parseStackName("replica")).toBe("replica");
+    expect(() => parseStackName("cluster")).toThrow("Unknown stack 'cluster'");
+  });
+});
+
+describe("generateSecret", () => {
+  test("returns 43 URL-safe characters and differs each time", () => {
+    const secret = generateSecret();
+    expect(secret).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(generateSecret()).not.toBe(secret);
+  });
+});
+
+describe("parseEnvFile", () => {
+  test("reads plain, exported, quoted and commented values", () => {
+    const vars = parseEnvFile(
+      [
+        "# comment",
+        "POSTGRES_PASSWORD=plain_value # trailing comment",
+        "export PGBOUNCER_AUTH_PASS='p@ss:w#rd'",
+        'PG_REPLICATION_PASSWORD="with \\"quotes\\" and spaces"',
+        "EMPTY=",
+        "not a variable",
+        "",
+      ].join("\n")
+    );
+    expect(Object.fromEntries(vars)).toEqual({
+      POSTGRES_PASSWORD: "plain_value",
+      PGBOUNCER_AUTH_PASS: "p@ss:w#rd",
+      PG_REPLICATION_PASSWORD: 'with "quotes" and spaces',
+      EMPTY: "",
+    });
+  });
+});
+
+describe("planSecrets", () => {
+  const counter = () => {
+    let n = 0;
+    return () => `generated-${++n}`;
+  };
+
+  test("generates every primary secret in a new directory", () => {
+    const plan = planSecrets("primary", sources(), counter());
+    expect(plan.map(({ spec, source, value }) => [spec.name, source, value])).toEqual([
+      ["postgres_password", "generated", "generated-1"],
+      ["replication_password", "generated", "generated-2"],
+      ["pgbouncer_auth_password", "generated", "generated-3"],
+    ]);
+  });
+
+  test("keeps existing files unless forced", () => {
+    const existing = new Set(["postgres_password"]);
+    const [kept] = planSecrets("single", sources({ existing }), counter());
+    expect(kept?.source).toBe("kept");
+    expect(kept?.value).toBeUndefined();
+    expect(planSecrets("single", sources({ existing, force: true }), counter())[0]).toMatchObject({
+      source: "generated",
+    });
+  });
+
+  test("migrates .env values before copying or generating", () => {
+    const plan = planSecrets(
+      "primary",
+      sources({
+        env: new Map([
+          ["POSTGRES_PASSWORD", "from-env"],
+          ["PG_REPLICATION_PASSWORD", ""],
+        ]),
+        copyFrom: new Map([
+          ["postgres_password", "copied-postgres"],
+          ["replication_password", "copied-replication"],
+        ]),
+      }),
+      counter()
+    );
+    expect(plan.map(({ source, value }) => [source, value])).toEqual([
+      ["env", "from-env"],
+      ["copied", "copied-replication"],
+      ["generated", "generated-1"],
+    ]);
+  });
+
+  test("replicas copy the primary's secrets and never generate them", () => {
+    expect(() => planSecrets("replica", sources(), counter())).toThrow(
+      "postgres_password must match the primary's"
+    );
+    const plan = planSecrets(
+      "replica",
+      sources({
+        copyFrom: new Map([
+          ["postgres_password", "pg"],
+          ["replication_password", "repl"],
+          ["pgbouncer_auth_password", "ignored"],
+        ]),
+      })
+    );
+    expect(plan.map(({ spec, value }) => [spec.name, value])).toEqual([
+      ["postgres_password", "pg"],
+      ["replication_password", "repl"],
+    ]);
+  });
+
+  test("optional secrets are written empty", () => {
+    const plan = planSecrets("logical", sources(), counter());
+    expect(plan.map(({ spec, source, value }) => [spec.name, source, value])).toEqual([
+      ["postgres_password", "generated", "generated-1"],
+      ["replication_password", "empty", ""],
+    ]);
+  });
+});
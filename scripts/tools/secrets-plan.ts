@@ -0,0 +1,154 @@
+/**
+ * Docker secrets of the compose stacks, for generate-secrets.ts
+ *
+ * Pure logic: which secret files each stack's compose.yml mounts, the variable each one
+ * replaces (the container gets <VARIABLE>_FILE=/run/secrets/<name>), and where each value comes
+ * from: an existing file, an .env file being migrated, another stack's secrets, or a new random
+ * value.
+ */
+
+import { randomBytes } from "node:crypto";
+
+export const STACK_NAMES = ["primary", "replica", "single", "logical"] as const;
+
+export type StackName = (typeof STACK_NAMES)[number];
+
+export interface SecretSpec {
+  /** File name in the secrets directory and Docker secret name */
+  name: string;
+  /** Variable the secret replaces */
+  envVar: string;
+  /** Written empty instead of generated: the feature it enables stays off */
+  optional?: boolean;
+  /** Must equal the primary's value, so it is never generated */
+  fromPrimary?: boolean;
+}
+
+export type SecretSource = "kept" | "env" | "copied" | "generated" | "empty";
+
+export interface SecretAction {
+  spec: SecretSpec;
+  source: SecretSource;
+  /** Value to write; undefined when the existing file is kept */
+  value?: string;
+}
+
+export interface SecretSources {
+  /** Secret files already in the target directory */
+  existing: ReadonlySet<string>;
+  /** Variables of an .env file being migrated */
+  env?: ReadonlyMap<string, string>;
+  /** Secret files of another stack, by name */
+  copyFrom?: ReadonlyMap<string, string>;
+  /** Replace existing files */
+  force: boolean;
+}
+
+const POSTGRES_PASSWORD: SecretSpec = { name: "postgres_password", envVar: "POSTGRES_PASSWORD" };
+const REPLICATION_PASSWORD: SecretSpec = {
+  name: "replication_password",
+  envVar: "PG_REPLICATION_PASSWORD",
+};
+const PGBOUNCER_AUTH_PASSWORD: SecretSpec = {
+  name: "pgbouncer_auth_password",
+  envVar: "PGBOUNCER_AUTH_PASS",
+};
+
+/** Secrets mounted by each stack's compose.yml */
+export const STACK_SECRETS: Record<StackName, readonly SecretSpec[]> = {
+  primary: [POSTGRES_PASSWORD, REPLICATION_PASSWORD, PGBOUNCER_AUTH_PASSWORD],
+  // A replica is a copy of the primary's cluster: same superuser and replication passwords
+  replica: [
+    { ...POSTGRES_PASSWORD, fromPrimary: true },
+    { ...REPLICATION_PASSWORD, fromPrimary: true },
+  ],
+  single: [POSTGRES_PASSWORD],
+  // The replicator role is optional on a logical subscriber (an empty secret skips it)
+  logical: [POSTGRES_PASSWORD, { ...REPLICATION_PASSWORD, optional: true }],
+};
+
+/**
+ * @throws {Error} If the name is not a stack
+ */
+export function parseStackName(value: string): StackName {
+  if (!(STACK_NAMES as readonly string[]).includes(value)) {
+    throw new Error(`Unknown stack '${value}' (expected ${STACK_NAMES.join(", ")})`);
+  }
+  return value as StackName;
+}
+
+/**
+ * Random secret: 32 bytes as base64url (43 characters, no quoting or escaping needed)
+ */
+export function generateSecret(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+/**
+ * Parse the variables of an .env file (KEY=value lines, as Docker Compose reads them)
+ *
+ * Supports `export`, single and double quotes, and comments on their own line or after an
+ * unquoted value.
+ */
+export function parseEnvFile(text: string): Map<string, string> {
+  const vars = new Map<string, string>();
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim().replace(/^export\s+/, "");
+    if (line === "" || line.startsWith("#")) {
+      continue;
+    }
+    const separator = line.indexOf("=");
+    const key = line.slice(0, separator).trim();
+    if (separator < 1 || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(key)) {
+      continue;
+    }
+    const value = line.slice(separator + 1).trim();
+    const singleQuoted = /^'([^']*)'/.exec(value);
+    const doubleQuoted = /^"((?:[^"\\]|\\.)*)"/.exec(value);
+    if (singleQuoted) {
+      vars.set(key, singleQuoted[1]!);
+    } else if (doubleQuoted) {
+      vars.set(key, doubleQuoted[1]!.replace(/\\n/g, "\n").replace(/\\(.)/g, "$1"));
+    } else {
+      vars.set(key, value.replace(/\s+#.*$/, ""));
+    }
+  }
+  return vars;
+}
+
+/**
+ * Decide where each of the stack's secrets comes from
+ *
+ * Order: existing file (unless force), migrated .env variable, another stack's secret, then a
+ * generated value. Secrets that must match the primary are never generated.
+ *
+ * @throws {Error} If a secret that must match the primary has no source
+ */
+export function planSecrets(
+  stack: StackName,
+  sources: SecretSources,
+  generate: () => string = generateSecret
+): SecretAction[] {
+  return STACK_SECRETS[stack].map((spec): SecretAction => {
+    if (sources.existing.has(spec.name) && !sources.force) {
+      return { spec, source: "kept" };
+    }
+    const fromEnv = sources.env?.get(spec.envVar);
+    if (fromEnv) {
+      return { spec, source: "env", value: fromEnv };
+    }
+    const copied = sources.copyFrom?.get(spec.name);
+    if (copied !== undefined) {
+      return { spec, source: "copied", value: copied };
+    }
+    if (spec.fromPrimary) {
+      throw new Error(
+        `${spec.name} must match the primary's: use --from-dir with the primary's secrets or --from-env with its .env`
+      );
+    }
+    if (spec.optional) {
+      return { spec, source: "empty", value: "" };
+    }
+    return { spec, source: "generated", value: generate() };
+  });
+}
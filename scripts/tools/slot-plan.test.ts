@@ -0,0 +1,51 @@
+import { describe, expect, test } from "bun:test";
+
+import { parseSlotNames, parseSlots, planSlotSync, type SlotInfo } from "./slot-plan";
+
+describe("parseSlotNames", () => {
+  test("accepts commas and spaces and drops duplicates", () => {
+    expect(parseSlotNames("r1,r2 r3, r1")).toEqual(["r1", "r2", "r3"]);
+  });
+
+  test("rejects empty lists and invalid names", () => {
+    expect(() => parseSlotNames(" , ")).toThrow("Slot list is empty");
+    expect(() => parseSlotNames("r1,r-2")).toThrow("Invalid replication slot name 'r-2'");
+  });
+});
+
+describe("parseSlots", () => {
+  test("reads type, activity and retained WAL", () => {
+    expect(parseSlots("r1|physical|t|0\nr2|physical|f|16777216\ncdc|logical|f|\n")).toEqual([
+      { name: "r1", type: "physical", active: true, retainedBytes: 0 },
+      { name: "r2", type: "physical", active: false, retainedBytes: 16777216 },
+      { name: "cdc", type: "logical", active: false, retainedBytes: undefined },
+    ]);
+    expect(parseSlots("")).toEqual([]);
+    expect(() => parseSlots("psql: error")).toThrow("Unexpected pg_replication_slots row");
+  });
+});
+
+describe("planSlotSync", () => {
+  const SLOTS: SlotInfo[] = [
+    { name: "r1", type: "physical", active: true },
+    { name: "r2", type: "physical", active: false },
+    { name: "r3", type: "physical", active: true },
+    { name: "cdc", type: "logical", active: false },
+  ];
+
+  test("creates missing slots and leaves the rest without prune", () => {
+    expect(planSlotSync(SLOTS, ["r1", "r4"], false)).toEqual({
+      create: ["r4"],
+      drop: [],
+      keptActive: [],
+    });
+  });
+
+  test("prunes inactive unlisted physical slots only", () => {
+    expect(planSlotSync(SLOTS, ["r1"], true)).toEqual({
+      create: [],
+      drop: ["r2"],
+      keptActive: ["r3"],
+    });
+  });
+});
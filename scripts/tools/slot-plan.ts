@@ -0,0 +1,89 @@
+/**
+ * Replication slot reconciliation for replication-slots.ts
+ *
+ * Pure logic: parses slot lists and pg_replication_slots output and plans which physical slots
+ * to create and which to drop so a server keeps exactly one slot per replica.
+ */
+
+export interface SlotInfo {
+  name: string;
+  type: "physical" | "logical";
+  active: boolean;
+  /** WAL the slot holds back (bytes); undefined when the slot never reserved WAL */
+  retainedBytes?: number;
+}
+
+export interface SlotPlan {
+  create: string[];
+  drop: string[];
+  /** Unlisted physical slots a replica still streams through; never dropped */
+  keptActive: string[];
+}
+
+/**
+ * Slots on the server as "name|type|active|retained_bytes"
+ *
+ * Retained WAL is measured against the replay position on a standby (cascading upstream).
+ */
+export const SLOTS_QUERY = `SELECT slot_name || '|' || slot_type || '|' || active || '|' ||
+  coalesce(pg_wal_lsn_diff(
+    CASE WHEN pg_is_in_recovery() THEN pg_last_wal_replay_lsn() ELSE pg_current_wal_lsn() END,
+    restart_lsn)::bigint::text, '')
+FROM pg_replication_slots ORDER BY slot_name`;
+
+/**
+ * Parse a comma- or space-separated slot list (the format of REPLICATION_SLOT_NAMES)
+ *
+ * @throws {Error} If a name is not a valid slot name or the list is empty
+ */
+export function parseSlotNames(value: string): string[] {
+  const names = [...new Set(value.split(/[\s,]+/).filter(Boolean))];
+  if (names.length === 0) {
+    throw new Error("Slot list is empty");
+  }
+  const invalid = names.find((name) => !/^[a-zA-Z0-9_]+$/.test(name));
+  if (invalid !== undefined) {
+    throw new Error(
+      `Invalid replication slot name '${invalid}' (alphanumeric and underscore only)`
+    );
+  }
+  return names;
+}
+
+/**
+ * Parse SLOTS_QUERY output
+ */
+export function parseSlots(output: string): SlotInfo[] {
+  return output
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .map((line) => {
+      const [name = "", type, active, retained = ""] = line.trim().split("|");
+      if (!name || (type !== "physical" && type !== "logical") || !/^[tf]$/.test(active ?? "")) {
+        throw new Error(`Unexpected pg_replication_slots row: '${line}'`);
+      }
+      return {
+        name,
+        type,
+        active: active === "t",
+        retainedBytes: /^-?\d+$/.test(retained) ? Number(retained) : undefined,
+      };
+    });
+}
+
+/**
+ * Plan the changes that leave `keep` as the server's physical slots
+ *
+ * Missing slots are created. With prune, inactive physical slots outside `keep` are dropped;
+ * active ones are reported instead. Logical slots (CDC) are never touched.
+ */
+export function planSlotSync(existing: SlotInfo[], keep: string[], prune: boolean): SlotPlan {
+  const existingNames = new Set(existing.map((slot) => slot.name));
+  const unlisted = existing.filter((slot) => slot.type === "physical" && !keep.includes(slot.name));
+
+  return {
+    create: keep.filter((name) => !existingNames.has(name)),
+    drop: prune ? unlisted.filter((slot) => !slot.active).map((slot) => slot.name) : [],
+    keptActive: prune ? unlisted.filter((slot) => slot.active).map((slot) => slot.name) : [],
+  };
+}
@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  buildCertSpecs,
+  buildExtensions,
+  clientCertSpec,
+  parseHostList,
+  POSTGRES_HOSTS,
+} from "./tls-plan";
+
+describe("parseHostList", () => {
+  test("splits on commas and spaces and drops duplicates", () => {
+    expect(parseHostList("db.example.com, 10.0.0.5 db.example.com")).toEqual([
+      "db.example.com",
+      "10.0.0.5",
+    ]);
+  });
+
+  test("rejects names that cannot be a subjectAltName", () => {
+    expect(() => parseHostList("db_1/primary")).toThrow("Invalid hostname 'db_1/primary'");
+  });
+});
+
+describe("buildCertSpecs", () => {
+  test("adds extra hosts to both server certificates", () => {
+    const specs = buildCertSpecs(["db.example.com"]);
+    expect(specs.map((spec) => spec.name)).toEqual([
+      "server",
+      "pgbouncer",
+      "replicator",
+      "exporter",
+    ]);
+    expect(specs[0]!.hosts).toEqual([...POSTGRES_HOSTS, "db.example.com"]);
+    expect(specs[1]!.hosts).toContain("db.example.com");
+    expect(specs[2]!.hosts).toEqual([]);
+  });
+
+  test("keeps keys private except the one PgBouncer reads unprivileged", () => {
+    const modes = Object.fromEntries(buildCertSpecs([]).map((spec) => [spec.name, spec.keyMode]));
+    expect(modes).toEqual({ server: 0o600, pgbouncer: 0o644, replicator: 0o600, exporter: 0o600 });
+  });
+});
+
+describe("buildExtensions", () => {
+  test("lists DNS and IP subjectAltNames for server certificates", () => {
+    const [, pgbouncer] = buildCertSpecs([]);
+    expect(buildExtensions(pgbouncer!)).toBe(
+      [
+        "basicConstraints = critical, CA:FALSE",
+        "keyUsage = critical, digitalSignature, keyEncipherment",
+        "extendedKeyUsage = serverAuth",
+        "subjectAltName = DNS:pgbouncer, DNS:aza-pg-pgbouncer-primary, DNS:localhost, IP:127.0.0.1",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("marks client certificates for client auth without names", () => {
+    const replicator = buildCertSpecs([]).find((spec) => spec.name === "replicator")!;
+    const extensions = buildExtensions(replicator);
+    expect(extensions).toContain("extendedKeyUsage = clientAuth");
+    expect(extensions).not.toContain("subjectAltName");
+  });
+});
+
+describe("clientCertSpec", () => {
+  test("uses the role name as file stem and CN", () => {
+    const spec = clientCertSpec("app_reader");
+    expect(spec).toMatchObject({
+      name: "app_reader",
+      commonName: "app_reader",
+      usage: "client",
+      keyMode: 0o600,
+    });
+    expect(buildExtensions(spec)).toContain("extendedKeyUsage = clientAuth");
+  });
+
+  test("rejects role names pg_hba.conf would need quoted", () => {
+    expect(() => clientCertSpec("App-Reader")).toThrow("Invalid role name 'App-Reader'");
+    expect(() => clientCertSpec("../ca")).toThrow("Invalid role name");
+  });
+});
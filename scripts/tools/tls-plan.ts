@@ -0,0 +1,164 @@
+/**
+ * Certificate layout for TLS mode (POSTGRES_TLS=require)
+ *
+ * Pure logic for generate-ssl-certs.ts: which certificates the local CA issues, their names and
+ * key permissions, and the OpenSSL extension files that carry the subjectAltNames verify-full
+ * checks against.
+ */
+
+export type CertUsage = "server" | "client";
+
+export interface CertSpec {
+  /** File stem in the certificate directory (<name>.crt / <name>.key) */
+  name: string;
+  commonName: string;
+  usage: CertUsage;
+  /** DNS names and IP addresses for the subjectAltName extension (server certs only) */
+  hosts: string[];
+  /**
+   * Key file mode. PostgreSQL and libpq refuse group/world-readable keys, so their keys are 0600
+   * and copied into place by the container. PgBouncer runs unprivileged and cannot copy a key it
+   * cannot read, so its key stays world-readable inside the certificate directory.
+   */
+  keyMode: number;
+  description: string;
+}
+
+/** Compose service and default container names the PostgreSQL stacks are reached by */
+export const POSTGRES_HOSTS = [
+  "postgres",
+  "postgres-replica",
+  "postgres-logical",
+  "aza-pg-postgres-primary",
+  "aza-pg-postgres-replica",
+  "aza-pg-postgres-single",
+  "aza-pg-postgres-logical",
+  "localhost",
+  "127.0.0.1",
+] as const;
+
+export const PGBOUNCER_HOSTS = [
+  "pgbouncer",
+  "aza-pg-pgbouncer-primary",
+  "localhost",
+  "127.0.0.1",
+] as const;
+
+const HOST_PATTERN = /^[A-Za-z0-9]([A-Za-z0-9.-]*[A-Za-z0-9])?$/;
+const IPV4_PATTERN = /^\d{1,3}(\.\d{1,3}){3}$/;
+const ROLE_PATTERN = /^[a-z_][a-z0-9_]{0,62}$/;
+
+/**
+ * Parse a comma- or space-separated list of extra server hostnames
+ *
+ * @throws {Error} If a name is not a plain hostname or IPv4 address
+ */
+export function parseHostList(input: string): string[] {
+  const hosts = input.split(/[\s,]+/).filter((host) => host.length > 0);
+  for (const host of hosts) {
+    if (!HOST_PATTERN.test(host)) {
+      throw new Error(`Invalid hostname '${host}' (expected a DNS name or IPv4 address)`);
+    }
+  }
+  return [...new Set(hosts)];
+}
+
+/**
+ * Certificates issued by the local CA
+ *
+ * The PostgreSQL certificate is shared by the primary, replicas and the logical stack so any of
+ * them can be promoted or rejoined without reissuing. The replicator and exporter client
+ * certificates identify those services to the server; their CNs are mapped to roles in the
+ * generated pg_ident.conf.
+ */
+export function buildCertSpecs(extraHosts: string[]): CertSpec[] {
+  const withExtra = (hosts: readonly string[]) => [...new Set([...hosts, ...extraHosts])];
+  return [
+    {
+      name: "server",
+      commonName: "postgres",
+      usage: "server",
+      hosts: withExtra(POSTGRES_HOSTS),
+      keyMode: 0o600,
+      description: "PostgreSQL server (primary, replicas, logical)",
+    },
+    {
+      name: "pgbouncer",
+      commonName: "pgbouncer",
+      usage: "server",
+      hosts: withExtra(PGBOUNCER_HOSTS),
+      keyMode: 0o644,
+      description: "PgBouncer client-facing listener",
+    },
+    {
+      name: "replicator",
+      commonName: "replicator",
+      usage: "client",
+      hosts: [],
+      keyMode: 0o600,
+      description: "Streaming replication client",
+    },
+    {
+      name: "exporter",
+      commonName: "exporter",
+      usage: "client",
+      hosts: [],
+      keyMode: 0o600,
+      description: "postgres_exporter client",
+    },
+  ];
+}
+
+/**
+ * Client certificate for one role, issued by issue-client-cert.ts
+ *
+ * The CN is the role name, which is what a `cert` pg_hba rule compares against without a map.
+ *
+ * @throws {Error} If the role name would need quoting in pg_hba.conf or pg_ident.conf
+ */
+export function clientCertSpec(role: string): CertSpec {
+  if (!ROLE_PATTERN.test(role)) {
+    throw new Error(
+      `Invalid role name '${role}' (lowercase letters, digits and _, max 63 characters)`
+    );
+  }
+  return {
+    name: role,
+    commonName: role,
+    usage: "client",
+    hosts: [],
+    keyMode: 0o600,
+    description: `Client certificate for role ${role}`,
+  };
+}
+
+/**
+ * OpenSSL extension file for `openssl x509 -req -extfile`
+ */
+export function buildExtensions(spec: CertSpec): string {
+  const lines = [
+    "basicConstraints = critical, CA:FALSE",
+    "keyUsage = critical, digitalSignature, keyEncipherment",
+    `extendedKeyUsage = ${spec.usage === "server" ? "serverAuth" : "clientAuth"}`,
+  ];
+  if (spec.hosts.length > 0) {
+    const names = spec.hosts.map((host) =>
+      IPV4_PATTERN.test(host) ? `IP:${host}` : `DNS:${host}`
+    );
+    lines.push(`subjectAltName = ${names.join(", ")}`);
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/** Minimal `openssl req -config` for the self-signed CA certificate */
+export const CA_CONFIG = [
+  "[req]",
+  "distinguished_name = dn",
+  "x509_extensions = v3_ca",
+  "[dn]",
+  "[v3_ca]",
+  "basicConstraints = critical, CA:TRUE, pathlen:0",
+  "keyUsage = critical, keyCertSign, cRLSign",
+  "subjectKeyIdentifier = hash",
+  "",
+].join("\n");
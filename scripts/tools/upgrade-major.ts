@@ -0,0 +1,872 @@
+#!/usr/bin/env bun
+/**
+ * Upgrade a PostgreSQL data volume to a new major version with pg_upgrade --link
+ *
+ * USAGE:
+ *   bun scripts/tools/upgrade-major.ts --volume NAME --old-image IMAGE --new-image IMAGE [OPTIONS]
+ *
+ * OPTIONS:
+ *   --volume NAME           Docker volume holding the old cluster (required)
+ *   --old-image IMAGE       Image the cluster currently runs on, e.g. ghcr.io/fluxo-kt/aza-pg:17 (required)
+ *   --new-image IMAGE       Target image, e.g. ghcr.io/fluxo-kt/aza-pg:18 (required)
+ *   --mount-path PATH       Where the volume is mounted in the containers (default: /var/lib/postgresql)
+ *   --superuser NAME        Role used to connect to the old cluster (default: $POSTGRES_USER or postgres)
+ *   --database NAME         Database holding pg_aza_status, i.e. POSTGRES_DB (default: postgres)
+ *   --preload LIBS          shared_preload_libraries for the pg_upgrade servers
+ *                           (default: the old cluster's effective value)
+ *   --jobs N                pg_upgrade --jobs (default: 1)
+ *   --check                 Preflight and pg_upgrade --check only; the volume is left untouched
+ *   -y, --yes               Skip confirmation prompt
+ *   -h, --help              Show this help message
+ *
+ * DESCRIPTION:
+ *   1. Starts the old image on the volume and records installed extensions (every database),
+ *      locale/encoding, checksum and preload settings
+ *   2. Compares the extensions against the new image's extensions.manifest.json and extension
+ *      directory: disabled, missing and non-updatable extensions block the upgrade
+ *   3. Copies the old major's binaries into temporary volumes, initializes the new cluster with
+ *      matching settings and runs pg_upgrade --check, then pg_upgrade --link
+ *   4. Starts the new image, runs ALTER EXTENSION ... UPDATE where the image ships a newer
+ *      version, re-runs the 01-extensions.sql status tracking and refreshes planner statistics
+ *
+ * EXAMPLES:
+ *   # Dry run: preflight + pg_upgrade --check
+ *   bun scripts/tools/upgrade-major.ts --volume aza-pg_postgres_data \
+ *     --old-image ghcr.io/fluxo-kt/aza-pg:17 --new-image ghcr.io/fluxo-kt/aza-pg:18 --check
+ *
+ *   # Upgrade without confirmation
+ *   bun scripts/tools/upgrade-major.ts --volume aza-pg_postgres_data \
+ *     --old-image ghcr.io/fluxo-kt/aza-pg:17 --new-image ghcr.io/fluxo-kt/aza-pg:18 -y
+ *
+ * PREREQUISITES:
+ *   - Docker installed and running
+ *   - The stack using the volume is stopped (docker compose down)
+ *   - A recent backup (bun scripts/tools/backup-postgres.ts)
+ *
+ * WARNINGS:
+ *   - --link shares data files between clusters: once the new cluster has been started, the
+ *     old one can no longer be used. Rolling back means restoring the backup.
+ *
+ * EXIT CODES:
+ *   0 - Upgrade (or check) completed
+ *   1 - Invalid arguments, preflight failure or upgrade failure
+ */
+
+import { getErrorMessage } from "../utils/errors";
+import {
+  checkCommand,
+  checkDockerDaemon,
+  cleanupContainer,
+  dockerRun,
+  dockerRunLive,
+  ensureImageAvailable,
+  generateUniqueContainerName,
+  waitForPostgres,
+} from "../utils/docker";
+import { error, info, section, success, warning } from "../utils/logger";
+import {
+  TARGET_INVENTORY_SCRIPT,
+  buildInitdbArgs,
+  buildUpgradeScript,
+  checkExtensionCompatibility,
+  findMissingPreloadLibraries,
+  isBlocking,
+  parsePreloadLibraries,
+  parseTargetInventory,
+  type ClusterSettings,
+  type ExtensionCheck,
+  type InstalledExtension,
+  type TargetInventory,
+  type TargetManifestEntry,
+} from "./upgrade-preflight";
+
+interface UpgradeConfig {
+  volume: string;
+  oldImage: string;
+  newImage: string;
+  mountPath: string;
+  superuser: string;
+  database: string;
+  preload?: string[];
+  jobs: number;
+  checkOnly: boolean;
+  skipConfirmation: boolean;
+}
+
+interface ImageInfo {
+  image: string;
+  pgMajor: string;
+  pgdata: string;
+}
+
+interface OldCluster {
+  settings: ClusterSettings;
+  installed: InstalledExtension[];
+  preload: string[];
+}
+
+/** hba file written inside the upgrade container; both temporary servers listen on a private socket only */
+const UPGRADE_HBA_FILE = "/tmp/pg_upgrade_hba.conf";
+
+/** Config files pg_upgrade leaves behind in the old data directory */
+const CARRIED_CONFIG_FILES = ["pg_hba.conf", "pg_ident.conf", "postgresql.auto.conf"];
+
+const STATUS_TRACKING_SCRIPT = "/docker-entrypoint-initdb.d/01-extensions.sql";
+
+function printHelp(): void {
+  process.stdout.write(`
+Upgrade a PostgreSQL data volume to a new major version with pg_upgrade --link
+
+USAGE:
+  bun scripts/tools/upgrade-major.ts --volume NAME --old-image IMAGE --new-image IMAGE [OPTIONS]
+
+OPTIONS:
+  --volume NAME           Docker volume holding the old cluster (required)
+  --old-image IMAGE       Image the cluster currently runs on (required)
+  --new-image IMAGE       Target image (required)
+  --mount-path PATH       Where the volume is mounted in the containers (default: /var/lib/postgresql)
+  --superuser NAME        Role used to connect to the old cluster (default: $POSTGRES_USER or postgres)
+  --database NAME         Database holding pg_aza_status, i.e. POSTGRES_DB (default: postgres)
+  --preload LIBS          shared_preload_libraries for the pg_upgrade servers
+                          (default: the old cluster's effective value)
+  --jobs N                pg_upgrade --jobs (default: 1)
+  --check                 Preflight and pg_upgrade --check only; the volume is left untouched
+  -y, --yes               Skip confirmation prompt
+  -h, --help              Show this help message
+
+EXAMPLES:
+  # Dry run: preflight + pg_upgrade --check
+  bun scripts/tools/upgrade-major.ts --volume aza-pg_postgres_data \\
+    --old-image ghcr.io/fluxo-kt/aza-pg:17 --new-image ghcr.io/fluxo-kt/aza-pg:18 --check
+
+  # Upgrade without confirmation
+  bun scripts/tools/upgrade-major.ts --volume aza-pg_postgres_data \\
+    --old-image ghcr.io/fluxo-kt/aza-pg:17 --new-image ghcr.io/fluxo-kt/aza-pg:18 -y
+
+PREREQUISITES:
+  - Docker installed and running
+  - The stack using the volume is stopped (docker compose down)
+  - A recent backup (bun scripts/tools/backup-postgres.ts)
+
+WARNINGS:
+  - --link shares data files between clusters: once the new cluster has been started, the
+    old one can no longer be used. Rolling back means restoring the backup.
+`);
+  process.exit(0);
+}
+
+function parseArgs(): UpgradeConfig {
+  const args = Bun.argv.slice(2);
+  const config: UpgradeConfig = {
+    volume: "",
+    oldImage: "",
+    newImage: "",
+    mountPath: "/var/lib/postgresql",
+    superuser: Bun.env.POSTGRES_USER || "postgres",
+    database: "postgres",
+    jobs: 1,
+    checkOnly: false,
+    skipConfirmation: false,
+  };
+
+  const requireValue = (option: string, index: number): string => {
+    const value = args[index];
+    if (value === undefined || value === "") {
+      error(`Missing value for ${option} option`);
+      process.exit(1);
+    }
+    return value;
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case "--volume":
+        config.volume = requireValue(arg, ++i);
+        break;
+
+      case "--old-image":
+        config.oldImage = requireValue(arg, ++i);
+        break;
+
+      case "--new-image":
+        config.newImage = requireValue(arg, ++i);
+        break;
+
+      case "--mount-path":
+        config.mountPath = requireValue(arg, ++i).replace(/\/+$/, "");
+        break;
+
+      case "--superuser":
+        config.superuser = requireValue(arg, ++i);
+        break;
+
+      case "--database":
+        config.database = requireValue(arg, ++i);
+        break;
+
+      case "--preload":
+        config.preload = parsePreloadLibraries(requireValue(arg, ++i));
+        break;
+
+      case "--jobs": {
+        const jobs = Number.parseInt(requireValue(arg, ++i), 10);
+        if (!Number.isInteger(jobs) || jobs < 1) {
+          error("--jobs must be a positive integer");
+          process.exit(1);
+        }
+        config.jobs = jobs;
+        break;
+      }
+
+      case "--check":
+        config.checkOnly = true;
+        break;
+
+      case "-y":
+      case "--yes":
+        config.skipConfirmation = true;
+        break;
+
+      case "-h":
+      case "--help":
+        printHelp();
+        break;
+
+      default:
+        error(`Unknown option: ${arg}. Use -h for help.`);
+        process.exit(1);
+    }
+  }
+
+  for (const [option, value] of [
+    ["--volume", config.volume],
+    ["--old-image", config.oldImage],
+    ["--new-image", config.newImage],
+  ] as const) {
+    if (!value) {
+      error(`${option} is required. Use -h for help.`);
+      process.exit(1);
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Quote an SQL identifier
+ */
+function quoteIdent(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Run a docker command, throwing with its output on failure
+ */
+async function docker(args: string[], failure: string): Promise<string> {
+  const result = await dockerRun(args);
+  if (!result.success) {
+    throw new Error(`${failure}: ${result.output}`);
+  }
+  return result.output;
+}
+
+/**
+ * Run a query in a container and return unaligned, tuple-only rows
+ */
+async function queryRows(
+  container: string,
+  user: string,
+  database: string,
+  sql: string
+): Promise<string[][]> {
+  const output = await docker(
+    [
+      "exec",
+      container,
+      "psql",
+      "-XAt",
+      "-v",
+      "ON_ERROR_STOP=1",
+      "-U",
+      user,
+      "-d",
+      database,
+      "-c",
+      sql,
+    ],
+    `Query failed in database ${database}`
+  );
+  return output
+    .split("\n")
+    .filter((line) => line !== "")
+    .map((line) => line.split("|"));
+}
+
+async function checkPrerequisites(config: UpgradeConfig): Promise<void> {
+  info("Checking prerequisites...");
+
+  await checkCommand("docker");
+  await checkDockerDaemon();
+  await ensureImageAvailable(config.oldImage);
+  await ensureImageAvailable(config.newImage);
+
+  await docker(["volume", "inspect", config.volume], `Volume '${config.volume}' does not exist`);
+
+  const users = await docker(
+    ["ps", "--filter", `volume=${config.volume}`, "--format", "{{.Names}}"],
+    "Failed to list containers"
+  );
+  if (users !== "") {
+    throw new Error(
+      `Volume '${config.volume}' is in use by running container(s): ${users.split("\n").join(", ")}. Stop the stack first (docker compose down).`
+    );
+  }
+
+  success("Prerequisites check passed");
+}
+
+/**
+ * Read PG_MAJOR and PGDATA from an image's environment
+ */
+async function inspectImage(image: string): Promise<ImageInfo> {
+  const output = await docker(
+    ["run", "--rm", "--entrypoint", "sh", image, "-c", 'printf "%s\\n%s\\n" "$PG_MAJOR" "$PGDATA"'],
+    `Failed to inspect image ${image}`
+  );
+  const [pgMajor, pgdata] = output.split("\n").map((line) => line.trim());
+  if (!pgMajor || !pgdata) {
+    throw new Error(`Image ${image} does not set PG_MAJOR and PGDATA (not a postgres image?)`);
+  }
+  return { image, pgMajor, pgdata };
+}
+
+/**
+ * Check that the volume holds the old cluster and has room for the new one
+ */
+async function verifyVolumeLayout(
+  config: UpgradeConfig,
+  oldImage: ImageInfo,
+  newImage: ImageInfo
+): Promise<void> {
+  info("Verifying data volume layout...");
+
+  if (Number.parseInt(newImage.pgMajor, 10) <= Number.parseInt(oldImage.pgMajor, 10)) {
+    throw new Error(
+      `Target major ${newImage.pgMajor} must be newer than the current major ${oldImage.pgMajor}`
+    );
+  }
+
+  // --link needs both data directories on the same filesystem, i.e. inside the volume
+  for (const { image, pgdata } of [oldImage, newImage]) {
+    if (!pgdata.startsWith(`${config.mountPath}/`)) {
+      throw new Error(
+        `PGDATA of ${image} (${pgdata}) is outside --mount-path ${config.mountPath}; pg_upgrade --link needs both clusters on the volume`
+      );
+    }
+  }
+
+  const mount = `${config.volume}:${config.mountPath}`;
+  const version = await dockerRun([
+    "run",
+    "--rm",
+    "-v",
+    mount,
+    "--entrypoint",
+    "cat",
+    oldImage.image,
+    `${oldImage.pgdata}/PG_VERSION`,
+  ]);
+  if (!version.success || version.output.trim() !== oldImage.pgMajor) {
+    throw new Error(
+      `No PostgreSQL ${oldImage.pgMajor} cluster at ${oldImage.pgdata} in volume '${config.volume}'` +
+        (version.success ? ` (found PG_VERSION ${version.output.trim()})` : "")
+    );
+  }
+
+  const newExists = await dockerRun([
+    "run",
+    "--rm",
+    "-v",
+    mount,
+    "--entrypoint",
+    "sh",
+    newImage.image,
+    "-c",
+    'test -e "$1/PG_VERSION"',
+    "sh",
+    newImage.pgdata,
+  ]);
+  if (newExists.success) {
+    throw new Error(
+      `A cluster already exists at ${newImage.pgdata} in volume '${config.volume}'. Remove it before upgrading.`
+    );
+  }
+
+  success(
+    `Volume holds PostgreSQL ${oldImage.pgMajor} at ${oldImage.pgdata}; new cluster goes to ${newImage.pgdata}`
+  );
+}
+
+/**
+ * Start the old image on the volume and collect what the upgrade needs to know
+ */
+async function inspectOldCluster(config: UpgradeConfig, oldImage: ImageInfo): Promise<OldCluster> {
+  info(`Starting PostgreSQL ${oldImage.pgMajor} to inspect the cluster...`);
+
+  const container = generateUniqueContainerName("aza-pg-upgrade-inspect");
+  try {
+    await docker(
+      [
+        "run",
+        "-d",
+        "--name",
+        container,
+        "-v",
+        `${config.volume}:${config.mountPath}`,
+        oldImage.image,
+      ],
+      "Failed to start the old cluster"
+    );
+    if (!(await waitForPostgres({ container, user: config.superuser, timeout: 120 }))) {
+      throw new Error(
+        `PostgreSQL ${oldImage.pgMajor} did not start; check: docker logs ${container}`
+      );
+    }
+
+    const [template0] = await queryRows(
+      container,
+      config.superuser,
+      config.database,
+      `SELECT (SELECT rolname FROM pg_authid WHERE oid = 10), pg_encoding_to_char(encoding), datcollate, datctype, datlocprovider, coalesce(datlocale, ''), current_setting('data_checksums'), current_setting('shared_preload_libraries') FROM pg_database WHERE datname = 'template0'`
+    );
+    if (!template0 || template0.length < 8) {
+      throw new Error("Could not read template0 settings from the old cluster");
+    }
+    const [superuser, encoding, collate, ctype, localeProvider, locale, checksums, preload] =
+      template0 as [string, string, string, string, string, string, string, string];
+
+    const databases = (
+      await queryRows(
+        container,
+        config.superuser,
+        config.database,
+        "SELECT datname FROM pg_database WHERE datallowconn ORDER BY datname"
+      )
+    ).map(([name]) => name ?? "");
+
+    const installed: InstalledExtension[] = [];
+    for (const database of databases) {
+      // Creation order (oid) keeps dependencies ahead of dependents for ALTER EXTENSION ... UPDATE
+      const rows = await queryRows(
+        container,
+        config.superuser,
+        database,
+        "SELECT extname, extversion FROM pg_extension ORDER BY oid"
+      );
+      for (const [name, version] of rows) {
+        installed.push({ database, name: name ?? "", version: version ?? "" });
+      }
+    }
+
+    success(
+      `Found ${installed.length} installed extension(s) across ${databases.length} database(s)`
+    );
+
+    return {
+      settings: {
+        superuser,
+        encoding,
+        collate,
+        ctype,
+        localeProvider,
+        locale: locale || undefined,
+        dataChecksums: checksums === "on",
+      },
+      installed,
+      preload: parsePreloadLibraries(preload),
+    };
+  } finally {
+    // A clean shutdown is required before pg_upgrade
+    await dockerRun(["stop", "-t", "120", container]);
+    await cleanupContainer(container);
+  }
+}
+
+/**
+ * Read the target image's manifest and extension files
+ */
+async function inspectTarget(
+  newImage: ImageInfo
+): Promise<{ manifest: TargetManifestEntry[]; inventory: TargetInventory }> {
+  info(`Reading extensions shipped in ${newImage.image}...`);
+
+  const manifestJson = await docker(
+    [
+      "run",
+      "--rm",
+      "--entrypoint",
+      "cat",
+      newImage.image,
+      "/etc/postgresql/extensions.manifest.json",
+    ],
+    "Failed to read extensions.manifest.json from the target image"
+  );
+  const manifest = (JSON.parse(manifestJson) as { entries: TargetManifestEntry[] }).entries;
+
+  const inventoryOutput = await docker(
+    ["run", "--rm", "--entrypoint", "sh", newImage.image, "-c", TARGET_INVENTORY_SCRIPT],
+    "Failed to list extension files in the target image"
+  );
+
+  return { manifest, inventory: parseTargetInventory(inventoryOutput) };
+}
+
+/**
+ * Print the compatibility report
+ *
+ * @returns true when nothing blocks the upgrade
+ */
+function reportPreflight(checks: ExtensionCheck[], missingPreload: string[]): boolean {
+  section("Extension Compatibility");
+
+  for (const check of checks) {
+    const label = `${check.database}: ${check.name} ${check.installedVersion}`;
+    switch (check.status) {
+      case "current":
+        success(`${label} (unchanged)`);
+        break;
+      case "update":
+        info(`${label} → ${check.targetVersion} (via ${check.updatePath?.join(" → ")})`);
+        break;
+      default:
+        error(`${label}: ${check.status} - ${check.detail}`);
+    }
+  }
+
+  for (const lib of missingPreload) {
+    error(`shared_preload_libraries: ${lib} is not shipped in the target image`);
+  }
+
+  const blocking = checks.filter(isBlocking);
+  if (blocking.length > 0 || missingPreload.length > 0) {
+    process.stdout.write("\n");
+    error(
+      `${blocking.length + missingPreload.length} blocking issue(s). Drop the extensions (DROP EXTENSION) or pick an image that ships them, then re-run.`
+    );
+    return false;
+  }
+
+  success("All installed extensions are available in the target image");
+  return true;
+}
+
+/**
+ * Read a line from stdin
+ */
+async function readLine(): Promise<string> {
+  const decoder = new TextDecoder();
+  const bytesRead = await Bun.stdin.stream().getReader().read();
+  if (bytesRead.value) {
+    return decoder.decode(bytesRead.value);
+  }
+  return "";
+}
+
+async function confirmUpgrade(
+  config: UpgradeConfig,
+  oldImage: ImageInfo,
+  newImage: ImageInfo
+): Promise<void> {
+  if (config.skipConfirmation || config.checkOnly) {
+    return;
+  }
+
+  process.stdout.write("\n");
+  warning("=========================================");
+  warning("MAJOR VERSION UPGRADE WARNING");
+  warning("=========================================");
+  process.stdout.write(`Volume:  ${config.volume}\n`);
+  process.stdout.write(`From:    PostgreSQL ${oldImage.pgMajor} (${oldImage.image})\n`);
+  process.stdout.write(`To:      PostgreSQL ${newImage.pgMajor} (${newImage.image})\n`);
+  process.stdout.write("\n");
+  warning("IMPORTANT:");
+  process.stdout.write("  - pg_upgrade --link shares data files between the old and new cluster\n");
+  process.stdout.write("  - Once the new cluster starts, the old cluster is no longer usable\n");
+  process.stdout.write("  - Rolling back requires restoring a backup\n");
+  process.stdout.write("\n");
+  process.stdout.write("Continue with the upgrade? [yes/NO]: ");
+
+  const response = (await readLine()).trim().toLowerCase();
+  if (response !== "yes") {
+    info("Upgrade cancelled by user");
+    process.exit(0);
+  }
+}
+
+/**
+ * Copy the old major's binaries, libraries and extension files into volumes that are
+ * mounted at the same paths in the new image, so pg_upgrade can run the old server.
+ */
+async function copyOldBinaries(
+  config: UpgradeConfig,
+  oldImage: ImageInfo,
+  volumes: string[]
+): Promise<{ libVolume: string; shareVolume: string }> {
+  info(`Copying PostgreSQL ${oldImage.pgMajor} binaries from ${oldImage.image}...`);
+
+  const libVolume = `${config.volume}-upgrade-pg${oldImage.pgMajor}-lib`;
+  const shareVolume = `${config.volume}-upgrade-pg${oldImage.pgMajor}-share`;
+  for (const volume of [libVolume, shareVolume]) {
+    await docker(["volume", "create", volume], `Failed to create volume ${volume}`);
+    volumes.push(volume);
+  }
+
+  await docker(
+    [
+      "run",
+      "--rm",
+      "--user",
+      "0",
+      "--entrypoint",
+      "sh",
+      "-v",
+      `${libVolume}:/export/lib`,
+      "-v",
+      `${shareVolume}:/export/share`,
+      oldImage.image,
+      "-c",
+      'cp -a "/usr/lib/postgresql/$PG_MAJOR/." /export/lib/ && cp -a "/usr/share/postgresql/$PG_MAJOR/." /export/share/',
+    ],
+    "Failed to copy old binaries"
+  );
+
+  success("Old binaries staged");
+  return { libVolume, shareVolume };
+}
+
+/**
+ * Initialize the new cluster and run pg_upgrade inside the new image
+ */
+async function runPgUpgrade(
+  config: UpgradeConfig,
+  oldImage: ImageInfo,
+  newImage: ImageInfo,
+  cluster: OldCluster,
+  binaries: { libVolume: string; shareVolume: string }
+): Promise<void> {
+  const script = buildUpgradeScript({
+    upgrade: {
+      oldMajor: oldImage.pgMajor,
+      newMajor: newImage.pgMajor,
+      oldPgdata: oldImage.pgdata,
+      newPgdata: newImage.pgdata,
+      superuser: cluster.settings.superuser,
+      preloadLibraries: config.preload ?? cluster.preload,
+      hbaFile: UPGRADE_HBA_FILE,
+      jobs: config.jobs,
+    },
+    initdbArgs: buildInitdbArgs(cluster.settings, newImage.pgMajor, newImage.pgdata),
+    workDir: config.mountPath,
+    carriedConfigFiles: CARRIED_CONFIG_FILES,
+    checkOnly: config.checkOnly,
+  });
+
+  info(config.checkOnly ? "Running pg_upgrade --check..." : "Running pg_upgrade --link...");
+  const exitCode = await dockerRunLive([
+    "run",
+    "--rm",
+    "--entrypoint",
+    "bash",
+    "-v",
+    `${config.volume}:${config.mountPath}`,
+    "-v",
+    `${binaries.libVolume}:/usr/lib/postgresql/${oldImage.pgMajor}:ro`,
+    "-v",
+    `${binaries.shareVolume}:/usr/share/postgresql/${oldImage.pgMajor}:ro`,
+    newImage.image,
+    "-c",
+    script,
+  ]);
+
+  if (exitCode !== 0 && config.checkOnly) {
+    throw new Error(
+      `pg_upgrade --check failed (exit ${exitCode}); see the reports above. The new data directory was removed, the volume is unchanged.`
+    );
+  }
+  if (exitCode !== 0) {
+    throw new Error(
+      `pg_upgrade failed (exit ${exitCode}). Logs are in ${newImage.pgdata}/pg_upgrade_output.d. ` +
+        "If it stopped before linking files, the old cluster is intact: remove the new data directory and retry."
+    );
+  }
+
+  success(config.checkOnly ? "pg_upgrade --check passed" : "pg_upgrade completed");
+}
+
+/**
+ * Start the upgraded cluster, update extensions and record the new status
+ */
+async function finishUpgrade(
+  config: UpgradeConfig,
+  newImage: ImageInfo,
+  cluster: OldCluster,
+  checks: ExtensionCheck[]
+): Promise<void> {
+  info(`Starting PostgreSQL ${newImage.pgMajor} on the upgraded cluster...`);
+
+  const user = cluster.settings.superuser;
+  const container = generateUniqueContainerName("aza-pg-upgrade-finish");
+  try {
+    await docker(
+      [
+        "run",
+        "-d",
+        "--name",
+        container,
+        "-v",
+        `${config.volume}:${config.mountPath}`,
+        newImage.image,
+      ],
+      "Failed to start the upgraded cluster"
+    );
+    if (!(await waitForPostgres({ container, user, timeout: 120 }))) {
+      throw new Error(
+        `PostgreSQL ${newImage.pgMajor} did not start; check: docker logs ${container}`
+      );
+    }
+
+    section("Extension Updates");
+    for (const check of checks.filter((c) => c.status === "update")) {
+      // One session per extension: timescaledb requires ALTER EXTENSION to be the first command
+      await queryRows(
+        container,
+        user,
+        check.database,
+        `ALTER EXTENSION ${quoteIdent(check.name)} UPDATE`
+      );
+      success(
+        `${check.database}: ${check.name} ${check.installedVersion} → ${check.targetVersion}`
+      );
+    }
+
+    section("Extension Status Tracking");
+    await docker(
+      [
+        "exec",
+        container,
+        "psql",
+        "-X",
+        "-q",
+        "-v",
+        "ON_ERROR_STOP=1",
+        "-U",
+        user,
+        "-d",
+        config.database,
+        "-f",
+        STATUS_TRACKING_SCRIPT,
+      ],
+      "01-extensions.sql status tracking failed"
+    );
+    const [status] = await queryRows(
+      container,
+      user,
+      config.database,
+      "SELECT status, script_version FROM pg_aza_status ORDER BY init_timestamp DESC LIMIT 1"
+    );
+    success(`pg_aza_status: ${status?.[0]} (${status?.[1]})`);
+
+    section("Planner Statistics");
+    // pg_upgrade carries statistics over since PostgreSQL 18; only fill the gaps there
+    const vacuumArgs = ["--all", "--analyze-in-stages"];
+    if (Number.parseInt(newImage.pgMajor, 10) >= 18) {
+      vacuumArgs.push("--missing-stats-only");
+    }
+    await docker(["exec", container, "vacuumdb", "-U", user, ...vacuumArgs], "vacuumdb failed");
+    success("Statistics refreshed");
+  } finally {
+    await dockerRun(["stop", "-t", "120", container]);
+    await cleanupContainer(container);
+  }
+}
+
+function showNextSteps(config: UpgradeConfig, oldImage: ImageInfo, newImage: ImageInfo): void {
+  process.stdout.write("\n");
+  success("=========================================");
+  success("UPGRADE COMPLETE");
+  success("=========================================");
+  process.stdout.write("\n");
+  process.stdout.write("Next steps:\n");
+  process.stdout.write("\n");
+  process.stdout.write(`1. Point the stack at the new image (POSTGRES_IMAGE=${newImage.image})\n`);
+  process.stdout.write("   and start it: docker compose up -d\n");
+  process.stdout.write("\n");
+  process.stdout.write("2. Verify the cluster and its extensions:\n");
+  process.stdout.write(
+    '   docker compose exec postgres psql -U postgres -c "SELECT version();" -c "\\dx"\n'
+  );
+  process.stdout.write("\n");
+  process.stdout.write(
+    `3. Once verified, remove the old data directory (${oldImage.pgdata}) with the script pg_upgrade left behind:\n`
+  );
+  process.stdout.write(
+    `   docker run --rm -v ${config.volume}:${config.mountPath} --entrypoint sh ${newImage.image} ${config.mountPath}/delete_old_cluster.sh\n`
+  );
+  process.stdout.write("\n");
+  warning("The old cluster must not be started again: its data files are linked to the new one.");
+  process.stdout.write("\n");
+}
+
+async function main(): Promise<void> {
+  const config = parseArgs();
+  const tempVolumes: string[] = [];
+
+  section(config.checkOnly ? "PostgreSQL Major Upgrade Check" : "PostgreSQL Major Upgrade");
+
+  try {
+    await checkPrerequisites(config);
+    const oldImage = await inspectImage(config.oldImage);
+    const newImage = await inspectImage(config.newImage);
+    await verifyVolumeLayout(config, oldImage, newImage);
+
+    const cluster = await inspectOldCluster(config, oldImage);
+    const target = await inspectTarget(newImage);
+    const checks = checkExtensionCompatibility(
+      cluster.installed,
+      target.manifest,
+      target.inventory
+    );
+    const missingPreload = findMissingPreloadLibraries(
+      config.preload ?? cluster.preload,
+      target.inventory
+    );
+    if (!reportPreflight(checks, missingPreload)) {
+      process.exit(1);
+    }
+
+    await confirmUpgrade(config, oldImage, newImage);
+    const binaries = await copyOldBinaries(config, oldImage, tempVolumes);
+    await runPgUpgrade(config, oldImage, newImage, cluster, binaries);
+
+    if (config.checkOnly) {
+      success(`Volume '${config.volume}' can be upgraded to PostgreSQL ${newImage.pgMajor}`);
+      return;
+    }
+
+    await finishUpgrade(config, newImage, cluster, checks);
+    showNextSteps(config, oldImage, newImage);
+  } finally {
+    for (const volume of tempVolumes) {
+      await dockerRun(["volume", "rm", "-f", volume]);
+    }
+  }
+}
+
+if (import.meta.main) {
+  main().catch((err) => {
+    error(getErrorMessage(err));
+    process.exit(1);
+  });
+}
@@ -0,0 +1,330 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import {
+  buildInitdbArgs,
+  buildPgUpgradeArgs,
+  buildUpgradeScript,
+  checkExtensionCompatibility,
+  findMissingPreloadLibraries,
+  findUpdatePath,
+  isBlocking,
+  parsePreloadLibraries,
+  parseTargetInventory,
+  type ClusterSettings,
+  type InstalledExtension,
+} from "./upgrade-preflight";
+
+const INVENTORY_OUTPUT = `
+pg_trgm--1.3.sql
+pg_trgm--1.3--1.4.sql
+pg_trgm--1.4--1.5.sql
+pg_trgm--1.5--1.6.sql
+vector--0.8.1.sql
+vector--0.7.4--0.8.0.sql
+vector--0.8.0--0.8.1.sql
+timescaledb--2.27.1.sql
+timescaledb--2.20.0--2.27.1.sql
+plpgsql--1.0.sql
+--controls--
+pg_trgm.control:default_version = '1.6'
+vector.control:default_version = '0.8.1'
+timescaledb.control:default_version = '2.27.1'
+plpgsql.control:default_version = '1.0'
+--libraries--
+pg_trgm.so
+vector.so
+timescaledb.so
+timescaledb-2.27.1.so
+pg_stat_statements.so
+`;
+
+const inventory = parseTargetInventory(INVENTORY_OUTPUT);
+
+function installed(name: string, version: string, database = "app"): InstalledExtension {
+  return { database, name, version };
+}
+
+describe("parseTargetInventory", () => {
+  test("reads default versions, update scripts and libraries", () => {
+    expect(inventory.extensions.get("pg_trgm")?.defaultVersion).toBe("1.6");
+    expect(inventory.extensions.get("vector")?.updates).toEqual([
+      ["0.7.4", "0.8.0"],
+      ["0.8.0", "0.8.1"],
+    ]);
+    expect(inventory.extensions.get("plpgsql")?.updates).toEqual([]);
+    expect(inventory.libraries.has("timescaledb-2.27.1")).toBe(true);
+    expect(inventory.libraries.has("pg_cron")).toBe(false);
+  });
+
+  test("ignores update scripts of extensions without a control file", () => {
+    const parsed = parseTargetInventory("orphan--1.0--1.1.sql\n--controls--\n--libraries--\n");
+    expect(parsed.extensions.size).toBe(0);
+  });
+});
+
+describe("findUpdatePath", () => {
+  const updates: Array<[string, string]> = [
+    ["1.0", "1.1"],
+    ["1.1", "1.2"],
+    ["1.0", "1.2"],
+    ["1.2", "1.3"],
+  ];
+
+  test("returns the shortest chain", () => {
+    expect(findUpdatePath("1.0", "1.3", updates)).toEqual(["1.0", "1.2", "1.3"]);
+    expect(findUpdatePath("1.1", "1.3", updates)).toEqual(["1.1", "1.2", "1.3"]);
+  });
+
+  test("same version is a trivial path", () => {
+    expect(findUpdatePath("1.2", "1.2", updates)).toEqual(["1.2"]);
+  });
+
+  test("returns null for downgrades and unknown versions", () => {
+    expect(findUpdatePath("1.3", "1.0", updates)).toBeNull();
+    expect(findUpdatePath("0.9", "1.3", updates)).toBeNull();
+  });
+});
+
+describe("checkExtensionCompatibility", () => {
+  const manifest = [
+    { name: "vector", kind: "extension" },
+    { name: "timescaledb", kind: "extension" },
+    { name: "pg_cron", kind: "extension" },
+    {
+      name: "pgrouting",
+      kind: "extension",
+      enabled: false,
+      disabledReason: "Not available for PostgreSQL 17: no package",
+    },
+    { name: "pgbackrest", kind: "tool" },
+  ];
+
+  test("classifies current, updatable and contrib extensions", () => {
+    const checks = checkExtensionCompatibility(
+      [installed("plpgsql", "1.0"), installed("vector", "0.7.4"), installed("pg_trgm", "1.3")],
+      manifest,
+      inventory
+    );
+    expect(checks.map((c) => c.status)).toEqual(["current", "update", "update"]);
+    expect(checks[1]?.updatePath).toEqual(["0.7.4", "0.8.0", "0.8.1"]);
+    expect(checks[2]?.targetVersion).toBe("1.6");
+    expect(checks.some(isBlocking)).toBe(false);
+  });
+
+  test("disabled manifest entries block with their reason", () => {
+    const [check] = checkExtensionCompatibility(
+      [installed("pgrouting", "3.8.0")],
+      manifest,
+      inventory
+    );
+    expect(check?.status).toBe("disabled");
+    expect(check?.detail).toContain("no package");
+    expect(isBlocking(check!)).toBe(true);
+  });
+
+  test("extensions the image does not ship are missing", () => {
+    const checks = checkExtensionCompatibility(
+      [installed("pg_cron", "1.6"), installed("custom_ext", "1.0")],
+      manifest,
+      inventory
+    );
+    expect(checks.map((c) => c.status)).toEqual(["missing", "missing"]);
+    expect(checks[0]?.detail).toContain("listed in the target manifest");
+    expect(checks[1]?.detail).toContain("not provided by the target image");
+  });
+
+  test("versions without an update path are incompatible", () => {
+    const [check] = checkExtensionCompatibility(
+      [installed("timescaledb", "2.19.0")],
+      manifest,
+      inventory
+    );
+    expect(check?.status).toBe("incompatible");
+    expect(check?.detail).toBe("no update path from 2.19.0 to 2.27.1 in the target image");
+  });
+
+  test("tool entries never shadow an extension of the same name", () => {
+    const [check] = checkExtensionCompatibility(
+      [installed("pgbackrest", "1.0")],
+      [{ name: "pgbackrest", kind: "tool", enabled: false }],
+      inventory
+    );
+    expect(check?.status).toBe("missing");
+  });
+});
+
+describe("preload libraries", () => {
+  test("parses shared_preload_libraries values", () => {
+    expect(parsePreloadLibraries("pg_stat_statements, timescaledb ,")).toEqual([
+      "pg_stat_statements",
+      "timescaledb",
+    ]);
+    expect(parsePreloadLibraries("")).toEqual([]);
+  });
+
+  test("reports libraries missing from the target $libdir", () => {
+    expect(
+      findMissingPreloadLibraries(
+        ["pg_stat_statements", "$libdir/timescaledb", "pg_cron"],
+        inventory
+      )
+    ).toEqual(["pg_cron"]);
+  });
+});
+
+describe("buildInitdbArgs", () => {
+  const settings: ClusterSettings = {
+    superuser: "postgres",
+    encoding: "UTF8",
+    collate: "en_US.utf8",
+    ctype: "en_US.utf8",
+    localeProvider: "c",
+    dataChecksums: false,
+  };
+
+  test("matches the old cluster's superuser, encoding and locale", () => {
+    expect(buildInitdbArgs(settings, "18", "/var/lib/postgresql/18/docker")).toEqual([
+      "--pgdata=/var/lib/postgresql/18/docker",
+      "--username=postgres",
+      "--encoding=UTF8",
+      "--lc-collate=en_US.utf8",
+      "--lc-ctype=en_US.utf8",
+      "--locale-provider=libc",
+      "--no-data-checksums",
+    ]);
+  });
+
+  test("checksums follow the old cluster", () => {
+    const args = buildInitdbArgs({ ...settings, dataChecksums: true }, "18", "/d");
+    expect(args).toContain("--data-checksums");
+    // Before PostgreSQL 18 checksums were off by default and --no-data-checksums did not exist
+    expect(buildInitdbArgs(settings, "17", "/d")).not.toContain("--no-data-checksums");
+  });
+
+  test("carries icu and builtin locales", () => {
+    expect(
+      buildInitdbArgs({ ...settings, localeProvider: "i", locale: "und" }, "18", "/d")
+    ).toContain("--icu-locale=und");
+    expect(
+      buildInitdbArgs({ ...settings, localeProvider: "b", locale: "C.UTF-8" }, "18", "/d")
+    ).toContain("--builtin-locale=C.UTF-8");
+    expect(() => buildInitdbArgs({ ...settings, localeProvider: "x" }, "18", "/d")).toThrow();
+  });
+});
+
+describe("buildPgUpgradeArgs", () => {
+  const options = {
+    oldMajor: "17",
+    newMajor: "18",
+    oldPgdata: "/var/lib/postgresql/data",
+    newPgdata: "/var/lib/postgresql/18/docker",
+    superuser: "postgres",
+    preloadLibraries: ["timescaledb", "pg_cron"],
+    hbaFile: "/tmp/hba.conf",
+    jobs: 2,
+    check: false,
+  };
+
+  test("links data files and preloads libraries in both servers", () => {
+    const args = buildPgUpgradeArgs(options);
+    expect(args).toContain("--old-bindir=/usr/lib/postgresql/17/bin");
+    expect(args).toContain("--new-bindir=/usr/lib/postgresql/18/bin");
+    expect(args).toContain("--link");
+    expect(args).toContain("--jobs=2");
+    expect(args).toContain(
+      "--old-options=-c hba_file=/tmp/hba.conf -c shared_preload_libraries=timescaledb,pg_cron"
+    );
+    expect(args).not.toContain("--check");
+  });
+
+  test("check mode adds --check", () => {
+    expect(buildPgUpgradeArgs({ ...options, check: true, preloadLibraries: [] })).toEqual(
+      expect.arrayContaining(["--check", "--new-options=-c hba_file=/tmp/hba.conf"])
+    );
+  });
+});
+
+// initdb creates the data directory; pg_upgrade --check writes a problem report there and
+// exits with $CHECK_EXIT, like a check that finds an incompatibility
+const STUB_INITDB = `#!/bin/sh
+for arg; do case "$arg" in --pgdata=*) pgdata="\${arg#--pgdata=}" ;; esac; done
+mkdir -p "$pgdata" && echo 18 > "$pgdata/PG_VERSION"
+`;
+const STUB_PG_UPGRADE = `#!/bin/sh
+for arg; do
+  case "$arg" in --new-datadir=*) pgdata="\${arg#--new-datadir=}" ;; --check) check=1 ;; esac
+done
+if [ -n "$check" ]; then
+  mkdir -p "$pgdata/pg_upgrade_output.d/20261019T120000.000"
+  echo 'could not load library "$libdir/pg_example"' > "$pgdata/pg_upgrade_output.d/20261019T120000.000/loadable_libraries.txt"
+  exit "\${CHECK_EXIT:-0}"
+fi
+touch "$pgdata/upgraded"
+`;
+
+describe("buildUpgradeScript", () => {
+  let dir = "";
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "upgrade-script-"));
+    mkdirSync(join(dir, "bin"));
+    mkdirSync(join(dir, "old"));
+    writeFileSync(join(dir, "bin/initdb"), STUB_INITDB, { mode: 0o755 });
+    writeFileSync(join(dir, "bin/pg_upgrade"), STUB_PG_UPGRADE, { mode: 0o755 });
+    writeFileSync(join(dir, "old/pg_hba.conf"), "host all all all scram-sha-256\n");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function run(checkOnly: boolean, checkExit = 0) {
+    const newPgdata = join(dir, "18/docker");
+    const script = buildUpgradeScript({
+      upgrade: {
+        oldMajor: "17",
+        newMajor: "18",
+        oldPgdata: join(dir, "old"),
+        newPgdata,
+        superuser: "postgres",
+        preloadLibraries: [],
+        hbaFile: join(dir, "hba.conf"),
+        jobs: 1,
+      },
+      initdbArgs: [`--pgdata=${newPgdata}`],
+      workDir: dir,
+      carriedConfigFiles: ["pg_hba.conf", "pg_ident.conf"],
+      checkOnly,
+      newBindir: join(dir, "bin"),
+    });
+    const result = Bun.spawnSync(["bash", "-c", script], {
+      env: { PATH: Bun.env.PATH ?? "/usr/bin:/bin", CHECK_EXIT: String(checkExit) },
+    });
+    return { exitCode: result.exitCode, stdout: result.stdout.toString(), newPgdata };
+  }
+
+  test("a failed check removes the new cluster and prints the reports", () => {
+    const { exitCode, stdout, newPgdata } = run(true, 1);
+    expect(exitCode).toBe(1);
+    expect(existsSync(newPgdata)).toBe(false);
+    expect(stdout).toContain("loadable_libraries.txt");
+    expect(stdout).toContain('could not load library "$libdir/pg_example"');
+  });
+
+  test("a passing check also leaves no new cluster behind", () => {
+    const { exitCode, newPgdata } = run(true);
+    expect(exitCode).toBe(0);
+    expect(existsSync(newPgdata)).toBe(false);
+  });
+
+  test("an upgrade keeps the new cluster and carries the old config files", () => {
+    const { exitCode, newPgdata } = run(false);
+    expect(exitCode).toBe(0);
+    expect(existsSync(join(newPgdata, "upgraded"))).toBe(true);
+    expect(existsSync(join(newPgdata, "pg_hba.conf"))).toBe(true);
+    expect(existsSync(join(newPgdata, "pg_ident.conf"))).toBe(false);
+  });
+});
@@ -0,0 +1,401 @@
+/**
+ * Major-version upgrade preflight: extension compatibility and pg_upgrade arguments
+ *
+ * Pure logic behind scripts/tools/upgrade-major.ts. The CLI collects facts from Docker
+ * (installed extensions in the old cluster, extension files shipped in the target image,
+ * the target image's extensions.manifest.json) and this module decides whether the
+ * upgrade can proceed and how initdb/pg_upgrade must be invoked to match the old cluster.
+ */
+
+/** Extension installed in one database of the old cluster (from pg_extension) */
+export interface InstalledExtension {
+  database: string;
+  name: string;
+  version: string;
+}
+
+/** Extension files available in the target image's extension directory */
+export interface AvailableExtension {
+  name: string;
+  /** default_version from the .control file (what ALTER EXTENSION ... UPDATE moves to) */
+  defaultVersion: string;
+  /** Update scripts as [from, to] version pairs (name--from--to.sql) */
+  updates: Array<[string, string]>;
+}
+
+/** What the target image ships, as reported by TARGET_INVENTORY_SCRIPT */
+export interface TargetInventory {
+  extensions: Map<string, AvailableExtension>;
+  /** Shared library basenames in $libdir (without .so) */
+  libraries: Set<string>;
+}
+
+/** Subset of a target manifest entry used by the preflight */
+export interface TargetManifestEntry {
+  name: string;
+  kind?: string;
+  enabled?: boolean;
+  disabledReason?: string;
+}
+
+export type ExtensionCheckStatus =
+  | "current" // Same version in the target image, nothing to do
+  | "update" // ALTER EXTENSION ... UPDATE will move it to the target default_version
+  | "disabled" // Target manifest lists it as disabled, so the image doesn't ship it
+  | "missing" // Target image has no control file for it
+  | "incompatible"; // Shipped, but no update path from the installed version
+
+export interface ExtensionCheck {
+  database: string;
+  name: string;
+  installedVersion: string;
+  targetVersion?: string;
+  status: ExtensionCheckStatus;
+  /** Update script chain (installed -> ... -> target) when status is "update" */
+  updatePath?: string[];
+  detail?: string;
+}
+
+/** Old-cluster settings the new cluster must be initialized with for pg_upgrade */
+export interface ClusterSettings {
+  /** Bootstrap superuser (pg_authid OID 10) */
+  superuser: string;
+  /** template0 encoding (e.g., "UTF8") */
+  encoding: string;
+  /** template0 datcollate / datctype */
+  collate: string;
+  ctype: string;
+  /** template0 datlocprovider: "c" (libc), "i" (icu) or "b" (builtin) */
+  localeProvider: string;
+  /** template0 datlocale (icu/builtin providers only) */
+  locale?: string;
+  dataChecksums: boolean;
+}
+
+export interface UpgradeScriptOptions {
+  /** pg_upgrade arguments; the script adds the --check pass itself */
+  upgrade: Omit<PgUpgradeOptions, "check">;
+  initdbArgs: string[];
+  /** pg_upgrade puts its sockets and delete_old_cluster.sh in the working directory */
+  workDir: string;
+  /** Config files copied from the old data directory after the upgrade */
+  carriedConfigFiles: readonly string[];
+  /** Stop after pg_upgrade --check and remove the new data directory, whatever the outcome */
+  checkOnly: boolean;
+  /** Directory holding the new initdb and pg_upgrade (default: the new major's bin directory) */
+  newBindir?: string;
+}
+
+export interface PgUpgradeOptions {
+  oldMajor: string;
+  newMajor: string;
+  oldPgdata: string;
+  newPgdata: string;
+  superuser: string;
+  /** Passed to both servers so preloaded extensions (timescaledb, pg_cron, ...) load during the upgrade */
+  preloadLibraries: string[];
+  /** Trust-only hba file used by both temporary servers (they only listen on a private socket) */
+  hbaFile: string;
+  jobs: number;
+  check: boolean;
+}
+
+/**
+ * Shell script run in the target image (as its entrypoint) to list its extension files.
+ * Output sections are parsed by parseTargetInventory().
+ */
+export const TARGET_INVENTORY_SCRIPT = [
+  'cd "/usr/share/postgresql/${PG_MAJOR}/extension"',
+  "ls -1 -- *.sql",
+  "echo '--controls--'",
+  "grep -H '^[[:space:]]*default_version' -- *.control",
+  "echo '--libraries--'",
+  'cd "/usr/lib/postgresql/${PG_MAJOR}/lib"',
+  "ls -1 -- *.so",
+].join(" && ");
+
+/**
+ * Parse TARGET_INVENTORY_SCRIPT output into the target image's extension inventory
+ */
+export function parseTargetInventory(output: string): TargetInventory {
+  const extensions = new Map<string, AvailableExtension>();
+  const libraries = new Set<string>();
+  const updates = new Map<string, Array<[string, string]>>();
+
+  let section: "scripts" | "controls" | "libraries" = "scripts";
+  for (const rawLine of output.split("\n")) {
+    const line = rawLine.trim();
+    if (line === "") continue;
+    if (line === "--controls--") {
+      section = "controls";
+      continue;
+    }
+    if (line === "--libraries--") {
+      section = "libraries";
+      continue;
+    }
+
+    if (section === "scripts") {
+      // name--version.sql (install) or name--from--to.sql (update); "--" never appears in names or versions
+      const parts = line.replace(/\.sql$/, "").split("--");
+      if (parts.length === 3) {
+        const [name, from, to] = parts as [string, string, string];
+        const list = updates.get(name) ?? [];
+        list.push([from, to]);
+        updates.set(name, list);
+      }
+    } else if (section === "controls") {
+      const match = line.match(/^(.+)\.control:\s*default_version\s*=\s*['"]?([^'"\s]+)['"]?/);
+      if (match?.[1] && match[2]) {
+        extensions.set(match[1], { name: match[1], defaultVersion: match[2], updates: [] });
+      }
+    } else {
+      libraries.add(line.replace(/\.so$/, ""));
+    }
+  }
+
+  for (const [name, list] of updates) {
+    const extension = extensions.get(name);
+    if (extension) {
+      extension.updates = list;
+    }
+  }
+
+  return { extensions, libraries };
+}
+
+/**
+ * Shortest chain of update scripts from one extension version to another.
+ * Mirrors how ALTER EXTENSION ... UPDATE resolves paths (fewest steps wins).
+ *
+ * @returns Versions along the path including both ends, or null if unreachable
+ */
+export function findUpdatePath(
+  from: string,
+  to: string,
+  updates: ReadonlyArray<readonly [string, string]>
+): string[] | null {
+  if (from === to) return [from];
+
+  const previous = new Map<string, string>([[from, from]]);
+  const queue = [from];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const [source, target] of updates) {
+      if (source !== current || previous.has(target)) continue;
+      previous.set(target, current);
+      if (target === to) {
+        const path = [to];
+        let step = to;
+        while (step !== from) {
+          step = previous.get(step)!;
+          path.unshift(step);
+        }
+        return path;
+      }
+      queue.push(target);
+    }
+  }
+  return null;
+}
+
+/**
+ * Check every installed extension against the target image.
+ *
+ * The manifest decides whether an extension is supposed to ship (disabled entries are
+ * reported with their disabledReason); the image's extension directory decides whether
+ * it actually does and whether the installed version can be updated in place. Extensions
+ * outside the manifest (PostgreSQL contrib modules) are checked against the directory only.
+ */
+export function checkExtensionCompatibility(
+  installed: readonly InstalledExtension[],
+  manifestEntries: readonly TargetManifestEntry[],
+  inventory: TargetInventory
+): ExtensionCheck[] {
+  const manifest = new Map(
+    manifestEntries.filter((e) => e.kind !== "tool").map((e) => [e.name, e] as const)
+  );
+
+  return installed.map((ext): ExtensionCheck => {
+    const base = { database: ext.database, name: ext.name, installedVersion: ext.version };
+    const entry = manifest.get(ext.name);
+
+    if (entry?.enabled === false) {
+      return {
+        ...base,
+        status: "disabled",
+        detail: entry.disabledReason ?? "disabled in the target manifest",
+      };
+    }
+
+    const available = inventory.extensions.get(ext.name);
+    if (!available) {
+      return {
+        ...base,
+        status: "missing",
+        detail: entry
+          ? "listed in the target manifest but not installed in the target image"
+          : "not provided by the target image",
+      };
+    }
+
+    const targetVersion = available.defaultVersion;
+    if (ext.version === targetVersion) {
+      return { ...base, targetVersion, status: "current" };
+    }
+
+    const updatePath = findUpdatePath(ext.version, targetVersion, available.updates);
+    if (!updatePath) {
+      return {
+        ...base,
+        targetVersion,
+        status: "incompatible",
+        detail: `no update path from ${ext.version} to ${targetVersion} in the target image`,
+      };
+    }
+
+    return { ...base, targetVersion, status: "update", updatePath };
+  });
+}
+
+/**
+ * Whether a check result must stop the upgrade
+ */
+export function isBlocking(check: ExtensionCheck): boolean {
+  return (
+    check.status === "disabled" || check.status === "missing" || check.status === "incompatible"
+  );
+}
+
+/**
+ * Preload libraries with no shared object in the target image's $libdir
+ */
+export function findMissingPreloadLibraries(
+  preloadLibraries: readonly string[],
+  inventory: TargetInventory
+): string[] {
+  return preloadLibraries.filter((lib) => !inventory.libraries.has(lib.replace(/^\$libdir\//, "")));
+}
+
+/**
+ * Split a shared_preload_libraries value into library names
+ */
+export function parsePreloadLibraries(value: string): string[] {
+  return value
+    .split(",")
+    .map((lib) => lib.trim().replace(/^"(.*)"$/, "$1"))
+    .filter((lib) => lib !== "");
+}
+
+/**
+ * initdb arguments that reproduce the old cluster's superuser, encoding, locale and
+ * checksum settings, all of which pg_upgrade requires to match.
+ */
+export function buildInitdbArgs(
+  settings: ClusterSettings,
+  newMajor: string,
+  pgdata: string
+): string[] {
+  const args = [
+    `--pgdata=${pgdata}`,
+    `--username=${settings.superuser}`,
+    `--encoding=${settings.encoding}`,
+    `--lc-collate=${settings.collate}`,
+    `--lc-ctype=${settings.ctype}`,
+  ];
+
+  switch (settings.localeProvider) {
+    case "c":
+      args.push("--locale-provider=libc");
+      break;
+    case "i":
+      args.push("--locale-provider=icu", `--icu-locale=${settings.locale ?? ""}`);
+      break;
+    case "b":
+      args.push("--locale-provider=builtin", `--builtin-locale=${settings.locale ?? ""}`);
+      break;
+    default:
+      throw new Error(`Unknown locale provider "${settings.localeProvider}" on template0`);
+  }
+
+  if (settings.dataChecksums) {
+    args.push("--data-checksums");
+  } else if (Number.parseInt(newMajor, 10) >= 18) {
+    // initdb enables checksums by default since PostgreSQL 18
+    args.push("--no-data-checksums");
+  }
+
+  return args;
+}
+
+/**
+ * pg_upgrade arguments for an in-place --link upgrade (or --check dry run)
+ */
+export function buildPgUpgradeArgs(options: PgUpgradeOptions): string[] {
+  const serverOptions = [`-c hba_file=${options.hbaFile}`];
+  if (options.preloadLibraries.length > 0) {
+    serverOptions.push(`-c shared_preload_libraries=${options.preloadLibraries.join(",")}`);
+  }
+  const serverOptionString = serverOptions.join(" ");
+
+  const args = [
+    `--old-bindir=/usr/lib/postgresql/${options.oldMajor}/bin`,
+    `--new-bindir=/usr/lib/postgresql/${options.newMajor}/bin`,
+    `--old-datadir=${options.oldPgdata}`,
+    `--new-datadir=${options.newPgdata}`,
+    `--username=${options.superuser}`,
+    `--old-options=${serverOptionString}`,
+    `--new-options=${serverOptionString}`,
+    `--jobs=${options.jobs}`,
+    "--link",
+  ];
+  if (options.check) {
+    args.push("--check");
+  }
+  return args;
+}
+
+/**
+ * Quote a value for a POSIX shell command line
+ */
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Bash script run in the target image: initdb the new cluster, pg_upgrade --check, then
+ * pg_upgrade --link and carry over the config files pg_upgrade leaves behind.
+ *
+ * In check mode an EXIT trap prints pg_upgrade's problem reports and removes the new data
+ * directory, so a failed check leaves the volume as it was and can simply be retried.
+ */
+export function buildUpgradeScript(options: UpgradeScriptOptions): string {
+  const { upgrade } = options;
+  const newBin = options.newBindir ?? `/usr/lib/postgresql/${upgrade.newMajor}/bin`;
+  const upgradeArgs = (check: boolean): string =>
+    buildPgUpgradeArgs({ ...upgrade, check })
+      .map(shellQuote)
+      .join(" ");
+  const newPgdata = shellQuote(upgrade.newPgdata);
+  const oldPgdata = shellQuote(upgrade.oldPgdata);
+
+  const lines = ["set -euo pipefail", `printf 'local all all trust\\n' > ${upgrade.hbaFile}`];
+  if (options.checkOnly) {
+    // The reports live in the new data directory: print them before it goes
+    const reports = `${newPgdata}/pg_upgrade_output.d`;
+    const cleanup = `if [ -d ${reports} ]; then find ${reports} -name '*.txt' -exec sh -c 'printf "\\n--- %s\\n" "$1"; cat "$1"' sh {} \\; ; fi; rm -rf ${newPgdata}`;
+    lines.push(`trap ${shellQuote(cleanup)} EXIT`);
+  }
+  lines.push(
+    `${newBin}/initdb ${options.initdbArgs.map(shellQuote).join(" ")}`,
+    `cd ${shellQuote(options.workDir)}`,
+    `${newBin}/pg_upgrade ${upgradeArgs(true)}`
+  );
+  if (!options.checkOnly) {
+    lines.push(
+      `${newBin}/pg_upgrade ${upgradeArgs(false)}`,
+      `for f in ${options.carriedConfigFiles.join(" ")}; do if [ -f ${oldPgdata}/"$f" ]; then cp -p ${oldPgdata}/"$f" ${newPgdata}/"$f"; fi; done`
+    );
+  }
+  return lines.join("\n");
+}
@@ -7,10 +7,46 @@
  * @module guc-formatter
  */
 
+/**
+ * Quorum or priority synchronous replication, rendered as synchronous_standby_names
+ * (e.g. `ANY 1 (r1, r2)`). Names are the standbys' application_name, which the replica stack
+ * sets to the replica's replication slot name.
+ */
+export interface SynchronousStandbys {
+  method: "ANY" | "FIRST";
+  /** Standbys that must confirm each commit */
+  count: number;
+  names: string[];
+}
+
 /**
  * Type representing PostgreSQL configuration values
  */
-export type PostgreSQLValue = boolean | number | string | string[];
+export type PostgreSQLValue = boolean | number | string | string[] | SynchronousStandbys;
+
+/**
+ * Render a synchronous_standby_names value
+ *
+ * @throws {Error} If the count does not fit the names or a name is not a valid slot name
+ *
+ * @example
+ * formatSynchronousStandbyNames({ method: "ANY", count: 1, names: ["r1", "r2"] }) // "ANY 1 (r1, r2)"
+ */
+export function formatSynchronousStandbyNames(standbys: SynchronousStandbys): string {
+  const { method, count, names } = standbys;
+  if (!Number.isInteger(count) || count < 1 || count > names.length) {
+    throw new Error(
+      `synchronous_standby_names: ${method} ${count} needs between 1 and ${names.length} standbys`
+    );
+  }
+  const invalid = names.find((name) => !/^[a-zA-Z0-9_]+$/.test(name));
+  if (invalid !== undefined) {
+    throw new Error(
+      `synchronous_standby_names: invalid standby name '${invalid}' (alphanumeric and underscore only)`
+    );
+  }
+  return `${method} ${count} (${names.join(", ")})`;
+}
 
 /**
  * Convert camelCase to snake_case using proper regex patterns
@@ -109,6 +145,10 @@ export function formatValue(value: PostgreSQLValue): string {
     return `'${value.join(",")}'`;
   }
 
+  if (typeof value === "object") {
+    return `'${formatSynchronousStandbyNames(value)}'`;
+  }
+
   // String values get quoted
   return `'${value}'`;
 }
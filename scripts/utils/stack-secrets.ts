@@ -0,0 +1,71 @@
+/**
+ * Stack Secrets Test Utility
+ *
+ * The compose stacks read their passwords from Docker secret files in
+ * ${POSTGRES_SECRETS_DIR:-./secrets}. Integration tests write their generated passwords into a
+ * temporary directory named after the compose project and pass it as POSTGRES_SECRETS_DIR in
+ * the stack's .env.test.
+ *
+ * Usage:
+ *   import { createTestStackSecrets, cleanupTestStackSecrets } from "../utils/stack-secrets";
+ *
+ *   const secretsDir = await createTestStackSecrets(projectName, { postgres_password: "test" });
+ *   await Bun.write(".env.test", `POSTGRES_SECRETS_DIR=${secretsDir}\n`);
+ *   ...
+ *   await cleanupTestStackSecrets(projectName);
+ */
+
+import { $ } from "bun";
+import { warning } from "./logger";
+
+/**
+ * Secret files mounted by the stacks' compose.yml (see scripts/tools/secrets-plan.ts)
+ */
+export interface TestStackSecrets {
+  postgres_password: string;
+  replication_password?: string;
+  pgbouncer_auth_password?: string;
+}
+
+/**
+ * Temporary secrets directory of a compose project
+ */
+export function testStackSecretsDir(projectName: string): string {
+  return `/tmp/aza-pg-test-secrets-${projectName}`;
+}
+
+/**
+ * Write secret files into the project's temporary directory, replacing earlier ones.
+ * Files are mode 644 so the containers' unprivileged users can read them.
+ *
+ * @returns Path to use as POSTGRES_SECRETS_DIR
+ */
+export async function createTestStackSecrets(
+  projectName: string,
+  secrets: TestStackSecrets
+): Promise<string> {
+  const tmpDir = testStackSecretsDir(projectName);
+  await $`mkdir -p ${tmpDir}`.quiet();
+
+  for (const [name, value] of Object.entries(secrets)) {
+    if (value === undefined) {
+      continue;
+    }
+    await Bun.write(`${tmpDir}/${name}`, value);
+    await $`chmod 644 ${tmpDir}/${name}`.quiet();
+  }
+
+  return tmpDir;
+}
+
+/**
+ * Remove the project's secrets directory.
+ * Safe to call when it was never created.
+ */
+export async function cleanupTestStackSecrets(projectName: string): Promise<void> {
+  const secretsDir = testStackSecretsDir(projectName);
+  const result = await $`rm -rf ${secretsDir}`.nothrow().quiet();
+  if (result.exitCode !== 0) {
+    warning(`Failed to cleanup test secrets: ${secretsDir}`);
+  }
+}
@@ -8,9 +8,14 @@ const filesToCheck = [
   "docker/postgres/Dockerfile",
   "docker/postgres/docker-auto-config-entrypoint.sh",
   "docker/postgres/extensions.manifest.json",
+  "docker/postgres/pg17/Dockerfile",
+  "docker/postgres/pg17/extensions.manifest.json",
   "docker/postgres/docker-entrypoint-initdb.d/01-extensions.sql",
   "docs/.generated/docs-data.json",
   "docs/EXTENSIONS.md",
+  "docker/postgres/configs/postgres_exporter_queries.yaml",
+  "examples/prometheus/alerts.yml",
+  "examples/grafana/postgresql-extensions.json",
   ".github/workflow-config.json",
 ];
 
@@ -0,0 +1,252 @@
+#!/bin/bash
+# Scheduled pgBackRest backups for the primary stack (runs in the "backup" sidecar)
+#
+# BACKUP_SCHEDULE holds ';'-separated "type=cron" entries, e.g.
+#   full=0 2 * * 0; diff=0 2 * * 1-6; incr=0 */6 * * *
+# Cron fields: minute hour day-of-month month day-of-week, with *, lists, ranges and steps.
+# When several entries match the same minute, the largest backup type wins (full > diff > incr).
+# Times are evaluated in the container timezone (UTC unless TZ is set).
+#
+# The postgres service archives WAL into the same repository when BACKUP_SCHEDULE is set
+# (see docker-auto-config-entrypoint.sh), so both containers derive the pgBackRest settings
+# from the same BACKUP_* variables.
+set -euo pipefail
+
+# Validate one cron field: *, N, N-M, with optional /STEP, comma-separated
+cron_field_valid() {
+  local field=$1 min=$2 max=$3 part range step lo hi
+  local -a parts
+  IFS=',' read -ra parts <<<"$field"
+  [ "${#parts[@]}" -gt 0 ] || return 1
+  for part in "${parts[@]}"; do
+    [[ $part =~ ^(\*|[0-9]+(-[0-9]+)?)(/[0-9]+)?$ ]] || return 1
+    range=${part%%/*}
+    step=1
+    [[ $part == */* ]] && step=$((10#${part#*/}))
+    [ "$step" -ge 1 ] || return 1
+    [ "$range" = "*" ] && continue
+    lo=$((10#${range%-*}))
+    hi=$((10#${range#*-}))
+    if [ "$lo" -lt "$min" ] || [ "$hi" -gt "$max" ] || [ "$lo" -gt "$hi" ]; then
+      return 1
+    fi
+  done
+}
+
+# Check whether a (validated) cron field matches a value
+cron_field_matches() {
+  local field=$1 value=$2 min=$3 max=$4 part range step lo hi
+  local -a parts
+  IFS=',' read -ra parts <<<"$field"
+  for part in "${parts[@]}"; do
+    range=${part%%/*}
+    step=1
+    [[ $part == */* ]] && step=$((10#${part#*/}))
+    if [ "$range" = "*" ]; then
+      lo=$min
+      hi=$max
+    else
+      lo=$((10#${range%-*}))
+      hi=$((10#${range#*-}))
+      # "N/STEP" means every STEP starting at N
+      [[ $part == */* && $range != *-* ]] && hi=$max
+    fi
+    if [ "$value" -ge "$lo" ] && [ "$value" -le "$hi" ] && [ $(((value - lo) % step)) -eq 0 ]; then
+      return 0
+    fi
+  done
+  return 1
+}
+
+# Check a five-field cron expression against "minute hour day month weekday" (weekday 0-6, Sunday 0)
+cron_matches() {
+  local expr=$1 minute=$2 hour=$3 day=$4 month=$5 weekday=$6
+  local -a fields
+  read -ra fields <<<"$expr"
+  local dow_match=1 dom_match=1
+
+  cron_field_matches "${fields[0]}" "$minute" 0 59 || return 1
+  cron_field_matches "${fields[1]}" "$hour" 0 23 || return 1
+  cron_field_matches "${fields[3]}" "$month" 1 12 || return 1
+
+  cron_field_matches "${fields[2]}" "$day" 1 31 && dom_match=0
+  # Both 0 and 7 mean Sunday
+  if cron_field_matches "${fields[4]}" "$weekday" 0 7 ||
+    { [ "$weekday" -eq 0 ] && cron_field_matches "${fields[4]}" 7 0 7; }; then
+    dow_match=0
+  fi
+
+  # Like cron: when both day fields are restricted, either one may match
+  if [ "${fields[2]}" != "*" ] && [ "${fields[4]}" != "*" ]; then
+    [ "$dom_match" -eq 0 ] || [ "$dow_match" -eq 0 ]
+  else
+    [ "$dom_match" -eq 0 ] && [ "$dow_match" -eq 0 ]
+  fi
+}
+
+SCHEDULE_TYPES=()
+SCHEDULE_EXPRS=()
+
+# Parse BACKUP_SCHEDULE into SCHEDULE_TYPES/SCHEDULE_EXPRS, reporting every invalid entry
+parse_schedule() {
+  local spec=$1 entry type expr failed=0
+  local -a entries fields
+  SCHEDULE_TYPES=()
+  SCHEDULE_EXPRS=()
+  IFS=';' read -ra entries <<<"$(printf '%s' "$spec" | tr '\n' ';')"
+  for entry in "${entries[@]}"; do
+    entry=$(printf '%s' "$entry" | sed -e 's/^[[:space:]]*//' -e 's/[[:space:]]*$//')
+    [ -n "$entry" ] || continue
+    type=${entry%%=*}
+    expr=${entry#*=}
+    type=${type%"${type##*[![:space:]]}"}
+    if [ "$type" = "$entry" ]; then
+      echo "[BACKUP] ERROR: Invalid BACKUP_SCHEDULE entry '$entry': expected type=cron" >&2
+      failed=1
+      continue
+    fi
+    case "$type" in
+      full | diff | incr) ;;
+      *)
+        echo "[BACKUP] ERROR: Invalid BACKUP_SCHEDULE entry '$entry': unknown backup type '$type' (full, diff, incr)" >&2
+        failed=1
+        continue
+        ;;
+    esac
+    read -ra fields <<<"$expr"
+    if [ "${#fields[@]}" -ne 5 ] ||
+      ! cron_field_valid "${fields[0]}" 0 59 ||
+      ! cron_field_valid "${fields[1]}" 0 23 ||
+      ! cron_field_valid "${fields[2]}" 1 31 ||
+      ! cron_field_valid "${fields[3]}" 1 12 ||
+      ! cron_field_valid "${fields[4]}" 0 7; then
+      echo "[BACKUP] ERROR: Invalid BACKUP_SCHEDULE entry '$entry': expected five cron fields (minute hour day month weekday)" >&2
+      failed=1
+      continue
+    fi
+    SCHEDULE_TYPES+=("$type")
+    SCHEDULE_EXPRS+=("${fields[*]}")
+  done
+
+  if [ "$failed" -eq 0 ] && [ "${#SCHEDULE_TYPES[@]}" -eq 0 ]; then
+    echo "[BACKUP] ERROR: BACKUP_SCHEDULE has no entries" >&2
+    failed=1
+  fi
+  return "$failed"
+}
+
+# Print the backup type due at a Unix timestamp (largest match wins), or nothing
+due_backup_type() {
+  local timestamp=$1 minute hour day month weekday i due=""
+  read -r minute hour day month weekday <<<"$(date -d "@$timestamp" '+%M %H %d %m %w')"
+  for i in "${!SCHEDULE_TYPES[@]}"; do
+    cron_matches "${SCHEDULE_EXPRS[$i]}" $((10#$minute)) $((10#$hour)) $((10#$day)) $((10#$month)) "$weekday" || continue
+    case "${SCHEDULE_TYPES[$i]}" in
+      full) due=full ;;
+      diff) [ "$due" = "full" ] || due=diff ;;
+      incr) [ -n "$due" ] || due=incr ;;
+    esac
+  done
+  printf '%s' "$due"
+}
+
+# Resolve <NAME>_FILE (Docker secret) into NAME, like the postgres image does for its credentials
+file_env() {
+  local var=$1
+  local file_var="${var}_FILE"
+  local file="${!file_var:-}"
+  [ -n "$file" ] || return 0
+  if [ -n "${!var:-}" ]; then
+    echo "[BACKUP] ERROR: Both $var and $file_var are set (they are exclusive)" >&2
+    return 1
+  fi
+  if [ ! -r "$file" ]; then
+    echo "[BACKUP] ERROR: $file_var=$file is not readable" >&2
+    return 1
+  fi
+  export "$var"="$(<"$file")"
+  unset "$file_var"
+}
+
+main() {
+  local secret_var
+  for secret_var in PGBACKREST_REPO1_CIPHER_PASS PGBACKREST_REPO1_S3_KEY PGBACKREST_REPO1_S3_KEY_SECRET; do
+    file_env "$secret_var" || exit 1
+  done
+
+  if [ -z "${BACKUP_SCHEDULE:-}" ]; then
+    echo "[BACKUP] ERROR: BACKUP_SCHEDULE not set (e.g. 'full=0 2 * * 0; incr=0 */6 * * *')" >&2
+    exit 1
+  fi
+  parse_schedule "$BACKUP_SCHEDULE" || exit 1
+
+  local stanza="${BACKUP_STANZA:-main}"
+  local repo_path="${BACKUP_REPO_PATH:-/backup/pgbackrest}"
+  local retention_full="${BACKUP_RETENTION_FULL:-2}"
+
+  if [[ ! "$stanza" =~ ^[A-Za-z0-9_-]+$ ]]; then
+    echo "[BACKUP] ERROR: Invalid BACKUP_STANZA: '$stanza'" >&2
+    exit 1
+  fi
+  case "$repo_path" in
+    /*) ;;
+    *)
+      echo "[BACKUP] ERROR: BACKUP_REPO_PATH must be an absolute path: '$repo_path'" >&2
+      exit 1
+      ;;
+  esac
+  if [[ ! "$retention_full" =~ ^[1-9][0-9]*$ ]]; then
+    echo "[BACKUP] ERROR: BACKUP_RETENTION_FULL must be a positive integer: '$retention_full'" >&2
+    exit 1
+  fi
+
+  # pgBackRest reads its options from PGBACKREST_* variables; no config file is needed
+  export PGBACKREST_STANZA="$stanza"
+  export PGBACKREST_REPO1_PATH="$repo_path"
+  export PGBACKREST_REPO1_RETENTION_FULL="$retention_full"
+  export PGBACKREST_PG1_PATH="${PGDATA:?PGDATA not set}"
+  export PGBACKREST_LOG_LEVEL_CONSOLE="${PGBACKREST_LOG_LEVEL_CONSOLE:-info}"
+  export PGBACKREST_LOG_LEVEL_FILE=off
+  # An encrypted repository needs the same passphrase here and in the postgres service
+  if [ -n "${PGBACKREST_REPO1_CIPHER_PASS:-}" ]; then
+    export PGBACKREST_REPO1_CIPHER_TYPE="${PGBACKREST_REPO1_CIPHER_TYPE:-aes-256-cbc}"
+  fi
+
+  echo "[BACKUP] Repository: $repo_path (stanza $stanza, keep $retention_full full backups)"
+  for i in "${!SCHEDULE_TYPES[@]}"; do
+    echo "[BACKUP] Schedule: ${SCHEDULE_TYPES[$i]} at '${SCHEDULE_EXPRS[$i]}'"
+  done
+
+  echo "[BACKUP] Waiting for PostgreSQL..."
+  until pg_isready -q; do
+    sleep 2
+  done
+
+  mkdir -p "$repo_path"
+  if ! pgbackrest stanza-create; then
+    echo "[BACKUP] ERROR: stanza-create failed (is BACKUP_SCHEDULE also set on the postgres service?)" >&2
+    exit 1
+  fi
+
+  local now type
+  while true; do
+    # Wake up at the start of each minute, like cron; minutes spent in a backup are skipped
+    now=$(date +%s)
+    sleep $((60 - now % 60))
+    now=$(date +%s)
+    type=$(due_backup_type "$now")
+    [ -n "$type" ] || continue
+
+    echo "[BACKUP] Starting $type backup"
+    if pgbackrest backup --type="$type"; then
+      echo "[BACKUP] $type backup completed"
+    else
+      echo "[BACKUP] ERROR: $type backup failed (exit code $?)" >&2
+    fi
+  done
+}
+
+# Allow sourcing for the schedule helpers without starting the scheduler
+if [ "${BASH_SOURCE[0]}" = "$0" ]; then
+  main "$@"
+fi
@@ -6,6 +6,19 @@ TEMPLATE="/etc/pgbouncer/pgbouncer.ini.template"
 OUTPUT="/tmp/pgbouncer.ini"
 PGPASSFILE_PATH="/tmp/.pgpass"
 
+# Password from a Docker secret file (PGBOUNCER_AUTH_PASS_FILE)
+if [ -n "${PGBOUNCER_AUTH_PASS_FILE:-}" ]; then
+  if [ -n "${PGBOUNCER_AUTH_PASS:-}" ]; then
+    echo "[PGBOUNCER] ERROR: Both PGBOUNCER_AUTH_PASS and PGBOUNCER_AUTH_PASS_FILE are set (they are exclusive)" >&2
+    exit 1
+  fi
+  if [ ! -r "$PGBOUNCER_AUTH_PASS_FILE" ]; then
+    echo "[PGBOUNCER] ERROR: PGBOUNCER_AUTH_PASS_FILE=$PGBOUNCER_AUTH_PASS_FILE is not readable" >&2
+    exit 1
+  fi
+  PGBOUNCER_AUTH_PASS="$(cat "$PGBOUNCER_AUTH_PASS_FILE")"
+fi
+
 if [ -z "${PGBOUNCER_AUTH_PASS:-}" ]; then
   echo "[PGBOUNCER] ERROR: PGBOUNCER_AUTH_PASS not set" >&2
   exit 1
@@ -25,10 +38,20 @@ escape_password() {
 
 escaped_pass="$(escape_password "$PGBOUNCER_AUTH_PASS")" || exit 1
 
+# Primary server address. scripts/tools/failover-agent.ts records "old_host old_port new_host new_port"
+# here when it repoints a running PgBouncer at a promoted replica, so a restart keeps the new target
+PRIMARY_TARGET_FILE="/tmp/pgbouncer-primary-target"
+server_host=postgres
+server_port=5432
+if [ -f "$PRIMARY_TARGET_FILE" ]; then
+  read -r failover_from_host failover_from_port server_host server_port < "$PRIMARY_TARGET_FILE"
+  echo "[PGBOUNCER] Failover target: $failover_from_host:$failover_from_port -> $server_host:$server_port"
+fi
+
 umask 077
 # Write .pgpass entries for PostgreSQL and PgBouncer connections (used for health checks only)
 # Format: hostname:port:database:username:password
-printf 'postgres:5432:postgres:pgbouncer_auth:%s\n' "$escaped_pass" > "$PGPASSFILE_PATH"
+printf '%s:%s:postgres:pgbouncer_auth:%s\n' "$server_host" "$server_port" "$escaped_pass" > "$PGPASSFILE_PATH"
 printf 'localhost:6432:postgres:pgbouncer_auth:%s\n' "$escaped_pass" >> "$PGPASSFILE_PATH"
 printf 'pgbouncer:6432:postgres:pgbouncer_auth:%s\n' "$escaped_pass" >> "$PGPASSFILE_PATH"
 
@@ -47,9 +70,16 @@ export PGPASSFILE="$PGPASSFILE_PATH"
 
 # Set environment variables with secure defaults
 PGBOUNCER_LISTEN_ADDR="${PGBOUNCER_LISTEN_ADDR:-127.0.0.1}"
-PGBOUNCER_SERVER_SSLMODE="${PGBOUNCER_SERVER_SSLMODE:-prefer}"
+POSTGRES_TLS="${POSTGRES_TLS:-disable}"
+if [ "$POSTGRES_TLS" = "require" ]; then
+  PGBOUNCER_SERVER_SSLMODE="${PGBOUNCER_SERVER_SSLMODE:-verify-full}"
+else
+  PGBOUNCER_SERVER_SSLMODE="${PGBOUNCER_SERVER_SSLMODE:-prefer}"
+fi
 PGBOUNCER_MAX_CLIENT_CONN="${PGBOUNCER_MAX_CLIENT_CONN:-200}"
 PGBOUNCER_DEFAULT_POOL_SIZE="${PGBOUNCER_DEFAULT_POOL_SIZE:-25}"
+PGBOUNCER_MIN_POOL_SIZE="${PGBOUNCER_MIN_POOL_SIZE:-5}"
+PGBOUNCER_RESERVE_POOL_SIZE="${PGBOUNCER_RESERVE_POOL_SIZE:-5}"
 
 # Validate listen address format (IP address or wildcard patterns)
 # Accepts: IPv4 (e.g., 192.168.1.1), 0.0.0.0, *, *.*.*.*
@@ -117,6 +147,201 @@ case "$PGBOUNCER_SERVER_SSLMODE" in
     ;;
 esac
 
+# TLS mode (POSTGRES_TLS=require): PostgreSQL only accepts hostssl connections, so PgBouncer
+# verifies it against the local CA and requires TLS from its own clients as well. Certificates
+# come from scripts/tools/generate-ssl-certs.ts; pgbouncer.key is readable by this unprivileged user.
+TLS_DIR="/etc/pgbouncer/certs"
+case "$POSTGRES_TLS" in
+  disable)
+    ;;
+  require)
+    for tls_file in ca.crt pgbouncer.crt pgbouncer.key; do
+      if [ ! -r "$TLS_DIR/$tls_file" ]; then
+        echo "[PGBOUNCER] ERROR: POSTGRES_TLS=require but $TLS_DIR/$tls_file is missing or unreadable" >&2
+        exit 1
+      fi
+    done
+    if [ "$PGBOUNCER_SERVER_SSLMODE" != "verify-full" ]; then
+      echo "[PGBOUNCER] WARNING: POSTGRES_TLS=require with PGBOUNCER_SERVER_SSLMODE=$PGBOUNCER_SERVER_SSLMODE does not verify the server's hostname" >&2
+    fi
+    # The max_connections lookup below connects like PgBouncer does
+    export PGSSLMODE="$PGBOUNCER_SERVER_SSLMODE"
+    export PGSSLROOTCERT="$TLS_DIR/ca.crt"
+    ;;
+  *)
+    echo "[PGBOUNCER] ERROR: Invalid POSTGRES_TLS: '$POSTGRES_TLS' (expected disable or require)" >&2
+    exit 1
+    ;;
+esac
+
+# Validate connection and pool counts (non-negative integers; pools need at least one connection)
+validate_count() {
+  case "$2" in
+    '' | *[!0-9]*)
+      echo "[PGBOUNCER] ERROR: Invalid $1: '$2' (expected a non-negative integer)" >&2
+      exit 1
+      ;;
+  esac
+  if [ "${3:-}" = "positive" ] && [ "$2" -eq 0 ]; then
+    echo "[PGBOUNCER] ERROR: Invalid $1: must be at least 1" >&2
+    exit 1
+  fi
+}
+
+validate_count PGBOUNCER_MAX_CLIENT_CONN "$PGBOUNCER_MAX_CLIENT_CONN" positive
+validate_count PGBOUNCER_DEFAULT_POOL_SIZE "$PGBOUNCER_DEFAULT_POOL_SIZE" positive
+validate_count PGBOUNCER_MIN_POOL_SIZE "$PGBOUNCER_MIN_POOL_SIZE"
+validate_count PGBOUNCER_RESERVE_POOL_SIZE "$PGBOUNCER_RESERVE_POOL_SIZE"
+
+# Additional databases from PGBOUNCER_DATABASES, entries separated by ';' or newlines:
+#   <name> [host=H] [port=P] [dbname=D] [pool_mode=session|transaction|statement] [pool_size=N]
+# host defaults to the primary server, port to 5432 and dbname to the entry name.
+# Mirrors parsePgBouncerDatabases() in scripts/config-generator/pgbouncer-generator.ts
+DATABASES_LIST="/tmp/pgbouncer-databases.list"
+DATABASES_INI="/tmp/pgbouncer-databases.ini"
+template_databases=$(awk '/^\[/ { in_databases = ($0 == "[databases]"); next }
+  in_databases && /^[A-Za-z0-9_]+ = / { print $1 }' "$TEMPLATE")
+taken_names=" pgbouncer $(printf '%s' "$template_databases" | tr '\n' ' ') "
+
+database_error() {
+  echo "[PGBOUNCER] ERROR: Invalid PGBOUNCER_DATABASES entry '$db_name': $1" >&2
+  exit 1
+}
+
+set -f
+: > "$DATABASES_LIST"
+while read -r db_name db_params; do
+  [ -n "$db_name" ] || continue
+  case "$db_name" in
+    *[!A-Za-z0-9_]*) database_error "name may only contain letters, digits and underscores" ;;
+  esac
+  case "$taken_names" in
+    *" $db_name "*) database_error "database is already declared or reserved" ;;
+  esac
+  taken_names="$taken_names$db_name "
+
+  db_host=postgres
+  db_port=5432
+  db_dbname=$db_name
+  db_mode=-
+  db_size=-
+  for param in $db_params; do
+    key=${param%%=*}
+    value=${param#*=}
+    [ "$key" != "$param" ] || database_error "expected key=value, got '$param'"
+    case "$key" in
+      host)
+        case "$value" in '' | *[!A-Za-z0-9.-]*) database_error "invalid host '$value'" ;; esac
+        db_host=$value
+        ;;
+      port)
+        case "$value" in '' | *[!0-9]*) database_error "invalid port '$value' (1-65535)" ;; esac
+        if [ "$value" -lt 1 ] || [ "$value" -gt 65535 ]; then
+          database_error "invalid port '$value' (1-65535)"
+        fi
+        db_port=$value
+        ;;
+      dbname)
+        case "$value" in '' | *[!A-Za-z0-9_]*) database_error "invalid dbname '$value'" ;; esac
+        db_dbname=$value
+        ;;
+      pool_mode)
+        case "$value" in
+          session | transaction | statement) db_mode=$value ;;
+          *) database_error "invalid pool_mode '$value' (session, transaction, statement)" ;;
+        esac
+        ;;
+      pool_size)
+        case "$value" in '' | *[!0-9]*) database_error "invalid pool_size '$value' (positive integer)" ;; esac
+        [ "$value" -ge 1 ] || database_error "invalid pool_size '$value' (positive integer)"
+        db_size=$value
+        ;;
+      *) database_error "unknown key '$key'" ;;
+    esac
+  done
+  printf '%s %s %s %s %s %s\n' "$db_name" "$db_host" "$db_port" "$db_dbname" "$db_mode" "$db_size" >> "$DATABASES_LIST"
+done <<DATABASES
+$(printf '%s\n' "${PGBOUNCER_DATABASES:-}" | tr ';' '\n')
+DATABASES
+set +f
+
+# Fixed pools on the primary server take pool_size + reserve_pool_size each; template databases
+# and entries without pool_size share the rest of the budget
+requested_reserve_pool_size=$PGBOUNCER_RESERVE_POOL_SIZE
+fixed_total=0
+shared_databases=$(printf '%s\n' "$template_databases" | grep -c .) || true
+while read -r db_name db_host db_port db_dbname db_mode db_size; do
+  if [ "$db_host" = postgres ] && [ "$db_port" = 5432 ]; then
+    if [ "$db_size" = - ]; then
+      shared_databases=$((shared_databases + 1))
+    else
+      fixed_total=$((fixed_total + db_size + requested_reserve_pool_size))
+    fi
+  fi
+done < "$DATABASES_LIST"
+if [ "$shared_databases" -lt 1 ]; then
+  shared_databases=1
+fi
+
+# Fit the pools into the server's max_connections (sized from RAM by its auto-config entrypoint),
+# keeping reserved slots and PGBOUNCER_DIRECT_CONNECTION_RESERVE free for clients that bypass
+# PgBouncer. Mirrors calculatePgBouncerPoolSizes() in scripts/config-generator/pgbouncer-generator.ts
+PGBOUNCER_DIRECT_CONNECTION_RESERVE=5
+server_limit=$(PGCONNECT_TIMEOUT=5 psql -h "$server_host" -p "$server_port" -U pgbouncer_auth -d postgres -Atqc \
+  "SELECT greatest(current_setting('max_connections')::int
+     - current_setting('superuser_reserved_connections')::int
+     - coalesce(current_setting('reserved_connections', true)::int, 0), 0)" 2>/dev/null) || server_limit=""
+
+case "$server_limit" in
+  '' | *[!0-9]*)
+    echo "[PGBOUNCER] WARNING: Could not read max_connections from postgres; pool sizes are not clamped and max_db_connections is unlimited" >&2
+    PGBOUNCER_MAX_DB_CONNECTIONS=0
+    ;;
+  *)
+    budget=$((server_limit - PGBOUNCER_DIRECT_CONNECTION_RESERVE))
+    if [ "$budget" -lt 1 ]; then
+      budget=1
+    fi
+    if [ "$fixed_total" -gt "$budget" ]; then
+      echo "[PGBOUNCER] ERROR: Declared pool_size values need $fixed_total server connections (including reserve pools) but only $budget are available" >&2
+      exit 1
+    fi
+    share=$(((budget - fixed_total) / shared_databases))
+    if [ "$share" -lt 1 ]; then
+      echo "[PGBOUNCER] ERROR: No server connections left for databases without pool_size" >&2
+      exit 1
+    fi
+    if [ "$PGBOUNCER_DEFAULT_POOL_SIZE" -gt "$share" ]; then
+      echo "[PGBOUNCER] WARNING: default_pool_size $PGBOUNCER_DEFAULT_POOL_SIZE exceeds the server connection budget ($share) - clamping" >&2
+      PGBOUNCER_DEFAULT_POOL_SIZE=$share
+    fi
+    if [ "$PGBOUNCER_RESERVE_POOL_SIZE" -gt $((share - PGBOUNCER_DEFAULT_POOL_SIZE)) ]; then
+      PGBOUNCER_RESERVE_POOL_SIZE=$((share - PGBOUNCER_DEFAULT_POOL_SIZE))
+      echo "[PGBOUNCER] WARNING: reserve_pool_size reduced to $PGBOUNCER_RESERVE_POOL_SIZE to stay within the budget" >&2
+    fi
+    PGBOUNCER_MAX_DB_CONNECTIONS=$share
+    echo "[PGBOUNCER] Server connection budget: $budget (max_connections minus reserved slots and $PGBOUNCER_DIRECT_CONNECTION_RESERVE direct connections)"
+    ;;
+esac
+if [ "$PGBOUNCER_MIN_POOL_SIZE" -gt "$PGBOUNCER_DEFAULT_POOL_SIZE" ]; then
+  PGBOUNCER_MIN_POOL_SIZE=$PGBOUNCER_DEFAULT_POOL_SIZE
+fi
+echo "[PGBOUNCER] Pools: default_pool_size=$PGBOUNCER_DEFAULT_POOL_SIZE reserve_pool_size=$PGBOUNCER_RESERVE_POOL_SIZE min_pool_size=$PGBOUNCER_MIN_POOL_SIZE max_db_connections=$PGBOUNCER_MAX_DB_CONNECTIONS"
+
+# Render the declared databases (fixed pools are capped at pool_size + reserve_pool_size)
+: > "$DATABASES_INI"
+while read -r db_name db_host db_port db_dbname db_mode db_size; do
+  line="$db_name = host=$db_host port=$db_port dbname=$db_dbname"
+  if [ "$db_mode" != - ]; then
+    line="$line pool_mode=$db_mode"
+  fi
+  if [ "$db_size" != - ]; then
+    line="$line pool_size=$db_size max_db_connections=$((db_size + requested_reserve_pool_size))"
+  fi
+  printf '%s\n' "$line" >> "$DATABASES_INI"
+  echo "[PGBOUNCER] Database $line"
+done < "$DATABASES_LIST"
+
 # Generate userlist.txt with auth_user credentials
 # PgBouncer needs plaintext password for auth_user to connect to PostgreSQL for auth_query
 # Note: userlist.txt is secured with 600 permissions and only lives in container memory
@@ -133,8 +358,34 @@ sed -e "s|PGBOUNCER_LISTEN_ADDR_PLACEHOLDER|${PGBOUNCER_LISTEN_ADDR}|g" \
     -e "s|PGBOUNCER_SERVER_SSLMODE_PLACEHOLDER|${PGBOUNCER_SERVER_SSLMODE}|g" \
     -e "s|PGBOUNCER_MAX_CLIENT_CONN_PLACEHOLDER|${PGBOUNCER_MAX_CLIENT_CONN}|g" \
     -e "s|PGBOUNCER_DEFAULT_POOL_SIZE_PLACEHOLDER|${PGBOUNCER_DEFAULT_POOL_SIZE}|g" \
-    "$TEMPLATE" > "$OUTPUT"
+    -e "s|PGBOUNCER_MIN_POOL_SIZE_PLACEHOLDER|${PGBOUNCER_MIN_POOL_SIZE}|g" \
+    -e "s|PGBOUNCER_RESERVE_POOL_SIZE_PLACEHOLDER|${PGBOUNCER_RESERVE_POOL_SIZE}|g" \
+    -e "s|PGBOUNCER_MAX_DB_CONNECTIONS_PLACEHOLDER|${PGBOUNCER_MAX_DB_CONNECTIONS}|g" \
+    "$TEMPLATE" |
+  awk -v databases="$DATABASES_INI" '$0 == "PGBOUNCER_DATABASES_PLACEHOLDER" {
+      while ((getline line < databases) > 0) print line
+      next
+    }
+    { print }' > "$OUTPUT"
 chmod 600 "$OUTPUT"
 
+# [pgbouncer] is the template's last section, so TLS settings can be appended
+if [ "$POSTGRES_TLS" = "require" ]; then
+  cat >> "$OUTPUT" <<EOF
+server_tls_ca_file = $TLS_DIR/ca.crt
+client_tls_sslmode = require
+client_tls_cert_file = $TLS_DIR/pgbouncer.crt
+client_tls_key_file = $TLS_DIR/pgbouncer.key
+client_tls_ca_file = $TLS_DIR/ca.crt
+EOF
+  echo "[PGBOUNCER] TLS mode: server_tls_sslmode=$PGBOUNCER_SERVER_SSLMODE, client_tls_sslmode=require"
+fi
+
+# Keep the failover agent's rewrite of [databases] entries on the old primary
+if [ -n "${failover_from_host:-}" ]; then
+  from_pattern="host=$(printf '%s' "$failover_from_host" | sed 's/\./\\./g') port=$failover_from_port "
+  sed -i "s/ $from_pattern/ host=$server_host port=$server_port /" "$OUTPUT"
+fi
+
 echo "[PGBOUNCER] Configuration rendered to $OUTPUT"
 exec pgbouncer "$OUTPUT"
@@ -13,7 +13,7 @@ if [ -z "$PRIMARY_HOST" ]; then
 fi
 
 if [ -z "$PG_REPLICATION_USER" ] || [ -z "$PG_REPLICATION_PASSWORD" ]; then
-  echo "[REPLICA] ERROR: PG_REPLICATION_USER or PG_REPLICATION_PASSWORD not set"
+  echo "[REPLICA] ERROR: PG_REPLICATION_USER or PG_REPLICATION_PASSWORD (or PG_REPLICATION_PASSWORD_FILE) not set"
   exit 1
 fi
 
@@ -26,6 +26,33 @@ if [[ ! "$REPLICATION_SLOT_NAME" =~ ^[a-zA-Z0-9_]+$ ]]; then
   exit 1
 fi
 
+# Delayed replica: a number with an optional unit (ms, s, min, h, d), as recovery_min_apply_delay takes it
+REPLICA_APPLY_DELAY="${REPLICA_APPLY_DELAY:-}"
+if [ -n "$REPLICA_APPLY_DELAY" ] && [[ ! "$REPLICA_APPLY_DELAY" =~ ^[0-9]+(ms|s|min|h|d)?$ ]]; then
+  echo "[REPLICA] ERROR: Invalid REPLICA_APPLY_DELAY '$REPLICA_APPLY_DELAY' (e.g. 30min, 1h, 1d)"
+  exit 1
+fi
+
+# TLS mode (POSTGRES_TLS=require): verify the upstream's certificate against the local CA that the
+# entrypoint copied next to PGDATA, and authenticate replication with the replicator client
+# certificate (the upstream's pg_hba-tls.conf uses cert for it). The options end up in
+# primary_conninfo too.
+UPSTREAM_TLS_OPTIONS=""
+if [ "${POSTGRES_TLS:-disable}" = "require" ]; then
+  export PGSSLMODE=verify-full
+  export PGSSLROOTCERT="${POSTGRES_TLS_CA_FILE:-/var/lib/postgresql/tls/ca.crt}"
+  UPSTREAM_TLS_OPTIONS=" sslmode=verify-full sslrootcert=$PGSSLROOTCERT"
+  TLS_CLIENT_DIR="$(dirname "$PGSSLROOTCERT")"
+  if [ -r "$TLS_CLIENT_DIR/replicator.key" ]; then
+    export PGSSLCERT="$TLS_CLIENT_DIR/replicator.crt"
+    export PGSSLKEY="$TLS_CLIENT_DIR/replicator.key"
+    UPSTREAM_TLS_OPTIONS="$UPSTREAM_TLS_OPTIONS sslcert=$PGSSLCERT sslkey=$PGSSLKEY"
+  else
+    echo "[REPLICA] WARNING: no replicator client certificate; an upstream with cert auth will refuse replication"
+  fi
+  echo "[REPLICA] TLS mode: connecting to $PRIMARY_HOST with sslmode=verify-full"
+fi
+
 echo "[REPLICA] Waiting for primary at $PRIMARY_HOST:$PRIMARY_PORT..."
 for i in $(seq 1 30); do
   if PGPASSWORD="$PG_REPLICATION_PASSWORD" pg_isready -h "$PRIMARY_HOST" -p "$PRIMARY_PORT" -U "$PG_REPLICATION_USER" 2>/dev/null; then
@@ -39,12 +66,25 @@ for i in $(seq 1 30); do
   sleep 2
 done
 
-echo "[REPLICA] Verifying replication slot '$REPLICATION_SLOT_NAME' exists on primary..."
-SLOT_EXISTS=$(PGPASSWORD="$PG_REPLICATION_PASSWORD" psql -h "$PRIMARY_HOST" -p "$PRIMARY_PORT" -U "$PG_REPLICATION_USER" -d postgres -tA -c "SELECT COUNT(*) FROM pg_replication_slots WHERE slot_name = '$REPLICATION_SLOT_NAME'" 2>/dev/null || echo "0")
+upstream_psql() {
+  PGPASSWORD="$PG_REPLICATION_PASSWORD" psql -h "$PRIMARY_HOST" -p "$PRIMARY_PORT" -U "$PG_REPLICATION_USER" -d postgres -tA -c "$1"
+}
+
+# PRIMARY_HOST may be another replica (cascading replication)
+UPSTREAM_IN_RECOVERY=$(upstream_psql "SELECT pg_is_in_recovery()" 2>/dev/null || echo "f")
+
+echo "[REPLICA] Verifying replication slot '$REPLICATION_SLOT_NAME' exists on upstream..."
+SLOT_EXISTS=$(upstream_psql "SELECT COUNT(*) FROM pg_replication_slots WHERE slot_name = '$REPLICATION_SLOT_NAME'" 2>/dev/null || echo "0")
 if [ "$SLOT_EXISTS" -eq 0 ]; then
-  echo "[REPLICA] ERROR: Replication slot '$REPLICATION_SLOT_NAME' does not exist on primary"
-  echo "[REPLICA] Create it on primary with: SELECT pg_create_physical_replication_slot(:'slot_name');"
-  exit 1
+  if [ "$UPSTREAM_IN_RECOVERY" = "t" ]; then
+    # Replica init scripts do not create slots; a cascading replica creates its own on the upstream replica
+    echo "[REPLICA] Creating replication slot '$REPLICATION_SLOT_NAME' on upstream replica..."
+    upstream_psql "SELECT pg_create_physical_replication_slot('$REPLICATION_SLOT_NAME')" >/dev/null
+  else
+    echo "[REPLICA] ERROR: Replication slot '$REPLICATION_SLOT_NAME' does not exist on primary"
+    echo "[REPLICA] Add it to the primary's REPLICATION_SLOT_NAMES, or create it with: bun scripts/tools/replication-slots.ts --container <primary> --keep $REPLICATION_SLOT_NAME"
+    exit 1
+  fi
 fi
 echo "[REPLICA] Replication slot verified"
 
@@ -62,8 +102,11 @@ rm -rf "${PGDATA:?}"/*
 
 # Run pg_basebackup to clone primary
 # -R flag automatically creates standby.signal and writes primary_conninfo
+# application_name (kept in primary_conninfo) is the slot name, so synchronous_standby_names
+# on the upstream can name this replica
 echo "[REPLICA] Cloning primary database..."
 PGPASSWORD="$PG_REPLICATION_PASSWORD" pg_basebackup \
+  -d "application_name=$REPLICATION_SLOT_NAME$UPSTREAM_TLS_OPTIONS" \
   -h "$PRIMARY_HOST" \
   -p "$PRIMARY_PORT" \
   -U "$PG_REPLICATION_USER" \
@@ -76,7 +119,22 @@ PGPASSWORD="$PG_REPLICATION_PASSWORD" pg_basebackup \
   -c fast
 
 echo "[REPLICA] Base backup complete"
+
+# postgresql.auto.conf overrides the mounted postgresql.conf and ALTER SYSTEM can change it later,
+# which delayed-replica.ts relies on. hot_standby_feedback would hold back VACUUM on the primary
+# for the whole delay, since the feedback reports the delayed replay position.
+if [ -n "$REPLICA_APPLY_DELAY" ] && [[ ! "$REPLICA_APPLY_DELAY" =~ ^0+(ms|s|min|h|d)?$ ]]; then
+  cat >> "$PGDATA/postgresql.auto.conf" <<EOF
+recovery_min_apply_delay = '$REPLICA_APPLY_DELAY'
+hot_standby_feedback = 'off'
+EOF
+  echo "[REPLICA] Delayed replica: transactions are applied $REPLICA_APPLY_DELAY after they commit on the primary"
+fi
+
 echo "[REPLICA] Connected to: $PRIMARY_HOST:$PRIMARY_PORT"
+if [ "$UPSTREAM_IN_RECOVERY" = "t" ]; then
+  echo "[REPLICA] Cascading: upstream is itself a replica"
+fi
 echo "[REPLICA] Replication slot: $REPLICATION_SLOT_NAME"
 echo "[REPLICA] Standby mode enabled - replica will start in recovery mode"
 